@@ -23,12 +23,16 @@ const AuthenticationType = {
 
 let level = SecurityLevel.BIOMETRIC_STRONG
 let types = [AuthenticationType.FACIAL_RECOGNITION]
+let enrollmentState = 'enrolled-1'
 
 const fake = {
   SecurityLevel,
   AuthenticationType,
   getEnrolledLevelAsync: jest.fn(async () => level),
   supportedAuthenticationTypesAsync: jest.fn(async () => types),
+  getBiometricEnrollmentStateAsync: jest.fn(async () =>
+    level >= SecurityLevel.BIOMETRIC_WEAK ? enrollmentState : null
+  ),
   hasHardwareAsync: jest.fn(async () => level > SecurityLevel.SECRET),
   isEnrolledAsync: jest.fn(async () => level >= SecurityLevel.BIOMETRIC_WEAK),
   authenticateAsync: jest.fn(async () => {
@@ -41,9 +45,13 @@ const fake = {
   __setTypes(next) {
     types = next
   },
+  __setEnrollmentState(next) {
+    enrollmentState = next
+  },
   __reset() {
     level = SecurityLevel.BIOMETRIC_STRONG
     types = [AuthenticationType.FACIAL_RECOGNITION]
+    enrollmentState = 'enrolled-1'
     fake.getEnrolledLevelAsync.mockClear()
     fake.authenticateAsync.mockClear()
   }
@@ -0,0 +1,143 @@
+/**
+ * Self-hosted backup servers: the identity challenge, the pin, and the stored choice.
+ *
+ * A server is only ever saved with the key it proved, and once saved, a server at that
+ * origin publishing any other key gets no request signed to it. Both halves run here
+ * against the stand-in through the real client.
+ */
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+)
+
+import AsyncStorage from '@react-native-async-storage/async-storage'
+import { PrivateKey, Utils } from '@bsv/sdk'
+import { BackupClient, BackupServerIdentityError, pinServerIdentity, verifyServerIdentity } from '@/utils/backup/client'
+import {
+  BACKUP_ENDPOINT_KEY,
+  getBackupEndpoint,
+  normalizeBackupOrigin,
+  resetBackupEndpoint,
+  resetBackupEndpointCache,
+  setBackupEndpoint
+} from '@/utils/backup/endpoint'
+import { BackupServerStandIn, STAND_IN_ORIGIN } from '@/utils/backup/serverStandIn'
+
+const KEY = new PrivateKey(61).toArray('be', 32)
+
+beforeEach(async () => {
+  await AsyncStorage.clear()
+  resetBackupEndpointCache()
+  pinServerIdentity(STAND_IN_ORIGIN, undefined)
+})
+
+describe('verifyServerIdentity', () => {
+  it('accepts a server that signs the challenge with its published key', async () => {
+    const server = new BackupServerStandIn({ maxBlobBytes: 4096 })
+
+    const limits = await verifyServerIdentity(STAND_IN_ORIGIN, undefined, server.fetch)
+    expect(limits).toMatchObject({ maxBlobBytes: 4096, serverIdentityKey: server.identityKey })
+  })
+
+  it('refuses a server holding some other key than the one its operator gave out', async () => {
+    const server = new BackupServerStandIn()
+    const expected = new PrivateKey(62).toPublicKey().toString()
+
+    await expect(verifyServerIdentity(STAND_IN_ORIGIN, expected, server.fetch)).rejects.toBeInstanceOf(
+      BackupServerIdentityError
+    )
+  })
+
+  it('refuses a server that publishes a key it cannot sign with', async () => {
+    // Publishes the real server's key but answers the challenge with an impostor's signature.
+    const real = new BackupServerStandIn()
+    const impostor = new PrivateKey(63)
+    const forging: typeof fetch = async (input, init) => {
+      const url = new URL(String(input))
+      if (url.pathname !== '/v1/identity') return await real.fetch(input, init)
+      const nonce = url.searchParams.get('nonce') ?? ''
+      const signature = impostor.sign(Utils.toArray(`bsv wallet backup server identity:${nonce}`, 'utf8'))
+      return new Response(JSON.stringify({ serverIdentityKey: real.identityKey, signature: signature.toDER('hex') }))
+    }
+
+    await expect(verifyServerIdentity(STAND_IN_ORIGIN, undefined, forging)).rejects.toThrow(/could not prove/)
+  })
+})
+
+describe('server identity pinning', () => {
+  it('sends nothing to a server at the pinned origin with a different key', async () => {
+    const verified = new BackupServerStandIn()
+    const swapped = new BackupServerStandIn()
+    pinServerIdentity(STAND_IN_ORIGIN, verified.identityKey)
+
+    await expect(verified.client(KEY).manifest()).resolves.toEqual([])
+    await expect(swapped.client(KEY).manifest()).rejects.toBeInstanceOf(BackupServerIdentityError)
+  })
+
+  it('sends nothing to a server that publishes the pinned key but cannot prove it', async () => {
+    const verified = new BackupServerStandIn()
+    const copier = new BackupServerStandIn()
+    pinServerIdentity(STAND_IN_ORIGIN, verified.identityKey)
+    const seen: string[] = []
+    const copying: typeof fetch = async (input, init) => {
+      const url = new URL(String(input))
+      seen.push(url.pathname)
+      const res = await copier.fetch(input, init)
+      if (url.pathname !== '/v1/limits' && url.pathname !== '/v1/identity') return res
+      return new Response(JSON.stringify({ ...(await res.json()), serverIdentityKey: verified.identityKey }))
+    }
+
+    await expect(new BackupClient(STAND_IN_ORIGIN, KEY, copying).manifest()).rejects.toBeInstanceOf(
+      BackupServerIdentityError
+    )
+    expect(seen).toEqual(['/v1/limits', '/v1/identity'])
+  })
+
+  it('challenges the server once per client', async () => {
+    const server = new BackupServerStandIn()
+    pinServerIdentity(STAND_IN_ORIGIN, server.identityKey)
+    const seen: string[] = []
+    const client = new BackupClient(STAND_IN_ORIGIN, KEY, async (input, init) => {
+      seen.push(new URL(String(input)).pathname)
+      return await server.fetch(input, init)
+    })
+
+    await client.manifest()
+    await client.manifest()
+    expect(seen.filter(p => p === '/v1/identity')).toHaveLength(1)
+  })
+
+  it('pins whatever endpoint is saved, and lifts the pin on reset', async () => {
+    const verified = new BackupServerStandIn({ identity: new PrivateKey(64) })
+    const swapped = new BackupServerStandIn()
+
+    await setBackupEndpoint({ url: STAND_IN_ORIGIN, serverIdentityKey: verified.identityKey })
+    await expect(swapped.client(KEY).manifest()).rejects.toBeInstanceOf(BackupServerIdentityError)
+
+    await resetBackupEndpoint()
+    await expect(swapped.client(KEY).manifest()).resolves.toEqual([])
+  })
+})
+
+describe('backup endpoint', () => {
+  it('survives a restart with its pin', async () => {
+    const key = new PrivateKey(65).toPublicKey().toString()
+    await setBackupEndpoint({ url: 'https://backup.example.test', serverIdentityKey: key })
+    resetBackupEndpointCache()
+
+    expect(await getBackupEndpoint()).toEqual({ url: 'https://backup.example.test', serverIdentityKey: key })
+  })
+
+  it('falls back to the build default for anything saved without a key', async () => {
+    await AsyncStorage.setItem(BACKUP_ENDPOINT_KEY, JSON.stringify({ url: 'https://unverified.example.test' }))
+    expect((await getBackupEndpoint()).serverIdentityKey).toBeUndefined()
+    expect((await getBackupEndpoint()).url).not.toBe('https://unverified.example.test')
+  })
+
+  it('accepts origins only, over https except on the machine itself', () => {
+    expect(normalizeBackupOrigin(' backup.example.test ')).toBe('https://backup.example.test')
+    expect(normalizeBackupOrigin('https://backup.example.test/')).toBe('https://backup.example.test')
+    expect(normalizeBackupOrigin('http://localhost:8787')).toBe('http://localhost:8787')
+    expect(() => normalizeBackupOrigin('https://example.test/backup')).toThrow(/no path/)
+    expect(() => normalizeBackupOrigin('http://backup.example.test')).toThrow(/https/)
+  })
+})
@@ -0,0 +1,75 @@
+/**
+ * Moving a backup log between servers.
+ *
+ * The copy is verbatim ciphertext at the same sequence numbers, so the destination's chain
+ * must come out hash-for-hash identical to the source's — which is what lets a push cursor
+ * and live-sync cursors carry straight across.
+ */
+import { PrivateKey } from '@bsv/sdk'
+import { backupPseudonym } from '@/utils/backup/derive'
+import { migrateBackupLog } from '@/utils/backup/migrate'
+import { BackupChainError } from '@/utils/backup/RemoteSyncReader'
+import { BackupServerStandIn } from '@/utils/backup/serverStandIn'
+
+const KEY = new PrivateKey(71).toArray('be', 32)
+const PSEUDONYM = backupPseudonym(KEY)
+const PHONE = 'a'.repeat(32)
+const TABLET = 'b'.repeat(32)
+
+async function appendN (server: BackupServerStandIn, deviceId: string, generation: number, n: number, fill = 0): Promise<void> {
+  const client = server.client(KEY)
+  let prev: string | undefined
+  for (let seq = 1; seq <= n; seq++) {
+    prev = (await client.append(deviceId, generation, seq, prev, [fill, seq])).sha256
+  }
+}
+
+const hashes = (server: BackupServerStandIn, deviceId: string, generation: number): string[] =>
+  server.entries(PSEUDONYM, deviceId, generation).map(e => e.sha256)
+
+describe('migrateBackupLog', () => {
+  it('copies every device and generation with an identical chain', async () => {
+    const from = new BackupServerStandIn()
+    const to = new BackupServerStandIn()
+    await appendN(from, PHONE, 1, 3)
+    await appendN(from, PHONE, 2, 2)
+    await appendN(from, TABLET, 1, 1)
+
+    const progress: number[] = []
+    const result = await migrateBackupLog({
+      primaryKey: KEY,
+      from: from.client(KEY),
+      to: to.client(KEY),
+      onProgress: chunks => progress.push(chunks)
+    })
+
+    expect(result).toEqual({ generations: 3, copied: 6 })
+    expect(progress[progress.length - 1]).toBe(6)
+    for (const [device, generation] of [[PHONE, 1], [PHONE, 2], [TABLET, 1]] as const) {
+      expect(hashes(to, device, generation)).toEqual(hashes(from, device, generation))
+    }
+  })
+
+  it('resumes a generation the destination already holds the start of', async () => {
+    const from = new BackupServerStandIn()
+    const to = new BackupServerStandIn()
+    await appendN(from, PHONE, 1, 3)
+    await appendN(to, PHONE, 1, 2)
+
+    const result = await migrateBackupLog({ primaryKey: KEY, from: from.client(KEY), to: to.client(KEY) })
+
+    expect(result.copied).toBe(1)
+    expect(hashes(to, PHONE, 1)).toEqual(hashes(from, PHONE, 1))
+  })
+
+  it('stops at a destination log this wallet did not write there', async () => {
+    const from = new BackupServerStandIn()
+    const to = new BackupServerStandIn()
+    await appendN(from, PHONE, 1, 2)
+    await appendN(to, PHONE, 1, 1, 9)
+
+    await expect(
+      migrateBackupLog({ primaryKey: KEY, from: from.client(KEY), to: to.client(KEY) })
+    ).rejects.toBeInstanceOf(BackupChainError)
+  })
+})
@@ -0,0 +1,74 @@
+/**
+ * Generation previews: what the wallet held after each chunk of a backup log.
+ *
+ * Chunks are encrypted with the real codec and served by the in-process stand-in, so the
+ * fold sees exactly what a restore would replay.
+ */
+import { PrivateKey } from '@bsv/sdk'
+import type { SyncChunk } from '@bsv/wallet-toolbox-mobile/out/src/sdk/WalletStorage.interfaces'
+import { emptyChunk, encodeChunk } from '@/utils/backup/codec'
+import { deriveBackupWallet } from '@/utils/backup/derive'
+import { previewGeneration } from '@/utils/backup/preview'
+import { BackupChainError } from '@/utils/backup/RemoteSyncReader'
+import { BackupServerStandIn } from '@/utils/backup/serverStandIn'
+
+const PRIMARY = new PrivateKey(51).toArray('be', 32)
+const DEVICE = 'f'.repeat(32)
+
+const basket = (basketId: number, name: string): Record<string, unknown> => ({ basketId, name, isDeleted: false })
+const tx = (transactionId: number, status: string, day: number): Record<string, unknown> => ({
+  transactionId, status, created_at: new Date(Date.UTC(2026, 7, day))
+})
+const output = (outputId: number, transactionId: number, basketId: number, satoshis: number, spendable = true): Record<string, unknown> => ({
+  outputId, transactionId, basketId, satoshis, spendable
+})
+
+function chunk (parts: Record<string, Array<Record<string, unknown>>>): SyncChunk { // eslint-disable-line @typescript-eslint/array-type
+  return { ...emptyChunk('a', 'b', 'user'), ...parts } as unknown as SyncChunk
+}
+
+async function publish (server: BackupServerStandIn, chunks: SyncChunk[]): Promise<void> {
+  const client = server.client(PRIMARY)
+  const wallet = deriveBackupWallet(PRIMARY)
+  let prev: string | undefined
+  for (let i = 0; i < chunks.length; i++) {
+    prev = (await client.append(DEVICE, 1, i + 1, prev, await encodeChunk(wallet, chunks[i]))).sha256
+  }
+}
+
+describe('previewGeneration', () => {
+  it('summarizes the wallet as of every chunk boundary', async () => {
+    const server = new BackupServerStandIn()
+    await publish(server, [
+      chunk({ outputBaskets: [basket(1, 'default'), basket(2, 'tokens')], transactions: [tx(1, 'completed', 1)], outputs: [output(1, 1, 1, 1000)] }),
+      // Spends the first output into the second: a later version of output 1 replaces it.
+      chunk({ transactions: [tx(2, 'completed', 5)], outputs: [output(1, 1, 1, 1000, false), output(2, 2, 1, 2000)] }),
+      // Neither counts: a failed transaction's output, and one outside the default basket.
+      chunk({ transactions: [tx(3, 'failed', 9), tx(4, 'completed', 3)], outputs: [output(3, 3, 1, 500), output(4, 4, 2, 700)] })
+    ])
+
+    const preview = await previewGeneration({ primaryKey: PRIMARY, client: server.client(PRIMARY), deviceId: DEVICE, generation: 1 })
+
+    expect(preview.points.map(p => [p.seq, p.txCount, p.balance])).toEqual([
+      [1, 1, 1000],
+      [2, 2, 2000],
+      [3, 4, 2000]
+    ])
+    expect(preview.points[2].firstTxAt).toBe('2026-08-01T00:00:00.000Z')
+    expect(preview.points[2].lastTxAt).toBe('2026-08-09T00:00:00.000Z')
+  })
+
+  it('refuses a log with a gap before decrypting anything', async () => {
+    const server = new BackupServerStandIn()
+    await publish(server, [chunk({}), chunk({})])
+    const client = server.client(PRIMARY)
+    const entries = await client.index(DEVICE, 1)
+    client.index = jest.fn().mockResolvedValue([entries[1]])
+    client.blob = jest.fn()
+
+    await expect(
+      previewGeneration({ primaryKey: PRIMARY, client, deviceId: DEVICE, generation: 1 })
+    ).rejects.toBeInstanceOf(BackupChainError)
+    expect(client.blob).not.toHaveBeenCalled()
+  })
+})
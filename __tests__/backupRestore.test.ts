@@ -118,6 +118,30 @@ describe('RemoteSyncReader', () => {
     expect(client.index).toHaveBeenCalledTimes(1)
   })
 
+  it('stops after the chosen sequence for a point-in-time restore', async () => {
+    const w = deriveBackupWallet(PRIMARY)
+    const blobs = [
+      await encodeChunk(w, chunkWithTx('aaa')),
+      await encodeChunk(w, chunkWithTx('bbb')),
+      await encodeChunk(w, chunkWithTx('ccc'))
+    ]
+    const client = fakeClient(blobs)
+    const reader = new RemoteSyncReader(client, w, DEVICE, 1, SETTINGS, 2)
+
+    expect((await reader.getSyncChunk(args)).provenTxs?.[0].txid).toBe('aaa')
+    expect((await reader.getSyncChunk(args)).provenTxs?.[0].txid).toBe('bbb')
+    expect(isEmptyChunk(await reader.getSyncChunk(args))).toBe(true)
+    expect(client.blob).not.toHaveBeenCalledWith(DEVICE, 1, 3)
+  })
+
+  it('refuses a restore point past the end of the log', async () => {
+    const w = deriveBackupWallet(PRIMARY)
+    const blobs = [await encodeChunk(w, chunkWithTx('aaa'))]
+
+    const reader = new RemoteSyncReader(fakeClient(blobs), w, DEVICE, 1, SETTINGS, 2)
+    await expect(reader.getSyncChunk(args)).rejects.toBeInstanceOf(BackupChainError)
+  })
+
   it('round-trips a chunk through encode and restore byte-exactly', async () => {
     // The property the whole feature depends on: what a restore replays is exactly what
     // the push captured, including the binary fields that make outputs spendable.
@@ -0,0 +1,219 @@
+/* eslint-disable import/first -- jest.mock must be hoisted above the imports it affects */
+/**
+ * Backup end to end: push → rotate → restore → restoreOnImport, over the real schema.
+ *
+ * Nothing here is mocked above the wire. Two StorageExpoSQLite providers run on
+ * node:sqlite, the real BackupClient encrypts and signs, and the server is the in-process
+ * stand-in. What the piecewise suites cannot show, these do: that the derivation data a
+ * phrase cannot rebuild actually comes back out the other end.
+ */
+jest.mock('expo-sqlite', () => {
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  const { DatabaseSync } = require('node:sqlite')
+  const toParams = (params?: unknown[]): any[] =>
+    (params ?? []).map(p => {
+      if (p === undefined) return null
+      if (p instanceof Uint8Array) return p
+      if (Array.isArray(p)) return Uint8Array.from(p as number[])
+      if (p instanceof Date) return p.toISOString()
+      if (typeof p === 'boolean') return p ? 1 : 0
+      return p
+    })
+  class Db {
+    d = new DatabaseSync(':memory:')
+    async execAsync (sql: string): Promise<void> { this.d.exec(sql) }
+    async runAsync (sql: string, params?: unknown[]): Promise<{ lastInsertRowId: number, changes: number }> {
+      const r = this.d.prepare(sql).run(...toParams(params))
+      return { lastInsertRowId: Number(r.lastInsertRowid), changes: Number(r.changes) }
+    }
+
+    async getFirstAsync (sql: string, params?: unknown[]): Promise<unknown> {
+      return this.d.prepare(sql).get(...toParams(params)) ?? null
+    }
+
+    async getAllAsync (sql: string, params?: unknown[]): Promise<unknown[]> {
+      return this.d.prepare(sql).all(...toParams(params))
+    }
+
+    async withExclusiveTransactionAsync (fn: (tx: Db) => Promise<void>): Promise<void> {
+      this.d.exec('BEGIN')
+      try {
+        await fn(this)
+        this.d.exec('COMMIT')
+      } catch (e) {
+        this.d.exec('ROLLBACK')
+        throw e
+      }
+    }
+
+    async closeAsync (): Promise<void> { this.d.close() }
+  }
+  return {
+    openDatabaseAsync: async () => new Db(),
+    deleteDatabaseAsync: async () => {}
+  }
+})
+jest.mock('@/utils/diskSpace', () => ({
+  availableDiskBytes: jest.fn(async () => 10_000_000_000),
+  diskPressure: jest.fn(async () => ({ pressured: false }))
+}))
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+)
+// Small chunks and short generations, so a handful of records exercises paging and rotation.
+jest.mock('@/utils/backup/constants', () => ({
+  ...jest.requireActual('@/utils/backup/constants'),
+  MAX_ITEMS: 2,
+  GENERATION_CHUNK_THRESHOLD: 2
+}))
+
+import AsyncStorage from '@react-native-async-storage/async-storage'
+import { PrivateKey } from '@bsv/sdk'
+import { StorageProvider } from '@bsv/wallet-toolbox-mobile'
+import { StorageExpoSQLite } from '@/storage/StorageExpoSQLite'
+import { backupPseudonym } from '@/utils/backup/derive'
+import { eraseRemoteBackup } from '@/utils/backup/erase'
+import { pushOnce, type PushResult } from '@/utils/backup/push'
+import { restoreFromBackup } from '@/utils/backup/restore'
+import { restoreOnImport } from '@/utils/backup/restoreOnImport'
+import { BackupServerStandIn } from '@/utils/backup/serverStandIn'
+
+const PRIMARY = new PrivateKey(41).toArray('be', 32)
+const IDENTITY = new PrivateKey(42).toPublicKey().toString()
+const PHONE = 'e'.repeat(32)
+const PSEUDONYM = backupPseudonym(PRIMARY)
+const NOW = '2026-09-01T00:00:00.000Z'
+
+async function openStorage (name: string): Promise<StorageExpoSQLite> {
+  const storage = new StorageExpoSQLite({
+    ...StorageProvider.createStorageBaseOptions('test'),
+    feeModel: { model: 'sat/kb', value: 100 },
+    identityKey: IDENTITY,
+    databaseName: name
+  } as any)
+  await storage.migrate('bsv-wallet', IDENTITY)
+  return storage
+}
+
+/** A wallet with `n` change outputs, each carrying the derivation data only the database has. */
+async function seedWallet (storage: StorageExpoSQLite, n: number): Promise<void> {
+  const { user } = await storage.findOrInsertUser(IDENTITY)
+  const basket = await storage.findOrInsertOutputBasket(user.userId, 'default')
+  const db = (storage as any).db
+  for (let i = 0; i < n; i++) {
+    const { lastInsertRowId: transactionId } = await db.runAsync(
+      `INSERT INTO transactions (created_at, updated_at, userId, status, reference, isOutgoing, satoshis, txid)
+       VALUES (?, ?, ?, 'completed', ?, 0, ?, ?)`,
+      [NOW, NOW, user.userId, `ref-${i}`, 1000 + i, String(i).padStart(64, '0')]
+    )
+    await db.runAsync(
+      `INSERT INTO outputs (created_at, updated_at, userId, transactionId, basketId, spendable, change, vout,
+         satoshis, providedBy, purpose, type, txid, derivationPrefix, derivationSuffix, lockingScript)
+       VALUES (?, ?, ?, ?, ?, 1, 1, 0, ?, 'storage', 'change', 'P2PKH', ?, 'prefix', ?, ?)`,
+      [NOW, NOW, user.userId, transactionId, basket.basketId, 1000 + i, String(i).padStart(64, '0'),
+        `suffix-${i}`, new Uint8Array(25)]
+    )
+  }
+}
+
+/** Push until the current window closes, as successive monitor passes would. */
+async function drain (storage: StorageExpoSQLite, server: BackupServerStandIn): Promise<PushResult> {
+  for (let pass = 0; pass < 50; pass++) {
+    const r = await pushOnce({ storage, primaryKey: PRIMARY, identityKey: IDENTITY, client: server.client(PRIMARY), deviceId: PHONE })
+    if (r.windowClosed) return r
+  }
+  throw new Error('push never closed its window')
+}
+
+async function outputsOf (storage: StorageExpoSQLite): Promise<Array<{ satoshis: number, derivationSuffix: string }>> {
+  return await (storage as any).db.getAllAsync(
+    'SELECT satoshis, derivationSuffix FROM outputs ORDER BY satoshis'
+  )
+}
+
+let server: BackupServerStandIn
+let phone: StorageExpoSQLite
+
+beforeEach(async () => {
+  await AsyncStorage.clear()
+  server = new BackupServerStandIn()
+  phone = await openStorage('phone')
+  await seedWallet(phone, 3)
+})
+
+afterEach(async () => {
+  await phone.destroy()
+})
+
+describe('backup round trip', () => {
+  it('restores a pushed wallet, derivation data included, into a fresh database', async () => {
+    await drain(phone, server)
+
+    const fresh = await openStorage('fresh')
+    const result = await restoreOnImport({ storage: fresh, primaryKey: PRIMARY, identityKey: IDENTITY, client: server.client(PRIMARY) })
+
+    expect(result).toMatchObject({ restored: true, deviceId: PHONE, generation: 1 })
+    expect(await outputsOf(fresh)).toEqual(await outputsOf(phone))
+    await fresh.destroy()
+  })
+
+  it('rotates to a full snapshot that restores on its own', async () => {
+    const first = await drain(phone, server)
+    expect(first.rotated).toBe(true)
+    await drain(phone, server)
+
+    const generations = (await server.client(PRIMARY).manifest()).map(d => d.generation)
+    expect(generations).toEqual([1, 2])
+
+    // A generation is a full snapshot: replaying generation 2 alone rebuilds everything.
+    const fresh = await openStorage('fresh')
+    const result = await restoreFromBackup({
+      storage: fresh, primaryKey: PRIMARY, identityKey: IDENTITY, client: server.client(PRIMARY), generation: 2
+    })
+    expect(result.generation).toBe(2)
+    expect(await outputsOf(fresh)).toEqual([
+      { satoshis: 1000, derivationSuffix: 'suffix-0' },
+      { satoshis: 1001, derivationSuffix: 'suffix-1' },
+      { satoshis: 1002, derivationSuffix: 'suffix-2' }
+    ])
+    await fresh.destroy()
+  })
+
+  it('recovers from a lost push cursor by starting a new generation', async () => {
+    await drain(phone, server)
+    // A reinstall that kept the server log but lost local state.
+    await AsyncStorage.clear()
+
+    const conflicted = await pushOnce({ storage: phone, primaryKey: PRIMARY, identityKey: IDENTITY, client: server.client(PRIMARY), deviceId: PHONE })
+    expect(conflicted.pushed).toBe(0)
+    await drain(phone, server)
+
+    expect(server.entries(PSEUDONYM, PHONE, 2).length).toBeGreaterThan(0)
+    const fresh = await openStorage('fresh')
+    await restoreOnImport({ storage: fresh, primaryKey: PRIMARY, identityKey: IDENTITY, client: server.client(PRIMARY) })
+    expect(await outputsOf(fresh)).toHaveLength(3)
+    await fresh.destroy()
+  })
+
+  it('stops a restore whose blob no longer decrypts', async () => {
+    await drain(phone, server)
+    server.tamper(PSEUDONYM, PHONE, 1, 1, [1, 2, 3])
+
+    const fresh = await openStorage('fresh')
+    await expect(
+      restoreOnImport({ storage: fresh, primaryKey: PRIMARY, identityKey: IDENTITY, client: server.client(PRIMARY) })
+    ).rejects.toThrow()
+    await fresh.destroy()
+  })
+
+  it('has nothing to restore after the backup is erased', async () => {
+    await drain(phone, server)
+    const { deleted } = await eraseRemoteBackup({ primaryKey: PRIMARY, client: server.client(PRIMARY) })
+    expect(deleted).toBeGreaterThan(0)
+
+    const fresh = await openStorage('fresh')
+    const result = await restoreOnImport({ storage: fresh, primaryKey: PRIMARY, identityKey: IDENTITY, client: server.client(PRIMARY) })
+    expect(result).toEqual({ restored: false, chunks: 0, reason: 'no-backup' })
+    await fresh.destroy()
+  })
+})
@@ -0,0 +1,117 @@
+/**
+ * The backup server stand-in, driven through the real BackupClient.
+ *
+ * Every other backup suite that uses the stand-in trusts these behaviours, so they are
+ * pinned here against the Go service's contract: contiguous sequences, the size cap
+ * refused before auth, accounts addressed by the proof alone, the retention floor on
+ * pruning and erasure that ignores it.
+ */
+import { PrivateKey, Utils } from '@bsv/sdk'
+import { BackupHttpError, ERR_BLOB_TOO_LARGE, ERR_SEQ_CONFLICT } from '@/utils/backup/client'
+import { backupPseudonym } from '@/utils/backup/derive'
+import { BackupServerStandIn, STAND_IN_ORIGIN } from '@/utils/backup/serverStandIn'
+
+const KEY = new PrivateKey(31).toArray('be', 32)
+const OTHER_KEY = new PrivateKey(32).toArray('be', 32)
+const DEVICE = 'd'.repeat(32)
+
+/** Headers carrying a proof that claims `primaryKey`'s pseudonym, for raw route calls. */
+function authAs (primaryKey: number[]): Headers {
+  const proof = JSON.stringify({ identityKey: backupPseudonym(primaryKey), action: 'test' })
+  return new Headers({ 'X-Bsv-Auth': Utils.toBase64(Utils.toArray(proof, 'utf8')) })
+}
+
+async function appendN (server: BackupServerStandIn, generation: number, n: number): Promise<void> {
+  const client = server.client(KEY)
+  let prev: string | undefined
+  for (let seq = 1; seq <= n; seq++) {
+    prev = (await client.append(DEVICE, generation, seq, prev, [seq, seq])).sha256
+  }
+}
+
+describe('BackupServerStandIn log', () => {
+  it('appends, indexes and serves blobs with a server-computed chain', async () => {
+    const server = new BackupServerStandIn({ now: () => new Date('2026-09-01T00:00:00Z') })
+    const client = server.client(KEY)
+
+    const first = await client.append(DEVICE, 1, 1, undefined, [1, 2, 3])
+    await client.append(DEVICE, 1, 2, first.sha256, [4, 5])
+
+    const entries = await client.index(DEVICE, 1)
+    expect(entries.map(e => e.seq)).toEqual([1, 2])
+    expect(entries[1].prevSha256).toBe(first.sha256)
+    expect(Array.from(await client.blob(DEVICE, 1, 2))).toEqual([4, 5])
+
+    expect(await client.manifest()).toEqual([{
+      deviceId: DEVICE,
+      generation: 1,
+      headSeq: 2,
+      headSha256: entries[1].sha256,
+      totalBytes: 5,
+      updatedAt: '2026-09-01T00:00:00.000Z'
+    }])
+  })
+
+  it('refuses a sequence that does not follow the head', async () => {
+    const server = new BackupServerStandIn()
+    await appendN(server, 1, 2)
+
+    await expect(server.client(KEY).append(DEVICE, 1, 2, undefined, [9])).rejects.toMatchObject({
+      status: 409,
+      code: ERR_SEQ_CONFLICT
+    })
+    // A new generation starts again at 1.
+    await expect(server.client(KEY).append(DEVICE, 2, 1, undefined, [9])).resolves.toMatchObject({ seq: 1 })
+  })
+
+  it('publishes its cap and refuses blobs over it before checking auth', async () => {
+    const server = new BackupServerStandIn({ maxBlobBytes: 4 })
+    expect((await server.client(KEY).limits()).maxBlobBytes).toBe(4)
+
+    await expect(server.client(KEY).append(DEVICE, 1, 1, undefined, [1, 2, 3, 4, 5])).rejects.toMatchObject({
+      status: 413,
+      code: ERR_BLOB_TOO_LARGE
+    })
+    const unauthenticated = await server.handle(
+      'POST', new URL(`${STAND_IN_ORIGIN}/v1/log/${DEVICE}?seq=1&generation=1`), new Headers(), new Uint8Array(5)
+    )
+    expect(unauthenticated.status).toBe(413)
+  })
+
+  it('addresses accounts by the proof alone', async () => {
+    const server = new BackupServerStandIn()
+    await appendN(server, 1, 1)
+
+    expect(await server.client(OTHER_KEY).manifest()).toEqual([])
+    await expect(server.client(OTHER_KEY).blob(DEVICE, 1, 1)).rejects.toBeInstanceOf(BackupHttpError)
+
+    const anonymous = await server.handle('GET', new URL(`${STAND_IN_ORIGIN}/v1/manifest`), new Headers(), undefined)
+    expect(anonymous.status).toBe(401)
+  })
+})
+
+describe('BackupServerStandIn deletion', () => {
+  const prune = async (server: BackupServerStandIn, generation: number): Promise<Response> =>
+    await server.handle(
+      'DELETE', new URL(`${STAND_IN_ORIGIN}/v1/generation/${DEVICE}/${generation}`), authAs(KEY), undefined
+    )
+
+  it('prunes only generations older than the two it retains', async () => {
+    const server = new BackupServerStandIn()
+    for (const g of [1, 2, 3]) await appendN(server, g, 1)
+
+    expect((await prune(server, 2)).status).toBe(409)
+    expect((await prune(server, 1)).status).toBe(204)
+    expect((await server.client(KEY).manifest()).map(d => d.generation)).toEqual([2, 3])
+  })
+
+  it('erases every device and generation, and answers a repeat with zero', async () => {
+    const server = new BackupServerStandIn()
+    await appendN(server, 1, 2)
+    await appendN(server, 2, 1)
+
+    expect(await server.client(KEY).deleteAccount()).toEqual(expect.objectContaining({ deleted: 3 }))
+    expect(await server.client(KEY).manifest()).toEqual([])
+    expect(await server.client(KEY).deleteAccount()).toEqual(expect.objectContaining({ deleted: 0 }))
+  })
+})
@@ -0,0 +1,214 @@
+/* eslint-disable import/first -- jest.mock must be hoisted above the imports it affects */
+/**
+ * Live sync — merging the wallet's other devices' logs into this one.
+ *
+ * The merge itself is the toolbox's processSyncChunk (stubbed here); what these cover is
+ * everything around it: which peer a pass picks, where it resumes, and that a log which
+ * changed underneath us is merged again rather than trusted from the middle.
+ */
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+)
+
+import AsyncStorage from '@react-native-async-storage/async-storage'
+import { PrivateKey } from '@bsv/sdk'
+import type { DeviceSummary, LogEntry } from '@/utils/backup/client'
+import { emptyChunk, encodeChunk } from '@/utils/backup/codec'
+import { deriveBackupWallet } from '@/utils/backup/derive'
+import { isLiveSyncEnabled, setLiveSyncEnabled } from '@/utils/backup/preference'
+import { loadPeerSyncState, syncOnce } from '@/utils/backup/sync'
+import { TaskBackupSync } from '@/utils/monitor/TaskBackupSync'
+
+const PRIMARY = new PrivateKey(21).toArray('be', 32)
+const SELF = 'a'.repeat(32)
+const PHONE = 'b'.repeat(32)
+const TABLET = 'c'.repeat(32)
+
+const summary = (over: Partial<DeviceSummary>): DeviceSummary => ({
+  deviceId: PHONE,
+  generation: 1,
+  headSeq: 1,
+  headSha256: 'sha1',
+  totalBytes: 10,
+  updatedAt: '2026-08-01T00:00:00Z',
+  ...over
+})
+
+/** Server stand-in: a manifest plus per-(device, generation) logs, both mutable. */
+function fakeClient (devices: DeviceSummary[], logs: Record<string, number[][]>): any {
+  const key = (d: string, g: number): string => `${d}/${g}`
+  const c: any = {
+    devices,
+    shaPrefix: 'sha',
+    manifest: jest.fn(async () => c.devices),
+    index: jest.fn(async (d: string, g: number): Promise<LogEntry[]> =>
+      (logs[key(d, g)] ?? []).map((b, i) => ({
+        seq: i + 1,
+        sha256: `${c.shaPrefix as string}${i + 1}`,
+        prevSha256: i === 0 ? undefined : `${c.shaPrefix as string}${i}`,
+        size: b.length,
+        createdAt: '2026-08-15T00:00:00Z'
+      }))),
+    blob: jest.fn(async (d: string, g: number, seq: number) => (logs[key(d, g)] ?? [])[seq - 1]),
+    append: jest.fn()
+  }
+  return c
+}
+
+function fakeStorage (): any {
+  return {
+    makeAvailable: jest.fn().mockResolvedValue({ storageIdentityKey: 'local' }),
+    findOrInsertUser: jest.fn(async () => ({ user: { userId: 7 }, isNew: false })),
+    findOrInsertSyncStateAuth: jest.fn(async () => ({ syncState: {}, isNew: false })),
+    processSyncChunk: jest.fn(async () => ({ done: false, maxUpdated_at: undefined, updates: 0, inserts: 0 }))
+  }
+}
+
+async function blobs (n: number): Promise<number[][]> {
+  const w = deriveBackupWallet(PRIMARY)
+  const out: number[][] = []
+  for (let i = 0; i < n; i++) out.push(await encodeChunk(w, emptyChunk('a', 'b', 'user')))
+  return out
+}
+
+const deps = (over: Record<string, unknown>): any => ({
+  primaryKey: PRIMARY,
+  identityKey: '02' + 'ab'.repeat(32),
+  deviceId: SELF,
+  now: () => 1_000,
+  ...over
+})
+
+beforeEach(async () => {
+  await AsyncStorage.clear()
+  await setLiveSyncEnabled(true)
+})
+
+describe('syncOnce', () => {
+  it('is off until the user turns it on, and reads nothing while off', async () => {
+    await AsyncStorage.clear()
+    expect(await isLiveSyncEnabled()).toBe(false)
+
+    const client = fakeClient([summary({})], {})
+    const result = await syncOnce(deps({ storage: fakeStorage(), client }))
+
+    expect(result.optedOut).toBe(true)
+    expect(client.manifest).not.toHaveBeenCalled()
+  })
+
+  it('skips its own log and merges one chunk per pass from peers in device-id order', async () => {
+    const client = fakeClient(
+      [
+        summary({ deviceId: TABLET, headSeq: 1 }),
+        summary({ deviceId: SELF, headSeq: 5 }),
+        summary({ deviceId: PHONE, headSeq: 2 })
+      ],
+      { [`${PHONE}/1`]: await blobs(2), [`${TABLET}/1`]: await blobs(1), [`${SELF}/1`]: await blobs(5) }
+    )
+    const storage = fakeStorage()
+
+    const merged: string[] = []
+    for (let i = 0; i < 5; i++) {
+      const r = await syncOnce(deps({ storage, client }))
+      if (r.pulled === 0) break
+      merged.push(client.blob.mock.calls.at(-1).slice(0, 3).join('/'))
+      expect(r.more).toBe(merged.length < 3)
+    }
+
+    expect(merged).toEqual([`${PHONE}/1/1`, `${PHONE}/1/2`, `${TABLET}/1/1`])
+    expect(client.index).not.toHaveBeenCalledWith(SELF, 1)
+    // Each peer merges under its own sync-state row, keyed by its device id.
+    expect(storage.findOrInsertSyncStateAuth).toHaveBeenCalledWith(
+      { userId: 7, identityKey: '02' + 'ab'.repeat(32) }, PHONE, 'backup-sync'
+    )
+    expect(storage.processSyncChunk.mock.calls[0][0]).toMatchObject({
+      fromStorageIdentityKey: PHONE,
+      toStorageIdentityKey: 'local'
+    })
+
+    const peers = await loadPeerSyncState(PRIMARY, SELF)
+    expect(peers.map(p => [p.deviceId, p.seq, p.lastSyncAt])).toEqual([[PHONE, 2, 1_000], [TABLET, 1, 1_000]])
+  })
+
+  it('merges a peer\'s new generation from the beginning', async () => {
+    const logs = { [`${PHONE}/1`]: await blobs(2), [`${PHONE}/2`]: await blobs(1) }
+    const client = fakeClient([summary({ headSeq: 2 })], logs)
+    const storage = fakeStorage()
+    await syncOnce(deps({ storage, client }))
+    await syncOnce(deps({ storage, client }))
+
+    client.devices = [summary({ headSeq: 2 }), summary({ generation: 2, headSeq: 1 })]
+    const r = await syncOnce(deps({ storage, client }))
+
+    expect(r.pulled).toBe(1)
+    expect(client.blob).toHaveBeenLastCalledWith(PHONE, 2, 1)
+    expect(r.peers[0]).toMatchObject({ generation: 2, seq: 1 })
+  })
+
+  it('starts over when the peer\'s log no longer holds the entry it last merged', async () => {
+    const logs = { [`${PHONE}/1`]: await blobs(2) }
+    const client = fakeClient([summary({ headSeq: 1 })], logs)
+    const storage = fakeStorage()
+    await syncOnce(deps({ storage, client }))
+
+    // Same generation, different hashes: the log was rewritten underneath us.
+    logs[`${PHONE}/1`] = await blobs(3)
+    client.shaPrefix = 'other'
+    client.devices = [summary({ headSeq: 3 })]
+    await syncOnce(deps({ storage, client }))
+
+    expect(client.blob).toHaveBeenLastCalledWith(PHONE, 1, 1)
+  })
+
+  it('records a broken log against its peer and tries the other peers first next time', async () => {
+    const client = fakeClient(
+      [summary({ deviceId: PHONE, headSeq: 1 }), summary({ deviceId: TABLET, headSeq: 1 })],
+      { [`${PHONE}/1`]: await blobs(1), [`${TABLET}/1`]: await blobs(1) }
+    )
+    const index = client.index.getMockImplementation()
+    client.index.mockImplementation(async (d: string, g: number) => {
+      const entries = await index(d, g)
+      // A gap: the phone's log starts at sequence 2.
+      return d === PHONE ? entries.map((e: LogEntry) => ({ ...e, seq: e.seq + 1 })) : entries
+    })
+    const storage = fakeStorage()
+
+    await expect(syncOnce(deps({ storage, client }))).rejects.toThrow()
+    const afterFailure = await loadPeerSyncState(PRIMARY, SELF)
+    expect(afterFailure.find(p => p.deviceId === PHONE)?.lastError).toBeDefined()
+    expect(storage.processSyncChunk).not.toHaveBeenCalled()
+
+    const r = await syncOnce(deps({ storage, client }))
+    expect(r.pulled).toBe(1)
+    expect(client.blob).toHaveBeenLastCalledWith(TABLET, 1, 1)
+  })
+})
+
+describe('TaskBackupSync', () => {
+  beforeEach(() => { TaskBackupSync.reset() })
+
+  it('comes straight back while a peer is still behind, and backs off after a failure', async () => {
+    TaskBackupSync.noteConnectivity(true)
+    const results = [
+      async () => ({ pulled: 1, more: true, peers: [] }),
+      async () => { throw new Error('server down') }
+    ]
+    let call = 0
+    const task = new TaskBackupSync({} as any, async () => await results[call++]())
+
+    await task.runTask()
+    expect(task.trigger(Date.now()).run).toBe(true)
+
+    const before = TaskBackupSync.backoffMs
+    await task.runTask()
+    expect(TaskBackupSync.lastError).toBe('server down')
+    expect(TaskBackupSync.backoffMs).toBe(before * 2)
+    expect(task.trigger(Date.now()).run).toBe(false)
+  })
+
+  it('never runs while offline', () => {
+    TaskBackupSync.noteConnectivity(false)
+    TaskBackupSync.requestNow()
+    expect(new TaskBackupSync({} as any, jest.fn()).trigger(Date.now()).run).toBe(false)
+  })
+})
@@ -0,0 +1,140 @@
+/* eslint-disable import/first -- jest.mock must be hoisted above the imports it affects */
+/**
+ * Bookmark folders, tags and ordering, and the Netscape bookmark file that
+ * carries them in and out of desktop browsers.
+ */
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+)
+jest.mock('@/stores/TabStore', () => ({ __esModule: true, default: { newTab: jest.fn() } }))
+
+import { BookmarkStore } from '@/stores/BookmarkStore'
+import { parseNetscapeBookmarks, serializeNetscapeBookmarks } from '@/utils/bookmarks/netscape'
+
+const NOW = new Date(2026, 2, 15, 15, 0, 0).getTime()
+
+function counter() {
+  let n = 0
+  return () => `id${++n}`
+}
+
+function emptyStore() {
+  const store = new BookmarkStore()
+  store.bookmarks = []
+  store.folders = []
+  return store
+}
+
+describe('parseNetscapeBookmarks', () => {
+  const FILE = `<!DOCTYPE NETSCAPE-Bookmark-file-1>
+<META HTTP-EQUIV="Content-Type" CONTENT="text/html; charset=UTF-8">
+<TITLE>Bookmarks</TITLE>
+<H1>Bookmarks</H1>
+<DL><p>
+    <DT><H3 ADD_DATE="1700000000" PERSONAL_TOOLBAR_FOLDER="true">Bookmarks bar</H3>
+    <DL><p>
+        <DT><A HREF="https://a.example/?x=1&amp;y=2" ADD_DATE="1700000100" TAGS="news, daily">A &amp; B</A>
+        <DT><H3>Empty</H3>
+        <DL><p>
+        </DL><p>
+    </DL><p>
+    <DT><A HREF="https://top.example/" ADD_DATE="1700000200000000">Top &#8212; level</A>
+    <DT><A>No href</A>
+</DL><p>`
+
+  it('rebuilds folders, tags, entities and dates', () => {
+    const tree = parseNetscapeBookmarks(FILE, counter(), NOW)
+
+    expect(tree.folders).toEqual([
+      { id: 'id1', title: 'Bookmarks bar', parentId: null, added: 1700000000 * 1000 },
+      { id: 'id2', title: 'Empty', parentId: 'id1', added: NOW }
+    ])
+    expect(tree.bookmarks).toEqual([
+      {
+        title: 'A & B',
+        url: 'https://a.example/?x=1&y=2',
+        added: 1700000100 * 1000,
+        folderId: 'id1',
+        tags: ['news', 'daily']
+      },
+      { title: 'Top — level', url: 'https://top.example/', added: 1700000200 * 1000, folderId: null }
+    ])
+  })
+
+  it('reads back what it writes', () => {
+    const tree = parseNetscapeBookmarks(FILE, counter(), NOW)
+    const again = parseNetscapeBookmarks(serializeNetscapeBookmarks(tree), counter(), NOW)
+    expect(again).toEqual(tree)
+  })
+})
+
+describe('BookmarkStore', () => {
+  it('orders bookmarks within a folder without disturbing other folders', () => {
+    const store = emptyStore()
+    const work = store.addFolder('Work')
+    store.addBookmark('One', 'https://one.example/', work)
+    store.addBookmark('Loose', 'https://loose.example/')
+    store.addBookmark('Two', 'https://two.example/', work)
+    store.addBookmark('Three', 'https://three.example/', work)
+
+    store.moveBookmark('https://three.example/', work, 0)
+    expect(store.bookmarksIn(work).map(b => b.title)).toEqual(['Three', 'One', 'Two'])
+    expect(store.bookmarksIn(null).map(b => b.title)).toEqual(['Loose'])
+
+    store.moveBookmark('https://one.example/', null, 0)
+    expect(store.bookmarksIn(null).map(b => b.title)).toEqual(['One', 'Loose'])
+    expect(store.bookmarksIn(work).map(b => b.title)).toEqual(['Three', 'Two'])
+  })
+
+  it('refuses to move a folder into its own subtree', () => {
+    const store = emptyStore()
+    const outer = store.addFolder('Outer')
+    const inner = store.addFolder('Inner', outer)
+
+    store.moveFolder(outer, inner)
+    store.moveFolder(outer, outer)
+    expect(store.folder(outer)?.parentId).toBeNull()
+    expect(store.folderPath(inner).map(f => f.title)).toEqual(['Outer', 'Inner'])
+  })
+
+  it('deletes a folder with everything beneath it', () => {
+    const store = emptyStore()
+    const outer = store.addFolder('Outer')
+    const inner = store.addFolder('Inner', outer)
+    const other = store.addFolder('Other')
+    store.addBookmark('Deep', 'https://deep.example/', inner)
+    store.addBookmark('Kept', 'https://kept.example/', other)
+
+    store.removeFolder(outer)
+    expect(store.folders.map(f => f.id)).toEqual([other])
+    expect(store.bookmarks.map(b => b.title)).toEqual(['Kept'])
+  })
+
+  it('imports under a folder, skipping URLs it has and merging their tags', () => {
+    const store = emptyStore()
+    store.addBookmark('Mine', 'https://a.example/')
+    store.setTags('https://a.example/', ['keep', ' ', 'keep'])
+    const target = store.addFolder('Imported')
+
+    const tree = parseNetscapeBookmarks(
+      `<DL><p>
+        <DT><A HREF="https://a.example/" TAGS="news">Theirs</A>
+        <DT><H3>Sub</H3>
+        <DL><p><DT><A HREF="https://b.example/">B</A></DL><p>
+        <DT><A HREF="javascript:alert(1)">Script</A>
+      </DL><p>`,
+      counter(),
+      NOW
+    )
+
+    expect(store.importTree(tree, target)).toEqual({ bookmarks: 1, folders: 1 })
+    expect(store.bookmarks.find(b => b.url === 'https://a.example/')).toMatchObject({
+      title: 'Mine',
+      folderId: null,
+      tags: ['keep', 'news']
+    })
+    expect(store.foldersIn(target).map(f => f.title)).toEqual(['Sub'])
+    expect(store.bookmarksIn(store.foldersIn(target)[0].id).map(b => b.url)).toEqual(['https://b.example/'])
+    expect(store.allTags).toEqual(['keep', 'news'])
+  })
+})
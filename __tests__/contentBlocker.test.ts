@@ -0,0 +1,183 @@
+/* eslint-disable import/first -- jest.mock must be hoisted above the imports it affects */
+/**
+ * The content blocker: EasyList syntax in, block / hide decisions out.
+ */
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+)
+
+import { parseFilterList, listExpiry } from '@/utils/contentBlocker/filterParser'
+import { ContentBlocker, baseDomain, hidingCss } from '@/utils/contentBlocker/engine'
+import { buildCosmeticFilterScript, buildCosmeticReplyScript } from '@/utils/contentBlocker/cosmeticScript'
+import { ContentBlockerStore } from '@/stores/ContentBlockerStore'
+
+const LIST = `[Adblock Plus 2.0]
+! Title: Test list
+! Expires: 2 days
+||ads.example^
+||tracker.example^$third-party
+/banner/*$image,domain=news.example|~sports.news.example
+@@||ads.example/allowed/
+||cdn.example/ad.js$script,important
+@@||cdn.example^$script
+@@||trusted.example^$document
+@@||quiet.example^$generichide
+||popup.example^$popup
+||redirect.example^$redirect=noopjs
+ads/
+##.ad-box
+###sponsor > a
+##a[href*="/click?"]
+news.example##.promo
+news.example#@#.ad-box
+~shop.example##.side-ad
+example.com##:has-text(Sponsored)
+example.com#?#div:-abp-has(.ad)
+example.com##+js(nobab)
+`
+
+const blocker = ContentBlocker.fromText([LIST])
+const req = (url: string, pageUrl: string, type: 'subdocument' | 'image' | 'script' | 'document' = 'subdocument') =>
+  blocker.match({ url, pageUrl, type })?.raw ?? null
+
+describe('parseFilterList', () => {
+  it('drops rules it cannot honour instead of approximating them', () => {
+    const parsed = parseFilterList(LIST)
+    expect(parsed.skipped).toBe(5)
+    expect(parsed.network.map(r => r.raw)).not.toContain('||popup.example^$popup')
+    expect(parsed.cosmetic.map(r => r.selector)).toEqual([
+      '.ad-box',
+      '#sponsor > a',
+      'a[href*="/click?"]',
+      '.promo',
+      '.ad-box',
+      '.side-ad'
+    ])
+  })
+
+  it('reads the list expiry header', () => {
+    expect(listExpiry(LIST)).toBe(2 * 86_400_000)
+    expect(listExpiry('! Title: none')).toBeNull()
+  })
+})
+
+describe('ContentBlocker.match', () => {
+  it('anchors || at a host label and ^ at a separator', () => {
+    expect(req('https://ads.example/x.js', 'https://site.example/')).toBe('||ads.example^')
+    expect(req('https://img.ads.example/', 'https://site.example/')).toBe('||ads.example^')
+    expect(req('https://badads.example/', 'https://site.example/')).toBeNull()
+    expect(req('https://ads.example.org/', 'https://site.example/')).toBeNull()
+  })
+
+  it('does not index a word that is only part of a longer one', () => {
+    expect(req('https://site.example/ads/1', 'https://site.example/')).toBe('ads/')
+    expect(req('https://site.example/uploads/1', 'https://site.example/')).toBe('ads/')
+    expect(req('https://site.example/downloadsx/1', 'https://site.example/')).toBeNull()
+  })
+
+  it('honours party, type and page-domain options', () => {
+    expect(req('https://tracker.example/p', 'https://site.example/')).toBe('||tracker.example^$third-party')
+    expect(req('https://tracker.example/p', 'https://www.tracker.example/')).toBeNull()
+
+    const banner = 'https://img.host/banner/1.gif'
+    expect(req(banner, 'https://news.example/', 'image')).toBe(
+      '/banner/*$image,domain=news.example|~sports.news.example'
+    )
+    expect(req(banner, 'https://news.example/', 'subdocument')).toBeNull()
+    expect(req(banner, 'https://sports.news.example/', 'image')).toBeNull()
+    expect(req(banner, 'https://other.example/', 'image')).toBeNull()
+  })
+
+  it('lets exceptions through unless the blocking rule is important', () => {
+    expect(req('https://ads.example/allowed/x', 'https://site.example/')).toBeNull()
+    expect(req('https://cdn.example/ad.js', 'https://site.example/', 'script')).toBe(
+      '||cdn.example/ad.js$script,important'
+    )
+  })
+
+  it('leaves top-level documents alone unless a rule says $document, and obeys page allowlists', () => {
+    expect(req('https://ads.example/', '', 'document')).toBeNull()
+    expect(req('https://ads.example/x.js', 'https://trusted.example/page')).toBeNull()
+  })
+
+  it('treats a registrable domain as one party', () => {
+    expect(baseDomain('a.b.example.com')).toBe('example.com')
+    expect(baseDomain('www.bbc.co.uk')).toBe('bbc.co.uk')
+  })
+})
+
+describe('cosmetics', () => {
+  it('sends specific and unkeyed generic selectors up front, minus exceptions', () => {
+    expect(blocker.cosmeticsFor('https://www.news.example/')).toEqual({
+      selectors: ['.promo', 'a[href*="/click?"]', '.side-ad'],
+      generic: true
+    })
+    expect(blocker.cosmeticsFor('https://shop.example/').selectors).not.toContain('.side-ad')
+  })
+
+  it('hands out keyed generic selectors only for classes and ids the page uses', () => {
+    expect(blocker.genericSelectorsFor('https://site.example/', ['ad-box', 'content'], ['sponsor'])).toEqual([
+      '.ad-box',
+      '#sponsor > a'
+    ])
+    expect(blocker.genericSelectorsFor('https://news.example/', ['ad-box'], [])).toEqual([])
+  })
+
+  it('skips generic hiding on $generichide pages and everything on $document pages', () => {
+    expect(blocker.cosmeticsFor('https://quiet.example/')).toEqual({ selectors: [], generic: false })
+    expect(blocker.cosmeticsFor('https://trusted.example/')).toEqual({ selectors: [], generic: false })
+  })
+
+  it('builds a page script that parses and one rule per selector', () => {
+    expect(() => new Function(buildCosmeticFilterScript())).not.toThrow()
+    expect(
+      () =>
+        new Function(buildCosmeticReplyScript({ type: 'CONTENT_BLOCKER_STYLE', doc: 'd', css: '.a{}', generic: false }))
+    ).not.toThrow()
+    expect(hidingCss(['.a', '#b'])).toBe('.a{display:none!important}\n#b{display:none!important}')
+  })
+})
+
+describe('ContentBlockerStore', () => {
+  function store() {
+    const s = new ContentBlockerStore()
+    s.engine = blocker
+    return s
+  }
+
+  it('counts blocked frames per tab until the tab navigates', () => {
+    const s = store()
+    expect(s.shouldBlock(1, 'https://ads.example/f', 'https://site.example/', 'subdocument')).toBe(true)
+    expect(s.shouldBlock(1, 'https://ads.example/g', 'https://site.example/', 'subdocument')).toBe(true)
+    expect(s.shouldBlock(1, 'https://ok.example/', 'https://site.example/', 'subdocument')).toBe(false)
+    expect(s.blockedCount(1)).toBe(2)
+    expect(s.blockedCount(2)).toBe(0)
+    s.resetBlocked(1)
+    expect(s.blockedCount(1)).toBe(0)
+  })
+
+  it('allowlists a site and its subdomains', () => {
+    const s = store()
+    s.toggleSite('https://www.site.example/page')
+    expect(s.allowlist).toEqual(['site.example'])
+    expect(s.shouldBlock(1, 'https://ads.example/f', 'https://m.site.example/', 'subdocument')).toBe(false)
+    expect(s.cosmeticReply({ type: 'CONTENT_BLOCKER_READY', doc: 'x' }, 'https://site.example/')).toBeNull()
+    s.toggleSite('https://m.site.example/')
+    expect(s.allowlist).toEqual([])
+  })
+
+  it('answers the page script with its own document id', () => {
+    const s = store()
+    expect(s.cosmeticReply({ type: 'CONTENT_BLOCKER_READY', doc: 'abc' }, 'https://news.example/')).toMatchObject({
+      type: 'CONTENT_BLOCKER_STYLE',
+      doc: 'abc',
+      generic: true
+    })
+    expect(
+      s.cosmeticReply(
+        { type: 'CONTENT_BLOCKER_SELECTORS', doc: 'abc', classes: ['ad-box'], ids: [] },
+        'https://site.example/'
+      )
+    ).toEqual({ type: 'CONTENT_BLOCKER_STYLE', doc: 'abc', css: '.ad-box{display:none!important}', generic: false })
+  })
+})
@@ -1,4 +1,4 @@
-import { buildWalletDocumentStartScript } from '@/utils/webview/documentStartScript'
+import { buildWalletDocumentStartScript, buildWalletlessDocumentStartScript } from '@/utils/webview/documentStartScript'
 
 function execute(script: string, windowObject: Record<string, any>) {
   Function('window', script)(windowObject)
@@ -34,3 +34,24 @@ describe('wallet document-start script', () => {
     expect(topDocument.__mainFrameHook).toBe(true)
   })
 })
+
+describe('walletless document-start script', () => {
+  it('runs the browser hooks without exposing CWI or a child-frame bridge', () => {
+    const topDocument: Record<string, any> = { ReactNativeWebView: { postMessage: jest.fn() } }
+    topDocument.top = topDocument
+    const frame: Record<string, any> = {
+      top: topDocument,
+      webkit: { messageHandlers: { ReactNativeWebView: { postMessage: jest.fn() } } }
+    }
+
+    const script = buildWalletlessDocumentStartScript('window.__mainFrameHook = true;')
+    execute(script, topDocument)
+    execute(script, frame)
+
+    expect(topDocument.__mainFrameHook).toBe(true)
+    expect(topDocument.CWI).toBeUndefined()
+    expect(frame.CWI).toBeUndefined()
+    expect(frame.ReactNativeWebView).toBeUndefined()
+    expect(frame.__mainFrameHook).toBeUndefined()
+  })
+})
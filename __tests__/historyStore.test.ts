@@ -0,0 +1,155 @@
+/**
+ * The SQLite history store, run against the real engine: node:sqlite stands in
+ * for expo-sqlite, so the schema, the FTS triggers and the range deletes are
+ * the ones the app runs on device.
+ */
+import { DatabaseSync } from 'node:sqlite'
+import {
+  FRECENCY_HALF_LIFE_MS,
+  HistoryStore,
+  frecencyKey,
+  frecencyScore,
+  historyRangeStart,
+  toMatchQuery
+} from '@/utils/history/historyStore'
+
+/** expo-sqlite's async surface over node:sqlite's sync one — only what the store calls. */
+function adapt(db: DatabaseSync) {
+  return {
+    execAsync: async (sql: string) => {
+      db.exec(sql)
+    },
+    getAllAsync: async (sql: string, params: unknown[] = []) => db.prepare(sql).all(...(params as never[])),
+    getFirstAsync: async (sql: string, params: unknown[] = []) =>
+      db.prepare(sql).get(...(params as never[])) ?? null,
+    runAsync: async (sql: string, params: unknown[] = []) => {
+      const r = db.prepare(sql).run(...(params as never[]))
+      return { lastInsertRowId: Number(r.lastInsertRowid), changes: Number(r.changes) }
+    }
+  }
+}
+
+const HOUR = 60 * 60 * 1000
+const DAY = 24 * HOUR
+const NOW = new Date(2026, 2, 15, 15, 0, 0).getTime()
+
+let raw: DatabaseSync
+let store: HistoryStore
+
+beforeEach(async () => {
+  raw = new DatabaseSync(':memory:')
+  store = new HistoryStore(adapt(raw) as never)
+  await store.migrate()
+})
+
+afterEach(() => {
+  raw.close()
+})
+
+describe('recordVisit', () => {
+  it('counts visits per URL and keeps the latest title', async () => {
+    await store.recordVisit({ url: 'https://a.example/', title: 'A' }, NOW - 2 * HOUR)
+    await store.recordVisit({ url: 'https://b.example/', title: 'B' }, NOW - HOUR)
+    await store.recordVisit({ url: 'https://a.example/', title: 'A, renamed' }, NOW)
+
+    const [a, b] = await store.recent()
+    expect(a).toEqual({ url: 'https://a.example/', title: 'A, renamed', timestamp: NOW, visitCount: 2 })
+    expect(b).toMatchObject({ url: 'https://b.example/', visitCount: 1 })
+  })
+
+  it('does not count a repeat of the latest visit, with or without the trailing slash', async () => {
+    await store.recordVisit({ url: 'https://a.example/', title: '' }, NOW - 1000)
+    await store.recordVisit({ url: 'https://a.example', title: 'A' }, NOW)
+
+    expect(await store.recent()).toEqual([
+      { url: 'https://a.example/', title: 'A', timestamp: NOW - 1000, visitCount: 1 }
+    ])
+  })
+})
+
+describe('frecency', () => {
+  it('ranks a few recent visits above many decayed ones, and more visits above fewer', async () => {
+    for (let i = 0; i < 4; i++) {
+      await store.recordVisit({ url: 'https://old.example/', title: 'x' }, NOW - 200 * DAY - i * HOUR)
+      await store.recordVisit({ url: 'https://spacer.example/' + i, title: 'x' }, NOW - 200 * DAY - i * HOUR + 1)
+    }
+    await store.recordVisit({ url: 'https://new.example/', title: 'x' }, NOW - DAY)
+    await store.recordVisit({ url: 'https://once.example/', title: 'x' }, NOW - 2 * DAY)
+    await store.recordVisit({ url: 'https://new.example/', title: 'x' }, NOW)
+
+    const ranked = (await store.search('')).map(e => e.url)
+    expect(ranked.slice(0, 2)).toEqual(['https://new.example/', 'https://once.example/'])
+    expect(ranked.indexOf('https://old.example/')).toBeLessThan(ranked.indexOf('https://spacer.example/0'))
+  })
+
+  it('halves a visit’s weight every half-life, without overflowing at today’s timestamps', () => {
+    const key = frecencyKey([NOW, NOW])
+    expect(frecencyScore(key, NOW)).toBeCloseTo(2)
+    expect(frecencyScore(key, NOW + FRECENCY_HALF_LIFE_MS)).toBeCloseTo(1)
+    expect(Number.isFinite(key)).toBe(true)
+  })
+})
+
+describe('search', () => {
+  beforeEach(async () => {
+    await store.recordVisit({ url: 'https://github.com/bsv-blockchain', title: 'BSV Blockchain' }, NOW - HOUR)
+    await store.recordVisit({ url: 'https://news.example/story', title: 'Morning news' }, NOW)
+  })
+
+  it('matches word prefixes in titles and URLs', async () => {
+    expect((await store.search('block')).map(e => e.url)).toEqual(['https://github.com/bsv-blockchain'])
+    expect((await store.search('gith')).map(e => e.url)).toEqual(['https://github.com/bsv-blockchain'])
+    expect((await store.search('morn news')).map(e => e.url)).toEqual(['https://news.example/story'])
+    expect(await store.search('morning github')).toEqual([])
+  })
+
+  it('reads punctuation and query syntax as plain text', async () => {
+    expect(toMatchQuery('github.com/b')).toBe('github* com* b*')
+    for (const text of ['"', 'a OR', 'NEAR(', '-x', '*', '(']) {
+      await expect(store.search(text)).resolves.toBeDefined()
+    }
+  })
+
+  it('forgets removed URLs', async () => {
+    await store.remove('https://news.example/story')
+    expect(await store.search('news')).toEqual([])
+    await store.clear()
+    expect(await store.search('block')).toEqual([])
+  })
+})
+
+describe('deleteVisitsBetween', () => {
+  it('drops URLs visited only in the range and rebuilds the rest', async () => {
+    await store.recordVisit({ url: 'https://kept.example/', title: 'x' }, NOW - 3 * DAY)
+    await store.recordVisit({ url: 'https://gone.example/', title: 'x' }, NOW - 30 * 60 * 1000)
+    await store.recordVisit({ url: 'https://kept.example/', title: 'x' }, NOW - 10 * 60 * 1000)
+
+    await store.deleteVisitsBetween(historyRangeStart('hour', NOW), NOW)
+
+    expect(await store.recent()).toEqual([
+      { url: 'https://kept.example/', title: 'x', timestamp: NOW - 3 * DAY, visitCount: 1 }
+    ])
+    expect(await store.search('gone')).toEqual([])
+  })
+
+  it('starts "today" at local midnight', () => {
+    expect(historyRangeStart('today', NOW)).toBe(new Date(2026, 2, 15).getTime())
+    expect(historyRangeStart('all', NOW)).toBe(0)
+  })
+})
+
+describe('importLegacy', () => {
+  it('brings the AsyncStorage list in once', async () => {
+    const legacy = [
+      { url: 'https://a.example/', title: 'A', timestamp: NOW },
+      { url: 'https://b.example/', title: 'B', timestamp: NOW - HOUR },
+      { url: 'https://a.example/', title: 'A', timestamp: NOW - 2 * HOUR }
+    ]
+    expect(await store.importLegacy(legacy)).toBe(3)
+    expect(await store.importLegacy(legacy)).toBe(0)
+
+    const [a, b] = await store.recent()
+    expect(a).toMatchObject({ url: 'https://a.example/', timestamp: NOW, visitCount: 2 })
+    expect(b).toMatchObject({ url: 'https://b.example/', visitCount: 1 })
+  })
+})
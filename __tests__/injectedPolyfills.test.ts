@@ -14,4 +14,11 @@ describe('WebView injected polyfills', () => {
     const script = buildInjectedJavaScript('en-US', false, false, true, false)
     expect(script).toContain(', true, false);true;')
   })
+
+  it('hands 402s on fetch and XHR to the app instead of writing over the page', () => {
+    const script = buildInjectedJavaScript('en-US', false, false, true, false)
+    expect(script).toContain('SUBRESOURCE_PAYMENT_REQUIRED')
+    expect(script).toContain('SUBRESOURCE_PAYMENT_RESPONSE')
+    expect(script).not.toContain("'PAYMENT_REQUIRED'")
+  })
 })
@@ -87,6 +87,25 @@ describe('buildPaymentFrame', () => {
     expect(createArgs.options).toEqual({ randomizeOutputs: false, noSend: true, signAndProcess: false })
   })
 
+  it('spends an offline channel head first and reports its own change for the next link', async () => {
+    const w = walletStub()
+    // createAction names the change by the unsigned txid; storage knows it by the signed one.
+    w.createAction.mockResolvedValue({
+      signableTransaction: { reference: 'ref-123' },
+      txid: 'unsigned',
+      noSendChange: ['unsigned.1', 'unsigned.2'],
+    })
+    const built = await buildPaymentFrame(w as never, session(), 'admin.com', 777, ['beef.1'])
+    expect(w.createAction.mock.calls[0][0].options).toEqual({
+      randomizeOutputs: false,
+      noSend: true,
+      signAndProcess: false,
+      noSendChange: ['beef.1'],
+    })
+    expect(built.txid).toBe('finalized')
+    expect(built.change).toEqual(['finalized.1', 'finalized.2'])
+  })
+
   // The reference is the ONLY handle that can release the inputs a `noSend`
   // action holds. WalletPermissionsManager swallows it unless signAndProcess is
   // explicitly false, and TaskFailAbandoned never sweeps 'nosend' — so losing it
@@ -153,13 +172,14 @@ describe('buildPaymentFrame', () => {
   // carries no figure of its own to disagree with it: the payee reads the
   // output's satoshis (see utils/localpay/verify.ts).
 
-  const openSession = () => mintSession({
+  const openSessionArgs = () => ({
     identityKey: '02'.padEnd(66, 'e'),
     amount: undefined,
     derivationPrefix: 'cHJlZml4',
     derivationSuffix: 'c3VmZml4',
     supportsAwdl: true,
   })
+  const openSession = () => mintSession(openSessionArgs())
 
   it('uses the payer’s amount for the output on an open session', async () => {
     const w = walletStub()
@@ -183,6 +203,14 @@ describe('buildPaymentFrame', () => {
     expect(w.createAction).not.toHaveBeenCalled()
   })
 
+  it('takes any share up to a split bill’s total, and refuses more', async () => {
+    const split = mintSession({ ...openSessionArgs(), splitTotal: 3000 })
+    const w = walletStub()
+    await buildPaymentFrame(w as never, split, 'admin.com', 3000)
+    expect(w.createAction.mock.calls[0][0].outputs[0].satoshis).toBe(3000)
+    await expect(buildPaymentFrame(walletStub() as never, split, 'admin.com', 3001)).rejects.toThrow(/total/)
+  })
+
   it.each([0, -1, 1.5, Number.NaN, 2 ** 53])('refuses a non-satoshi amount %p', async amount => {
     const w = walletStub()
     await expect(buildPaymentFrame(w as never, openSession(), 'admin.com', amount)).rejects.toThrow(
@@ -0,0 +1,173 @@
+import * as net from 'net'
+import { EventEmitter } from 'events'
+import {
+  installLanBackend, lanTransport, memoryDirectory, uninstallLanBackend, webSocketConnect,
+} from '@/utils/localpay/transport/lan'
+import {
+  tcpWebSocketListen, zeroconfDirectory,
+  type CreateTcpServer, type ZeroconfLike, type ZeroconfService,
+} from '@/utils/localpay/transport/lanDevice'
+import { mintSession } from '@/utils/localpay/session'
+import { FRAME_VERSION, type PaymentFrame } from '@/utils/localpay/codec'
+
+jest.mock('react-native-localpay-transport', () => ({
+  getLocalPayTransport: () => null,
+}))
+
+const ws = jest.requireActual('ws') as { WebSocket: typeof WebSocket }
+
+/** Node's net server in the seat react-native-tcp-socket takes on a device. */
+const nodeTcp: CreateTcpServer = onConnection => net.createServer(onConnection)
+const listen = tcpWebSocketListen(nodeTcp, '127.0.0.1')
+
+const session = mintSession({
+  identityKey: '02'.padEnd(66, 'd'),
+  amount: 1,
+  derivationPrefix: 'cA',
+  derivationSuffix: 'cw',
+  supportsAwdl: false,
+  supportsLan: true,
+})
+
+const frame: PaymentFrame = {
+  version: FRAME_VERSION,
+  kind: 'bsv' as const,
+  senderIdentityKey: '02'.padEnd(66, 'e'),
+  outputIndex: 0,
+  derivationPrefix: 'cA',
+  derivationSuffix: 'cw',
+  transaction: new Uint8Array(70_000).fill(7),
+}
+
+/** Raw bytes to the listener, and everything it answers until it hangs up. */
+function rawExchange(port: number, bytes: Buffer): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = []
+    const socket = net.connect(port, '127.0.0.1', () => socket.write(bytes))
+    socket.on('data', (d: Buffer) => chunks.push(d))
+    socket.on('close', () => resolve(Buffer.concat(chunks)))
+    socket.on('error', reject)
+  })
+}
+
+describe('lanTransport over the device WebSocket server', () => {
+  beforeEach(() => installLanBackend({ listen, connect: webSocketConnect(ws.WebSocket), directory: memoryDirectory() }))
+  afterEach(() => uninstallLanBackend())
+
+  it('delivers a frame larger than one TCP read and carries the ack back', async () => {
+    const receiving = lanTransport.receive(session, new AbortController().signal)
+    await new Promise(r => setTimeout(r, 50))
+    const sending = lanTransport.send(session, frame, new AbortController().signal)
+
+    const received = await receiving
+    expect(received.frame).toEqual(frame)
+    await received.confirm(true)
+    await expect(sending).resolves.toEqual({ ok: true })
+  })
+
+  it('carries a decline reason back verbatim', async () => {
+    const receiving = lanTransport.receive(session, new AbortController().signal)
+    await new Promise(r => setTimeout(r, 50))
+    const sending = lanTransport.send(session, frame, new AbortController().signal)
+
+    await (await receiving).confirm(false, 'already_paid')
+    await expect(sending).resolves.toEqual({ ok: false, error: 'already_paid' })
+  })
+})
+
+describe('the WebSocket server', () => {
+  it('answers a request that is no WebSocket upgrade with 400 and hangs up', async () => {
+    const server = await listen(() => {
+      throw new Error('not a WebSocket')
+    })
+    try {
+      const reply = await rawExchange(server.port, Buffer.from('GET / HTTP/1.1\r\nHost: x\r\n\r\n'))
+      expect(reply.toString()).toMatch(/^HTTP\/1\.1 400/)
+    } finally {
+      await server.close()
+    }
+  })
+
+  it('drops a client that sends an unmasked frame', async () => {
+    const messages: string[] = []
+    const server = await listen(socket => socket.onMessage(m => messages.push(m)))
+    try {
+      const upgrade =
+        'GET / HTTP/1.1\r\nHost: x\r\nUpgrade: websocket\r\nConnection: Upgrade\r\n' +
+        'Sec-WebSocket-Key: dGhlIHNhbXBsZSBub25jZQ==\r\nSec-WebSocket-Version: 13\r\n\r\n'
+      const unmasked = Buffer.from([0x81, 0x02, 0x68, 0x69])
+      const reply = await rawExchange(server.port, Buffer.concat([Buffer.from(upgrade), unmasked]))
+      expect(reply.toString()).toContain('Sec-WebSocket-Accept: s3pPLMBiTxaQ9kYGzzhZRbK+xOo=')
+      expect(messages).toEqual([])
+    } finally {
+      await server.close()
+    }
+  })
+
+  it('keeps an accepted connection open after it stops accepting', async () => {
+    let held: { send(data: string): void } | null = null
+    const server = await listen(socket =>
+      socket.onMessage(() => {
+        held = socket
+      }),
+    )
+    const client = new ws.WebSocket(`ws://127.0.0.1:${server.port}`)
+    await new Promise(r => (client.onopen = r))
+    client.send('hello')
+    await new Promise(r => setTimeout(r, 50))
+    await server.close()
+
+    const reply = new Promise<string>(r => (client.onmessage = e => r(String(e.data))))
+    held!.send('still here')
+    expect(await reply).toBe('still here')
+    client.close()
+  })
+})
+
+describe('zeroconfDirectory', () => {
+  class FakeZeroconf extends EventEmitter implements ZeroconfLike {
+    published = new Map<string, number>()
+    scans = 0
+    stops = 0
+    publishService(_type: string, _protocol: string, _domain: string, name: string, port: number) {
+      this.published.set(name, port)
+    }
+    unpublishService(name: string) {
+      this.published.delete(name)
+    }
+    scan() {
+      this.scans += 1
+    }
+    stop() {
+      this.stops += 1
+    }
+    announce(service: ZeroconfService) {
+      this.emit('resolved', service)
+    }
+  }
+
+  it('publishes the instance name and withdraws it', async () => {
+    const zc = new FakeZeroconf()
+    const withdraw = await zeroconfDirectory(zc).advertise('bsvpay-abc', 4321)
+    expect(zc.published.get('bsvpay-abc')).toBe(4321)
+    await withdraw()
+    expect(zc.published.size).toBe(0)
+  })
+
+  it('resolves the name it was asked for, at an IPv4 address, and stops browsing', async () => {
+    const zc = new FakeZeroconf()
+    const resolving = zeroconfDirectory(zc).resolve('bsvpay-abc', 1000)
+    zc.announce({ name: 'bsvpay-other', host: 'other.local', port: 1, addresses: ['10.0.0.9'] })
+    zc.announce({ name: 'bsvpay-abc', host: 'payee.local', port: 4321, addresses: ['fe80::1', '192.168.1.20'] })
+
+    await expect(resolving).resolves.toEqual({ host: '192.168.1.20', port: 4321 })
+    expect(zc.scans).toBe(1)
+    expect(zc.stops).toBe(1)
+  })
+
+  it('rejects a name nobody announces within the timeout', async () => {
+    const zc = new FakeZeroconf()
+    await expect(zeroconfDirectory(zc).resolve('bsvpay-abc', 20)).rejects.toThrow(/no route/)
+    expect(zc.stops).toBe(1)
+  })
+})
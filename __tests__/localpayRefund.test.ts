@@ -0,0 +1,126 @@
+import {
+  claimPaymentRefund, getRefund, refundLinks, refundableByTxid, settlePaymentRefund, REFUNDS_KEY,
+  type Refundable,
+} from '@/utils/localpay/refund'
+import { savePending, updateStatus } from '@/utils/localpay/pending'
+import { FRAME_VERSION, type PaymentFrame } from '@/utils/localpay/codec'
+import { Transaction, Beef, LockingScript } from '@bsv/sdk'
+
+function fakeStorage() {
+  const map = new Map<string, string>()
+  return {
+    map,
+    getKeyValue: async (k: string) => map.get(k),
+    setKeyValue: async (k: string, v: string) => void map.set(k, v),
+  }
+}
+
+const SENDER = '02'.padEnd(66, 'c')
+
+function receivedFrame(satoshis: number): { txid: string; frame: PaymentFrame } {
+  const tx = new Transaction()
+  tx.addOutput({
+    satoshis,
+    lockingScript: LockingScript.fromHex('76a914000000000000000000000000000000000000000088ac'),
+  })
+  const txid = tx.id('hex')
+  const beef = new Beef()
+  beef.mergeTransaction(tx)
+  return {
+    txid,
+    frame: {
+      version: FRAME_VERSION,
+      kind: 'bsv' as const,
+      senderIdentityKey: SENDER,
+      outputIndex: 0,
+      derivationPrefix: 'cHJlZml4',
+      derivationSuffix: 'c3VmZml4',
+      transaction: new Uint8Array(beef.toBinaryAtomic(txid)),
+    },
+  }
+}
+
+const payment: Refundable = { originalTxid: 'aa'.repeat(32), pendingId: 'p1', recipient: SENDER, satoshis: 700 }
+
+describe('refundable payments', () => {
+  it('lists a completed nearby payment by its txid, with its sender and amount', async () => {
+    const s = fakeStorage()
+    const { txid, frame } = receivedFrame(1234)
+    const p = await savePending(s, frame)
+    await updateStatus(s, p.id, 'completed')
+
+    expect((await refundableByTxid(s)).get(txid)).toEqual({
+      originalTxid: txid,
+      pendingId: p.id,
+      recipient: SENDER,
+      satoshis: 1234,
+    })
+  })
+
+  it('leaves out payments that have not landed in the wallet', async () => {
+    const s = fakeStorage()
+    await savePending(s, receivedFrame(1000).frame)
+    const failed = await savePending(s, receivedFrame(2000).frame)
+    await updateStatus(s, failed.id, 'failed', 'rejected')
+    expect((await refundableByTxid(s)).size).toBe(0)
+  })
+
+  it('skips a frame whose transaction does not parse', async () => {
+    const s = fakeStorage()
+    const p = await savePending(s, { ...receivedFrame(1000).frame, transaction: new Uint8Array([9, 9, 9]) })
+    await updateStatus(s, p.id, 'completed')
+    expect((await refundableByTxid(s)).size).toBe(0)
+  })
+})
+
+describe('payment refunds', () => {
+  it('claims a refund once, however many attempts race for it', async () => {
+    const s = fakeStorage()
+    const [a, b] = await Promise.all([
+      claimPaymentRefund(s, payment, 'handle'),
+      claimPaymentRefund(s, payment, 'nearby'),
+    ])
+    expect([a, b].filter(Boolean)).toHaveLength(1)
+    expect((await getRefund(s, payment.originalTxid))!.status).toBe('sending')
+    expect(s.map.has(REFUNDS_KEY)).toBe(true)
+  })
+
+  it('records a sent refund with its own txid and will not claim it again', async () => {
+    const s = fakeStorage()
+    await claimPaymentRefund(s, payment, 'nearby')
+    const sent = await settlePaymentRefund(s, payment.originalTxid, { status: 'sent', refundTxid: 'bb'.repeat(32) })
+    expect(sent).toMatchObject({ status: 'sent', rail: 'nearby', refundTxid: 'bb'.repeat(32) })
+    expect(await claimPaymentRefund(s, payment, 'handle')).toBeNull()
+  })
+
+  it('hands a refund that sent nothing back to owed, claimable again on another rail', async () => {
+    const s = fakeStorage()
+    await claimPaymentRefund(s, payment, 'handle')
+    await settlePaymentRefund(s, payment.originalTxid, { status: 'owed', error: 'offline' })
+    const retry = await claimPaymentRefund(s, payment, 'nearby')
+    expect(retry).toMatchObject({ status: 'sending', rail: 'nearby' })
+    expect(retry!.error).toBeUndefined()
+  })
+
+  it('leaves a refund the outbox holds to the outbox', async () => {
+    const s = fakeStorage()
+    await claimPaymentRefund(s, payment, 'handle')
+    await settlePaymentRefund(s, payment.originalTxid, { status: 'outbox', outboxId: 'o1' })
+    expect(await claimPaymentRefund(s, payment, 'handle')).toBeNull()
+  })
+
+  it('only settles a refund that was claimed', async () => {
+    const s = fakeStorage()
+    expect(await settlePaymentRefund(s, payment.originalTxid, { status: 'sent' })).toBeNull()
+    expect(await getRefund(s, payment.originalTxid)).toBeNull()
+  })
+
+  it('links both ends of a sent refund', async () => {
+    const s = fakeStorage()
+    await claimPaymentRefund(s, payment, 'handle')
+    const sent = await settlePaymentRefund(s, payment.originalTxid, { status: 'sent', refundTxid: 'cc'.repeat(32) })
+    const links = refundLinks([sent!])
+    expect(links.byOriginal.get(payment.originalTxid)).toBe(sent)
+    expect(links.byRefund.get('cc'.repeat(32))).toBe(sent)
+  })
+})
@@ -281,6 +281,33 @@ const asset = (): SessionAsset => ({
   overlayIdentityKey: '03'.padEnd(66, 'b'),
 })
 
+describe('split-bill sessions', () => {
+  const split = () => mintSession({ ...args, amount: undefined, splitTotal: 12000 })
+
+  it('round-trips the total as an open request with a ceiling', () => {
+    const back = decodeSession(encodeSession(split()))
+    expect(back.splitTotal).toBe(12000)
+    expect(back.amount).toBeUndefined()
+    expect(decodeQR(encodeSession(split())).m).toBe(12000)
+  })
+
+  it('omits m entirely for a single-payer session', () => {
+    expect('m' in decodeQR(encodeSession(mintSession(args)))).toBe(false)
+  })
+
+  it('refuses to mint a split bill with a bound amount or a bad total', () => {
+    expect(() => mintSession({ ...args, splitTotal: 12000 })).toThrow(CodecError)
+    expect(() => mintSession({ ...args, amount: undefined, splitTotal: 0 })).toThrow(CodecError)
+  })
+
+  it('refuses a total alongside an amount, or a bad total, at decode', () => {
+    const raw = decodeQR(encodeSession(split()))
+    expect(() => decodeSession(encodeCustomQR({ ...raw, a: 5000 }))).toThrow(CodecError)
+    expect(() => decodeSession(encodeCustomQR({ ...raw, m: -1 }))).toThrow(CodecError)
+    expect(() => decodeSession(encodeCustomQR({ ...raw, m: null }))).toThrow(CodecError)
+  })
+})
+
 describe('session asset block', () => {
   it('round-trips a token request with amount in base units', () => {
     const s = mintSession({ ...baseMintArgs(), amount: 12345, asset: asset() })
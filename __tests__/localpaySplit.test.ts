@@ -0,0 +1,144 @@
+import {
+  bySender, claimRefund, getSplit, openSplit, paidSoFar, recordContribution, remaining, settleRefund, SPLIT_KEY,
+  type SplitContribution,
+} from '@/utils/localpay/split'
+
+function fakeStorage() {
+  const map = new Map<string, string>()
+  return {
+    map,
+    getKeyValue: async (k: string) => map.get(k),
+    setKeyValue: async (k: string, v: string) => void map.set(k, v),
+  }
+}
+
+const SESSION = new Uint8Array(16).fill(7)
+const ALICE = '02'.padEnd(66, 'a')
+const BOB = '02'.padEnd(66, 'b')
+
+const share = (pendingId: string, senderIdentityKey: string, satoshis: number): SplitContribution => ({
+  pendingId,
+  senderIdentityKey,
+  satoshis,
+  receivedAt: new Date().toISOString(),
+})
+
+describe('split-bill tally', () => {
+  it('opens once per session and keeps an existing tally', async () => {
+    const s = fakeStorage()
+    await openSplit(s, SESSION, 3000)
+    await recordContribution(s, SESSION, share('p1', ALICE, 1000))
+    const again = await openSplit(s, SESSION, 9999)
+    expect(again.total).toBe(3000)
+    expect(again.contributions).toHaveLength(1)
+    expect(s.map.has(SPLIT_KEY)).toBe(true)
+  })
+
+  it('stays open below the total and tracks each sender', async () => {
+    const s = fakeStorage()
+    await openSplit(s, SESSION, 3000)
+    await recordContribution(s, SESSION, share('p1', ALICE, 1000))
+    await recordContribution(s, SESSION, share('p2', BOB, 500))
+    const tally = await recordContribution(s, SESSION, share('p3', ALICE, 500))
+
+    expect(tally.closedAt).toBeUndefined()
+    expect(paidSoFar(tally)).toBe(2000)
+    expect(remaining(tally)).toBe(1000)
+    expect(bySender(tally)).toEqual([
+      { senderIdentityKey: ALICE, satoshis: 1500, payments: 2 },
+      { senderIdentityKey: BOB, satoshis: 500, payments: 1 },
+    ])
+  })
+
+  it('closes exactly at the total with nothing owed', async () => {
+    const s = fakeStorage()
+    await openSplit(s, SESSION, 3000)
+    await recordContribution(s, SESSION, share('p1', ALICE, 1000))
+    const tally = await recordContribution(s, SESSION, share('p2', BOB, 2000))
+    expect(tally.closedAt).toBeDefined()
+    expect(tally.refunds).toEqual([])
+  })
+
+  it('owes the share that crossed the total its excess', async () => {
+    const s = fakeStorage()
+    await openSplit(s, SESSION, 3000)
+    await recordContribution(s, SESSION, share('p1', ALICE, 2500))
+    const tally = await recordContribution(s, SESSION, share('p2', BOB, 1000))
+    expect(tally.closedAt).toBeDefined()
+    expect(remaining(tally)).toBe(0)
+    expect(tally.refunds).toEqual([{ pendingId: 'p2', recipient: BOB, satoshis: 500, status: 'owed' }])
+  })
+
+  it('owes a share counted after the close back in full', async () => {
+    const s = fakeStorage()
+    await openSplit(s, SESSION, 1000)
+    await recordContribution(s, SESSION, share('p1', ALICE, 1000))
+    const tally = await recordContribution(s, SESSION, share('p2', BOB, 400))
+    expect(tally.refunds).toEqual([expect.objectContaining({ pendingId: 'p2', satoshis: 400 })])
+  })
+
+  it('counts a repeated share once', async () => {
+    const s = fakeStorage()
+    await openSplit(s, SESSION, 3000)
+    await recordContribution(s, SESSION, share('p1', ALICE, 1000))
+    const tally = await recordContribution(s, SESSION, share('p1', ALICE, 1000))
+    expect(paidSoFar(tally)).toBe(1000)
+  })
+
+  it('does not lose shares recorded concurrently', async () => {
+    const s = fakeStorage()
+    await openSplit(s, SESSION, 10000)
+    await Promise.all(['p1', 'p2', 'p3'].map(id => recordContribution(s, SESSION, share(id, ALICE, 100))))
+    expect(paidSoFar((await getSplit(s, SESSION))!)).toBe(300)
+  })
+
+  it('refuses a share for a session with no tally', async () => {
+    await expect(recordContribution(fakeStorage(), SESSION, share('p1', ALICE, 1))).rejects.toThrow(/no split/)
+  })
+})
+
+describe('split-bill refunds', () => {
+  async function owing() {
+    const s = fakeStorage()
+    await openSplit(s, SESSION, 1000)
+    await recordContribution(s, SESSION, share('p1', ALICE, 1500))
+    return s
+  }
+
+  it('hands an owed refund to one sender only', async () => {
+    const s = await owing()
+    const [first, second] = await Promise.all([claimRefund(s, SESSION, 'p1'), claimRefund(s, SESSION, 'p1')])
+    expect([first, second].filter(Boolean)).toHaveLength(1)
+    expect((await getSplit(s, SESSION))!.refunds[0].status).toBe('sending')
+  })
+
+  it('records a sent refund and will not claim it again', async () => {
+    const s = await owing()
+    await claimRefund(s, SESSION, 'p1')
+    const tally = await settleRefund(s, SESSION, 'p1', { status: 'sent', outboxId: 'o1' })
+    expect(tally.refunds[0]).toMatchObject({ status: 'sent', outboxId: 'o1' })
+    expect(await claimRefund(s, SESSION, 'p1')).toBeNull()
+  })
+
+  it('puts a refund that minted nothing back to owed, with the reason', async () => {
+    const s = await owing()
+    await claimRefund(s, SESSION, 'p1')
+    await settleRefund(s, SESSION, 'p1', { status: 'owed', error: 'offline' })
+    const retry = await claimRefund(s, SESSION, 'p1')
+    expect(retry).toMatchObject({ status: 'sending', satoshis: 500 })
+    expect(retry!.error).toBeUndefined()
+  })
+
+  it('leaves a refund the outbox holds to the outbox', async () => {
+    const s = await owing()
+    await claimRefund(s, SESSION, 'p1')
+    await settleRefund(s, SESSION, 'p1', { status: 'outbox', outboxId: 'o2' })
+    expect(await claimRefund(s, SESSION, 'p1')).toBeNull()
+  })
+
+  it('only settles a refund that was claimed', async () => {
+    const s = await owing()
+    const tally = await settleRefund(s, SESSION, 'p1', { status: 'sent', outboxId: 'o1' })
+    expect(tally.refunds[0].status).toBe('owed')
+  })
+})
@@ -0,0 +1,158 @@
+import {
+  cartTotal, dayOf, getCatalogue, getSales, reconcile, reconcileDay, recordSale, reportCsv, reportHtml,
+  saveCatalogue, TILL_KEY, type Sale,
+} from '@/utils/localpay/till'
+import { savePending, updateStatus, type PendingPayment } from '@/utils/localpay/pending'
+import { FRAME_VERSION, type PaymentFrame } from '@/utils/localpay/codec'
+
+function fakeStorage() {
+  const map = new Map<string, string>()
+  return {
+    map,
+    getKeyValue: async (k: string) => map.get(k),
+    setKeyValue: async (k: string, v: string) => void map.set(k, v),
+  }
+}
+
+const frame = (): PaymentFrame => ({
+  version: FRAME_VERSION,
+  kind: 'bsv' as const,
+  senderIdentityKey: '02'.padEnd(66, 'c'),
+  outputIndex: 0,
+  derivationPrefix: 'cHJlZml4',
+  derivationSuffix: 'c3VmZml4',
+  transaction: new Uint8Array([9, 9, 9]),
+})
+
+const TODAY = dayOf(new Date())
+
+const sale = (pendingId: string, over: Partial<Sale> = {}): Sale => ({
+  pendingId,
+  sessionId: pendingId.padEnd(32, '0'),
+  settledAt: new Date().toISOString(),
+  satoshis: 1500,
+  items: [
+    { name: 'Coffee', unitPrice: 500, quantity: 2 },
+    { name: 'Bun', unitPrice: 500, quantity: 1 },
+  ],
+  senderIdentityKey: '02'.padEnd(66, 'c'),
+  ...over,
+})
+
+const entry = (id: string, status: PendingPayment['status'], failureReason?: string): PendingPayment => ({
+  id,
+  receivedAt: new Date().toISOString(),
+  frame: frame(),
+  status,
+  failureReason,
+})
+
+describe('localpay till', () => {
+  it('totals a cart by quantity', () => {
+    expect(cartTotal(sale('a').items)).toBe(1500)
+    expect(cartTotal([])).toBe(0)
+  })
+
+  it('records a sale once per queue entry', async () => {
+    const s = fakeStorage()
+    await recordSale(s, sale('p1'))
+    await recordSale(s, sale('p1'))
+    expect(await getSales(s)).toHaveLength(1)
+    expect(s.map.has(TILL_KEY)).toBe(true)
+  })
+
+  it('does not lose sales recorded concurrently', async () => {
+    const s = fakeStorage()
+    await Promise.all(['p1', 'p2', 'p3'].map(id => recordSale(s, sale(id))))
+    expect((await getSales(s)).map(x => x.pendingId).sort()).toEqual(['p1', 'p2', 'p3'])
+  })
+
+  it('filters sales by local day', async () => {
+    const s = fakeStorage()
+    await recordSale(s, sale('p1'))
+    await recordSale(s, sale('p2', { settledAt: '2001-02-03T12:00:00.000Z' }))
+    expect((await getSales(s, TODAY)).map(x => x.pendingId)).toEqual(['p1'])
+  })
+
+  it('keeps catalogue names unique, the later price winning', async () => {
+    const s = fakeStorage()
+    await saveCatalogue(s, [{ name: 'Coffee', unitPrice: 500 }, { name: 'Coffee', unitPrice: 600 }])
+    expect(await getCatalogue(s)).toEqual([{ name: 'Coffee', unitPrice: 600 }])
+  })
+})
+
+describe('till reconciliation', () => {
+  it('reads each sale’s status from the queue, not from the till', () => {
+    const r = reconcile(
+      TODAY,
+      [sale('p1'), sale('p2'), sale('p3'), sale('p4')],
+      [entry('p1', 'completed'), entry('p2', 'pending'), entry('p3', 'failed', 'rejected by network')]
+    )
+    expect(r.sales.map(s => s.status)).toEqual(['credited', 'queued', 'failed', 'missing'])
+    expect(r.sales[2].failureReason).toBe('rejected by network')
+    expect(r.totals).toEqual({ count: 4, satoshis: 6000, credited: 1500, queued: 1500, failed: 1500, missing: 1500 })
+  })
+
+  it('counts items over money actually held — credited and queued only', () => {
+    const r = reconcile(TODAY, [sale('p1'), sale('p2'), sale('p3')], [
+      entry('p1', 'completed'),
+      entry('p2', 'processing'),
+      entry('p3', 'failed'),
+    ])
+    expect(r.items).toEqual([
+      { name: 'Coffee', quantity: 4, satoshis: 2000 },
+      { name: 'Bun', quantity: 2, satoshis: 1000 },
+    ])
+  })
+
+  it('lists the day’s queue entries no checkout recorded', () => {
+    const r = reconcile(TODAY, [sale('p1')], [entry('p1', 'completed'), entry('walk-in', 'pending')])
+    expect(r.unmatched).toEqual([expect.objectContaining({ id: 'walk-in', status: 'pending' })])
+  })
+
+  it('retries the queue before reporting when given a wallet', async () => {
+    const s = fakeStorage()
+    const queued = await savePending(s, frame())
+    await recordSale(s, sale(queued.id))
+    const wallet = { internalizeAction: jest.fn(async () => ({ accepted: true })) }
+
+    const r = await reconcileDay(s, TODAY, { wallet, originator: 'admin.test' })
+    expect(wallet.internalizeAction).toHaveBeenCalledTimes(1)
+    expect(r.sales[0].status).toBe('credited')
+  })
+
+  it('still reports when the retry cannot run', async () => {
+    const s = fakeStorage()
+    const queued = await savePending(s, frame())
+    await updateStatus(s, queued.id, 'failed', 'offline')
+    await recordSale(s, sale(queued.id))
+    const wallet = { internalizeAction: jest.fn(async () => { throw new Error('still offline') }) }
+
+    const r = await reconcileDay(s, TODAY, { wallet, originator: 'admin.test' })
+    expect(r.sales[0]).toMatchObject({ status: 'failed', failureReason: 'still offline' })
+  })
+})
+
+describe('till report', () => {
+  const report = () =>
+    reconcile(TODAY, [sale('p1', { items: [{ name: 'Tea, "large"', unitPrice: 1500, quantity: 1 }] })], [
+      entry('p1', 'completed'),
+    ])
+
+  it('writes totals as header lines and escapes item names in CSV', () => {
+    const csv = reportCsv(report())
+    expect(csv).toContain(`# day=${TODAY}\n`)
+    expect(csv).toContain('# credited=1500\n')
+    expect(csv).toContain('"1x Tea, ""large"" @ 1500"')
+  })
+
+  it('escapes shop input in the printable report', () => {
+    const html = reportHtml(
+      reconcile(TODAY, [sale('p1', { items: [{ name: '<b>x</b>', unitPrice: 1500, quantity: 1 }] })], [
+        entry('p1', 'completed'),
+      ])
+    )
+    expect(html).not.toContain('<b>x</b>')
+    expect(html).toContain('&#60;b&#62;x&#60;/b&#62;')
+  })
+})
@@ -0,0 +1,198 @@
+import {
+  createLanBackend, installLanBackend, lanTransport, memoryDirectory, uninstallLanBackend, webSocketConnect,
+  type LanListen, type LanSocket,
+} from '@/utils/localpay/transport/lan'
+import { localSupportsLan, selectTransport } from '@/utils/localpay/transport/select'
+import { mintSession, instanceName, CAP_LAN } from '@/utils/localpay/session'
+import { FRAME_VERSION, type PaymentFrame } from '@/utils/localpay/codec'
+
+jest.mock('react-native-localpay-transport', () => ({
+  getLocalPayTransport: () => null,
+}))
+
+// No @types/ws here: only the handful of members the adapters below touch.
+interface WsSocket {
+  send(data: string): void
+  close(): void
+  on(event: 'message', fn: (data: { toString(): string }) => void): void
+  on(event: 'close', fn: () => void): void
+}
+interface WsServer {
+  address(): { port: number }
+  on(event: 'listening', fn: () => void): void
+  on(event: 'connection', fn: (ws: WsSocket) => void): void
+  close(fn: () => void): void
+}
+const ws = jest.requireActual('ws') as {
+  WebSocket: typeof WebSocket
+  WebSocketServer: new (opts: { host: string; port: number }) => WsServer
+}
+
+function wrap(socket: WsSocket): LanSocket {
+  return {
+    send: data => socket.send(data),
+    close: () => socket.close(),
+    onMessage: fn => socket.on('message', data => fn(data.toString())),
+    onClose: fn => socket.on('close', fn),
+  }
+}
+
+/** A real WebSocket server on an ephemeral localhost port. */
+const wsListen: LanListen = onConnection =>
+  new Promise(resolve => {
+    const server = new ws.WebSocketServer({ host: '127.0.0.1', port: 0 })
+    server.on('connection', socket => onConnection(wrap(socket)))
+    server.on('listening', () =>
+      resolve({
+        port: server.address().port,
+        close: () => new Promise<void>(done => server.close(() => done())),
+      })
+    )
+  })
+
+const session = mintSession({
+  identityKey: '02'.padEnd(66, 'd'),
+  amount: 1,
+  derivationPrefix: 'cA',
+  derivationSuffix: 'cw',
+  supportsAwdl: false,
+  supportsLan: true,
+})
+
+const frame: PaymentFrame = {
+  version: FRAME_VERSION,
+  kind: 'bsv' as const,
+  senderIdentityKey: '02'.padEnd(66, 'e'),
+  outputIndex: 0,
+  derivationPrefix: 'cA',
+  derivationSuffix: 'cw',
+  transaction: new Uint8Array([1, 2, 3]),
+}
+
+describe('lanTransport over a localhost WebSocket', () => {
+  const directory = memoryDirectory()
+  const deps = { listen: wsListen, connect: webSocketConnect(ws.WebSocket), directory }
+
+  beforeEach(() => installLanBackend(deps))
+  afterEach(() => uninstallLanBackend())
+
+  it('delivers the frame and carries the positive ack back to the payer', async () => {
+    const receiving = lanTransport.receive(session, new AbortController().signal)
+    await new Promise(r => setTimeout(r, 50))
+    const sending = lanTransport.send(session, frame, new AbortController().signal)
+
+    const received = await receiving
+    expect(received.frame).toEqual(frame)
+    await received.confirm(true)
+    await expect(sending).resolves.toEqual({ ok: true })
+  })
+
+  it('carries a decline reason back verbatim', async () => {
+    const receiving = lanTransport.receive(session, new AbortController().signal)
+    await new Promise(r => setTimeout(r, 50))
+    const sending = lanTransport.send(session, frame, new AbortController().signal)
+
+    await (await receiving).confirm(false, 'already_paid')
+    await expect(sending).resolves.toEqual({ ok: false, error: 'already_paid' })
+  })
+
+  it('rejects when nobody is advertising the session', async () => {
+    await expect(lanTransport.send(session, frame, new AbortController().signal)).rejects.toThrow(/no route/)
+  })
+
+  it('drops a connection for another session and keeps listening for this one', async () => {
+    const receiving = lanTransport.receive(session, new AbortController().signal)
+    await new Promise(r => setTimeout(r, 50))
+
+    const { port } = await directory.resolve(instanceName(session.sessionId), 1000)
+    const stranger = new ws.WebSocket(`ws://127.0.0.1:${port}`)
+    const dropped = new Promise(r => (stranger.onclose = r))
+    stranger.onopen = () => stranger.send(JSON.stringify({ v: 1, n: 'someone-else', f: 'AA==' }))
+    await dropped
+
+    const sending = lanTransport.send(session, frame, new AbortController().signal)
+    await (await receiving).confirm(true)
+    await expect(sending).resolves.toEqual({ ok: true })
+  })
+
+  it('does not let a connection without the session PSK take the listener', async () => {
+    const receiving = lanTransport.receive(session, new AbortController().signal)
+    await new Promise(r => setTimeout(r, 50))
+
+    // The right instance name is no secret: it is advertised. Without a MAC
+    // made with the PSK the frame is dropped and the listener stays open.
+    const name = instanceName(session.sessionId)
+    const { port } = await directory.resolve(name, 1000)
+    const squatter = new ws.WebSocket(`ws://127.0.0.1:${port}`)
+    const dropped = new Promise(r => (squatter.onclose = r))
+    squatter.onopen = () => squatter.send(JSON.stringify({ v: 1, n: name, f: 'AA==', m: '00'.repeat(32) }))
+    await dropped
+
+    const sending = lanTransport.send(session, frame, new AbortController().signal)
+    await (await receiving).confirm(true)
+    await expect(sending).resolves.toEqual({ ok: true })
+  })
+
+  it('takes no frame at a listener holding another key', async () => {
+    // A listener advertising the right name with the wrong key: the request's
+    // MAC fails there, so it never reaches onFrame and nothing is acked.
+    const impostor = createLanBackend(deps)
+    const other = mintSession({
+      identityKey: '02'.padEnd(66, 'd'),
+      amount: 1,
+      derivationPrefix: 'cA',
+      derivationSuffix: 'cw',
+      supportsAwdl: false,
+    })
+    const onFrame = jest.fn()
+    await impostor.startListening(
+      instanceName(session.sessionId),
+      globalThis.btoa(String.fromCharCode(...other.psk)),
+      onFrame,
+      () => {}
+    )
+    try {
+      await expect(lanTransport.send(session, frame, new AbortController().signal)).rejects.toThrow(/closed before ack/)
+      expect(onFrame).not.toHaveBeenCalled()
+    } finally {
+      await impostor.stopListening()
+    }
+  })
+
+  it('refuses an ack that was not made with the session PSK', async () => {
+    // Anyone can answer a connection with "queued"; without the PSK the MAC
+    // on it cannot match.
+    const forged = await wsListen(socket =>
+      socket.onMessage(() => socket.send(JSON.stringify({ a: globalThis.btoa('{"ok":true}'), m: '00'.repeat(32) })))
+    )
+    const withdraw = await directory.advertise(instanceName(session.sessionId), forged.port)
+    try {
+      await expect(lanTransport.send(session, frame, new AbortController().signal)).rejects.toThrow(
+        /failed authentication/
+      )
+    } finally {
+      await withdraw()
+      await forged.close()
+    }
+  })
+})
+
+describe('LAN selection', () => {
+  afterEach(() => uninstallLanBackend())
+
+  it('is unavailable until a backend is installed', () => {
+    expect(localSupportsLan()).toBe(false)
+    expect(selectTransport(session)).toBe('qr')
+  })
+
+  it('is chosen when the payee advertised it and a backend is installed', () => {
+    installLanBackend({ listen: wsListen, connect: webSocketConnect(ws.WebSocket), directory: memoryDirectory() })
+    expect(session.caps & CAP_LAN).toBe(CAP_LAN)
+    expect(selectTransport(session)).toBe('lan')
+  })
+
+  it('is not chosen when the payee did not advertise it', () => {
+    installLanBackend({ listen: wsListen, connect: webSocketConnect(ws.WebSocket), directory: memoryDirectory() })
+    expect(selectTransport({ ...session, caps: 0 })).toBe('qr')
+  })
+})
@@ -0,0 +1,163 @@
+/**
+ * Notifications and Push through the WebView message router.
+ *
+ * Drives createWebViewMessageRouter with the messages the injected polyfill
+ * posts (SHOW_NOTIFICATION, REQUEST_NOTIFICATION_PERMISSION, PUSH_SUBSCRIBE,
+ * GET_PUSH_SUBSCRIPTION) and reads back what it injects into
+ * the page. Permission state is a plain map standing in for permissionsManager.
+ */
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+)
+jest.mock('react-native-permissions', () => ({
+  check: jest.fn(async () => 'granted'),
+  request: jest.fn(async () => 'granted'),
+  PERMISSIONS: { IOS: {}, ANDROID: {} },
+  RESULTS: { UNAVAILABLE: 'unavailable', DENIED: 'denied', LIMITED: 'limited', GRANTED: 'granted', BLOCKED: 'blocked' }
+}))
+jest.mock('@/utils/webview/downloadHandler', () => ({
+  handleUrlDownload: jest.fn(async () => {}),
+  handleBase64Download: jest.fn(async () => {})
+}))
+
+import AsyncStorage from '@react-native-async-storage/async-storage'
+import type { PermissionState, PermissionType } from '@/utils/permissionsManager'
+import { createWebViewMessageRouter } from '@/utils/webview/messageRouter'
+import { PUSH_NOT_SUPPORTED, type WebNotification } from '@/utils/webview/notifications'
+
+function harness(url = 'https://news.example.com/article') {
+  const injected: string[] = []
+  const presented: WebNotification[] = []
+  const states = new Map<string, PermissionState>()
+  const tab = { id: 1, url, webviewRef: { current: { injectJavaScript: (js: string) => void injected.push(js) } } }
+  let pendingCallback: ((granted: boolean) => void) | null = null
+  let modalVisible = false
+
+  const route = createWebViewMessageRouter({
+    getActiveTab: () => tab,
+    domainForUrl: (u: string) => new URL(u).hostname,
+    getPermissionState: async (domain: string, permission: PermissionType) =>
+      states.get(`${domain}|${permission}`) ?? 'ask',
+    setPendingDomain: () => {},
+    setPendingPermission: () => {},
+    setPendingCallback: cb => {
+      pendingCallback = cb
+    },
+    setPermissionModalVisible: v => {
+      modalVisible = v
+    },
+    activeCameraStreams: { current: new Set<string>() },
+    setIsFullscreen: () => {},
+    presentNotification: n => void presented.push(n)
+  })
+
+  return {
+    route,
+    tab,
+    presented,
+    injected,
+    setState: (state: PermissionState) => states.set(`${new URL(tab.url).hostname}|NOTIFICATIONS`, state),
+    modalVisible: () => modalVisible,
+    /** Simulates the user's choice in PermissionModal (usePermissions.onDecision). */
+    decide: async (granted: boolean) => {
+      pendingCallback?.(granted)
+      await new Promise(r => setTimeout(r, 0))
+    },
+    /** Every message the router dispatched into the page, parsed back out. */
+    responses: () =>
+      injected.flatMap(js => {
+        const m = /data: ("(?:[^"\\]|\\.)*")/.exec(js)
+        return m ? [JSON.parse(JSON.parse(m[1]))] : []
+      })
+  }
+}
+
+beforeEach(async () => {
+  await AsyncStorage.clear()
+})
+
+describe('SHOW_NOTIFICATION', () => {
+  it('presents the notification when the domain has permission', async () => {
+    const h = harness()
+    h.setState('allow')
+
+    expect(await h.route({ type: 'SHOW_NOTIFICATION', title: 'Hello', body: 'World', tag: 't1' })).toBe(true)
+    expect(h.presented).toEqual([
+      { domain: 'news.example.com', title: 'Hello', body: 'World', icon: '', tag: 't1', data: null }
+    ])
+  })
+
+  it('drops the notification without permission and never prompts', async () => {
+    const h = harness()
+
+    expect(await h.route({ type: 'SHOW_NOTIFICATION', title: 'Hello' })).toBe(true)
+    expect(h.presented).toHaveLength(0)
+    expect(h.modalVisible()).toBe(false)
+  })
+})
+
+describe('REQUEST_NOTIFICATION_PERMISSION', () => {
+  it('answers immediately from a stored decision', async () => {
+    const h = harness()
+    h.setState('deny')
+
+    await h.route({ type: 'REQUEST_NOTIFICATION_PERMISSION' })
+    expect(h.modalVisible()).toBe(false)
+    expect(h.responses()).toEqual([{ type: 'NOTIFICATION_PERMISSION_RESPONSE', permission: 'denied' }])
+  })
+
+  it('prompts when undecided and answers with the user choice', async () => {
+    const h = harness()
+
+    await h.route({ type: 'REQUEST_NOTIFICATION_PERMISSION' })
+    expect(h.modalVisible()).toBe(true)
+    expect(h.responses()).toHaveLength(0)
+
+    await h.decide(true)
+    expect(h.responses()).toEqual([{ type: 'NOTIFICATION_PERMISSION_RESPONSE', permission: 'granted' }])
+  })
+
+  it('drops a decision that lands after the tab navigated to another site', async () => {
+    const h = harness()
+
+    await h.route({ type: 'REQUEST_NOTIFICATION_PERMISSION' })
+    h.tab.url = 'https://elsewhere.example.org/'
+    await h.decide(true)
+    expect(h.responses()).toHaveLength(0)
+  })
+})
+
+describe('PUSH_SUBSCRIBE / GET_PUSH_SUBSCRIPTION', () => {
+  it('rejects a subscribe as not supported, without prompting', async () => {
+    const h = harness()
+
+    await h.route({ type: 'PUSH_SUBSCRIBE', options: { userVisibleOnly: true, applicationServerKey: 'BFake' } })
+    expect(h.modalVisible()).toBe(false)
+    expect(h.responses()).toEqual([
+      {
+        type: 'PUSH_SUBSCRIPTION_RESPONSE',
+        subscription: null,
+        error: PUSH_NOT_SUPPORTED.message,
+        errorName: 'NotSupportedError'
+      }
+    ])
+  })
+
+  it('stores nothing, even for a permitted domain', async () => {
+    const h = harness()
+    h.setState('allow')
+
+    await h.route({ type: 'PUSH_SUBSCRIBE', options: {} })
+    expect(h.responses()[0].errorName).toBe('NotSupportedError')
+    expect(await AsyncStorage.getAllKeys()).toEqual([])
+  })
+
+  it('reports no subscription', async () => {
+    const h = harness()
+    h.setState('allow')
+
+    await h.route({ type: 'PUSH_SUBSCRIBE', options: {} })
+    await h.route({ type: 'GET_PUSH_SUBSCRIPTION' })
+    expect(h.responses()[1]).toEqual({ type: 'PUSH_SUBSCRIPTION_RESPONSE', subscription: null })
+  })
+})
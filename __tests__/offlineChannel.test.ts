@@ -0,0 +1,200 @@
+import {
+  CHANNELS_KEY,
+  DEFAULT_CHANNEL_LIMIT,
+  chainHead,
+  channelReleaseOrder,
+  channelRisk,
+  exposure,
+  fitsLimit,
+  getChannel,
+  getChannelSettings,
+  linkOf,
+  reconcileChannels,
+  recordLink,
+  setChannelLimit,
+  setChannelSettings,
+  type ChannelLink
+} from '@/utils/offline/channel'
+import { savePending, updateStatus } from '@/utils/localpay/pending'
+import { FRAME_VERSION, type PaymentFrame } from '@/utils/localpay/codec'
+import { Beef, LockingScript, Transaction } from '@bsv/sdk'
+
+function fakeStorage() {
+  const map = new Map<string, string>()
+  return {
+    map,
+    getKeyValue: async (k: string) => map.get(k),
+    setKeyValue: async (k: string, v: string) => void map.set(k, v)
+  }
+}
+
+const PAYER = '02'.padEnd(66, 'a')
+
+function receivedFrame(satoshis: number): { txid: string; frame: PaymentFrame } {
+  const tx = new Transaction()
+  tx.addOutput({
+    satoshis,
+    lockingScript: LockingScript.fromHex('76a914000000000000000000000000000000000000000088ac')
+  })
+  const txid = tx.id('hex')
+  const beef = new Beef()
+  beef.mergeTransaction(tx)
+  return {
+    txid,
+    frame: {
+      version: FRAME_VERSION,
+      kind: 'bsv' as const,
+      senderIdentityKey: PAYER,
+      outputIndex: 0,
+      derivationPrefix: 'cHJlZml4',
+      derivationSuffix: 'c3VmZml4',
+      transaction: new Uint8Array(beef.toBinaryAtomic(txid))
+    }
+  }
+}
+
+const link = (txid: string, satoshis: number, inputTxids: string[] = [], extra: Partial<ChannelLink> = {}) => ({
+  txid,
+  direction: 'received' as const,
+  satoshis,
+  inputTxids,
+  ...extra
+})
+
+describe('offline channels', () => {
+  it('opens a channel at the default limit on its first link', async () => {
+    const s = fakeStorage()
+    const channel = await recordLink(s, PAYER, link('A', 400))
+    expect(channel.limit).toBe(DEFAULT_CHANNEL_LIMIT)
+    expect(channel.links).toEqual([expect.objectContaining({ txid: 'A', status: 'held' })])
+    expect(s.map.has(CHANNELS_KEY)).toBe(true)
+  })
+
+  it('records a frame delivered twice as one link', async () => {
+    const s = fakeStorage()
+    await recordLink(s, PAYER, link('A', 400))
+    const channel = await recordLink(s, PAYER, link('A', 400))
+    expect(channel.links).toHaveLength(1)
+    expect(exposure(channel)).toBe(400)
+  })
+
+  it('keeps links made concurrently', async () => {
+    const s = fakeStorage()
+    await Promise.all([recordLink(s, PAYER, link('A', 1)), recordLink(s, PAYER, link('B', 2))])
+    expect((await getChannel(s, PAYER)).links.map(l => l.txid).sort()).toEqual(['A', 'B'])
+  })
+
+  it('refuses a payment that would pass the limit, and admits one that reaches it', async () => {
+    const s = fakeStorage()
+    await setChannelLimit(s, PAYER, 1000)
+    const channel = await recordLink(s, PAYER, link('A', 600))
+    expect(fitsLimit(channel, 400)).toBe(true)
+    expect(fitsLimit(channel, 401)).toBe(false)
+  })
+
+  it('opens new channels at the default limit the settings name', async () => {
+    const s = fakeStorage()
+    expect(await getChannelSettings(s)).toEqual({ enabled: false, defaultLimit: DEFAULT_CHANNEL_LIMIT })
+    await setChannelSettings(s, { enabled: true, defaultLimit: 5000 })
+    expect((await getChannel(s, PAYER)).limit).toBe(5000)
+  })
+
+  it('rejects a limit that is not a positive whole number of satoshis', async () => {
+    const s = fakeStorage()
+    await expect(setChannelLimit(s, PAYER, 0)).rejects.toThrow('limit')
+    await expect(setChannelSettings(s, { defaultLimit: 1.5 })).rejects.toThrow('limit')
+  })
+
+  it('meters the exposure against the limit', async () => {
+    const s = fakeStorage()
+    await setChannelLimit(s, PAYER, 1000)
+    expect(channelRisk(await getChannel(s, PAYER))).toEqual({ exposure: 0, limit: 1000, fraction: 0, level: 'none' })
+    expect(channelRisk(await recordLink(s, PAYER, link('A', 500))).level).toBe('low')
+    expect(channelRisk(await recordLink(s, PAYER, link('B', 300))).level).toBe('high')
+    expect(channelRisk(await recordLink(s, PAYER, link('C', 200)))).toMatchObject({ fraction: 1, level: 'full' })
+  })
+})
+
+describe('chaining and release', () => {
+  it('spends the latest held sent link’s change next', async () => {
+    const s = fakeStorage()
+    await recordLink(s, PAYER, link('A', 1, [], { direction: 'sent', change: ['A.1'] }))
+    await recordLink(s, PAYER, link('B', 1, ['A'], { direction: 'sent', change: ['B.1'] }))
+    expect(chainHead(await getChannel(s, PAYER))).toEqual(['B.1'])
+  })
+
+  it('has no head once the chain has landed', async () => {
+    const s = fakeStorage()
+    await recordLink(s, PAYER, link('A', 1, [], { direction: 'sent', change: ['A.1'] }))
+    const [channel] = await reconcileChannels(s, [{ txid: 'A', status: 'sent' }])
+    expect(chainHead(channel)).toBeUndefined()
+  })
+
+  it('releases a chain parents first, whichever order its links were recorded in', async () => {
+    const s = fakeStorage()
+    await recordLink(s, PAYER, link('C', 1, ['B']))
+    await recordLink(s, PAYER, link('A', 1))
+    await recordLink(s, PAYER, link('B', 1, ['A']))
+    expect(channelReleaseOrder(await getChannel(s, PAYER))).toEqual(['A', 'B', 'C'])
+  })
+
+  it('moves sent links on with their queue rows', async () => {
+    const s = fakeStorage()
+    const sent = { direction: 'sent' as const }
+    await recordLink(s, PAYER, link('A', 100, [], sent))
+    await recordLink(s, PAYER, link('B', 200, ['A'], sent))
+    await recordLink(s, PAYER, link('C', 400, ['B'], sent))
+    await recordLink(s, PAYER, link('D', 800, ['C'], sent))
+    const [channel] = await reconcileChannels(s, [
+      { txid: 'A', status: 'sent' },
+      { txid: 'B', status: 'rejected' },
+      { txid: 'C', status: 'queued' }
+    ])
+    expect(channel.links.map(l => l.status)).toEqual(['released', 'rejected', 'held', 'held'])
+    expect(exposure(channel)).toBe(1200)
+    expect(channelReleaseOrder(channel)).toEqual(['C', 'D'])
+  })
+
+  it('moves received links on with their pending entries, not with being online', async () => {
+    const s = fakeStorage()
+    const [waiting, landed, parked, failed] = [1, 2, 3, 4].map(receivedFrame)
+    for (const r of [waiting, landed, parked, failed]) await recordLink(s, PAYER, link(r.txid, 100))
+    // A pending id is the save's millisecond plus the payer, so space the saves out.
+    let clock = Date.now()
+    const now = jest.spyOn(Date, 'now').mockImplementation(() => ++clock)
+    const ids: string[] = []
+    for (const r of [waiting, landed, parked, failed]) ids.push((await savePending(s, r.frame)).id)
+    now.mockRestore()
+    await updateStatus(s, ids[1], 'completed')
+    await updateStatus(s, ids[2], 'completed')
+    await updateStatus(s, ids[3], 'failed', 'rejected')
+
+    const [channel] = await reconcileChannels(s, [{ txid: parked.txid, status: 'queued' }])
+    expect(channel.links.map(l => l.status)).toEqual(['held', 'released', 'held', 'rejected'])
+  })
+
+  it('keeps a received link with no pending entry held', async () => {
+    const s = fakeStorage()
+    await recordLink(s, PAYER, link('A', 100))
+    expect((await reconcileChannels(s, []))[0].links[0].status).toBe('held')
+  })
+
+  it('reads a link’s txid and inputs off its AtomicBEEF', () => {
+    const script = LockingScript.fromHex('76a914000000000000000000000000000000000000000088ac')
+    const parent = new Transaction()
+    parent.addOutput({ satoshis: 1000, lockingScript: script })
+    const child = new Transaction()
+    child.addInput({ sourceTransaction: parent, sourceOutputIndex: 0, unlockingScript: script })
+    child.addOutput({ satoshis: 900, lockingScript: script })
+    const beef = new Beef()
+    beef.mergeTransaction(parent)
+    beef.mergeTransaction(child)
+    const childTxid = child.id('hex')
+
+    expect(linkOf(new Uint8Array(beef.toBinaryAtomic(childTxid)))).toEqual({
+      txid: childTxid,
+      inputTxids: [parent.id('hex')]
+    })
+    expect(linkOf(new Uint8Array([9, 9, 9]))).toBeNull()
+  })
+})
@@ -0,0 +1,277 @@
+/**
+ * The 402 payment policy: auto-pay ceilings, the confirmation hand-off, the
+ * receipt log, re-opening a paid page from its receipt, and paying for a
+ * page's own fetch/XHR requests.
+ *
+ * The wallet is a stand-in that hands back a fixed signed transaction, and
+ * fetch plays the paywalled server: 402 without payment headers, the page with.
+ */
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+)
+jest.mock('@/utils/webview/downloadHandler', () => ({
+  handleUrlDownload: jest.fn(async () => {}),
+  handleBase64Download: jest.fn(async () => {})
+}))
+
+import AsyncStorage from '@react-native-async-storage/async-storage'
+import { PrivateKey } from '@bsv/sdk'
+import { BsvPaymentHandler, armReceiptReplay } from '@/utils/webview/bsvPaymentHandler'
+import {
+  DEFAULT_402_AUTOPAY_CEILING,
+  decidePayment,
+  getPaymentPolicy,
+  parseRequestedSats,
+  setDefaultCeiling,
+  setDomainCeiling
+} from '@/utils/webview/paymentPolicy'
+import {
+  MAX_RECEIPTS,
+  getReceipts,
+  memoryReceiptContentStore,
+  recordReceipt,
+  type ReceiptContentStore
+} from '@/utils/webview/paymentReceipts'
+
+const SERVER_KEY = PrivateKey.fromRandom().toPublicKey().toString()
+const PAGE = '<html><body>paid article</body></html>'
+
+function fakeWallet() {
+  const key = PrivateKey.fromRandom().toPublicKey().toString()
+  return {
+    getPublicKey: jest.fn(async () => ({ publicKey: key })),
+    createAction: jest.fn(async () => ({ txid: 'ab'.repeat(32), tx: [1, 2, 3] })),
+    signAction: jest.fn()
+  }
+}
+
+function serve(sats: string) {
+  const fetchMock = jest.fn(async (_url: string, init?: { headers?: Record<string, string> }) => {
+    const paid = !!init?.headers?.['x-bsv-beef']
+    return {
+      ok: paid,
+      status: paid ? 200 : 402,
+      redirected: false,
+      url: _url,
+      headers: new Map([['content-type', 'text/html']]) as unknown as Headers,
+      text: async () => PAGE
+    }
+  })
+  ;(globalThis as any).fetch = fetchMock
+  return { fetchMock, headers: { 'x-bsv-sats': sats, 'x-bsv-server': SERVER_KEY } }
+}
+
+let store: ReceiptContentStore
+let handler: BsvPaymentHandler
+let wallet: ReturnType<typeof fakeWallet>
+
+beforeEach(async () => {
+  await AsyncStorage.clear()
+  store = memoryReceiptContentStore()
+  wallet = fakeWallet()
+  handler = new BsvPaymentHandler(wallet as any, { contentStore: store })
+  handler.clearCache()
+})
+
+describe('policy', () => {
+  it('auto-pays at or under the ceiling and asks above it', async () => {
+    await setDomainCeiling('news.example', 500)
+    const policy = await getPaymentPolicy()
+    expect(decidePayment(policy, 'news.example', 500)).toBe('auto')
+    expect(decidePayment(policy, 'news.example', 501)).toBe('confirm')
+    expect(decidePayment(policy, 'other.example', DEFAULT_402_AUTOPAY_CEILING)).toBe('auto')
+  })
+
+  it('falls back to the default ceiling once a domain ceiling is cleared', async () => {
+    await setDefaultCeiling(10)
+    await setDomainCeiling('news.example', 500)
+    await setDomainCeiling('news.example', null)
+    expect(decidePayment(await getPaymentPolicy(), 'news.example', 11)).toBe('confirm')
+  })
+
+  it('reads only a plain positive integer as a price', () => {
+    expect(parseRequestedSats(' 250 ')).toBe(250)
+    for (const bad of ['', '0', '-5', '12abc', '1e9', '1.5', '99999999999999999999', null]) {
+      expect(parseRequestedSats(bad)).toBeNull()
+    }
+  })
+})
+
+describe('handle402', () => {
+  it('pays under the ceiling without asking and records a receipt', async () => {
+    const { headers } = serve('100')
+    const confirm = jest.fn()
+    handler.setConfirmHandler(confirm)
+
+    expect(await handler.handle402('https://news.example/a', 402, headers)).toBe(PAGE)
+    expect(confirm).not.toHaveBeenCalled()
+
+    const [receipt] = await getReceipts()
+    expect(receipt).toMatchObject({
+      url: 'https://news.example/a',
+      domain: 'news.example',
+      sats: 100,
+      txid: 'ab'.repeat(32),
+      serverIdentityKey: SERVER_KEY,
+      hasContent: true
+    })
+    expect(await store.read(receipt.id)).toBe(PAGE)
+  })
+
+  it('does not pay above the ceiling when the user declines', async () => {
+    const { headers } = serve(String(DEFAULT_402_AUTOPAY_CEILING + 1))
+    const confirm = jest.fn(async () => 'decline' as const)
+    handler.setConfirmHandler(confirm)
+
+    const html = await handler.handle402('https://news.example/a', 402, headers)
+    expect(html).not.toBe(PAGE)
+    expect(confirm).toHaveBeenCalledWith(
+      expect.objectContaining({ domain: 'news.example', sats: DEFAULT_402_AUTOPAY_CEILING + 1 })
+    )
+    expect(wallet.createAction).not.toHaveBeenCalled()
+    expect(await getReceipts()).toEqual([])
+  })
+
+  it('declines above the ceiling when no confirmation sheet is installed', async () => {
+    const { headers } = serve('5000')
+    await handler.handle402('https://news.example/a', 402, headers)
+    expect(wallet.createAction).not.toHaveBeenCalled()
+  })
+
+  it('raises the domain ceiling when the user picks always', async () => {
+    const { headers } = serve('5000')
+    handler.setConfirmHandler(async () => 'always')
+
+    expect(await handler.handle402('https://news.example/a', 402, headers)).toBe(PAGE)
+    expect((await getPaymentPolicy()).domains['news.example']).toBe(5000)
+  })
+
+  it('refuses a garbled price without paying', async () => {
+    const { headers } = serve('12abc')
+    await handler.handle402('https://news.example/a', 402, headers)
+    expect(wallet.createAction).not.toHaveBeenCalled()
+  })
+
+  it('charges a container page to the container, and pays for it there again', async () => {
+    const { headers } = serve('100')
+    await setDomainCeiling('work.container.news.example', 0)
+    handler.setConfirmHandler(async () => 'once')
+
+    expect(await handler.handle402('https://news.example/a', 402, headers)).toBe(PAGE)
+    expect(await handler.handle402('https://news.example/a', 402, headers, 'work')).toBe(PAGE)
+    expect(wallet.createAction).toHaveBeenCalledTimes(2)
+    expect(wallet.createAction).toHaveBeenLastCalledWith(expect.anything(), 'https://work.container.news.example')
+    expect((await getReceipts())[0].domain).toBe('work.container.news.example')
+  })
+})
+
+describe('payForSubresource', () => {
+  const API = 'https://api.example/v1/quote'
+  const PAGE_URL = 'https://news.example/article'
+
+  it('returns payment headers for the page to retry with, without fetching itself', async () => {
+    const { fetchMock, headers } = serve('100')
+
+    const result = await handler.payForSubresource(API, headers, PAGE_URL)
+    expect(result).toEqual({
+      headers: expect.objectContaining({ 'x-bsv-beef': expect.any(String), 'x-bsv-sender': expect.any(String) })
+    })
+    expect(fetchMock).not.toHaveBeenCalled()
+
+    const [receipt] = await getReceipts()
+    expect(receipt).toMatchObject({ url: API, domain: 'news.example', sats: 100, hasContent: false })
+  })
+
+  it('charges the requesting page, not the host that answered 402', async () => {
+    const { headers } = serve('100')
+    await setDomainCeiling('news.example', 0)
+    await setDomainCeiling('api.example', 1_000_000)
+    const confirm = jest.fn(async () => 'decline' as const)
+    handler.setConfirmHandler(confirm)
+
+    expect(await handler.payForSubresource(API, headers, PAGE_URL)).toEqual({ error: expect.any(String) })
+    expect(confirm).toHaveBeenCalledWith(expect.objectContaining({ url: API, domain: 'news.example' }))
+    expect(wallet.createAction).not.toHaveBeenCalled()
+  })
+
+  it('charges a container page to the container', async () => {
+    const { headers } = serve('100')
+    await setDomainCeiling('work.container.news.example', 0)
+    const confirm = jest.fn(async () => 'decline' as const)
+    handler.setConfirmHandler(confirm)
+
+    expect(await handler.payForSubresource(API, headers, PAGE_URL, 'work')).toEqual({ error: expect.any(String) })
+    expect(confirm).toHaveBeenCalledWith(expect.objectContaining({ domain: 'work.container.news.example' }))
+    expect(await handler.payForSubresource(API, headers, PAGE_URL)).toEqual({ headers: expect.any(Object) })
+    expect(wallet.createAction).toHaveBeenCalledWith(expect.anything(), 'https://news.example')
+  })
+
+  it('pays each request separately', async () => {
+    const { headers } = serve('100')
+    await Promise.all([
+      handler.payForSubresource(API, headers, PAGE_URL),
+      handler.payForSubresource(API, headers, PAGE_URL)
+    ])
+    expect(wallet.createAction).toHaveBeenCalledTimes(2)
+  })
+
+  it('reports a wallet failure as an error instead of throwing', async () => {
+    const { headers } = serve('100')
+    wallet.createAction.mockRejectedValueOnce(new Error('insufficient funds'))
+    expect(await handler.payForSubresource(API, headers, PAGE_URL)).toEqual({ error: 'insufficient funds' })
+    expect(await getReceipts()).toEqual([])
+  })
+})
+
+describe('re-opening from a receipt', () => {
+  it('serves the stored page once, without paying again', async () => {
+    const { headers } = serve('100')
+    await handler.handle402('https://news.example/a', 402, headers)
+    const [receipt] = await getReceipts()
+    handler.clearCache()
+
+    expect(await armReceiptReplay(receipt, undefined, store)).toBe(true)
+    expect(await handler.handle402('https://news.example/a', 402, headers)).toBe(PAGE)
+    expect(wallet.createAction).toHaveBeenCalledTimes(1)
+
+    // Consumed: the next visit is an ordinary one.
+    await handler.handle402('https://news.example/a', 402, headers)
+    expect(wallet.createAction).toHaveBeenCalledTimes(2)
+  })
+
+  it('serves the stored page only in the container it was re-opened in', async () => {
+    const { headers } = serve('100')
+    await handler.handle402('https://news.example/a', 402, headers)
+    const [receipt] = await getReceipts()
+    handler.clearCache()
+
+    expect(await armReceiptReplay(receipt, 'work', store)).toBe(true)
+    await handler.handle402('https://news.example/a', 402, headers)
+    expect(wallet.createAction).toHaveBeenCalledTimes(2)
+    expect(await handler.handle402('https://news.example/a', 402, headers, 'work')).toBe(PAGE)
+    expect(wallet.createAction).toHaveBeenCalledTimes(2)
+  })
+
+  it('has nothing to re-open for a receipt without content', async () => {
+    const receipt = await recordReceipt(
+      { url: 'https://files.example/f', domain: 'files.example', sats: 1, txid: 't', serverIdentityKey: SERVER_KEY },
+      null,
+      store
+    )
+    expect(receipt.hasContent).toBe(false)
+    expect(await armReceiptReplay(receipt, undefined, store)).toBe(false)
+  })
+})
+
+describe('receipt log', () => {
+  it('keeps the newest receipts and deletes the pages of evicted ones', async () => {
+    const entry = { url: 'https://a.example/', domain: 'a.example', sats: 1, txid: 't', serverIdentityKey: SERVER_KEY }
+    const first = await recordReceipt(entry, 'first', store)
+    for (let i = 0; i < MAX_RECEIPTS; i++) await recordReceipt(entry, null, store)
+
+    const receipts = await getReceipts()
+    expect(receipts).toHaveLength(MAX_RECEIPTS)
+    expect(receipts.some(r => r.id === first.id)).toBe(false)
+    expect(await store.read(first.id)).toBeUndefined()
+  })
+})
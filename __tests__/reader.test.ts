@@ -0,0 +1,122 @@
+/* eslint-disable import/first -- jest.mock must be hoisted above the imports it affects */
+/**
+ * Reader mode: what the page script posts, how it is cleaned up, and the
+ * reading list kept on top of it.
+ */
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+)
+jest.mock('@/utils/reader/savedArticles', () => {
+  const files = new Map<string, unknown>()
+  return {
+    writeSavedArticle: (id: string, article: unknown) => files.set(id, article),
+    readSavedArticle: async (id: string) => files.get(id) ?? null,
+    deleteSavedArticle: (id: string) => files.delete(id)
+  }
+})
+
+import { normalizeArticle, readingMinutes } from '@/utils/reader/article'
+import { buildReaderExtractScript, READER_ARTICLE_MESSAGE } from '@/utils/reader/extractScript'
+import { ReaderStore, READER_FONT_SCALE_MAX, READER_FONT_SCALE_MIN } from '@/stores/ReaderStore'
+
+const PAGE = 'https://news.example/2024/story'
+const prose = 'Lorem ipsum dolor sit amet, consectetur adipiscing elit. '.repeat(8)
+
+describe('normalizeArticle', () => {
+  it('keeps known blocks, resolves images against the page and drops unsafe ones', () => {
+    const article = normalizeArticle(
+      {
+        title: '  The   Story ',
+        byline: 'A. Writer',
+        blocks: [
+          { type: 'heading', level: 7, text: 'Part one' },
+          { type: 'paragraph', text: prose },
+          { type: 'image', src: '/img/a.jpg', caption: 'A picture' },
+          { type: 'image', src: 'javascript:alert(1)' },
+          { type: 'image', src: 'data:image/png;base64,AAAA' },
+          { type: 'script', text: 'nope' },
+          { type: 'list', ordered: true, items: ['one', '', 'two'] }
+        ]
+      },
+      PAGE
+    )!
+    expect(article.title).toBe('The Story')
+    expect(article.blocks).toEqual([
+      { type: 'heading', level: 3, text: 'Part one' },
+      { type: 'paragraph', text: prose.trim() },
+      { type: 'image', src: 'https://news.example/img/a.jpg', caption: 'A picture' },
+      { type: 'list', ordered: true, items: ['one', 'two'] }
+    ])
+    expect(article.excerpt.length).toBeLessThanOrEqual(200)
+    expect(article.excerpt.endsWith('…')).toBe(true)
+    expect(article.wordCount).toBe(2 + 64 + 2)
+    expect(readingMinutes(article)).toBe(1)
+  })
+
+  it('rejects replies with no prose in them', () => {
+    expect(normalizeArticle(null, PAGE)).toBeNull()
+    expect(normalizeArticle({ title: 'x', blocks: 'nope' }, PAGE)).toBeNull()
+    expect(normalizeArticle({ title: 'x', blocks: [{ type: 'heading', level: 1, text: 'Only' }] }, PAGE)).toBeNull()
+  })
+
+  it('builds a page script that parses', () => {
+    const script = buildReaderExtractScript('req"1')
+    expect(() => new Function(script)).not.toThrow()
+    expect(script).toContain(READER_ARTICLE_MESSAGE)
+  })
+})
+
+describe('ReaderStore', () => {
+  function tab(onInject: (script: string) => void) {
+    return { url: PAGE, webviewRef: { current: { injectJavaScript: onInject } as any } }
+  }
+
+  it('opens the article the page answers with and ignores stale replies', async () => {
+    const s = new ReaderStore()
+    let injected = ''
+    const opened = s.openFromTab(tab(script => (injected = script)))
+    const id = JSON.parse(/var requestId = ("[^"]*");/.exec(injected)![1])
+    s.receive({ type: READER_ARTICLE_MESSAGE, id: 'other', article: null } as any)
+    expect(s.loading).toBe(true)
+    s.receive({ id, article: { title: 'T', blocks: [{ type: 'paragraph', text: prose }] } })
+    await expect(opened).resolves.toBe(true)
+    expect(s.loading).toBe(false)
+    expect(s.article?.title).toBe('T')
+    expect(s.article?.url).toBe(PAGE)
+  })
+
+  it('reports a page with no article', async () => {
+    const s = new ReaderStore()
+    let injected = ''
+    const opened = s.openFromTab(tab(script => (injected = script)))
+    s.receive({ id: JSON.parse(/var requestId = ("[^"]*");/.exec(injected)![1]), article: null })
+    await expect(opened).resolves.toBe(false)
+    expect(s.article).toBeNull()
+  })
+
+  it('saves the open article once and reopens it from disk', async () => {
+    const s = new ReaderStore()
+    s.article = normalizeArticle({ title: 'Saved', blocks: [{ type: 'paragraph', text: prose }] }, PAGE)
+    const item = s.saveCurrent()!
+    expect(s.saveCurrent()?.id).toBe(item.id)
+    expect(s.readingList).toHaveLength(1)
+    expect(s.savedItem(PAGE)?.title).toBe('Saved')
+
+    s.close()
+    await expect(s.openSaved(item.id)).resolves.toBe(true)
+    expect(s.article?.title).toBe('Saved')
+    expect(s.readingList[0].readAt).toBeDefined()
+
+    s.removeSaved(item.id)
+    expect(s.readingList).toEqual([])
+    await expect(s.openSaved(item.id)).resolves.toBe(false)
+  })
+
+  it('keeps the font scale within bounds', () => {
+    const s = new ReaderStore()
+    for (let i = 0; i < 20; i++) s.adjustFontScale(0.1)
+    expect(s.fontScale).toBe(READER_FONT_SCALE_MAX)
+    for (let i = 0; i < 20; i++) s.adjustFontScale(-0.1)
+    expect(s.fontScale).toBe(READER_FONT_SCALE_MIN)
+  })
+})
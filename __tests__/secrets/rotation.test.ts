@@ -0,0 +1,182 @@
+/**
+ * KEK rotation: every secret re-sealed under a new key, or none of them.
+ *
+ * The interesting cases are the failures — a swap the OS refuses, and a
+ * process that dies with the rotation journaled — because those are the ones
+ * that must still leave a wallet the next launch can open.
+ */
+jest.mock('expo-secure-store', () => require('../__mocks__/secureStoreFake').fake)
+jest.mock('expo-local-authentication', () => require('../__mocks__/localAuthFake').fake)
+
+import { fake as secureStore } from '../__mocks__/secureStoreFake'
+import { fake as localAuth } from '../__mocks__/localAuthFake'
+import { __resetForTests, lockKek, readSentinel, unlockKek, writeSentinel } from '../../services/secrets/kek'
+import { KEK_AUTH_KEY } from '../../services/secrets/policy'
+import { rotateKek, rotateKekIfBiometricsChanged } from '../../services/secrets/rotation'
+import { getSecret, putSecret } from '../../services/secrets/store'
+
+const ENV_SERVICE = 'bsvb.secrets.v1'
+const MNEMONIC = 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about'
+const WIF = 'L1uyy5qTuGrVXrmrsvHWHgVzW9kKdrp27wBC7Vs6nZDTF2BRUVwy'
+
+const blobFor = (key: string) => JSON.parse(secureStore.__get(key, { service: ENV_SERVICE }) as string)
+
+async function walletWithSecrets() {
+  await putSecret('mnemonic', MNEMONIC)
+  await putSecret('recoveredKey', WIF)
+  return (await readSentinel())!
+}
+
+/** Make the next write of `key` throw, as if the OS refused it or the process
+ * died there; every other write goes through. */
+function failNextWrite(key: string, message = 'User canceled the operation.') {
+  const real = secureStore.setItemAsync.getMockImplementation()!
+  let armed = true
+  secureStore.setItemAsync.mockImplementation(async (k: string, value: string, options?: object) => {
+    if (armed && k === key) {
+      armed = false
+      throw new Error(message)
+    }
+    return real(k, value, options)
+  })
+  return () => secureStore.setItemAsync.mockImplementation(real)
+}
+
+/** A fresh process with storage intact, unlocked the way the app would. */
+async function relaunch() {
+  __resetForTests()
+  return unlockKek()
+}
+
+describe('KEK rotation', () => {
+  beforeEach(() => {
+    secureStore.__reset()
+    localAuth.__reset()
+    __resetForTests()
+    ;(global as any).__DEV__ = false
+  })
+
+  it('re-seals every secret under a new KEK', async () => {
+    const before = await walletWithSecrets()
+
+    const result = await rotateKek()
+    expect(result).toMatchObject({ outcome: 'rotated', names: ['mnemonic', 'recoveredKey'] })
+    if (result.outcome !== 'rotated') return
+
+    const after = (await readSentinel())!
+    expect(after.kekId).toBe(result.kekId)
+    expect(after.kekId).not.toBe(before.kekId)
+    expect(after.rotating).toBeUndefined()
+    expect(blobFor('envV1.mnemonic').kekId).toBe(result.kekId)
+    expect(blobFor('envV1.recoveredKey').kekId).toBe(result.kekId)
+    expect(secureStore.__keys().filter((k: string) => k.endsWith('.next'))).toEqual([])
+
+    expect((await relaunch()).status).toBe('unlocked')
+    expect(await getSecret('mnemonic')).toBe(MNEMONIC)
+    expect(await getSecret('recoveredKey')).toBe(WIF)
+  })
+
+  it('never prompts to unlock — a locked wallet is reported, not opened', async () => {
+    await walletWithSecrets()
+    lockKek()
+    secureStore.__clearPrompts()
+
+    expect(await rotateKek()).toEqual({ outcome: 'failed', stage: 'locked', retryable: false })
+    expect(secureStore.__prompts()).toBe(0)
+  })
+
+  it('puts the old KEK back when the new one cannot be written', async () => {
+    const before = await walletWithSecrets()
+    const restore = failNextWrite(KEK_AUTH_KEY)
+    try {
+      expect(await rotateKek()).toEqual({ outcome: 'failed', stage: 'swap', retryable: true })
+    } finally {
+      restore()
+    }
+
+    const sentinel = (await readSentinel())!
+    expect(sentinel.kekId).toBe(before.kekId)
+    expect(sentinel.rotating).toBeUndefined()
+    expect(blobFor('envV1.mnemonic').kekId).toBe(before.kekId)
+
+    expect((await relaunch()).status).toBe('unlocked')
+    expect(await getSecret('mnemonic')).toBe(MNEMONIC)
+  })
+
+  it('finishes a rotation that died after the swap, on the next unlock', async () => {
+    await walletWithSecrets()
+    // The first live blob commitRotation writes — after the new KEK is in place.
+    const restore = failNextWrite('envV1.mnemonic', 'process died')
+    await expect(rotateKek()).rejects.toThrow('process died')
+    restore()
+    const journaled = (await readSentinel())!
+    expect(journaled.rotating).toBeDefined()
+
+    expect(await relaunch()).toMatchObject({ status: 'unlocked', kekId: journaled.rotating!.kekId })
+    const settled = (await readSentinel())!
+    expect(settled.kekId).toBe(journaled.rotating!.kekId)
+    expect(settled.rotating).toBeUndefined()
+    expect(await getSecret('mnemonic')).toBe(MNEMONIC)
+    expect(await getSecret('recoveredKey')).toBe(WIF)
+  })
+
+  it('undoes a rotation that died before the swap, on the next unlock', async () => {
+    const before = await walletWithSecrets()
+    // Journaled, staged blobs written under a KEK that was never stored.
+    await writeSentinel({ ...before, rotating: { kekId: 'feedfacefeedface', policy: before.policy } })
+    secureStore.__seed('envV1.mnemonic.next', '{"v":1,"kekId":"feedfacefeedface"}', { service: ENV_SERVICE })
+
+    expect(await relaunch()).toMatchObject({ status: 'unlocked', kekId: before.kekId })
+    expect((await readSentinel())!.rotating).toBeUndefined()
+    expect(secureStore.__has('envV1.mnemonic.next', { service: ENV_SERVICE })).toBe(false)
+    expect(await getSecret('mnemonic')).toBe(MNEMONIC)
+  })
+})
+
+describe('rotation after a biometric change', () => {
+  beforeEach(() => {
+    secureStore.__reset()
+    localAuth.__reset()
+    __resetForTests()
+    ;(global as any).__DEV__ = false
+  })
+
+  it('does nothing while the enrolment is unchanged', async () => {
+    const before = await walletWithSecrets()
+    expect(await rotateKekIfBiometricsChanged()).toBeNull()
+    expect((await readSentinel())!.kekId).toBe(before.kekId)
+  })
+
+  it('takes today’s enrolment as the baseline for a sentinel that has none', async () => {
+    const before = await walletWithSecrets()
+    await writeSentinel({ ...before, biometrics: undefined })
+
+    expect(await rotateKekIfBiometricsChanged()).toBeNull()
+    const after = (await readSentinel())!
+    expect(after.kekId).toBe(before.kekId)
+    expect(after.biometrics).toBe(before.biometrics)
+  })
+
+  it('rotates while the old KEK is still in memory, so the next launch is not lost', async () => {
+    const before = await walletWithSecrets()
+    localAuth.__setTypes([localAuth.AuthenticationType.FACIAL_RECOGNITION, localAuth.AuthenticationType.FINGERPRINT])
+    secureStore.__invalidateBiometrics()
+
+    const result = await rotateKekIfBiometricsChanged()
+    expect(result).toMatchObject({ outcome: 'rotated' })
+    expect((await readSentinel())!.kekId).not.toBe(before.kekId)
+
+    expect((await relaunch()).status).toBe('unlocked')
+    expect(await getSecret('mnemonic')).toBe(MNEMONIC)
+  })
+
+  it('rotates when a face or finger is added to a kind already enrolled', async () => {
+    const before = await walletWithSecrets()
+    localAuth.__setEnrollmentState('enrolled-2')
+    secureStore.__invalidateBiometrics()
+
+    expect(await rotateKekIfBiometricsChanged()).toMatchObject({ outcome: 'rotated' })
+    expect((await readSentinel())!.kekId).not.toBe(before.kekId)
+    expect((await relaunch()).status).toBe('unlocked')
+  })
+})
@@ -0,0 +1,186 @@
+/**
+ * Per-origin spending budgets: the cap store, the verdict, and the ledger that
+ * reads each origin's spending back out of the wallet's actions.
+ */
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+)
+
+import AsyncStorage from '@react-native-async-storage/async-storage'
+import {
+  SPENDING_BUDGETS_KEY,
+  clearBudget,
+  evaluateBudget,
+  getBudget,
+  getBudgets,
+  remainingBudget,
+  revokeOriginSpending,
+  setBudget
+} from '@/utils/spending/budgets'
+import { ORIGINATOR_LABEL_PREFIX, loadSpendingLedger, summarizeSpending } from '@/utils/spending/ledger'
+
+// 15 March, mid-afternoon local time.
+const NOW = new Date(2026, 2, 15, 15, 0, 0).getTime()
+const at = (day: number, hour = 12) => new Date(2026, 2, day, hour).toISOString()
+
+function action(over: Record<string, unknown>) {
+  return {
+    txid: 'aa',
+    satoshis: -100,
+    isOutgoing: true,
+    status: 'completed',
+    description: 'x',
+    labels: [`${ORIGINATOR_LABEL_PREFIX}shop.example`],
+    version: 1,
+    lockTime: 0,
+    created_at: at(15),
+    ...over
+  } as any
+}
+
+beforeEach(async () => {
+  await AsyncStorage.clear()
+})
+
+describe('budget store', () => {
+  it('round-trips caps per origin', async () => {
+    await setBudget('a.example', { daily: 1000, monthly: null })
+    await setBudget('b.example', { daily: null, monthly: 50_000 })
+
+    expect(await getBudget('a.example')).toMatchObject({ daily: 1000, monthly: null })
+    expect(await getBudget('b.example')).toMatchObject({ daily: null, monthly: 50_000 })
+    expect(await getBudget('c.example')).toBeNull()
+  })
+
+  it('removes a budget with no caps instead of storing an empty one', async () => {
+    await setBudget('a.example', { daily: 1000, monthly: null })
+    await clearBudget('a.example')
+    expect(await getBudgets()).toEqual({})
+  })
+
+  it('loses no origin when writes race', async () => {
+    await Promise.all(['a', 'b', 'c', 'd'].map(o => setBudget(`${o}.example`, { daily: 1, monthly: null })))
+    expect(Object.keys(await getBudgets()).sort()).toEqual(['a.example', 'b.example', 'c.example', 'd.example'])
+  })
+
+  it('drops invalid caps and reads a corrupt store as empty', async () => {
+    await setBudget('a.example', { daily: -5, monthly: 1.5 })
+    expect(await getBudget('a.example')).toBeNull()
+
+    await AsyncStorage.setItem(SPENDING_BUDGETS_KEY, 'not json')
+    expect(await getBudgets()).toEqual({})
+  })
+})
+
+describe('evaluateBudget', () => {
+  const budget = { daily: 1000, monthly: 5000, updatedAt: '' }
+
+  it('passes anything when there is no budget', () => {
+    expect(evaluateBudget(null, { today: 1e9, thisMonth: 1e9 }, 1)).toEqual({ ok: true })
+  })
+
+  it('allows a spend that lands exactly on the cap', () => {
+    expect(evaluateBudget(budget, { today: 900, thisMonth: 900 }, 100)).toEqual({ ok: true })
+  })
+
+  it('reports the daily overrun first', () => {
+    expect(evaluateBudget(budget, { today: 900, thisMonth: 4950 }, 200)).toEqual({
+      ok: false,
+      period: 'daily',
+      limit: 1000,
+      spent: 900,
+      remaining: 100
+    })
+  })
+
+  it('reports a monthly overrun when the day is fine', () => {
+    expect(evaluateBudget(budget, { today: 0, thisMonth: 4950 }, 200)).toMatchObject({
+      ok: false,
+      period: 'monthly',
+      remaining: 50
+    })
+  })
+
+  it('computes what is left, never below zero', () => {
+    expect(remainingBudget({ daily: 1000, monthly: null, updatedAt: '' }, { today: 1200, thisMonth: 1200 })).toEqual({
+      daily: 0,
+      monthly: null
+    })
+  })
+})
+
+describe('summarizeSpending', () => {
+  it('splits one origin’s spends into today and this month', () => {
+    const m = summarizeSpending(
+      [
+        action({ satoshis: -100, created_at: at(15, 9) }),
+        action({ satoshis: -250, created_at: at(3) }),
+        action({ satoshis: -999, created_at: new Date(2026, 1, 28).toISOString() })
+      ],
+      NOW
+    )
+    expect(m.get('shop.example')).toEqual({
+      origin: 'shop.example',
+      today: 100,
+      thisMonth: 350,
+      lastSpendAt: new Date(at(15, 9)).getTime(),
+      count: 2
+    })
+  })
+
+  it('ignores receipts, failed spends, undated rows and unlabelled actions', () => {
+    const m = summarizeSpending(
+      [
+        action({ isOutgoing: false, satoshis: 500 }),
+        action({ status: 'failed' }),
+        action({ created_at: undefined }),
+        action({ labels: ['something else'] })
+      ],
+      NOW
+    )
+    expect(m.size).toBe(0)
+  })
+
+  it('keeps origins apart', () => {
+    const m = summarizeSpending(
+      [action({}), action({ labels: [`${ORIGINATOR_LABEL_PREFIX}other.example`], satoshis: -7 })],
+      NOW
+    )
+    expect(m.get('shop.example')?.thisMonth).toBe(100)
+    expect(m.get('other.example')?.thisMonth).toBe(7)
+  })
+})
+
+describe('loadSpendingLedger', () => {
+  it('stops paging once a page reaches back past the start of the month', async () => {
+    const newest = Array.from({ length: 200 }, () => action({ satoshis: -1 }))
+    const older = Array.from({ length: 200 }, (_, i) =>
+      action({ satoshis: -1, created_at: i < 100 ? at(1) : new Date(2026, 1, 20).toISOString() })
+    )
+    const listActions = jest.fn(async ({ offset }: { offset: number }) => ({
+      totalActions: 10_000,
+      actions: offset === 0 ? newest : offset === 200 ? older : []
+    }))
+
+    const m = await loadSpendingLedger({ listActions } as any, 'admin.local', NOW)
+    expect(listActions).toHaveBeenCalledTimes(2)
+    expect(listActions.mock.calls[0]).toEqual([expect.objectContaining({ includeLabels: true }), 'admin.local'])
+    expect(m.get('shop.example')?.thisMonth).toBe(300)
+  })
+})
+
+describe('revokeOriginSpending', () => {
+  it('revokes every standing authorization and drops the budget', async () => {
+    await setBudget('shop.example', { daily: 1000, monthly: null })
+    const tokens = [{ txid: 't1' }, { txid: 't2' }]
+    const manager = {
+      listSpendingAuthorizations: jest.fn(async () => tokens),
+      revokePermission: jest.fn(async () => {})
+    }
+
+    expect(await revokeOriginSpending(manager, 'shop.example')).toBe(2)
+    expect(manager.listSpendingAuthorizations).toHaveBeenCalledWith({ originator: 'shop.example' })
+    expect(manager.revokePermission.mock.calls).toEqual([[tokens[0]], [tokens[1]]])
+    expect(await getBudget('shop.example')).toBeNull()
+  })
+})
@@ -0,0 +1,115 @@
+/* eslint-disable import/first -- jest.mock must be hoisted above the imports it affects */
+/**
+ * Tab groups and private tabs in TabStore: what is kept, what is persisted.
+ */
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+)
+jest.mock('@/utils/thumbnailService', () => ({ deleteThumbnail: jest.fn() }))
+jest.mock('@/utils/deviceTier', () => ({ maxTabsForTier: () => 8, warmPoolSizeForTier: () => 2 }))
+let mockContainers = true
+jest.mock('@/utils/webview/containerStore', () => ({ containersSupported: () => mockContainers }))
+let mockPrivateTabs = true
+jest.mock('@/utils/webview/privateTabs', () => ({ privateTabsSupported: () => mockPrivateTabs }))
+
+import AsyncStorage from '@react-native-async-storage/async-storage'
+import { TabStore, TAB_GROUP_COLORS } from '@/stores/TabStore'
+
+function storeWith(...urls: string[]) {
+  const s = new TabStore()
+  for (const url of urls) s.newTab(url)
+  return s
+}
+
+describe('tab groups', () => {
+  it('groups tabs, reorders groups and drops a group once its last tab leaves', () => {
+    const s = storeWith('https://a.example/', 'https://b.example/', 'https://c.example/')
+    const [a, b, c] = s.tabs
+    const work = s.createGroup('Work', [a.id, b.id])!
+    const news = s.createGroup('', [c.id])!
+    expect(news.title).toBe('Group 2')
+    expect(news.color).toBe(TAB_GROUP_COLORS[1])
+    expect(s.tabsInGroup(work.id).map(t => t.id)).toEqual([a.id, b.id])
+
+    s.moveGroup(news.id, 0)
+    expect(s.groups.map(g => g.id)).toEqual([news.id, work.id])
+
+    s.setTabGroup(c.id, work.id)
+    expect(s.groups.map(g => g.id)).toEqual([work.id])
+
+    s.removeGroup(work.id)
+    expect(s.groups).toEqual([])
+    expect(s.tabsInGroup(null)).toHaveLength(3)
+  })
+
+  it('keys a container on its title when made one and keeps the key through renames', () => {
+    const s = storeWith('https://a.example/', 'https://b.example/')
+    const [a, b] = s.tabs
+    const one = s.createGroup('My Work!', [a.id], { container: true })!
+    const two = s.createGroup('my work', [b.id], { container: true })!
+    expect(one.container).toBe('my-work')
+    expect(two.container).toBe('my-work-2')
+    s.renameGroup(one.id, 'Personal')
+    expect(s.containerOf(a)).toBe('my-work')
+    s.setGroupContainer(one.id, false)
+    expect(s.containerOf(a)).toBeUndefined()
+  })
+
+  it('has no containers where the device cannot keep one apart', () => {
+    const s = storeWith('https://a.example/', 'https://b.example/')
+    const [a, b] = s.tabs
+    const kept = s.createGroup('Work', [a.id], { container: true })!
+    mockContainers = false
+    try {
+      expect(s.containerOf(a)).toBeUndefined()
+      const refused = s.createGroup('Home', [b.id], { container: true })!
+      expect(refused.container).toBeUndefined()
+      s.setGroupContainer(kept.id, false)
+      expect(s.group(kept.id)?.container).toBeUndefined()
+    } finally {
+      mockContainers = true
+    }
+  })
+
+  it('opens a tab into a group but never a private one', () => {
+    const s = storeWith('https://a.example/')
+    const group = s.createGroup('G', [s.tabs[0].id])!
+    s.newTab('https://b.example/', { groupId: group.id })
+    s.newPrivateTab('https://c.example/')
+    expect(s.tabsInGroup(group.id)).toHaveLength(2)
+    const privateTab = s.tabs[2]
+    s.setTabGroup(privateTab.id, group.id)
+    expect(privateTab.groupId).toBeUndefined()
+  })
+})
+
+describe('persistence', () => {
+  it('opens no private tab where the device cannot keep one apart', () => {
+    const s = storeWith('https://a.example/')
+    mockPrivateTabs = false
+    try {
+      s.newPrivateTab('https://b.example/')
+    } finally {
+      mockPrivateTabs = true
+    }
+    expect(s.tabs).toHaveLength(1)
+    expect(s.tabs.some(t => t.isPrivate)).toBe(false)
+  })
+
+  it('leaves private tabs and their history out, and restores groups', async () => {
+    const s = storeWith('https://a.example/')
+    s.createGroup('Work', [s.tabs[0].id])
+    s.newPrivateTab('https://secret.example/')
+    await s.flushTabs()
+
+    const saved = await AsyncStorage.multiGet(['tabs', 'tabNavigationHistories'])
+    expect(saved[0][1]).not.toContain('secret.example')
+    expect(saved[1][1]).not.toContain('secret.example')
+
+    const restored = new TabStore()
+    await restored.loadTabs()
+    expect(restored.tabs.map(t => t.url)).toEqual(['https://a.example/'])
+    expect(restored.groups.map(g => g.title)).toEqual(['Work'])
+    expect(restored.activeTab?.url).toBe('https://a.example/')
+  })
+})
@@ -1016,3 +1016,69 @@ describe('CeremonyController: unwrap error handling', () => {
     handle.release()
   })
 })
+
+describe('CeremonyController: several enrolled keys', () => {
+  const SECOND_SERIAL = '87654321'
+
+  /** makeCeremony's vault, plus a second card holding its own seal of the SAME
+   * seed, with the store view vending both — the shape addVaultKey leaves. */
+  async function makeTwoKeyCeremony() {
+    const first = await makeCeremony()
+    const second = new MockYubiKey()
+    second.insertKey(SECOND_SERIAL)
+    const { publicKey } = await second.generateVaultKey(VAULT_SLOT)
+    second.removeKey()
+    const secondSeal = sealVaultKey(vaultSeed(), publicKey, { slot: VAULT_SLOT, serial: SECOND_SERIAL })
+    let driver = first.mock
+    const ceremony = new CeremonyController({
+      getDriver: () => driver,
+      store: {
+        getMeta: async () => first.meta,
+        getSeal: async () => first.seal,
+        getSeals: async () => [first.seal, secondSeal]
+      },
+      retentionMs: RETENTION
+    })
+    return { ...first, ceremony, second, secondSeal, useCard: (m: MockYubiKey) => (driver = m) }
+  }
+
+  test('either enrolled card arms the vault, each through its own seal', async () => {
+    const { ceremony: c, mock, second, secondSeal, useCard, expectedHd } = await makeTwoKeyCeremony()
+
+    const p1 = c.requestKey('x')
+    mock.insertKey(DEFAULT_SERIAL)
+    c.submitPin('123456')
+    const h1 = await p1
+    expect(h1.serial).toBe(DEFAULT_SERIAL)
+    expect(h1.hd.toString()).toBe(expectedHd.toString())
+    h1.release()
+
+    useCard(second)
+    const ecdhSpy = jest.spyOn(second, 'ecdh')
+    const p2 = c.requestKey('x')
+    second.insertKey(SECOND_SERIAL)
+    c.submitPin('123456')
+    const h2 = await p2
+    expect(h2.serial).toBe(SECOND_SERIAL)
+    expect(h2.hd.toString()).toBe(expectedHd.toString())
+    // Its own seal's ephemeral key, not the first card's.
+    expect(ecdhSpy).toHaveBeenCalledWith(VAULT_SLOT, '123456', secondSeal.ePub)
+    h2.release()
+  })
+
+  test('an excluded card is refused as same-key before any ECDH', async () => {
+    const { ceremony: c, mock } = await makeTwoKeyCeremony()
+    const ecdhSpy = jest.spyOn(mock, 'ecdh')
+    const p = c.requestKey('second approval', { excludeSerials: [DEFAULT_SERIAL] })
+    mock.insertKey(DEFAULT_SERIAL)
+    await expect(p).rejects.toMatchObject({ code: 'same-key' })
+    expect(ecdhSpy).not.toHaveBeenCalled()
+  })
+
+  test('a card that is not on the list is still a serial mismatch', async () => {
+    const { ceremony: c, mock } = await makeTwoKeyCeremony()
+    const p = c.requestKey('x')
+    mock.insertKey('WRONG-SERIAL')
+    await expect(p).rejects.toMatchObject({ code: 'serial-mismatch' })
+  })
+})
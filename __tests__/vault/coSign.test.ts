@@ -0,0 +1,213 @@
+/**
+ * Several YubiKeys on one vault — adding and removing keys, and the two-key
+ * co-sign policy. The ceremony is mocked down to the handle it produces (its
+ * own multi-key behaviour is covered in ceremony.test.ts); the card being
+ * ADDED is the real mock driver, so every new seal is proved to open.
+ */
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+)
+const secureItems: Record<string, string> = {}
+jest.mock('expo-secure-store', () => ({
+  AFTER_FIRST_UNLOCK_THIS_DEVICE_ONLY: 'afudo',
+  getItemAsync: jest.fn(async (k: string) => secureItems[k] ?? null),
+  setItemAsync: jest.fn(async (k: string, v: string) => {
+    secureItems[k] = v
+  }),
+  deleteItemAsync: jest.fn(async (k: string) => {
+    delete secureItems[k]
+  })
+}))
+jest.mock('@/services/vault/ceremonyHost', () => ({
+  requestVaultKey: jest.fn(),
+  noteVaultProgress: jest.fn()
+}))
+
+import AsyncStorage from '@react-native-async-storage/async-storage'
+import { HD } from '@bsv/sdk'
+import { requestVaultKey } from '@/services/vault/ceremonyHost'
+import type { VaultKeyHandle } from '@/services/vault/ceremony'
+import { requestCoSignedKey, VAULT_COSIGN_MIN_KEYS } from '@/services/vault/coSign'
+import { MockYubiKey } from '@/services/vault/mockYubiKey'
+import { setMockDriver } from '@/services/vault/driver'
+import { unsealVaultKey } from '@/services/vault/sealing'
+import { deriveVaultHD } from '@/services/vault/vaultDerivation'
+import { enrolledKeys, vaultStore } from '@/services/vault/vaultStore'
+import {
+  addVaultKey,
+  enrollVault,
+  finalizeAddedKey,
+  finalizeEnrollment,
+  removeVaultKey,
+  setCoSignPolicy
+} from '@/services/vault/VaultKeyService'
+
+// A fixed, well-known throwaway BIP39 test vector. NEVER a real wallet phrase.
+const MNEMONIC =
+  'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about'
+const PASSPHRASE = 'correct horse battery staple anchor'
+const VAULT_HD = deriveVaultHD(MNEMONIC, PASSPHRASE)
+
+const args = (over: Record<string, unknown> = {}) => ({
+  nickname: 'k',
+  mnemonic: MNEMONIC,
+  passphrase: PASSPHRASE,
+  onPhase: () => {},
+  getPin: async () => '123456',
+  approveReason: 'Confirm with a current key',
+  ...over
+})
+
+let released: string[]
+
+/** The mocked ceremony: each tap is answered by the next serial in the list
+ * (the last repeating), unwrapping `hd`. */
+const tapsFrom = (serials: string[], hd: HD = VAULT_HD) => {
+  let taps = 0
+  ;(requestVaultKey as jest.Mock).mockImplementation(async () => {
+    const serial = serials[Math.min(taps++, serials.length - 1)]
+    const handle: VaultKeyHandle = { serial, hd, release: () => released.push(serial) }
+    return handle
+  })
+}
+
+/** A card with its own generated slot key, as the driver sees it. */
+const card = (serial: string): MockYubiKey => {
+  const m = new MockYubiKey()
+  m.insertKey(serial)
+  return m
+}
+
+/** Enroll `serials` in order: the first through enrollVault, the rest through
+ * addVaultKey, each confirmed by a tap of the first. */
+async function enrollKeys(...serials: string[]): Promise<Record<string, MockYubiKey>> {
+  const cards: Record<string, MockYubiKey> = {}
+  for (const serial of serials) {
+    cards[serial] = card(serial)
+    setMockDriver(cards[serial])
+    if (serial === serials[0]) {
+      await finalizeEnrollment((await enrollVault(args({ nickname: serial }))).pending)
+    } else {
+      tapsFrom([serials[0]])
+      await finalizeAddedKey((await addVaultKey(args({ nickname: serial }))).pending)
+    }
+  }
+  return cards
+}
+
+beforeEach(async () => {
+  await AsyncStorage.clear()
+  for (const k of Object.keys(secureItems)) delete secureItems[k]
+  released = []
+  ;(requestVaultKey as jest.Mock).mockReset()
+})
+afterEach(() => setMockDriver(null))
+
+describe('addVaultKey', () => {
+  test('seals the same vault to the new card, checked by a tap of a current one', async () => {
+    const cards = await enrollKeys('MOCK-1', 'MOCK-2')
+
+    expect(requestVaultKey).toHaveBeenCalledWith('Confirm with a current key')
+    expect(released).toEqual(['MOCK-1'])
+    const meta = (await vaultStore.getMeta())!
+    expect(enrolledKeys(meta).map(k => k.yubiSerial)).toEqual(['MOCK-1', 'MOCK-2'])
+
+    // Both seals open, each through its own card, to the one vault node.
+    const seals = await vaultStore.getSeals()
+    expect(seals.map(b => b.yubiSerial)).toEqual(['MOCK-1', 'MOCK-2'])
+    for (const seal of seals) {
+      const { secret } = await cards[seal.yubiSerial].ecdh(seal.slot, '123456', seal.ePub)
+      expect(HD.fromSeed(unsealVaultKey(seal, secret)).toString()).toBe(VAULT_HD.toString())
+    }
+  })
+
+  test('a mistyped passphrase fails before the new card is touched', async () => {
+    await enrollKeys('MOCK-1')
+    const fresh = card('MOCK-2')
+    setMockDriver(fresh)
+    const generate = jest.spyOn(fresh, 'generateVaultKey')
+    tapsFrom(['MOCK-1'])
+
+    await expect(addVaultKey(args({ passphrase: 'correct horse battery staple anvil' }))).rejects.toMatchObject({
+      code: 'bad-passphrase'
+    })
+    expect(generate).not.toHaveBeenCalled()
+    expect(released).toEqual(['MOCK-1'])
+  })
+
+  test('refuses a card the vault already lists', async () => {
+    const cards = await enrollKeys('MOCK-1', 'MOCK-2')
+    setMockDriver(cards['MOCK-2'])
+    tapsFrom(['MOCK-1'])
+
+    await expect(addVaultKey(args())).rejects.toMatchObject({ code: 'key-already-enrolled' })
+  })
+})
+
+describe('removeVaultKey', () => {
+  test('never removes the last key', async () => {
+    await enrollKeys('MOCK-1')
+    await expect(removeVaultKey('MOCK-1', 'Remove')).rejects.toMatchObject({ code: 'last-key' })
+  })
+
+  test('a removed key no longer has a seal on this device', async () => {
+    await enrollKeys('MOCK-1', 'MOCK-2')
+    await removeVaultKey('MOCK-1', 'Remove')
+
+    expect((await vaultStore.getSeals()).map(b => b.yubiSerial)).toEqual(['MOCK-2'])
+    expect(requestVaultKey).toHaveBeenCalledTimes(1) // only addVaultKey's check; removal needs no tap
+  })
+})
+
+describe('co-sign policy', () => {
+  test(`needs ${VAULT_COSIGN_MIN_KEYS} keys before it can be turned on`, async () => {
+    await enrollKeys('MOCK-1', 'MOCK-2')
+    await expect(setCoSignPolicy(1_000_000, 'Approve')).rejects.toMatchObject({ code: 'co-sign-needs-keys' })
+  })
+
+  test('turning it off takes two different keys', async () => {
+    await enrollKeys('MOCK-1', 'MOCK-2', 'MOCK-3')
+    await setCoSignPolicy(1_000_000, 'Approve')
+    expect((await vaultStore.getMeta())!.coSign).toEqual({ above: 1_000_000 })
+
+    tapsFrom(['MOCK-1', 'MOCK-1'])
+    await expect(setCoSignPolicy(null, 'Approve')).rejects.toMatchObject({ code: 'same-key' })
+    expect((await vaultStore.getMeta())!.coSign).toEqual({ above: 1_000_000 })
+
+    tapsFrom(['MOCK-1', 'MOCK-3'])
+    await setCoSignPolicy(null, 'Approve', 'Another key')
+    expect(requestVaultKey).toHaveBeenLastCalledWith('Another key', { excludeSerials: ['MOCK-1'] })
+    expect((await vaultStore.getMeta())!.coSign).toBeUndefined()
+  })
+
+  test('lowering the threshold needs no tap', async () => {
+    await enrollKeys('MOCK-1', 'MOCK-2', 'MOCK-3')
+    await setCoSignPolicy(1_000_000, 'Approve')
+    ;(requestVaultKey as jest.Mock).mockClear()
+
+    await setCoSignPolicy(500_000, 'Approve')
+    expect(requestVaultKey).not.toHaveBeenCalled()
+    expect((await vaultStore.getMeta())!.coSign).toEqual({ above: 500_000 })
+  })
+
+  test('a removal may not take the vault below the policy minimum', async () => {
+    await enrollKeys('MOCK-1', 'MOCK-2', 'MOCK-3')
+    await setCoSignPolicy(1_000_000, 'Approve')
+
+    await expect(removeVaultKey('MOCK-3', 'Remove')).rejects.toMatchObject({ code: 'co-sign-needs-keys' })
+    expect(enrolledKeys((await vaultStore.getMeta())!)).toHaveLength(3)
+  })
+})
+
+describe('requestCoSignedKey', () => {
+  test('releases the first approval before asking for the second, and hands back the second', async () => {
+    tapsFrom(['MOCK-1', 'MOCK-2'])
+    const handle = await requestCoSignedKey('First', 'Second')
+
+    expect(handle.serial).toBe('MOCK-2')
+    expect(handle.coSignedBy).toBe('MOCK-1')
+    expect(released).toEqual(['MOCK-1'])
+    expect(requestVaultKey).toHaveBeenNthCalledWith(2, 'Second', { excludeSerials: ['MOCK-1'] })
+    handle.release()
+  })
+})
@@ -0,0 +1,156 @@
+/**
+ * Vault ledger — joining the wallet's vault actions with this device's
+ * authorization records, and the signed export an auditor checks. The
+ * recording itself, done by each transfer as it signs, is covered with those
+ * transfers in transfers.test.ts.
+ */
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+)
+
+import AsyncStorage from '@react-native-async-storage/async-storage'
+import { PrivateKey, ProtoWallet } from '@bsv/sdk'
+import {
+  exportVaultLedger,
+  loadVaultLedger,
+  recordVaultMovement,
+  verifyVaultLedgerExport,
+  VaultLedgerRow
+} from '@/services/vault/ledger'
+import type { VaultActionRow, VaultWallet } from '@/services/vault/transfers'
+
+const ADMIN = 'admin.com'
+const txid = (n: number) => String(n).padStart(2, '0').repeat(32)
+
+let proto: ProtoWallet
+let actions: VaultActionRow[]
+let wallet: VaultWallet & { listActions: jest.Mock }
+
+beforeEach(async () => {
+  await AsyncStorage.clear()
+  proto = new ProtoWallet(PrivateKey.fromRandom())
+  actions = []
+  wallet = {
+    getPublicKey: (args: any) => proto.getPublicKey(args),
+    createSignature: (args: any) => proto.createSignature(args),
+    listActions: jest.fn(async ({ limit, offset }: any) => ({ actions: actions.slice(offset, offset + limit) }))
+  } as unknown as VaultWallet & { listActions: jest.Mock }
+})
+
+describe('loadVaultLedger', () => {
+  test('joins recorded authorizations onto the wallet rows, newest first', async () => {
+    actions = [
+      { txid: txid(1), status: 'completed', satoshis: -50_010, labels: ['vault', 'vault-deposit-split'] },
+      { txid: txid(2), status: 'completed', satoshis: -50_000, labels: ['vault', 'vault-deposit'] },
+      { txid: txid(3), status: 'unproven', satoshis: 20_000, labels: ['vault', 'vault-withdraw'] }
+    ]
+    await recordVaultMovement({
+      txid: txid(2),
+      kind: 'deposit',
+      satoshis: 50_000,
+      fee: 10,
+      auth: { method: 'key', serials: ['111'], transport: 'nfc', at: 1_000 }
+    })
+    await recordVaultMovement({
+      txid: txid(3),
+      kind: 'withdraw',
+      satoshis: 20_000,
+      auth: { method: 'co-sign', serials: ['111', '222'], transport: 'usb', at: 2_000 }
+    })
+
+    const rows = await loadVaultLedger(wallet, ADMIN)
+    expect(wallet.listActions.mock.calls[0][0]).toMatchObject({ labels: ['vault'], includeLabels: true })
+    // The funding split is not a vault movement of its own.
+    expect(rows.map(r => [r.txid, r.kind, r.status])).toEqual([
+      [txid(3), 'withdraw', 'unproven'],
+      [txid(2), 'deposit', 'completed']
+    ])
+    expect(rows[1]).toMatchObject({ satoshis: 50_000, fee: 10, auth: { serials: ['111'], transport: 'nfc' } })
+  })
+
+  test('lists vault actions it holds no record of, kind from their labels and without an authorization', async () => {
+    actions = [
+      { txid: txid(4), status: 'completed', satoshis: -30_000, labels: ['vault', 'vault-deposit'] },
+      { txid: txid(5), status: 'completed', satoshis: 29_000, labels: ['vault', 'vault-withdraw', 'vault-delayed'] },
+      { txid: txid(6), status: 'completed', satoshis: 12_000, labels: ['vault', 'vault-sweep'] }
+    ]
+
+    const rows = await loadVaultLedger(wallet, ADMIN)
+    expect(rows.map(r => [r.txid, r.kind, r.satoshis, r.auth])).toEqual([
+      [txid(6), 'sweep', 12_000, undefined],
+      [txid(5), 'hold', 29_000, undefined],
+      [txid(4), 'deposit', 30_000, undefined]
+    ])
+  })
+
+  test('pages through every vault action', async () => {
+    actions = Array.from({ length: 250 }, (_, i) => ({
+      txid: i.toString(16).padStart(64, '0'),
+      status: 'completed',
+      labels: ['vault', 'vault-deposit']
+    }))
+    expect(await loadVaultLedger(wallet, ADMIN)).toHaveLength(250)
+    expect(wallet.listActions).toHaveBeenCalledTimes(2)
+  })
+})
+
+describe('exportVaultLedger', () => {
+  const rows: VaultLedgerRow[] = [
+    {
+      txid: txid(7),
+      kind: 'withdraw',
+      satoshis: 20_000,
+      status: 'completed',
+      description: 'Rent, "March"',
+      auth: { method: 'key', serials: ['111'], transport: 'nfc', at: Date.UTC(2026, 2, 1) }
+    },
+    { txid: txid(8), kind: 'deposit', satoshis: 50_000, fee: 10 }
+  ]
+
+  test('a CSV export verifies, and names the key that signed it', async () => {
+    const csv = await exportVaultLedger(wallet, ADMIN, rows, 'csv', Date.UTC(2026, 9, 1))
+    const { publicKey: identityKey } = await proto.getPublicKey({ identityKey: true })
+
+    expect(csv).toContain(`# identityKey=${identityKey}\n`)
+    expect(csv).toContain(`${txid(7)},withdraw,20000,,completed,key,111,nfc,2026-03-01T00:00:00.000Z,"Rent, ""March"""`)
+    expect(csv).toMatch(/\n# signature=[0-9a-f]+\n$/)
+    expect(verifyVaultLedgerExport(csv, 'csv')).toBe(true)
+  })
+
+  test('a JSON export verifies, and carries the rows verbatim', async () => {
+    const json = await exportVaultLedger(wallet, ADMIN, rows, 'json')
+    expect(JSON.parse(JSON.parse(json).payload).rows).toEqual(rows)
+    expect(verifyVaultLedgerExport(json, 'json')).toBe(true)
+  })
+
+  test('an edited export no longer verifies', async () => {
+    const csv = await exportVaultLedger(wallet, ADMIN, rows, 'csv')
+    expect(verifyVaultLedgerExport(csv.replace('20000', '2000'), 'csv')).toBe(false)
+
+    const json = JSON.parse(await exportVaultLedger(wallet, ADMIN, rows, 'json'))
+    json.payload = json.payload.replace('50000', '5000')
+    expect(verifyVaultLedgerExport(JSON.stringify(json), 'json')).toBe(false)
+  })
+
+  test('an export re-signed by another wallet does not pass as this identity', async () => {
+    const json = JSON.parse(await exportVaultLedger(wallet, ADMIN, rows, 'json'))
+    const other = new ProtoWallet(PrivateKey.fromRandom())
+    const header = JSON.parse(json.payload)
+    const { publicKey: signingKey } = await other.getPublicKey({
+      protocolID: header.protocolID,
+      keyID: header.keyID,
+      counterparty: 'anyone',
+      forSelf: true
+    })
+    const payload = JSON.stringify({ ...header, signingKey })
+    const { signature } = await other.createSignature({
+      protocolID: header.protocolID,
+      keyID: header.keyID,
+      counterparty: 'anyone',
+      data: Array.from(Buffer.from(payload, 'utf8'))
+    })
+    const forged = { payload, signature: Buffer.from(signature).toString('hex') }
+
+    expect(verifyVaultLedgerExport(JSON.stringify(forged), 'json')).toBe(false)
+  })
+})
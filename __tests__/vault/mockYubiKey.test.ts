@@ -263,3 +263,35 @@ describe('generateVaultKey policy', () => {
     expect(calls[0]).toEqual([0x82, 'always', 'once'])
   })
 })
+
+// ── selection follows the vault's sealing ──
+describe('getVaultDriver sealing', () => {
+  const load = (supported: boolean) => {
+    jest.doMock('react-native-yubikey', () => ({ getYubiKeyPiv: () => ({ isSupported: () => supported }) }))
+    jest.resetModules()
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    return require('@/services/vault/driver') as typeof import('@/services/vault/driver')
+  }
+
+  it('keeps a hardware-sealed vault on the native driver while it cannot reach a key', () => {
+    const driver = load(false)
+    driver.setMockDriver(new MockYubiKey())
+    driver.noteVaultSealing('hardware')
+    const picked = driver.getVaultDriver()
+    expect(picked).not.toBeInstanceOf(MockYubiKey)
+    expect(picked?.isSupported()).toBe(false)
+  })
+
+  it('treats a vault not read yet as hardware-sealed', () => {
+    const driver = load(false)
+    expect(driver.getVaultDriver()?.isSupported()).toBe(false)
+  })
+
+  it('looks past an unreachable native driver only when there is no vault', () => {
+    const driver = load(false)
+    const mock = new MockYubiKey()
+    driver.setMockDriver(mock)
+    driver.noteVaultSealing('none')
+    expect(driver.getVaultDriver()).toBe(mock)
+  })
+})
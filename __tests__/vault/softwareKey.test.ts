@@ -0,0 +1,187 @@
+/**
+ * Software vault key — the passphrase-wrapped P-256 key that stands in for a
+ * YubiKey on devices without one. Runs against an in-memory key file, so the
+ * retry counter's persistence is checked by handing the same file to a second
+ * instance, the way a restart would.
+ */
+import { HD, Utils } from '@bsv/sdk'
+import { p256 } from '@noble/curves/nist.js'
+import { CeremonyController } from '../../services/vault/ceremony'
+import { sealVaultKey, unsealVaultKey } from '../../services/vault/sealing'
+import {
+  memorySoftwareKeyFile,
+  SoftwareKeyFile,
+  SoftwareVaultKey,
+  SOFTWARE_KEY_PIN_RETRIES
+} from '../../services/vault/softwareKey'
+import { generatePassphrase } from '../../services/vault/vaultPassphrase'
+
+const VAULT_SLOT = 0x82
+// Low on purpose: the production round count only costs test time.
+const ITERATIONS = 1_000
+
+const vaultSeed = (): number[] => new Array(64).fill(0).map((_, i) => (i * 7 + 3) & 0xff)
+const bytes = (hex: string) => Uint8Array.from(Utils.toArray(hex, 'hex'))
+
+// Hops the macrotask queue until `done` holds; the key file is async.
+async function settle(done: () => boolean): Promise<void> {
+  for (let i = 0; i < 50 && !done(); i++) await new Promise<void>(r => setTimeout(r, 0))
+}
+
+let file: SoftwareKeyFile
+let passphrase: string
+
+/** A key generated the way enrollVault does it: verify, then generate. */
+async function provisioned(): Promise<{ key: SoftwareVaultKey; publicKey: string }> {
+  const key = new SoftwareVaultKey(file, ITERATIONS)
+  await key.verifyPin(passphrase)
+  const { publicKey } = await key.generateVaultKey(VAULT_SLOT)
+  return { key, publicKey }
+}
+
+beforeEach(() => {
+  file = memorySoftwareKeyFile()
+  passphrase = generatePassphrase()
+})
+
+describe('SoftwareVaultKey: enrollment', () => {
+  test('a weak passphrase is refused before anything is written', async () => {
+    const key = new SoftwareVaultKey(file, ITERATIONS)
+    await expect(key.verifyPin('hunter2')).rejects.toMatchObject({ code: 'bad-passphrase' })
+    await expect(key.generateVaultKey(VAULT_SLOT)).rejects.toMatchObject({ code: 'pin-required' })
+    expect(key.provisioned).toBe(false)
+  })
+
+  test('generating writes a key file that never holds the scalar in the clear', async () => {
+    const { key, publicKey } = await provisioned()
+    expect(key.provisioned).toBe(true)
+    expect(await key.readVaultPublicKey(VAULT_SLOT)).toEqual({ publicKey })
+    const stored = JSON.parse((await file.read())!)
+    expect(stored).toMatchObject({ v: 1, kdf: { alg: 'pbkdf2-sha512', iterations: ITERATIONS }, publicKey })
+    expect((await key.getKeyInfo()).serial).toBe(stored.serial)
+  })
+
+  test('a second generate refuses to overwrite the existing key', async () => {
+    const { key } = await provisioned()
+    await expect(key.generateVaultKey(VAULT_SLOT)).rejects.toMatchObject({ code: 'slot-occupied' })
+  })
+})
+
+describe('SoftwareVaultKey: unlocking', () => {
+  test('ECDH opens a seal made to its public key, with the passphrase as the PIN', async () => {
+    const { publicKey } = await provisioned()
+    const seal = sealVaultKey(vaultSeed(), publicKey, { slot: VAULT_SLOT, serial: 'SW' })
+    const reopened = new SoftwareVaultKey(file, ITERATIONS)
+    const { secret } = await reopened.ecdh(VAULT_SLOT, passphrase, seal.ePub)
+    expect(unsealVaultKey(seal, secret)).toEqual(vaultSeed())
+  })
+
+  test('a passphrase differing only in spacing still unlocks', async () => {
+    const { key } = await provisioned()
+    expect(await key.verifyPin(`  ${passphrase.replace(/ /g, '   ')} `)).toEqual({
+      ok: true,
+      retriesLeft: SOFTWARE_KEY_PIN_RETRIES
+    })
+  })
+
+  test('signatures are DER and verify against the public key', async () => {
+    const { key, publicKey } = await provisioned()
+    const digest = '11'.repeat(32)
+    const { signature } = await key.signEcdsa(VAULT_SLOT, passphrase, digest)
+    const sig = p256.Signature.fromBytes(bytes(signature), 'der').toBytes()
+    expect(p256.verify(sig, bytes(digest), bytes(publicKey), { prehash: false, lowS: false })).toBe(true)
+  })
+
+  test('each unlock is spent by one operation', async () => {
+    const { key, publicKey } = await provisioned()
+    const seal = sealVaultKey(vaultSeed(), publicKey, { slot: VAULT_SLOT, serial: 'SW' })
+    await key.verifyPin(passphrase)
+    await key.ecdh(VAULT_SLOT, '', seal.ePub)
+    await expect(key.ecdh(VAULT_SLOT, '', seal.ePub)).rejects.toMatchObject({ code: 'pin-required' })
+  })
+})
+
+describe('SoftwareVaultKey: retries', () => {
+  test('wrong passphrases count down across restarts, and a right one resets the count', async () => {
+    const { key } = await provisioned()
+    expect(await key.verifyPin('wrong')).toEqual({ ok: false, retriesLeft: SOFTWARE_KEY_PIN_RETRIES - 1 })
+
+    const restarted = new SoftwareVaultKey(file, ITERATIONS)
+    expect((await restarted.getKeyInfo()).pinRetries).toBe(SOFTWARE_KEY_PIN_RETRIES - 1)
+    expect(await restarted.verifyPin('wrong')).toEqual({ ok: false, retriesLeft: SOFTWARE_KEY_PIN_RETRIES - 2 })
+
+    expect((await restarted.verifyPin(passphrase)).ok).toBe(true)
+    expect((await restarted.getKeyInfo()).pinRetries).toBe(SOFTWARE_KEY_PIN_RETRIES)
+  })
+
+  test('the last wrong passphrase locks the key, even against the right one', async () => {
+    const { key } = await provisioned()
+    for (let i = 0; i < SOFTWARE_KEY_PIN_RETRIES; i++) await key.verifyPin('wrong')
+    expect((await key.getKeyInfo()).pinRetries).toBe(0)
+    await expect(key.verifyPin(passphrase)).rejects.toMatchObject({ code: 'pin-locked' })
+    await expect(key.ecdh(VAULT_SLOT, passphrase, '04')).rejects.toMatchObject({ code: 'pin-locked' })
+  })
+
+  test('an attempt is counted before it is checked', async () => {
+    const { key } = await provisioned()
+    const writes: number[] = []
+    const write = file.write
+    file.write = async text => {
+      writes.push(JSON.parse(text).retriesLeft)
+      return write(text)
+    }
+    await key.verifyPin(passphrase)
+    expect(writes).toEqual([SOFTWARE_KEY_PIN_RETRIES - 1, SOFTWARE_KEY_PIN_RETRIES])
+  })
+})
+
+describe('SoftwareVaultKey: changing the passphrase', () => {
+  test('re-wraps the same key under the new passphrase', async () => {
+    const { key, publicKey } = await provisioned()
+    const next = generatePassphrase()
+    await key.changePin(passphrase, next)
+
+    expect(await key.readVaultPublicKey(VAULT_SLOT)).toEqual({ publicKey })
+    expect(await key.verifyPin(passphrase)).toMatchObject({ ok: false })
+    expect(await key.verifyPin(next)).toMatchObject({ ok: true })
+  })
+
+  test('refuses a wrong old passphrase and a weak new one', async () => {
+    const { key } = await provisioned()
+    await expect(key.changePin('wrong', generatePassphrase())).rejects.toMatchObject({ code: 'pin-invalid' })
+    await expect(key.changePin(passphrase, '1234')).rejects.toMatchObject({ code: 'bad-passphrase' })
+    expect((await key.verifyPin(passphrase)).ok).toBe(true)
+  })
+})
+
+describe('SoftwareVaultKey: through the ceremony', () => {
+  test('the passphrase unwraps the vault key like a PIN and a touch', async () => {
+    const { key, publicKey } = await provisioned()
+    const { serial } = await key.getKeyInfo()
+    const seal = sealVaultKey(vaultSeed(), publicKey, { slot: VAULT_SLOT, serial })
+    const ceremony = new CeremonyController({
+      getDriver: () => key,
+      store: { getMeta: async () => ({ slot: VAULT_SLOT, yubiSerial: serial }), getSeal: async () => seal },
+      retentionMs: 120_000
+    })
+
+    const pending = ceremony.requestKey('withdraw')
+    ceremony.submitPin('wrong')
+    await settle(() => ceremony.state.error?.code === 'pin-invalid')
+    expect(ceremony.state.error?.retriesLeft).toBe(SOFTWARE_KEY_PIN_RETRIES - 1)
+    ceremony.submitPin(passphrase)
+    const handle = await pending
+    expect(handle.hd.toString()).toBe(HD.fromSeed(vaultSeed()).toString())
+    expect(handle.transport).toBe('software')
+    handle.release()
+  })
+})
+
+describe('SoftwareVaultKey: erase', () => {
+  test('removes the key file so a fresh key can be enrolled', async () => {
+    const { key } = await provisioned()
+    await key.erase()
+    expect(key.provisioned).toBe(false)
+    expect(await key.readVaultPublicKey(VAULT_SLOT)).toBeNull()
+  })
+})
@@ -9,10 +9,25 @@
  * node, so the signatures the withdraw path produces are checked against the
  * real script interpreter rather than mocked away.
  */
-import { Beef, BigNumber, ECDSA, HD, P2PKH, PrivateKey, PublicKey, Spend, Transaction, UnlockingScript, Utils } from '@bsv/sdk'
+import {
+  Beef,
+  BigNumber,
+  ECDSA,
+  HD,
+  LockingScript,
+  P2PKH,
+  PrivateKey,
+  PublicKey,
+  Spend,
+  Transaction,
+  UnlockingScript,
+  Utils
+} from '@bsv/sdk'
 import {
   K1_LOCK_LEN,
   K1_UNLOCK_LEN,
+  HELD_UNLOCK_LEN,
+  buildHeldLockingScript,
   buildVaultLockingScript,
   decodeVaultInstructions,
   encodeVaultInstructions
@@ -44,13 +59,35 @@ jest.mock('@/services/vault/ceremonyHost', () => ({
 import AsyncStorage from '@react-native-async-storage/async-storage'
 import { vaultStore } from '@/services/vault/vaultStore'
 import { backupAttestation } from '@/services/vault/backupAttestation'
-import { bip32KeyID, depositPubKeyHash } from '@/services/vault/vaultDerivation'
+import {
+  bip32KeyID,
+  depositPrivKey,
+  depositPubKey,
+  depositPubKeyHash,
+  indexFromKeyID
+} from '@/services/vault/vaultDerivation'
 import { requestVaultKey, noteVaultProgress } from '@/services/vault/ceremonyHost'
 import type { VaultKeyHandle } from '@/services/vault/ceremony'
 import { VaultError } from '@/services/vault/types'
+import {
+  DelayedWithdrawal,
+  decodeHoldInstructions,
+  delayedWithdrawalStore,
+  encodeHoldInstructions
+} from '@/services/vault/delayedWithdrawals'
+import { WATCH_POOL_KEY, watchPoolStore } from '@/services/vault/watchOnly'
+import { fillWatchPool } from '@/services/vault/VaultKeyService'
+import { vaultLedgerStore } from '@/services/vault/ledger'
 import {
   VAULT_BASKET,
   VAULT_STAGING_BASKET,
+  VAULT_DELAY_BASKET,
+  delayedReleaseFee,
+  releaseDelayedWithdrawal,
+  cancelDelayedWithdrawal,
+  cancelDelayedWithdrawalWithHD,
+  syncDelayedWithdrawals,
+  verifyWatchedVault,
   VAULT_DEPOSIT_MIN,
   vaultDepositTx2Fee,
   depositToVault,
@@ -186,10 +223,14 @@ let lastHandle: VaultKeyHandle | undefined
  * — a mock that handed back a raw node would let a "reads hd once up front"
  * regression pass unnoticed.
  */
-const armWith = (hd: HD) => {
+const armWith = (hd: HD, serials: string[] = ['s']) => {
+  let taps = 0
   ;(requestVaultKey as jest.Mock).mockImplementation(async () => {
     let released = false
     const handle: VaultKeyHandle = {
+      // One serial per tap, the last repeating — a co-signed withdrawal's two
+      // taps are two cards only if the test says so.
+      serial: serials[Math.min(taps++, serials.length - 1)],
       get hd(): HD {
         if (released) throw new VaultError('key-removed-mid-op', 'Vault key handle already released')
         return hd
@@ -540,9 +581,7 @@ describe('depositToVault', () => {
     // child 0 of the node the ceremony handed over, which is the whole point
     // of the tap gate.
     expect(Utils.toArray(out.lockingScript, 'hex').length).toBe(K1_LOCK_LEN)
-    expect(out.lockingScript).toBe(
-      buildVaultLockingScript({ k1PublicKeyHash: depositPubKeyHash(VAULT_HD, 0) }).toHex()
-    )
+    expect(out.lockingScript).toBe(buildVaultLockingScript({ k1PublicKeyHash: depositPubKeyHash(VAULT_HD, 0) }).toHex())
 
     const ci = decodeVaultInstructions(out.customInstructions)!
     expect(ci.v).toBe(3)
@@ -688,6 +727,38 @@ describe('withdrawFromVault', () => {
     expect(keyRelease).toHaveBeenCalledTimes(1)
   })
 
+  it('above the co-sign threshold, taps two different keys and spends with the second', async () => {
+    await seedVaultOutputs(2, 500_000)
+    await vaultStore.setMeta({ ...(await vaultStore.getMeta())!, coSign: { above: 100_000 } })
+    armWith(VAULT_HD, ['first', 'second'])
+
+    await withdrawFromVault(wallet, ADMIN, 600_000, 'Withdraw', { secondKeyReason: 'Another key' })
+
+    expect(requestVaultKey).toHaveBeenCalledTimes(2)
+    expect(requestVaultKey).toHaveBeenNthCalledWith(1, 'Withdraw')
+    expect(requestVaultKey).toHaveBeenNthCalledWith(2, 'Another key', { excludeSerials: ['first'] })
+    // Both handles released: the approval at once, the spend's in the finally.
+    expect(keyRelease).toHaveBeenCalledTimes(2)
+    expect(wallet.signAction).toHaveBeenCalledTimes(1)
+  })
+
+  it('refuses a co-signed withdrawal whose second tap is the same card, before anything is reserved', async () => {
+    await seedVaultOutputs(2, 500_000)
+    await vaultStore.setMeta({ ...(await vaultStore.getMeta())!, coSign: { above: 100_000 } })
+    armWith(VAULT_HD, ['only'])
+
+    await expect(withdrawFromVault(wallet, ADMIN, 'all', 'Withdraw')).rejects.toMatchObject({ code: 'same-key' })
+    expect(wallet.createAction).not.toHaveBeenCalled()
+  })
+
+  it('at or below the co-sign threshold, one tap is still enough', async () => {
+    await seedVaultOutputs(2, 500_000)
+    await vaultStore.setMeta({ ...(await vaultStore.getMeta())!, coSign: { above: 600_000 } })
+
+    await withdrawFromVault(wallet, ADMIN, 600_000, 'Withdraw')
+    expect(requestVaultKey).toHaveBeenCalledTimes(1)
+  })
+
   it('re-vaults the remainder as one output when it clears the floor', async () => {
     await seedVaultOutputs(2, 500_000) // 1,000,000 total
     await withdrawFromVault(wallet, ADMIN, 600_000, 'Withdraw')
@@ -934,10 +1005,11 @@ describe('sweepVaultWithHD', () => {
     const outpoint = `${src.id('hex')}.0`
     const ci = encodeVaultInstructions({ v: 3, type: 'K1', keyID: 'bip32/not-a-number' })
 
-    wallet.listOutputs.mockResolvedValueOnce({
-      outputs: [{ outpoint, satoshis: 300_000, customInstructions: ci }],
-      BEEF: stitchBeef([{ src }])
-    })
+    wallet.listOutputs.mockImplementation(async (args: any) =>
+      args?.basket === VAULT_BASKET
+        ? { outputs: [{ outpoint, satoshis: 300_000, customInstructions: ci }], BEEF: stitchBeef([{ src }]) }
+        : { outputs: [] }
+    )
 
     await expect(sweepVaultWithHD(wallet, ADMIN, VAULT_HD, 'Recover vault')).rejects.toMatchObject({
       code: 'bad-derivation-index'
@@ -945,6 +1017,495 @@ describe('sweepVaultWithHD', () => {
   })
 })
 
+// ── delayed withdrawals ───────────────────────────────────────────────────
+
+describe('delayed withdrawals', () => {
+  const HOUR = 3_600_000
+  let heldOut: any
+  let heldTx: Transaction
+
+  /** Withdraw under a 24h delay, with the fake wallet building the withdrawal
+   * from the REAL output scripts it was asked for, so the held output's release
+   * and cancel can be checked against the actual script they spend. */
+  async function holdOne(amount = 100_000): Promise<DelayedWithdrawal> {
+    const fx = await seedVaultOutputs(2, 500_000)
+    await vaultStore.setMeta({ ...(await vaultStore.getMeta())!, withdrawalDelay: { hours: 24 } })
+    wallet.createAction.mockImplementation(async (args: any) => {
+      const tx = new Transaction()
+      for (const inp of args.inputs) {
+        const f = fx.find(x => x.outpoint === inp.outpoint)!
+        tx.addInput({
+          sourceTransaction: f.src,
+          sourceOutputIndex: 0,
+          sequence: 0xffffffff,
+          unlockingScript: new UnlockingScript([])
+        })
+      }
+      for (const out of args.outputs) {
+        tx.addOutput({ satoshis: out.satoshis, lockingScript: LockingScript.fromHex(out.lockingScript) })
+      }
+      lastSignable = tx
+      return { signableTransaction: { tx: tx.toAtomicBEEF(), reference: 'ref-1' } }
+    })
+    wallet.signAction.mockImplementation(async () => ({ txid: lastSignable!.id('hex') }))
+
+    const res = await withdrawFromVault(wallet, ADMIN, amount, 'Withdraw')
+    heldOut = wallet.createAction.mock.calls[0][0].outputs[0]
+    heldTx = lastSignable!
+    wallet.createAction.mockClear()
+    wallet.signAction.mockClear()
+    return res.delayed!
+  }
+
+  /** Serve the held output from VAULT_DELAY_BASKET, with its withdrawal in
+   * the BEEF. */
+  const serveHeld = (d: DelayedWithdrawal, customInstructions: string = heldOut.customInstructions) => {
+    const beef = new Beef()
+    beef.mergeTransaction(heldTx)
+    wallet.listOutputs.mockImplementation(async (args: any) =>
+      args?.basket === VAULT_DELAY_BASKET
+        ? { outputs: [{ outpoint: `${d.txid}.0`, satoshis: d.satoshis, customInstructions }], BEEF: beef.toBinary() }
+        : { outputs: [] }
+    )
+  }
+
+  /** Whether `unlockingScript`, as input 0 of `tx`, spends the held output. */
+  const spendsHeld = (d: DelayedWithdrawal, tx: Transaction, unlockingScript: UnlockingScript): boolean => {
+    try {
+      return new Spend({
+        sourceTXID: d.txid,
+        sourceOutputIndex: 0,
+        sourceSatoshis: d.satoshis,
+        lockingScript: LockingScript.fromHex(heldOut.lockingScript),
+        transactionVersion: tx.version,
+        otherInputs: [],
+        inputIndex: 0,
+        unlockingScript,
+        outputs: tx.outputs,
+        inputSequence: tx.inputs[0].sequence ?? 0xffffffff,
+        lockTime: tx.lockTime
+      }).validate()
+    } catch {
+      return false
+    }
+  }
+
+  it('holds the amount in one delay-basket output and presigns its time-locked release', async () => {
+    const before = Date.now()
+    const d = await holdOne()
+
+    expect(heldOut.basket).toBe(VAULT_DELAY_BASKET)
+    expect(d.txid).toBe(heldTx.id('hex'))
+    expect(d.vout).toBe(0)
+    expect(d.satoshis).toBe(heldOut.satoshis)
+    expect(d.approvedBy).toBe('s')
+    expect(d.releaseAt).toBeGreaterThanOrEqual(before + 24 * HOUR)
+    expect(await delayedWithdrawalStore.list()).toEqual([d])
+
+    const release = Transaction.fromHex(d.release!.rawTx)
+    expect(release.lockTime).toBe(Math.floor(d.releaseAt / 1000))
+    expect(release.inputs).toHaveLength(1)
+    expect(release.inputs[0].sourceTXID).toBe(d.txid)
+    expect(release.inputs[0].sequence).toBe(0xfffffffe)
+    expect(release.outputs[0].satoshis).toBe(d.satoshis - delayedReleaseFee())
+    expect(d.release!.satoshis).toBe(d.satoshis - delayedReleaseFee())
+
+    // Signed by both keys of the 2-of-2, over the lock time and sequence.
+    expect(spendsHeld(d, release, release.inputs[0].unlockingScript!)).toBe(true)
+    expect(release.inputs[0].unlockingScript!.toBinary().length).toBeLessThanOrEqual(HELD_UNLOCK_LEN)
+  })
+
+  it('locks the held output to the vault child and a hold key, so the vault key alone cannot move it', async () => {
+    const d = await holdOne()
+    const index = indexFromKeyID(d.keyID)!
+
+    expect(heldOut.lockingScript).toBe(
+      buildHeldLockingScript({
+        vaultPublicKey: depositPubKey(VAULT_HD, index),
+        holdPublicKey: Utils.toArray(d.holdPublicKey, 'hex')
+      }).toHex()
+    )
+
+    // An early spend to anywhere, signed with everything the tapped node has.
+    const early = new Transaction(
+      1,
+      [{ sourceTXID: d.txid, sourceOutputIndex: 0, sequence: 0xffffffff, unlockingScript: new UnlockingScript([]) }],
+      [{ satoshis: d.satoshis - 1000, lockingScript: new P2PKH().lock(PrivateKey.fromRandom().toAddress()) }],
+      0
+    )
+    const vaultOnly = await new P2PKH()
+      .unlock(depositPrivKey(VAULT_HD, index), 'all', false, d.satoshis, LockingScript.fromHex(heldOut.lockingScript))
+      .sign(early, 0)
+    const sig = vaultOnly.chunks[0].data!
+    const twice = new UnlockingScript([
+      { op: sig.length, data: sig },
+      { op: sig.length, data: sig }
+    ])
+    expect(spendsHeld(d, early, twice)).toBe(false)
+  })
+
+  it('presigns the cancel back into the vault with the hold key', async () => {
+    const d = await holdOne()
+    const cancel = Transaction.fromHex(d.cancel.rawTx)
+
+    expect(cancel.inputs[0].sourceTXID).toBe(d.txid)
+    expect(cancel.lockTime).toBe(0)
+    expect(cancel.outputs).toHaveLength(1)
+    expect(cancel.outputs[0].satoshis).toBe(d.satoshis - delayedReleaseFee())
+    expect(cancel.outputs[0].lockingScript.toHex()).toBe(
+      buildVaultLockingScript({ k1PublicKeyHash: depositPubKeyHash(VAULT_HD, indexFromKeyID(d.cancel.keyID)!) }).toHex()
+    )
+    // Only the hold key's half: on its own it spends nothing.
+    expect(cancel.inputs[0].unlockingScript!.chunks).toHaveLength(1)
+    expect(spendsHeld(d, cancel, cancel.inputs[0].unlockingScript!)).toBe(false)
+  })
+
+  it('refuses the release inside the window, without broadcasting', async () => {
+    const d = await holdOne()
+    const internalize = jest.fn()
+    wallet.internalizeAction = internalize
+
+    await expect(releaseDelayedWithdrawal(wallet, ADMIN, d.txid)).rejects.toMatchObject({ code: 'withdrawal-held' })
+    expect(internalize).not.toHaveBeenCalled()
+    expect(await delayedWithdrawalStore.get(d.txid)).not.toBeNull()
+  })
+
+  it('after the window, internalizes the release and drops the held output', async () => {
+    const held = await holdOne()
+    const d = { ...held, releaseAt: Date.now() - 1 }
+    await delayedWithdrawalStore.put(d)
+    serveHeld(d)
+    const internalize = jest.fn(async () => ({ accepted: true as const }))
+    const relinquish = jest.fn(async () => ({ relinquished: true as const }))
+    wallet.internalizeAction = internalize
+    wallet.relinquishOutput = relinquish
+
+    const res = await releaseDelayedWithdrawal(wallet, ADMIN, d.txid)
+
+    const [args] = internalize.mock.calls[0] as any[]
+    expect(Transaction.fromAtomicBEEF(args.tx).id('hex')).toBe(res.txid)
+    expect(res.txid).toBe(Transaction.fromHex(d.release!.rawTx).id('hex'))
+    expect(args.outputs).toEqual([
+      {
+        outputIndex: 0,
+        protocol: 'wallet payment',
+        paymentRemittance: {
+          derivationPrefix: d.release!.derivationPrefix,
+          derivationSuffix: d.release!.derivationSuffix,
+          senderIdentityKey: d.release!.senderIdentityKey
+        }
+      }
+    ])
+    expect(relinquish).toHaveBeenCalledWith({ basket: VAULT_DELAY_BASKET, output: `${d.txid}.0` }, ADMIN)
+    expect(await delayedWithdrawalStore.list()).toEqual([])
+  })
+
+  it('a cancel never uses the approving key — refused before any tap when it is the only one', async () => {
+    const d = await holdOne()
+    ;(requestVaultKey as jest.Mock).mockClear()
+
+    await expect(cancelDelayedWithdrawal(wallet, ADMIN, d.txid, 'Cancel')).rejects.toMatchObject({ code: 'same-key' })
+    expect(requestVaultKey).not.toHaveBeenCalled()
+    expect(await delayedWithdrawalStore.get(d.txid)).not.toBeNull()
+  })
+
+  it('a cancel refuses the approving card even when it answers the tap', async () => {
+    const d = await holdOne()
+    await vaultStore.setMeta({
+      ...(await vaultStore.getMeta())!,
+      extraKeys: [{ yubiSerial: 't', nickname: 'm', slot: 0x82, enrolledAt: 2 }]
+    })
+    armWith(VAULT_HD, ['s'])
+
+    await expect(cancelDelayedWithdrawal(wallet, ADMIN, d.txid, 'Cancel')).rejects.toMatchObject({ code: 'same-key' })
+    expect(requestVaultKey).toHaveBeenLastCalledWith('Cancel', { excludeSerials: ['s'] })
+    expect(keyRelease).toHaveBeenCalled()
+    expect(wallet.createAction).not.toHaveBeenCalled()
+  })
+
+  it('the recovery route completes the presigned cancel and broadcasts it at once', async () => {
+    const d = await holdOne()
+    serveHeld(d)
+    const internalize = jest.fn(async () => ({ accepted: true as const }))
+    const relinquish = jest.fn(async () => ({ relinquished: true as const }))
+    wallet.internalizeAction = internalize
+    wallet.relinquishOutput = relinquish
+
+    const res = await cancelDelayedWithdrawalWithHD(wallet, ADMIN, d.txid, VAULT_HD, 'Cancel')
+
+    expect(wallet.createAction).not.toHaveBeenCalled()
+    expect(requestVaultKey).toHaveBeenCalledTimes(1) // only the withdrawal's own tap
+    const [args] = internalize.mock.calls[0] as any[]
+    expect(args.labels).toContain('vault-cancel')
+    expect(args.outputs).toEqual([
+      {
+        outputIndex: 0,
+        protocol: 'basket insertion',
+        insertionRemittance: {
+          basket: VAULT_BASKET,
+          customInstructions: encodeVaultInstructions({ v: 3, type: 'K1', keyID: d.cancel.keyID }),
+          tags: ['vault']
+        }
+      }
+    ])
+    const tx = Transaction.fromAtomicBEEF(args.tx)
+    expect(tx.id('hex')).toBe(res.txid)
+    expect(tx.outputs[0].lockingScript.toHex()).toBe(
+      Transaction.fromHex(d.cancel.rawTx).outputs[0].lockingScript.toHex()
+    )
+    expect(spendsHeld(d, tx, tx.inputs[0].unlockingScript!)).toBe(true)
+    expect(relinquish).toHaveBeenCalledWith({ basket: VAULT_DELAY_BASKET, output: `${d.txid}.0` }, ADMIN)
+    expect(await delayedWithdrawalStore.list()).toEqual([])
+  })
+
+  it('keeps the record on the held output once storage lists it, without this device’s flags', async () => {
+    const d = await holdOne()
+    await delayedWithdrawalStore.markAlerted(d.txid)
+    serveHeld(d)
+    const internalize = jest.fn(async () => ({ accepted: true as const }))
+    wallet.internalizeAction = internalize
+
+    await syncDelayedWithdrawals(wallet, ADMIN)
+
+    const [args] = internalize.mock.calls[0] as any[]
+    expect(Transaction.fromAtomicBEEF(args.tx).id('hex')).toBe(d.txid)
+    expect(args.outputs).toEqual([
+      {
+        outputIndex: 0,
+        protocol: 'basket insertion',
+        insertionRemittance: {
+          basket: VAULT_DELAY_BASKET,
+          customInstructions: encodeHoldInstructions(d),
+          tags: ['vault', 'vault-delayed']
+        }
+      }
+    ])
+    expect(decodeHoldInstructions(args.outputs[0].insertionRemittance.customInstructions)).toEqual(d)
+    expect(await delayedWithdrawalStore.get(d.txid)).toMatchObject({ alerted: true, anchored: true })
+
+    await syncDelayedWithdrawals(wallet, ADMIN)
+    expect(internalize).toHaveBeenCalledTimes(1)
+  })
+
+  it('a restored wallet cancels from the record its held output carries', async () => {
+    const d = await holdOne()
+    await delayedWithdrawalStore.remove(d.txid)
+    serveHeld(d, encodeHoldInstructions(d))
+    const internalize = jest.fn(async () => ({ accepted: true as const }))
+    wallet.internalizeAction = internalize
+    wallet.relinquishOutput = jest.fn(async () => ({ relinquished: true as const }))
+
+    const res = await cancelDelayedWithdrawalWithHD(wallet, ADMIN, d.txid, VAULT_HD, 'Cancel')
+
+    const [args] = internalize.mock.calls[0] as any[]
+    const tx = Transaction.fromAtomicBEEF(args.tx)
+    expect(tx.id('hex')).toBe(res.txid)
+    expect(spendsHeld(d, tx, tx.inputs[0].unlockingScript!)).toBe(true)
+    expect(await delayedWithdrawalStore.list()).toEqual([])
+  })
+
+  it('drops a kept record whose held output has gone', async () => {
+    const d = await holdOne()
+    await delayedWithdrawalStore.markAnchored(d.txid)
+    wallet.listOutputs.mockResolvedValue({ outputs: [] })
+
+    await syncDelayedWithdrawals(wallet, ADMIN)
+    expect(await delayedWithdrawalStore.list()).toEqual([])
+  })
+
+  it('the recovery sweep cancels an open hold into the vault before it sweeps', async () => {
+    const d = await holdOne()
+    serveHeld(d, encodeHoldInstructions(d))
+    const internalize = jest.fn(async () => ({ accepted: true as const }))
+    wallet.internalizeAction = internalize
+    wallet.relinquishOutput = jest.fn(async () => ({ relinquished: true as const }))
+
+    await sweepVaultWithHD(wallet, ADMIN, VAULT_HD, 'Recover vault')
+
+    const cancels = internalize.mock.calls.map(([a]: any[]) => a).filter(a => a.labels.includes('vault-cancel'))
+    expect(cancels).toHaveLength(1)
+    const tx = Transaction.fromAtomicBEEF(cancels[0].tx)
+    expect(spendsHeld(d, tx, tx.inputs[0].unlockingScript!)).toBe(true)
+    expect(await delayedWithdrawalStore.list()).toEqual([])
+  })
+
+  it('the recovery route fails on a mistyped passphrase and keeps the hold', async () => {
+    const d = await holdOne()
+    serveHeld(d)
+
+    const internalize = jest.fn()
+    wallet.internalizeAction = internalize
+
+    await expect(cancelDelayedWithdrawalWithHD(wallet, ADMIN, d.txid, OTHER_HD, 'Cancel')).rejects.toMatchObject({
+      code: 'wrong-key'
+    })
+    expect(internalize).not.toHaveBeenCalled()
+    expect(await delayedWithdrawalStore.get(d.txid)).not.toBeNull()
+  })
+})
+
+// ── watch-only ──────────────────────────────────────────────────────────
+
+describe('watch-only deposits', () => {
+  const vaultCall = () =>
+    wallet.createAction.mock.calls.map(([a]: [any]) => a).find((a: any) => a.labels?.includes('vault-deposit'))
+
+  it('locks to the next pre-derived address, with no tap', async () => {
+    await seedMeta()
+    await fillWatchPool('Prepare', 3)
+    ;(requestVaultKey as jest.Mock).mockClear()
+
+    const res = await depositToVault(wallet, ADMIN, 250_000, REASON)
+
+    expect(requestVaultKey).not.toHaveBeenCalled()
+    const out = vaultCall().outputs[0]
+    expect(out.lockingScript).toBe(buildVaultLockingScript({ k1PublicKeyHash: depositPubKeyHash(VAULT_HD, 0) }).toHex())
+    expect(decodeVaultInstructions(out.customInstructions)?.keyID).toBe(bip32KeyID(0))
+    // The index was reserved by the fill, not taken again.
+    expect((await vaultStore.getMeta())!.nextKeyIndex).toBe(3)
+    expect(res.watchPool).toEqual({ remaining: 2, low: true })
+    expect((await watchPoolStore.get())!.addresses[0].txid).toBe(res.txid)
+  })
+
+  it('falls back to the tap once the pool is spent, past the reserved indices', async () => {
+    await seedMeta()
+    await fillWatchPool('Prepare', 1)
+    await depositToVault(wallet, ADMIN, 250_000, REASON)
+    ;(requestVaultKey as jest.Mock).mockClear()
+    wallet.createAction.mockClear()
+
+    const res = await depositToVault(wallet, ADMIN, 250_000, REASON)
+
+    expect(requestVaultKey).toHaveBeenCalledTimes(1)
+    expect(decodeVaultInstructions(vaultCall().outputs[0].customInstructions)?.keyID).toBe(bip32KeyID(1))
+    expect(res.watchPool).toEqual({ remaining: 0, low: true })
+  })
+
+  it('verifies pooled outputs against their stored hashes, without a key', async () => {
+    const fx = await seedVaultOutputs(2) // indices 0 and 1, tapped
+    await fillWatchPool('Prepare', 2) // indices 2 and 3
+    ;(requestVaultKey as jest.Mock).mockClear()
+
+    const pooled = (index: number, hd: HD) => {
+      const lockingScript = buildVaultLockingScript({ k1PublicKeyHash: depositPubKeyHash(hd, index) })
+      const src = new Transaction()
+      src.addOutput({ satoshis: 40_000, lockingScript })
+      return {
+        outpoint: `${src.id('hex')}.0`,
+        satoshis: 40_000,
+        customInstructions: encodeVaultInstructions({ v: 3, type: 'K1', keyID: bip32KeyID(index) }),
+        src
+      }
+    }
+    const good = pooled(2, VAULT_HD)
+    const forged = pooled(3, OTHER_HD)
+    const all = [...fx, good, forged]
+    wallet.listOutputs.mockResolvedValueOnce({
+      outputs: all.map(({ outpoint, satoshis, customInstructions }) => ({ outpoint, satoshis, customInstructions })),
+      BEEF: stitchBeef(all)
+    })
+
+    expect(await verifyWatchedVault(wallet, ADMIN)).toEqual({
+      verified: 40_000,
+      unwatched: 600_000,
+      mismatched: [forged.outpoint],
+      forged: []
+    })
+    expect(requestVaultKey).not.toHaveBeenCalled()
+  })
+
+  it('does not vouch for an output whose pooled hash was rewritten on the device', async () => {
+    await seedMeta()
+    await fillWatchPool('Prepare', 2)
+    const stored = JSON.parse((await AsyncStorage.getItem(WATCH_POOL_KEY))!)
+    stored.addresses[1].pkh = Utils.toHex(depositPubKeyHash(OTHER_HD, 1))
+    await AsyncStorage.setItem(WATCH_POOL_KEY, JSON.stringify(stored))
+
+    const src = new Transaction()
+    src.addOutput({
+      satoshis: 40_000,
+      lockingScript: buildVaultLockingScript({ k1PublicKeyHash: depositPubKeyHash(OTHER_HD, 1) })
+    })
+    const out = {
+      outpoint: `${src.id('hex')}.0`,
+      satoshis: 40_000,
+      customInstructions: encodeVaultInstructions({ v: 3, type: 'K1', keyID: bip32KeyID(1) }),
+      src
+    }
+    wallet.listOutputs.mockResolvedValueOnce({
+      outputs: [{ outpoint: out.outpoint, satoshis: out.satoshis, customInstructions: out.customInstructions }],
+      BEEF: stitchBeef([out])
+    })
+
+    expect(await verifyWatchedVault(wallet, ADMIN)).toEqual({
+      verified: 0,
+      unwatched: 40_000,
+      mismatched: [],
+      forged: [1]
+    })
+  })
+
+  it('has nothing to verify while watch-only is off', async () => {
+    await seedVaultOutputs(1)
+    expect(await verifyWatchedVault(wallet, ADMIN)).toBeNull()
+  })
+})
+
+// ── ledger ────────────────────────────────────────────────────────────────
+
+describe('vault ledger records', () => {
+  const DEPOSIT_TXID = 'deadbeef'.repeat(8)
+  const SPEND_TXID = 'feedface'.repeat(8)
+
+  it('records a tapped deposit with the card that approved it and the fee of its vault transaction', async () => {
+    await seedMeta()
+    await depositToVault(wallet, ADMIN, 250_000, REASON)
+
+    expect(await vaultLedgerStore.list()).toEqual([
+      {
+        v: 1,
+        txid: DEPOSIT_TXID,
+        kind: 'deposit',
+        satoshis: 250_000,
+        fee: vaultDepositTx2Fee(),
+        auth: { method: 'key', serials: ['s'], at: expect.any(Number) }
+      }
+    ])
+  })
+
+  it('records a pooled deposit as watch-only, with no card', async () => {
+    await seedMeta()
+    await fillWatchPool('Prepare', 1)
+    await depositToVault(wallet, ADMIN, 250_000, REASON)
+
+    const [record] = await vaultLedgerStore.list()
+    expect(record.auth).toEqual({ method: 'watch-only', serials: [], at: expect.any(Number) })
+  })
+
+  it('records what a withdrawal took out, not what it re-vaulted', async () => {
+    await seedVaultOutputs(2)
+    await withdrawFromVault(wallet, ADMIN, 100_000, 'Withdraw')
+
+    const records = await vaultLedgerStore.list()
+    expect(records).toEqual([expect.objectContaining({ txid: SPEND_TXID, kind: 'withdraw', satoshis: 100_000 })])
+    expect(records[0].fee).toBeUndefined()
+  })
+
+  it('labels and records a recovery sweep as its own kind', async () => {
+    await seedVaultOutputs(2)
+    await sweepVaultWithHD(wallet, ADMIN, VAULT_HD, 'Recover vault')
+
+    expect(wallet.createAction.mock.calls[0][0].labels).toEqual(['vault', 'vault-sweep'])
+    expect(await vaultLedgerStore.list()).toEqual([
+      expect.objectContaining({
+        kind: 'sweep',
+        satoshis: 600_000,
+        auth: { method: 'recovery', serials: [], at: expect.any(Number) }
+      })
+    ])
+  })
+})
+
 // ── balance ─────────────────────────────────────────────────────────────
 
 describe('getVaultBalance', () => {
@@ -44,6 +44,7 @@ import {
 } from '../../services/vault/VaultKeyService'
 import { deriveVaultHD } from '../../services/vault/vaultDerivation'
 import { unsealVaultKey } from '../../services/vault/sealing'
+import { delayedWithdrawalStore, type DelayedWithdrawal } from '../../services/vault/delayedWithdrawals'
 
 let mock: MockYubiKey
 
@@ -432,3 +433,12 @@ test('disableVault clears all vault state', async () => {
   expect(await vaultStore.getMeta()).toBeNull()
   expect(await vaultStore.getSeal()).toBeNull()
 })
+
+test('disableVault refuses while a delayed withdrawal is open, and clears nothing', async () => {
+  const { pending } = await enrollVault(args())
+  await finalizeEnrollment(pending)
+  await delayedWithdrawalStore.put({ v: 1, txid: 'a'.repeat(64), vout: 0 } as DelayedWithdrawal)
+
+  await expect(disableVault()).rejects.toMatchObject({ code: 'withdrawal-held' })
+  expect(await vaultStore.isEnrolled()).toBe(true)
+})
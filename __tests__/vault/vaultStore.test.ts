@@ -21,7 +21,7 @@ jest.mock('expo-secure-store', () => ({
 }))
 
 import AsyncStorage from '@react-native-async-storage/async-storage'
-import { vaultStore, VaultMetaV4 } from '@/services/vault/vaultStore'
+import { enrolledKeys, sealingOf, vaultStore, VaultMetaV4 } from '@/services/vault/vaultStore'
 import { SealedBlob } from '@/services/vault/types'
 
 const META: VaultMetaV4 = {
@@ -117,3 +117,61 @@ describe('vaultStore v4', () => {
     expect(secureItems['vault_seal_v1']).toBeUndefined()
   })
 })
+
+describe('vaultStore with several keys', () => {
+  const SPARE = { yubiSerial: '87654321', nickname: 'Spare key', slot: 0x82, enrolledAt: 1_700_000_100_000 }
+  const SPARE_SEAL: SealedBlob = { ...SEAL, ePub: '04' + '9a'.repeat(64), yubiSerial: SPARE.yubiSerial }
+
+  beforeEach(async () => {
+    await vaultStore.setSeal(SEAL)
+    await vaultStore.setMeta(META)
+  })
+
+  it('lists a further key after the first and vends both seals', async () => {
+    await vaultStore.addKey(SPARE, SPARE_SEAL)
+
+    const meta = (await vaultStore.getMeta())!
+    expect(enrolledKeys(meta).map(k => k.yubiSerial)).toEqual(['12345678', '87654321'])
+    expect(await vaultStore.getSeals()).toEqual([SEAL, SPARE_SEAL])
+    // Each further seal is its own small SecureStore item.
+    expect(JSON.parse(secureItems['vault_seal_v1_87654321'])).toEqual(SPARE_SEAL)
+  })
+
+  it('refuses to list the same card twice', async () => {
+    await expect(vaultStore.addKey({ ...SPARE, yubiSerial: META.yubiSerial }, SEAL)).rejects.toMatchObject({
+      code: 'key-already-enrolled'
+    })
+  })
+
+  it('removing the first key promotes the next, seal and all', async () => {
+    await vaultStore.addKey(SPARE, SPARE_SEAL)
+    await vaultStore.removeKey(META.yubiSerial)
+
+    const meta = (await vaultStore.getMeta())!
+    expect(meta).toMatchObject({ yubiSerial: SPARE.yubiSerial, nickname: 'Spare key', nextKeyIndex: 0 })
+    expect(meta.extraKeys).toBeUndefined()
+    expect(await vaultStore.getSeal()).toEqual(SPARE_SEAL)
+    expect(secureItems['vault_seal_v1_87654321']).toBeUndefined()
+  })
+
+  it('never removes the last key', async () => {
+    await expect(vaultStore.removeKey(META.yubiSerial)).rejects.toMatchObject({ code: 'last-key' })
+    expect(await vaultStore.getSeal()).toEqual(SEAL)
+  })
+
+  it('clear() removes every key\'s seal', async () => {
+    await vaultStore.addKey(SPARE, SPARE_SEAL)
+    await vaultStore.clear()
+    expect(Object.keys(secureItems)).toEqual([])
+  })
+})
+
+describe('sealingOf', () => {
+  it('reads a vault as software-sealed only when every key is a software key', () => {
+    const software = { ...META, yubiSerial: 'SW-0A1B2C3D' }
+    expect(sealingOf(null)).toBe('none')
+    expect(sealingOf(META)).toBe('hardware')
+    expect(sealingOf(software)).toBe('software')
+    expect(sealingOf({ ...software, extraKeys: [{ ...enrolledKeys(META)[0] }] })).toBe('hardware')
+  })
+})
@@ -0,0 +1,174 @@
+/**
+ * Watch-only mode — the pre-derived deposit address pool: what one fill
+ * reserves and records, topping up, drawing, and turning it off. Deposits that
+ * draw from the pool are covered with the rest of the deposit path in
+ * transfers.test.ts.
+ */
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+)
+const secureItems: Record<string, string> = {}
+jest.mock('expo-secure-store', () => ({
+  AFTER_FIRST_UNLOCK_THIS_DEVICE_ONLY: 'afudo',
+  getItemAsync: jest.fn(async (k: string) => secureItems[k] ?? null),
+  setItemAsync: jest.fn(async (k: string, v: string) => {
+    secureItems[k] = v
+  }),
+  deleteItemAsync: jest.fn(async (k: string) => {
+    delete secureItems[k]
+  })
+}))
+jest.mock('@/services/vault/ceremonyHost', () => ({
+  requestVaultKey: jest.fn(),
+  noteVaultProgress: jest.fn()
+}))
+
+import AsyncStorage from '@react-native-async-storage/async-storage'
+import { HD, Utils } from '@bsv/sdk'
+import { requestVaultKey } from '@/services/vault/ceremonyHost'
+import type { VaultKeyHandle } from '@/services/vault/ceremony'
+import { depositPubKeyHash } from '@/services/vault/vaultDerivation'
+import { vaultStore } from '@/services/vault/vaultStore'
+import {
+  VAULT_WATCH_POOL_MAX,
+  VAULT_WATCH_POOL_SIZE,
+  WATCH_POOL_KEY,
+  WATCH_POOL_MAC_KEY,
+  watchPoolStatus,
+  watchPoolStore
+} from '@/services/vault/watchOnly'
+import { disableVault, disableWatchOnly, fillWatchPool } from '@/services/vault/VaultKeyService'
+
+const VAULT_HD = HD.fromSeed(Array.from(crypto.getRandomValues(new Uint8Array(64))))
+
+let released: number
+
+beforeEach(async () => {
+  await AsyncStorage.clear()
+  for (const k of Object.keys(secureItems)) delete secureItems[k]
+  released = 0
+  ;(requestVaultKey as jest.Mock).mockReset().mockImplementation(async () => {
+    const handle: VaultKeyHandle = { serial: 'MOCK-1', hd: VAULT_HD, release: () => released++ }
+    return handle
+  })
+  await vaultStore.setMeta({ v: 4, enrolledAt: 1, yubiSerial: 'MOCK-1', nickname: 'n', slot: 0x82, nextKeyIndex: 7 })
+})
+
+describe('fillWatchPool', () => {
+  test('reserves the next indices from the counter and stores their hashes, at one tap', async () => {
+    expect(await fillWatchPool('Prepare', 4)).toBe(4)
+
+    expect(requestVaultKey).toHaveBeenCalledTimes(1)
+    expect(released).toBe(1)
+    expect((await vaultStore.getMeta())!.nextKeyIndex).toBe(11)
+
+    const pool = (await watchPoolStore.get())!
+    expect(pool.addresses.map(a => a.index)).toEqual([7, 8, 9, 10])
+    for (const a of pool.addresses) expect(a.pkh).toBe(Utils.toHex(depositPubKeyHash(VAULT_HD, a.index)))
+    expect(pool.batches).toEqual([
+      { at: expect.any(Number), from: 7, count: 4, approvedBy: 'MOCK-1', mac: expect.stringMatching(/^[0-9a-f]{64}$/) }
+    ])
+  })
+
+  test('defaults to the standard pool size', async () => {
+    await fillWatchPool('Prepare')
+    expect(watchPoolStatus((await watchPoolStore.get())!).remaining).toBe(VAULT_WATCH_POOL_SIZE)
+  })
+
+  test('a top-up adds only what was drawn, as a batch of its own', async () => {
+    await fillWatchPool('Prepare', 4)
+    await watchPoolStore.take()
+    await watchPoolStore.take()
+
+    expect(await fillWatchPool('Prepare', 4)).toBe(2)
+    const pool = (await watchPoolStore.get())!
+    expect(pool.batches.map(b => [b.from, b.count])).toEqual([
+      [7, 4],
+      [11, 2]
+    ])
+    expect(watchPoolStatus(pool).remaining).toBe(4)
+  })
+
+  test('needs no tap when the pool is already full', async () => {
+    await fillWatchPool('Prepare', 4)
+    ;(requestVaultKey as jest.Mock).mockClear()
+
+    expect(await fillWatchPool('Prepare', 4)).toBe(0)
+    expect(requestVaultKey).not.toHaveBeenCalled()
+  })
+
+  test(`refuses a pool past ${VAULT_WATCH_POOL_MAX} before the tap`, async () => {
+    await expect(fillWatchPool('Prepare', VAULT_WATCH_POOL_MAX + 1)).rejects.toThrow(RangeError)
+    expect(requestVaultKey).not.toHaveBeenCalled()
+    expect(await watchPoolStore.get()).toBeNull()
+  })
+})
+
+describe('watchPoolStore', () => {
+  test('draws the lowest unused index, and nothing once spent', async () => {
+    await fillWatchPool('Prepare', 2)
+
+    expect((await watchPoolStore.take())!.index).toBe(7)
+    expect((await watchPoolStore.take())!.index).toBe(8)
+    expect(await watchPoolStore.take()).toBeNull()
+
+    // Drawn addresses stay listed, so their deposits can still be verified.
+    const pool = (await watchPoolStore.get())!
+    expect(pool.addresses).toHaveLength(2)
+    expect(watchPoolStatus(pool)).toEqual({ remaining: 0, low: true })
+  })
+
+  test('turning watch-only off, or the vault off, forgets the pool', async () => {
+    await fillWatchPool('Prepare', 2)
+    await disableWatchOnly()
+    expect(await watchPoolStore.get()).toBeNull()
+
+    await fillWatchPool('Prepare', 2)
+    await disableVault()
+    expect(await watchPoolStore.get()).toBeNull()
+  })
+
+  test('turning watch-only off keeps the batches and the drawn addresses', async () => {
+    await fillWatchPool('Prepare', 3)
+    const drawn = (await watchPoolStore.take())!
+    await watchPoolStore.noteDeposit(drawn.index, 'aa'.repeat(32))
+    await disableWatchOnly()
+
+    const kept = (await watchPoolStore.history())!
+    expect(kept.batches).toHaveLength(1)
+    expect(kept.addresses).toEqual([expect.objectContaining({ index: drawn.index, txid: 'aa'.repeat(32) })])
+    expect(await watchPoolStore.take()).toBeNull()
+
+    // Back on: a fresh run, with the old batch and deposit still listed.
+    await fillWatchPool('Prepare', 2)
+    const pool = (await watchPoolStore.get())!
+    expect(pool.batches).toHaveLength(2)
+    expect(watchPoolStatus(pool)).toEqual({ remaining: 2, low: true })
+    expect(pool.addresses.some(a => a.txid === 'aa'.repeat(32))).toBe(true)
+  })
+
+  test('refuses to draw an address whose stored hash was rewritten, and burns nothing', async () => {
+    await fillWatchPool('Prepare', 2)
+    const stored = JSON.parse((await AsyncStorage.getItem(WATCH_POOL_KEY))!)
+    stored.addresses[0].pkh = 'ab'.repeat(20)
+    await AsyncStorage.setItem(WATCH_POOL_KEY, JSON.stringify(stored))
+
+    await expect(watchPoolStore.take()).rejects.toMatchObject({ code: 'watch-pool-tampered' })
+    expect(watchPoolStatus((await watchPoolStore.get())!).remaining).toBe(2)
+  })
+
+  test('refuses to draw once the pool key is gone', async () => {
+    await fillWatchPool('Prepare', 2)
+    delete secureItems[WATCH_POOL_MAC_KEY]
+
+    await expect(watchPoolStore.take()).rejects.toMatchObject({ code: 'watch-pool-tampered' })
+    expect((await watchPoolStore.check((await watchPoolStore.get())!)).forgedAddresses).toEqual([7, 8])
+  })
+
+  test('disabling the vault forgets the pool key as well', async () => {
+    await fillWatchPool('Prepare', 2)
+    expect(secureItems[WATCH_POOL_MAC_KEY]).toMatch(/^[0-9a-f]{64}$/)
+    await disableVault()
+    expect(secureItems[WATCH_POOL_MAC_KEY]).toBeUndefined()
+  })
+})
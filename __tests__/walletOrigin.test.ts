@@ -1,4 +1,4 @@
-import { walletFrameIdentityFromUrl } from '@/utils/webview/walletOrigin'
+import { containerOriginator, walletFrameIdentityFromUrl } from '@/utils/webview/walletOrigin'
 
 describe('walletFrameIdentityFromUrl', () => {
   it('uses the embedded frame hostname instead of its top-level container', () => {
@@ -22,3 +22,13 @@ describe('walletFrameIdentityFromUrl', () => {
     }
   )
 })
+
+describe('containerOriginator', () => {
+  it('scopes a site to its tab-group container', () => {
+    expect(walletFrameIdentityFromUrl('https://app.example.com/x', 'work')).toEqual({
+      originator: 'work.container.app.example.com',
+      responseOrigin: 'https://app.example.com'
+    })
+    expect(containerOriginator('app.example.com')).toBe('app.example.com')
+  })
+})
@@ -25,6 +25,7 @@ import PermissionSheet from '@/components/ui/PermissionSheet'
 import { AlertHost } from '@/components/ui/AlertCard'
 import { VaultProvider } from '@/context/VaultContext'
 import { VaultCeremonySheet } from '@/components/vault/VaultCeremonySheet'
+import { DelayedWithdrawalWatcher } from '@/components/vault/DelayedWithdrawalWatcher'
 import { ToastHost, showToast } from '@/components/ui/Toast'
 import { useDeepLinking } from '@/hooks/useDeepLinking'
 import DefaultBrowserPrompt from '@/components/onboarding/DefaultBrowserPrompt'
@@ -35,9 +36,14 @@ import { WalletConnectionProvider } from '@/context/WalletConnectionContext'
 
 import AsyncStorage from '@react-native-async-storage/async-storage'
 import { ErrorBoundary } from '@/components/ui/ErrorBoundary'
+import { installDeviceLanBackend } from '@/utils/localpay/transport/lanBackend'
 
 export const FIRST_TOUCH_DATE_KEY = 'firstTouchDate'
 
+// The LAN rung of the local-payment ladder: installed before any flow asks
+// whether the device can listen on the local network.
+installDeviceLanBackend()
+
 const nativeHandlers: NativeHandlers = {
   isFocused: async () => false,
   onFocusRequested: async () => {},
@@ -138,6 +144,7 @@ export default function RootLayout() {
                           <DefaultBrowserPrompt />
                           <PermissionSheet />
                           <VaultCeremonySheet />
+                          <DelayedWithdrawalWatcher />
                           <LocalPayNotificationBridge />
                           <AlertHost />
                           <Stack
@@ -174,10 +181,14 @@ export default function RootLayout() {
                             <Stack.Screen name="transactions" />
                             <Stack.Screen name="wallet" dangerouslySingular />
                             <Stack.Screen name="wallet-config" />
+                            <Stack.Screen name="spending-budgets" />
+                            <Stack.Screen name="backup-browser" />
                             <Stack.Screen name="vault" />
                             <Stack.Screen name="vault-recover" />
                             <Stack.Screen name="vault-transfer" />
+                            <Stack.Screen name="vault-ledger" />
                             <Stack.Screen name="pay" />
+                            <Stack.Screen name="pos" />
                             {/* The three below become redirect stubs into /pay (Task 14).
                                 They stay registered so an old link resolves instead of
                                 hitting +not-found. */}
@@ -0,0 +1,326 @@
+import React, { useCallback, useContext, useEffect, useRef, useState } from 'react'
+import { ActivityIndicator, View, Text, TouchableOpacity, StyleSheet, ScrollView } from 'react-native'
+import { router } from 'expo-router'
+import { Ionicons } from '@expo/vector-icons'
+import { useSafeAreaInsets } from 'react-native-safe-area-context'
+import { useTranslation } from 'react-i18next'
+import { PrivateKey } from '@bsv/sdk'
+import { useTheme } from '@/context/theme/ThemeContext'
+import { spacing, typography } from '@/context/theme/tokens'
+import { GroupedSection } from '@/components/ui/GroupedList'
+import { ListRow } from '@/components/ui/ListRow'
+import { showAlert } from '@/components/ui/AlertCard'
+import { showToast } from '@/components/ui/Toast'
+import { useWallet } from '@/context/WalletContext'
+import { useLocalStorage } from '@/context/LocalStorageProvider'
+import { ExchangeRateContext } from '@/context/ExchangeRateContext'
+import { formatAmount } from '@/utils/amountFormatHelpers'
+import type { DeviceSummary } from '@/utils/backup/client'
+import { getDeviceId } from '@/utils/backup/deviceId'
+import { getBackupEndpoint } from '@/utils/backup/endpoint'
+import { previewGeneration, type GenerationPreview, type RestorePoint } from '@/utils/backup/preview'
+import { listBackups } from '@/utils/backup/restore'
+import { recoverMnemonicWallet } from '@/utils/mnemonicWallet'
+
+interface DeviceGroup {
+  deviceId: string
+  /** Newest generation first. */
+  generations: DeviceSummary[]
+}
+
+/** This device first, then the others by when they last wrote. */
+function groupByDevice(devices: DeviceSummary[], ownDeviceId: string): DeviceGroup[] {
+  const groups = new Map<string, DeviceSummary[]>()
+  for (const d of devices) groups.set(d.deviceId, [...(groups.get(d.deviceId) ?? []), d])
+  const latest = (g: DeviceSummary[]) => g.reduce((best, d) => (d.updatedAt > best ? d.updatedAt : best), '')
+  return [...groups.entries()]
+    .map(([deviceId, generations]) => ({
+      deviceId,
+      generations: generations.sort((a, b) => b.generation - a.generation)
+    }))
+    .sort(
+      (a, b) =>
+        Number(b.deviceId === ownDeviceId) - Number(a.deviceId === ownDeviceId) ||
+        latest(b.generations).localeCompare(latest(a.generations))
+    )
+}
+
+const keyOf = (d: { deviceId: string; generation: number }) => `${d.deviceId}:${d.generation}`
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })
+
+export default function BackupBrowserScreen() {
+  const { colors } = useTheme()
+  const { t } = useTranslation()
+  const insets = useSafeAreaInsets()
+  const { settings, restoreBackupPoint } = useWallet()
+  const { getMnemonic, getRecoveredKey } = useLocalStorage()
+  const { satoshisPerUSD } = useContext(ExchangeRateContext)
+  const currency = settings?.currency || 'BSV'
+
+  const primaryKeyRef = useRef<number[] | null>(null)
+  const [ownDeviceId, setOwnDeviceId] = useState('')
+  const [groups, setGroups] = useState<DeviceGroup[] | null>(null)
+  const [expanded, setExpanded] = useState<string | null>(null)
+  const [previews, setPreviews] = useState<Record<string, GenerationPreview | 'loading' | 'failed'>>({})
+  const [restoring, setRestoring] = useState<{ chunks: number; total: number } | null>(null)
+
+  const loadPrimaryKey = useCallback(async (): Promise<number[] | null> => {
+    if (primaryKeyRef.current) return primaryKeyRef.current
+    const mnemonic = await getMnemonic()
+    const wif = mnemonic ? null : await getRecoveredKey()
+    primaryKeyRef.current = mnemonic
+      ? recoverMnemonicWallet(mnemonic).primaryKey
+      : wif
+        ? PrivateKey.fromWif(wif).toArray()
+        : null
+    return primaryKeyRef.current
+  }, [getMnemonic, getRecoveredKey])
+
+  const load = useCallback(async () => {
+    try {
+      const primaryKey = await loadPrimaryKey()
+      if (primaryKey == null) {
+        showToast(t('backup_erase_no_key'), { type: 'error' })
+        setGroups([])
+        return
+      }
+      const own = await getDeviceId()
+      setOwnDeviceId(own)
+      setGroups(groupByDevice(await listBackups({ primaryKey, baseUrl: (await getBackupEndpoint()).url }), own))
+    } catch (e) {
+      console.warn('[backup-browser] manifest load failed:', e)
+      showToast(t('backup_browser_load_failed'), { type: 'error' })
+      setGroups([])
+    }
+  }, [loadPrimaryKey, t])
+
+  useEffect(() => {
+    void load()
+  }, [load])
+
+  const fmt = useCallback(
+    (sats: number) => formatAmount(sats, currency, satoshisPerUSD),
+    [currency, satoshisPerUSD]
+  )
+
+  // Decrypting a generation costs as much network as restoring it, so previews load only
+  // when a generation is opened, and stay cached for the life of the screen.
+  const toggle = async (summary: DeviceSummary) => {
+    const key = keyOf(summary)
+    if (expanded === key) {
+      setExpanded(null)
+      return
+    }
+    setExpanded(key)
+    const cached = previews[key]
+    if (cached != null && cached !== 'failed') return
+
+    setPreviews(p => ({ ...p, [key]: 'loading' }))
+    try {
+      const primaryKey = await loadPrimaryKey()
+      if (primaryKey == null) throw new Error('no wallet key')
+      const preview = await previewGeneration({
+        primaryKey,
+        baseUrl: (await getBackupEndpoint()).url,
+        deviceId: summary.deviceId,
+        generation: summary.generation
+      })
+      setPreviews(p => ({ ...p, [key]: preview }))
+    } catch (e) {
+      console.warn('[backup-browser] preview failed:', e)
+      setPreviews(p => ({ ...p, [key]: 'failed' }))
+    }
+  }
+
+  async function handleRestore(preview: GenerationPreview, point: RestorePoint) {
+    const range =
+      point.firstTxAt && point.lastTxAt
+        ? t('backup_browser_range', { from: formatDate(point.firstTxAt), to: formatDate(point.lastTxAt) })
+        : t('backup_browser_no_transactions')
+    const choice = await showAlert({
+      title: t('backup_browser_confirm_title'),
+      message: t('backup_browser_confirm_message', { count: point.txCount, range, balance: fmt(point.balance) }),
+      buttons: [
+        { text: t('cancel'), style: 'cancel', key: 'cancel' },
+        { text: t('backup_browser_confirm'), style: 'destructive', key: 'restore' }
+      ]
+    })
+    if (choice !== 'restore') return
+
+    const primaryKey = await loadPrimaryKey()
+    if (primaryKey == null) {
+      showToast(t('backup_erase_no_key'), { type: 'error' })
+      return
+    }
+
+    setRestoring({ chunks: 0, total: 0 })
+    try {
+      await restoreBackupPoint(
+        primaryKey,
+        { deviceId: preview.deviceId, generation: preview.generation, throughSeq: point.seq },
+        (chunks, total) => setRestoring({ chunks, total })
+      )
+      showToast(t('backup_browser_done'), { type: 'success' })
+      router.back()
+    } catch (e) {
+      console.error('[backup-browser] point-in-time restore failed:', e)
+      showToast(t('backup_browser_failed'), { type: 'error' })
+    } finally {
+      setRestoring(null)
+    }
+  }
+
+  const renderPoints = (entry: GenerationPreview | 'loading' | 'failed' | undefined) => {
+    if (entry == null || entry === 'loading') {
+      return <ActivityIndicator style={{ marginVertical: spacing.md }} />
+    }
+    if (entry === 'failed') {
+      return (
+        <ListRow
+          label={t('backup_browser_preview_failed')}
+          icon="alert-circle-outline"
+          iconColor={colors.error}
+          showChevron={false}
+        />
+      )
+    }
+    // Newest first: rolling back a bad recent state starts from the top of the list.
+    return [...entry.points].reverse().map((point, idx) => (
+      <ListRow
+        key={point.seq}
+        label={t('backup_browser_point', { date: formatDate(point.writtenAt), count: point.txCount })}
+        value={fmt(point.balance)}
+        icon={idx === 0 ? 'checkmark-done-outline' : 'time-outline'}
+        iconColor={idx === 0 ? '#34C759' : colors.textTertiary}
+        onPress={restoring ? undefined : () => void handleRestore(entry, point)}
+      />
+    ))
+  }
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.backgroundSecondary, paddingTop: insets.top }]}>
+      <View style={[styles.header, { borderBottomColor: colors.separator }]}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.headerButton} disabled={!!restoring}>
+          <Ionicons name="chevron-back" size={24} color={colors.textSecondary} />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: colors.textPrimary }]}>{t('backup_browser_title')}</Text>
+        <View style={styles.headerButton} />
+      </View>
+
+      {restoring && (
+        <View style={[styles.banner, { backgroundColor: colors.surfaceSunken }]}>
+          <ActivityIndicator size="small" />
+          <Text style={[styles.bannerText, { color: colors.textSecondary }]}>
+            {t('backup_browser_restoring', { chunks: restoring.chunks, total: restoring.total || '…' })}
+          </Text>
+        </View>
+      )}
+
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        {groups === null ? (
+          <ActivityIndicator style={{ marginTop: spacing.xxxl }} />
+        ) : groups.length === 0 ? (
+          <View style={styles.empty}>
+            <Ionicons name="cloud-offline-outline" size={48} color={colors.textSecondary} style={{ marginBottom: spacing.md }} />
+            <Text style={[styles.emptyTitle, { color: colors.textPrimary }]}>{t('backup_browser_empty')}</Text>
+            <Text style={[styles.emptySubtitle, { color: colors.textSecondary }]}>
+              {t('backup_browser_empty_subtitle')}
+            </Text>
+          </View>
+        ) : (
+          groups.map((group, groupIdx) => (
+            <GroupedSection
+              key={group.deviceId}
+              header={
+                group.deviceId === ownDeviceId
+                  ? t('backup_browser_this_device')
+                  : t('backup_browser_device', { id: group.deviceId.slice(0, 6) })
+              }
+              footer={groupIdx === groups.length - 1 ? t('backup_browser_footer') : undefined}
+            >
+              {group.generations.map((summary, idx) => {
+                const key = keyOf(summary)
+                const open = expanded === key
+                return (
+                  <React.Fragment key={key}>
+                    <ListRow
+                      label={t('backup_browser_generation', { generation: summary.generation })}
+                      value={t('backup_browser_generation_value', {
+                        count: summary.headSeq,
+                        date: formatDate(summary.updatedAt)
+                      })}
+                      icon="layers-outline"
+                      iconColor="#5856D6"
+                      onPress={() => void toggle(summary)}
+                      showChevron={open}
+                      chevronDown={open}
+                      isLast={idx === group.generations.length - 1 && !open}
+                    />
+                    {open && renderPoints(previews[key])}
+                  </React.Fragment>
+                )
+              })}
+            </GroupedSection>
+          ))
+        )}
+      </ScrollView>
+    </View>
+  )
+}
+
+// ── Styles ─────────────────────────────────────────────────────────────────────
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.md,
+    borderBottomWidth: StyleSheet.hairlineWidth
+  },
+  headerButton: {
+    width: 44,
+    height: 44,
+    alignItems: 'center',
+    justifyContent: 'center'
+  },
+  headerTitle: {
+    ...typography.headline,
+    fontWeight: '600'
+  },
+  banner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.md
+  },
+  bannerText: {
+    ...typography.subhead
+  },
+  scrollContent: {
+    paddingTop: spacing.xxl,
+    paddingBottom: spacing.xxxl,
+    flexGrow: 1
+  },
+  empty: {
+    alignItems: 'center',
+    paddingTop: 80,
+    paddingHorizontal: spacing.xxxl
+  },
+  emptyTitle: {
+    ...typography.headline,
+    marginBottom: spacing.sm
+  },
+  emptySubtitle: {
+    ...typography.subhead,
+    textAlign: 'center',
+    lineHeight: 20
+  }
+})
@@ -45,12 +45,16 @@ import { hostOf, isValidUrl, normalizeUrlForHistory } from '@/utils/generalHelpe
 import tabStore from '../stores/TabStore'
 import bookmarkStore from '@/stores/BookmarkStore'
 import uiStore from '@/stores/uiStore'
+import contentBlockerStore from '@/stores/ContentBlockerStore'
+import readerStore from '@/stores/ReaderStore'
 import { useTranslation } from 'react-i18next'
+import i18n from '@/context/i18n/translations'
 import { useBrowserMode } from '@/context/BrowserModeContext'
 
 import { useWebAppManifest } from '@/hooks/useWebAppManifest'
 import { buildInjectedJavaScript } from '@/utils/webview/injectedPolyfills'
 import PermissionModal from '@/components/browser/PermissionModal'
+import PaymentConfirmSheet from '@/components/browser/PaymentConfirmSheet'
 import { getPermissionState } from '@/utils/permissionsManager'
 import { check, request, PERMISSIONS, RESULTS } from 'react-native-permissions'
 import { getPermissionScript } from '@/utils/permissionScript'
@@ -58,19 +62,39 @@ import { createWebViewMessageRouter } from '@/utils/webview/messageRouter'
 import { handleUrlDownload, cleanupDownloadsCache } from '@/utils/webview/downloadHandler'
 import { captureThumbnail, cleanupOrphanedThumbnails, thumbnailExists } from '@/utils/thumbnailService'
 import { nativeSpoofSetup, mediaSourcePolyfill } from '@/utils/webview/mediaSourcePolyfill'
-import { buildWalletDocumentStartScript } from '@/utils/webview/documentStartScript'
+import {
+  buildWalletDocumentStartScript,
+  buildWalletlessDocumentStartScript
+} from '@/utils/webview/documentStartScript'
 import { walletFrameIdentityFromUrl } from '@/utils/webview/walletOrigin'
+import { containerDataStoreId } from '@/utils/webview/containerStore'
+import { privateTabsSupported } from '@/utils/webview/privateTabs'
+import {
+  buildCosmeticFilterScript,
+  buildCosmeticReplyScript,
+  CONTENT_BLOCKER_MESSAGE_PREFIX
+} from '@/utils/contentBlocker/cosmeticScript'
+import { READER_ARTICLE_MESSAGE } from '@/utils/reader/extractScript'
 import { buildWalletResponseScript } from '@/utils/webview/walletResponseScript'
 import { normalizeWalletByteFields } from '@/utils/webview/walletByteJson'
-import { getPaymentHandler } from '@/utils/webview/bsvPaymentHandler'
+import {
+  getPaymentHandler,
+  type PaymentConfirmChoice,
+  type PaymentConfirmRequest
+} from '@/utils/webview/bsvPaymentHandler'
+import type { WebNotification } from '@/utils/webview/notifications'
+import { showLocalNotification } from '@/utils/localNotifications'
+import { showToast } from '@/components/ui/Toast'
 import { getErrorPage, getNativeErrorInfo, paymentLoadingPage, navigationLoadingPage, escapeForTemplateLiteral, escapeForJsSingleQuote } from '@/utils/webview/errorPages'
 
 import { AddressBar, AddressBarHandle } from '@/components/browser/AddressBar'
 import { TabsOverview } from '@/components/browser/TabsOverview'
 import { SheetRouter } from '@/components/browser/SheetRouter'
+import { ReaderView } from '@/components/browser/ReaderView'
 import { durations } from '@/context/theme/motion'
 
 import { useHistory } from '@/hooks/useHistory'
+import type { HistoryRange } from '@/utils/history/historyStore'
 import { usePermissions } from '@/hooks/usePermissions'
 import { useMemoryHygiene } from '@/hooks/useMemoryHygiene'
 import { perf } from '@/utils/perf'
@@ -112,6 +136,20 @@ const CWI_NO_YIELD = new Set<string>([
   'encrypt', 'decrypt'
 ])
 
+/**
+ * Shows a page's `new Notification()` as an OS notification, titled with the
+ * domain so a page cannot pass its notification off as the wallet's own. A
+ * `tag` replaces the page's earlier notification with that tag, as on the
+ * web. Where the OS refuses, an in-app toast stands in.
+ */
+function presentNotification(n: WebNotification) {
+  const text = n.body ? `${n.title}\n${n.body}` : n.title
+  const id = n.tag ? `web:${n.domain}:${n.tag}` : undefined
+  void showLocalNotification({ title: n.domain, body: text }, id).then(shown => {
+    if (!shown) showToast(`${n.domain}: ${text}`)
+  })
+}
+
 /* -------------------------------------------------------------------------- */
 /*                               USER AGENTS                                  */
 /* -------------------------------------------------------------------------- */
@@ -151,6 +189,15 @@ interface WebViewHostProps {
   containerRef?: React.RefObject<View | null>
   uri: string
   isDesktopMode: boolean
+  // Private tab: non-persistent cookie/storage jar, no disk cache, and tabs it
+  // opens are private too.
+  isPrivate: boolean
+  // The tab's group is a container (see TabStore.setGroupContainer): its pages
+  // get a persistent cookie/storage jar of their own (utils/webview/containerStore).
+  container?: string
+  // Private tab the user hasn't opted in to the wallet: no 402 payments either,
+  // since paying would hand the site a wallet-derived key.
+  walletHidden: boolean
   isFullscreen: boolean
   onExitFullscreen: () => void
   topInset: number
@@ -187,6 +234,9 @@ const WebViewHost = React.memo(function WebViewHost(props: WebViewHostProps) {
     containerRef,
     uri,
     isDesktopMode,
+    isPrivate,
+    container,
+    walletHidden,
     isFullscreen,
     onExitFullscreen,
     topInset,
@@ -211,7 +261,24 @@ const WebViewHost = React.memo(function WebViewHost(props: WebViewHostProps) {
   // event (the warm pool mounts several WebViews; only the active one's events
   // drive the address bar / wallet bridge). useCallback keeps the prop identity
   // stable across re-renders so the native bridge isn't re-bound every frame.
-  const onMessageForTab = useCallback((event: any) => onMessage(tabId, event), [onMessage, tabId])
+  const onMessageForTab = useCallback(
+    (event: any) => {
+      // Cosmetic filtering is answered here rather than in the shell, which
+      // only listens to the active tab: a warm tab loading in the background
+      // still needs its stylesheet before it is shown.
+      const data = event.nativeEvent?.data
+      if (typeof data === 'string' && data.startsWith(CONTENT_BLOCKER_MESSAGE_PREFIX)) {
+        let reply = null
+        try {
+          reply = contentBlockerStore.cosmeticReply(JSON.parse(data), event.nativeEvent.url ?? '')
+        } catch {}
+        if (reply) webviewRef.current?.injectJavaScript(buildCosmeticReplyScript(reply))
+        return
+      }
+      onMessage(tabId, event)
+    },
+    [onMessage, tabId, webviewRef]
+  )
   const onNavForTab = useCallback(
     (navState: WebViewNavigation) => onNavStateChange(tabId, navState),
     [onNavStateChange, tabId]
@@ -344,6 +411,18 @@ const WebViewHost = React.memo(function WebViewHost(props: WebViewHostProps) {
         // after their tab's WebView unmounts. A per-WebView pool lets iOS release
         // those processes when external-link navigation replaces the active tab.
         useSharedProcessPool={Platform.OS !== 'ios'}
+        // iOS gives an incognito WebView its own non-persistent
+        // WKWebsiteDataStore, dropped when the WebView unmounts (tab closed or
+        // evicted from the warm pool). Android's `incognito` instead wipes the
+        // one process-wide CookieManager — signing the user out of every
+        // regular tab — and can't keep a tab apart from it, so Android has no
+        // private tabs (utils/webview/privateTabs).
+        incognito={isPrivate && Platform.OS === 'ios'}
+        // A container's own persistent WKWebsiteDataStore (iOS 17+, patched
+        // into react-native-webview). TabStore.containerOf reports no container
+        // anywhere else, so this is only set where it isolates.
+        dataStoreIdentifier={container ? containerDataStoreId(container) : undefined}
+        cacheEnabled={!isPrivate}
         originWhitelist={['https://*', 'http://*', 'blob:*', 'data:*', 'about:*']}
         onMessage={onMessageForTab}
         // Apple Pay (web2) is incompatible with WKWebView script injection, so
@@ -408,6 +487,20 @@ const WebViewHost = React.memo(function WebViewHost(props: WebViewHostProps) {
         }
         onShouldStartLoadWithRequest={(request: any) => {
           const { url: reqUrl, navigationType } = request
+          // The only loads react-native-webview lets us veto: top-level
+          // navigations everywhere, and child frames on iOS (isTopFrame false),
+          // which is where most display ads live.
+          if (/^https?:/i.test(reqUrl)) {
+            const isTopFrame = request.isTopFrame !== false
+            const pageUrl = isTopFrame ? '' : (getTab()?.url ?? '')
+            if (contentBlockerStore.shouldBlock(tabId, reqUrl, pageUrl, isTopFrame ? 'document' : 'subdocument')) {
+              if (isTopFrame && isActive) showToast(i18n.t('content_blocker_blocked_page'), { type: 'error' })
+              return false
+            }
+            if (isTopFrame && reqUrl.split('#')[0] !== (getTab()?.url ?? '').split('#')[0]) {
+              contentBlockerStore.resetBlocked(tabId)
+            }
+          }
           if (reqUrl.startsWith('blob:') || reqUrl.startsWith('data:')) {
             const escaped = escapeForJsSingleQuote(reqUrl)
             setTimeout(() => {
@@ -457,7 +550,7 @@ const WebViewHost = React.memo(function WebViewHost(props: WebViewHostProps) {
         // this tab). Active-only so a backgrounded warm tab can't spawn tabs.
         onOpenWindow={(event: any) => {
           const targetUrl = event?.nativeEvent?.targetUrl
-          if (isActive && targetUrl) tabStore.newTab(targetUrl)
+          if (isActive && targetUrl) tabStore.newTab(targetUrl, { isPrivate, groupId: getTab()?.groupId })
         }}
         androidLayerType="hardware"
         androidHardwareAccelerationDisabled={false}
@@ -486,7 +579,7 @@ const WebViewHost = React.memo(function WebViewHost(props: WebViewHostProps) {
           if (e.nativeEvent?.url?.includes('favicon.ico') && tab?.url === kNEW_TAB_URL) return
           const status = e.nativeEvent?.statusCode || 404
           const url = e.nativeEvent?.url || ''
-          if (status === 402 && paymentHandlerRef.current) {
+          if (status === 402 && paymentHandlerRef.current && !walletHidden) {
             if (paymentInFlightUrl.current === url) return
             paymentInFlightUrl.current = url
             if (webviewRef.current) {
@@ -495,7 +588,7 @@ const WebViewHost = React.memo(function WebViewHost(props: WebViewHostProps) {
               )
             }
             paymentHandlerRef.current
-              .handle402(url, 402, e.nativeEvent.headers || {})
+              .handle402(url, 402, e.nativeEvent.headers || {}, container)
               .then((html: string | null) => {
                 if (html && webviewRef.current) {
                   webviewRef.current.injectJavaScript(
@@ -723,6 +816,17 @@ const Browser = observer(function Browser() {
   const [wallet, setWallet] = useState<WalletInterface | undefined>()
   const paymentHandlerRef = useRef<any>(null)
   const paymentInFlightUrl = useRef<string | null>(null)
+  // The 402 confirmation sheet. The handler awaits `resolve`, so every path
+  // out of the sheet (buttons, swipe-dismiss) must call it exactly once.
+  const [pendingPayment, setPendingPayment] = useState<{
+    request: PaymentConfirmRequest
+    resolve: (choice: PaymentConfirmChoice) => void
+  } | null>(null)
+  const confirmPayment = useCallback(
+    (request: PaymentConfirmRequest) =>
+      new Promise<PaymentConfirmChoice>(resolve => setPendingPayment({ request, resolve })),
+    []
+  )
   useEffect(() => {
     if (!isWeb2Mode && managers?.walletManager?.authenticated) {
       // Guard the wallet exposed to in-tab pages: privileged (vault) ops are
@@ -734,21 +838,32 @@ const Browser = observer(function Browser() {
       // services/capWalletArgs.ts for why the cap cannot live any lower.
       setWallet(capWalletArgs(guardVaultAccess(managers.walletManager as any, ADMIN_ORIGINATOR)))
       paymentHandlerRef.current = getPaymentHandler(managers.walletManager)
+      paymentHandlerRef.current?.setConfirmHandler(confirmPayment)
     } else if (isWeb2Mode) {
       setWallet(undefined)
       paymentHandlerRef.current = null
     }
-  }, [managers, isWeb2Mode])
+  }, [managers, isWeb2Mode, confirmPayment])
 
   /* ---------------------------- storage helpers ----------------------------- */
-  const { getItem, setItem } = useLocalStorage()
+  const { getItem, deleteItem } = useLocalStorage()
 
   /* -------------------------------- history -------------------------------- */
-  const { history, pushHistory, removeHistoryItem, clearHistory: clearHistoryOnly } = useHistory(getItem, setItem)
-  const clearHistory = useCallback(async () => {
-    await clearHistoryOnly()
-    paymentHandlerRef.current?.clearCache()
-  }, [clearHistoryOnly])
+  const {
+    history,
+    pushHistory,
+    removeHistoryItem,
+    clearHistoryRange: clearHistoryRangeOnly,
+    searchHistory
+  } = useHistory(getItem, deleteItem)
+  const clearHistoryRange = useCallback(
+    async (range: HistoryRange) => {
+      const remaining = await clearHistoryRangeOnly(range)
+      paymentHandlerRef.current?.clearCache()
+      return remaining
+    },
+    [clearHistoryRangeOnly]
+  )
 
   /* -------------------------------- bookmarks ------------------------------- */
   const [homepageUrl, setHomepageUrlState] = useState(DEFAULT_HOMEPAGE_URL)
@@ -773,7 +888,8 @@ const Browser = observer(function Browser() {
   const activeTab = tabStore.activeTab
 
   const captureActiveThumbnail = useCallback(async () => {
-    if (!activeTab || activeTab.url === kNEW_TAB_URL) return
+    // Private tabs are never snapshotted: the file would outlive the tab on disk.
+    if (!activeTab || activeTab.isPrivate || activeTab.url === kNEW_TAB_URL) return
     // Defer the captureRef rasterization until the JS thread is idle so it never
     // competes with chrome animations or active page scrolls. The thumbnail is
     // only consumed when the tabs grid is opened or on backgrounding, so a few
@@ -793,7 +909,7 @@ const Browser = observer(function Browser() {
   // fresh one after the new page settles. Same-host in-page navigation (SPA
   // routes, fragments) is intentionally ignored — no churn.
   useEffect(() => {
-    if (!activeTab || activeTab.url === kNEW_TAB_URL) return
+    if (!activeTab || activeTab.isPrivate || activeTab.url === kNEW_TAB_URL) return
     const host = hostOf(activeTab.url)
     if (!host || host === activeTab.thumbnailHost) return
     // Host changed → drop the stale snapshot, then recapture once the page paints.
@@ -1043,15 +1159,36 @@ const Browser = observer(function Browser() {
     }
   }, [])
 
-  const handleNewTab = useCallback(() => {
+  const handleNewTab = useCallback((groupId?: string) => {
     focusAddressBarOnNewTab.current = true
-    tabStore.newTab()
+    tabStore.newTab(undefined, { groupId })
     cancelableNewTabId.current = tabStore.activeTabId
     setShowTabsView(false)
     // The menu popover (if the new tab was opened from it) closes itself inside
     // AddressBar via its dismiss wrapper, so no cross-boundary close is needed.
   }, [])
 
+  const handleNewPrivateTab = useCallback(() => {
+    focusAddressBarOnNewTab.current = true
+    tabStore.newPrivateTab()
+    cancelableNewTabId.current = tabStore.activeTabId
+    setShowTabsView(false)
+  }, [])
+
+  const handleReaderView = useCallback(async () => {
+    const tab = tabStore.activeTab
+    if (!tab || tab.url === kNEW_TAB_URL) return
+    if (!(await readerStore.openFromTab(tab))) showToast(i18n.t('reader_no_article'))
+  }, [])
+
+  // From the reader: its article may be a saved copy of a page this tab isn't on.
+  const handleReaderOpenOriginal = useCallback(
+    (url: string) => {
+      if (tabStore.activeTab?.url !== url) updateActiveTab({ url })
+    },
+    [updateActiveTab]
+  )
+
   /* -------------------------------------------------------------------------- */
   /*                           WEBVIEW MESSAGE HANDLER                          */
   /* -------------------------------------------------------------------------- */
@@ -1128,19 +1265,25 @@ const Browser = observer(function Browser() {
   // this multi-KB concat (CWI provider + polyfills + permission script) ran on all
   // ~500 renders during a browse session, feeding a fresh string into the WebView
   // each time and forcing the whole WebView subtree to reconcile.
-  const injectedJSBefore = useMemo(
+  const mainFrameScript = useMemo(
     () =>
-      buildWalletDocumentStartScript(
-        nativeSpoofSetup +
-          '\n' +
-          mediaSourcePolyfill +
-          '\n' +
-          downloadInterceptScript +
-          '\n' +
-          getPermissionScript(permissionsDeniedForCurrentDomain, pendingPermission)
-      ),
+      nativeSpoofSetup +
+      '\n' +
+      mediaSourcePolyfill +
+      '\n' +
+      downloadInterceptScript +
+      '\n' +
+      buildCosmeticFilterScript() +
+      '\n' +
+      getPermissionScript(permissionsDeniedForCurrentDomain, pendingPermission),
     [downloadInterceptScript, permissionsDeniedForCurrentDomain, pendingPermission]
   )
+  const injectedJSBefore = useMemo(() => buildWalletDocumentStartScript(mainFrameScript), [mainFrameScript])
+  // Private tabs that haven't been opted in to the wallet get no window.CWI.
+  const injectedJSBeforeWalletless = useMemo(
+    () => buildWalletlessDocumentStartScript(mainFrameScript),
+    [mainFrameScript]
+  )
 
   const routeWebViewMessage = useMemo(
     () =>
@@ -1150,7 +1293,8 @@ const Browser = observer(function Browser() {
         getPermissionState,
         ...permissionRouterConfig,
         activeCameraStreams,
-        setIsFullscreen: (v: boolean) => setIsFullscreen(v)
+        setIsFullscreen: (v: boolean) => setIsFullscreen(v),
+        presentNotification
       }),
     [domainForUrl, permissionRouterConfig]
   )
@@ -1173,8 +1317,9 @@ const Browser = observer(function Browser() {
       // origin/webviewRef.) A backgrounded page's call simply waits until the
       // user returns to it.
       if (tabId !== activeTab.id) return
+      const walletHidden = !!activeTab.isPrivate && !activeTab.privateWalletEnabled
 
-      const frameIdentity = walletFrameIdentityFromUrl(eventUrl)
+      const frameIdentity = walletFrameIdentityFromUrl(eventUrl, tabStore.containerOf(activeTab))
 
       const sendResponseToWebView = (id: string, result: any) => {
         if (!activeTab?.webviewRef?.current) return
@@ -1230,6 +1375,11 @@ const Browser = observer(function Browser() {
         return
       }
 
+      if (msg.type === READER_ARTICLE_MESSAGE) {
+        readerStore.receive(msg)
+        return
+      }
+
       if (msg.type === 'DL_DEBUG') {
         console.warn('[DL_DEBUG]', msg.info)
         return
@@ -1261,33 +1411,35 @@ const Browser = observer(function Browser() {
         return
       }
 
-      if (msg.type === 'PAYMENT_REQUIRED' && paymentHandlerRef.current) {
-        // Skip if a payment is already being handled for this URL (e.g. onHttpError already fired)
-        if (paymentInFlightUrl.current === msg.url) return
-        paymentInFlightUrl.current = msg.url
-        if (activeTab?.webviewRef?.current) {
-          activeTab.webviewRef.current.injectJavaScript(
-            `document.open();document.write(\`${escapeForTemplateLiteral(paymentLoadingPage)}\`);document.close();`
-          )
+      if (msg.type === 'SUBRESOURCE_PAYMENT_REQUIRED' && paymentHandlerRef.current && !walletHidden) {
+        // A fetch/XHR on the page got a 402. Pay, and hand the payment headers
+        // back: the polyfill repeats the request itself and gives its caller
+        // the paid response. Navigations don't come through here (onHttpError).
+        const reply = (result: { headers: Record<string, string> } | { error: string }) => {
+          activeTab?.webviewRef?.current?.injectJavaScript(`
+            window.dispatchEvent(new MessageEvent('message', {
+              data: ${JSON.stringify(JSON.stringify({ type: 'SUBRESOURCE_PAYMENT_RESPONSE', id: msg.id, ...result }))}
+            }));
+          `)
         }
         paymentHandlerRef.current
-          .handle402(msg.url, msg.status, msg.headers || {})
-          .then((html: string | null) => {
-            if (html && activeTab?.webviewRef?.current) {
-              activeTab.webviewRef.current.injectJavaScript(
-                `document.open();document.write(\`${escapeForTemplateLiteral(html)}\`);document.close();`
-              )
-            }
-          })
-          .catch(() => {})
-          .finally(() => {
-            paymentInFlightUrl.current = null
-          })
+          .payForSubresource(String(msg.url), msg.headers || {}, eventUrl, tabStore.containerOf(activeTab))
+          .then(reply)
+          .catch(() => reply({ error: 'Payment failed' }))
         return
       }
 
       if (await routeWebViewMessage(msg)) return
 
+      // The provider isn't injected in a private tab, but a page can still post
+      // a hand-built CWI message; it gets the same answer as a missing wallet.
+      if (msg.call && walletHidden) {
+        if (msg.type === 'CWI' && msg.id) {
+          sendErrorToWebView(msg.id, 'Wallet is disabled in private tabs', 1)
+        }
+        return
+      }
+
       if (msg.call && (!wallet || isWeb2Mode)) {
         if (isWeb2Mode) {
           // Web2 mode: wallet calls are not supported, send error immediately
@@ -1460,7 +1612,8 @@ const Browser = observer(function Browser() {
       // Debounce history push so that rapid onNavigationStateChange events
       // (which often carry stale titles from the *previous* page) settle before
       // we commit an entry.  Only the final event's metadata is recorded.
-      if (!navState.loading && cleanUrl !== kNEW_TAB_URL) {
+      // Private tabs never reach the history database.
+      if (!navState.loading && cleanUrl !== kNEW_TAB_URL && !activeTab.isPrivate) {
         if (historyDebounceTimer.current) clearTimeout(historyDebounceTimer.current)
         const url = cleanUrl
         const title = navState.title || cleanUrl
@@ -1547,7 +1700,9 @@ const Browser = observer(function Browser() {
 
   const renderHost = (tab: Tab, active: boolean) => (
     <WebViewHost
-      key={tab.id}
+      // Keyed on the container too: the cookie jar is fixed when the WebView
+      // is created, so joining or leaving one needs a fresh WebView.
+      key={`${tab.id}:${tabStore.containerOf(tab) ?? ''}`}
       tabId={tab.id}
       isActive={active}
       isWarm={tabStore.isWarm(tab.id)}
@@ -1565,6 +1720,9 @@ const Browser = observer(function Browser() {
         return typeof src === 'string' && src.length > 0 ? src : 'about:blank'
       })()}
       isDesktopMode={tab.isDesktopMode ?? false}
+      isPrivate={!!tab.isPrivate}
+      container={tabStore.containerOf(tab)}
+      walletHidden={!!tab.isPrivate && !tab.privateWalletEnabled}
       isFullscreen={active && isFullscreen}
       onExitFullscreen={onExitFullscreen}
       topInset={insets.top}
@@ -1572,7 +1730,7 @@ const Browser = observer(function Browser() {
       acceptLanguage={getAcceptLanguageHeader()}
       isWeb2Mode={isWeb2Mode}
       injectedJavaScript={injectedJavaScript}
-      injectedJSBefore={injectedJSBefore}
+      injectedJSBefore={tab.isPrivate && !tab.privateWalletEnabled ? injectedJSBeforeWalletless : injectedJSBefore}
       onMessage={onWebViewMessage}
       onNavStateChange={handleNavStateChange}
       paymentHandlerRef={paymentHandlerRef}
@@ -1685,10 +1843,12 @@ const Browser = observer(function Browser() {
               setShowTabsView(true)
             }}
             onNewTab={handleNewTab}
+            onNewPrivateTab={privateTabsSupported() ? handleNewPrivateTab : undefined}
+            onReaderView={handleReaderView}
             onEnableWeb3={() => router.push('/auth/mnemonic')}
             onConnections={() => router.push('/connections')}
             onOpenSheet={route => sheet.push(route)}
-            history={history}
+            searchHistory={searchHistory}
             addBookmark={addBookmark}
           />
 
@@ -1698,9 +1858,13 @@ const Browser = observer(function Browser() {
               onDismiss={() => setShowTabsView(false)}
               setAddressFocused={uiStore.setAddressFocused}
               onNewTab={handleNewTab}
+              onNewPrivateTab={privateTabsSupported() ? handleNewPrivateTab : undefined}
             />
           )}
 
+          {/* ---- Reader mode ---- */}
+          {readerStore.article && <ReaderView onOpenOriginal={handleReaderOpenOriginal} />}
+
           {/* ---- Unified Sheet System ---- */}
           <SheetRouter
             sheet={sheet}
@@ -1709,7 +1873,8 @@ const Browser = observer(function Browser() {
             homepageUrl={homepageUrl}
             updateActiveTab={updateActiveTab}
             history={history}
-            clearHistory={clearHistory}
+            clearHistoryRange={clearHistoryRange}
+            searchHistory={searchHistory}
             removeHistoryItem={removeHistoryItem}
             handlePermissionChange={handlePermissionChange}
             addBookmark={addBookmark}
@@ -1725,6 +1890,19 @@ const Browser = observer(function Browser() {
               onDecision={onDecision}
             />
           )}
+
+          {/* ---- 402 payment over the domain's auto-pay ceiling ---- */}
+          {pendingPayment && (
+            <PaymentConfirmSheet
+              key={pendingPayment.request.url}
+              visible
+              request={pendingPayment.request}
+              onDecision={choice => {
+                pendingPayment.resolve(choice)
+                setPendingPayment(null)
+              }}
+            />
+          )}
         </View>
       </KeyboardAvoidingView>
     </View>
@@ -19,7 +19,7 @@ import { useTranslation } from 'react-i18next'
 
 import PressableScale from '@/components/ui/PressableScale'
 import PayCellRow from '@/components/pay/PayCellRow'
-import NearbyFlow from '@/components/pay/NearbyFlow'
+import NearbyFlow, { type NearbyRefund } from '@/components/pay/NearbyFlow'
 import PaymentQrDisplay from '@/components/pay/PaymentQrDisplay'
 import HandleSend from '@/components/pay/HandleSend'
 import HandleReceive from '@/components/pay/HandleReceive'
@@ -32,6 +32,12 @@ import { useWallet } from '@/context/WalletContext'
 import { useOnline } from '@/hooks/useOnline'
 import { validatePeerPayURI } from '@/utils/parsePeerPayURI'
 import { isPayCell, type PayCell } from '@/utils/pay/rails'
+import {
+  claimPaymentRefund,
+  refundableByTxid,
+  settlePaymentRefund,
+  type Refundable
+} from '@/utils/pay/rails/nearby'
 import { takeProofNudge } from '@/utils/pay/proofNudge'
 import { findOfflineActions, type OfflineActionRow } from '@/storage/methods/offlineActions'
 import { TaskSendOffline } from '@/utils/monitor/TaskSendOffline'
@@ -118,6 +124,7 @@ export default function PayScreen() {
     identityKey?: string | string[]
     sats?: string | string[]
     peerpay?: string | string[]
+    refundOf?: string | string[]
   }>()
 
   const peerpay = firstParam(params.peerpay)
@@ -144,6 +151,43 @@ export default function PayScreen() {
     openingCell ? (openingCell.startsWith('get') ? 'get' : 'pay') : firstParam(params.direction) === 'get' ? 'get' : 'pay'
   const [cell, setCell] = useState<PayCell | null>(openingCell)
 
+  // `?refundOf=<txid>` opens the nearby payer as a refund of that received
+  // payment. undefined while it is being looked up, null when this wallet has
+  // no completed nearby payment by that txid to return.
+  const refundOf = firstParam(params.refundOf)
+  const [refundable, setRefundable] = useState<Refundable | null | undefined>(undefined)
+  useEffect(() => {
+    if (!refundOf || !storage) return
+    let cancelled = false
+    void refundableByTxid(storage)
+      .then(found => {
+        if (!cancelled) setRefundable(found.get(refundOf) ?? null)
+      })
+      .catch(() => {
+        if (!cancelled) setRefundable(null)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [refundOf, storage])
+
+  const nearbyRefund = useMemo<NearbyRefund | undefined>(() => {
+    if (!refundable || !storage) return undefined
+    return {
+      recipient: refundable.recipient,
+      satoshis: refundable.satoshis,
+      claim: async () => (await claimPaymentRefund(storage, refundable, 'nearby')) !== null,
+      settle: outcome =>
+        void settlePaymentRefund(
+          storage,
+          refundable.originalTxid,
+          outcome.sent ? { status: 'sent', refundTxid: outcome.txid } : { status: 'owed', error: outcome.error }
+        ).catch(() => {
+          // Bookkeeping only. The refund itself is already decided by now.
+        })
+    }
+  }, [refundable, storage])
+
   // Refreshed whenever the wallet finishes building, connectivity changes, or
   // the user enters/leaves a pay cell: the queue only moves when the network
   // state does or when a cell just queued a row (e.g. an in-session offline
@@ -262,7 +306,13 @@ export default function PayScreen() {
   const body = () => {
     switch (cell) {
       case 'pay-nearby':
-        return <NearbyFlow role="payer" onExit={goBack} />
+        if (refundOf) {
+          if (refundable === undefined) return null
+          if (!nearbyRefund) {
+            return <Text style={[styles.notice, { color: colors.textSecondary }]}>{t('refund_unavailable')}</Text>
+          }
+        }
+        return <NearbyFlow role="payer" onExit={goBack} refund={nearbyRefund} />
       case 'get-nearby':
         return <NearbyFlow role="payee" onExit={goBack} />
       case 'pay-handle':
@@ -341,6 +391,7 @@ const styles = StyleSheet.create({
   bodyWrap: { flex: 1 },
   grid: { paddingHorizontal: spacing.lg, paddingTop: spacing.lg },
   rows: { gap: spacing.md },
+  notice: { ...typography.body, textAlign: 'center', padding: spacing.xl },
   codeOverlay: {
     flex: 1,
     alignItems: 'center',
@@ -0,0 +1,496 @@
+/**
+ * Point of sale — nearby payments at a counter.
+ *
+ * Staff build an itemized cart from the shop's saved items and charge it: each
+ * checkout mounts NearbyFlow as a payee bound to the cart total, so every
+ * payment mints its own one-shot session and takes the same transports and
+ * settle path as Get paid → Nearby. A settled checkout lands in the till (see
+ * utils/localpay/till.ts) with its cart, and the end-of-day report reconciles
+ * the till against the payments queue, retrying anything still queued first.
+ *
+ * Offline channel mode (components/pay/OfflineChannels.tsx) bounds what each
+ * customer may leave unbroadcast with the counter while there is no signal.
+ *
+ * The till is bookkeeping. A till write that fails is reported, but the
+ * payment behind it is already queued and nothing here can undo that.
+ */
+import React, { useCallback, useEffect, useState } from 'react'
+import {
+  ActivityIndicator,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View
+} from 'react-native'
+import { Ionicons } from '@expo/vector-icons'
+import { router } from 'expo-router'
+import { useSafeAreaInsets } from 'react-native-safe-area-context'
+import { useTranslation } from 'react-i18next'
+import { Utils } from '@bsv/sdk'
+
+import NearbyFlow, { type SettledPayment } from '@/components/pay/NearbyFlow'
+import OfflineChannels from '@/components/pay/OfflineChannels'
+import { GroupedSection } from '@/components/ui/GroupedList'
+import { ListRow } from '@/components/ui/ListRow'
+import { showAlert } from '@/components/ui/AlertCard'
+import { showToast } from '@/components/ui/Toast'
+import { useTheme } from '@/context/theme/ThemeContext'
+import { radii, spacing, typography } from '@/context/theme/tokens'
+import { useWallet } from '@/context/WalletContext'
+import { updateOfflineAction } from '@/storage/methods/offlineActions'
+import { formatSatoshis } from '@/utils/amountFormatHelpers'
+import { exportTillReportFile, printTillReport } from '@/utils/exportTillReport'
+import {
+  cartTotal,
+  dayOf,
+  getCatalogue,
+  getSales,
+  reconcileDay,
+  recordSale,
+  saveCatalogue,
+  type CartLine,
+  type CatalogueItem,
+  type TillReport
+} from '@/utils/pay/rails/nearby'
+
+/** The cart being charged, frozen at the moment Charge was pressed. */
+interface Checkout {
+  /** Remounts NearbyFlow per checkout, so no state carries between customers. */
+  key: number
+  lines: CartLine[]
+  total: number
+}
+
+export default function PosScreen() {
+  const { t } = useTranslation()
+  const { colors } = useTheme()
+  const insets = useSafeAreaInsets()
+  const { managers, adminOriginator, storage } = useWallet()
+  const wallet = managers?.permissionsManager ?? null
+
+  const [catalogue, setCatalogue] = useState<CatalogueItem[]>([])
+  const [cart, setCart] = useState<CartLine[]>([])
+  const [editing, setEditing] = useState(false)
+  const [newName, setNewName] = useState('')
+  const [newPrice, setNewPrice] = useState('')
+  const [today, setToday] = useState<{ count: number; satoshis: number }>({ count: 0, satoshis: 0 })
+  const [checkout, setCheckout] = useState<Checkout | null>(null)
+  const [report, setReport] = useState<TillReport | null>(null)
+  const [reconciling, setReconciling] = useState(false)
+
+  const total = cartTotal(cart)
+
+  const refreshToday = useCallback(async () => {
+    if (!storage) return
+    try {
+      const sales = await getSales(storage, dayOf(new Date()))
+      setToday({ count: sales.length, satoshis: sales.reduce((sum, s) => sum + s.satoshis, 0) })
+    } catch (e) {
+      console.warn('[pos] till read failed:', (e as Error)?.message)
+    }
+  }, [storage])
+
+  useEffect(() => {
+    if (!storage) return
+    getCatalogue(storage)
+      .then(setCatalogue)
+      .catch(e => console.warn('[pos] catalogue read failed:', (e as Error)?.message))
+    void refreshToday()
+  }, [storage, refreshToday])
+
+  // ── Cart ──
+
+  const addToCart = useCallback((item: CatalogueItem) => {
+    setCart(lines => {
+      const at = lines.findIndex(l => l.name === item.name && l.unitPrice === item.unitPrice)
+      if (at < 0) return [...lines, { ...item, quantity: 1 }]
+      return lines.map((l, i) => (i === at ? { ...l, quantity: l.quantity + 1 } : l))
+    })
+  }, [])
+
+  const removeFromCart = useCallback((index: number) => {
+    setCart(lines =>
+      lines.flatMap((l, i) => (i !== index ? [l] : l.quantity > 1 ? [{ ...l, quantity: l.quantity - 1 }] : []))
+    )
+  }, [])
+
+  // ── Catalogue ──
+
+  const addItem = useCallback(async () => {
+    if (!storage) return
+    const name = newName.trim()
+    const unitPrice = Number(newPrice)
+    if (!name || !Number.isSafeInteger(unitPrice) || unitPrice <= 0) {
+      showToast(t('pos_item_invalid'), { type: 'error' })
+      return
+    }
+    try {
+      setCatalogue(await saveCatalogue(storage, [...catalogue, { name, unitPrice }]))
+      setNewName('')
+      setNewPrice('')
+      setEditing(false)
+    } catch (e) {
+      console.warn('[pos] catalogue write failed:', (e as Error)?.message)
+      showToast(t('pos_item_save_failed'), { type: 'error' })
+    }
+  }, [storage, newName, newPrice, catalogue, t])
+
+  const removeItem = useCallback(
+    async (item: CatalogueItem) => {
+      if (!storage) return
+      const choice = await showAlert({
+        title: t('pos_item_remove_title', { name: item.name }),
+        message: t('pos_item_remove_message'),
+        buttons: [
+          { text: t('pos_item_remove_confirm'), key: 'confirm', style: 'destructive' },
+          { text: t('cancel'), key: 'cancel', style: 'cancel' }
+        ]
+      })
+      if (choice !== 'confirm') return
+      try {
+        setCatalogue(await saveCatalogue(storage, catalogue.filter(i => i.name !== item.name)))
+      } catch (e) {
+        console.warn('[pos] catalogue write failed:', (e as Error)?.message)
+        showToast(t('pos_item_save_failed'), { type: 'error' })
+      }
+    },
+    [storage, catalogue, t]
+  )
+
+  // ── Checkout ──
+
+  const charge = useCallback(() => {
+    if (!Number.isSafeInteger(total) || total <= 0) return
+    setCheckout({ key: Date.now(), lines: cart, total })
+  }, [cart, total])
+
+  /**
+   * Record the sale. The payment is already queued by the time this runs (see
+   * NearbyFlow's onSettled), so a failure here is a bookkeeping gap the
+   * end-of-day report shows as a payment not from a checkout — never a reason
+   * to charge again.
+   */
+  const onSettled = useCallback(
+    (payment: SettledPayment) => {
+      if (!storage || !checkout) return
+      setCart([])
+      recordSale(storage, {
+        pendingId: payment.pendingId,
+        sessionId: Utils.toHex(Array.from(payment.sessionId)),
+        settledAt: new Date().toISOString(),
+        satoshis: payment.satoshis,
+        items: checkout.lines,
+        senderIdentityKey: payment.senderIdentityKey
+      })
+        .then(refreshToday)
+        .catch(e => {
+          console.warn('[pos] till write failed:', (e as Error)?.message)
+          showToast(t('pos_till_write_failed'), { type: 'error' })
+        })
+    },
+    [storage, checkout, refreshToday, t]
+  )
+
+  const exitCheckout = useCallback(() => {
+    setCheckout(null)
+    void refreshToday()
+  }, [refreshToday])
+
+  // ── End of day ──
+
+  const endOfDay = useCallback(async () => {
+    if (!storage || reconciling) return
+    setReconciling(true)
+    try {
+      const db = storage.sqliteDb
+      const retry = wallet
+        ? {
+            wallet,
+            originator: adminOriginator,
+            attribute: async (txid: string, info: { senderIdentityKey: string; receivedVia?: string }) => {
+              if (db) await updateOfflineAction(db, txid, info)
+            }
+          }
+        : undefined
+      setReport(await reconcileDay(storage, dayOf(new Date()), retry))
+      void refreshToday()
+    } catch (e) {
+      console.warn('[pos] reconciliation failed:', (e as Error)?.message)
+      showToast(t('pos_report_failed'), { type: 'error' })
+    } finally {
+      setReconciling(false)
+    }
+  }, [storage, wallet, adminOriginator, reconciling, refreshToday, t])
+
+  const shareReport = useCallback(async () => {
+    if (!report) return
+    const choice = await showAlert({
+      title: t('pos_report_share_title'),
+      buttons: [
+        { text: t('cancel'), key: 'cancel', style: 'cancel' },
+        { text: t('pos_report_print'), key: 'print' },
+        { text: 'CSV', key: 'csv' }
+      ]
+    })
+    try {
+      if (choice === 'print') await printTillReport(report)
+      else if (choice === 'csv') await exportTillReportFile(report)
+    } catch (e) {
+      // A dismissed print sheet rejects too; nothing was lost either way.
+      console.log('[pos] report share did not complete:', (e as Error)?.message)
+    }
+  }, [report, t])
+
+  // ── Render ──
+
+  const header = (title: string, onBack: () => void, trailing?: React.ReactNode) => (
+    <View style={[styles.header, { borderBottomColor: colors.separator }]}>
+      <TouchableOpacity onPress={onBack} style={styles.iconBtn}>
+        <Ionicons name="chevron-back" size={24} color={colors.textSecondary} />
+      </TouchableOpacity>
+      <Text style={[styles.headerTitle, { color: colors.textPrimary }]}>{title}</Text>
+      <View style={styles.iconBtn}>{trailing}</View>
+    </View>
+  )
+
+  if (checkout) {
+    return (
+      <View style={[styles.container, { backgroundColor: colors.background, paddingTop: insets.top }]}>
+        {header(t('pos_checkout_title', { amount: formatSatoshis(checkout.total) }), exitCheckout)}
+        <NearbyFlow
+          key={checkout.key}
+          role="payee"
+          amount={checkout.total}
+          onSettled={onSettled}
+          onExit={exitCheckout}
+        />
+      </View>
+    )
+  }
+
+  if (report) {
+    const failed = report.sales.filter(s => s.status === 'failed' || s.status === 'missing')
+    return (
+      <View style={[styles.container, { backgroundColor: colors.backgroundSecondary, paddingTop: insets.top }]}>
+        {header(
+          t('pos_report_title', { day: report.day }),
+          () => setReport(null),
+          <TouchableOpacity onPress={() => void shareReport()}>
+            <Ionicons name="share-outline" size={22} color={colors.accent} />
+          </TouchableOpacity>
+        )}
+        <ScrollView contentContainerStyle={styles.content}>
+          <GroupedSection header={t('pos_report_totals')} footer={t('pos_report_totals_footer')}>
+            <ListRow
+              label={t('pos_report_sales', { count: report.totals.count })}
+              value={formatSatoshis(report.totals.satoshis)}
+              showChevron={false}
+            />
+            {(['credited', 'queued', 'failed', 'missing'] as const).map((k, idx, all) => (
+              <ListRow
+                key={k}
+                label={t(`pos_status_${k}`)}
+                value={formatSatoshis(report.totals[k])}
+                showChevron={false}
+                isLast={idx === all.length - 1}
+              />
+            ))}
+          </GroupedSection>
+
+          {report.items.length > 0 && (
+            <GroupedSection header={t('pos_report_items')}>
+              {report.items.map((item, idx) => (
+                <ListRow
+                  key={item.name}
+                  label={`${item.quantity} × ${item.name}`}
+                  value={formatSatoshis(item.satoshis)}
+                  showChevron={false}
+                  isLast={idx === report.items.length - 1}
+                />
+              ))}
+            </GroupedSection>
+          )}
+
+          {failed.length > 0 && (
+            <GroupedSection header={t('pos_report_attention')}>
+              {failed.map((s, idx) => (
+                <ListRow
+                  key={s.pendingId}
+                  label={`${new Date(s.settledAt).toLocaleTimeString()} · ${t(`pos_status_${s.status}`)}`}
+                  value={formatSatoshis(s.satoshis)}
+                  icon="alert-circle-outline"
+                  iconColor={colors.error}
+                  showChevron={false}
+                  onPress={
+                    s.failureReason
+                      ? () =>
+                          void showAlert({
+                            title: t(`pos_status_${s.status}`),
+                            message: s.failureReason,
+                            buttons: [{ text: t('vault_ok'), key: 'ok' }]
+                          })
+                      : undefined
+                  }
+                  isLast={idx === failed.length - 1}
+                />
+              ))}
+            </GroupedSection>
+          )}
+
+          {report.unmatched.length > 0 && (
+            <Text style={[styles.note, { color: colors.textSecondary }]}>
+              {t('pos_report_unmatched', { count: report.unmatched.length })}
+            </Text>
+          )}
+        </ScrollView>
+      </View>
+    )
+  }
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.backgroundSecondary, paddingTop: insets.top }]}>
+      {header(t('pos_title'), () => router.back())}
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        <GroupedSection header={t('pos_items')} footer={t('pos_items_footer')}>
+          {catalogue.map(item => (
+            <ListRow
+              key={item.name}
+              label={item.name}
+              value={formatSatoshis(item.unitPrice)}
+              icon="pricetag-outline"
+              iconColor="#FF9F0A"
+              showChevron={false}
+              onPress={() => addToCart(item)}
+              trailing={
+                <TouchableOpacity onPress={() => void removeItem(item)} hitSlop={8}>
+                  <Ionicons name="trash-outline" size={18} color={colors.textTertiary} />
+                </TouchableOpacity>
+              }
+            />
+          ))}
+          {editing ? (
+            <View style={styles.editor}>
+              <TextInput
+                style={[styles.input, { color: colors.textPrimary, borderColor: colors.separator }]}
+                value={newName}
+                onChangeText={setNewName}
+                placeholder={t('pos_item_name')}
+                placeholderTextColor={colors.textSecondary}
+                autoFocus
+              />
+              <TextInput
+                style={[styles.input, { color: colors.textPrimary, borderColor: colors.separator }]}
+                value={newPrice}
+                onChangeText={setNewPrice}
+                placeholder={t('pos_item_price')}
+                placeholderTextColor={colors.textSecondary}
+                keyboardType="number-pad"
+                returnKeyType="done"
+                onSubmitEditing={() => void addItem()}
+              />
+              <TouchableOpacity
+                style={[styles.button, { backgroundColor: colors.accent }]}
+                onPress={() => void addItem()}
+                activeOpacity={0.7}
+              >
+                <Text style={[styles.buttonText, { color: colors.textOnAccent }]}>{t('pos_item_add')}</Text>
+              </TouchableOpacity>
+            </View>
+          ) : (
+            <ListRow
+              label={t('pos_item_new')}
+              icon="add-circle-outline"
+              iconColor={colors.accent}
+              showChevron={false}
+              onPress={() => setEditing(true)}
+              isLast
+            />
+          )}
+        </GroupedSection>
+
+        <GroupedSection header={t('pos_cart')}>
+          {cart.length === 0 ? (
+            <ListRow label={t('pos_cart_empty')} showChevron={false} isLast />
+          ) : (
+            cart.map((line, idx) => (
+              <ListRow
+                key={`${line.name}:${line.unitPrice}`}
+                label={`${line.quantity} × ${line.name}`}
+                value={formatSatoshis(line.unitPrice * line.quantity)}
+                showChevron={false}
+                onPress={() => removeFromCart(idx)}
+                trailing={<Ionicons name="remove-circle-outline" size={18} color={colors.textTertiary} />}
+                isLast={idx === cart.length - 1}
+              />
+            ))
+          )}
+        </GroupedSection>
+
+        <View style={styles.chargeWrap}>
+          <TouchableOpacity
+            style={[styles.button, { backgroundColor: total > 0 ? colors.accent : colors.separator }]}
+            onPress={charge}
+            disabled={total <= 0 || !storage}
+            activeOpacity={0.7}
+            accessibilityRole="button"
+            accessibilityState={{ disabled: total <= 0 || !storage }}
+          >
+            <Text style={[styles.buttonText, { color: colors.textOnAccent }]}>
+              {total > 0 ? t('pos_charge', { amount: formatSatoshis(total) }) : t('pos_charge_empty')}
+            </Text>
+          </TouchableOpacity>
+        </View>
+
+        <GroupedSection header={t('pos_today')}>
+          <ListRow
+            label={t('pos_report_sales', { count: today.count })}
+            value={formatSatoshis(today.satoshis)}
+            icon="cash-outline"
+            iconColor={colors.success}
+            showChevron={false}
+          />
+          <ListRow
+            label={t('pos_end_of_day')}
+            icon="document-text-outline"
+            iconColor="#5856D6"
+            onPress={() => void endOfDay()}
+            showChevron={!reconciling}
+            trailing={reconciling ? <ActivityIndicator size="small" /> : undefined}
+            isLast
+          />
+        </GroupedSection>
+
+        <OfflineChannels />
+      </ScrollView>
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1 },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.md,
+    borderBottomWidth: StyleSheet.hairlineWidth
+  },
+  iconBtn: { width: 44, height: 44, alignItems: 'center', justifyContent: 'center' },
+  headerTitle: { ...typography.headline, fontWeight: '600', flex: 1, textAlign: 'center' },
+  content: { paddingTop: spacing.lg, paddingBottom: spacing.xxxl },
+  editor: { padding: spacing.lg, gap: spacing.sm },
+  input: {
+    ...typography.body,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderRadius: radii.md,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm
+  },
+  button: { borderRadius: radii.md, paddingVertical: spacing.md, alignItems: 'center', justifyContent: 'center' },
+  buttonText: { ...typography.body, fontWeight: '600' },
+  chargeWrap: { paddingHorizontal: spacing.lg, paddingBottom: spacing.xl },
+  note: { ...typography.footnote, paddingHorizontal: spacing.xl, paddingTop: spacing.sm }
+})
@@ -121,6 +121,12 @@ export default function SettingsScreen() {
             iconColor={colors.success}
             onPress={() => router.push('/pay')}
           />
+          <ListRow
+            label={t('pos_row')}
+            icon="storefront-outline"
+            iconColor="#FF9F0A"
+            onPress={() => router.push('/pos' as any)}
+          />
           <ListRow
             label={t('vault_row_title')}
             icon="safe"
@@ -0,0 +1,340 @@
+import React, { useCallback, useContext, useEffect, useState } from 'react'
+import { ActivityIndicator, View, Text, TextInput, TouchableOpacity, StyleSheet, ScrollView } from 'react-native'
+import { router } from 'expo-router'
+import { Ionicons } from '@expo/vector-icons'
+import { useSafeAreaInsets } from 'react-native-safe-area-context'
+import { useTranslation } from 'react-i18next'
+import { useTheme } from '@/context/theme/ThemeContext'
+import { spacing, typography } from '@/context/theme/tokens'
+import { GroupedSection } from '@/components/ui/GroupedList'
+import { ListRow } from '@/components/ui/ListRow'
+import { showAlert } from '@/components/ui/AlertCard'
+import { showToast } from '@/components/ui/Toast'
+import { useWallet } from '@/context/WalletContext'
+import { ExchangeRateContext } from '@/context/ExchangeRateContext'
+import { formatAmount, parseDisplayToSatoshis, getUnitLabel } from '@/utils/amountFormatHelpers'
+import {
+  getBudgets,
+  remainingBudget,
+  revokeOriginSpending,
+  setBudget,
+  type BudgetRegistry
+} from '@/utils/spending/budgets'
+import { loadSpendingLedger, type OriginSpending } from '@/utils/spending/ledger'
+
+interface Row {
+  origin: string
+  budget: BudgetRegistry[string] | null
+  spent: OriginSpending | null
+}
+
+/** Budgeted origins first, then everyone else by what they spent this month. */
+function buildRows(budgets: BudgetRegistry, ledger: Map<string, OriginSpending>): Row[] {
+  const origins = new Set([...Object.keys(budgets), ...ledger.keys()])
+  return [...origins]
+    .map(origin => ({ origin, budget: budgets[origin] ?? null, spent: ledger.get(origin) ?? null }))
+    .sort(
+      (a, b) =>
+        Number(!!b.budget) - Number(!!a.budget) ||
+        (b.spent?.thisMonth ?? 0) - (a.spent?.thisMonth ?? 0) ||
+        a.origin.localeCompare(b.origin)
+    )
+}
+
+export default function SpendingBudgetsScreen() {
+  const { colors } = useTheme()
+  const { t } = useTranslation()
+  const insets = useSafeAreaInsets()
+  const { managers, adminOriginator, settings } = useWallet()
+  const { satoshisPerUSD } = useContext(ExchangeRateContext)
+  const currency = settings?.currency || 'BSV'
+
+  const [rows, setRows] = useState<Row[] | null>(null)
+  const [expanded, setExpanded] = useState<string | null>(null)
+  const [dailyInput, setDailyInput] = useState('')
+  const [monthlyInput, setMonthlyInput] = useState('')
+  const [busy, setBusy] = useState(false)
+
+  const load = useCallback(async () => {
+    const budgets = await getBudgets()
+    let ledger = new Map<string, OriginSpending>()
+    if (managers.permissionsManager) {
+      try {
+        ledger = await loadSpendingLedger(managers.permissionsManager, adminOriginator)
+      } catch (e) {
+        console.warn('[spending-budgets] ledger load failed:', e)
+      }
+    }
+    setRows(buildRows(budgets, ledger))
+  }, [managers.permissionsManager, adminOriginator])
+
+  useEffect(() => {
+    void load()
+  }, [load])
+
+  const fmt = useCallback(
+    (sats: number) => formatAmount(sats, currency, satoshisPerUSD),
+    [currency, satoshisPerUSD]
+  )
+
+  // Inputs are in the display currency, like Auto Spend Up To. Blank = no cap.
+  const toInput = (sats: number | null) =>
+    sats === null ? '' : currency === 'USD' && satoshisPerUSD > 0 ? (sats / satoshisPerUSD).toFixed(2) : String(sats)
+  const fromInput = (text: string) =>
+    text.trim() === '' ? null : Math.max(0, Math.round(parseDisplayToSatoshis(text, currency, satoshisPerUSD)))
+
+  const toggle = (row: Row) => {
+    if (expanded === row.origin) {
+      setExpanded(null)
+      return
+    }
+    setDailyInput(toInput(row.budget?.daily ?? null))
+    setMonthlyInput(toInput(row.budget?.monthly ?? null))
+    setExpanded(row.origin)
+  }
+
+  const summary = (row: Row): string => {
+    const spent = { today: row.spent?.today ?? 0, thisMonth: row.spent?.thisMonth ?? 0 }
+    const left = remainingBudget(row.budget, spent)
+    if (left.daily !== null) return t('spending_budget_left_today', { amount: fmt(left.daily) })
+    if (left.monthly !== null) return t('spending_budget_left_month', { amount: fmt(left.monthly) })
+    return t('spending_budget_spent_month', { amount: fmt(spent.thisMonth) })
+  }
+
+  async function handleSave(origin: string) {
+    setBusy(true)
+    try {
+      await setBudget(origin, { daily: fromInput(dailyInput), monthly: fromInput(monthlyInput) })
+      setExpanded(null)
+      await load()
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  async function handleRevoke(origin: string) {
+    const choice = await showAlert({
+      title: t('spending_budget_revoke_title'),
+      message: t('spending_budget_revoke_body', { origin }),
+      buttons: [
+        { text: t('cancel'), style: 'cancel', key: 'cancel' },
+        { text: t('spending_budget_revoke'), style: 'destructive', key: 'revoke' }
+      ]
+    })
+    if (choice !== 'revoke' || !managers.permissionsManager) return
+    setBusy(true)
+    try {
+      const count = await revokeOriginSpending(managers.permissionsManager, origin)
+      showToast(t('spending_budget_revoked', { count }), { type: 'success' })
+      setExpanded(null)
+      await load()
+    } catch (err) {
+      showToast(`${t('spending_budget_revoke_failed')}: ${err instanceof Error ? err.message : t('unknown_error')}`, {
+        type: 'error'
+      })
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const unit = getUnitLabel(currency)
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.backgroundSecondary, paddingTop: insets.top }]}>
+      <View style={[styles.header, { borderBottomColor: colors.separator }]}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.headerButton}>
+          <Ionicons name="chevron-back" size={24} color={colors.textSecondary} />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: colors.textPrimary }]}>{t('spending_budgets')}</Text>
+        <View style={styles.headerButton} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.scrollContent} keyboardShouldPersistTaps="handled">
+        {rows === null ? (
+          <ActivityIndicator style={{ marginTop: spacing.xxxl }} />
+        ) : rows.length === 0 ? (
+          <View style={styles.empty}>
+            <Ionicons name="wallet-outline" size={48} color={colors.textSecondary} style={{ marginBottom: spacing.md }} />
+            <Text style={[styles.emptyTitle, { color: colors.textPrimary }]}>{t('spending_budgets_empty')}</Text>
+            <Text style={[styles.emptySubtitle, { color: colors.textSecondary }]}>
+              {t('spending_budgets_empty_subtitle')}
+            </Text>
+          </View>
+        ) : (
+          <GroupedSection header={t('spending_budgets_sites')} footer={t('spending_budgets_footer')}>
+            {rows.map((row, idx) => {
+              const open = expanded === row.origin
+              return (
+                <React.Fragment key={row.origin}>
+                  <ListRow
+                    label={row.origin}
+                    value={summary(row)}
+                    icon={row.budget ? 'speedometer-outline' : 'globe-outline'}
+                    iconColor={row.budget ? '#FF9F0A' : colors.textTertiary}
+                    onPress={() => toggle(row)}
+                    showChevron={open}
+                    chevronDown={open}
+                    isLast={idx === rows.length - 1 && !open}
+                  />
+                  {open && (
+                    <View style={styles.editor}>
+                      <Text style={[styles.inputLabel, { color: colors.textSecondary }]}>
+                        {t('spending_budget_daily')}
+                      </Text>
+                      <View style={styles.inputRow}>
+                        <TextInput
+                          style={[styles.input, { color: colors.textPrimary, borderColor: colors.separator }]}
+                          value={dailyInput}
+                          onChangeText={setDailyInput}
+                          keyboardType="numeric"
+                          placeholder={t('spending_budget_no_limit')}
+                          placeholderTextColor={colors.textSecondary}
+                          returnKeyType="done"
+                        />
+                        <Text style={[styles.inputUnit, { color: colors.textSecondary }]}>{unit}</Text>
+                      </View>
+                      <Text style={[styles.inputLabel, { color: colors.textSecondary }]}>
+                        {t('spending_budget_monthly')}
+                      </Text>
+                      <View style={styles.inputRow}>
+                        <TextInput
+                          style={[styles.input, { color: colors.textPrimary, borderColor: colors.separator }]}
+                          value={monthlyInput}
+                          onChangeText={setMonthlyInput}
+                          keyboardType="numeric"
+                          placeholder={t('spending_budget_no_limit')}
+                          placeholderTextColor={colors.textSecondary}
+                          returnKeyType="done"
+                        />
+                        <Text style={[styles.inputUnit, { color: colors.textSecondary }]}>{unit}</Text>
+                      </View>
+                      {row.spent && (
+                        <Text style={[styles.spentNote, { color: colors.textSecondary }]}>
+                          {t('spending_budget_spent_detail', {
+                            today: fmt(row.spent.today),
+                            month: fmt(row.spent.thisMonth)
+                          })}
+                        </Text>
+                      )}
+                      <View style={styles.buttonRow}>
+                        <TouchableOpacity
+                          style={[styles.button, { backgroundColor: colors.backgroundTertiary }]}
+                          onPress={() => void handleRevoke(row.origin)}
+                          disabled={busy}
+                          activeOpacity={0.7}
+                        >
+                          <Text style={{ ...typography.body, color: colors.error }}>{t('spending_budget_revoke')}</Text>
+                        </TouchableOpacity>
+                        <TouchableOpacity
+                          style={[styles.button, { backgroundColor: colors.accent }]}
+                          onPress={() => void handleSave(row.origin)}
+                          disabled={busy}
+                          activeOpacity={0.7}
+                        >
+                          {busy ? (
+                            <ActivityIndicator size="small" color={colors.textOnAccent} />
+                          ) : (
+                            <Text style={{ ...typography.body, color: colors.textOnAccent, fontWeight: '600' }}>
+                              {t('save')}
+                            </Text>
+                          )}
+                        </TouchableOpacity>
+                      </View>
+                    </View>
+                  )}
+                </React.Fragment>
+              )
+            })}
+          </GroupedSection>
+        )}
+      </ScrollView>
+    </View>
+  )
+}
+
+// ── Styles ─────────────────────────────────────────────────────────────────────
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.md,
+    borderBottomWidth: StyleSheet.hairlineWidth
+  },
+  headerButton: {
+    width: 44,
+    height: 44,
+    alignItems: 'center',
+    justifyContent: 'center'
+  },
+  headerTitle: {
+    ...typography.headline,
+    fontWeight: '600'
+  },
+  scrollContent: {
+    paddingTop: spacing.xxl,
+    paddingBottom: spacing.xxxl,
+    flexGrow: 1
+  },
+  empty: {
+    alignItems: 'center',
+    paddingTop: 80,
+    paddingHorizontal: spacing.xxxl
+  },
+  emptyTitle: {
+    ...typography.headline,
+    marginBottom: spacing.sm
+  },
+  emptySubtitle: {
+    ...typography.subhead,
+    textAlign: 'center',
+    lineHeight: 20
+  },
+  editor: {
+    paddingHorizontal: spacing.lg,
+    paddingBottom: spacing.sm
+  },
+  inputLabel: {
+    ...typography.caption1,
+    paddingTop: spacing.md,
+    marginBottom: spacing.xs
+  },
+  inputRow: {
+    flexDirection: 'row',
+    alignItems: 'center'
+  },
+  input: {
+    flex: 1,
+    ...typography.body,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderRadius: 8,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm
+  },
+  inputUnit: {
+    ...typography.body,
+    marginLeft: spacing.sm
+  },
+  spentNote: {
+    ...typography.footnote,
+    paddingTop: spacing.md
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+    paddingTop: spacing.lg,
+    paddingBottom: spacing.sm
+  },
+  button: {
+    flex: 1,
+    borderRadius: 8,
+    paddingVertical: spacing.sm,
+    alignItems: 'center',
+    justifyContent: 'center'
+  }
+})
@@ -0,0 +1,177 @@
+/**
+ * Vault ledger — every vault movement on its own, out of the wallet's mixed
+ * activity list, with what authorized it.
+ *
+ * One row per deposit, withdrawal, hold, release, cancel or sweep; tapping a
+ * row shows the transaction and the ceremony behind it (key serials,
+ * transport, time) and any fee the vault set. Movements this device did not
+ * record — made elsewhere, or before the ledger existed — are listed without
+ * an authorization rather than left out. The share button exports the whole
+ * ledger, signed, as CSV or JSON (see services/vault/ledger.ts).
+ */
+import React, { useCallback, useEffect, useState } from 'react'
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, ActivityIndicator } from 'react-native'
+import { Ionicons } from '@expo/vector-icons'
+import { router } from 'expo-router'
+import { useSafeAreaInsets } from 'react-native-safe-area-context'
+import { useTheme } from '@/context/theme/ThemeContext'
+import { spacing, typography } from '@/context/theme/tokens'
+import { GroupedSection } from '@/components/ui/GroupedList'
+import { ListRow } from '@/components/ui/ListRow'
+import { showAlert } from '@/components/ui/AlertCard'
+import { showToast } from '@/components/ui/Toast'
+import { useWallet } from '@/context/WalletContext'
+import { loadVaultLedger, type VaultAuthorization, type VaultLedgerRow } from '@/services/vault/ledger'
+import type { VaultWallet } from '@/services/vault/transfers'
+import { formatReleaseTime } from '@/components/vault/DelayedWithdrawalWatcher'
+import { exportVaultLedgerFile } from '@/utils/exportVaultLedger'
+import i18n from '@/context/i18n/translations'
+
+const t = (k: string, o?: Record<string, unknown>) => i18n.t(k, o) as string
+
+const KIND_ICON: Record<VaultLedgerRow['kind'], React.ComponentProps<typeof Ionicons>['name']> = {
+  deposit: 'arrow-down-circle-outline',
+  withdraw: 'arrow-up-circle-outline',
+  hold: 'hourglass-outline',
+  release: 'checkmark-circle-outline',
+  cancel: 'return-down-back-outline',
+  sweep: 'medkit-outline',
+  unknown: 'help-circle-outline'
+}
+
+/** "YubiKey 1234 · NFC", "YubiKeys 1234 + 5678", "Passphrase key SW-…", "Recovery phrase", … */
+function authSummary(auth?: VaultAuthorization): string {
+  if (!auth) return t('vault_ledger_auth_unrecorded')
+  const serials = auth.serials.join(' + ')
+  if (auth.transport === 'software') return t('vault_ledger_auth_software', { serials })
+  const how =
+    auth.method === 'watch-only'
+      ? t('vault_ledger_auth_watch_only')
+      : auth.method === 'recovery'
+        ? t('vault_ledger_auth_recovery')
+        : auth.method === 'presigned'
+          ? t('vault_ledger_auth_presigned', { serials })
+          : t(auth.method === 'co-sign' ? 'vault_ledger_auth_co_sign' : 'vault_ledger_auth_key', { serials })
+  return auth.transport ? `${how} · ${t(`vault_ledger_transport_${auth.transport}`)}` : how
+}
+
+export default function VaultLedgerScreen() {
+  const { colors } = useTheme()
+  const insets = useSafeAreaInsets()
+  const { managers, adminOriginator } = useWallet()
+
+  const [rows, setRows] = useState<VaultLedgerRow[] | null>(null)
+  const [exporting, setExporting] = useState(false)
+
+  const load = useCallback(async () => {
+    const pm = managers?.permissionsManager
+    if (!pm) return
+    try {
+      setRows(await loadVaultLedger(pm as unknown as VaultWallet, adminOriginator))
+    } catch (e) {
+      console.log('[vault] ledger load failed:', (e as Error)?.message)
+      showToast(t('vault_ledger_load_failed'), { type: 'error' })
+      setRows([])
+    }
+  }, [managers?.permissionsManager, adminOriginator])
+
+  useEffect(() => {
+    void load()
+  }, [load])
+
+  const openRow = (r: VaultLedgerRow) => {
+    const lines = [
+      t('vault_ledger_detail_txid', { txid: r.txid }),
+      t('vault_ledger_detail_auth', { auth: authSummary(r.auth) }),
+      r.auth ? t('vault_ledger_detail_at', { time: formatReleaseTime(r.auth.at) }) : null,
+      r.fee != null ? t('vault_ledger_detail_fee', { fee: r.fee }) : null,
+      r.status ? t('vault_ledger_detail_status', { status: r.status }) : null
+    ]
+    void showAlert({
+      title: t(`vault_ledger_kind_${r.kind}`),
+      message: lines.filter(Boolean).join('\n'),
+      buttons: [{ text: t('vault_ok'), key: 'ok' }]
+    })
+  }
+
+  const runExport = async () => {
+    const pm = managers?.permissionsManager
+    if (!pm || exporting) return
+    const choice = await showAlert({
+      title: t('vault_ledger_export_title'),
+      message: t('vault_ledger_export_message'),
+      buttons: [
+        { text: t('cancel'), key: 'cancel', style: 'cancel' },
+        { text: 'CSV', key: 'csv' },
+        { text: 'JSON', key: 'json' }
+      ]
+    })
+    if (choice !== 'csv' && choice !== 'json') return
+    setExporting(true)
+    try {
+      const count = await exportVaultLedgerFile(pm as unknown as VaultWallet, adminOriginator, choice)
+      if (count === 0) showToast(t('vault_ledger_empty'), { type: 'info' })
+    } catch (e) {
+      console.log('[vault] ledger export failed:', (e as Error)?.message)
+      showToast(t('vault_ledger_export_failed'), { type: 'error' })
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.backgroundSecondary, paddingTop: insets.top }]}>
+      <View style={[styles.header, { borderBottomColor: colors.separator }]}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.iconBtn}>
+          <Ionicons name="chevron-back" size={24} color={colors.textSecondary} />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: colors.textPrimary }]}>{t('vault_ledger_title')}</Text>
+        <TouchableOpacity onPress={runExport} style={styles.iconBtn} disabled={exporting || !rows?.length}>
+          {exporting ? (
+            <ActivityIndicator size="small" />
+          ) : (
+            <Ionicons name="share-outline" size={22} color={rows?.length ? colors.accent : colors.textTertiary} />
+          )}
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        {rows === null ? (
+          <ActivityIndicator style={{ marginTop: spacing.xxxl }} />
+        ) : rows.length === 0 ? (
+          <Text style={[styles.empty, { color: colors.textSecondary }]}>{t('vault_ledger_empty')}</Text>
+        ) : (
+          <GroupedSection footer={t('vault_ledger_footer')}>
+            {rows.map((r, idx) => (
+              <ListRow
+                key={r.txid}
+                label={t('vault_ledger_row', { kind: t(`vault_ledger_kind_${r.kind}`), amount: r.satoshis })}
+                value={authSummary(r.auth)}
+                icon={KIND_ICON[r.kind]}
+                iconColor={r.auth ? colors.accent : colors.textTertiary}
+                onPress={() => openRow(r)}
+                isLast={idx === rows.length - 1}
+              />
+            ))}
+          </GroupedSection>
+        )}
+      </ScrollView>
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1 },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.md,
+    borderBottomWidth: StyleSheet.hairlineWidth
+  },
+  iconBtn: { width: 44, height: 44, alignItems: 'center', justifyContent: 'center' },
+  headerTitle: { ...typography.headline },
+  content: { paddingTop: spacing.lg, paddingBottom: spacing.xxxl },
+  empty: { ...typography.subhead, textAlign: 'center', padding: spacing.xl }
+})
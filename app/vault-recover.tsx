@@ -13,11 +13,16 @@
  * key (transfers.ts's prepareSpends), and the resulting
  * VaultError('wrong-key') is mapped below to the passphrase copy the user
  * actually needs to see.
+ *
+ * With a `cancel` param (a delayed withdrawal's txid) the same passphrase
+ * instead sends that one held withdrawal back into the vault — the recovery
+ * route for a cancel, for when no second key is at hand — and leaves the vault
+ * enrolled.
  */
 import React, { useCallback, useState } from 'react'
 import { View, Text, StyleSheet, TextInput, ScrollView, ActivityIndicator, TouchableOpacity } from 'react-native'
 import { Ionicons } from '@expo/vector-icons'
-import { router } from 'expo-router'
+import { router, useLocalSearchParams } from 'expo-router'
 import { useSafeAreaInsets } from 'react-native-safe-area-context'
 import { useTheme } from '@/context/theme/ThemeContext'
 import { spacing, radii, typography } from '@/context/theme/tokens'
@@ -27,7 +32,8 @@ import { haptics } from '@/hooks/useHaptics'
 import { useWallet } from '@/context/WalletContext'
 import { useLocalStorage } from '@/context/LocalStorageProvider'
 import { disableVault, recoverVaultHD } from '@/services/vault/VaultKeyService'
-import { sweepVaultWithHD, type VaultWallet } from '@/services/vault/transfers'
+import { cancelDelayedWithdrawalWithHD, sweepVaultWithHD, type VaultWallet } from '@/services/vault/transfers'
+import { getOnline } from '@/utils/net/online'
 import { VaultError } from '@/services/vault/types'
 import i18n from '@/context/i18n/translations'
 
@@ -38,6 +44,7 @@ export default function VaultRecoverScreen() {
   const insets = useSafeAreaInsets()
   const { managers, adminOriginator } = useWallet()
   const { getMnemonic } = useLocalStorage()
+  const { cancel } = useLocalSearchParams<{ cancel?: string }>()
 
   const [passphrase, setPassphrase] = useState('')
   const [busy, setBusy] = useState(false)
@@ -53,6 +60,22 @@ export default function VaultRecoverScreen() {
       if (!mnemonic) throw new VaultError('bad-mnemonic', t('vault_requires_mnemonic'))
       const hd = await recoverVaultHD(mnemonic, passphrase)
 
+      if (cancel) {
+        await cancelDelayedWithdrawalWithHD(
+          pm as unknown as VaultWallet,
+          adminOriginator,
+          cancel,
+          hd,
+          t('vault_pending_cancel_reason'),
+          { isOnline: getOnline }
+        )
+        haptics.success()
+        showToast(t('vault_pending_cancelled_toast'), { type: 'success' })
+        setPassphrase('')
+        router.back()
+        return
+      }
+
       // sweepVaultWithHD caps at VAULT_MAX_INPUTS per call (see transfers.ts) and
       // reports how many vault outputs it left behind. A vault holding more than
       // that cap needs several sweeps, so repeat until either call reports
@@ -94,7 +117,7 @@ export default function VaultRecoverScreen() {
     } finally {
       setBusy(false)
     }
-  }, [passphrase, managers?.permissionsManager, adminOriginator, getMnemonic])
+  }, [passphrase, managers?.permissionsManager, adminOriginator, getMnemonic, cancel])
 
   const canRun = passphrase.length > 0
 
@@ -104,12 +127,16 @@ export default function VaultRecoverScreen() {
         <TouchableOpacity onPress={() => router.back()} style={styles.iconBtn}>
           <Ionicons name="chevron-back" size={24} color={colors.textSecondary} />
         </TouchableOpacity>
-        <Text style={[styles.headerTitle, { color: colors.textPrimary }]}>{t('vault_recover_title')}</Text>
+        <Text style={[styles.headerTitle, { color: colors.textPrimary }]}>
+          {t(cancel ? 'vault_recover_cancel_title' : 'vault_recover_title')}
+        </Text>
         <View style={styles.iconBtn} />
       </View>
 
       <ScrollView contentContainerStyle={styles.body} keyboardShouldPersistTaps="handled">
-        <Text style={[styles.sub, { color: colors.textSecondary }]}>{t('vault_recover_sub')}</Text>
+        <Text style={[styles.sub, { color: colors.textSecondary }]}>
+          {t(cancel ? 'vault_recover_cancel_sub' : 'vault_recover_sub')}
+        </Text>
 
         <Text style={[styles.label, { color: colors.textPrimary }]}>{t('vault_recover_passphrase_label')}</Text>
         <Text style={[styles.fine, { color: colors.textSecondary }]}>{t('vault_recover_passphrase_help')}</Text>
@@ -142,7 +169,7 @@ export default function VaultRecoverScreen() {
             <ActivityIndicator color={colors.textOnAccent} />
           ) : (
             <Text style={[styles.primaryLabel, { color: canRun ? colors.textOnAccent : colors.textTertiary }]}>
-              {t('vault_recover_cta')}
+              {t(cancel ? 'vault_recover_cancel_cta' : 'vault_recover_cta')}
             </Text>
           )}
         </PressableScale>
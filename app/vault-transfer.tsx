@@ -31,6 +31,7 @@ import { useWallet } from '@/context/WalletContext'
 import { useVaultBalance } from '@/hooks/useVaultBalance'
 import AmountDisplay from '@/components/wallet/AmountDisplay'
 import { depositToVault, withdrawFromVault, type VaultWallet } from '@/services/vault/transfers'
+import { formatReleaseTime } from '@/components/vault/DelayedWithdrawalWatcher'
 import { getOnline } from '@/utils/net/online'
 import { VaultError } from '@/services/vault/types'
 import { haptics } from '@/hooks/useHaptics'
@@ -82,15 +83,20 @@ export default function VaultTransferScreen() {
     try {
       const w = pm as unknown as VaultWallet
       if (isDeposit) {
-        await depositToVault(w, adminOriginator, sats, t('vault_deposit_reason', { amount: sats }), {
+        const result = await depositToVault(w, adminOriginator, sats, t('vault_deposit_reason', { amount: sats }), {
           isOnline: getOnline,
           // A failed tx2 leaves its staging coin spendable=0 even though it is
           // live on chain (see VaultTransferOptions.releaseStrandedStaging);
           // this lets the retry reuse that coin instead of splitting again.
           releaseStrandedStaging: storage ? () => storage.releaseVaultStagingStrandedByInvalidTx() : undefined
         })
-        // vaultOpen/haptic already fired by the ceremony's onArmed
-        showToast(t('vault_deposit_done'), { type: 'success' })
+        // vaultOpen/haptic already fired by the ceremony's onArmed (a
+        // watch-only deposit has no ceremony, and warns as its pool runs low)
+        if (result.watchPool?.low) {
+          showToast(t('vault_watch_low_toast', { count: result.watchPool.remaining }), { type: 'info' })
+        } else {
+          showToast(t('vault_deposit_done'), { type: 'success' })
+        }
       } else {
         const result = await withdrawFromVault(
           w,
@@ -101,7 +107,8 @@ export default function VaultTransferScreen() {
             // Lets the reservation heal find the reserving transaction with one
             // indexed query instead of paging every action in the wallet.
             findSpendingReferences: storage ? outpoints => storage.findSpendingReferences(outpoints) : undefined,
-            isOnline: getOnline
+            isOnline: getOnline,
+            secondKeyReason: t('vault_cosign_second_reason')
           }
         )
         // vaultOpen/haptic already fired by the ceremony's onArmed
@@ -109,10 +116,14 @@ export default function VaultTransferScreen() {
         // A capped withdrawal is partial by design (see VAULT_MAX_INPUTS), so
         // say so rather than letting the balance look wrong: the vault still
         // holds the untouched outputs, and repeating the withdrawal moves them.
+        //
+        // A delayed withdrawal has not reached the balance yet; say when it will.
         showToast(
-          result.remainingInputs > 0
-            ? t('vault_withdraw_partial', { count: result.remainingInputs })
-            : t('vault_withdraw_done'),
+          result.delayed
+            ? t('vault_withdraw_delayed', { time: formatReleaseTime(result.delayed.releaseAt) })
+            : result.remainingInputs > 0
+              ? t('vault_withdraw_partial', { count: result.remainingInputs })
+              : t('vault_withdraw_done'),
           { type: 'success' }
         )
       }
@@ -2,14 +2,20 @@
  * The Vault screen.
  *
  * Not enrolled → a hero explainer and the enrollment wizard.
- * Enrolled → the vault balance, deposit/withdraw actions, the key card, and a
- * recovery/disable overflow.
+ * Enrolled → the vault balance, deposit/withdraw actions, the enrolled keys
+ * (add a further YubiKey, remove a lost one), the two-key co-sign policy, the
+ * withdrawal delay with any withdrawals it is holding, watch-only deposits
+ * (the pre-derived address pool and what it verifies), and a manage overflow:
+ * the vault ledger (app/vault-ledger.tsx), recovery, and disable.
  *
- * Feature-gated: when no YubiKey-capable driver is present (and not a dev
- * build) the screen explains the requirement rather than offering enrollment.
+ * Feature-gated: when no vault driver is present — no YubiKey reader and
+ * nowhere to keep a software key (services/vault/softwareKey.ts) — and this
+ * is not a dev build, the screen explains the requirement rather than
+ * offering enrollment. A phone with a reader still offers the software key to
+ * users who have no YubiKey.
  */
 import React, { useEffect, useState, useCallback } from 'react'
-import { View, Text, StyleSheet, ScrollView, TouchableOpacity, ActivityIndicator } from 'react-native'
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, ActivityIndicator, TextInput } from 'react-native'
 import { Ionicons, MaterialCommunityIcons } from '@expo/vector-icons'
 import { router } from 'expo-router'
 import { useSafeAreaInsets } from 'react-native-safe-area-context'
@@ -21,9 +27,32 @@ import PressableScale from '@/components/ui/PressableScale'
 import AmountDisplay from '@/components/wallet/AmountDisplay'
 import { EnrollWizard } from '@/components/vault/EnrollWizard'
 import { useVaultBalance } from '@/hooks/useVaultBalance'
-import { vaultStore, VaultMeta } from '@/services/vault/vaultStore'
-import { getVaultDriver } from '@/services/vault/driver'
-import { disableVault } from '@/services/vault/VaultKeyService'
+import { useDelayedWithdrawals } from '@/hooks/useDelayedWithdrawals'
+import { useWallet } from '@/context/WalletContext'
+import { enrolledKeys, vaultStore, VaultKeyRecord, VaultMeta } from '@/services/vault/vaultStore'
+import { chooseSoftwareVaultKey, getVaultDriver } from '@/services/vault/driver'
+import { softwareVaultKey } from '@/services/vault/softwareKey'
+import {
+  disableVault,
+  disableWatchOnly,
+  fillWatchPool,
+  removeVaultKey,
+  setCoSignPolicy,
+  setWithdrawalDelay
+} from '@/services/vault/VaultKeyService'
+import { VAULT_COSIGN_MIN_KEYS } from '@/services/vault/coSign'
+import { DelayedWithdrawal, releaseDue, VAULT_DELAY_HOURS_OPTIONS } from '@/services/vault/delayedWithdrawals'
+import { VAULT_WATCH_POOL_SIZE, VaultWatchPool, watchPoolStatus, watchPoolStore } from '@/services/vault/watchOnly'
+import {
+  cancelDelayedWithdrawal,
+  releaseDelayedWithdrawal,
+  verifyWatchedVault,
+  type VaultWallet,
+  type WatchedVaultBalance
+} from '@/services/vault/transfers'
+import { formatReleaseTime } from '@/components/vault/DelayedWithdrawalWatcher'
+import { getOnline } from '@/utils/net/online'
+import { VaultError } from '@/services/vault/types'
 import { showAlert } from '@/components/ui/AlertCard'
 import { showToast } from '@/components/ui/Toast'
 import { haptics } from '@/hooks/useHaptics'
@@ -31,40 +60,289 @@ import i18n from '@/context/i18n/translations'
 
 const t = (k: string, o?: Record<string, unknown>) => i18n.t(k, o) as string
 
+/** A vault error's own copy when it has one, else the generic line. */
+function vaultErrorText(e: unknown): string {
+  if (!(e instanceof VaultError)) return t('vault_err_generic')
+  const key = `vault_err_${e.code.replace(/-/g, '_')}`
+  const translated = t(key)
+  return translated === key ? t('vault_err_generic') : translated
+}
+
 export default function VaultScreen() {
   const { colors } = useTheme()
   const insets = useSafeAreaInsets()
   const { balance, loading, refresh } = useVaultBalance()
+  const { holds, now, refresh: refreshHolds } = useDelayedWithdrawals()
+  const { managers, adminOriginator } = useWallet()
   const [enrolled, setEnrolled] = useState<boolean | null>(null)
   const [meta, setMeta] = useState<VaultMeta | null>(null)
   const [enrolling, setEnrolling] = useState(false)
+  const [addingKey, setAddingKey] = useState(false)
+  const [coSignExpanded, setCoSignExpanded] = useState(false)
+  const [coSignInput, setCoSignInput] = useState('')
+  const [coSignSaving, setCoSignSaving] = useState(false)
+  const [delayExpanded, setDelayExpanded] = useState(false)
+  const [delayInput, setDelayInput] = useState('')
+  const [delaySaving, setDelaySaving] = useState(false)
+  const [watchPool, setWatchPool] = useState<VaultWatchPool | null>(null)
+  const [watched, setWatched] = useState<WatchedVaultBalance | null>(null)
+  const [watchBusy, setWatchBusy] = useState(false)
+
+  const keys = meta ? enrolledKeys(meta) : []
+  const coSign = meta?.coSign
+  const delay = meta?.withdrawalDelay
+  const watchStatus = watchPool ? watchPoolStatus(watchPool) : null
 
-  const supported = getVaultDriver()?.isSupported() ?? false
+  const driver = getVaultDriver()
+  const supported = driver?.isSupported() ?? false
+  const software = driver?.software === true
 
   const reload = useCallback(async () => {
-    const [e, m] = await Promise.all([vaultStore.isEnrolled(), vaultStore.getMeta()])
+    const [e, m, pool] = await Promise.all([vaultStore.isEnrolled(), vaultStore.getMeta(), watchPoolStore.get()])
     setEnrolled(e)
     setMeta(m)
+    setWatchPool(pool)
   }, [])
 
   useEffect(() => {
     reload()
   }, [reload])
 
+  // Re-checked whenever the balance moves: a deposit just drew from the pool.
+  useEffect(() => {
+    const pm = managers?.permissionsManager
+    if (!pm || !watchPool) {
+      setWatched(null)
+      return
+    }
+    verifyWatchedVault(pm as unknown as VaultWallet, adminOriginator)
+      .then(setWatched)
+      .catch(() => {
+        /* keep the last check on a transient failure */
+      })
+  }, [managers?.permissionsManager, adminOriginator, watchPool, balance])
+
   const onEnrolled = useCallback(async () => {
     setEnrolling(false)
+    setAddingKey(false)
     await reload()
     refresh()
   }, [reload, refresh])
 
+  const confirmRemoveKey = useCallback(
+    async (key: VaultKeyRecord) => {
+      if (keys.length === 1) {
+        await showAlert({
+          title: t('vault_key_remove_title', { name: key.nickname }),
+          message: t('vault_err_last_key'),
+          buttons: [{ text: t('vault_ok'), key: 'ok' }]
+        })
+        return
+      }
+      const choice = await showAlert({
+        title: t('vault_key_remove_title', { name: key.nickname }),
+        message: t(coSign ? 'vault_key_remove_message_cosign' : 'vault_key_remove_message', {
+          serial: key.yubiSerial
+        }),
+        buttons: [
+          { text: t('vault_key_remove_confirm'), key: 'confirm', style: 'destructive' },
+          { text: t('vault_cancel'), key: 'cancel', style: 'cancel' }
+        ]
+      })
+      if (choice !== 'confirm') return
+      try {
+        await removeVaultKey(key.yubiSerial, t('vault_cosign_approve_reason'), t('vault_cosign_second_reason'))
+        haptics.warning()
+        showToast(t('vault_key_removed_toast', { name: key.nickname }), { type: 'info' })
+      } catch (e) {
+        haptics.error()
+        showToast(vaultErrorText(e), { type: 'error' })
+      }
+      await reload()
+    },
+    [keys.length, coSign, reload]
+  )
+
+  const applyCoSign = useCallback(
+    async (above: number | null) => {
+      if (above !== null && !(Number.isSafeInteger(above) && above > 0)) {
+        showToast(t('vault_cosign_invalid'), { type: 'error' })
+        return
+      }
+      setCoSignSaving(true)
+      try {
+        await setCoSignPolicy(above, t('vault_cosign_approve_reason'), t('vault_cosign_second_reason'))
+        haptics.success()
+        showToast(above === null ? t('vault_cosign_off_toast') : t('vault_cosign_on_toast', { amount: above }), {
+          type: 'success'
+        })
+        setCoSignExpanded(false)
+      } catch (e) {
+        haptics.error()
+        showToast(vaultErrorText(e), { type: 'error' })
+      } finally {
+        setCoSignSaving(false)
+        await reload()
+      }
+    },
+    [reload]
+  )
+
+  const applyDelay = useCallback(
+    async (hours: number | null) => {
+      if (hours !== null && !(Number.isSafeInteger(hours) && hours > 0)) {
+        showToast(t('vault_delay_invalid'), { type: 'error' })
+        return
+      }
+      setDelaySaving(true)
+      try {
+        await setWithdrawalDelay(hours, t('vault_delay_approve_reason'), t('vault_cosign_second_reason'))
+        haptics.success()
+        showToast(hours === null ? t('vault_delay_off_toast') : t('vault_delay_on_toast', { count: hours }), {
+          type: 'success'
+        })
+        setDelayExpanded(false)
+      } catch (e) {
+        haptics.error()
+        showToast(vaultErrorText(e), { type: 'error' })
+      } finally {
+        setDelaySaving(false)
+        await reload()
+      }
+    },
+    [reload]
+  )
+
+  const holdStatus = (d: DelayedWithdrawal): string => {
+    if (releaseDue(d, now)) return t('vault_pending_due')
+    const minutes = Math.ceil((d.releaseAt - now) / 60_000)
+    return t('vault_pending_remaining', { hours: Math.floor(minutes / 60), minutes: minutes % 60 })
+  }
+
+  // A hold past its window offers the release first; either way the way back
+  // into the vault is a key other than the one that approved it, or the
+  // recovery phrase (see services/vault/delayedWithdrawals.ts).
+  const openHold = useCallback(
+    async (d: DelayedWithdrawal) => {
+      const pm = managers?.permissionsManager
+      if (!pm) return
+      const w = pm as unknown as VaultWallet
+      const title = t('vault_pending_title', { amount: d.satoshis })
+
+      if (releaseDue(d) && d.release) {
+        const choice = await showAlert({
+          title,
+          message: t('vault_pending_message_due'),
+          buttons: [
+            { text: t('vault_pending_release'), key: 'release' },
+            { text: t('vault_pending_cancel'), key: 'send-back' },
+            { text: t('vault_cancel'), key: 'close', style: 'cancel' }
+          ]
+        })
+        if (choice === 'release') {
+          try {
+            await releaseDelayedWithdrawal(w, adminOriginator, d.txid, { isOnline: getOnline })
+            haptics.success()
+            showToast(t('vault_pending_released_toast', { amount: d.release.satoshis }), { type: 'success' })
+          } catch (e) {
+            haptics.error()
+            showToast(e instanceof VaultError ? vaultErrorText(e) : t('vault_pending_release_failed'), {
+              type: 'error'
+            })
+          }
+          refreshHolds()
+          return
+        }
+        if (choice !== 'send-back') return
+      }
+
+      const otherKey = keys.some(k => k.yubiSerial !== d.approvedBy)
+      const how = await showAlert({
+        title,
+        message: d.release
+          ? t('vault_pending_message', { time: formatReleaseTime(d.releaseAt) })
+          : t('vault_pending_message_unsigned'),
+        buttons: [
+          ...(otherKey ? [{ text: t('vault_pending_cancel_key'), key: 'key' }] : []),
+          { text: t('vault_pending_cancel_recovery'), key: 'recovery' },
+          { text: t('vault_cancel'), key: 'close', style: 'cancel' as const }
+        ]
+      })
+      if (how === 'recovery') {
+        router.push(`/vault-recover?cancel=${d.txid}`)
+        return
+      }
+      if (how !== 'key') return
+      try {
+        await cancelDelayedWithdrawal(w, adminOriginator, d.txid, t('vault_pending_cancel_reason'), {
+          isOnline: getOnline
+        })
+        haptics.success()
+        showToast(t('vault_pending_cancelled_toast'), { type: 'success' })
+        refresh()
+      } catch (e) {
+        haptics.error()
+        showToast(vaultErrorText(e), { type: 'error' })
+      }
+      refreshHolds()
+    },
+    [managers?.permissionsManager, adminOriginator, keys, refresh, refreshHolds]
+  )
+
+  const topUpWatch = useCallback(async () => {
+    setWatchBusy(true)
+    try {
+      const added = await fillWatchPool(t('vault_watch_fill_reason'))
+      haptics.success()
+      showToast(added > 0 ? t('vault_watch_filled_toast', { count: added }) : t('vault_watch_full_toast'), {
+        type: 'success'
+      })
+    } catch (e) {
+      haptics.error()
+      showToast(vaultErrorText(e), { type: 'error' })
+    } finally {
+      setWatchBusy(false)
+      await reload()
+    }
+  }, [reload])
+
+  const confirmWatchOn = useCallback(async () => {
+    const choice = await showAlert({
+      title: t('vault_watch_on_title'),
+      message: t('vault_watch_on_message', { count: VAULT_WATCH_POOL_SIZE }),
+      buttons: [
+        { text: t('vault_watch_on_confirm'), key: 'confirm' },
+        { text: t('vault_cancel'), key: 'cancel', style: 'cancel' }
+      ]
+    })
+    if (choice === 'confirm') await topUpWatch()
+  }, [topUpWatch])
+
+  const confirmWatchOff = useCallback(async () => {
+    const choice = await showAlert({
+      title: t('vault_watch_off_title'),
+      message: t('vault_watch_off_message'),
+      buttons: [
+        { text: t('vault_watch_turn_off'), key: 'confirm', style: 'destructive' },
+        { text: t('vault_cancel'), key: 'cancel', style: 'cancel' }
+      ]
+    })
+    if (choice !== 'confirm') return
+    await disableWatchOnly()
+    haptics.warning()
+    showToast(t('vault_watch_off_toast'), { type: 'info' })
+    await reload()
+  }, [reload])
+
   const confirmDisable = useCallback(async () => {
     // Refuse to disable while funds remain: there IS a seal (disableVault's
     // vaultStore.clear deletes it along with the meta), and disabling before
     // a sweep would leave any vault UTXO reachable only the slow way — the
     // main mnemonic + vault passphrase, via the recovery sweep — with no more
     // in-app YubiKey ceremony to reach it directly. Force a withdrawal (or
-    // recovery sweep) first.
-    if ((balance ?? 0) > 0) {
+    // recovery sweep) first. An open delayed withdrawal counts: its cancel
+    // pays back into the vault.
+    if ((balance ?? 0) > 0 || holds.length > 0) {
       await showAlert({
         title: t('vault_disable_blocked_title'),
         message: t('vault_disable_blocked_message'),
@@ -85,7 +363,7 @@ export default function VaultScreen() {
     haptics.warning()
     showToast(t('vault_disabled_toast'), { type: 'info' })
     await reload()
-  }, [balance, reload])
+  }, [balance, holds.length, reload])
 
   const Header = (
     <View style={[styles.header, { borderBottomColor: colors.separator }]}>
@@ -97,37 +375,47 @@ export default function VaultScreen() {
     </View>
   )
 
-  // ── unsupported device ───────────────────────────────────────────────
-  if (!supported && !__DEV__) {
+  if (enrolled === null) {
     return (
       <View style={[styles.container, { backgroundColor: colors.backgroundSecondary, paddingTop: insets.top }]}>
         {Header}
         <View style={styles.centered}>
-          <Ionicons name="hardware-chip-outline" size={48} color={colors.textTertiary} />
-          <Text style={[styles.h2, { color: colors.textPrimary }]}>{t('vault_unsupported_title')}</Text>
-          <Text style={[styles.p, { color: colors.textSecondary }]}>{t('vault_unsupported_body')}</Text>
+          <ActivityIndicator color={colors.accent} />
         </View>
       </View>
     )
   }
 
-  if (enrolled === null) {
+  // ── unsupported device ───────────────────────────────────────────────
+  // After the load: which driver applies depends on what the vault is sealed
+  // to, and that is only known once the meta has been read.
+  if (!supported && !__DEV__) {
     return (
       <View style={[styles.container, { backgroundColor: colors.backgroundSecondary, paddingTop: insets.top }]}>
         {Header}
         <View style={styles.centered}>
-          <ActivityIndicator color={colors.accent} />
+          <Ionicons name="hardware-chip-outline" size={48} color={colors.textTertiary} />
+          <Text style={[styles.h2, { color: colors.textPrimary }]}>{t('vault_unsupported_title')}</Text>
+          <Text style={[styles.p, { color: colors.textSecondary }]}>{t('vault_unsupported_body')}</Text>
         </View>
       </View>
     )
   }
 
   // ── enrollment wizard ────────────────────────────────────────────────
-  if (enrolling) {
+  if (enrolling || addingKey) {
     return (
       <View style={[styles.container, { backgroundColor: colors.backgroundSecondary, paddingTop: insets.top }]}>
         {Header}
-        <EnrollWizard onDone={onEnrolled} onCancel={() => setEnrolling(false)} />
+        <EnrollWizard
+          mode={addingKey ? 'add-key' : 'enroll'}
+          onDone={onEnrolled}
+          onCancel={() => {
+            chooseSoftwareVaultKey(false)
+            setEnrolling(false)
+            setAddingKey(false)
+          }}
+        />
       </View>
     )
   }
@@ -144,7 +432,9 @@ export default function VaultScreen() {
             <MaterialCommunityIcons name="safe" size={40} color={colors.textSecondary} />
           </View>
           <Text style={[styles.h1, { color: colors.textPrimary }]}>{t('vault_hero_title')}</Text>
-          <Text style={[styles.p, { color: colors.textSecondary }]}>{t('vault_hero_body')}</Text>
+          <Text style={[styles.p, { color: colors.textSecondary }]}>
+            {software ? t('vault_hero_body_software') : t('vault_hero_body')}
+          </Text>
           <PressableScale
             haptic="confirm"
             onPress={() => setEnrolling(true)}
@@ -152,6 +442,17 @@ export default function VaultScreen() {
           >
             <Text style={[styles.primaryLabel, { color: colors.textOnAccent }]}>{t('vault_enroll_begin')}</Text>
           </PressableScale>
+          {/* A phone that reads YubiKeys still may not have one to read. */}
+          {!software && softwareVaultKey() && (
+            <TouchableOpacity
+              onPress={() => {
+                chooseSoftwareVaultKey(true)
+                setEnrolling(true)
+              }}
+            >
+              <Text style={[styles.p, { color: colors.accent }]}>{t('vault_software_choose')}</Text>
+            </TouchableOpacity>
+          )}
         </ScrollView>
       </View>
     )
@@ -201,25 +502,244 @@ export default function VaultScreen() {
           </PressableScale>
         </View>
 
-        <GroupedSection header={t('vault_key_section')}>
+        {holds.length > 0 && (
+          <GroupedSection header={t('vault_pending_section')} footer={t('vault_pending_footer')}>
+            {holds.map((d, i) => (
+              <ListRow
+                key={d.txid}
+                label={t('vault_pending_row', { amount: d.satoshis })}
+                value={holdStatus(d)}
+                icon="hourglass-outline"
+                iconColor={colors.warning ?? colors.accent}
+                onPress={() => openHold(d)}
+                isLast={i === holds.length - 1}
+              />
+            ))}
+          </GroupedSection>
+        )}
+
+        <GroupedSection
+          header={keys.length > 1 ? t('vault_keys_section') : t('vault_key_section')}
+          footer={t('vault_keys_footer')}
+        >
+          {keys.map((key, idx) => (
+            <ListRow
+              key={key.yubiSerial}
+              label={key.nickname}
+              value={key.yubiSerial}
+              icon={software ? 'key' : 'hardware-chip'}
+              iconColor={colors.accent}
+              onPress={() => confirmRemoveKey(key)}
+              showChevron={false}
+              isLast={software && idx === keys.length - 1}
+            />
+          ))}
+          {/* A software key is this device's only key: there is no second
+              card to enroll beside it. */}
+          {!software && (
+            <ListRow
+              label={t('vault_add_key_row')}
+              icon="add-circle-outline"
+              iconColor={colors.permissionSpending}
+              onPress={() => setAddingKey(true)}
+              isLast
+            />
+          )}
+        </GroupedSection>
+
+        <GroupedSection
+          header={t('vault_cosign_section')}
+          footer={t('vault_cosign_footer', { count: VAULT_COSIGN_MIN_KEYS })}
+        >
           <ListRow
-            label={t('vault_key_nickname')}
-            value={meta?.nickname}
-            icon="hardware-chip"
-            iconColor={colors.accent}
-            showChevron={false}
+            label={t('vault_cosign_row')}
+            value={coSign ? t('vault_cosign_above', { amount: coSign.above }) : t('vault_off')}
+            icon="people-outline"
+            iconColor={colors.info ?? colors.accent}
+            onPress={() => {
+              if (!coSign && keys.length < VAULT_COSIGN_MIN_KEYS) {
+                showToast(t('vault_err_co_sign_needs_keys'), { type: 'info' })
+                return
+              }
+              setCoSignInput(coSign ? String(coSign.above) : '')
+              setCoSignExpanded(e => !e)
+            }}
+            showChevron={coSignExpanded}
+            chevronDown={coSignExpanded}
+            isLast={!coSignExpanded}
           />
+          {coSignExpanded && (
+            <View style={styles.editor}>
+              <Text style={[styles.editorLabel, { color: colors.textSecondary }]}>{t('vault_cosign_threshold')}</Text>
+              <TextInput
+                style={[styles.editorInput, { color: colors.textPrimary, borderColor: colors.separator }]}
+                value={coSignInput}
+                onChangeText={setCoSignInput}
+                placeholder="1000000"
+                placeholderTextColor={colors.textSecondary}
+                keyboardType="number-pad"
+                returnKeyType="done"
+              />
+              <View style={styles.editorButtons}>
+                {coSign && (
+                  <TouchableOpacity
+                    style={[styles.editorButton, { backgroundColor: colors.backgroundTertiary }]}
+                    onPress={() => applyCoSign(null)}
+                    disabled={coSignSaving}
+                    activeOpacity={0.7}
+                  >
+                    <Text style={{ ...typography.body, color: colors.textSecondary }}>{t('vault_cosign_turn_off')}</Text>
+                  </TouchableOpacity>
+                )}
+                <TouchableOpacity
+                  style={[styles.editorButton, { backgroundColor: colors.accent }]}
+                  onPress={() => applyCoSign(Number(coSignInput.trim()))}
+                  disabled={coSignSaving}
+                  activeOpacity={0.7}
+                >
+                  {coSignSaving ? (
+                    <ActivityIndicator size="small" color={colors.textOnAccent} />
+                  ) : (
+                    <Text style={{ ...typography.body, color: colors.textOnAccent, fontWeight: '600' }}>
+                      {t('vault_cosign_save')}
+                    </Text>
+                  )}
+                </TouchableOpacity>
+              </View>
+            </View>
+          )}
+        </GroupedSection>
+
+        <GroupedSection header={t('vault_delay_section')} footer={t('vault_delay_footer')}>
           <ListRow
-            label={t('vault_key_serial')}
-            value={meta?.yubiSerial}
-            icon="finger-print"
-            iconColor={colors.permissionSpending}
-            showChevron={false}
-            isLast
+            label={t('vault_delay_row')}
+            value={delay ? t('vault_delay_hours', { count: delay.hours }) : t('vault_off')}
+            icon="time-outline"
+            iconColor={colors.info ?? colors.accent}
+            onPress={() => {
+              setDelayInput(delay ? String(delay.hours) : String(VAULT_DELAY_HOURS_OPTIONS[0]))
+              setDelayExpanded(e => !e)
+            }}
+            showChevron={delayExpanded}
+            chevronDown={delayExpanded}
+            isLast={!delayExpanded}
           />
+          {delayExpanded && (
+            <View style={styles.editor}>
+              <Text style={[styles.editorLabel, { color: colors.textSecondary }]}>{t('vault_delay_input_label')}</Text>
+              <TextInput
+                style={[styles.editorInput, { color: colors.textPrimary, borderColor: colors.separator }]}
+                value={delayInput}
+                onChangeText={setDelayInput}
+                placeholder={String(VAULT_DELAY_HOURS_OPTIONS[0])}
+                placeholderTextColor={colors.textSecondary}
+                keyboardType="number-pad"
+                returnKeyType="done"
+              />
+              <View style={styles.editorButtons}>
+                {delay && (
+                  <TouchableOpacity
+                    style={[styles.editorButton, { backgroundColor: colors.backgroundTertiary }]}
+                    onPress={() => applyDelay(null)}
+                    disabled={delaySaving}
+                    activeOpacity={0.7}
+                  >
+                    <Text style={{ ...typography.body, color: colors.textSecondary }}>{t('vault_delay_turn_off')}</Text>
+                  </TouchableOpacity>
+                )}
+                <TouchableOpacity
+                  style={[styles.editorButton, { backgroundColor: colors.accent }]}
+                  onPress={() => applyDelay(Number(delayInput.trim()))}
+                  disabled={delaySaving}
+                  activeOpacity={0.7}
+                >
+                  {delaySaving ? (
+                    <ActivityIndicator size="small" color={colors.textOnAccent} />
+                  ) : (
+                    <Text style={{ ...typography.body, color: colors.textOnAccent, fontWeight: '600' }}>
+                      {t('vault_delay_save')}
+                    </Text>
+                  )}
+                </TouchableOpacity>
+              </View>
+            </View>
+          )}
+        </GroupedSection>
+
+        <GroupedSection
+          header={t('vault_watch_section')}
+          footer={
+            watchStatus?.low
+              ? t('vault_watch_footer_low', { count: watchStatus.remaining })
+              : t('vault_watch_footer')
+          }
+        >
+          {!watchPool || !watchStatus ? (
+            <ListRow
+              label={t('vault_watch_row')}
+              value={t('vault_off')}
+              icon="eye-outline"
+              iconColor={colors.info ?? colors.accent}
+              onPress={watchBusy ? undefined : confirmWatchOn}
+              isLast
+            />
+          ) : (
+            <>
+              <ListRow
+                label={t('vault_watch_row')}
+                value={t('vault_watch_remaining', { count: watchStatus.remaining })}
+                icon="eye-outline"
+                iconColor={watchStatus.low ? colors.warning : (colors.info ?? colors.accent)}
+                showChevron={false}
+              />
+              {watched && (
+                <ListRow
+                  label={
+                    watched.mismatched.length > 0
+                      ? t('vault_watch_mismatch', { count: watched.mismatched.length })
+                      : t('vault_watch_verified')
+                  }
+                  value={t('vault_watch_verified_value', { amount: watched.verified })}
+                  icon={watched.mismatched.length > 0 ? 'alert-circle-outline' : 'checkmark-circle-outline'}
+                  iconColor={watched.mismatched.length > 0 ? colors.error : colors.success}
+                  showChevron={false}
+                />
+              )}
+              {watched && watched.forged.length > 0 && (
+                <ListRow
+                  label={t('vault_watch_forged', { count: watched.forged.length })}
+                  icon="alert-circle-outline"
+                  iconColor={colors.error}
+                  showChevron={false}
+                />
+              )}
+              {watchPool.batches.map(b => (
+                <ListRow
+                  key={b.from}
+                  label={t('vault_watch_batch', { from: b.from, to: b.from + b.count - 1 })}
+                  value={new Date(b.at).toLocaleDateString()}
+                  icon="list-outline"
+                  showChevron={false}
+                />
+              ))}
+              <ListRow
+                label={t('vault_watch_top_up')}
+                icon="add-circle-outline"
+                iconColor={colors.accent}
+                onPress={watchBusy ? undefined : topUpWatch}
+              />
+              <ListRow label={t('vault_watch_turn_off')} onPress={confirmWatchOff} destructive isLast />
+            </>
+          )}
         </GroupedSection>
 
         <GroupedSection header={t('vault_manage_section')}>
+          <ListRow
+            label={t('vault_ledger_open')}
+            icon="list-outline"
+            iconColor={colors.accent}
+            onPress={() => router.push('/vault-ledger')}
+          />
           <ListRow
             label={t('vault_recover_row')}
             icon="medkit-outline"
@@ -301,5 +821,22 @@ const styles = StyleSheet.create({
     borderRadius: radii.md,
     paddingVertical: spacing.lg
   },
-  actionLabel: { ...typography.headline }
+  actionLabel: { ...typography.headline },
+  editor: { paddingHorizontal: spacing.lg, paddingTop: spacing.md, gap: spacing.xs },
+  editorLabel: { ...typography.caption1 },
+  editorInput: {
+    ...typography.body,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderRadius: 8,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm
+  },
+  editorButtons: { flexDirection: 'row', gap: spacing.sm, paddingTop: spacing.md, paddingBottom: spacing.md },
+  editorButton: {
+    flex: 1,
+    borderRadius: 8,
+    paddingVertical: spacing.sm,
+    alignItems: 'center',
+    justifyContent: 'center'
+  }
 })
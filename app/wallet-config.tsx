@@ -31,10 +31,27 @@ import { importWalletDatabase } from '@/utils/importDatabases'
 import { PrivateKey } from '@bsv/sdk'
 import { printRecoveryShares } from '@/utils/printRecoveryShares'
 import { recordBackupAttestation } from '@/services/vault/backupAttestation'
-import { isBackupPushEnabled, setBackupPushEnabled } from '@/utils/backup/preference'
+import {
+  isBackupPushEnabled,
+  isLiveSyncEnabled,
+  setBackupPushEnabled,
+  setLiveSyncEnabled
+} from '@/utils/backup/preference'
+import { getDeviceId } from '@/utils/backup/deviceId'
+import type { PeerSyncState } from '@/utils/backup/sync'
 import { eraseRemoteBackup } from '@/utils/backup/erase'
+import { BackupClient, BackupServerIdentityError, pinServerIdentity, verifyServerIdentity } from '@/utils/backup/client'
+import {
+  getBackupEndpoint,
+  normalizeBackupOrigin,
+  resetBackupEndpoint,
+  setBackupEndpoint,
+  type BackupEndpoint
+} from '@/utils/backup/endpoint'
+import { migrateBackupLog } from '@/utils/backup/migrate'
 import { recoverMnemonicWallet } from '@/utils/mnemonicWallet'
 import { TaskBackupPush } from '@/utils/monitor/TaskBackupPush'
+import { TaskBackupSync } from '@/utils/monitor/TaskBackupSync'
 import { DEFAULT_BACKUP_URL } from '@/context/config'
 import { useSafeAreaInsets } from 'react-native-safe-area-context'
 
@@ -53,7 +70,7 @@ export default function WalletConfigScreen() {
     updateSettings
   } = useWallet()
   const { isWeb2Mode } = useBrowserMode()
-  const { getMnemonic, getRecoveredKey } = useLocalStorage()
+  const { getMnemonic, getRecoveredKey, rotateKey } = useLocalStorage()
   const insets = useSafeAreaInsets()
 
   const [isPrinting, setIsPrinting] = useState(false)
@@ -65,7 +82,17 @@ export default function WalletConfigScreen() {
   const [vaultMockOn, setVaultMockOn] = useState(false)
   const [backupPushOn, setBackupPushOn] = useState(true)
   const [erasingBackup, setErasingBackup] = useState(false)
+  const [liveSyncOn, setLiveSyncOn] = useState(false)
+  const [syncPeers, setSyncPeers] = useState<PeerSyncState[]>(TaskBackupSync.peers)
+  const [thisDeviceId, setThisDeviceId] = useState('')
+  const [backupEndpoint, setBackupEndpointState] = useState<BackupEndpoint>({ url: DEFAULT_BACKUP_URL })
+  const [serverExpanded, setServerExpanded] = useState(false)
+  const [serverUrlInput, setServerUrlInput] = useState('')
+  const [serverKeyInput, setServerKeyInput] = useState('')
+  const [serverBusy, setServerBusy] = useState<string | null>(null)
+  const [serverLimits, setServerLimits] = useState<{ maxBlobBytes: number; storedBytes: number } | null>(null)
   const [storageBusy, setStorageBusy] = useState(false)
+  const [rotatingKey, setRotatingKey] = useState(false)
   const [currencyExpanded, setCurrencyExpanded] = useState(false)
   const [thresholdExpanded, setThresholdExpanded] = useState(false)
   const [thresholdSats, setThresholdSats] = useState(DEFAULT_AUTO_APPROVE_THRESHOLD)
@@ -91,6 +118,46 @@ export default function WalletConfigScreen() {
     isBackupPushEnabled().then(setBackupPushOn)
   }, [])
 
+  // Which server backups go to: the build's default, or one the user verified.
+  useEffect(() => {
+    getBackupEndpoint().then(endpoint => {
+      setBackupEndpointState(endpoint)
+      setServerUrlInput(endpoint.serverIdentityKey != null ? endpoint.url : '')
+      setServerKeyInput(endpoint.serverIdentityKey ?? '')
+    })
+  }, [])
+  const backupOn = backupEndpoint.url !== ''
+  const formatMb = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(1)} MB`
+
+  // Live sync is opt-in, and the per-device rows follow the sync task as it runs.
+  useEffect(() => {
+    if (!backupOn) return
+    isLiveSyncEnabled().then(setLiveSyncOn)
+    getDeviceId().then(setThisDeviceId)
+    setSyncPeers(TaskBackupSync.peers)
+    return TaskBackupSync.subscribe(() => setSyncPeers(TaskBackupSync.peers))
+  }, [backupOn])
+
+  /**
+   * Toggle merging the other devices' logs into this one. Not confirmed either way: turning
+   * it off only stops reading, and turning it back on resumes from each peer's saved cursor.
+   */
+  const handleToggleLiveSync = useCallback(async () => {
+    const next = !liveSyncOn
+    await setLiveSyncEnabled(next)
+    setLiveSyncOn(next)
+    if (next) TaskBackupSync.requestNow()
+    showToast(next ? t('backup_sync_on_toast') : t('backup_sync_off_toast'), { type: 'info' })
+  }, [liveSyncOn, t])
+
+  const peerSyncStatus = (peer: PeerSyncState): string => {
+    if (peer.lastError != null) return t('backup_sync_failed')
+    if (peer.lastSyncAt == null) return t('backup_sync_pending')
+    return t('backup_sync_synced_at', {
+      time: new Date(peer.lastSyncAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    })
+  }
+
   /**
    * Toggle pushing to the backup server.
    *
@@ -120,12 +187,21 @@ export default function WalletConfigScreen() {
   }, [backupPushOn, t])
 
   /**
-   * Erase the server's copy of this wallet's backup, on request (GDPR Article 17).
+   * The wallet's m/0'/0' key, which every backup request authenticates from.
    *
-   * The primary key is derived here, at the moment of use, from whichever secret this wallet
-   * has — the mnemonic, or the WIF for a wallet recovered from legacy shares. Both mirror
-   * what WalletContext derives for the push path, so both address the same pseudonym. It is
-   * deliberately not kept in a longer-lived place just to serve this button.
+   * Derived at the moment of use, from whichever secret this wallet has — the mnemonic, or
+   * the WIF for a wallet recovered from legacy shares. Both mirror what WalletContext derives
+   * for the push path, so both address the same pseudonym. It is deliberately not kept in a
+   * longer-lived place just to serve these buttons.
+   */
+  const derivePrimaryKey = useCallback(async (): Promise<number[] | null> => {
+    const mnemonic = await getMnemonic()
+    const wif = mnemonic ? null : await getRecoveredKey()
+    return mnemonic ? recoverMnemonicWallet(mnemonic).primaryKey : wif ? PrivateKey.fromWif(wif).toArray() : null
+  }, [getMnemonic, getRecoveredKey])
+
+  /**
+   * Erase the server's copy of this wallet's backup, on request (GDPR Article 17).
    *
    * eraseRemoteBackup turns pushing off before it deletes; see its module doc for why that
    * order matters. The switch below therefore reads Off afterwards.
@@ -145,19 +221,13 @@ export default function WalletConfigScreen() {
 
     setErasingBackup(true)
     try {
-      const mnemonic = await getMnemonic()
-      const wif = mnemonic ? null : await getRecoveredKey()
-      const primaryKey = mnemonic
-        ? recoverMnemonicWallet(mnemonic).primaryKey
-        : wif
-          ? PrivateKey.fromWif(wif).toArray()
-          : null
+      const primaryKey = await derivePrimaryKey()
       if (primaryKey == null) {
         showToast(t('backup_erase_no_key'), { type: 'error' })
         return
       }
 
-      const { deleted } = await eraseRemoteBackup({ primaryKey, baseUrl: DEFAULT_BACKUP_URL })
+      const { deleted } = await eraseRemoteBackup({ primaryKey, baseUrl: backupEndpoint.url })
       setBackupPushOn(false)
       showToast(t('backup_erase_done', { count: deleted }), { type: 'success' })
     } catch (e) {
@@ -171,7 +241,119 @@ export default function WalletConfigScreen() {
     } finally {
       setErasingBackup(false)
     }
-  }, [erasingBackup, t, getMnemonic, getRecoveredKey])
+  }, [erasingBackup, t, derivePrimaryKey, backupEndpoint])
+
+  // What the server publishes about itself, and how much of it this wallet is using. Read
+  // only while the server row is open: the usage figure costs an authenticated request.
+  useEffect(() => {
+    if (!serverExpanded || !backupOn) return
+    let cancelled = false
+    setServerLimits(null)
+    ;(async () => {
+      const primaryKey = await derivePrimaryKey()
+      if (primaryKey == null) return
+      const client = new BackupClient(backupEndpoint.url, primaryKey)
+      const { maxBlobBytes } = await client.limits()
+      const storedBytes = (await client.manifest()).reduce((sum, d) => sum + d.totalBytes, 0)
+      if (!cancelled) setServerLimits({ maxBlobBytes, storedBytes })
+    })().catch(e => console.warn('[wallet-config] backup server limits failed:', e))
+    return () => {
+      cancelled = true
+    }
+  }, [serverExpanded, backupOn, backupEndpoint, derivePrimaryKey])
+
+  /**
+   * Point backups at a self-hosted server.
+   *
+   * Nothing is saved until the server has answered a fresh signed challenge — and, if the
+   * user pasted the key its operator gave them, answered it with that key. The user then
+   * chooses between starting over there (the next push finds no log and begins a new full
+   * generation) and copying every existing generation across first, so history older than
+   * the current generation survives the move.
+   */
+  const handleApplyBackupServer = useCallback(async () => {
+    if (serverBusy != null) return
+    let origin: string
+    try {
+      origin = normalizeBackupOrigin(serverUrlInput)
+    } catch {
+      showToast(t('backup_server_invalid_url'), { type: 'error' })
+      return
+    }
+
+    setServerBusy(t('backup_server_verifying'))
+    try {
+      const expected = serverKeyInput.trim() === '' ? undefined : serverKeyInput.trim()
+      const { serverIdentityKey } = await verifyServerIdentity(origin, expected)
+      const previous = backupEndpoint
+      const canCopy = previous.url !== '' && previous.url !== origin
+
+      const choice = await showAlert({
+        title: t('backup_server_verified_title'),
+        message: [
+          t('backup_server_verified_message', {
+            host: new URL(origin).host,
+            key: `${serverIdentityKey.slice(0, 8)}…${serverIdentityKey.slice(-8)}`
+          }),
+          ...(canCopy ? [t('backup_server_verified_copy')] : [])
+        ].join('\n\n'),
+        buttons: [
+          ...(canCopy ? [{ text: t('backup_server_copy_and_use'), key: 'copy' }] : []),
+          { text: t('backup_server_use'), key: 'use' },
+          { text: t('cancel'), key: 'cancel', style: 'cancel' as const }
+        ]
+      })
+      if (choice !== 'copy' && choice !== 'use') return
+
+      if (choice === 'copy') {
+        const primaryKey = await derivePrimaryKey()
+        if (primaryKey == null) {
+          showToast(t('backup_erase_no_key'), { type: 'error' })
+          return
+        }
+        // Pinned before the copy, so the copy itself can only go to the server just verified.
+        pinServerIdentity(origin, serverIdentityKey)
+        const { copied } = await migrateBackupLog({
+          primaryKey,
+          from: previous.url,
+          to: origin,
+          onProgress: (chunks, total) => setServerBusy(t('backup_server_copying', { chunks, total }))
+        })
+        showToast(t('backup_server_copied', { count: copied }), { type: 'success' })
+      }
+
+      const next = { url: origin, serverIdentityKey }
+      await setBackupEndpoint(next)
+      setBackupEndpointState(next)
+      setServerKeyInput(serverIdentityKey)
+      setServerExpanded(false)
+      showToast(t('backup_server_saved', { host: new URL(origin).host }), { type: 'success' })
+      // The backup tasks exist only when the build started with a server to talk to.
+      if (previous.url === '') await rebuildWallet()
+      else TaskBackupPush.requestNow()
+    } catch (e) {
+      console.error('[wallet-config] backup server change failed:', e)
+      showToast(
+        e instanceof BackupServerIdentityError ? t('backup_server_identity_failed') : t('backup_server_failed'),
+        { type: 'error' }
+      )
+    } finally {
+      setServerBusy(null)
+    }
+  }, [serverBusy, serverUrlInput, serverKeyInput, backupEndpoint, derivePrimaryKey, rebuildWallet, t])
+
+  const handleResetBackupServer = useCallback(async () => {
+    if (serverBusy != null) return
+    const previous = backupEndpoint
+    await resetBackupEndpoint()
+    const next = await getBackupEndpoint()
+    setBackupEndpointState(next)
+    setServerUrlInput('')
+    setServerKeyInput('')
+    setServerExpanded(false)
+    showToast(next.url === '' ? t('backup_server_reset_off') : t('backup_server_reset'), { type: 'info' })
+    if ((previous.url === '') !== (next.url === '')) await rebuildWallet()
+  }, [serverBusy, backupEndpoint, rebuildWallet, t])
 
   /**
    * Show what the wallet database is using, and offer the one safe reclaim.
@@ -236,6 +418,39 @@ export default function WalletConfigScreen() {
     }
   }, [storageBusy, storage, managers, adminOriginator, t])
 
+  /**
+   * Re-seal the recovery phrase and key under a new device encryption key. The
+   * wallet itself does not change — no new phrase, nothing to back up again.
+   */
+  const handleRotateKey = useCallback(async () => {
+    if (rotatingKey) return
+    const choice = await showAlert({
+      title: t('rotate_key_title'),
+      message: t('rotate_key_message'),
+      buttons: [
+        { text: t('rotate_key_confirm'), key: 'confirm' },
+        { text: t('cancel'), key: 'cancel', style: 'cancel' }
+      ]
+    })
+    if (choice !== 'confirm') return
+
+    setRotatingKey(true)
+    try {
+      const result = await rotateKey()
+      if (result.outcome === 'failed') {
+        console.warn('[wallet-config] key rotation failed at', result.stage)
+        showToast(t(result.stage === 'locked' ? 'rotate_key_locked' : 'rotate_key_failed'), { type: 'error' })
+        return
+      }
+      showToast(t('rotate_key_done'), { type: 'success' })
+    } catch (e) {
+      console.error('[wallet-config] key rotation threw:', e)
+      showToast(t('rotate_key_failed'), { type: 'error' })
+    } finally {
+      setRotatingKey(false)
+    }
+  }, [rotatingKey, rotateKey, t])
+
   // Load persisted ARC URL + token for current network
   useEffect(() => {
     Promise.all([
@@ -674,6 +889,12 @@ export default function WalletConfigScreen() {
             iconColor="#BF5AF2"
             onPress={() => router.push('/trust' as any)}
           />
+          <ListRow
+            label={t('spending_budgets')}
+            icon="speedometer-outline"
+            iconColor="#FF9F0A"
+            onPress={() => router.push('/spending-budgets' as any)}
+          />
           <ListRow
             label={t('recovery_phrase')}
             icon="key-outline"
@@ -698,6 +919,14 @@ export default function WalletConfigScreen() {
             showChevron={false}
             trailing={isPrinting ? <ActivityIndicator size="small" /> : undefined}
           />
+          <ListRow
+            label={t('rotate_key_row')}
+            icon="refresh-circle-outline"
+            iconColor="#CC8400"
+            onPress={handleRotateKey}
+            showChevron={false}
+            trailing={rotatingKey ? <ActivityIndicator size="small" /> : undefined}
+          />
           <ListRow
             label={t('export_wallet_data')}
             icon="share-outline"
@@ -723,11 +952,107 @@ export default function WalletConfigScreen() {
           />
         </GroupedSection>
 
+        {/* ── Backup server ──
+            Always shown, even in a build with no default server: running your own is how
+            such a build gets backups at all. The current server's published limits and this
+            wallet's usage appear while the row is open. */}
+        <GroupedSection header={t('backup_server_section')} footer={t('backup_server_footer')}>
+          <ListRow
+            label={t('backup_server_row')}
+            value={
+              !backupOn
+                ? t('backup_server_none')
+                : backupEndpoint.serverIdentityKey != null
+                  ? new URL(backupEndpoint.url).host
+                  : t('backup_server_default')
+            }
+            icon="server-outline"
+            iconColor="#5E5CE6"
+            onPress={() => setServerExpanded(e => !e)}
+            showChevron={serverExpanded}
+            chevronDown={serverExpanded}
+            isLast={!serverExpanded}
+          />
+          {serverExpanded && backupOn && (
+            <>
+              <ListRow
+                label={t('backup_server_max_chunk')}
+                value={serverLimits ? formatMb(serverLimits.maxBlobBytes) : '…'}
+                icon="resize-outline"
+                iconColor="#8E8E93"
+                showChevron={false}
+              />
+              <ListRow
+                label={t('backup_server_stored')}
+                value={serverLimits ? formatMb(serverLimits.storedBytes) : '…'}
+                icon="archive-outline"
+                iconColor="#8E8E93"
+                showChevron={false}
+              />
+            </>
+          )}
+          {serverExpanded && (
+            <View style={localStyles.networkList}>
+              <View style={localStyles.arcInputRow}>
+                <Text style={[localStyles.arcLabel, { color: colors.textSecondary }]}>{t('backup_server_url')}</Text>
+                <TextInput
+                  style={[localStyles.arcInput, { color: colors.textPrimary, borderColor: colors.separator }]}
+                  value={serverUrlInput}
+                  onChangeText={setServerUrlInput}
+                  placeholder="https://backup.example.com"
+                  placeholderTextColor={colors.textSecondary}
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  keyboardType="url"
+                  returnKeyType="next"
+                />
+              </View>
+              <View style={localStyles.arcInputRow}>
+                <Text style={[localStyles.arcLabel, { color: colors.textSecondary }]}>{t('backup_server_key')}</Text>
+                <TextInput
+                  style={[localStyles.arcInput, { color: colors.textPrimary, borderColor: colors.separator }]}
+                  value={serverKeyInput}
+                  onChangeText={setServerKeyInput}
+                  placeholder={t('backup_server_key_placeholder')}
+                  placeholderTextColor={colors.textSecondary}
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  returnKeyType="done"
+                />
+              </View>
+              {serverBusy != null && (
+                <Text style={{ ...typography.caption1, color: colors.textSecondary, paddingTop: spacing.sm }}>
+                  {serverBusy}
+                </Text>
+              )}
+              <View style={localStyles.arcButtonRow}>
+                <TouchableOpacity
+                  style={[localStyles.arcButton, { backgroundColor: colors.backgroundTertiary }]}
+                  onPress={handleResetBackupServer}
+                  activeOpacity={0.7}
+                >
+                  <Text style={{ ...typography.body, color: colors.textSecondary }}>{t('arc_reset_default')}</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[localStyles.arcButton, { backgroundColor: colors.accent }]}
+                  onPress={handleApplyBackupServer}
+                  activeOpacity={0.7}
+                >
+                  {serverBusy != null
+                    ? <ActivityIndicator size="small" color={colors.textOnAccent} />
+                    : <Text style={{ ...typography.body, color: colors.textOnAccent, fontWeight: '600' }}>{t('backup_server_verify')}</Text>
+                  }
+                </TouchableOpacity>
+              </View>
+            </View>
+          )}
+        </GroupedSection>
+
         {/* ── Private backup ──
             Its own section purely so the footer can carry the disclosure: the app sends an
             encrypted copy of the wallet database to a BSVA-operated server by default, and
             that deserves saying out loud rather than burying in a row label. */}
-        {DEFAULT_BACKUP_URL !== '' && (
+        {backupOn && (
           <GroupedSection header={t('backup_push_section')} footer={t('backup_push_disclosure')}>
             <ListRow
               label={t('backup_push_toggle')}
@@ -737,6 +1062,12 @@ export default function WalletConfigScreen() {
               value={backupPushOn ? t('vault_on') : t('vault_off')}
               onPress={handleToggleBackupPush}
             />
+            <ListRow
+              label={t('backup_browser_row')}
+              icon="time-outline"
+              iconColor="#5856D6"
+              onPress={() => router.push('/backup-browser')}
+            />
             {/* Erasure on request. Separate from the toggle because they are different
                 asks: the toggle stops sending anything new, this removes what is already
                 there. Turning the toggle off deliberately deletes nothing. */}
@@ -753,6 +1084,48 @@ export default function WalletConfigScreen() {
           </GroupedSection>
         )}
 
+        {/* ── Sync between devices ──
+            One row per other device with a log, showing when this device last had
+            everything that device had published. Ids are shortened; they are random per
+            install and only need to tell a phone from a tablet. */}
+        {backupOn && (
+          <GroupedSection
+            header={t('backup_sync_section')}
+            footer={t('backup_sync_footer', { id: thisDeviceId.slice(0, 6) })}
+          >
+            <ListRow
+              label={t('backup_sync_toggle')}
+              icon="sync-outline"
+              iconColor="#30B0C7"
+              showChevron={false}
+              value={liveSyncOn ? t('vault_on') : t('vault_off')}
+              onPress={handleToggleLiveSync}
+              isLast={!liveSyncOn}
+            />
+            {liveSyncOn && syncPeers.length === 0 && (
+              <ListRow
+                label={t('backup_sync_no_devices')}
+                icon="phone-portrait-outline"
+                iconColor="#8E8E93"
+                showChevron={false}
+                isLast
+              />
+            )}
+            {liveSyncOn &&
+              syncPeers.map((peer, i) => (
+                <ListRow
+                  key={peer.deviceId}
+                  label={t('backup_sync_device', { id: peer.deviceId.slice(0, 6) })}
+                  icon="phone-portrait-outline"
+                  iconColor={peer.lastError != null ? colors.error : '#8E8E93'}
+                  showChevron={false}
+                  value={peerSyncStatus(peer)}
+                  isLast={i === syncPeers.length - 1}
+                />
+              ))}
+          </GroupedSection>
+        )}
+
         {/* ── Account ── */}
         <GroupedSection>
           <ListRow
@@ -46,12 +46,24 @@ import {
 } from '@/utils/amountFormatHelpers'
 import PressableScale from '@/components/ui/PressableScale'
 import ScreenGradient from '@/components/ui/ScreenGradient'
-import ActivityRow, { type ActivityAction } from '@/components/wallet/ActivityRow'
+import ActivityRow, { type ActivityAction, type RowRefund } from '@/components/wallet/ActivityRow'
 import { showToast } from '@/components/ui/Toast'
+import { showAlert } from '@/components/ui/AlertCard'
+import { useHandleRefund } from '@/components/pay/useHandleRefund'
 import { exportTransactionsAsCsv } from '@/utils/exportTransactions'
 import { findOfflineActions, type OfflineActionRow } from '@/storage/methods/offlineActions'
 import { readWalletBalance } from '@/storage/methods/walletBalanceSql'
 import tabStore from '@/stores/TabStore'
+import { getReceiptsByTxid, type PaymentReceipt } from '@/utils/webview/paymentReceipts'
+import { armReceiptReplay } from '@/utils/webview/bsvPaymentHandler'
+import {
+  claimPaymentRefund,
+  getRefunds,
+  refundLinks,
+  refundableByTxid,
+  settlePaymentRefund,
+  type Refundable
+} from '@/utils/pay/rails/nearby'
 import WalletLockNotice from '@/components/security/WalletLockNotice'
 
 const PAGE_SIZE = 30
@@ -121,6 +133,12 @@ export default function WalletScreen() {
   const [refreshing, setRefreshing] = useState(false)
   const [exporting, setExporting] = useState(false)
   const [offlineByTxid, setOfflineByTxid] = useState<Map<string, OfflineActionRow>>(new Map())
+  const [receiptsByTxid, setReceiptsByTxid] = useState<Map<string, PaymentReceipt>>(new Map())
+  /** Received nearby payments this wallet can send back, by txid. */
+  const [refundables, setRefundables] = useState<Map<string, Refundable>>(new Map())
+  /** Every refund, reachable from either end: the payment it returned and its own txid. */
+  const [refunds, setRefunds] = useState(() => refundLinks([]))
+  const { deliver: deliverRefund, available: canRefundToInbox } = useHandleRefund(t)
   // Per-row in-flight action, keyed by txid (or reference for abort) so only
   // the tapped row shows a spinner rather than the whole list.
   const [busyRow, setBusyRow] = useState<string | null>(null)
@@ -284,6 +302,17 @@ export default function WalletScreen() {
     }
   }, [storage, walletUserId])
 
+  const fetchRefunds = useCallback(async () => {
+    try {
+      if (!storage) return
+      const [found, all] = await Promise.all([refundableByTxid(storage), getRefunds(storage)])
+      setRefundables(found)
+      setRefunds(refundLinks(all))
+    } catch {
+      // Advisory overlay, like the offline rows: the list renders without it.
+    }
+  }, [storage])
+
   useEffect(() => {
     let cancelled = false
     ;(async () => {
@@ -298,11 +327,16 @@ export default function WalletScreen() {
       setLoading(false)
     })()
     void fetchOfflineRows()
+    // 402 receipts are an overlay too: they say what a "Paid Content" row paid for.
+    void getReceiptsByTxid().then(setReceiptsByTxid)
+    // So are refunds: what a received nearby payment can still give back, and
+    // which rows are the two ends of one.
+    void fetchRefunds()
     return () => {
       cancelled = true
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [fetchActions, txStatusVersion, focusVersion, fetchOfflineRows])
+  }, [fetchActions, txStatusVersion, focusVersion, fetchOfflineRows, fetchRefunds])
 
   const loadMore = useCallback(async () => {
     // Three guards, all load-bearing:
@@ -336,7 +370,7 @@ export default function WalletScreen() {
   const onRefresh = useCallback(async () => {
     setRefreshing(true)
     try {
-      const [result] = await Promise.all([fetchActions(0), refreshBalance(), fetchOfflineRows()])
+      const [result] = await Promise.all([fetchActions(0), refreshBalance(), fetchOfflineRows(), fetchRefunds()])
       if (result) {
         setActions(result.actions as ActivityAction[])
         offsetRef.current = result.actions.length
@@ -346,7 +380,7 @@ export default function WalletScreen() {
     } finally {
       setRefreshing(false)
     }
-  }, [fetchActions, refreshBalance, fetchOfflineRows])
+  }, [fetchActions, refreshBalance, fetchOfflineRows, fetchRefunds])
 
   const onExport = useCallback(async () => {
     if (exporting || actions.length === 0 || !managers.permissionsManager) return
@@ -387,6 +421,22 @@ export default function WalletScreen() {
     [selectedNetwork]
   )
 
+  /** Re-open the page a 402 payment bought, from the copy kept with its
+   * receipt, without paying for it again. */
+  const onOpenReceipt = useCallback(
+    async (receipt: PaymentReceipt) => {
+      const tab = tabStore.activeTab
+      if (!(await armReceiptReplay(receipt, tab ? tabStore.containerOf(tab) : undefined))) {
+        showToast(t('pay_402_receipt_unavailable'), { type: 'info' })
+        return
+      }
+      tabStore.updateTab(tabStore.activeTabId, { url: receipt.url })
+      if (router.canGoBack()) router.back()
+      else router.replace('/')
+    },
+    [t]
+  )
+
   /** Copy the transaction's full BEEF (raw tx + the proofs/ancestry that make
    * it independently verifiable) as hex — what you paste into a tool or hand to
    * support, unlike a bare txid. */
@@ -461,11 +511,68 @@ export default function WalletScreen() {
     [managers.permissionsManager, adminOriginator, busyRow, onRefresh, t]
   )
 
+  /**
+   * Send a received nearby payment back to whoever paid it. In person, the
+   * original payer hosts a request and this device pays it (/pay, refund
+   * mode); otherwise it goes to their message box by identity key. Either way
+   * the refund is claimed first, so it can be sent once.
+   */
+  const onRefund = useCallback(
+    async (txid: string) => {
+      const payment = refundables.get(txid)
+      if (!payment || !storage || busyRow) return
+      const choice = await showAlert({
+        title: t('refund_confirm_title', { amount: formatAmount(payment.satoshis, currency, satoshisPerUSD) }),
+        message: t('refund_confirm_message'),
+        buttons: [
+          ...(canRefundToInbox ? [{ text: t('refund_to_inbox'), key: 'handle' }] : []),
+          { text: t('refund_in_person'), key: 'nearby' },
+          { text: t('cancel'), style: 'cancel' as const, key: 'cancel' }
+        ]
+      })
+      if (choice === 'nearby') {
+        router.push({ pathname: '/pay', params: { cell: 'pay-nearby', refundOf: txid } })
+        return
+      }
+      if (choice !== 'handle') return
+      setBusyRow(txid)
+      try {
+        const claimed = await claimPaymentRefund(storage, payment, 'handle')
+        if (!claimed) {
+          showToast(t('refund_not_owed'), { type: 'info' })
+          return
+        }
+        const result = await deliverRefund(claimed, t('refund_note'))
+        await settlePaymentRefund(storage, txid, result)
+        if (result.status === 'sent') showToast(t('refund_sent'), { type: 'success' })
+        else if (result.status === 'outbox') showToast(t('refund_outbox'), { type: 'info' })
+        else showToast(result.error, { type: 'error' })
+      } catch {
+        showToast(t('refund_failed'), { type: 'error' })
+      } finally {
+        setBusyRow(null)
+        await fetchRefunds()
+      }
+    },
+    [refundables, storage, busyRow, currency, satoshisPerUSD, canRefundToInbox, deliverRefund, fetchRefunds, t]
+  )
+
   const toggleRow = useCallback((key: string) => {
     setExpandedRow(prev => (prev === key ? null : key))
   }, [])
 
   // ── rows ────────────────────────────────────────────────────────────
+  /** The refund a row is one end of, and which end. */
+  const refundOf = useCallback(
+    (txid: string): RowRefund | undefined => {
+      const returned = refunds.byOriginal.get(txid)
+      if (returned) return { refund: returned, end: 'original' }
+      const issued = refunds.byRefund.get(txid)
+      return issued ? { refund: issued, end: 'refund' } : undefined
+    },
+    [refunds]
+  )
+
   const rows = useMemo(() => withDayHeaders(actions, t), [actions, t])
 
   const renderItem: ListRenderItem<Row> = useCallback(
@@ -485,6 +592,9 @@ export default function WalletScreen() {
           action={item}
           rowKey={key}
           offlineStatus={offline?.status}
+          receipt={item.txid ? receiptsByTxid.get(item.txid) : undefined}
+          refundable={!!item.txid && refundables.has(item.txid)}
+          refund={item.txid ? refundOf(item.txid) : undefined}
           expanded={expandedRow === key}
           busy={busy}
           onToggle={toggleRow}
@@ -493,12 +603,17 @@ export default function WalletScreen() {
           onCopyTxid={onCopyTxid}
           onRefreshTx={onRefreshTx}
           onAbort={onAbort}
+          onOpenReceipt={onOpenReceipt}
+          onRefund={onRefund}
         />
       )
     },
     [
       colors,
       offlineByTxid,
+      receiptsByTxid,
+      refundables,
+      refundOf,
       busyRow,
       expandedRow,
       toggleRow,
@@ -506,7 +621,9 @@ export default function WalletScreen() {
       onCopyBeef,
       onCopyTxid,
       onRefreshTx,
-      onAbort
+      onAbort,
+      onOpenReceipt,
+      onRefund
     ]
   )
 
@@ -35,6 +35,7 @@ import { escapeForJsSingleQuote } from '@/utils/webview/errorPages'
 import tabStore from '@/stores/TabStore'
 import bookmarkStore from '@/stores/BookmarkStore'
 import uiStore from '@/stores/uiStore'
+import contentBlockerStore from '@/stores/ContentBlockerStore'
 import { useTranslation } from 'react-i18next'
 
 import { AddressBarRow } from '@/components/browser/AddressBarRow'
@@ -58,12 +59,16 @@ import { useAddressBarAnimation } from '@/hooks/useAddressBarAnimation'
  * which causes every bookmark mutation to re-render the entire WebView +
  * chrome tree. Confining the read here keeps bookmark churn local.
  */
-type ObservedMenuPopoverProps = Omit<React.ComponentProps<typeof MenuPopover>, 'isBookmarked'> & {
+type ObservedMenuPopoverProps = Omit<React.ComponentProps<typeof MenuPopover>, 'isBookmarked' | 'contentBlocking'> & {
   activeTabUrl: string | null
 }
 const ObservedMenuPopover = observer(({ activeTabUrl, ...rest }: ObservedMenuPopoverProps) => {
   const isBookmarked = !!activeTabUrl && bookmarkStore.bookmarks.some(b => b.url === activeTabUrl)
-  return <MenuPopover {...rest} isBookmarked={isBookmarked} />
+  const contentBlocking =
+    activeTabUrl && contentBlockerStore.enabled && contentBlockerStore.engine
+      ? { active: !contentBlockerStore.isSiteAllowed(activeTabUrl) }
+      : null
+  return <MenuPopover {...rest} isBookmarked={isBookmarked} contentBlocking={contentBlocking} />
 })
 
 /* -------------------------------------------------------------------------- */
@@ -101,11 +106,17 @@ export interface AddressBarProps {
   onShowTabs: () => void
   // handleNewTab from the shell (sets focusAddressBarOnNewTab + opens a new tab).
   onNewTab: () => void
+  // handleNewPrivateTab from the shell; same as onNewTab, in a private tab.
+  // Absent where private tabs aren't offered.
+  onNewPrivateTab?: () => void
+  // readerStore.openFromTab on the active tab, from the shell (toasts a miss).
+  onReaderView: () => void
   onEnableWeb3: () => void
   onConnections: () => void
   // Push a sheet route (e.g. 'browser-menu', 'settings').
   onOpenSheet: (route: SheetRoute) => void
-  history: HistoryEntry[]
+  // Full-text history search, best frecency first (useHistory's searchHistory).
+  searchHistory: (text: string, limit?: number) => Promise<HistoryEntry[]>
   addBookmark: (title: string, url: string) => void
 }
 
@@ -120,10 +131,12 @@ export const AddressBar = observer(
       cancelledLoadTabIds,
       onShowTabs,
       onNewTab,
+      onNewPrivateTab,
+      onReaderView,
       onEnableWeb3,
       onConnections,
       onOpenSheet,
-      history,
+      searchHistory,
       addBookmark
     }: AddressBarProps,
     ref
@@ -459,20 +472,20 @@ export const AddressBar = observer(
     /*                          ADDRESS BAR AUTOCOMPLETE                          */
     /* -------------------------------------------------------------------------- */
 
-    const fuseRef = useRef(
-      new Fuse<HistoryEntry | Bookmark>([], {
+    // History comes from the SQLite store's full-text index, ranked by frecency;
+    // bookmarks are few enough to fuzzy-match here and fill whatever places the
+    // history matches leave.
+    const bookmarkFuseRef = useRef(
+      new Fuse<Bookmark>([], {
         keys: ['title', 'url'],
         threshold: 0.4
       })
     )
-    useEffect(() => {
-      fuseRef.current.setCollection([...history, ...bookmarkStore.bookmarks])
-    }, [history])
 
-    // Keep input updates synchronous (so typing feels instant) but compute Fuse
-    // results from a deferred value. React 19 schedules the suggestion update at
-    // a lower priority, so a long Fuse pass on a big history list can never block
-    // the TextInput keystroke render.
+    // Keep input updates synchronous (so typing feels instant) but compute
+    // suggestions from a deferred value. React 19 schedules the suggestion update
+    // at a lower priority, so the search can never block the TextInput keystroke
+    // render.
     const deferredAddressText = useDeferredValue(addressText)
     useEffect(() => {
       const txt = deferredAddressText.trim()
@@ -480,15 +493,25 @@ export const AddressBar = observer(
         setAddressSuggestions([])
         return
       }
-      const results = fuseRef.current
-        .search(txt)
-        .slice(0, 10)
-        .map(r => r.item)
-      const uniqueResults = results
-        .filter((item, index, self) => index === self.findIndex(t => t.url === item.url))
-        .slice(0, 5)
-      setAddressSuggestions(uniqueResults)
-    }, [deferredAddressText])
+      let stale = false
+      searchHistory(txt, 5)
+        .catch(() => [] as HistoryEntry[])
+        .then(visited => {
+          if (stale) return
+          bookmarkFuseRef.current.setCollection([...bookmarkStore.bookmarks])
+          const marked = bookmarkFuseRef.current
+            .search(txt)
+            .slice(0, 10)
+            .map(r => r.item)
+          const uniqueResults = [...visited, ...marked]
+            .filter((item, index, self) => index === self.findIndex(t => t.url === item.url))
+            .slice(0, 5)
+          setAddressSuggestions(uniqueResults)
+        })
+      return () => {
+        stale = true
+      }
+    }, [deferredAddressText, searchHistory])
 
     const onChangeAddressText = useCallback((txt: string) => {
       setAddressText(txt)
@@ -1036,6 +1059,8 @@ export const AddressBar = observer(
                   canGoForward={activeTab?.canGoForward || false}
                   isNewTab={activeTab?.url === kNEW_TAB_URL}
                   isHttps={activeTab?.url?.startsWith('https') || false}
+                  blockedCount={activeTab ? contentBlockerStore.blockedCount(activeTab.id) : 0}
+                  isPrivate={!!activeTab?.isPrivate}
                   historyPopoverOpen={historyPopoverOpen}
                   inputRef={addressInputRef}
                   onChangeText={onChangeAddressText}
@@ -1114,12 +1139,15 @@ export const AddressBar = observer(
                 }
               }}
               onFindInPage={() => setFindInPageVisible(true)}
+              onReaderView={onReaderView}
               onBookmarks={() => onOpenSheet('browser-menu')}
               onTabs={async () => {
                 haptics.tap()
                 onShowTabs()
               }}
               onNewTab={onNewTab}
+              onNewPrivateTab={onNewPrivateTab}
+              privateWallet={activeTab?.isPrivate ? { enabled: !!activeTab.privateWalletEnabled } : null}
               // Full-screen wallet, not a bottom sheet: balance, the three
               // destinations, and activity all live on one screen now.
               onSettings={() => router.push('/wallet')}
@@ -1141,6 +1169,24 @@ export const AddressBar = observer(
                   desktopModeCooldown.current = false
                 }, 1500)
               }}
+              onToggleContentBlocking={() => {
+                if (!activeTab) return
+                contentBlockerStore.toggleSite(activeTab.url)
+                // Frames already loaded and styles already injected stay until
+                // the page reloads.
+                activeTab.webviewRef.current?.reload()
+              }}
+              onTogglePrivateWallet={() => {
+                if (!activeTab?.isPrivate) return
+                tabStore.setPrivateWalletEnabled(activeTab.id, !activeTab.privateWalletEnabled)
+                // The provider is part of the document-start script, which the
+                // page only picks up on its next load.
+                if (activeTab.url !== kNEW_TAB_URL) {
+                  setTimeout(() => {
+                    activeTab.webviewRef.current?.reload()
+                  }, 50)
+                }
+              }}
             />
           </Animated.View>
         )}
@@ -1,5 +1,5 @@
 import React from 'react'
-import { Keyboard, Platform, StyleSheet, TextInput, TouchableOpacity, View } from 'react-native'
+import { Keyboard, Platform, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native'
 import { Ionicons } from '@expo/vector-icons'
 import { useTranslation } from 'react-i18next'
 import { spacing, typography } from '@/context/theme/tokens'
@@ -13,6 +13,10 @@ interface AddressBarRowProps {
   canGoForward: boolean
   isNewTab: boolean
   isHttps: boolean
+  // Requests the content blocker has cancelled on this page; badged when > 0.
+  blockedCount: number
+  // Shown even on the new-tab page, so the user knows before typing.
+  isPrivate: boolean
   historyPopoverOpen: boolean
   onChangeText: (text: string) => void
   onSubmit: () => void
@@ -48,6 +52,8 @@ const AddressBarRowImpl: React.FC<AddressBarRowProps> = ({
   canGoForward,
   isNewTab,
   isHttps,
+  blockedCount,
+  isPrivate,
   historyPopoverOpen,
   onChangeText,
   onSubmit,
@@ -122,6 +128,21 @@ const AddressBarRowImpl: React.FC<AddressBarRowProps> = ({
             crossfade from the polish spec was reverted for this reason —
             instant swap is the glass-safe behavior. */}
         <GlassPill flex={1} style={styles.urlPill}>
+          {isPrivate && (
+            <Ionicons
+              name="eye-off"
+              size={14}
+              color={gc.accent}
+              style={styles.lockIcon}
+              accessibilityLabel={t('private_tab')}
+            />
+          )}
+          {!addressFocused && !isNewTab && blockedCount > 0 && (
+            <View style={styles.blockedBadge}>
+              <Ionicons name="shield-checkmark" size={12} color={gc.secondary} />
+              <Text style={[styles.blockedCount, { color: gc.secondary }]}>{blockedCount}</Text>
+            </View>
+          )}
           {!addressFocused && isHttps && !isNewTab && (
             <Ionicons
               name="lock-closed"
@@ -253,6 +274,16 @@ const styles = StyleSheet.create({
   lockIcon: {
     marginRight: spacing.xs
   },
+  blockedBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 2,
+    marginRight: spacing.xs
+  },
+  blockedCount: {
+    ...typography.caption2,
+    fontVariant: ['tabular-nums']
+  },
   urlInput: {
     flex: 1,
     fontSize: typography.subhead.fontSize,
@@ -1,5 +1,5 @@
 import React, { memo, useCallback, useRef, useState } from 'react'
-import { FlatList, Pressable, Text, TouchableOpacity, View, StyleSheet } from 'react-native'
+import { FlatList, Pressable, ScrollView, Text, TextInput, TouchableOpacity, View, StyleSheet } from 'react-native'
 import { Image as ExpoImage } from 'expo-image'
 import ReanimatedSwipeable, { SwipeDirection } from 'react-native-gesture-handler/ReanimatedSwipeable'
 import { Ionicons } from '@expo/vector-icons'
@@ -10,7 +10,10 @@ import { useTheme } from '@/context/theme/ThemeContext'
 import { spacing, typography, radii } from '@/context/theme/tokens'
 import bookmarkStore from '@/stores/BookmarkStore'
 import { isValidUrl } from '@/utils/generalHelpers'
-import type { Bookmark } from '@/shared/types/browser'
+import { exportBookmarksFile, importBookmarksFile } from '@/utils/bookmarks/transfer'
+import { showAlert } from '@/components/ui/AlertCard'
+import { showToast } from '@/components/ui/Toast'
+import type { Bookmark, BookmarkFolder } from '@/shared/types/browser'
 
 // Favicons rendered with expo-image use a shared memory+disk cache, so the
 // same icon across all bookmark rows is decoded once and reused. Raw RN
@@ -18,8 +21,32 @@ import type { Bookmark } from '@/shared/types/browser'
 // when the bookmark sheet opened over a live WebView.
 const BOOKMARK_ROW_HEIGHT = 60
 
+type Row = { kind: 'folder'; folder: BookmarkFolder; count: number } | { kind: 'bookmark'; bookmark: Bookmark }
+
+// What the inline text field above the list is editing, if anything.
+type Editing =
+  | { kind: 'newFolder' }
+  | { kind: 'renameFolder'; id: string }
+  | { kind: 'tags'; url: string }
+
+function rowCorners(isFirst: boolean, isLast: boolean) {
+  const itemStyle: any = {}
+  const deleteStyle: any = {}
+  if (isFirst) {
+    itemStyle.borderTopLeftRadius = radii.md
+    itemStyle.borderTopRightRadius = radii.md
+    deleteStyle.borderTopRightRadius = radii.md
+  }
+  if (isLast) {
+    itemStyle.borderBottomLeftRadius = radii.md
+    itemStyle.borderBottomRightRadius = radii.md
+    deleteStyle.borderBottomRightRadius = radii.md
+  }
+  return { itemStyle, deleteStyle }
+}
+
 /* -------------------------------------------------------------------------- */
-/*  Memoised row                                                              */
+/*  Memoised rows                                                             */
 /* -------------------------------------------------------------------------- */
 
 const BookmarkRow = memo(
@@ -28,28 +55,19 @@ const BookmarkRow = memo(
     isFirst,
     isLast,
     onSelect,
-    onDelete
+    onDelete,
+    onLongPress
   }: {
     item: Bookmark
     isFirst: boolean
     isLast: boolean
     onSelect: (url: string) => void
     onDelete: (url: string) => void
+    onLongPress: (url: string) => void
   }) => {
     const { colors } = useTheme()
-
-    const itemStyle: any = { backgroundColor: colors.backgroundElevated }
-    const deleteStyle: any = {}
-    if (isFirst) {
-      itemStyle.borderTopLeftRadius = radii.md
-      itemStyle.borderTopRightRadius = radii.md
-      deleteStyle.borderTopRightRadius = radii.md
-    }
-    if (isLast) {
-      itemStyle.borderBottomLeftRadius = radii.md
-      itemStyle.borderBottomRightRadius = radii.md
-      deleteStyle.borderBottomRightRadius = radii.md
-    }
+    const { itemStyle, deleteStyle } = rowCorners(isFirst, isLast)
+    itemStyle.backgroundColor = colors.backgroundElevated
 
     let faviconUrl: string
     try {
@@ -57,6 +75,7 @@ const BookmarkRow = memo(
     } catch {
       faviconUrl = `${item.url.replace(/\/$/, '')}/favicon.ico`
     }
+    const tags = item.tags?.length ? item.tags.map(t => `#${t}`).join(' ') + ' · ' : ''
 
     return (
       <ReanimatedSwipeable
@@ -70,7 +89,11 @@ const BookmarkRow = memo(
           if (direction === SwipeDirection.LEFT) { haptics.warning(); onDelete(item.url) }
         }}
       >
-        <Pressable style={[styles.bookmarkItem, itemStyle]} onPress={() => onSelect(item.url)}>
+        <Pressable
+          style={[styles.bookmarkItem, itemStyle]}
+          onPress={() => onSelect(item.url)}
+          onLongPress={() => onLongPress(item.url)}
+        >
           <ExpoImage
             source={{ uri: faviconUrl }}
             style={[styles.favicon, { backgroundColor: colors.fillTertiary }]}
@@ -84,6 +107,7 @@ const BookmarkRow = memo(
               {item.title || item.url}
             </Text>
             <Text numberOfLines={1} style={[styles.bookmarkUrl, { color: colors.textSecondary }]}>
+              {tags}
               {item.url}
             </Text>
           </View>
@@ -93,6 +117,43 @@ const BookmarkRow = memo(
   }
 )
 
+const FolderRow = memo(function FolderRow({
+  folder,
+  count,
+  isFirst,
+  isLast,
+  onOpen,
+  onLongPress
+}: {
+  folder: BookmarkFolder
+  count: number
+  isFirst: boolean
+  isLast: boolean
+  onOpen: (id: string) => void
+  onLongPress: (id: string) => void
+}) {
+  const { colors } = useTheme()
+  const { itemStyle } = rowCorners(isFirst, isLast)
+  itemStyle.backgroundColor = colors.backgroundElevated
+
+  return (
+    <Pressable
+      style={[styles.bookmarkItem, itemStyle]}
+      onPress={() => onOpen(folder.id)}
+      onLongPress={() => onLongPress(folder.id)}
+    >
+      <View style={[styles.favicon, styles.folderIcon, { backgroundColor: colors.fillTertiary }]}>
+        <Ionicons name="folder-outline" size={18} color={colors.accent} />
+      </View>
+      <Text numberOfLines={1} style={[styles.bookmarkTitle, styles.bookmarkText, { color: colors.textPrimary }]}>
+        {folder.title}
+      </Text>
+      <Text style={[styles.bookmarkUrl, { color: colors.textTertiary }]}>{count}</Text>
+      <Ionicons name="chevron-forward" size={16} color={colors.textTertiary} />
+    </Pressable>
+  )
+})
+
 /* -------------------------------------------------------------------------- */
 /*  List                                                                      */
 /* -------------------------------------------------------------------------- */
@@ -108,63 +169,296 @@ const BookmarkListBase = ({ onSelect, hideTitle = false }: Props) => {
   const { t } = useTranslation()
   const { colors } = useTheme()
 
-  // Local snapshot taken once when the component mounts (i.e. when the sheet
-  // opens). All mutations (delete / clear) update this local copy directly so
-  // the FlatList never receives a new data reference from the parent and
-  // therefore never resets its scroll position.
-  const [bookmarks, setBookmarks] = useState<Bookmark[]>(() =>
-    bookmarkStore.bookmarks.filter(b => b.url && isValidUrl(b.url))
-  )
+  // The folder being shown (null = top level), or a tag whose bookmarks are
+  // shown flat across folders instead.
+  const [folderId, setFolderId] = useState<string | null>(null)
+  const [tag, setTag] = useState<string | null>(null)
+  const [editing, setEditing] = useState<Editing | null>(null)
+  const [draft, setDraft] = useState('')
 
   // Keep callback ref so the FlatList's renderItem never changes identity.
   const onSelectRef = useRef(onSelect)
   onSelectRef.current = onSelect
   const stableSelect = useCallback((url: string) => onSelectRef.current(url), [])
 
+  const folder = bookmarkStore.folder(folderId)
+  const visible = (b: Bookmark) => !!b.url && isValidUrl(b.url)
+  const rows: Row[] = tag
+    ? bookmarkStore.bookmarksTagged(tag).filter(visible).map(bookmark => ({ kind: 'bookmark', bookmark }))
+    : [
+        ...bookmarkStore.foldersIn(folderId).map(f => ({
+          kind: 'folder' as const,
+          folder: f,
+          count: bookmarkStore.bookmarksIn(f.id).length + bookmarkStore.foldersIn(f.id).length
+        })),
+        ...bookmarkStore.bookmarksIn(folderId).filter(visible).map(bookmark => ({ kind: 'bookmark' as const, bookmark }))
+      ]
+  const tags = bookmarkStore.allTags
+
   const handleDelete = useCallback((url: string) => {
-    setBookmarks(prev => prev.filter(b => b.url !== url))
     bookmarkStore.removeBookmark(url)
   }, [])
 
   const handleClearAll = useCallback(() => {
-    setBookmarks([])
     bookmarkStore.clearBookmarks()
   }, [])
 
+  const openFolder = useCallback((id: string | null) => {
+    setEditing(null)
+    setFolderId(id)
+  }, [])
+
+  const startEditing = useCallback((next: Editing, initial: string) => {
+    setEditing(next)
+    setDraft(initial)
+  }, [])
+
+  const commitEditing = useCallback(() => {
+    if (!editing) return
+    if (editing.kind === 'newFolder') {
+      if (draft.trim()) bookmarkStore.addFolder(draft, folderId)
+    } else if (editing.kind === 'renameFolder') {
+      bookmarkStore.renameFolder(editing.id, draft)
+    } else {
+      bookmarkStore.setTags(editing.url, draft.split(','))
+    }
+    setEditing(null)
+  }, [editing, draft, folderId])
+
+  /** Ask where to move something: the top level or any folder `allowed` lets through. */
+  const pickDestination = useCallback(
+    async (allowed: (f: BookmarkFolder) => boolean): Promise<string | null | undefined> => {
+      const choices = bookmarkStore.folders.filter(allowed)
+      const choice = await showAlert({
+        title: t('bookmark_move_to_title'),
+        buttons: [
+          { text: t('bookmarks'), key: 'top' },
+          ...choices.map(f => ({
+            text: bookmarkStore
+              .folderPath(f.id)
+              .map(p => p.title)
+              .join(' / '),
+            key: `folder:${f.id}`
+          })),
+          { text: t('cancel'), style: 'cancel' as const, key: 'cancel' }
+        ]
+      })
+      if (choice === 'top') return null
+      if (choice.startsWith('folder:')) return choice.slice('folder:'.length)
+      return undefined
+    },
+    [t]
+  )
+
+  const bookmarkActions = useCallback(
+    async (url: string) => {
+      const bookmark = bookmarkStore.bookmarks.find(b => b.url === url)
+      if (!bookmark) return
+      haptics.tap()
+      const siblings = bookmarkStore.bookmarksIn(bookmark.folderId ?? null)
+      const index = siblings.indexOf(bookmark)
+      const choice = await showAlert({
+        title: bookmark.title || bookmark.url,
+        buttons: [
+          ...(index > 0 ? [{ text: t('bookmark_move_up'), key: 'up' }] : []),
+          ...(index < siblings.length - 1 ? [{ text: t('bookmark_move_down'), key: 'down' }] : []),
+          { text: t('bookmark_move_to'), key: 'move' },
+          { text: t('bookmark_edit_tags'), key: 'tags' },
+          { text: t('delete'), style: 'destructive', key: 'delete' },
+          { text: t('cancel'), style: 'cancel', key: 'cancel' }
+        ]
+      })
+      const here = bookmark.folderId ?? null
+      if (choice === 'up') bookmarkStore.moveBookmark(url, here, index - 1)
+      else if (choice === 'down') bookmarkStore.moveBookmark(url, here, index + 1)
+      else if (choice === 'tags') startEditing({ kind: 'tags', url }, (bookmark.tags ?? []).join(', '))
+      else if (choice === 'delete') bookmarkStore.removeBookmark(url)
+      else if (choice === 'move') {
+        const to = await pickDestination(f => f.id !== here)
+        if (to !== undefined) bookmarkStore.moveBookmark(url, to)
+      }
+    },
+    [t, startEditing, pickDestination]
+  )
+
+  const folderActions = useCallback(
+    async (id: string) => {
+      const target = bookmarkStore.folder(id)
+      if (!target) return
+      haptics.tap()
+      const siblings = bookmarkStore.foldersIn(target.parentId)
+      const index = siblings.indexOf(target)
+      const choice = await showAlert({
+        title: target.title,
+        buttons: [
+          { text: t('bookmark_rename'), key: 'rename' },
+          ...(index > 0 ? [{ text: t('bookmark_move_up'), key: 'up' }] : []),
+          ...(index < siblings.length - 1 ? [{ text: t('bookmark_move_down'), key: 'down' }] : []),
+          { text: t('bookmark_move_to'), key: 'move' },
+          { text: t('delete'), style: 'destructive', key: 'delete' },
+          { text: t('cancel'), style: 'cancel', key: 'cancel' }
+        ]
+      })
+      if (choice === 'rename') startEditing({ kind: 'renameFolder', id }, target.title)
+      else if (choice === 'up') bookmarkStore.moveFolder(id, target.parentId, index - 1)
+      else if (choice === 'down') bookmarkStore.moveFolder(id, target.parentId, index + 1)
+      else if (choice === 'move') {
+        // Not into itself or anything beneath it.
+        const to = await pickDestination(f => !bookmarkStore.folderPath(f.id).some(p => p.id === id))
+        if (to !== undefined) bookmarkStore.moveFolder(id, to)
+      } else if (choice === 'delete') {
+        const confirm = await showAlert({
+          title: t('bookmark_delete_folder_title', { title: target.title }),
+          message: t('bookmark_delete_folder_body'),
+          buttons: [
+            { text: t('cancel'), style: 'cancel', key: 'cancel' },
+            { text: t('delete'), style: 'destructive', key: 'delete' }
+          ]
+        })
+        if (confirm === 'delete') bookmarkStore.removeFolder(id)
+      }
+    },
+    [t, startEditing, pickDestination]
+  )
+
+  const handleImport = useCallback(async () => {
+    try {
+      const result = await importBookmarksFile(folderId)
+      if (result) showToast(t('bookmark_imported', result), { type: 'success' })
+    } catch (e: any) {
+      showToast(e?.message || t('bookmark_import_failed'), { type: 'error' })
+    }
+  }, [folderId, t])
+
+  const handleExport = useCallback(async () => {
+    try {
+      await exportBookmarksFile()
+    } catch (e: any) {
+      showToast(e?.message || t('bookmark_export_failed'), { type: 'error' })
+    }
+  }, [t])
+
   const renderItem = useCallback(
-    ({ item, index }: { item: Bookmark; index: number }) => (
-      <BookmarkRow
-        item={item}
-        isFirst={index === 0}
-        isLast={index === bookmarks.length - 1}
-        onSelect={stableSelect}
-        onDelete={handleDelete}
-      />
-    ),
-    [bookmarks.length, stableSelect, handleDelete]
+    ({ item, index }: { item: Row; index: number }) =>
+      item.kind === 'folder' ? (
+        <FolderRow
+          folder={item.folder}
+          count={item.count}
+          isFirst={index === 0}
+          isLast={index === rows.length - 1}
+          onOpen={openFolder}
+          onLongPress={folderActions}
+        />
+      ) : (
+        <BookmarkRow
+          item={item.bookmark}
+          isFirst={index === 0}
+          isLast={index === rows.length - 1}
+          onSelect={stableSelect}
+          onDelete={handleDelete}
+          onLongPress={bookmarkActions}
+        />
+      ),
+    [rows.length, stableSelect, handleDelete, openFolder, folderActions, bookmarkActions]
   )
 
-  const keyExtractor = useCallback((item: Bookmark) => item.url, [])
+  const keyExtractor = useCallback((item: Row) => (item.kind === 'folder' ? item.folder.id : item.bookmark.url), [])
+
+  const atTop = !folder && !tag
 
   return (
     <View style={styles.container}>
       {!hideTitle && (
         <Text style={[styles.sectionTitle, { color: colors.textSecondary }]}>{t('bookmarks') || 'Bookmarks'}</Text>
       )}
-      {bookmarks.length === 0 ? (
+
+      {folder && !tag && (
+        <TouchableOpacity style={styles.breadcrumb} onPress={() => openFolder(folder.parentId)}>
+          <Ionicons name="chevron-back" size={18} color={colors.accent} />
+          <Text numberOfLines={1} style={[styles.breadcrumbText, { color: colors.textPrimary }]}>
+            {bookmarkStore
+              .folderPath(folder.id)
+              .map(f => f.title)
+              .join(' / ')}
+          </Text>
+        </TouchableOpacity>
+      )}
+
+      <View style={styles.toolbar}>
+        <TouchableOpacity style={styles.toolbarButton} onPress={() => startEditing({ kind: 'newFolder' }, '')}>
+          <Ionicons name="folder-open-outline" size={16} color={colors.accent} />
+          <Text style={[styles.toolbarText, { color: colors.accent }]}>{t('bookmark_new_folder')}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.toolbarButton} onPress={handleImport}>
+          <Ionicons name="download-outline" size={16} color={colors.accent} />
+          <Text style={[styles.toolbarText, { color: colors.accent }]}>{t('bookmark_import')}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.toolbarButton} onPress={handleExport}>
+          <Ionicons name="share-outline" size={16} color={colors.accent} />
+          <Text style={[styles.toolbarText, { color: colors.accent }]}>{t('bookmark_export')}</Text>
+        </TouchableOpacity>
+      </View>
+
+      {tags.length > 0 && (
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.tagRow}>
+          {tags.map(name => {
+            const active = name === tag
+            return (
+              <TouchableOpacity
+                key={name}
+                style={[styles.tagChip, { backgroundColor: active ? colors.accent : colors.fillTertiary }]}
+                onPress={() => setTag(active ? null : name)}
+              >
+                <Text style={[styles.tagText, { color: active ? colors.textOnAccent : colors.textSecondary }]}>
+                  #{name}
+                </Text>
+              </TouchableOpacity>
+            )
+          })}
+        </ScrollView>
+      )}
+
+      {editing && (
+        <View style={styles.editRow}>
+          <TextInput
+            style={[styles.editInput, { backgroundColor: colors.fillTertiary, color: colors.textPrimary }]}
+            value={draft}
+            onChangeText={setDraft}
+            placeholder={editing.kind === 'tags' ? t('bookmark_tags_placeholder') : t('bookmark_folder_name')}
+            placeholderTextColor={colors.textTertiary}
+            autoCapitalize={editing.kind === 'tags' ? 'none' : 'sentences'}
+            autoCorrect={false}
+            returnKeyType="done"
+            onSubmitEditing={commitEditing}
+            autoFocus
+          />
+          <TouchableOpacity style={styles.editButton} onPress={() => setEditing(null)}>
+            <Text style={{ color: colors.textSecondary }}>{t('cancel')}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.editButton} onPress={commitEditing}>
+            <Text style={{ color: colors.accent, fontWeight: '600' }}>{t('save')}</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {rows.length === 0 ? (
         <View style={styles.emptyState}>
           <Ionicons name="bookmark-outline" size={40} color={colors.textTertiary} />
-          <Text style={[styles.emptyText, { color: colors.textTertiary }]}>No bookmarks yet</Text>
+          <Text style={[styles.emptyText, { color: colors.textTertiary }]}>
+            {atTop ? 'No bookmarks yet' : t('bookmark_empty_folder')}
+          </Text>
         </View>
       ) : (
         <>
-          <TouchableOpacity style={[styles.clearBtn, { backgroundColor: colors.error }]} onPress={handleClearAll}>
-            <Ionicons name="trash-outline" size={18} color="#fff" />
-            <Text style={styles.clearBtnText}>{t('clear_all')}</Text>
-          </TouchableOpacity>
+          {atTop && (
+            <TouchableOpacity style={[styles.clearBtn, { backgroundColor: colors.error }]} onPress={handleClearAll}>
+              <Ionicons name="trash-outline" size={18} color="#fff" />
+              <Text style={styles.clearBtnText}>{t('clear_all')}</Text>
+            </TouchableOpacity>
+          )}
           <FlatList
             style={styles.listContainer}
-            data={bookmarks}
+            data={rows}
             keyExtractor={keyExtractor}
             renderItem={renderItem}
             ListFooterComponent={FOOTER}
@@ -172,6 +466,7 @@ const BookmarkListBase = ({ onSelect, hideTitle = false }: Props) => {
             maxToRenderPerBatch={8}
             windowSize={5}
             removeClippedSubviews
+            keyboardShouldPersistTaps="handled"
             getItemLayout={(_, index) => ({
               length: BOOKMARK_ROW_HEIGHT,
               offset: BOOKMARK_ROW_HEIGHT * index,
@@ -202,6 +497,61 @@ const styles = StyleSheet.create({
     marginBottom: spacing.md,
     paddingHorizontal: spacing.xs
   },
+  breadcrumb: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+    marginBottom: spacing.sm,
+    paddingHorizontal: spacing.xs
+  },
+  breadcrumbText: {
+    ...typography.headline,
+    flex: 1
+  },
+  toolbar: {
+    flexDirection: 'row',
+    gap: spacing.lg,
+    marginBottom: spacing.md,
+    paddingHorizontal: spacing.xs
+  },
+  toolbarButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs
+  },
+  toolbarText: {
+    ...typography.subhead
+  },
+  tagRow: {
+    gap: spacing.sm,
+    paddingHorizontal: spacing.xs,
+    marginBottom: spacing.md
+  },
+  tagChip: {
+    borderRadius: radii.pill,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.xs
+  },
+  tagText: {
+    ...typography.footnote
+  },
+  editRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    marginBottom: spacing.md,
+    paddingHorizontal: spacing.xs
+  },
+  editInput: {
+    ...typography.body,
+    flex: 1,
+    borderRadius: radii.md,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm
+  },
+  editButton: {
+    paddingVertical: spacing.sm
+  },
   bookmarkItem: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -214,6 +564,10 @@ const styles = StyleSheet.create({
     height: 28,
     borderRadius: radii.sm
   },
+  folderIcon: {
+    alignItems: 'center',
+    justifyContent: 'center'
+  },
   bookmarkText: {
     flex: 1
   },
@@ -9,6 +9,7 @@ import { spacing, radii, typography } from '@/context/theme/tokens'
 import { useLocalStorage } from '@/context/LocalStorageProvider'
 import { DEFAULT_HOMEPAGE_URL, SEARCH_ENGINES, DEFAULT_SEARCH_ENGINE_ID } from '@/shared/constants'
 import bookmarkStore from '@/stores/BookmarkStore'
+import readerStore from '@/stores/ReaderStore'
 import { isValidUrl } from '@/utils/generalHelpers'
 import { HistoryList } from '@/components/browser/HistoryList'
 import { HistoryEntry } from '@/shared/types/browser'
@@ -290,6 +291,23 @@ const BrowserPageBase: React.FC<BrowserPageProps> = ({ onNavigate, inSheet = fal
           </View>
         )}
 
+        {/* Reading list */}
+        {readerStore.readingList.length > 0 && (
+          <TouchableOpacity
+            style={[styles.sectionHeaderRow, styles.readingListRow]}
+            onPress={() => sheet.push('reading-list')}
+            activeOpacity={0.6}
+          >
+            <Text style={[styles.sectionTitle, { color: colors.textSecondary }]}>{t('reading_list')}</Text>
+            <View style={styles.seeAllRow}>
+              <Text style={[styles.seeAllText, { color: colors.textTertiary }]}>
+                {t('reading_list_unread', { count: readerStore.readingList.filter(i => !i.readAt).length })}
+              </Text>
+              <Ionicons name="chevron-forward" size={14} color={colors.textTertiary} />
+            </View>
+          </TouchableOpacity>
+        )}
+
         {/* History */}
         {history && history.length > 0 && (
           <View style={styles.halfSection}>
@@ -327,6 +345,9 @@ const styles = StyleSheet.create({
   bookmarksSection: {
     flexShrink: 0
   },
+  readingListRow: {
+    marginBottom: spacing.md
+  },
   content: {},
   section: {
     marginBottom: spacing.xxl
@@ -1,23 +1,29 @@
-import React, { memo, useCallback, useRef, useState } from 'react'
-import { FlatList, Pressable, Text, TouchableOpacity, View, StyleSheet } from 'react-native'
+import React, { memo, useCallback, useEffect, useRef, useState } from 'react'
+import { FlatList, Pressable, Text, TextInput, TouchableOpacity, View, StyleSheet } from 'react-native'
 import ReanimatedSwipeable, { SwipeDirection } from 'react-native-gesture-handler/ReanimatedSwipeable'
 import { Ionicons } from '@expo/vector-icons'
 import { useTranslation } from 'react-i18next'
 import { haptics } from '@/hooks/useHaptics'
 import { useTheme } from '@/context/theme/ThemeContext'
 import { spacing, typography, radii } from '@/context/theme/tokens'
+import { showAlert } from '@/components/ui/AlertCard'
+import type { HistoryRange } from '@/utils/history/historyStore'
 
 export interface HistoryEntry {
   title: string
   url: string
   timestamp: number
+  visitCount?: number
 }
 
 interface Props {
   history: HistoryEntry[]
   onSelect: (url: string) => void
   onDelete: (url: string) => void
-  onClear?: () => void
+  /** Clears a span of history and resolves to the list as it now stands. */
+  onClear?: (range: HistoryRange) => Promise<HistoryEntry[]>
+  /** Full-text search; when given, the list gets a search field. */
+  onSearch?: (text: string) => Promise<HistoryEntry[]>
   hideTitle?: boolean
 }
 
@@ -89,7 +95,10 @@ const FOOTER = <View style={{ height: 80 }} />
 // Matches the rendered height of `historyItem` below (padding 12+12 + title 17 + url 14).
 const HISTORY_ROW_HEIGHT = 60
 
-const HistoryListInner = ({ history, onSelect, onDelete, onClear, hideTitle = false }: Props) => {
+// Typing pauses this long before a search runs.
+const SEARCH_DEBOUNCE_MS = 150
+
+const HistoryListInner = ({ history, onSelect, onDelete, onClear, onSearch, hideTitle = false }: Props) => {
   const { t } = useTranslation()
   const { colors } = useTheme()
 
@@ -99,6 +108,30 @@ const HistoryListInner = ({ history, onSelect, onDelete, onClear, hideTitle = fa
   // therefore never resets its scroll position.  The next time the sheet opens
   // the component remounts and picks up the latest history from props.
   const [items, setItems] = useState<HistoryEntry[]>(history)
+  const [query, setQuery] = useState('')
+  const [results, setResults] = useState<HistoryEntry[] | null>(null)
+
+  const onSearchRef = useRef(onSearch)
+  onSearchRef.current = onSearch
+  useEffect(() => {
+    const text = query.trim()
+    if (!text || !onSearchRef.current) {
+      setResults(null)
+      return
+    }
+    let stale = false
+    const timer = setTimeout(() => {
+      onSearchRef.current?.(text)
+        .then(found => {
+          if (!stale) setResults(found)
+        })
+        .catch(() => {})
+    }, SEARCH_DEBOUNCE_MS)
+    return () => {
+      stale = true
+      clearTimeout(timer)
+    }
+  }, [query])
 
   // Keep callback refs so the FlatList's renderItem never changes identity.
   const onSelectRef = useRef(onSelect)
@@ -112,27 +145,43 @@ const HistoryListInner = ({ history, onSelect, onDelete, onClear, hideTitle = fa
   const handleDelete = useCallback(
     (url: string) => {
       setItems(prev => prev.filter(i => i.url !== url))
+      setResults(prev => prev && prev.filter(i => i.url !== url))
       stableDelete(url)
     },
     [stableDelete]
   )
 
-  const handleClear = useCallback(() => {
-    setItems([])
-    onClear?.()
-  }, [onClear])
+  const handleClear = useCallback(async () => {
+    if (!onClear) return
+    const range = await showAlert({
+      title: t('history_clear_title'),
+      buttons: [
+        { text: t('history_clear_hour'), style: 'destructive', key: 'hour' },
+        { text: t('history_clear_today'), style: 'destructive', key: 'today' },
+        { text: t('history_clear_all_time'), style: 'destructive', key: 'all' },
+        { text: t('cancel'), style: 'cancel', key: 'cancel' }
+      ]
+    })
+    if (range !== 'hour' && range !== 'today' && range !== 'all') return
+    setQuery('')
+    if (range === 'all') setItems([])
+    const remaining = await onClear(range).catch(() => null)
+    if (remaining) setItems(remaining)
+  }, [onClear, t])
+
+  const data = results ?? items
 
   const renderItem = useCallback(
     ({ item, index }: { item: HistoryEntry; index: number }) => (
       <HistoryRow
         item={item}
         isFirst={index === 0}
-        isLast={index === items.length - 1}
+        isLast={index === data.length - 1}
         onSelect={stableSelect}
         onDelete={handleDelete}
       />
     ),
-    [items.length, stableSelect, handleDelete]
+    [data.length, stableSelect, handleDelete]
   )
 
   const keyExtractor = useCallback((i: HistoryEntry) => i.url + i.timestamp, [])
@@ -146,10 +195,27 @@ const HistoryListInner = ({ history, onSelect, onDelete, onClear, hideTitle = fa
           <Text style={styles.clearBtnText}>{t('clear_all')}</Text>
         </TouchableOpacity>
       )}
+      {onSearch && (
+        <TextInput
+          style={[styles.searchInput, { backgroundColor: colors.fillTertiary, color: colors.textPrimary }]}
+          value={query}
+          onChangeText={setQuery}
+          placeholder={t('history_search_placeholder')}
+          placeholderTextColor={colors.textTertiary}
+          autoCapitalize="none"
+          autoCorrect={false}
+          clearButtonMode="while-editing"
+          returnKeyType="search"
+        />
+      )}
+      {results && results.length === 0 && (
+        <Text style={[styles.noResults, { color: colors.textSecondary }]}>{t('history_no_results')}</Text>
+      )}
       <FlatList
         style={styles.listContainer}
         contentContainerStyle={styles.listContent}
-        data={items}
+        data={data}
+        keyboardShouldPersistTaps="handled"
         keyExtractor={keyExtractor}
         renderItem={renderItem}
         ListFooterComponent={FOOTER}
@@ -198,6 +264,19 @@ const styles = StyleSheet.create({
     marginHorizontal: spacing.xs,
     gap: 8
   },
+  searchInput: {
+    ...typography.body,
+    borderRadius: radii.md,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    marginBottom: spacing.md,
+    marginHorizontal: spacing.xs
+  },
+  noResults: {
+    ...typography.subhead,
+    textAlign: 'center',
+    paddingVertical: spacing.lg
+  },
   clearBtnText: {
     color: '#fff',
     fontSize: 16,
@@ -23,18 +23,28 @@ interface MenuPopoverProps {
   topOffset?: number
   isDesktopMode: boolean
   isBookmarked: boolean
+  // Content blocking on the current site; null hides the row (new tab, or the
+  // blocker is off or has no lists yet).
+  contentBlocking: { active: boolean } | null
+  // Whether a private tab exposes the wallet; null when the tab isn't private.
+  privateWallet: { enabled: boolean } | null
   onDismiss: () => void
   onShare: () => void
   onAddBookmark: () => void
   onRemoveBookmark: () => void
   onFindInPage: () => void
+  onReaderView: () => void
   onBookmarks: () => void
   onTabs: () => void
   onNewTab: () => void
+  /** Absent where private tabs aren't offered (utils/webview/privateTabs). */
+  onNewPrivateTab?: () => void
   onSettings: () => void
   onEnableWeb3: () => void
   onConnections: () => void
   onToggleDesktopMode: () => void
+  onToggleContentBlocking: () => void
+  onTogglePrivateWallet: () => void
 }
 
 interface RowProps {
@@ -76,18 +86,24 @@ export const MenuPopover: React.FC<MenuPopoverProps> = ({
   topOffset = 0,
   isDesktopMode,
   isBookmarked,
+  contentBlocking,
+  privateWallet,
   onDismiss,
   onShare,
   onAddBookmark,
   onRemoveBookmark,
   onFindInPage,
+  onReaderView,
   onBookmarks,
   onTabs,
   onNewTab,
+  onNewPrivateTab,
   onSettings,
   onEnableWeb3,
   onConnections,
-  onToggleDesktopMode
+  onToggleDesktopMode,
+  onToggleContentBlocking,
+  onTogglePrivateWallet
 }) => {
   const { t } = useTranslation()
   const { isDark, colors } = useTheme()
@@ -125,6 +141,14 @@ export const MenuPopover: React.FC<MenuPopoverProps> = ({
           </TouchableOpacity>
         </View>
       )}
+      {!isNewTab && <Row icon="reader-outline" label={t('reader_view')} onPress={dismiss(onReaderView)} />}
+      {!isNewTab && contentBlocking && (
+        <Row
+          icon={contentBlocking.active ? 'shield-checkmark-outline' : 'shield-outline'}
+          label={contentBlocking.active ? t('content_blocker_allow_site') : t('content_blocker_block_site')}
+          onPress={dismiss(onToggleContentBlocking)}
+        />
+      )}
       {/* Browser — split row: Browser label | Desktop mode icon */}
       <View style={styles.splitRow}>
         <TouchableOpacity style={styles.splitRowMain} onPress={dismiss(onBookmarks)} activeOpacity={0.6}>
@@ -152,6 +176,13 @@ export const MenuPopover: React.FC<MenuPopoverProps> = ({
         label={t('bug_report')}
         onPress={dismiss(() => Linking.openURL('https://github.com/bsv-blockchain/bsv-browser/issues'))}
       />
+      {!isWeb2Mode && privateWallet && (
+        <Row
+          icon={privateWallet.enabled ? 'wallet' : 'wallet-outline'}
+          label={privateWallet.enabled ? t('private_tab_hide_wallet') : t('private_tab_use_wallet')}
+          onPress={dismiss(onTogglePrivateWallet)}
+        />
+      )}
       {isWeb2Mode ? (
         <Row icon="flash-outline" label={t('enable_web3')} onPress={dismiss(onEnableWeb3)} />
       ) : (
@@ -169,6 +200,9 @@ export const MenuPopover: React.FC<MenuPopoverProps> = ({
 
       <Divider />
 
+      {onNewPrivateTab && (
+        <Row icon="eye-off-outline" label={t('new_private_tab')} onPress={dismiss(onNewPrivateTab)} />
+      )}
       {/* Tabs — split row */}
       <View style={styles.splitRow}>
         <TouchableOpacity style={styles.splitRowMain} onPress={dismiss(onTabs)} activeOpacity={0.6}>
@@ -0,0 +1,183 @@
+import React, { useContext, useRef } from 'react'
+import { View, Text, StyleSheet } from 'react-native'
+import { Ionicons } from '@expo/vector-icons'
+import { useTranslation } from 'react-i18next'
+import Sheet from '@/components/ui/Sheet'
+import PressableScale from '@/components/ui/PressableScale'
+import { useHaptics } from '@/hooks/useHaptics'
+import { useTheme } from '@/context/theme/ThemeContext'
+import { useWallet } from '@/context/WalletContext'
+import { ExchangeRateContext } from '@/context/ExchangeRateContext'
+import { spacing, radii, typography, hitTargets } from '@/context/theme/tokens'
+import { formatAmount } from '@/utils/amountFormatHelpers'
+import type { PaymentConfirmChoice, PaymentConfirmRequest } from '@/utils/webview/bsvPaymentHandler'
+
+interface PaymentConfirmSheetProps {
+  visible: boolean
+  request: PaymentConfirmRequest
+  onDecision: (choice: PaymentConfirmChoice) => void
+}
+
+/**
+ * Asks before paying a 402 page that costs more than its domain's auto-pay
+ * ceiling. "Always" raises the ceiling to this price, so the same page at the
+ * same price goes through unasked next time.
+ */
+const PaymentConfirmSheet: React.FC<PaymentConfirmSheetProps> = ({ visible, request, onDecision }) => {
+  const { t } = useTranslation()
+  const { colors } = useTheme()
+  const haptics = useHaptics()
+  const { settings } = useWallet()
+  const { satoshisPerUSD } = useContext(ExchangeRateContext)
+  const currency = settings?.currency || 'BSV'
+  // Same guard as PermissionModal: one decision per mount (parent keys on the URL).
+  const decidedRef = useRef(false)
+
+  const decide = (choice: PaymentConfirmChoice) => {
+    if (decidedRef.current) return
+    decidedRef.current = true
+    if (choice === 'decline') haptics.warning()
+    else haptics.confirm()
+    onDecision(choice)
+  }
+
+  let path = request.url
+  try {
+    path = new URL(request.url).pathname
+  } catch {}
+
+  return (
+    <Sheet
+      visible={visible}
+      onClose={() => {
+        if (!decidedRef.current) {
+          decidedRef.current = true
+          onDecision('decline')
+        }
+      }}
+      fitContent
+    >
+      <View style={styles.body}>
+        <View style={[styles.iconCircle, { backgroundColor: colors.fillTertiary }]}>
+          <Ionicons name="card" size={26} color={colors.textPrimary} />
+        </View>
+
+        <Text style={[styles.title, { color: colors.textPrimary }]}>{t('pay_402_title')}</Text>
+        <Text style={[styles.message, { color: colors.textSecondary }]}>
+          {t('pay_402_message', { domain: request.domain })}
+        </Text>
+        <Text style={[styles.path, { color: colors.textTertiary }]} numberOfLines={1} ellipsizeMode="middle">
+          {path}
+        </Text>
+
+        <Text style={[styles.amount, { color: colors.textPrimary }]}>
+          {formatAmount(request.sats, currency, satoshisPerUSD)}
+        </Text>
+        <Text style={[styles.ceiling, { color: colors.textTertiary }]}>
+          {t('pay_402_over_ceiling', { ceiling: formatAmount(request.ceiling, currency, satoshisPerUSD) })}
+        </Text>
+
+        <View style={styles.buttonRow}>
+          <PressableScale
+            style={[styles.buttonDeny, { borderColor: colors.separator, minHeight: hitTargets.minimum }]}
+            onPress={() => decide('decline')}
+          >
+            <Text style={[styles.buttonDenyText, { color: colors.textSecondary }]}>{t('cancel')}</Text>
+          </PressableScale>
+          <PressableScale
+            style={[styles.buttonAllow, { backgroundColor: colors.accent, minHeight: hitTargets.minimum }]}
+            onPress={() => decide('once')}
+          >
+            <Text style={[styles.buttonAllowText, { color: colors.textOnAccent }]}>{t('pay_402_pay')}</Text>
+          </PressableScale>
+        </View>
+
+        <PressableScale style={styles.alwaysButton} onPress={() => decide('always')}>
+          <Text style={[styles.alwaysText, { color: colors.accent }]}>
+            {t('pay_402_always', { domain: request.domain })}
+          </Text>
+        </PressableScale>
+      </View>
+    </Sheet>
+  )
+}
+
+const styles = StyleSheet.create({
+  body: {
+    paddingHorizontal: spacing.xl,
+    paddingBottom: spacing.xl,
+    alignItems: 'center'
+  },
+  iconCircle: {
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: spacing.md
+  },
+  title: {
+    ...typography.headline,
+    textAlign: 'center'
+  },
+  message: {
+    ...typography.subhead,
+    textAlign: 'center',
+    marginTop: spacing.xs
+  },
+  path: {
+    ...typography.footnote,
+    textAlign: 'center',
+    marginTop: spacing.xs,
+    maxWidth: '100%'
+  },
+  amount: {
+    fontSize: 34,
+    fontWeight: '700',
+    letterSpacing: -0.8,
+    marginTop: spacing.lg,
+    fontVariant: ['tabular-nums']
+  },
+  ceiling: {
+    ...typography.footnote,
+    textAlign: 'center',
+    marginTop: spacing.xs
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: spacing.md,
+    marginTop: spacing.xl,
+    width: '100%'
+  },
+  buttonDeny: {
+    flex: 1,
+    borderRadius: radii.lg,
+    borderWidth: StyleSheet.hairlineWidth,
+    alignItems: 'center',
+    justifyContent: 'center'
+  },
+  buttonDenyText: {
+    ...typography.body
+  },
+  buttonAllow: {
+    flex: 1,
+    borderRadius: radii.lg,
+    alignItems: 'center',
+    justifyContent: 'center'
+  },
+  buttonAllowText: {
+    ...typography.body,
+    fontWeight: '600'
+  },
+  alwaysButton: {
+    marginTop: spacing.md,
+    paddingVertical: spacing.sm
+  },
+  alwaysText: {
+    ...typography.footnote,
+    fontWeight: '600',
+    textAlign: 'center'
+  }
+})
+
+export default PaymentConfirmSheet
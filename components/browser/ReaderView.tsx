@@ -0,0 +1,329 @@
+import React, { useEffect, useState } from 'react'
+import { BackHandler, ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native'
+import { useSafeAreaInsets } from 'react-native-safe-area-context'
+import { Image } from 'expo-image'
+import { observer } from 'mobx-react-lite'
+import { Ionicons } from '@expo/vector-icons'
+import { useTranslation } from 'react-i18next'
+import { haptics } from '@/hooks/useHaptics'
+import { useTheme } from '@/context/theme/ThemeContext'
+import { spacing, typography, radii } from '@/context/theme/tokens'
+import { showToast } from '@/components/ui/Toast'
+import readerStore, { READER_FONT_SCALE_MAX, READER_FONT_SCALE_MIN, READER_FONT_SCALE_STEP } from '@/stores/ReaderStore'
+import { readingMinutes, type ArticleBlock } from '@/utils/reader/article'
+
+interface Props {
+  /** Close the reader and load the article's page in the active tab. */
+  onOpenOriginal: (url: string) => void
+}
+
+// Body text at fontScale 1; everything else is sized relative to it.
+const BASE_FONT = 18
+const MAX_TEXT_WIDTH = 680
+
+// Pictures arrive with no size, so hold a 16:9 box until one loads.
+const ArticleImage = ({ src, caption }: { src: string; caption?: string }) => {
+  const { colors } = useTheme()
+  const [aspect, setAspect] = useState(16 / 9)
+  return (
+    <View style={styles.figure}>
+      <Image
+        source={{ uri: src }}
+        style={[styles.image, { aspectRatio: aspect, backgroundColor: colors.fillTertiary }]}
+        contentFit="cover"
+        onLoad={e => {
+          const { width, height } = e.source
+          if (width > 0 && height > 0) setAspect(width / height)
+        }}
+      />
+      {caption ? <Text style={[styles.caption, { color: colors.textSecondary }]}>{caption}</Text> : null}
+    </View>
+  )
+}
+
+const Block = ({ block, size }: { block: ArticleBlock; size: number }) => {
+  const { colors } = useTheme()
+  const body = { fontSize: size, lineHeight: Math.round(size * 1.55), color: colors.textPrimary }
+  switch (block.type) {
+    case 'heading': {
+      const headingSize = Math.round(size * (block.level === 1 ? 1.45 : block.level === 2 ? 1.25 : 1.1))
+      return (
+        <Text
+          style={[
+            styles.heading,
+            { fontSize: headingSize, lineHeight: Math.round(headingSize * 1.3), color: colors.textPrimary }
+          ]}
+          accessibilityRole="header"
+        >
+          {block.text}
+        </Text>
+      )
+    }
+    case 'paragraph':
+      return <Text style={[styles.paragraph, body]}>{block.text}</Text>
+    case 'quote':
+      return (
+        <View style={[styles.quote, { borderLeftColor: colors.separatorOpaque }]}>
+          <Text style={[body, styles.quoteText, { color: colors.textSecondary }]}>{block.text}</Text>
+        </View>
+      )
+    case 'code':
+      return (
+        <ScrollView horizontal style={[styles.code, { backgroundColor: colors.fillTertiary }]}>
+          <Text style={[styles.codeText, { fontSize: Math.round(size * 0.8), color: colors.textPrimary }]}>
+            {block.text}
+          </Text>
+        </ScrollView>
+      )
+    case 'list':
+      return (
+        <View style={styles.list}>
+          {block.items.map((item, i) => (
+            <View key={i} style={styles.listItem}>
+              <Text style={[body, styles.bullet]}>{block.ordered ? `${i + 1}.` : '•'}</Text>
+              <Text style={[body, styles.listText]}>{item}</Text>
+            </View>
+          ))}
+        </View>
+      )
+    case 'image':
+      return <ArticleImage src={block.src} caption={block.caption} />
+  }
+}
+
+/**
+ * Reader mode: the open article from stores/ReaderStore.ts as plain themed
+ * text, with font size controls and a toggle to keep it in the reading list.
+ */
+const ReaderViewBase = ({ onOpenOriginal }: Props) => {
+  const { t } = useTranslation()
+  const { colors } = useTheme()
+  const insets = useSafeAreaInsets()
+  const article = readerStore.article
+
+  // Android back leaves the reader rather than the page behind it.
+  const open = !!article
+  useEffect(() => {
+    if (!open) return
+    const subscription = BackHandler.addEventListener('hardwareBackPress', () => {
+      readerStore.close()
+      return true
+    })
+    return () => subscription.remove()
+  }, [open])
+
+  if (!article) return null
+
+  const size = Math.round(BASE_FONT * readerStore.fontScale)
+  const saved = readerStore.savedItem(article.url)
+  const meta = [article.siteName, article.byline, t('reader_minutes', { count: readingMinutes(article) })]
+    .filter(Boolean)
+    .join(' · ')
+
+  const toggleSaved = () => {
+    if (saved) {
+      haptics.tap()
+      readerStore.removeSaved(saved.id)
+      showToast(t('reading_list_removed'))
+    } else if (readerStore.saveCurrent()) {
+      showToast(t('reading_list_saved'), { type: 'success' })
+    } else {
+      showToast(t('reading_list_save_failed'), { type: 'error' })
+    }
+  }
+
+  return (
+    <View style={[StyleSheet.absoluteFill, styles.root, { backgroundColor: colors.background }]}>
+      <View
+        style={[
+          styles.header,
+          {
+            paddingTop: insets.top + spacing.xs,
+            borderBottomColor: colors.separator,
+            backgroundColor: colors.background
+          }
+        ]}
+      >
+        <TouchableOpacity
+          style={styles.headerButton}
+          onPress={() => readerStore.close()}
+          accessibilityLabel={t('reader_close')}
+          hitSlop={8}
+        >
+          <Ionicons name="close" size={24} color={colors.textPrimary} />
+        </TouchableOpacity>
+        <View style={styles.headerSpacer} />
+        <TouchableOpacity
+          style={styles.headerButton}
+          onPress={() => readerStore.adjustFontScale(-READER_FONT_SCALE_STEP)}
+          disabled={readerStore.fontScale <= READER_FONT_SCALE_MIN}
+          accessibilityLabel={t('reader_font_smaller')}
+          hitSlop={8}
+        >
+          <Text
+            style={[
+              styles.fontButton,
+              {
+                fontSize: 15,
+                color: readerStore.fontScale <= READER_FONT_SCALE_MIN ? colors.textQuaternary : colors.textPrimary
+              }
+            ]}
+          >
+            A
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.headerButton}
+          onPress={() => readerStore.adjustFontScale(READER_FONT_SCALE_STEP)}
+          disabled={readerStore.fontScale >= READER_FONT_SCALE_MAX}
+          accessibilityLabel={t('reader_font_larger')}
+          hitSlop={8}
+        >
+          <Text
+            style={[
+              styles.fontButton,
+              {
+                fontSize: 22,
+                color: readerStore.fontScale >= READER_FONT_SCALE_MAX ? colors.textQuaternary : colors.textPrimary
+              }
+            ]}
+          >
+            A
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.headerButton}
+          onPress={toggleSaved}
+          accessibilityLabel={saved ? t('reading_list_remove') : t('reading_list_save')}
+          hitSlop={8}
+        >
+          <Ionicons name={saved ? 'glasses' : 'glasses-outline'} size={24} color={colors.textPrimary} />
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.headerButton}
+          onPress={() => {
+            readerStore.close()
+            onOpenOriginal(article.url)
+          }}
+          accessibilityLabel={t('reader_open_original')}
+          hitSlop={8}
+        >
+          <Ionicons name="globe-outline" size={22} color={colors.textPrimary} />
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView
+        contentContainerStyle={[styles.content, { paddingBottom: insets.bottom + spacing.xxxl }]}
+        key={article.url}
+      >
+        <View style={styles.column}>
+          <Text
+            style={[
+              styles.title,
+              { fontSize: Math.round(size * 1.6), lineHeight: Math.round(size * 2), color: colors.textPrimary }
+            ]}
+            accessibilityRole="header"
+          >
+            {article.title}
+          </Text>
+          {meta ? <Text style={[styles.meta, { color: colors.textSecondary }]}>{meta}</Text> : null}
+          {article.blocks.map((block, i) => (
+            <Block key={i} block={block} size={size} />
+          ))}
+        </View>
+      </ScrollView>
+    </View>
+  )
+}
+
+export const ReaderView = observer(ReaderViewBase)
+
+const styles = StyleSheet.create({
+  root: {
+    zIndex: 60
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: spacing.sm,
+    paddingBottom: spacing.xs,
+    borderBottomWidth: StyleSheet.hairlineWidth
+  },
+  headerButton: {
+    minWidth: 44,
+    height: 44,
+    alignItems: 'center',
+    justifyContent: 'center'
+  },
+  headerSpacer: {
+    flex: 1
+  },
+  fontButton: {
+    fontWeight: '600'
+  },
+  content: {
+    paddingHorizontal: spacing.xl,
+    paddingTop: spacing.xl
+  },
+  column: {
+    width: '100%',
+    maxWidth: MAX_TEXT_WIDTH,
+    alignSelf: 'center'
+  },
+  title: {
+    fontWeight: '700',
+    marginBottom: spacing.sm
+  },
+  meta: {
+    ...typography.footnote,
+    marginBottom: spacing.xl
+  },
+  heading: {
+    fontWeight: '700',
+    marginTop: spacing.lg,
+    marginBottom: spacing.sm
+  },
+  paragraph: {
+    marginBottom: spacing.lg
+  },
+  quote: {
+    borderLeftWidth: 3,
+    paddingLeft: spacing.md,
+    marginBottom: spacing.lg
+  },
+  quoteText: {
+    fontStyle: 'italic'
+  },
+  code: {
+    borderRadius: radii.sm,
+    padding: spacing.md,
+    marginBottom: spacing.lg
+  },
+  codeText: {
+    fontFamily: 'monospace'
+  },
+  list: {
+    marginBottom: spacing.lg
+  },
+  listItem: {
+    flexDirection: 'row',
+    marginBottom: spacing.xs
+  },
+  bullet: {
+    minWidth: 24
+  },
+  listText: {
+    flex: 1
+  },
+  figure: {
+    marginBottom: spacing.lg
+  },
+  image: {
+    width: '100%',
+    borderRadius: radii.sm
+  },
+  caption: {
+    ...typography.footnote,
+    marginTop: spacing.xs
+  }
+})
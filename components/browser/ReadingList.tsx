@@ -0,0 +1,206 @@
+import React, { useCallback } from 'react'
+import { FlatList, Pressable, StyleSheet, Text, View } from 'react-native'
+import ReanimatedSwipeable, { SwipeDirection } from 'react-native-gesture-handler/ReanimatedSwipeable'
+import { observer } from 'mobx-react-lite'
+import { Ionicons } from '@expo/vector-icons'
+import { useTranslation } from 'react-i18next'
+import { haptics } from '@/hooks/useHaptics'
+import { useTheme } from '@/context/theme/ThemeContext'
+import { spacing, typography, radii } from '@/context/theme/tokens'
+import { showAlert } from '@/components/ui/AlertCard'
+import { showToast } from '@/components/ui/Toast'
+import readerStore, { type ReadingListItem } from '@/stores/ReaderStore'
+import { readingMinutes } from '@/utils/reader/article'
+
+interface Props {
+  /** Load the article's page in the browser instead of the saved copy. */
+  onOpenOriginal: (url: string) => void
+  /** Called once a saved article is open in the reader view. */
+  onOpened: () => void
+}
+
+const ReadingRow = ({
+  item,
+  isFirst,
+  isLast,
+  onOpen,
+  onMenu
+}: {
+  item: ReadingListItem
+  isFirst: boolean
+  isLast: boolean
+  onOpen: (item: ReadingListItem) => void
+  onMenu: (item: ReadingListItem) => void
+}) => {
+  const { t } = useTranslation()
+  const { colors } = useTheme()
+  const unread = !item.readAt
+
+  return (
+    <ReanimatedSwipeable
+      overshootRight={false}
+      renderRightActions={() => (
+        <View style={[styles.swipeDelete, { backgroundColor: colors.error }]}>
+          <Ionicons name="trash-outline" size={20} color="#fff" />
+        </View>
+      )}
+      onSwipeableOpen={direction => {
+        if (direction === SwipeDirection.LEFT) {
+          haptics.warning()
+          readerStore.removeSaved(item.id)
+        }
+      }}
+    >
+      <Pressable
+        style={[
+          styles.row,
+          { backgroundColor: colors.backgroundElevated },
+          isFirst && styles.first,
+          isLast && styles.last,
+          !isLast && { borderBottomWidth: StyleSheet.hairlineWidth, borderBottomColor: colors.separator }
+        ]}
+        onPress={() => onOpen(item)}
+        onLongPress={() => onMenu(item)}
+      >
+        <View style={[styles.unreadDot, { backgroundColor: unread ? colors.accent : 'transparent' }]} />
+        <View style={styles.rowText}>
+          <Text numberOfLines={2} style={[styles.title, { color: colors.textPrimary }]}>
+            {item.title}
+          </Text>
+          <Text numberOfLines={2} style={[styles.excerpt, { color: colors.textSecondary }]}>
+            {item.excerpt}
+          </Text>
+          <Text numberOfLines={1} style={[styles.meta, { color: colors.textTertiary }]}>
+            {[item.siteName, t('reader_minutes', { count: readingMinutes(item) })].filter(Boolean).join(' · ')}
+          </Text>
+        </View>
+      </Pressable>
+    </ReanimatedSwipeable>
+  )
+}
+
+/**
+ * Articles saved from reader mode. Tapping one opens the saved copy, which
+ * needs no network; long-press offers the live page and read state.
+ */
+const ReadingListBase = ({ onOpenOriginal, onOpened }: Props) => {
+  const { t } = useTranslation()
+  const { colors } = useTheme()
+  const items = readerStore.readingList
+
+  const open = useCallback(
+    async (item: ReadingListItem) => {
+      haptics.tap()
+      if (await readerStore.openSaved(item.id)) {
+        onOpened()
+        return
+      }
+      // The file is gone (storage cleared); the page itself may still be there.
+      showToast(t('reading_list_missing'), { type: 'error' })
+      onOpenOriginal(item.url)
+    },
+    [onOpenOriginal, onOpened, t]
+  )
+
+  const menu = useCallback(
+    async (item: ReadingListItem) => {
+      haptics.tap()
+      const choice = await showAlert({
+        title: item.title,
+        buttons: [
+          { text: t('reader_open_original'), style: 'default', key: 'original' },
+          {
+            text: item.readAt ? t('reading_list_mark_unread') : t('reading_list_mark_read'),
+            style: 'default',
+            key: 'read'
+          },
+          { text: t('reading_list_remove'), style: 'destructive', key: 'remove' },
+          { text: t('cancel'), style: 'cancel', key: 'cancel' }
+        ]
+      })
+      if (choice === 'original') onOpenOriginal(item.url)
+      else if (choice === 'read') readerStore.markRead(item.id, !item.readAt)
+      else if (choice === 'remove') readerStore.removeSaved(item.id)
+    },
+    [onOpenOriginal, t]
+  )
+
+  if (!items.length) {
+    return (
+      <View style={styles.empty}>
+        <Ionicons name="glasses-outline" size={40} color={colors.textTertiary} />
+        <Text style={[styles.emptyText, { color: colors.textSecondary }]}>{t('reading_list_empty')}</Text>
+      </View>
+    )
+  }
+
+  return (
+    <FlatList
+      style={styles.list}
+      data={items}
+      keyExtractor={i => i.id}
+      renderItem={({ item, index }) => (
+        <ReadingRow item={item} isFirst={index === 0} isLast={index === items.length - 1} onOpen={open} onMenu={menu} />
+      )}
+      ListFooterComponent={<View style={{ height: 80 }} />}
+    />
+  )
+}
+
+export const ReadingList = observer(ReadingListBase)
+
+const styles = StyleSheet.create({
+  list: {
+    flex: 1
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    paddingVertical: spacing.md,
+    paddingRight: spacing.md
+  },
+  first: {
+    borderTopLeftRadius: radii.md,
+    borderTopRightRadius: radii.md
+  },
+  last: {
+    borderBottomLeftRadius: radii.md,
+    borderBottomRightRadius: radii.md
+  },
+  unreadDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    marginTop: 6,
+    marginHorizontal: spacing.sm
+  },
+  rowText: {
+    flex: 1,
+    gap: 2
+  },
+  title: {
+    ...typography.headline
+  },
+  excerpt: {
+    ...typography.subhead
+  },
+  meta: {
+    ...typography.caption1,
+    marginTop: 2
+  },
+  swipeDelete: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    width: 60
+  },
+  empty: {
+    alignItems: 'center',
+    paddingVertical: spacing.xxxl,
+    gap: spacing.md
+  },
+  emptyText: {
+    ...typography.subhead,
+    textAlign: 'center',
+    paddingHorizontal: spacing.xl
+  }
+})
@@ -7,10 +7,12 @@ import { kNEW_TAB_URL } from '@/shared/constants'
 import { PermissionType, PermissionState } from '@/utils/permissionsManager'
 import { spacing } from '@/context/theme/tokens'
 import type { SheetContextType } from '@/context/SheetContext'
+import type { HistoryRange } from '@/utils/history/historyStore'
 
 import { BrowserPage } from '@/components/browser/BrowserPage'
 import { HistoryList } from '@/components/browser/HistoryList'
 import { BookmarkList } from '@/components/browser/BookmarkList'
+import { ReadingList } from '@/components/browser/ReadingList'
 import Sheet from '@/components/ui/Sheet'
 
 type Props = {
@@ -20,7 +22,8 @@ type Props = {
   homepageUrl: string
   updateActiveTab: (patch: Partial<Tab>) => void
   history: HistoryEntry[]
-  clearHistory: () => Promise<void>
+  clearHistoryRange: (range: HistoryRange) => Promise<HistoryEntry[]>
+  searchHistory: (text: string) => Promise<HistoryEntry[]>
   removeHistoryItem: (url: string) => Promise<void>
   handlePermissionChange: (permission: PermissionType, state: PermissionState) => Promise<void>
   addBookmark: (title: string, url: string) => void
@@ -33,7 +36,8 @@ export function SheetRouter({
   homepageUrl,
   updateActiveTab,
   history,
-  clearHistory,
+  clearHistoryRange,
+  searchHistory,
   removeHistoryItem,
   handlePermissionChange,
   addBookmark
@@ -41,7 +45,7 @@ export function SheetRouter({
   const { t } = useTranslation()
   const isNewTab = activeTab?.url === kNEW_TAB_URL
 
-  const FULL_PAGE_ROUTES = ['bookmarks', 'history'] as const
+  const FULL_PAGE_ROUTES = ['bookmarks', 'reading-list', 'history'] as const
   const isFullPage = FULL_PAGE_ROUTES.includes(sheet.route as any)
   // No route is fit-content any more: the wallet menu became a full screen
   // (app/wallet.tsx) rather than a bottom sheet.
@@ -51,6 +55,8 @@ export function SheetRouter({
     switch (sheet.route) {
       case 'bookmarks':
         return t('bookmarks') || 'Bookmarks'
+      case 'reading-list':
+        return t('reading_list')
       case 'history':
         return t('history') || 'History'
       default:
@@ -87,12 +93,15 @@ export function SheetRouter({
 
       {sheet.route === 'bookmarks' && <BookmarkList onSelect={navigateAndClose} hideTitle />}
 
+      {sheet.route === 'reading-list' && <ReadingList onOpenOriginal={navigateAndClose} onOpened={sheet.close} />}
+
       {sheet.route === 'history' && (
         <HistoryList
           history={history}
           onSelect={navigateAndClose}
           onDelete={removeHistoryItem}
-          onClear={clearHistory}
+          onClear={clearHistoryRange}
+          onSearch={searchHistory}
           hideTitle
         />
       )}
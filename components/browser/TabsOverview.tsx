@@ -8,6 +8,7 @@ import {
   Pressable,
   StyleSheet,
   Text,
+  TextInput,
   TouchableOpacity,
   TouchableWithoutFeedback,
   View
@@ -23,23 +24,50 @@ import { useTranslation } from 'react-i18next'
 import { useTheme } from '@/context/theme/ThemeContext'
 import { BlurChrome } from '@/components/ui/BlurChrome'
 import { IconButton } from '@/components/ui/IconButton'
+import { showAlert } from '@/components/ui/AlertCard'
 import { spacing, radii } from '@/context/theme/tokens'
 import { springs, durations } from '@/context/theme/motion'
-import tabStore from '@/stores/TabStore'
-import type { Tab } from '@/shared/types/browser'
+import tabStore, { TAB_GROUP_COLORS } from '@/stores/TabStore'
+import { containersSupported } from '@/utils/webview/containerStore'
+import type { Tab, TabGroup } from '@/shared/types/browser'
 
 const kNEW_TAB_URL = 'about:blank'
+const GROUP_HEADER_H = 44
+
+// The grid is flattened into rows so groups can head their own runs of tabs:
+// a header per group, then its tabs two to a row (none while collapsed), and
+// the ungrouped tabs last.
+type Row = { kind: 'header'; key: string; group: TabGroup; count: number } | { kind: 'tabs'; key: string; tabs: Tab[] }
+
+function buildRows(): Row[] {
+  const rows: Row[] = []
+  const pairs = (tabs: Tab[], prefix: string) => {
+    for (let i = 0; i < tabs.length; i += 2) {
+      rows.push({ kind: 'tabs', key: `${prefix}:${tabs[i].id}`, tabs: tabs.slice(i, i + 2) })
+    }
+  }
+  for (const group of tabStore.groups) {
+    const tabs = tabStore.tabsInGroup(group.id)
+    rows.push({ kind: 'header', key: `header:${group.id}`, group, count: tabs.length })
+    if (!group.collapsed) pairs(tabs, group.id)
+  }
+  pairs(tabStore.tabsInGroup(null), 'ungrouped')
+  return rows
+}
 
 interface TabsOverviewProps {
   onDismiss: () => void
   setAddressFocused: (focused: boolean) => void
-  onNewTab?: () => void
+  // Called with a group id when the tab is opened from that group's header.
+  onNewTab?: (groupId?: string) => void
+  onNewPrivateTab?: () => void
 }
 
 const TabsOverviewBase: React.FC<TabsOverviewProps> = ({
   onDismiss,
   setAddressFocused,
-  onNewTab
+  onNewTab,
+  onNewPrivateTab
 }) => {
   const { colors } = useTheme()
   const { t } = useTranslation()
@@ -59,10 +87,155 @@ const TabsOverviewBase: React.FC<TabsOverviewProps> = ({
   // Open anchored at the bottom (newest in view); scroll up reaches older tabs.
   // Stop auto-anchoring once the user drags, so closing/relayout never yanks
   // their scroll position. Remounts per open (showTabsView toggle) reset this.
-  const listRef = React.useRef<FlatList<Tab>>(null)
+  const listRef = React.useRef<FlatList<Row>>(null)
   const userScrolled = React.useRef(false)
+  const [renaming, setRenaming] = React.useState<{ id: string; draft: string } | null>(null)
+
+  const rows = buildRows()
+  const offsets: number[] = []
+  rows.reduce((offset, row) => {
+    offsets.push(offset)
+    return offset + (row.kind === 'header' ? GROUP_HEADER_H : ROW_H)
+  }, 0)
+
+  const commitRename = () => {
+    if (renaming) tabStore.renameGroup(renaming.id, renaming.draft)
+    setRenaming(null)
+  }
+
+  const tabActions = async (tab: Tab) => {
+    if (tab.isPrivate) return
+    haptics.tap()
+    const choice = await showAlert({
+      title: tab.title || tab.url,
+      buttons: [
+        { text: t('tab_group_add'), key: 'add' },
+        ...(tab.groupId ? [{ text: t('tab_group_remove'), key: 'remove' }] : []),
+        { text: t('cancel'), style: 'cancel' as const, key: 'cancel' }
+      ]
+    })
+    if (choice === 'remove') tabStore.setTabGroup(tab.id, null)
+    if (choice !== 'add') return
+    const others = tabStore.groups.filter(g => g.id !== tab.groupId)
+    const target = others.length
+      ? await showAlert({
+          title: t('tab_group_move_to_title'),
+          buttons: [
+            ...others.map(g => ({ text: g.title, key: `group:${g.id}` })),
+            { text: t('tab_group_new'), key: 'new' },
+            { text: t('cancel'), style: 'cancel' as const, key: 'cancel' }
+          ]
+        })
+      : 'new'
+    if (target.startsWith('group:')) {
+      tabStore.setTabGroup(tab.id, target.slice('group:'.length))
+    } else if (target === 'new') {
+      const group = tabStore.createGroup('', [tab.id])
+      if (group) setRenaming({ id: group.id, draft: group.title })
+    }
+  }
+
+  const groupActions = async (group: TabGroup) => {
+    haptics.tap()
+    const index = tabStore.groups.indexOf(group)
+    const choice = await showAlert({
+      title: group.title,
+      buttons: [
+        { text: t('tab_group_rename'), key: 'rename' },
+        ...(index > 0 ? [{ text: t('tab_group_move_up'), key: 'up' }] : []),
+        ...(index < tabStore.groups.length - 1 ? [{ text: t('tab_group_move_down'), key: 'down' }] : []),
+        ...(containersSupported() || group.container
+          ? [
+              {
+                text: group.container ? t('tab_group_stop_container') : t('tab_group_make_container'),
+                key: 'container'
+              }
+            ]
+          : []),
+        { text: t('tab_group_ungroup'), key: 'ungroup' },
+        { text: t('tab_group_close'), style: 'destructive' as const, key: 'close' },
+        { text: t('cancel'), style: 'cancel' as const, key: 'cancel' }
+      ]
+    })
+    if (choice === 'rename') setRenaming({ id: group.id, draft: group.title })
+    else if (choice === 'up') tabStore.moveGroup(group.id, index - 1)
+    else if (choice === 'down') tabStore.moveGroup(group.id, index + 1)
+    else if (choice === 'ungroup') tabStore.removeGroup(group.id)
+    else if (choice === 'close') tabStore.removeGroup(group.id, true)
+    else if (choice === 'container') {
+      const confirm = await showAlert({
+        title: group.container ? t('tab_group_stop_container') : t('tab_group_make_container'),
+        message: group.container ? t('tab_group_stop_container_body') : t('tab_group_make_container_body'),
+        buttons: [
+          { text: t('cancel'), style: 'cancel', key: 'cancel' },
+          { text: t('continue'), key: 'continue' }
+        ]
+      })
+      if (confirm === 'continue') tabStore.setGroupContainer(group.id, !group.container)
+    }
+  }
 
-  const renderItem = ({ item, index }: { item: Tab; index: number }) => {
+  const renderHeader = (group: TabGroup, count: number) => (
+    <Pressable
+      style={[styles.groupHeader, { height: GROUP_HEADER_H }]}
+      onPress={() => tabStore.toggleGroupCollapsed(group.id)}
+      onLongPress={() => groupActions(group)}
+      delayLongPress={350}
+    >
+      <TouchableOpacity
+        onPress={() => {
+          const next = TAB_GROUP_COLORS[(TAB_GROUP_COLORS.indexOf(group.color) + 1) % TAB_GROUP_COLORS.length]
+          tabStore.setGroupColor(group.id, next)
+        }}
+        hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+        accessibilityLabel={t('tab_group_color')}
+      >
+        <View style={[styles.groupDot, { backgroundColor: group.color }]} />
+      </TouchableOpacity>
+      {renaming?.id === group.id ? (
+        <TextInput
+          value={renaming.draft}
+          onChangeText={draft => setRenaming({ id: group.id, draft })}
+          onSubmitEditing={commitRename}
+          onBlur={commitRename}
+          autoFocus
+          selectTextOnFocus
+          returnKeyType="done"
+          style={[styles.groupTitle, { color: colors.textPrimary }]}
+        />
+      ) : (
+        <Text numberOfLines={1} style={[styles.groupTitle, { color: colors.textPrimary }]}>
+          {group.title}
+        </Text>
+      )}
+      {group.container && containersSupported() && (
+        <Ionicons name="cube-outline" size={14} color={colors.textSecondary} />
+      )}
+      <Text style={[styles.groupCount, { color: colors.textSecondary }]}>{count}</Text>
+      {onNewTab && (
+        <TouchableOpacity
+          onPress={() => {
+            haptics.confirm()
+            onNewTab(group.id)
+          }}
+          hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+          accessibilityLabel={t('new_tab')}
+        >
+          <Ionicons name="add" size={20} color={colors.accent} />
+        </TouchableOpacity>
+      )}
+      <Ionicons name={group.collapsed ? 'chevron-down' : 'chevron-up'} size={18} color={colors.textSecondary} />
+    </Pressable>
+  )
+
+  const renderItem = ({ item }: { item: Row }) =>
+    item.kind === 'header' ? (
+      renderHeader(item.group, item.count)
+    ) : (
+      <View style={styles.tabRow}>{item.tabs.map(tab => renderTab(tab, tabStore.tabs.indexOf(tab)))}</View>
+    )
+
+  const renderTab = (item: Tab, index: number) => {
     const renderSwipeAction = (
       _progress: Animated.AnimatedInterpolation<number>,
       dragX: Animated.AnimatedInterpolation<number>,
@@ -82,6 +255,7 @@ const TabsOverviewBase: React.FC<TabsOverviewProps> = ({
 
     return (
       <Reanimated.View
+        key={item.id}
         entering={reducedMotion ? undefined : FadeInDown.duration(durations.quick).delay(Math.min(index * 20, 160)).springify().stiffness(springs.settle.stiffness).damping(springs.settle.damping)}
       >
       <Swipeable
@@ -106,7 +280,10 @@ const TabsOverviewBase: React.FC<TabsOverviewProps> = ({
             {
               width: ITEM_W,
               height: ITEM_H,
-              borderColor: item.id === tabStore.activeTabId ? colors.accent : colors.separator,
+              borderColor:
+                item.id === tabStore.activeTabId
+                  ? colors.accent
+                  : (tabStore.group(item.groupId)?.color ?? colors.separator),
               borderWidth: item.id === tabStore.activeTabId ? 2.5 : StyleSheet.hairlineWidth,
               backgroundColor: colors.backgroundSecondary
             }
@@ -116,6 +293,8 @@ const TabsOverviewBase: React.FC<TabsOverviewProps> = ({
             tabStore.setActiveTab(item.id)
             onDismiss()
           }}
+          onLongPress={() => tabActions(item)}
+          delayLongPress={350}
         >
           <TouchableOpacity
             style={[styles.closeButton, { backgroundColor: colors.fill }]}
@@ -155,6 +334,15 @@ const TabsOverviewBase: React.FC<TabsOverviewProps> = ({
               </View>
             )}
             <View style={[styles.titleBar, { backgroundColor: colors.chromeBackground }]}>
+              {item.isPrivate && (
+                <Ionicons
+                  name="eye-off"
+                  size={12}
+                  color={colors.accent}
+                  style={styles.privateIcon}
+                  accessibilityLabel={t('private_tab')}
+                />
+              )}
               <Text numberOfLines={1} style={{ flex: 1, color: colors.textPrimary, fontSize: 12 }}>
                 {item.title || t('new_tab')}
               </Text>
@@ -174,20 +362,21 @@ const TabsOverviewBase: React.FC<TabsOverviewProps> = ({
 
       <FlatList
         ref={listRef}
-        data={tabStore.tabs.slice()}
+        data={rows}
         renderItem={renderItem}
-        keyExtractor={item => item.id.toString()}
-        numColumns={2}
+        keyExtractor={item => item.key}
         removeClippedSubviews
         maxToRenderPerBatch={6}
         updateCellsBatchingPeriod={50}
         initialNumToRender={6}
         windowSize={10}
-        extraData={tabStore.activeTabId}
-        getItemLayout={(_, index) => {
-          const row = Math.floor(index / 2)
-          return { length: ROW_H, offset: ROW_H * row, index }
-        }}
+        extraData={`${tabStore.activeTabId}:${renaming?.id ?? ''}:${renaming?.draft ?? ''}`}
+        getItemLayout={(data, index) => ({
+          length: data?.[index]?.kind === 'header' ? GROUP_HEADER_H : ROW_H,
+          offset: offsets[index] ?? 0,
+          index
+        })}
+        keyboardShouldPersistTaps="handled"
         onScrollBeginDrag={() => { userScrolled.current = true }}
         onContentSizeChange={() => {
           if (!userScrolled.current) listRef.current?.scrollToEnd({ animated: false })
@@ -237,6 +426,18 @@ const TabsOverviewBase: React.FC<TabsOverviewProps> = ({
             accessibilityLabel="New tab"
           />
         )}
+        {onNewPrivateTab && (
+          <IconButton
+            name="eye-off-outline"
+            onPress={() => {
+              haptics.confirm()
+              onNewPrivateTab()
+            }}
+            size={24}
+            color={colors.accent}
+            accessibilityLabel={t('new_private_tab')}
+          />
+        )}
         <IconButton
           name="close"
           onPress={onDismiss}
@@ -285,9 +486,38 @@ const styles = StyleSheet.create({
     bottom: 0,
     left: 0,
     right: 0,
+    flexDirection: 'row',
+    alignItems: 'center',
     paddingVertical: 6,
     paddingHorizontal: spacing.sm,
   },
+  privateIcon: {
+    marginRight: spacing.xs,
+  },
+  tabRow: {
+    flexDirection: 'row',
+  },
+  groupHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    paddingHorizontal: '4%',
+  },
+  groupDot: {
+    width: 14,
+    height: 14,
+    borderRadius: 7,
+  },
+  groupTitle: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    paddingVertical: 0,
+  },
+  groupCount: {
+    fontSize: 13,
+    fontVariant: ['tabular-nums'],
+  },
   swipeDelete: {
     justifyContent: 'center',
     alignItems: 'center',
@@ -0,0 +1,67 @@
+/**
+ * The unbroadcast-risk meter for one offline channel: how much is held with
+ * this counterparty against the limit set for it, and what would land first.
+ *
+ * Same honesty rule as OfflineNotice — held payments are "not yet broadcast",
+ * never received or sent — and the colour follows the risk, not the direction:
+ * a full meter is the one case that refuses the next payment, and nothing
+ * here is green, which this feature keeps for confirmed money.
+ */
+import React from 'react'
+import { StyleSheet, Text, View } from 'react-native'
+import { useTranslation } from 'react-i18next'
+import { useTheme } from '@/context/theme/ThemeContext'
+import { radii, spacing, typography } from '@/context/theme/tokens'
+import { formatSatoshis } from '@/utils/amountFormatHelpers'
+import { channelReleaseOrder, channelRisk, type OfflineChannel } from '@/utils/pay/rails/nearby'
+
+interface ChannelMeterProps {
+  channel: OfflineChannel
+  /** Who the channel is with, as the screen already names them. */
+  label?: string
+}
+
+export default function ChannelMeter({ channel, label }: ChannelMeterProps) {
+  const { t } = useTranslation()
+  const { colors } = useTheme()
+  const risk = channelRisk(channel)
+  const held = channelReleaseOrder(channel).length
+  const tint = risk.level === 'full' ? colors.error : risk.level === 'high' ? colors.warning : colors.textSecondary
+  const percent = Math.round(risk.fraction * 100)
+
+  return (
+    <View style={styles.wrap} accessibilityLabel={t('channel_meter_a11y', { percent })}>
+      <View style={styles.row}>
+        <Text style={[styles.title, { color: colors.textPrimary }]} numberOfLines={1}>
+          {label ?? t('channel_meter_title')}
+        </Text>
+        <Text style={[styles.figure, { color: tint }]}>
+          {t('channel_meter_figure', {
+            exposure: formatSatoshis(risk.exposure),
+            limit: formatSatoshis(risk.limit)
+          })}
+        </Text>
+      </View>
+      <View style={[styles.track, { backgroundColor: colors.surfaceSunken }]}>
+        <View style={[styles.fill, { backgroundColor: tint, width: `${risk.fraction * 100}%` }]} />
+      </View>
+      <Text style={[styles.body, { color: colors.textSecondary }]}>
+        {risk.level === 'full'
+          ? t('channel_meter_full')
+          : held > 0
+            ? t('channel_meter_held', { count: held })
+            : t('channel_meter_clear')}
+      </Text>
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  wrap: { gap: spacing.xs },
+  row: { flexDirection: 'row', alignItems: 'baseline', justifyContent: 'space-between', gap: spacing.sm },
+  title: { ...typography.subhead, fontWeight: '600', flexShrink: 1 },
+  figure: { ...typography.footnote, fontWeight: '600' },
+  track: { height: 6, borderRadius: radii.sm, overflow: 'hidden' },
+  fill: { height: 6 },
+  body: { ...typography.footnote }
+})
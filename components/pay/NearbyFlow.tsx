@@ -7,6 +7,9 @@
  *
  *   AWDL    iOS↔iOS peer-to-peer Wi-Fi, TLS-PSK. Fast path.
  *   Nearby  Android↔Android over Google Nearby Connections, same Nitro surface.
+ *   LAN     WebSocket found by instance name, wherever a LAN backend is installed
+ *           (transport/lan.ts) and neither radio is available. The app installs
+ *           none, so on a device this rung is never taken; jest and CI run it.
  *   QR      any platform pair. The payer renders the signed frame; the payee scans it.
  *
  * Phase machine
@@ -19,8 +22,8 @@
  *    │        · radio listener resolves ─┐
  *    │        · receive_scan (payer QR) ─┴→ receive_settling → done | already_paid
  *    └─ send_scan → send_confirm → send_working
- *           ├─ selectTransport() === 'awdl' | 'nearby' → radio.send → done
- *           └─ selectTransport() === 'qr'              → send_qr → done
+ *           ├─ selectTransport() === 'awdl' | 'nearby' | 'lan' → radio.send → done
+ *           └─ selectTransport() === 'qr'                      → send_qr → done
  *
  *   already_paid is a SUCCESS terminal, not an error: the session was settled by
  *   an earlier delivery, so that money is already queued. It is the expected end
@@ -35,6 +38,31 @@
  *   An AWDL listener error does NOT terminate the screen: the fast path is
  *   optional, so it degrades to a QR-only request with the pairing QR still up.
  *
+ * Checkout (the point-of-sale screen, app/pos.tsx) mounts this as a payee with
+ * a fixed `amount`: receive_amount is skipped, the request is minted bound to
+ * that figure, and a settled payment is reported through `onSettled` and ends
+ * back at the caller rather than on the wallet. Everything between — the
+ * transports, the settle path and every rule below — is the same code.
+ *
+ * A split bill is a payee request with a total and no bound amount: each payer
+ * sends a share, and a share that does not reach the total acks and goes back
+ * to receive_wait with the session still live, listener restarted. The share
+ * that reaches it closes the bill (utils/localpay/split.ts) and only then is
+ * the session burnt. Whatever that last share carried past the total is owed
+ * back to its sender, over the handle rail (useSplitRefund).
+ *
+ * A refund (`refund`, from app/pay.tsx) is the same payer flow pointed back
+ * at a payment this wallet received: the original payer hosts the request,
+ * and only a request from that identity, for that amount, is accepted. The
+ * refund is claimed before the build and settled by what the ack proves —
+ * utils/localpay/refund.ts keeps the record that links the two in history.
+ *
+ * With offline channel mode on (utils/offline/channel.ts), a payment that will
+ * be held unbroadcast is bounded by the limit this device set for the other
+ * one: a payer refuses to build past it, a payee declines with
+ * `limit_reached`. A payer's held payment spends the previous one's change, and
+ * both ends show what is held between them on a risk meter.
+ *
  * The amount may come from EITHER side. A payee can name a figure or leave the
  * request open, in which case the payer enters it on the confirm screen. See
  * `Session.amount` and the settle-binding note below — the two cases differ in
@@ -102,7 +130,7 @@ import { StatusBar } from 'expo-status-bar'
 import { useSafeAreaInsets } from 'react-native-safe-area-context'
 import { useTranslation } from 'react-i18next'
 import QRCode from 'react-native-qrcode-svg'
-import { createNonce } from '@bsv/sdk'
+import { createNonce, Utils } from '@bsv/sdk'
 import type { WalletInterface } from '@bsv/sdk'
 
 import QRScanner from '@/components/QRScanner'
@@ -111,9 +139,12 @@ import Celebration from '@/components/ui/Celebration'
 import PressableScale from '@/components/ui/PressableScale'
 import PresenceRow, { type PresenceState } from '@/components/localpay/PresenceRow'
 import AvailableBalance from '@/components/pay/AvailableBalance'
+import ChannelMeter from '@/components/pay/ChannelMeter'
 import { PayAmountField, RecipientSummary } from '@/components/pay/PayForm'
 import PaymentQrDisplay from '@/components/pay/PaymentQrDisplay'
 import ReceivedOverlay from '@/components/pay/PaymentSuccessOverlay'
+import { useOfflineChannels } from '@/components/pay/useOfflineChannels'
+import { useSplitRefund } from '@/components/pay/useSplitRefund'
 import { useTheme } from '@/context/theme/ThemeContext'
 import { radii, spacing, typography } from '@/context/theme/tokens'
 import { durations, springs } from '@/context/theme/motion'
@@ -128,15 +159,19 @@ import {
   MAX_MESSAGE_BYTES,
   awdlTransport,
   buildPaymentFrame,
+  chainHead,
   decodeSession,
   encodeSession,
   finalizeDelivery,
+  fitsLimit,
   frameBytesFromQr,
   holdSentPaymentOffline,
   isAirGapPart,
   isDeclineReason,
   isSessionSpent,
+  lanTransport,
   localSupportsAwdl,
+  localSupportsLan,
   localSupportsNearby,
   markSessionSpent,
   mintSession,
@@ -148,6 +183,15 @@ import {
   sealFrame,
   selectTransport,
   unsealFrame,
+  bySender,
+  openSplit,
+  paidSoFar,
+  recordContribution,
+  linkOf,
+  recordLink,
+  remaining,
+  type OfflineChannel,
+  type SplitTally,
   type Ack,
   type ConfirmDelivery,
   type DeclineReason,
@@ -235,7 +279,8 @@ const DECLINE_KEYS: Record<DeclineReason, string> = {
   session_mismatch: 'local_pay_declined_mismatch',
   already_paid: 'local_pay_declined_already_paid',
   save_failed: 'local_pay_declined_save',
-  decode_failed: 'local_pay_declined_decode'
+  decode_failed: 'local_pay_declined_decode',
+  limit_reached: 'local_pay_declined_limit'
 }
 
 const NOTICE_ICONS: Record<NoticeTone, keyof typeof Ionicons.glyphMap> = {
@@ -252,6 +297,17 @@ function messageOf(e: unknown): string {
   return text === '[object Object]' ? '' : text
 }
 
+/** A payment this device held offline, as its channel with the payee records it. */
+function sentLink(built: Awaited<ReturnType<typeof buildPaymentFrame>>, txid: string, satoshis: number) {
+  return {
+    txid,
+    direction: 'sent' as const,
+    satoshis,
+    inputTxids: linkOf(built.frame.transaction)?.inputTxids ?? [],
+    change: built.change
+  }
+}
+
 /**
  * iOS surfaces a Local Network denial through Network.framework as a policy or
  * routing error rather than a typed permission result, so this is a match on the
@@ -282,14 +338,62 @@ function satsFrom(text: string): number {
 
 // ── Screen ──
 
+/** A payment this device durably queued, as reported to a checkout. */
+export interface SettledPayment {
+  /** The pending-queue entry it was saved as. */
+  pendingId: string
+  sessionId: Uint8Array
+  /** Verified, and equal to the checkout amount the session was bound to. */
+  satoshis: number
+  senderIdentityKey: string
+}
+
+/**
+ * A payer-side payment that returns a received one. The refund goes only to
+ * the device that sent the original — the scanned request must be hosted by
+ * that identity — and only for the original amount.
+ */
+export interface NearbyRefund {
+  /** The original frame's `senderIdentityKey`. */
+  recipient: string
+  satoshis: number
+  /** Claim the refund before anything is built. False means it is no longer owed, and nothing is sent. */
+  claim: () => Promise<boolean>
+  /**
+   * How a claimed attempt ended. Not called where delivery is unknown — a lost
+   * ack, or a QR that was shown but never confirmed — so the refund stays
+   * claimed rather than becoming sendable twice.
+   */
+  settle: (outcome: { sent: true; txid?: string } | { sent: false; error?: string }) => void
+}
+
 export interface NearbyFlowProps {
   /** Which side of the exchange this device is on. Set by the cell that mounted it. */
   role: 'payer' | 'payee'
   /** Leave the flow. The Pay screen decides what that means (back to the grid). */
   onExit: () => void
+  /**
+   * Checkout mode, payee only: request exactly this many satoshis, with no
+   * amount screen. A retry re-mints for the same figure; cancel exits.
+   */
+  amount?: number
+  /**
+   * Called once per payment, after it is durably queued and acked — never on
+   * a path that queued nothing. Bookkeeping only: it runs outside the settle
+   * path and nothing it does can reach the payment.
+   */
+  onSettled?: (payment: SettledPayment) => void
+  /** Refund mode, payer only: pay back a received payment, to its sender, for its amount. */
+  refund?: NearbyRefund
 }
 
-export default function NearbyFlow({ role: initialRole, onExit }: NearbyFlowProps) {
+export default function NearbyFlow({
+  role: initialRole,
+  onExit,
+  amount: checkoutAmount,
+  onSettled,
+  refund
+}: NearbyFlowProps) {
   const { t } = useTranslation()
   const { colors } = useTheme()
   const insets = useSafeAreaInsets()
@@ -305,7 +409,8 @@ export default function NearbyFlow({ role: initialRole, onExit }: NearbyFlowProp
   /** The session the payer scanned off the payee's screen. */
   const [scannedSession, setScannedSession] = useState<Session | null>(null)
 
-  const [requestAmount, setRequestAmount] = useState('')
+  const checkout = initialRole === 'payee' && checkoutAmount !== undefined
+  const [requestAmount, setRequestAmount] = useState(checkout ? String(checkoutAmount) : '')
   /**
    * The payee is raising an OPEN request — no figure, the payer decides.
    *
@@ -314,6 +419,15 @@ export default function NearbyFlow({ role: initialRole, onExit }: NearbyFlowProp
    * Continue disabled, while this is a complete request that happens to name no
    * amount.
    */
+  /** The payee is collecting a split bill: `requestAmount` is the total, not one payment. */
+  const [splitting, setSplitting] = useState(false)
+  /** The hosted split's tally, refreshed after every share and every refund attempt. */
+  const [splitTally, setSplitTally] = useState<SplitTally | null>(null)
+  /** The pendingId of a refund being sent, so its button cannot be pressed twice. */
+  const [refundingId, setRefundingId] = useState<string | null>(null)
+  const { refund: sendRefund, available: canRefund } = useSplitRefund(t)
+  /** A closed bill's refunds are attempted once on their own; after that only by hand. */
+  const autoRefundedRef = useRef(false)
   /** The payer's own entry, used only when the scanned session left the amount open. */
   const [sendAmount, setSendAmount] = useState('')
 
@@ -331,6 +445,13 @@ export default function NearbyFlow({ role: initialRole, onExit }: NearbyFlowProp
   const [peerKey, setPeerKey] = useState<string | null>(null)
   const [peerName, setPeerName] = useState<string | null>(null)
 
+  /**
+   * Offline channel mode (utils/offline/channel.ts): what is held unbroadcast
+   * with `peerKey`, for the risk meter. Null with the mode off or no peer yet.
+   */
+  const { enabled: channelMode, channelWith } = useOfflineChannels()
+  const [channel, setChannel] = useState<OfflineChannel | null>(null)
+
   /** True once the AWDL link has provably carried this session's frame. */
   const [linked, setLinked] = useState(false)
 
@@ -434,10 +555,17 @@ export default function NearbyFlow({ role: initialRole, onExit }: NearbyFlowProp
     }
   }, [])
 
-  /** The radio this device listens on as payee, if any. */
+  /** Whether a LAN backend is installed. Cheap, but fixed for the mount like the others. */
+  const supportsLan = useMemo(() => localSupportsLan(), [])
+
+  /**
+   * The socket this device listens on as payee, if any: a radio when there is
+   * one, the LAN otherwise. One listener only, so the LAN cap is advertised
+   * only when the LAN is what is listening.
+   */
   const radioTransport = useMemo(
-    () => (supportsAwdl ? awdlTransport : nearbyReady ? nearbyTransport : null),
-    [supportsAwdl, nearbyReady]
+    () => (supportsAwdl ? awdlTransport : nearbyReady ? nearbyTransport : supportsLan ? lanTransport : null),
+    [supportsAwdl, nearbyReady, supportsLan]
   )
 
   const abortAll = useCallback(() => {
@@ -509,7 +637,11 @@ export default function NearbyFlow({ role: initialRole, onExit }: NearbyFlowProp
     setRole(initialRole)
     setHostedSession(null)
     setScannedSession(null)
-    setRequestAmount('')
+    setRequestAmount(checkout ? String(checkoutAmount) : '')
+    setSplitting(false)
+    setSplitTally(null)
+    setRefundingId(null)
+    autoRefundedRef.current = false
     setSendAmount('')
     setPaymentQr(null)
     setSettledAmount(0)
@@ -524,7 +656,7 @@ export default function NearbyFlow({ role: initialRole, onExit }: NearbyFlowProp
     setLinked(false)
     setCelebrating(false)
     setReceivedOverlay(null)
-  }, [abortAll, initialRole])
+  }, [abortAll, initialRole, checkout, checkoutAmount])
 
   const goBack = useCallback(() => {
     abortAll()
@@ -550,6 +682,37 @@ export default function NearbyFlow({ role: initialRole, onExit }: NearbyFlowProp
     }
   }, [peerKey, wallet, adminOriginator])
 
+  useEffect(() => {
+    if (!channelMode || !peerKey) {
+      setChannel(null)
+      return
+    }
+    let live = true
+    channelWith(peerKey)
+      .then(c => live && setChannel(c))
+      .catch(e => console.warn('[localpay] channel read failed:', messageOf(e)))
+    return () => {
+      live = false
+    }
+  }, [channelMode, peerKey, channelWith])
+
+  /**
+   * Adds a payment this device just held offline to its channel with
+   * `counterparty`. Bookkeeping after the money has moved, so a failure is
+   * logged and never reaches the payment's own outcome.
+   */
+  const recordHeld = useCallback(
+    async (counterparty: string, link: Parameters<typeof recordLink>[2]) => {
+      if (!channelMode || !storage) return
+      try {
+        setChannel(await recordLink(storage, counterparty, link))
+      } catch (e) {
+        console.warn('[localpay] channel write failed:', messageOf(e))
+      }
+    },
+    [channelMode, storage]
+  )
+
   // ── Receive: settle ──
   //
   // The single write path. Called by the AWDL listener and by the QR scanner
@@ -681,10 +844,16 @@ export default function NearbyFlow({ role: initialRole, onExit }: NearbyFlowProp
       // so a failed check reads as "not yet broadcast" rather than crashing
       // the settle.
       const broadcastCheck = getOnline().catch(() => false)
+      // The one wait on that probe before the write, and only in channel mode:
+      // whether this payment will be held is what decides if its channel's
+      // limit applies to it at all.
+      const channelHeld = channelMode && !(await broadcastCheck)
 
       // ── Durable-write section ──
       // Everything that can legitimately be reported as a payment failure lives
       // in here, and only in here. Past the closing brace the money is safe.
+      let pendingId: string
+      let tally: SplitTally | null = null
       try {
         // (1) One-shot session guard, before anything is written. A re-scanned
         //     or replayed session must never credit twice.
@@ -701,6 +870,23 @@ export default function NearbyFlow({ role: initialRole, onExit }: NearbyFlowProp
           return
         }
 
+        // (1a) An offline channel's limit, before anything is written. Held,
+        //      this payment joins what the payer already leaves unbroadcast
+        //      with this device; one that would pass the limit is declined,
+        //      so the payer releases its inputs, and the request stays live.
+        if (channelHeld) {
+          const held = await channelWith(frame.senderIdentityKey)
+          if (held && !fitsLimit(held, satoshis)) {
+            void confirm?.(false, 'limit_reached')
+            settlingRef.current = false
+            scanLatchRef.current = false
+            setNotice({ text: t('channel_limit_declined'), tone: 'warning' })
+            setPhase('receive_wait')
+            setListenerEpoch(n => n + 1)
+            return
+          }
+        }
+
         // (2) Persist before anything else. Once this resolves the money cannot
         //     be lost to a crash, a dead network or a closed app.
         //
@@ -711,13 +897,37 @@ export default function NearbyFlow({ role: initialRole, onExit }: NearbyFlowProp
         //     `radioTransport?.kind` names which radio, falling back to 'awdl'
         //     only for the (unreachable in practice) case confirm exists but
         //     the listener that produced it has since gone.
-        await savePending(storage, frame, confirm ? (radioTransport?.kind ?? 'awdl') : 'qr')
+        pendingId = (await savePending(storage, frame, confirm ? (radioTransport?.kind ?? 'awdl') : 'qr')).id
+
+        // (2a) A split bill counts the share. Caught on its own for the same
+        //      reason as (3): the frame is queued, so a tally that cannot be
+        //      written is a bill that reads short, never a failed payment.
+        if (session.splitTotal !== undefined) {
+          try {
+            tally = await recordContribution(storage, session.sessionId, {
+              pendingId,
+              senderIdentityKey: frame.senderIdentityKey,
+              satoshis,
+              receivedAt: new Date().toISOString()
+            })
+          } catch (e) {
+            console.warn('[localpay] split tally failed:', messageOf(e))
+          }
+        }
+
+        // (2b) A held payment is a link in its payer's channel. Caught inside
+        //      recordHeld, for the same reason as (2a).
+        const link = channelHeld ? linkOf(frame.transaction) : null
+        if (link) await recordHeld(frame.senderIdentityKey, { ...link, direction: 'received', satoshis })
 
         // (3) Only now is it safe to burn the session. Doing this first would
         //     mean a crash in between marks the session handled while nothing
         //     was persisted — unrecoverable, because sessions are one-shot.
+        //     A split bill stays live until its tally closes.
         try {
-          await markSessionSpent(storage, session.sessionId)
+          if (session.splitTotal === undefined || tally?.closedAt !== undefined) {
+            await markSessionSpent(storage, session.sessionId)
+          }
         } catch (e) {
           // The frame is already queued, so this is not a payment failure and
           // must not be reported as one. internalizeAction is idempotent on a
@@ -748,12 +958,36 @@ export default function NearbyFlow({ role: initialRole, onExit }: NearbyFlowProp
       //      moves as soon as possible.
       void confirm?.(true)
 
+      // A checkout's own record of the sale. After the ack, and caught here, so
+      // a throwing caller can neither delay the payer nor fail the payment.
+      try {
+        onSettled?.({ pendingId, sessionId: session.sessionId, satoshis, senderIdentityKey: frame.senderIdentityKey })
+      } catch (e) {
+        console.warn('[localpay] onSettled threw:', messageOf(e))
+      }
+
+      // A share that leaves the bill open: the payer is done, the payee is not.
+      // Back to waiting with the same session, both latches released and the
+      // listener this frame consumed restarted. Nothing is internalized yet —
+      // processPending on the closing share credits every queued share at once.
+      if (session.splitTotal !== undefined && tally?.closedAt === undefined) {
+        if (tally) setSplitTally(tally)
+        settlingRef.current = false
+        scanLatchRef.current = false
+        setUnsettled(null)
+        setPhase('receive_wait')
+        setListenerEpoch(n => n + 1)
+        return
+      }
+
       // ── Past here the frame is durably queued ──
       // The payment cannot be lost, so nothing below may flip the screen to a
       // failure. A payee who is told "failed" taps Retry, mints a fresh session,
       // and the payer builds a second createAction from different UTXOs: both
       // internalize, the payee is credited twice and the payer pays twice.
-      setSettledAmount(satoshis)
+      const received = tally ? paidSoFar(tally) : satoshis
+      setSettledAmount(received)
+      if (tally) setSplitTally(tally)
       setRole('payee')
       setPhase('done')
       setUnsettled(null)
@@ -799,13 +1033,33 @@ export default function NearbyFlow({ role: initialRole, onExit }: NearbyFlowProp
         // spendable, and a receipt claiming otherwise is the one thing the tone
         // rule above exists to prevent. A queued settle keeps the neutral notice
         // on the done screen instead.
-        if (credited) setReceivedOverlay({ amount: satoshis, broadcast: await broadcastCheck })
+        //
+        // Not at a checkout: the receipt navigates to the wallet, and the
+        // counter's next customer is waiting on the till, not the balance.
+        // Nor over a split bill that owes a refund, whose status is on the
+        // done screen the receipt would cover.
+        const owesRefund = (tally?.refunds.length ?? 0) > 0
+        if (credited && !checkout && !owesRefund) {
+          setReceivedOverlay({ amount: received, broadcast: await broadcastCheck })
+        }
       } catch (e) {
         console.warn('[localpay] processPending failed:', messageOf(e))
         setNotice({ text: t('local_pay_queued'), tone: 'info' })
       }
     },
-    [storage, wallet, adminOriginator, radioTransport, fail, t]
+    [
+      storage,
+      wallet,
+      adminOriginator,
+      radioTransport,
+      checkout,
+      channelMode,
+      channelWith,
+      recordHeld,
+      onSettled,
+      fail,
+      t
+    ]
   )
 
   // Read through refs so the listener effect below depends only on the session
@@ -870,6 +1124,8 @@ export default function NearbyFlow({ role: initialRole, onExit }: NearbyFlowProp
     // read back as "any amount".
     const requested = satsFrom(requestAmount)
     const sats = requested > 0 ? requested : undefined
+    // A split bill always has a total; Continue is disabled until it does.
+    if (splitting && sats === undefined) return
     // Gate on storage too, not just the wallet. Advertising with storage null
     // means a payer can deliver a frame the payee then cannot persist, after the
     // transport has already acked it as accepted.
@@ -887,22 +1143,64 @@ export default function NearbyFlow({ role: initialRole, onExit }: NearbyFlowProp
       const derivationSuffix = await createNonce(wallet, 'self', adminOriginator)
       const session = mintSession({
         identityKey,
-        amount: sats,
+        ...(splitting ? { splitTotal: sats } : { amount: sats }),
         derivationPrefix,
         derivationSuffix,
         // Caps advertise what this payee can DO; the payer's ladder picks the
         // highest rung both sides share, QR being the floor.
         supportsAwdl,
         supportsNearby: nearbyReady,
+        supportsLan: radioTransport?.kind === 'lan',
         os: Platform.OS === 'ios' ? 'ios' : 'android'
       })
+      // The tally exists before the request is advertised, so the first share
+      // always has somewhere to land.
+      setSplitTally(splitting && sats !== undefined ? await openSplit(storage, session.sessionId, sats) : null)
       setRole('payee')
       setHostedSession(session)
       setPhase('receive_wait')
     } catch (e) {
       fail('generic', messageOf(e))
     }
-  }, [requestAmount, wallet, storage, adminOriginator, supportsAwdl, nearbyReady, fail, t])
+  }, [requestAmount, splitting, wallet, storage, adminOriginator, supportsAwdl, nearbyReady, radioTransport, fail, t])
+
+  // ── Receive: refund a split bill's overpayment ──
+  //
+  // Never on the settle path: the bill is closed and every share queued before
+  // this runs, so a refund that fails is money still owed, not a payment lost.
+
+  const refundExcess = useCallback(
+    async (pendingId: string) => {
+      if (!splitTally) return
+      setRefundingId(pendingId)
+      try {
+        const next = await sendRefund(new Uint8Array(Utils.toArray(splitTally.sessionId, 'hex')), pendingId)
+        if (next) setSplitTally(next)
+      } catch (e) {
+        // The tally itself could not be read or written; the refund is still
+        // owed on disk and the button stays up.
+        console.warn('[localpay] split refund failed:', messageOf(e))
+      } finally {
+        setRefundingId(null)
+      }
+    },
+    [splitTally, sendRefund]
+  )
+
+  useEffect(() => {
+    if (phase !== 'done' || !splitTally?.closedAt || !canRefund || autoRefundedRef.current) return
+    autoRefundedRef.current = true
+    for (const r of splitTally.refunds) if (r.status === 'owed') void refundExcess(r.pendingId)
+  }, [phase, splitTally, canRefund, refundExcess])
+
+  // A checkout has its figure already, so the amount screen is passed straight
+  // through — on entry, and again after reset() when a retry lands back on it.
+  useEffect(() => {
+    if (checkout && phase === 'receive_amount') void startRequest()
+  }, [checkout, phase, startRequest])
+
+  /** Cancel on the payee side: a checkout goes back to its cart, which is where its amount came from. */
+  const cancelRequest = checkout ? goBack : reset
 
   // ── Receive: scan the payer's frame ──
 
@@ -957,6 +1255,19 @@ export default function NearbyFlow({ role: initialRole, onExit }: NearbyFlowProp
         fail('generic', t('invalid_qr_code'))
         return
       }
+      // A refund is owed to one identity, for one figure. Any other request —
+      // someone else's, a different amount, a share of a bill — is refused
+      // here, before a confirm screen could make it look payable.
+      if (refund) {
+        if (session.identityKey.toLowerCase() !== refund.recipient.toLowerCase()) {
+          fail('generic', t('refund_wrong_payee'))
+          return
+        }
+        if (session.splitTotal !== undefined || (session.amount !== undefined && session.amount !== refund.satoshis)) {
+          fail('generic', t('refund_amount_mismatch'))
+          return
+        }
+      }
       setScannedSession(session)
       // Who is being paid. Best-effort lookup for the presence row and the
       // recipient card; nothing waits on it.
@@ -965,7 +1276,7 @@ export default function NearbyFlow({ role: initialRole, onExit }: NearbyFlowProp
       setRole('payer')
       setPhase('send_confirm')
     },
-    [fail, t]
+    [refund, fail, t]
   )
 
   /**
@@ -986,13 +1297,14 @@ export default function NearbyFlow({ role: initialRole, onExit }: NearbyFlowProp
    *
    * The payee's request wins outright when they named one — the payer must not
    * be able to talk it down, and the payee's settle check would refuse anything
-   * else anyway. Otherwise it is the payer's own entry. 0 means "not a usable
-   * amount yet" and keeps Send disabled.
+   * else anyway. Otherwise it is the refund's figure in refund mode, and the
+   * payer's own entry everywhere else. 0 means "not a usable amount yet" and
+   * keeps Send disabled.
    */
   const payAmount = useMemo(() => {
     if (!scannedSession) return 0
-    return scannedSession.amount ?? satsFrom(sendAmount)
-  }, [scannedSession, sendAmount])
+    return scannedSession.amount ?? refund?.satoshis ?? satsFrom(sendAmount)
+  }, [scannedSession, refund, sendAmount])
 
   // ── Send: release an abandoned build ──
   //
@@ -1043,6 +1355,14 @@ export default function NearbyFlow({ role: initialRole, onExit }: NearbyFlowProp
       fail('generic', t('wallet_not_ready'))
       return
     }
+    // A refund is claimed before anything is built, so a second device or a
+    // second tap finds it already in flight. Every exit below that provably
+    // sent nothing hands the claim back.
+    if (refund && !(await refund.claim())) {
+      fail('generic', t('refund_not_owed'))
+      return
+    }
+    const release = (error?: string) => refund?.settle({ sent: false, error })
     setPhase('send_working')
 
     const registry = abortsRef.current
@@ -1050,24 +1370,43 @@ export default function NearbyFlow({ role: initialRole, onExit }: NearbyFlowProp
     registry.add(controller)
 
     try {
+      // An offline channel bounds what may be left unbroadcast with this payee
+      // and chains this payment onto the last one held with them. Online the
+      // payment is broadcast at once and nothing is held, so neither applies.
+      let chainFrom: string[] | undefined
+      if (channelMode && !(await getOnline().catch(() => false))) {
+        const held = await channelWith(session.identityKey).catch(() => null)
+        if (held && !fitsLimit(held, payAmount)) {
+          release(t('channel_limit_reached'))
+          fail('generic', t('channel_limit_reached'))
+          return
+        }
+        chainFrom = held ? chainHead(held) : undefined
+      }
+
       let built: Awaited<ReturnType<typeof buildPaymentFrame>>
       try {
         // The structural `PayingWallet` in build.ts pins `createAction().tx` to
         // `number[]`, while the SDK's `AtomicBEEF` is `Byte[] | Uint8Array`. The
         // manager satisfies the contract at runtime — build.ts wraps the result in
         // `new Uint8Array(...)`, which accepts either — so this is nominal only.
-        built = await buildPaymentFrame(
-          wallet as unknown as PayingWalletArg,
-          session,
-          adminOriginator,
-          payAmount
-        )
+        const build = (from?: string[]) =>
+          buildPaymentFrame(wallet as unknown as PayingWalletArg, session, adminOriginator, payAmount, from)
+        built = await build(chainFrom).catch(e => {
+          // A head whose change is gone — spent by a payment outside the
+          // channel — fails the build before any action exists. The chain
+          // then carries on from whatever the wallet funds this one with.
+          if (!chainFrom) throw e
+          console.warn('[localpay] channel head unusable, building unchained:', messageOf(e))
+          return build()
+        })
       } catch (e) {
         // Build errors are wallet errors and must keep their own message. A
         // declined spending prompt reads "Permission denied", which the Local
         // Network heuristic would otherwise misread into an Open Settings button
         // for the wrong permission, discarding the real reason. Nothing was
         // built, so there is nothing to abort.
+        release(messageOf(e))
         if (!controller.signal.aborted) fail('generic', messageOf(e))
         return
       }
@@ -1075,6 +1414,7 @@ export default function NearbyFlow({ role: initialRole, onExit }: NearbyFlowProp
         // The user backed out or the screen blurred while "Delivering…" was up.
         // The frame was never handed to a transport and never rendered.
         abortBuild(built.reference)
+        release()
         return
       }
 
@@ -1087,6 +1427,7 @@ export default function NearbyFlow({ role: initialRole, onExit }: NearbyFlowProp
         const sealed = sealFrame(built.frame, session.psk)
         if (sealed.length > MAX_MESSAGE_BYTES) {
           abortBuild(built.reference)
+          release(t('local_pay_too_large'))
           setPaymentQr(null)
           fail('generic', t('local_pay_too_large'))
           return
@@ -1098,8 +1439,8 @@ export default function NearbyFlow({ role: initialRole, onExit }: NearbyFlowProp
       }
 
       // sendKind is neither 'qr' (returned above) nor null (guarded at the top
-      // of this callback), so it names one of the two radios here.
-      const radio = sendKind === 'awdl' ? awdlTransport : nearbyTransport
+      // of this callback), so it names one of the socket rungs here.
+      const radio = sendKind === 'awdl' ? awdlTransport : sendKind === 'nearby' ? nearbyTransport : lanTransport
 
       let ack: Ack
       try {
@@ -1146,8 +1487,12 @@ export default function NearbyFlow({ role: initialRole, onExit }: NearbyFlowProp
           // instead — same outward outcome, an honest cause.
           if (!storage) throw new Error('no local storage to queue this payment in')
           await holdSentPaymentOffline({ storage, txid })
+          await recordHeld(session.identityKey, sentLink(built, txid, payAmount))
         }
       })
+      // Like the ack itself, settled whether or not the screen is still up.
+      if (outcome.kind === 'declined') release(declineMessage(outcome.reason))
+      else refund?.settle({ sent: true, txid: built.txid })
       if (controller.signal.aborted) return
 
       if (outcome.kind === 'declined') {
@@ -1180,7 +1525,22 @@ export default function NearbyFlow({ role: initialRole, onExit }: NearbyFlowProp
     } finally {
       registry.delete(controller)
     }
-  }, [scannedSession, sendKind, payAmount, wallet, adminOriginator, storage, abortBuild, declineMessage, fail, t])
+  }, [
+    scannedSession,
+    sendKind,
+    payAmount,
+    refund,
+    wallet,
+    adminOriginator,
+    storage,
+    channelMode,
+    channelWith,
+    recordHeld,
+    abortBuild,
+    declineMessage,
+    fail,
+    t
+  ])
 
   // ── Send: the payer asserts QR delivery ──
   //
@@ -1218,8 +1578,10 @@ export default function NearbyFlow({ role: initialRole, onExit }: NearbyFlowProp
       hold: async txid => {
         if (!storage) throw new Error('no local storage to queue this payment in')
         await holdSentPaymentOffline({ storage, txid, framePayload })
+        await recordHeld(session.identityKey, sentLink(built, txid, payAmount))
       }
     })
+    refund?.settle({ sent: true, txid: built.txid })
     if (outcome.kind === 'sent' && outcome.broadcast === 'pending') {
       console.warn('[localpay] QR delivery queued or broadcast pending:', outcome.detail ?? '')
       setNotice({ text: t('local_pay_broadcast_pending'), tone: 'warning' })
@@ -1227,7 +1589,7 @@ export default function NearbyFlow({ role: initialRole, onExit }: NearbyFlowProp
     setSettledAmount(payAmount)
     setRole('payer')
     setPhase('done')
-  }, [wallet, storage, adminOriginator, payAmount, scannedSession, paymentQr, t])
+  }, [wallet, storage, adminOriginator, payAmount, scannedSession, paymentQr, refund, recordHeld, t])
 
   // ── The success moment ──
   //
@@ -1315,7 +1677,10 @@ export default function NearbyFlow({ role: initialRole, onExit }: NearbyFlowProp
 
   /** Listening over a radio link right now. Goes false once the fast path gives up. */
   const radioActive = hostedSession !== null && radioTransport !== null && nearbyError === null
-  const canSend = payAmount > 0
+  // A share over the whole bill is refused by buildPaymentFrame anyway; this
+  // keeps the button from offering it.
+  const shareTooLarge = scannedSession?.splitTotal !== undefined && payAmount > scannedSession.splitTotal
+  const canSend = payAmount > 0 && !shareTooLarge
   const scannerOpen = phase === 'send_scan' || phase === 'receive_scan'
 
   /**
@@ -1351,9 +1716,9 @@ export default function NearbyFlow({ role: initialRole, onExit }: NearbyFlowProp
     if (role === 'payer') {
       // Every payer branch degrades to `qr` when the QR transport was selected,
       // because on that path the two devices genuinely never speak. `awdl` and
-      // `nearby` are both live radio links (iOS and Android respectively), so
-      // either counts here.
-      const onRadio = sendKind === 'awdl' || sendKind === 'nearby'
+      // `nearby` are both live radio links (iOS and Android respectively), and
+      // `lan` is a live socket too, so any of them counts here.
+      const onRadio = sendKind === 'awdl' || sendKind === 'nearby' || sendKind === 'lan'
       if (phase === 'send_working') {
         return onRadio ? at('waiting', 'local_pay_presence_waiting_payer') : qr()
       }
@@ -1480,7 +1845,7 @@ export default function NearbyFlow({ role: initialRole, onExit }: NearbyFlowProp
             </View>
             <View style={styles.gapLg} />
             {phaseTitle(t('local_pay_scan_qr'))}
-            {supportText(t('pay_pre_nearby'))}
+            {supportText(refund ? t('refund_scan_hint') : t('pay_pre_nearby'))}
             <View style={styles.gapXl} />
             <PrimaryButton
               styles={styles}
@@ -1533,23 +1898,36 @@ export default function NearbyFlow({ role: initialRole, onExit }: NearbyFlowProp
         {phase === 'receive_amount' && (
           <Animated.View entering={settleIn}>
             {phaseTitle(t('local_pay_request'))}
-            {supportText(t('local_pay_amount_optional_hint'))}
+            {supportText(splitting ? t('split_bill_hint') : t('local_pay_amount_optional_hint'))}
+            <View style={styles.gapXl} />
+            <Segment
+              styles={styles}
+              colors={colors}
+              value={splitting ? 'split' : 'single'}
+              options={[
+                { value: 'single', label: t('split_bill_single') },
+                { value: 'split', label: t('split_bill_split') }
+              ]}
+              onChange={v => setSplitting(v === 'split')}
+            />
             <View style={styles.gapXl} />
 
             {/* No max button and no balance line: this asks the PAYER for money,
                 so the requester's own balance is meaningless here. */}
             <PayAmountField value={requestAmount} onChangeText={setRequestAmount} showMax={false} showBalance={false} />
-            {/* Never disabled. Leaving the amount at zero is a real choice — it
-                means "payer decides" — so gating Continue on a non-zero amount
-                would make that choice unreachable. startRequest maps 0 to an
-                open session. */}
+            {/* Never disabled for one payer. Leaving the amount at zero is a
+                real choice — it means "payer decides" — so gating Continue on
+                a non-zero amount would make that choice unreachable.
+                startRequest maps 0 to an open session. A split bill has no
+                such choice: without a total there is nothing to close. */}
             <PrimaryButton
               styles={styles}
               colors={colors}
               label={t('continue_action')}
+              disabled={splitting && satsFrom(requestAmount) <= 0}
               onPress={() => void startRequest()}
             />
-            <CancelButton styles={styles} colors={colors} label={t('cancel')} onPress={reset} />
+            <CancelButton styles={styles} colors={colors} label={t('cancel')} onPress={cancelRequest} />
           </Animated.View>
         )}
 
@@ -1572,12 +1950,15 @@ export default function NearbyFlow({ role: initialRole, onExit }: NearbyFlowProp
               maxFontSizeMultiplier={1.4}
               numberOfLines={1}
             >
-              {hostedSession.amount === undefined ? (
+              {hostedSession.splitTotal !== undefined ? (
+                <AmountDisplay>{splitTally ? remaining(splitTally) : hostedSession.splitTotal}</AmountDisplay>
+              ) : hostedSession.amount === undefined ? (
                 t('local_pay_any_amount')
               ) : (
                 <AmountDisplay>{hostedSession.amount}</AmountDisplay>
               )}
             </Text>
+            {hostedSession.splitTotal !== undefined && supportText(t('split_bill_left'))}
             <View style={styles.gapLg} />
 
             {sessionQr && !sessionQrBroken ? (
@@ -1611,6 +1992,13 @@ export default function NearbyFlow({ role: initialRole, onExit }: NearbyFlowProp
             <View style={styles.gapLg} />
             {presenceBlock}
 
+            {splitTally && splitTally.contributions.length > 0 && (
+              <>
+                <View style={styles.gapLg} />
+                <SplitTallyCard styles={styles} colors={colors} t={t} tally={splitTally} />
+              </>
+            )}
+
             {/* A frame arrived that belongs to a different request. Advisory,
                 not a failure: this session was deliberately NOT marked spent,
                 so the pairing QR above is still live for the real payer. */}
@@ -1628,6 +2016,15 @@ export default function NearbyFlow({ role: initialRole, onExit }: NearbyFlowProp
               </>
             )}
 
+            {/* A payer turned away by this device's channel limit. The request
+                is still live, like a mismatch, for a payer within it. */}
+            {!!notice && (
+              <>
+                <View style={styles.gapLg} />
+                {noticeBlock(notice)}
+              </>
+            )}
+
             {/* The fast path gave up. The request is still live over QR, so this
                 is an advisory, not a failure — the pairing QR above still works. */}
             {nearbyError && (
@@ -1665,7 +2062,7 @@ export default function NearbyFlow({ role: initialRole, onExit }: NearbyFlowProp
               label={t('local_pay_scan_payer_qr')}
               onPress={() => openScanner('receive_scan')}
             />
-            <CancelButton styles={styles} colors={colors} label={t('cancel')} onPress={reset} />
+            <CancelButton styles={styles} colors={colors} label={t('cancel')} onPress={cancelRequest} />
           </Animated.View>
         )}
 
@@ -1674,9 +2071,33 @@ export default function NearbyFlow({ role: initialRole, onExit }: NearbyFlowProp
             when the payee fixed it, or the live field when they left it open. */}
         {phase === 'send_confirm' && scannedSession && (
           <Animated.View entering={settleIn}>
-            {phaseTitle(scannedSession.amount === undefined ? t('local_pay_choose_amount') : t('local_pay_send'))}
+            {phaseTitle(
+              refund
+                ? t('refund_title')
+                : scannedSession.splitTotal !== undefined
+                  ? t('split_bill_your_share')
+                  : scannedSession.amount === undefined
+                    ? t('local_pay_choose_amount')
+                    : t('local_pay_send')
+            )}
 
-            {scannedSession.amount === undefined ? (
+            {scannedSession.splitTotal !== undefined ? (
+              <>
+                <Text
+                  style={[styles.amountTitle, { color: colors.textSecondary }]}
+                  maxFontSizeMultiplier={1.4}
+                  numberOfLines={1}
+                >
+                  <AmountDisplay>{scannedSession.splitTotal}</AmountDisplay>
+                </Text>
+                {supportText(t('split_bill_share_hint'))}
+                <View style={styles.gapXl} />
+                <PayAmountField value={sendAmount} onChangeText={setSendAmount} />
+                {shareTooLarge && (
+                  <Text style={[styles.support, { color: colors.warning }]}>{t('split_bill_share_over')}</Text>
+                )}
+              </>
+            ) : scannedSession.amount === undefined && !refund ? (
               <>
                 {supportText(t('local_pay_enter_amount_send'))}
                 <View style={styles.gapXl} />
@@ -1684,7 +2105,7 @@ export default function NearbyFlow({ role: initialRole, onExit }: NearbyFlowProp
               </>
             ) : (
               <>
-                <View style={styles.stageTight}>{amountBlock(scannedSession.amount)}</View>
+                <View style={styles.stageTight}>{amountBlock(payAmount)}</View>
                 <View style={styles.gapXl} />
                 <AvailableBalance />
               </>
@@ -1694,6 +2115,12 @@ export default function NearbyFlow({ role: initialRole, onExit }: NearbyFlowProp
               name={peerName ?? abbreviateKey(scannedSession.identityKey)}
               detail={peerName ? abbreviateKey(scannedSession.identityKey) : undefined}
             />
+            {channel && (
+              <>
+                <View style={styles.gapLg} />
+                <ChannelMeter channel={channel} />
+              </>
+            )}
 
             <View style={styles.gapLg} />
             {presenceBlock}
@@ -1763,11 +2190,33 @@ export default function NearbyFlow({ role: initialRole, onExit }: NearbyFlowProp
             compete for the same beat. */}
         {phase === 'done' && (
           <View style={styles.stage}>
-            {phaseTitle(role === 'payer' ? t('local_pay_sent') : t('local_pay_received'))}
+            {phaseTitle(
+              role === 'payer' ? (refund ? t('refund_sent') : t('local_pay_sent')) : t('local_pay_received')
+            )}
             <View style={styles.gapSm} />
             {amountBlock(settledAmount, 'done-amount')}
             <View style={styles.gapMd} />
             {presenceBlock}
+            {channel && channel.links.length > 0 && (
+              <>
+                <View style={styles.gapXl} />
+                <ChannelMeter channel={channel} />
+              </>
+            )}
+            {splitTally?.closedAt !== undefined && (
+              <>
+                <View style={styles.gapXl} />
+                <SplitTallyCard
+                  styles={styles}
+                  colors={colors}
+                  t={t}
+                  tally={splitTally}
+                  refundingId={refundingId}
+                  canRefund={canRefund}
+                  onRefund={id => void refundExcess(id)}
+                />
+              </>
+            )}
             {!!notice && (
               <>
                 <View style={styles.gapXl} />
@@ -1776,14 +2225,15 @@ export default function NearbyFlow({ role: initialRole, onExit }: NearbyFlowProp
             )}
             <View style={styles.gapXl} />
             {/* A completed payment ends on the balance it changed, on every
-                rail: exit the flow, then land on the wallet. */}
+                rail: exit the flow, then land on the wallet. A checkout is the
+                exception — it goes back to the till for the next sale. */}
             <PrimaryButton
               styles={styles}
               colors={colors}
-              label={t('done')}
+              label={checkout ? t('pos_next_sale') : t('done')}
               onPress={() => {
                 goBack()
-                router.navigate('/wallet')
+                if (!checkout) router.navigate('/wallet')
               }}
             />
           </View>
@@ -1867,7 +2317,7 @@ export default function NearbyFlow({ role: initialRole, onExit }: NearbyFlowProp
             {/* With a frame in hand, reset() means abandoning it — the frame lives
                 only in memory — so it is demoted to the secondary action. */}
             {unsettled ? (
-              <CancelButton styles={styles} colors={colors} label={t('cancel')} onPress={reset} />
+              <CancelButton styles={styles} colors={colors} label={t('cancel')} onPress={cancelRequest} />
             ) : (
               <PrimaryButton styles={styles} colors={colors} label={t('retry')} onPress={reset} />
             )}
@@ -2025,12 +2475,126 @@ function CancelButton({
 }
 
 /**
- * Specific amount vs any amount.
+ * One payer vs a split bill.
  *
  * Concentric by construction: the track's 10pt radius is the segment's 8pt plus
  * the 2pt inset between them, so the selected pill sits parallel to the outer
  * edge instead of drifting away from it at the corners.
  */
+function Segment<T extends string>({
+  styles,
+  colors,
+  value,
+  options,
+  onChange
+}: {
+  styles: Styles
+  colors: Colors
+  value: T
+  options: { value: T; label: string }[]
+  onChange: (value: T) => void
+}) {
+  return (
+    <View style={[styles.segmentTrack, { backgroundColor: colors.fillTertiary }]} accessibilityRole="tablist">
+      {options.map(o => {
+        const selected = o.value === value
+        return (
+          <PressableScale
+            key={o.value}
+            onPress={() => onChange(o.value)}
+            haptic="tap"
+            style={[styles.segment, selected && { backgroundColor: colors.background }]}
+            accessibilityRole="tab"
+            accessibilityState={{ selected }}
+            accessibilityLabel={o.label}
+          >
+            <Text
+              style={[
+                styles.segmentText,
+                selected && styles.segmentTextSelected,
+                { color: selected ? colors.textPrimary : colors.textSecondary }
+              ]}
+              numberOfLines={1}
+            >
+              {o.label}
+            </Text>
+          </PressableScale>
+        )
+      })}
+    </View>
+  )
+}
+
+/**
+ * Who has paid what toward a split bill, and — once it has closed — where any
+ * overpayment refund stands. Senders are keys, abbreviated: resolving a name
+ * per payer would be a network call each, on the screen least likely to have one.
+ */
+function SplitTallyCard({
+  styles,
+  colors,
+  t,
+  tally,
+  refundingId,
+  canRefund,
+  onRefund
+}: {
+  styles: Styles
+  colors: Colors
+  t: ReturnType<typeof useTranslation>['t']
+  tally: SplitTally
+  refundingId?: string | null
+  canRefund?: boolean
+  onRefund?: (pendingId: string) => void
+}) {
+  return (
+    <View style={[styles.tallyCard, { backgroundColor: colors.fillTertiary, borderColor: colors.separator }]}>
+      {bySender(tally).map(s => (
+        <View key={s.senderIdentityKey} style={styles.tallyRow}>
+          <Text style={[styles.tallyLabel, { color: colors.textSecondary }]} numberOfLines={1}>
+            {abbreviateKey(s.senderIdentityKey)}
+            {s.payments > 1 ? ` ×${s.payments}` : ''}
+          </Text>
+          <Text style={[styles.tallyAmount, { color: colors.textPrimary }]}>
+            <AmountDisplay>{s.satoshis}</AmountDisplay>
+          </Text>
+        </View>
+      ))}
+      {tally.refunds.map(r => (
+        <View key={r.pendingId}>
+          <View style={styles.tallyRow}>
+            <Text style={[styles.tallyLabel, { color: colors.textSecondary }]} numberOfLines={2}>
+              {t(`split_refund_${r.status}`, { who: abbreviateKey(r.recipient) })}
+            </Text>
+            <Text style={[styles.tallyAmount, { color: colors.textPrimary }]}>
+              <AmountDisplay>{r.satoshis}</AmountDisplay>
+            </Text>
+          </View>
+          {r.status === 'owed' && (
+            <>
+              {(!!r.error || !canRefund) && (
+                <Text style={[styles.noticeText, { color: colors.warning }]}>
+                  {canRefund ? r.error : t('split_refund_no_box')}
+                </Text>
+              )}
+              {onRefund && (
+                <SecondaryButton
+                  styles={styles}
+                  colors={colors}
+                  icon="arrow-undo-outline"
+                  label={t('split_refund_retry')}
+                  disabled={!canRefund || refundingId === r.pendingId}
+                  onPress={() => onRefund(r.pendingId)}
+                />
+              )}
+            </>
+          )}
+        </View>
+      ))}
+    </View>
+  )
+}
+
 // ── Styles ──
 //
 // Density: 8pt vertical rhythm, 16pt gutter (spacing.lg), 24pt between sections
@@ -2138,8 +2702,27 @@ function makeStyles() {
       padding: 2,
       borderRadius: radii.md
     },
+    segment: {
+      flex: 1,
+      alignItems: 'center',
+      justifyContent: 'center',
+      minHeight: 36,
+      borderRadius: radii.sm
+    },
+    segmentText: { ...typography.subhead },
     segmentTextSelected: { fontWeight: '600' },
 
+    tallyCard: {
+      alignSelf: 'stretch',
+      gap: spacing.sm,
+      padding: spacing.md,
+      borderRadius: radii.md,
+      borderWidth: StyleSheet.hairlineWidth
+    },
+    tallyRow: { flexDirection: 'row', alignItems: 'center', gap: spacing.md },
+    tallyLabel: { ...typography.footnote, flex: 1 },
+    tallyAmount: { ...typography.subhead, fontVariant: ['tabular-nums'] },
+
     // The resolved-counterparty card and field labels moved to the shared
     // PayForm vocabulary (RecipientSummary / PayField).
 
@@ -0,0 +1,161 @@
+/**
+ * Offline channel mode, for a counter with no connectivity: the switch, the
+ * limit new channels open with, and one risk meter per counterparty whose
+ * limit can be set on its own.
+ *
+ * The mode is this device's alone. A channel holds on whichever end has it on
+ * — a vendor bounding what customers may leave unbroadcast with them, or a
+ * customer bounding what they leave with a stall — and nothing here needs the
+ * other device to agree.
+ */
+import React, { useCallback, useEffect, useState } from 'react'
+import { StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native'
+import { useTranslation } from 'react-i18next'
+import ChannelMeter from '@/components/pay/ChannelMeter'
+import { useOfflineChannels } from '@/components/pay/useOfflineChannels'
+import { GroupedSection } from '@/components/ui/GroupedList'
+import { ListRow } from '@/components/ui/ListRow'
+import { showToast } from '@/components/ui/Toast'
+import { useTheme } from '@/context/theme/ThemeContext'
+import { radii, spacing, typography } from '@/context/theme/tokens'
+import { formatSatoshis } from '@/utils/amountFormatHelpers'
+import type { OfflineChannel } from '@/utils/pay/rails/nearby'
+
+/** Editing the default limit rather than one counterparty's. */
+const DEFAULT_LIMIT = '*'
+
+const shortKey = (key: string) => `${key.slice(0, 8)}…`
+
+export default function OfflineChannels() {
+  const { t } = useTranslation()
+  const { colors } = useTheme()
+  const { settings, enabled, channels, update, setLimit } = useOfflineChannels()
+  const [open, setOpen] = useState<OfflineChannel[]>([])
+  const [editing, setEditing] = useState<string | null>(null)
+  const [draft, setDraft] = useState('')
+
+  const refresh = useCallback(async () => {
+    try {
+      setOpen((await channels()).filter(c => c.links.length > 0))
+    } catch (e) {
+      console.warn('[channel] read failed:', (e as Error)?.message)
+    }
+  }, [channels])
+
+  useEffect(() => {
+    if (enabled) void refresh()
+  }, [enabled, refresh])
+
+  const edit = useCallback((target: string, limit: number) => {
+    setEditing(target)
+    setDraft(String(limit))
+  }, [])
+
+  const saveLimit = useCallback(async () => {
+    if (!editing) return
+    const limit = Number(draft)
+    if (!Number.isSafeInteger(limit) || limit <= 0) {
+      showToast(t('channel_limit_invalid'), { type: 'error' })
+      return
+    }
+    try {
+      if (editing === DEFAULT_LIMIT) await update({ defaultLimit: limit })
+      else await setLimit(editing, limit)
+      setEditing(null)
+      void refresh()
+    } catch (e) {
+      console.warn('[channel] limit write failed:', (e as Error)?.message)
+      showToast(t('channel_limit_save_failed'), { type: 'error' })
+    }
+  }, [editing, draft, update, setLimit, refresh, t])
+
+  const toggle = useCallback(() => {
+    update({ enabled: !enabled }).catch(e => {
+      console.warn('[channel] settings write failed:', (e as Error)?.message)
+      showToast(t('channel_limit_save_failed'), { type: 'error' })
+    })
+  }, [enabled, update, t])
+
+  if (!settings) return null
+
+  const editor = (
+    <View style={styles.editor}>
+      <TextInput
+        style={[styles.input, { color: colors.textPrimary, borderColor: colors.separator }]}
+        value={draft}
+        onChangeText={setDraft}
+        placeholder={t('channel_limit_placeholder')}
+        placeholderTextColor={colors.textSecondary}
+        keyboardType="number-pad"
+        returnKeyType="done"
+        autoFocus
+        onSubmitEditing={() => void saveLimit()}
+      />
+      <TouchableOpacity
+        style={[styles.button, { backgroundColor: colors.accent }]}
+        onPress={() => void saveLimit()}
+        activeOpacity={0.7}
+      >
+        <Text style={[styles.buttonText, { color: colors.textOnAccent }]}>{t('channel_limit_save')}</Text>
+      </TouchableOpacity>
+    </View>
+  )
+
+  return (
+    <GroupedSection header={t('channel_section')} footer={t('channel_section_footer')}>
+      <ListRow
+        label={t('channel_mode')}
+        value={enabled ? t('channel_mode_on') : t('channel_mode_off')}
+        icon="link-outline"
+        iconColor="#5856D6"
+        showChevron={false}
+        onPress={toggle}
+        isLast={!enabled}
+      />
+      {enabled &&
+        (editing === DEFAULT_LIMIT ? (
+          editor
+        ) : (
+          <ListRow
+            label={t('channel_default_limit')}
+            value={formatSatoshis(settings.defaultLimit)}
+            icon="speedometer-outline"
+            iconColor={colors.accent}
+            onPress={() => edit(DEFAULT_LIMIT, settings.defaultLimit)}
+            isLast={open.length === 0}
+          />
+        ))}
+      {enabled &&
+        open.map(channel =>
+          editing === channel.counterparty ? (
+            <React.Fragment key={channel.counterparty}>{editor}</React.Fragment>
+          ) : (
+            <TouchableOpacity
+              key={channel.counterparty}
+              style={styles.meter}
+              onPress={() => edit(channel.counterparty, channel.limit)}
+              activeOpacity={0.7}
+              accessibilityRole="button"
+              accessibilityHint={t('channel_limit_edit_hint')}
+            >
+              <ChannelMeter channel={channel} label={shortKey(channel.counterparty)} />
+            </TouchableOpacity>
+          )
+        )}
+    </GroupedSection>
+  )
+}
+
+const styles = StyleSheet.create({
+  meter: { paddingHorizontal: spacing.lg, paddingVertical: spacing.md },
+  editor: { padding: spacing.lg, gap: spacing.sm },
+  input: {
+    ...typography.body,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderRadius: radii.md,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm
+  },
+  button: { borderRadius: radii.md, paddingVertical: spacing.md, alignItems: 'center', justifyContent: 'center' },
+  buttonText: { ...typography.body, fontWeight: '600' }
+})
@@ -0,0 +1,96 @@
+/**
+ * Sends a refund to an identity key over the handle rail, and reports what
+ * became of it in the terms every refund ledger shares (see split.ts and
+ * refund.ts): sent, minted but left in the outbox, or still owed.
+ *
+ * The MessageBox is the rail that needs nothing from the other device to be
+ * present, which is why every refund can fall back to it. The caller claims
+ * the refund before calling `deliver` and settles it with the result; this
+ * hook owns only the send and the question of whether it minted anything.
+ */
+import { useCallback, useMemo } from 'react'
+import { PeerPayClient } from '@bsv/message-box-client'
+import { useMessageBoxConfig } from '@/components/pay/MessageBoxConfig'
+import { useWallet } from '@/context/WalletContext'
+import { NO_MESSAGE_BOX, isMessageBoxNetworkError, sendViaHandle } from '@/utils/pay/rails/handle'
+import { getOutboxEntries } from '@/utils/peerpay/outbox'
+
+export type HandleRefundResult =
+  | { status: 'sent'; outboxId: string; refundTxid: string }
+  | { status: 'outbox'; outboxId: string; refundTxid?: string }
+  | { status: 'owed'; error: string }
+
+/** What a refund looks like to the sender, whichever ledger it came from. */
+interface ClaimedRefund {
+  recipient: string
+  satoshis: number
+  attemptedAt?: string
+}
+
+export function useHandleRefund(t: ReturnType<typeof import('react-i18next').useTranslation>['t']) {
+  const { managers, adminOriginator, storage } = useWallet()
+  const wallet = managers?.permissionsManager || null
+  const { messageBoxUrl } = useMessageBoxConfig(t)
+  const isConfigured = !!messageBoxUrl && messageBoxUrl !== NO_MESSAGE_BOX
+
+  const client = useMemo<PeerPayClient | null>(() => {
+    if (!isConfigured || !wallet) return null
+    try {
+      return new PeerPayClient({
+        messageBoxHost: messageBoxUrl,
+        walletClient: wallet as any,
+        originator: adminOriginator
+      })
+    } catch {
+      return null
+    }
+  }, [isConfigured, messageBoxUrl, wallet, adminOriginator])
+
+  /** The outbox entry a failed send left behind for this refund, if it got that far. */
+  const mintedFor = useCallback(
+    async (refund: ClaimedRefund) => {
+      if (!storage) return undefined
+      const since = refund.attemptedAt ?? ''
+      return (await getOutboxEntries(storage)).find(
+        e => e.recipient === refund.recipient && e.token.amount === refund.satoshis && e.createdAt >= since
+      )
+    },
+    [storage]
+  )
+
+  /**
+   * Send a claimed refund. Never rejects: a send that minted nothing comes back
+   * `owed` with the reason, so Retry can claim it again; one that minted and
+   * then failed comes back `outbox`, so it never can.
+   */
+  const deliver = useCallback(
+    async (refund: ClaimedRefund, note: string): Promise<HandleRefundResult> => {
+      if (!storage || !client) return { status: 'owed', error: t('refund_no_box') }
+      try {
+        const { outboxId, txid } = await sendViaHandle({
+          wallet: wallet as any,
+          adminOriginator,
+          client,
+          storage,
+          recipient: refund.recipient,
+          satoshis: refund.satoshis,
+          messageBoxUrl,
+          note
+        })
+        return { status: 'sent', outboxId, refundTxid: txid }
+      } catch (e) {
+        const minted = await mintedFor(refund).catch(() => undefined)
+        if (minted) return { status: 'outbox', outboxId: minted.id, refundTxid: minted.txid }
+        const error = isMessageBoxNetworkError(e)
+          ? t('message_box_unreachable')
+          : e instanceof Error && e.message
+            ? e.message
+            : t('unknown_error')
+        return { status: 'owed', error }
+      }
+    },
+    [storage, client, wallet, adminOriginator, messageBoxUrl, mintedFor, t]
+  )
+
+  return { deliver, available: client !== null && !!storage }
+}
@@ -0,0 +1,73 @@
+/**
+ * This device's offline channels (utils/offline/channel.ts), read through the
+ * offline queue so a chain that has landed stops counting against its limit.
+ *
+ * Every read reconciles first: the queue rows and the pending queue are what
+ * move a link out of `held`, and nothing else writes them into the channel.
+ * With no database to read the rows from, the channels are returned as they
+ * stand — reconciling against an empty queue would misread every sent link.
+ */
+import { useCallback, useEffect, useState } from 'react'
+import { useWallet } from '@/context/WalletContext'
+import { findOfflineActions } from '@/storage/methods/offlineActions'
+import {
+  getChannelSettings,
+  getChannels,
+  reconcileChannels,
+  setChannelLimit,
+  setChannelSettings,
+  type ChannelSettings,
+  type OfflineChannel
+} from '@/utils/pay/rails/nearby'
+
+export function useOfflineChannels() {
+  const { storage, walletUserId } = useWallet()
+  const [settings, setSettings] = useState<ChannelSettings | null>(null)
+
+  useEffect(() => {
+    if (!storage) return
+    let live = true
+    getChannelSettings(storage)
+      .then(s => live && setSettings(s))
+      .catch(e => console.warn('[channel] settings read failed:', (e as Error)?.message))
+    return () => {
+      live = false
+    }
+  }, [storage])
+
+  const channels = useCallback(async (): Promise<OfflineChannel[]> => {
+    if (!storage) return []
+    const db = storage.sqliteDb
+    if (!db) return getChannels(storage)
+    const rows = await findOfflineActions(db, walletUserId === null ? {} : { userId: walletUserId })
+    return reconcileChannels(storage, rows)
+  }, [storage, walletUserId])
+
+  /** The channel with one counterparty, reconciled — an empty one if none was ever opened. */
+  const channelWith = useCallback(
+    async (counterparty: string): Promise<OfflineChannel | null> => {
+      if (!storage || !settings) return null
+      const found = (await channels()).find(c => c.counterparty === counterparty)
+      return found ?? { counterparty, limit: settings.defaultLimit, links: [] }
+    },
+    [storage, settings, channels]
+  )
+
+  const update = useCallback(
+    async (patch: Partial<ChannelSettings>) => {
+      if (!storage) return
+      setSettings(await setChannelSettings(storage, patch))
+    },
+    [storage]
+  )
+
+  const setLimit = useCallback(
+    async (counterparty: string, limit: number) => {
+      if (!storage) return null
+      return setChannelLimit(storage, counterparty, limit)
+    },
+    [storage]
+  )
+
+  return { settings, enabled: settings?.enabled === true, channels, channelWith, update, setLimit }
+}
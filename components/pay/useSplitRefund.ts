@@ -0,0 +1,45 @@
+/**
+ * Returns a split bill's overpayment to whoever paid it, over the handle rail.
+ *
+ * The nearby link is gone by the time a bill closes — the payer who crossed
+ * the total has already been acked and walked off — so the refund goes by
+ * identity key through the MessageBox, which is the rail that needs nothing
+ * from the other device to be present.
+ *
+ * The claim/settle pair in split.ts is what makes this safe to tap twice: a
+ * refund is sent only from `owed`, and is out of `owed` before the send starts.
+ * A send that fails after minting leaves its token in the handle outbox, and
+ * the refund points there rather than back at `owed`, so Retry here can never
+ * mint a second payment for the same excess.
+ */
+import { useCallback } from 'react'
+import { useWallet } from '@/context/WalletContext'
+import { useHandleRefund } from '@/components/pay/useHandleRefund'
+import { claimRefund, getSplit, settleRefund, type SplitTally } from '@/utils/pay/rails/nearby'
+
+export function useSplitRefund(t: ReturnType<typeof import('react-i18next').useTranslation>['t']) {
+  const { storage } = useWallet()
+  const { deliver, available } = useHandleRefund(t)
+
+  const refund = useCallback(
+    async (sessionId: Uint8Array, pendingId: string): Promise<SplitTally | null> => {
+      // No server to send through: nothing is claimed, so the refund stays
+      // owed, and `available` is how the screen says why.
+      if (!storage || !available) return null
+      const claimed = await claimRefund(storage, sessionId, pendingId)
+      if (!claimed) return getSplit(storage, sessionId)
+      const result = await deliver(claimed, t('split_refund_note'))
+      return settleRefund(
+        storage,
+        sessionId,
+        pendingId,
+        result.status === 'owed'
+          ? { status: 'owed', error: result.error }
+          : { status: result.status, outboxId: result.outboxId }
+      )
+    },
+    [storage, available, deliver, t]
+  )
+
+  return { refund, available }
+}
@@ -10,7 +10,7 @@ import { WalletContext } from '@/context/WalletContext'
 import { UserContext } from '@/context/UserContext'
 import AmountDisplay from '@/components/wallet/AmountDisplay'
 import { ExchangeRateContext } from '@/context/ExchangeRateContext'
-import { formatAmountParts } from '@/utils/amountFormatHelpers'
+import { formatAmount, formatAmountParts } from '@/utils/amountFormatHelpers'
 import { haptics } from '@/hooks/useHaptics'
 
 // ---------------------------------------------------------------------------
@@ -64,6 +64,8 @@ interface ActivePermission {
   fields?: string[]
   /** Spending-specific authorization amount (satoshis). */
   amount?: number
+  /** Spending only: the origin budget this spend would overrun. */
+  budgetExceeded?: { period: 'daily' | 'monthly'; limit: number; spent: number; remaining: number }
   /** Whether this is a renewal rather than a first-time request. */
   renewal?: boolean
   /** Group-specific sub-permissions. */
@@ -134,6 +136,7 @@ function deriveActive(
       description: r.description || 'wants to spend from your wallet',
       amount: r.authorizationAmount,
       renewal: r.renewal,
+      budgetExceeded: r.budgetExceeded,
       details: lineItemDetails
     }
   }
@@ -662,6 +665,20 @@ const PermissionSheet: React.FC = () => {
                   ) : null}
                 </Text>
               )}
+
+              {active.kind === 'spending' && active.budgetExceeded && (
+                <Text style={[styles.budgetWarning, { color: colors.warning }]}>
+                  {t(
+                    active.budgetExceeded.period === 'daily'
+                      ? 'spending_budget_over_daily'
+                      : 'spending_budget_over_monthly',
+                    {
+                      remaining: formatAmount(active.budgetExceeded.remaining, currency, satoshisPerUSD),
+                      limit: formatAmount(active.budgetExceeded.limit, currency, satoshisPerUSD)
+                    }
+                  )}
+                </Text>
+              )}
             </View>
           </View>
 
@@ -775,6 +792,13 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     letterSpacing: 0
   },
+  budgetWarning: {
+    fontSize: 12.5,
+    lineHeight: 17,
+    fontWeight: '600',
+    textAlign: 'center',
+    marginTop: spacing.md
+  },
 
   // Details
   detailsSection: {
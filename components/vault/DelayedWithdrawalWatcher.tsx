@@ -0,0 +1,120 @@
+/**
+ * Watches delayed vault withdrawals from anywhere in the app. Globally mounted
+ * beside the ceremony sheet.
+ *
+ * Three jobs, run at launch, on every return to the foreground, and once a
+ * minute while the app is open:
+ *  - KEEP each hold's record on its held output, and take back the records a
+ *    restored wallet carries but this device lacks (syncDelayedWithdrawals).
+ *  - ALERT once per hold, the first time this device sees it. A withdrawal the
+ *    owner did not start is the whole reason for the window, so the alert says
+ *    what is leaving and when, and offers the way to the vault screen's cancel.
+ *    The same pass schedules an OS notification for the hold's releaseAt,
+ *    which reaches the owner with the app closed; a hold that is cancelled or
+ *    released first has it withdrawn on the next pass.
+ *  - RELEASE any hold whose window has passed. Its release is presigned, so
+ *    this needs no key. A refusal (offline, or the network still judging it
+ *    non-final — see signDelayedRelease) leaves the hold in place for the next
+ *    pass.
+ */
+import { useCallback, useEffect, useRef } from 'react'
+import { AppState } from 'react-native'
+import { router } from 'expo-router'
+import { useWallet } from '@/context/WalletContext'
+import { showAlert } from '@/components/ui/AlertCard'
+import { showToast } from '@/components/ui/Toast'
+import { delayedWithdrawalStore, releaseDue } from '@/services/vault/delayedWithdrawals'
+import { releaseDelayedWithdrawal, syncDelayedWithdrawals, type VaultWallet } from '@/services/vault/transfers'
+import { getOnline } from '@/utils/net/online'
+import {
+  cancelLocalNotification,
+  scheduleLocalNotification,
+  scheduledNotificationIds
+} from '@/utils/localNotifications'
+import i18n from '@/context/i18n/translations'
+
+const t = (k: string, o?: Record<string, unknown>) => i18n.t(k, o) as string
+
+const POLL_MS = 60_000
+
+const NOTIFICATION_PREFIX = 'vault-release:'
+
+/** Withdraw the release notifications of holds that are no longer open. */
+async function dropStaleNotifications(open: string[]): Promise<void> {
+  for (const id of await scheduledNotificationIds()) {
+    if (id.startsWith(NOTIFICATION_PREFIX) && !open.includes(id.slice(NOTIFICATION_PREFIX.length))) {
+      await cancelLocalNotification(id)
+    }
+  }
+}
+
+export const formatReleaseTime = (ms: number) =>
+  new Date(ms).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })
+
+export function DelayedWithdrawalWatcher() {
+  const { managers, adminOriginator } = useWallet()
+  const running = useRef(false)
+
+  const check = useCallback(async () => {
+    const pm = managers?.permissionsManager
+    if (!pm || running.current) return
+    running.current = true
+    try {
+      await syncDelayedWithdrawals(pm as unknown as VaultWallet, adminOriginator).catch(e =>
+        console.log('[vault] hold records not synced:', (e as Error)?.message)
+      )
+      const open = await delayedWithdrawalStore.list()
+      await dropStaleNotifications(open.map(d => d.txid))
+      for (const d of open) {
+        if (releaseDue(d) && d.release) {
+          try {
+            await releaseDelayedWithdrawal(pm as unknown as VaultWallet, adminOriginator, d.txid, {
+              isOnline: getOnline
+            })
+            showToast(t('vault_pending_released_toast', { amount: d.release.satoshis }), { type: 'success' })
+          } catch (e) {
+            console.log('[vault] delayed release not yet accepted:', (e as Error)?.message)
+          }
+          continue
+        }
+        if (d.alerted) continue
+        await delayedWithdrawalStore.markAlerted(d.txid)
+        await scheduleLocalNotification(
+          `${NOTIFICATION_PREFIX}${d.txid}`,
+          {
+            title: t('vault_release_notification_title'),
+            body: t('vault_release_notification_body', { amount: d.satoshis })
+          },
+          d.releaseAt
+        )
+        const choice = await showAlert({
+          title: t('vault_delay_alert_title'),
+          message: t('vault_delay_alert_message', { amount: d.satoshis, time: formatReleaseTime(d.releaseAt) }),
+          buttons: [
+            { text: t('vault_ok'), key: 'ok', style: 'cancel' },
+            { text: t('vault_delay_alert_review'), key: 'review' }
+          ]
+        })
+        if (choice === 'review') router.push('/vault')
+      }
+    } catch (e) {
+      console.log('[vault] delayed withdrawal check failed:', (e as Error)?.message)
+    } finally {
+      running.current = false
+    }
+  }, [managers?.permissionsManager, adminOriginator])
+
+  useEffect(() => {
+    check()
+    const id = setInterval(check, POLL_MS)
+    const sub = AppState.addEventListener('change', next => {
+      if (next === 'active') check()
+    })
+    return () => {
+      clearInterval(id)
+      sub.remove()
+    }
+  }, [check])
+
+  return null
+}
@@ -8,7 +8,10 @@
  * have no checksum and a typo silently opens a different, empty vault.
  *
  * enrollVault() drives the YubiKey (getKeyInfo → PIN → generate). Every prompt
- * is gathered BEFORE the tap, since the NFC sheet covers the app.
+ * is gathered BEFORE the tap, since the NFC sheet covers the app. On a device
+ * enrolling a software key (softwareKey.ts) the PIN step asks for the key
+ * passphrase instead — a new one gets the same meter and confirm field as the
+ * vault passphrase, and must differ from it.
  *
  * The adopt step exists because slot occupancy is only knowable ON the card:
  * enrollVault refuses an occupied slot with 'slot-occupied', this wizard turns
@@ -16,6 +19,12 @@
  * enrolls against the key already there. That costs a second tap only in the
  * occupied case, which is what keeps the one-tap rule intact for the normal
  * one.
+ *
+ * `mode="add-key"` runs the same flow against a vault that already exists, to
+ * enroll a further YubiKey: no backup step (the wallet attested at first
+ * enrollment), and the passphrase is the vault's existing one, which
+ * addVaultKey checks against a tap of an already-enrolled key before the new
+ * card is touched.
  */
 import React, { useCallback, useEffect, useState } from 'react'
 import { View, Text, StyleSheet, TextInput, ScrollView, ActivityIndicator } from 'react-native'
@@ -23,8 +32,10 @@ import { Ionicons, MaterialCommunityIcons } from '@expo/vector-icons'
 import PressableScale from '@/components/ui/PressableScale'
 import { useTheme } from '@/context/theme/ThemeContext'
 import { spacing, radii, typography } from '@/context/theme/tokens'
-import { enrollVault, finalizeEnrollment } from '@/services/vault/VaultKeyService'
+import { addVaultKey, enrollVault, finalizeAddedKey, finalizeEnrollment } from '@/services/vault/VaultKeyService'
 import { VaultError } from '@/services/vault/types'
+import { getVaultDriver } from '@/services/vault/driver'
+import { softwareVaultKey } from '@/services/vault/softwareKey'
 import { PassphraseField } from './PassphraseField'
 import { useLocalStorage } from '@/context/LocalStorageProvider'
 import { printRecoveryShares } from '@/utils/printRecoveryShares'
@@ -51,13 +62,15 @@ interface PinRequest {
   reject: (e: unknown) => void
 }
 
-export const EnrollWizard: React.FC<{ onDone: () => void; onCancel: () => void }> = ({
-  onDone,
-  onCancel
-}) => {
+export const EnrollWizard: React.FC<{
+  onDone: () => void
+  onCancel: () => void
+  mode?: 'enroll' | 'add-key'
+}> = ({ onDone, onCancel, mode = 'enroll' }) => {
   const { colors } = useTheme()
   const { getMnemonic, getRecoveredKey } = useLocalStorage()
-  const [step, setStep] = useState<Step>('backup')
+  const addingKey = mode === 'add-key'
+  const [step, setStep] = useState<Step>(addingKey ? 'intro' : 'backup')
   const [medium, setMedium] = useState<BackupMedium | null>(null)
   const [wordCount, setWordCount] = useState<number | null>(null)
   const [revealed, setRevealed] = useState<string | null>(null)
@@ -69,11 +82,16 @@ export const EnrollWizard: React.FC<{ onDone: () => void; onCancel: () => void }
   const [pinReq, setPinReq] = useState<PinRequest | null>(null)
   const [pinInput, setPinInput] = useState('')
   const [newPinInput, setNewPinInput] = useState('')
+  const [keyConfirm, setKeyConfirm] = useState('')
+  const [keyPassOk, setKeyPassOk] = useState(false)
   const [printing, setPrinting] = useState(false)
   const [error, setError] = useState<string | null>(null)
 
   const { managers, adminOriginator } = useWallet()
 
+  const software = getVaultDriver()?.software === true
+  const newSoftwareKey = software && !softwareVaultKey()?.provisioned
+
   const wallet = managers?.permissionsManager
 
   // A user who already backed up on a previous visit should not be asked twice.
@@ -176,21 +194,31 @@ export const EnrollWizard: React.FC<{ onDone: () => void; onCancel: () => void }
     try {
       const mnemonic = await getMnemonic()
       if (!mnemonic) throw new VaultError('bad-mnemonic', t('vault_requires_mnemonic'))
-      const { pending } = await enrollVault({
+      const enroll = {
         nickname: nickname.trim() || t('vault_default_nickname'),
         mnemonic,
         passphrase,
         adoptExisting,
-        onPhase: p => setPhaseLabel(t(`vault_enroll_phase_${p}`)),
+        onPhase: (p: string) => setPhaseLabel(t(`vault_enroll_phase_${p}`)),
         getPin: requestPin,
         requestPinChange
-      })
-      await finalizeEnrollment(pending)
+      }
+      if (addingKey) {
+        const { pending } = await addVaultKey({
+          ...enroll,
+          approveReason: t('vault_add_key_approve_reason'),
+          secondApproveReason: t('vault_cosign_second_reason')
+        })
+        await finalizeAddedKey(pending)
+      } else {
+        const { pending } = await enrollVault(enroll)
+        await finalizeEnrollment(pending)
+      }
       setPassphrase('')
       setConfirm('')
       sounds.vaultOpen()
       haptics.success()
-      showToast(t('vault_enrolled_toast'), { type: 'success' })
+      showToast(t(addingKey ? 'vault_key_added_toast' : 'vault_enrolled_toast'), { type: 'success' })
       setStep('done')
       onDone()
     } catch (e) {
@@ -207,7 +235,7 @@ export const EnrollWizard: React.FC<{ onDone: () => void; onCancel: () => void }
       haptics.error()
       setStep('passphrase')
     }
-  }, [nickname, passphrase, getMnemonic, requestPin, requestPinChange, onDone])
+  }, [addingKey, nickname, passphrase, getMnemonic, requestPin, requestPinChange, onDone])
 
   const submitPin = useCallback(() => {
     if (!pinReq) return
@@ -215,13 +243,14 @@ export const EnrollWizard: React.FC<{ onDone: () => void; onCancel: () => void }
       if (newPinInput.length < 6) return
       pinReq.resolve({ oldPin: '123456', newPin: newPinInput })
     } else {
-      if (pinInput.length < 4) return
+      if (pinInput.length < 4 || (newSoftwareKey && !keyPassOk)) return
       pinReq.resolve(pinInput)
     }
     setPinReq(null)
     setPinInput('')
     setNewPinInput('')
-  }, [pinReq, pinInput, newPinInput])
+    setKeyConfirm('')
+  }, [pinReq, pinInput, newPinInput, newSoftwareKey, keyPassOk])
 
   // ── backup (prerequisite) ───────────────────────────────────────────
   if (step === 'backup') {
@@ -319,8 +348,12 @@ export const EnrollWizard: React.FC<{ onDone: () => void; onCancel: () => void }
     return (
       <ScrollView contentContainerStyle={styles.body}>
         <MaterialCommunityIcons name="safe" size={48} color={colors.textPrimary} style={styles.hero} />
-        <Text style={[styles.h1, { color: colors.textPrimary }]}>{t('vault_enroll_title')}</Text>
-        <Text style={[styles.p, { color: colors.textSecondary }]}>{t('vault_enroll_intro')}</Text>
+        <Text style={[styles.h1, { color: colors.textPrimary }]}>
+          {t(addingKey ? 'vault_add_key_title' : 'vault_enroll_title')}
+        </Text>
+        <Text style={[styles.p, { color: colors.textSecondary }]}>
+          {t(addingKey ? 'vault_add_key_intro' : 'vault_enroll_intro')}
+        </Text>
 
         <TextInput
           style={[
@@ -334,7 +367,7 @@ export const EnrollWizard: React.FC<{ onDone: () => void; onCancel: () => void }
           maxLength={24}
         />
 
-        <RecoveryPaths />
+        {!addingKey && <RecoveryPaths />}
 
         {error && <Text style={[styles.err, { color: colors.error }]}>{error}</Text>}
         <PressableScale
@@ -346,7 +379,7 @@ export const EnrollWizard: React.FC<{ onDone: () => void; onCancel: () => void }
             {t('vault_continue')}
           </Text>
         </PressableScale>
-        <PressableScale onPress={() => setStep('backup')} style={styles.secondary}>
+        <PressableScale onPress={addingKey ? onCancel : () => setStep('backup')} style={styles.secondary}>
           <Text style={[styles.secondaryLabel, { color: colors.textSecondary }]}>
             {t('vault_back')}
           </Text>
@@ -360,10 +393,10 @@ export const EnrollWizard: React.FC<{ onDone: () => void; onCancel: () => void }
     return (
       <ScrollView contentContainerStyle={styles.body} keyboardShouldPersistTaps="handled">
         <Text style={[styles.h1, { color: colors.textPrimary }]}>
-          {t('vault_passphrase_title')}
+          {t(addingKey ? 'vault_add_key_passphrase_title' : 'vault_passphrase_title')}
         </Text>
         <Text style={[styles.p, { color: colors.textSecondary }]}>
-          {t('vault_passphrase_intro')}
+          {t(addingKey ? 'vault_add_key_passphrase_intro' : 'vault_passphrase_intro')}
         </Text>
 
         <PassphraseField
@@ -399,7 +432,7 @@ export const EnrollWizard: React.FC<{ onDone: () => void; onCancel: () => void }
               { color: passphraseOk ? colors.textOnAccent : colors.textTertiary }
             ]}
           >
-            {t('vault_enroll_begin')}
+            {t(addingKey ? 'vault_add_key_begin' : 'vault_enroll_begin')}
           </Text>
         </PressableScale>
         <PressableScale onPress={() => setStep('intro')} style={styles.secondary}>
@@ -446,7 +479,46 @@ export const EnrollWizard: React.FC<{ onDone: () => void; onCancel: () => void }
   if (step === 'running') {
     return (
       <View style={styles.body}>
-        {pinReq ? (
+        {pinReq && software ? (
+          <>
+            <Ionicons name="key-outline" size={40} color={colors.textPrimary} style={styles.hero} />
+            <Text style={[styles.h1, { color: colors.textPrimary }]}>
+              {newSoftwareKey ? t('vault_software_new_title') : t('vault_software_enter')}
+            </Text>
+            {newSoftwareKey ? (
+              <>
+                <Text style={[styles.p, { color: colors.textSecondary }]}>{t('vault_software_new_body')}</Text>
+                <PassphraseField
+                  value={pinInput}
+                  onChangeText={setPinInput}
+                  confirm={keyConfirm}
+                  onChangeConfirm={setKeyConfirm}
+                  onValidityChange={setKeyPassOk}
+                />
+              </>
+            ) : (
+              <TextInput
+                style={[styles.input, { color: colors.textPrimary, backgroundColor: colors.backgroundSecondary }]}
+                value={pinInput}
+                onChangeText={setPinInput}
+                secureTextEntry
+                autoCapitalize="none"
+                autoCorrect={false}
+                autoFocus
+              />
+            )}
+            <PressableScale
+              haptic="confirm"
+              onPress={submitPin}
+              style={[
+                styles.primary,
+                { backgroundColor: colors.accent, opacity: !newSoftwareKey || keyPassOk ? 1 : 0.4 }
+              ]}
+            >
+              <Text style={[styles.primaryLabel, { color: colors.textOnAccent }]}>{t('vault_continue')}</Text>
+            </PressableScale>
+          </>
+        ) : pinReq ? (
           <>
             <Ionicons name="keypad-outline" size={40} color={colors.textPrimary} style={styles.hero} />
             <Text style={[styles.h1, { color: colors.textPrimary }]}>
@@ -487,9 +559,11 @@ export const EnrollWizard: React.FC<{ onDone: () => void; onCancel: () => void }
             <Text style={[styles.h1, { color: colors.textPrimary }]}>
               {phaseLabel || t('vault_reading_key')}
             </Text>
-            <Text style={[styles.p, { color: colors.textSecondary }]}>
-              {t('vault_touch_when_blinks')}
-            </Text>
+            {!software && (
+              <Text style={[styles.p, { color: colors.textSecondary }]}>
+                {t('vault_touch_when_blinks')}
+              </Text>
+            )}
           </>
         )}
       </View>
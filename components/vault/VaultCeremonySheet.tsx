@@ -5,7 +5,9 @@
  *
  * Every phase says three things: WHY (the reason string / transfer summary),
  * WHAT to do now (the phase copy + illustration), and how long is left
- * (countdown on awaiting-touch and armed). Motion is scale/opacity of the
+ * (countdown on awaiting-touch and armed). A software key (softwareKey.ts)
+ * swaps the PIN pad for a passphrase field and has no touch to count down.
+ * Motion is scale/opacity of the
  * sheet's own subviews only — never a fractional-opacity animation over glass
  * (the UIVisualEffectView freeze guardrail).
  */
@@ -30,6 +32,7 @@ import { useVault } from '@/context/VaultContext'
 import { haptics } from '@/hooks/useHaptics'
 import i18n from '@/context/i18n/translations'
 import type { CeremonyPhase } from '@/services/vault/ceremony'
+import { getVaultDriver } from '@/services/vault/driver'
 import type { VaultErrorCode } from '@/services/vault/types'
 
 const t = (k: string, opts?: Record<string, unknown>) => i18n.t(k, opts) as string
@@ -49,7 +52,8 @@ const ERROR_COPY: Record<string, string> = {
   'unsupported-platform': 'vault_err_unavailable',
   'slot-occupied': 'vault_err_generic',
   'pin-required': 'vault_enter_pin',
-  'nfc-lost': 'vault_err_nfc_lost'
+  'nfc-lost': 'vault_err_nfc_lost',
+  'same-key': 'vault_err_same_key'
 }
 
 /** Errors where the fix is simply "do the tap again" — worth a Retry button
@@ -134,6 +138,7 @@ export const VaultCeremonySheet: React.FC = () => {
 
   // iOS talks to the key over NFC (a tap), Android over USB (insert + touch).
   const nfc = Platform.OS === 'ios'
+  const software = getVaultDriver()?.software === true
 
   const title = (() => {
     switch (phase) {
@@ -142,14 +147,15 @@ export const VaultCeremonySheet: React.FC = () => {
       case 'connecting':
         return t('vault_reading_key')
       case 'pin-entry':
-        return t('vault_enter_pin')
+        return software ? t('vault_software_enter') : t('vault_enter_pin')
       case 'awaiting-touch':
-        return nfc ? t('vault_keep_holding_nfc') : t('vault_touch_contact')
+        return software ? t('vault_software_unlocking') : nfc ? t('vault_keep_holding_nfc') : t('vault_touch_contact')
       case 'preparing':
         return t('vault_unlocking_funds')
       case 'broadcasting':
         return t('vault_sending_to_network')
       case 'error':
+        if (software && errCode === 'pin-locked') return t('vault_err_software_locked')
         return t((errCode && ERROR_COPY[errCode]) ?? 'vault_err_generic')
       default:
         return ''
@@ -182,24 +188,38 @@ export const VaultCeremonySheet: React.FC = () => {
           </Text>
         )}
 
-        {phase === 'awaiting-touch' && <TouchCountdown color={colors.accent} trackColor={colors.backgroundSecondary} />}
+        {phase === 'awaiting-touch' && !software && (
+          <TouchCountdown color={colors.accent} trackColor={colors.backgroundSecondary} />
+        )}
 
         {phase === 'pin-entry' && (
           <>
             <Text style={[styles.subtitle, { color: colors.textSecondary }]}>
-              {nfc ? t('vault_pin_sub_nfc') : t('vault_pin_sub_usb')}
+              {software ? t('vault_software_sub') : nfc ? t('vault_pin_sub_nfc') : t('vault_pin_sub_usb')}
             </Text>
-            <TextInput
-              style={[styles.pin, { color: colors.textPrimary, backgroundColor: colors.backgroundSecondary }]}
-              value={pin}
-              onChangeText={setPin}
-              placeholder="••••••"
-              placeholderTextColor={colors.textTertiary}
-              keyboardType="number-pad"
-              secureTextEntry
-              maxLength={8}
-              autoFocus
-            />
+            {software ? (
+              <TextInput
+                style={[styles.passphrase, { color: colors.textPrimary, backgroundColor: colors.backgroundSecondary }]}
+                value={pin}
+                onChangeText={setPin}
+                secureTextEntry
+                autoCapitalize="none"
+                autoCorrect={false}
+                autoFocus
+              />
+            ) : (
+              <TextInput
+                style={[styles.pin, { color: colors.textPrimary, backgroundColor: colors.backgroundSecondary }]}
+                value={pin}
+                onChangeText={setPin}
+                placeholder="••••••"
+                placeholderTextColor={colors.textTertiary}
+                keyboardType="number-pad"
+                secureTextEntry
+                maxLength={8}
+                autoFocus
+              />
+            )}
             {state.error?.code === 'pin-invalid' && typeof state.error.retriesLeft === 'number' && (
               <Text style={[styles.hint, { color: colors.warning }]}>
                 {t('vault_pin_retries', { count: state.error.retriesLeft })}
@@ -295,6 +315,13 @@ const styles = StyleSheet.create({
     borderRadius: radii.md,
     paddingVertical: spacing.md
   },
+  passphrase: {
+    width: '100%',
+    ...typography.body,
+    borderRadius: radii.md,
+    paddingVertical: spacing.md,
+    paddingHorizontal: spacing.lg
+  },
   hint: { ...typography.footnote },
   primaryBtn: { width: '100%', borderRadius: radii.md, paddingVertical: spacing.lg, alignItems: 'center' },
   primaryLabel: { ...typography.headline },
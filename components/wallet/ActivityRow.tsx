@@ -20,6 +20,8 @@ import { ExchangeRateContext } from '@/context/ExchangeRateContext'
 import { formatAmount, formatAmountParts } from '@/utils/amountFormatHelpers'
 import { txStatusView, toneColor } from '@/utils/txStatus'
 import PressableScale from '@/components/ui/PressableScale'
+import type { PaymentReceipt } from '@/utils/webview/paymentReceipts'
+import type { PaymentRefund } from '@/utils/pay/rails/nearby'
 
 /** A row as storage actually returns it: `reference` and `created_at` are real
  * columns the SDK's WalletAction type does not declare. */
@@ -28,6 +30,12 @@ export type ActivityAction = WalletAction & {
   created_at?: string | number | Date
 }
 
+/** A row that is one end of a refund: the payment it returned, or the refund itself. */
+export interface RowRefund {
+  refund: PaymentRefund
+  end: 'original' | 'refund'
+}
+
 interface Props {
   action: ActivityAction
   /** Identity of this row in the list's expanded/busy bookkeeping. Passed back
@@ -36,6 +44,12 @@ interface Props {
   rowKey: string
   /** Live offline-queue state for this txid, when it has one. */
   offlineStatus?: string
+  /** The 402 receipt for this txid, when the row paid for a page. */
+  receipt?: PaymentReceipt
+  /** A received nearby payment this wallet could send back. */
+  refundable?: boolean
+  /** The refund this row is one end of, when it is. */
+  refund?: RowRefund
   expanded: boolean
   busy: boolean
   onToggle: (rowKey: string) => void
@@ -44,6 +58,8 @@ interface Props {
   onCopyTxid: (txid: string) => void
   onRefreshTx: (txid: string) => void
   onAbort: (reference: string) => void
+  onOpenReceipt: (receipt: PaymentReceipt) => void
+  onRefund: (txid: string) => void
 }
 
 /** Statuses whose transaction is still local and therefore abortable: nothing
@@ -52,6 +68,8 @@ interface Props {
  * its input reservations until it is cleared. */
 const ABORTABLE_STATUSES = new Set(['unsigned', 'nosend', 'nonfinal', 'failed'])
 
+const shortTxid = (txid: string) => `${txid.slice(0, 8)}…`
+
 /** Local time of day, e.g. "14:32". Empty when storage gave us no timestamp. */
 export function formatRowTime(value?: string | number | Date): string {
   if (value === undefined || value === null) return ''
@@ -68,6 +86,9 @@ function ActivityRowBase({
   action,
   rowKey,
   offlineStatus,
+  receipt,
+  refundable,
+  refund,
   expanded,
   busy,
   onToggle,
@@ -75,7 +96,9 @@ function ActivityRowBase({
   onCopyBeef,
   onCopyTxid,
   onRefreshTx,
-  onAbort
+  onAbort,
+  onOpenReceipt,
+  onRefund
 }: Props) {
   const { t } = useTranslation()
   const { colors } = useTheme()
@@ -105,8 +128,21 @@ function ActivityRowBase({
   const unitColor = incoming ? colors.successAmount : colors.textSecondary
 
   const canAbort = ABORTABLE_STATUSES.has(action.status) && !!action.reference
+  // Offered until a refund is under way: a failed attempt that minted nothing
+  // leaves it owed, and owed is sendable again.
+  const canRefund = !!refundable && !!action.txid && (!refund || refund.refund.status === 'owed')
   const hasUtilities = !!action.txid || canAbort
 
+  const refundLine = !refund
+    ? null
+    : refund.end === 'refund'
+      ? t('refund_row_of', { txid: shortTxid(refund.refund.originalTxid) })
+      : refund.refund.status === 'sent' && refund.refund.refundTxid
+        ? t('refund_row_sent', { txid: shortTxid(refund.refund.refundTxid) })
+        : refund.refund.status === 'owed' && refund.refund.error
+          ? t('refund_row_failed', { error: refund.refund.error })
+          : t(`refund_row_${refund.refund.status}`)
+
   return (
     <View
       style={[
@@ -173,12 +209,39 @@ function ActivityRowBase({
         </View>
       </PressableScale>
 
+      {expanded && receipt ? (
+        <View style={styles.receipt}>
+          <Text style={[styles.receiptUrl, { color: colors.textSecondary }]} numberOfLines={1} ellipsizeMode="middle">
+            {receipt.url}
+          </Text>
+          <Text style={[styles.receiptKey, { color: colors.textTertiary }]} numberOfLines={1} ellipsizeMode="middle">
+            {t('pay_402_receipt_server', { key: receipt.serverIdentityKey })}
+          </Text>
+        </View>
+      ) : null}
+
+      {expanded && refundLine ? (
+        <View style={styles.receipt}>
+          <Text style={[styles.receiptUrl, { color: colors.textSecondary }]} numberOfLines={2}>
+            {refundLine}
+          </Text>
+        </View>
+      ) : null}
+
       {expanded && hasUtilities ? (
         <View style={styles.chips}>
           {busy ? (
             <ActivityIndicator size="small" color={colors.textSecondary} style={styles.chipBusy} />
           ) : (
             <>
+              {receipt?.hasContent ? (
+                <Chip
+                  icon="open-outline"
+                  label={t('pay_402_receipt_open')}
+                  accessibilityLabel={t('pay_402_receipt_open_label')}
+                  onPress={() => onOpenReceipt(receipt)}
+                />
+              ) : null}
               {action.txid ? (
                 <Chip
                   icon="refresh-outline"
@@ -211,6 +274,14 @@ function ActivityRowBase({
                   onPress={() => onCopyTxid(action.txid)}
                 />
               ) : null}
+              {canRefund ? (
+                <Chip
+                  icon="return-down-back-outline"
+                  label={t('refund_action')}
+                  accessibilityLabel={t('refund_action_label')}
+                  onPress={() => onRefund(action.txid)}
+                />
+              ) : null}
               {canAbort ? (
                 <Chip
                   icon="close-circle-outline"
@@ -305,6 +376,9 @@ const styles = StyleSheet.create({
     paddingBottom: 14
   },
   chipBusy: { marginBottom: 8 },
+  receipt: { paddingLeft: 70, paddingRight: spacing.xl, paddingBottom: spacing.sm, gap: 2 },
+  receiptUrl: { fontSize: 12, lineHeight: 16 },
+  receiptKey: { fontSize: 11, lineHeight: 15, fontVariant: ['tabular-nums'] },
   separator: { height: StyleSheet.hairlineWidth, marginLeft: 70 },
   chip: {
     flexDirection: 'row',
@@ -324,6 +398,9 @@ export default memo(ActivityRowBase, (a, b) =>
   a.action === b.action &&
   a.rowKey === b.rowKey &&
   a.offlineStatus === b.offlineStatus &&
+  a.receipt === b.receipt &&
+  a.refundable === b.refundable &&
+  a.refund?.refund === b.refund?.refund &&
   a.expanded === b.expanded &&
   a.busy === b.busy &&
   a.onToggle === b.onToggle
@@ -7,6 +7,7 @@ import React, {
   useRef,
   useState
 } from 'react'
+import { AppState } from 'react-native'
 import AsyncStorage from '@react-native-async-storage/async-storage'
 import i18n from '@/context/i18n/translations'
 import {
@@ -20,9 +21,12 @@ import {
   migrateLegacySecrets,
   putSecret,
   readLegacySecret,
+  rotateKek,
+  rotateKekIfBiometricsChanged,
   subscribeUnlockState,
   unlockKek,
   type MigrationResult,
+  type RotationResult,
   type UnlockState
 } from '@/services/secrets'
 
@@ -36,6 +40,10 @@ import {
  * The biometric prompt happens at most once per process, when the wallet is
  * first instantiated — but unlike the previous design, skipping it does not
  * yield the mnemonic, because there is nothing to read without the key.
+ *
+ * It also rotates that key: on request from settings, and on its own whenever
+ * the app comes to the foreground unlocked and finds the biometric enrolment
+ * changed — the last moment the old key is still in hand.
  */
 export interface LocalStorageContextType {
   /* secure */
@@ -55,6 +63,9 @@ export interface LocalStorageContextType {
   /** Explicit user-initiated unlock, for the lock screen's retry button. */
   unlock: () => Promise<UnlockState>
   migration: MigrationResult | null
+  /** Re-seal every secret under a freshly minted key. Needs the wallet
+   * unlocked; never prompts to unlock it. */
+  rotateKey: () => Promise<RotationResult>
 
   /* general */
   setItem: (item: string, value: string) => Promise<void>
@@ -77,6 +88,7 @@ export const LocalStorageContext = createContext<LocalStorageContextType>({
   unlockState: { status: 'locked' },
   unlock: async () => ({ status: 'locked' }),
   migration: null,
+  rotateKey: async () => ({ outcome: 'failed', stage: 'locked', retryable: false }),
 
   /* general */
   getItem: AsyncStorage.getItem,
@@ -135,6 +147,32 @@ export default function LocalStorageProvider({ children }: { children: React.Rea
     return state.status === 'unlocked'
   }, [])
 
+  /* -------------------------------- rotation ------------------------------- */
+
+  const rotateKey = useCallback(() => rotateKek(), [])
+
+  /**
+   * Checked when the wallet unlocks and on every return to the foreground —
+   * biometrics are changed in the system settings, so coming back from them is
+   * exactly when a change shows. Only while unlocked: the KEK has to be in
+   * memory to be rotated.
+   */
+  useEffect(() => {
+    if (unlockState.status !== 'unlocked') return
+    const check = () => {
+      rotateKekIfBiometricsChanged()
+        .then(result => {
+          if (result) console.log('[LocalStorageProvider] biometrics changed, KEK rotation:', result.outcome)
+        })
+        .catch(err => console.warn('[LocalStorageProvider] KEK rotation threw', (err as Error)?.message))
+    }
+    check()
+    const sub = AppState.addEventListener('change', next => {
+      if (next === 'active') check()
+    })
+    return () => sub.remove()
+  }, [unlockState.status])
+
   /* -------------------------------- secure --------------------------------- */
 
   const setMnemonic = useCallback(
@@ -186,6 +224,7 @@ export default function LocalStorageProvider({ children }: { children: React.Rea
       unlockState,
       unlock,
       migration,
+      rotateKey,
 
       getItem: AsyncStorage.getItem,
       setItem: AsyncStorage.setItem,
@@ -202,7 +241,8 @@ export default function LocalStorageProvider({ children }: { children: React.Rea
       secretsReady,
       unlockState,
       unlock,
-      migration
+      migration,
+      rotateKey
     ]
   )
 
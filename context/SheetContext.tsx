@@ -8,6 +8,7 @@ export type SheetRoute =
   | 'closed'
   | 'browser-menu'
   | 'bookmarks'
+  | 'reading-list'
   | 'history'
   | 'menu'
   | 'identity'
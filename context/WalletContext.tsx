@@ -40,7 +40,7 @@ const DEFAULT_SETTINGS: WalletSettings = {
 }
 import { showToast } from '@/components/ui/Toast'
 import type { AppChain } from './config'
-import { DEFAULT_STORAGE_URL, DEFAULT_CHAIN, ADMIN_ORIGINATOR, DEFAULT_BACKUP_URL, toWalletChain } from './config'
+import { DEFAULT_STORAGE_URL, DEFAULT_CHAIN, ADMIN_ORIGINATOR, toWalletChain } from './config'
 import { DEFAULT_AUTO_APPROVE_THRESHOLD, AUTO_APPROVE_COOLDOWN_MS, AUTO_APPROVE_STORAGE_KEY } from '@/shared/constants'
 import AsyncStorage from '@react-native-async-storage/async-storage'
 import { UserContext } from './UserContext'
@@ -79,12 +79,18 @@ import { getOnline, subscribeOnline } from '@/utils/net/online'
 import { processPending } from '@/utils/localpay/pending'
 import { TaskSendOffline } from '@/utils/monitor/TaskSendOffline'
 import { TaskBackupPush } from '@/utils/monitor/TaskBackupPush'
+import { TaskBackupSync } from '@/utils/monitor/TaskBackupSync'
 import { pushOnce } from '@/utils/backup/push'
+import { loadPeerSyncState, syncOnce } from '@/utils/backup/sync'
 import { restoreOnImport } from '@/utils/backup/restoreOnImport'
+import { restoreToNewDatabase, type PointInTimeResult } from '@/utils/backup/pointInTime'
+import { getBackupEndpoint } from '@/utils/backup/endpoint'
 import { processOfflineActions } from '@/storage/methods/processOfflineActions'
 import { wocConfigFor } from '@/utils/pay/rails/address'
 import { SWEEP_INTERVAL_MS, runSweep, shouldSweepNow, sweptTotal } from '@/utils/pay/sweeper'
 import { formatAmount } from '@/utils/amountFormatHelpers'
+import { evaluateBudget, getBudget, type BudgetVerdict } from '@/utils/spending/budgets'
+import { loadOriginSpending } from '@/utils/spending/ledger'
 import { useTranslation } from 'react-i18next'
 import { HEADER_CHECKPOINTS } from '@/utils/headers/checkpoints'
 import { expoHeaderFs } from '@/utils/headers/fs'
@@ -176,6 +182,15 @@ export interface WalletContextValue {
   switchNetwork: (network: AppChain) => Promise<void>
   /** Tear down the current wallet and re-trigger auto-build (e.g. after DB import). */
   rebuildWallet: () => Promise<void>
+  /**
+   * Roll back to a point in a backup generation: replay it into a new database, then
+   * rebuild onto that database. The rebuild happens whether or not the restore succeeded.
+   */
+  restoreBackupPoint: (
+    primaryKey: number[],
+    point: { deviceId: string; generation: number; throughSeq?: number },
+    onProgress?: (chunks: number, total: number) => void
+  ) => Promise<PointInTimeResult>
   storage: StorageExpoSQLite | null
   /** Fetch BUMP from WoC and store merkle proof, advancing tx status to completed */
   refreshProof: (txid: string) => Promise<'confirmed' | 'pending' | 'failed'>
@@ -233,6 +248,9 @@ export const WalletContext = createContext<WalletContextValue>({
   getBackupRestore: () => ({ phase: 'idle', chunks: 0, total: 0 }),
   switchNetwork: async () => {},
   rebuildWallet: async () => {},
+  restoreBackupPoint: async () => {
+    throw new Error('WalletContext not ready')
+  },
   storage: null,
   refreshProof: async () => 'pending',
   txStatusVersion: 0,
@@ -311,6 +329,8 @@ type SpendingRequest = {
   authorizationAmount: number
   renewal?: boolean
   lineItems: any[]
+  /** Set when this spend would take the origin over its budget. */
+  budgetExceeded?: BudgetVerdict & { ok: false }
 }
 
 type BtmsRequest = {
@@ -641,10 +661,36 @@ export const WalletContextProvider: React.FC<WalletContextProps> = ({ children =
       const threshold = autoApproveThresholdRef.current
       const now = Date.now()
       const sinceLastMs = now - lastAutoApproveTime
+
+      // A budgeted origin is checked against what it has already spent this
+      // day and month before anything is auto-approved. Going over only costs
+      // the auto-approve — the sheet still lets the user pay. If the ledger
+      // can't be read the spend goes to the sheet too: an unknown total is not
+      // one the budget can vouch for.
+      let budgetExceeded: SpendingRequest['budgetExceeded']
+      let withinBudget = true
+      let spentThisMonth = 0
+      const budget = originator ? await getBudget(originator).catch(() => null) : null
+      if (budget && originator && managersRef.current.permissionsManager) {
+        try {
+          const spent = await loadOriginSpending(managersRef.current.permissionsManager, adminOriginator, originator, now)
+          spentThisMonth = spent.thisMonth
+          const verdict = evaluateBudget(budget, spent, spending.satoshis)
+          if (!verdict.ok) {
+            budgetExceeded = verdict
+            withinBudget = false
+          }
+        } catch {
+          withinBudget = false
+        }
+      }
+
       // Logging gated behind __DEV__: an unconditional console.log here flushes
       // over the JS↔native bridge on every spend request — i.e. on the payment
       // hot path — and shows up as jank under any burst of micropayments.
-      if (threshold > 0 && spending.satoshis <= threshold) {
+      if (!withinBudget) {
+        if (__DEV__) console.log(`[spend-auth] over budget → manual modal requestID=${requestID} origin=${originator}`)
+      } else if (threshold > 0 && spending.satoshis <= threshold) {
         if (sinceLastMs >= AUTO_APPROVE_COOLDOWN_MS) {
           lastAutoApproveTime = now
           if (__DEV__) console.log(`[spend-auth] AUTO-APPROVING requestID=${requestID} sats=${spending.satoshis}`)
@@ -667,14 +713,15 @@ export const WalletContextProvider: React.FC<WalletContextProps> = ({ children =
         originator,
         description: reason,
         transactionAmount: 0,
-        totalPastSpending: 0,
+        totalPastSpending: spentThisMonth,
         amountPreviouslyAuthorized: 0,
         authorizationAmount: spending.satoshis,
         renewal,
-        lineItems: spending.lineItems || []
+        lineItems: spending.lineItems || [],
+        budgetExceeded
       })
     },
-    [spendingQueue.enqueue]
+    [spendingQueue.enqueue, adminOriginator]
   )
 
   // ---- WAB + network + storage configuration ----
@@ -954,7 +1001,7 @@ export const WalletContextProvider: React.FC<WalletContextProps> = ({ children =
                 storage: phoneStorage,
                 primaryKey,
                 identityKey,
-                baseUrl: DEFAULT_BACKUP_URL,
+                baseUrl: (await getBackupEndpoint()).url,
                 onProgress: (chunks, total) => setBackupRestore({ phase: 'restoring', chunks, total })
               })
               console.log(
@@ -1108,19 +1155,41 @@ export const WalletContextProvider: React.FC<WalletContextProps> = ({ children =
             //
             // Reads chunks straight from phoneStorage rather than through
             // WalletStorageManager, whose sync lock would block all storage access.
-            if (DEFAULT_BACKUP_URL !== '') {
+            //
+            // Each pass reads the endpoint afresh, so switching between servers in settings
+            // takes effect on the next pass. Turning backup on or off entirely rebuilds.
+            if ((await getBackupEndpoint()).url !== '') {
               monitor.addTask(
                 new TaskBackupPush(monitor, async () => {
                   return await pushOnce({
                     storage: phoneStorage!,
                     primaryKey,
                     identityKey: keyDeriver.identityKey,
-                    baseUrl: DEFAULT_BACKUP_URL
+                    baseUrl: (await getBackupEndpoint()).url
                   })
                 })
               )
               // Pessimistic: one idle pass clears it if there is nothing to send.
               TaskBackupPush.noteChanged()
+
+              // Live sync: the other direction. Merges the wallet's other devices' logs
+              // into this database. Opt-in; the task idles when it is switched off.
+              monitor.addTask(
+                new TaskBackupSync(monitor, async () => {
+                  const r = await syncOnce({
+                    storage: phoneStorage!,
+                    primaryKey,
+                    identityKey: keyDeriver.identityKey,
+                    baseUrl: (await getBackupEndpoint()).url
+                  })
+                  if (r.pulled > 0) setTxStatusVersion(v => v + 1)
+                  return r
+                })
+              )
+              // Settings shows the last known state until the first pass has run.
+              loadPeerSyncState(primaryKey)
+                .then(peers => TaskBackupSync.notePeers(peers))
+                .catch(() => {})
             }
           }
           monitor.addDefaultTasks()
@@ -1508,6 +1577,38 @@ export const WalletContextProvider: React.FC<WalletContextProps> = ({ children =
     logWithTimestamp(F, 'Wallet rebuild triggered')
   }, [selectedNetwork, storage, finalizeConfig])
 
+  // Point-in-time restore from the backup browser. The monitor stops FIRST: the restore
+  // moves this device's push cursor to a new generation, and a push pass still running
+  // against the old database would save its own cursor over that.
+  const restoreBackupPoint = useCallback(
+    async (
+      primaryKey: number[],
+      point: { deviceId: string; generation: number; throughSeq?: number },
+      onProgress?: (chunks: number, total: number) => void
+    ): Promise<PointInTimeResult> => {
+      logWithTimestamp(F, `Restoring backup point ${point.generation}:${point.throughSeq ?? 'head'}`)
+      try {
+        await monitorRef.current?.stopTasks()
+      } catch (e) {
+        console.warn('[WalletContext] Failed to stop monitor before point-in-time restore:', e)
+      }
+      try {
+        return await restoreToNewDatabase({
+          primaryKey,
+          chain: selectedNetwork,
+          baseUrl: (await getBackupEndpoint()).url,
+          ...point,
+          onProgress
+        })
+      } finally {
+        // On success this opens the new database; on failure it restarts the monitor on the
+        // old one, which nothing has touched.
+        await rebuildWallet()
+      }
+    },
+    [selectedNetwork, rebuildWallet]
+  )
+
   // Switch network: tear down wallet, update config, and rebuild on new chain
   const switchNetwork = useCallback(
     async (network: AppChain) => {
@@ -1753,13 +1854,14 @@ export const WalletContextProvider: React.FC<WalletContextProps> = ({ children =
     })
   }, [walletBuilt, selectedNetwork, runHeaderSync])
 
-  // Feed the drain's and the backup push's online gates, arming an immediate pass on
-  // reconnect. Both are gated on the app's single online signal.
+  // Feed the drain's and the backup push and sync online gates, arming an immediate pass
+  // on reconnect. All are gated on the app's single online signal.
   useEffect(() => {
     if (!walletBuilt) return
     return subscribeOnline(online => {
       TaskSendOffline.noteConnectivity(online)
       TaskBackupPush.noteConnectivity(online)
+      TaskBackupSync.noteConnectivity(online)
     })
   }, [walletBuilt])
 
@@ -2199,6 +2301,7 @@ export const WalletContextProvider: React.FC<WalletContextProps> = ({ children =
       getBackupRestore,
       switchNetwork,
       rebuildWallet,
+      restoreBackupPoint,
       storage,
       refreshProof,
       txStatusVersion,
@@ -2241,6 +2344,7 @@ export const WalletContextProvider: React.FC<WalletContextProps> = ({ children =
       getBackupRestore,
       switchNetwork,
       rebuildWallet,
+      restoreBackupPoint,
       storage,
       refreshProof,
       txStatusVersion,
@@ -41,6 +41,8 @@ export const DEFAULT_MESSAGEBOX_URL = 'https://gmb.bsvblockchain.tech'
  * posted to the origin root, so a path prefix makes every request fail authentication.
  *
  *   EXPO_PUBLIC_BACKUP_URL=https://backup.example.com npm run ios
+ *
+ * For local work, scripts/backup-stand-in.ts serves an in-memory server on :8787.
  */
 export const DEFAULT_BACKUP_URL = (process.env.EXPO_PUBLIC_BACKUP_URL ?? '').replace(/\/+$/, '')
 export const DEFAULT_CHAIN: AppChain = 'main'
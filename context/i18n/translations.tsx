@@ -706,7 +706,452 @@ const resources = {
       pay_offline_sent_rejected_body: 'The network refused a payment you sent on {{when}}.',
       pay_offline_send_now: 'Send now',
       pay_offline_stalled_body: 'Some queued payments can’t be sent automatically: {{detail}}',
-      pay_offline_show_code: 'Show code again'
+      pay_offline_show_code: 'Show code again',
+      spending_budgets: 'Spending Budgets',
+      spending_budgets_sites: 'Sites',
+      spending_budgets_footer:
+        'A spend that would go over a budget is never auto-approved — you are asked first. Days and months run on this device’s clock.',
+      spending_budgets_empty: 'No sites have spent yet',
+      spending_budgets_empty_subtitle: 'Sites that spend from your wallet appear here, so you can cap what each one spends.',
+      spending_budget_daily: 'Daily limit',
+      spending_budget_monthly: 'Monthly limit',
+      spending_budget_no_limit: 'No limit',
+      spending_budget_left_today: '{{amount}} left today',
+      spending_budget_left_month: '{{amount}} left this month',
+      spending_budget_spent_month: '{{amount}} this month',
+      spending_budget_spent_detail: 'Spent {{today}} today, {{month}} this month.',
+      spending_budget_revoke: 'Revoke',
+      spending_budget_revoke_title: 'Revoke spending?',
+      spending_budget_revoke_body:
+        '{{origin}} loses any standing permission to spend, and its budget is removed. It will have to ask again before every payment.',
+      spending_budget_revoked: 'Revoked {{count}} spending permission(s)',
+      spending_budget_revoke_failed: 'Could not revoke',
+      spending_budget_over_daily: 'Over this site’s daily budget — {{remaining}} of {{limit}} left today.',
+      spending_budget_over_monthly: 'Over this site’s monthly budget — {{remaining}} of {{limit}} left this month.',
+      pay_402_title: 'Pay for this page?',
+      pay_402_message: '{{domain}} charges to open',
+      pay_402_over_ceiling: 'More than your {{ceiling}} auto-pay limit for this site',
+      pay_402_pay: 'Pay',
+      pay_402_always: 'Pay, and auto-pay up to this on {{domain}}',
+      pay_402_receipt_server: 'Paid to {{key}}',
+      pay_402_receipt_open: 'Open',
+      pay_402_receipt_open_label: 'Open the page this paid for',
+      pay_402_receipt_unavailable: 'That page was not kept, so it cannot be opened without paying again',
+
+      // History
+      history_search_placeholder: 'Search history',
+      history_no_results: 'No history matches',
+      history_clear_title: 'Clear history from',
+      history_clear_hour: 'The last hour',
+      history_clear_today: 'Today',
+      history_clear_all_time: 'All time',
+
+      // Bookmarks
+      bookmark_new_folder: 'New folder',
+      bookmark_folder_name: 'Folder name',
+      bookmark_rename: 'Rename',
+      bookmark_delete_folder_title: 'Delete “{{title}}”?',
+      bookmark_delete_folder_body: 'Everything inside this folder will be deleted too.',
+      bookmark_empty_folder: 'This folder is empty',
+      bookmark_move_up: 'Move up',
+      bookmark_move_down: 'Move down',
+      bookmark_move_to: 'Move to…',
+      bookmark_move_to_title: 'Move to',
+      bookmark_edit_tags: 'Edit tags',
+      bookmark_tags_placeholder: 'Tags, separated by commas',
+      bookmark_import: 'Import',
+      bookmark_export: 'Export',
+      bookmark_imported: 'Imported {{bookmarks}} bookmarks and {{folders}} folders',
+      bookmark_import_failed: 'Could not import bookmarks',
+      bookmark_export_failed: 'Could not export bookmarks',
+
+      // Content blocker
+      content_blocker_block_site: 'Block ads on this site',
+      content_blocker_allow_site: 'Allow ads on this site',
+      content_blocker_blocked_page: 'A filter list blocked that page',
+
+      // Private tabs
+      private_tab: 'Private tab',
+      new_private_tab: 'New private tab',
+      private_tab_use_wallet: 'Use wallet in this tab',
+      private_tab_hide_wallet: 'Hide wallet from this tab',
+
+      // Tab groups
+      tab_group_add: 'Add to group',
+      tab_group_remove: 'Remove from group',
+      tab_group_move_to_title: 'Move to group',
+      tab_group_new: 'New group',
+      tab_group_rename: 'Rename group',
+      tab_group_color: 'Change group color',
+      tab_group_move_up: 'Move up',
+      tab_group_move_down: 'Move down',
+      tab_group_make_container: 'Make container',
+      tab_group_stop_container: 'Stop being a container',
+      tab_group_make_container_body:
+        'Pages in this group will get their own cookies and their own wallet permissions, as if they were different sites. Open tabs in the group reload.',
+      tab_group_stop_container_body:
+        'Pages in this group will share cookies and wallet permissions with your other tabs again. Open tabs in the group reload.',
+      tab_group_ungroup: 'Ungroup',
+      tab_group_close: 'Close group',
+
+      // Reader mode
+      reader_view: 'Reader view',
+      reader_no_article: 'No article found on this page',
+      reader_close: 'Close reader',
+      reader_font_smaller: 'Smaller text',
+      reader_font_larger: 'Larger text',
+      reader_open_original: 'Open original page',
+      reader_minutes: '{{count}} min read',
+      reading_list: 'Reading list',
+      reading_list_save: 'Save to reading list',
+      reading_list_saved: 'Saved to reading list',
+      reading_list_save_failed: 'Could not save the article',
+      reading_list_removed: 'Removed from reading list',
+      reading_list_remove: 'Remove from reading list',
+      reading_list_mark_read: 'Mark as read',
+      reading_list_mark_unread: 'Mark as unread',
+      reading_list_unread: '{{count}} unread',
+      reading_list_missing: 'The saved copy is gone; opening the page instead',
+      reading_list_empty: 'Articles you save from reader view appear here and open without a connection.',
+
+      // Live sync
+      backup_sync_section: 'Sync between devices',
+      backup_sync_toggle: 'Sync with my other devices',
+      backup_sync_footer: 'Each device running this wallet pulls the others\' changes from the private backup about once a minute. A device only shares its own changes while its backup is on. This device is {{id}}.',
+      backup_sync_device: 'Device {{id}}',
+      backup_sync_synced_at: 'Synced {{time}}',
+      backup_sync_pending: 'Syncing…',
+      backup_sync_failed: 'Sync failed',
+      backup_sync_no_devices: 'No other devices yet',
+      backup_sync_on_toast: 'Sync on — checking your other devices now',
+      backup_sync_off_toast: 'Sync off — other devices\' changes will no longer be merged',
+
+      // Backup browser
+      backup_browser_row: 'Backup history',
+      backup_browser_title: 'Backup history',
+      backup_browser_this_device: 'This device',
+      backup_browser_device: 'Device {{id}}',
+      backup_browser_generation: 'Generation {{generation}}',
+      backup_browser_generation_value: '{{count}} chunks · {{date}}',
+      backup_browser_point: '{{date}} · {{count}} transactions',
+      backup_browser_footer:
+        'Tap a generation to see what the wallet held after each chunk. Restoring to a point replays it into a new database and keeps the current one.',
+      backup_browser_empty: 'No backups yet',
+      backup_browser_empty_subtitle: 'Backups appear here once this wallet has pushed its first chunk.',
+      backup_browser_load_failed: 'Could not load the backup list',
+      backup_browser_preview_failed: 'Could not read this generation',
+      backup_browser_range: '{{from}} to {{to}}',
+      backup_browser_no_transactions: 'no transactions',
+      backup_browser_confirm_title: 'Restore to this point?',
+      backup_browser_confirm_message:
+        '{{count}} transactions ({{range}}), balance {{balance}}.\n\nThe wallet reopens on the restored copy and this device starts a new backup generation from it. Anything after this point is left out.',
+      backup_browser_confirm: 'Restore',
+      backup_browser_restoring: 'Restoring {{chunks}} of {{total}}…',
+      backup_browser_done: 'Restored to the chosen point',
+      backup_browser_failed: 'Restore failed — the wallet was left as it was',
+
+      // Backup server
+      backup_server_section: 'Backup server',
+      backup_server_footer:
+        'Run your own backup server and point this wallet at it. A server is used only after it proves it holds its identity key, and is refused if that key ever changes.',
+      backup_server_row: 'Server',
+      backup_server_default: 'Default',
+      backup_server_none: 'Not set',
+      backup_server_max_chunk: 'Largest chunk accepted',
+      backup_server_stored: 'Stored for this wallet',
+      backup_server_url: 'Server address',
+      backup_server_key: 'Server identity key',
+      backup_server_key_placeholder: 'Optional — from the server\'s operator',
+      backup_server_verify: 'Verify & use',
+      backup_server_verifying: 'Checking the server\'s identity…',
+      backup_server_invalid_url: 'Enter an https address with no path',
+      backup_server_verified_title: 'Server verified',
+      backup_server_verified_message:
+        '{{host}} proved it holds identity key {{key}}. Backups will only go to a server holding this key.',
+      backup_server_verified_copy:
+        'Copy the backups already on your current server first? Otherwise this server starts from a fresh backup.',
+      backup_server_copy_and_use: 'Copy backups and use',
+      backup_server_use: 'Use this server',
+      backup_server_copying: 'Copying {{chunks}} of {{total}} chunks…',
+      backup_server_copied: 'Copied {{count}} chunks',
+      backup_server_saved: 'Backups now go to {{host}}',
+      backup_server_reset: 'Backups now go to the default server',
+      backup_server_reset_off: 'Backup server cleared — backups are off',
+      backup_server_identity_failed: 'The server could not prove its identity',
+      backup_server_failed: 'Could not switch backup servers',
+      // Vault keys
+      vault_keys_section: 'Security keys',
+      vault_keys_footer: 'Any of these keys opens the vault on its own. Tap a key to remove it from this device — a lost key should be removed.',
+      vault_add_key_row: 'Add another key',
+      vault_add_key_title: 'Add a security key',
+      vault_add_key_intro: 'Enroll a further YubiKey to this vault, so losing one key does not lock you out. Have the new key and one of your current keys ready.',
+      vault_add_key_passphrase_title: 'Your vault passphrase',
+      vault_add_key_passphrase_intro: 'Enter the passphrase you chose when you set up this vault. One of your current keys will be tapped to check it before the new key is touched.',
+      vault_add_key_begin: 'Add key',
+      vault_add_key_approve_reason: 'Confirm with a key already on this vault',
+      vault_key_added_toast: 'Key added',
+      vault_key_remove_title: 'Remove {{name}}?',
+      vault_key_remove_message: 'Key {{serial}} will no longer open the vault on this device. Your other keys and your recovery phrase are unaffected.',
+      vault_key_remove_message_cosign: 'Key {{serial}} will no longer open the vault on this device. Because two-key approval is on, two of your keys must approve this.',
+      vault_key_remove_confirm: 'Remove key',
+      vault_key_removed_toast: '{{name}} removed',
+      vault_cosign_section: 'Two-key approval',
+      vault_cosign_footer: 'Withdrawals above the limit need taps from two different keys. Needs at least {{count}} keys, so losing one still leaves two. Recovery with your phrase is not affected.',
+      vault_cosign_row: 'Large withdrawals',
+      vault_cosign_above: 'Above {{amount}} sats',
+      vault_cosign_threshold: 'Require two keys above (sats)',
+      vault_cosign_save: 'Save',
+      vault_cosign_turn_off: 'Turn off',
+      vault_cosign_invalid: 'Enter a whole number of satoshis',
+      vault_cosign_on_toast: 'Two keys now needed above {{amount}} sats',
+      vault_cosign_off_toast: 'Two-key approval turned off',
+      vault_cosign_approve_reason: 'Approve with your first key',
+      vault_cosign_second_reason: 'Now tap a different key to approve',
+      vault_err_key_already_enrolled: 'That key already opens this vault.',
+      vault_err_last_key: 'This is the vault\'s only key. Add another key before removing it.',
+      vault_err_same_key: 'That key already approved. Tap a different key.',
+      vault_err_co_sign_needs_keys: 'Two-key approval needs at least 3 keys on this vault.',
+
+      // Delayed withdrawals
+      vault_delay_section: 'Withdrawal delay',
+      vault_delay_footer:
+        'Withdrawals wait this long before reaching your balance. Until then you can send one back into the vault with a different key or your recovery phrase. Shortening or turning off the delay needs a second key.',
+      vault_delay_row: 'Hold withdrawals',
+      vault_delay_hours: '{{count}} h',
+      vault_delay_input_label: 'Hours to hold each withdrawal',
+      vault_delay_save: 'Save',
+      vault_delay_turn_off: 'Turn off',
+      vault_delay_invalid: 'Enter a whole number of hours.',
+      vault_delay_on_toast: 'Withdrawals now wait {{count}} h',
+      vault_delay_off_toast: 'Withdrawals are no longer delayed',
+      vault_delay_approve_reason: 'Approve changing the withdrawal delay',
+      vault_withdraw_delayed: 'Withdrawal on hold until {{time}}',
+      vault_pending_section: 'Pending withdrawals',
+      vault_pending_footer: 'Each one reaches your balance when its wait is over.',
+      vault_pending_row: '{{amount}} sats',
+      vault_pending_remaining: '{{hours}} h {{minutes}} min left',
+      vault_pending_due: 'Ready',
+      vault_pending_title: 'Withdrawal of {{amount}} sats',
+      vault_pending_message:
+        "Reaches your balance {{time}}. If you didn't start this withdrawal, send it back into the vault now.",
+      vault_pending_message_due: 'The wait is over. Release it into your balance, or send it back into the vault.',
+      vault_pending_message_unsigned: 'This withdrawal could not be finished automatically. Send it back into the vault.',
+      vault_pending_release: 'Release now',
+      vault_pending_cancel: 'Send back to vault',
+      vault_pending_cancel_key: 'Use another key',
+      vault_pending_cancel_recovery: 'Use recovery phrase',
+      vault_pending_cancel_reason: 'Send a held withdrawal back to the vault',
+      vault_pending_cancelled_toast: 'Withdrawal sent back to the vault',
+      vault_pending_released_toast: '{{amount}} sats from the vault reached your balance',
+      vault_pending_release_failed:
+        'Not released yet. The network can take up to an hour after the wait to accept it — try again shortly.',
+      vault_delay_alert_title: 'Vault withdrawal on hold',
+      vault_delay_alert_message:
+        "{{amount}} sats will leave the vault {{time}}. If this wasn't you, send it back from the vault screen with another key or your recovery phrase.",
+      vault_delay_alert_review: 'Review',
+      vault_release_notification_title: 'Vault withdrawal ready',
+      vault_release_notification_body: 'The wait is over. Open the app to move {{amount}} sats into your balance.',
+      vault_recover_cancel_title: 'Send back to vault',
+      vault_recover_cancel_sub:
+        'Enter your vault passphrase to send the held withdrawal back into the vault. No YubiKey is needed.',
+      vault_recover_cancel_cta: 'Send back to vault',
+      vault_err_withdrawal_held: 'This withdrawal is still in its waiting period.',
+
+      // Watch-only deposits
+      vault_watch_section: 'Watch-only deposits',
+      vault_watch_footer:
+        'Deposits use addresses prepared ahead of time, so they need no YubiKey. Anyone who can read this device could see those addresses, but not spend from them.',
+      vault_watch_footer_low:
+        'Only {{count}} prepared addresses left. Top up with a tap, or deposits will ask for your YubiKey again.',
+      vault_watch_row: 'Deposit without a key',
+      vault_watch_remaining: '{{count}} left',
+      vault_watch_verified: 'Verified balance',
+      vault_watch_verified_value: '{{amount}} sats',
+      vault_watch_mismatch: '{{count}} vault outputs do not match their prepared address',
+      vault_watch_forged: '{{count}} prepared addresses failed their integrity check',
+      vault_watch_top_up: 'Prepare more addresses',
+      vault_watch_batch: 'Indexes {{from}}–{{to}}',
+      vault_watch_turn_off: 'Turn off watch-only',
+      vault_watch_on_title: 'Deposit without a key?',
+      vault_watch_on_message:
+        'One tap prepares {{count}} vault addresses and keeps them on this device. Deposits then use them without the YubiKey, and the vault balance can be checked against them. Withdrawals still need your key.',
+      vault_watch_on_confirm: 'Prepare addresses',
+      vault_watch_fill_reason: 'Prepare vault deposit addresses',
+      vault_watch_filled_toast: '{{count}} deposit addresses prepared',
+      vault_watch_full_toast: 'All prepared addresses are still unused',
+      vault_watch_off_title: 'Turn off watch-only?',
+      vault_watch_off_message: 'Prepared addresses are deleted from this device. Deposits will need your YubiKey again.',
+      vault_watch_off_toast: 'Watch-only deposits turned off',
+      vault_watch_low_toast: 'Moved to vault. {{count}} prepared addresses left.',
+      vault_err_watch_pool_empty: 'No prepared deposit addresses left. Try again to deposit with your YubiKey.',
+      vault_err_watch_pool_tampered: 'A prepared deposit address failed its integrity check, so nothing was sent. Turn watch-only deposits off and prepare new addresses.',
+
+      // Vault ledger
+      vault_ledger_open: 'Vault activity',
+      vault_ledger_title: 'Vault activity',
+      vault_ledger_footer:
+        'Every movement in and out of the vault, with the key that approved it. Movements made on another device show no approval.',
+      vault_ledger_empty: 'No vault activity yet',
+      vault_ledger_load_failed: 'Could not load vault activity',
+      vault_ledger_row: '{{kind}} · {{amount}} sats',
+      vault_ledger_kind_deposit: 'Deposit',
+      vault_ledger_kind_withdraw: 'Withdrawal',
+      vault_ledger_kind_hold: 'Delayed withdrawal',
+      vault_ledger_kind_release: 'Release',
+      vault_ledger_kind_cancel: 'Sent back to vault',
+      vault_ledger_kind_sweep: 'Recovery sweep',
+      vault_ledger_kind_unknown: 'Vault transaction',
+      vault_ledger_auth_key: 'YubiKey {{serials}}',
+      vault_ledger_auth_co_sign: 'YubiKeys {{serials}}',
+      vault_ledger_auth_presigned: 'Presigned by YubiKey {{serials}}',
+      vault_ledger_auth_watch_only: 'Prepared address',
+      vault_ledger_auth_recovery: 'Recovery phrase',
+      vault_ledger_auth_unrecorded: 'Not recorded here',
+      vault_ledger_transport_usb: 'USB',
+      vault_ledger_transport_nfc: 'NFC',
+      vault_ledger_transport_mock: 'Test key',
+      vault_ledger_detail_txid: 'Transaction: {{txid}}',
+      vault_ledger_detail_auth: 'Approved by: {{auth}}',
+      vault_ledger_detail_at: 'Approved at: {{time}}',
+      vault_ledger_detail_fee: 'Fee: {{fee}} sats',
+      vault_ledger_detail_status: 'Status: {{status}}',
+      vault_ledger_export_title: 'Export vault activity',
+      vault_ledger_export_message:
+        'The file is signed with a key derived from your wallet identity, so an auditor can check it has not been changed.',
+      vault_ledger_export_failed: 'Could not export vault activity',
+      vault_ledger_auth_software: 'Passphrase key {{serials}}',
+
+      // Software vault key
+      vault_hero_body_software:
+        'Move funds into a vault opened by a key kept on this device, locked with a passphrase of its own. Both deposits and withdrawals need that passphrase.',
+      vault_software_choose: 'No YubiKey? Use a passphrase-protected key instead',
+      vault_software_new_title: 'Choose a key passphrase',
+      vault_software_new_body:
+        'This passphrase unlocks the vault key stored on this device. Use different words from your vault passphrase — that one is for recovery.',
+      vault_software_enter: 'Enter your key passphrase',
+      vault_software_sub: 'The passphrase you chose for this device’s vault key.',
+      vault_software_unlocking: 'Unlocking the key…',
+      vault_err_software_locked:
+        'Too many wrong passphrases — the key on this device is locked. Use your recovery phrase to restore the vault.',
+
+      // Key rotation
+      rotate_key_row: 'Rotate encryption key',
+      rotate_key_title: 'Rotate encryption key?',
+      rotate_key_message:
+        'Your recovery phrase stays the same. It is re-encrypted on this device under a new key, and the old key is deleted.',
+      rotate_key_confirm: 'Rotate',
+      rotate_key_done: 'Encryption key rotated',
+      rotate_key_failed: 'Could not rotate the key. Nothing was changed — try again.',
+      rotate_key_locked: 'Unlock the wallet first, then try again.',
+
+      // Point of sale
+      pos_row: 'Point of sale',
+      pos_title: 'Point of sale',
+      pos_items: 'Items',
+      pos_items_footer: 'Tap an item to add it to the cart. Prices are in satoshis.',
+      pos_item_new: 'New item',
+      pos_item_name: 'Name',
+      pos_item_price: 'Price (sats)',
+      pos_item_add: 'Add item',
+      pos_item_invalid: 'Enter a name and a whole number of satoshis.',
+      pos_item_save_failed: 'Could not save the item list.',
+      pos_item_remove_title: 'Remove {{name}}?',
+      pos_item_remove_message: 'It is removed from the item list. Past sales keep it.',
+      pos_item_remove_confirm: 'Remove',
+      pos_cart: 'Cart',
+      pos_cart_empty: 'No items yet',
+      pos_charge: 'Charge {{amount}}',
+      pos_charge_empty: 'Add items to charge',
+      pos_checkout_title: 'Checkout · {{amount}}',
+      pos_next_sale: 'Next sale',
+      pos_till_write_failed: 'Payment received, but the sale could not be added to the till.',
+      pos_today: 'Today',
+      pos_end_of_day: 'End-of-day report',
+      pos_report_title: 'Report · {{day}}',
+      pos_report_failed: 'Could not build the report.',
+      pos_report_totals: 'Totals',
+      pos_report_totals_footer:
+        'Queued payments are safe on this device and are added to the wallet once it can reach the network.',
+      pos_report_sales: '{{count}} sales',
+      pos_report_items: 'Items sold',
+      pos_report_attention: 'Needs attention',
+      pos_report_unmatched: '{{count}} nearby payments today were not taken at a checkout.',
+      pos_report_share_title: 'Share the report',
+      pos_report_print: 'Print',
+      pos_status_credited: 'In wallet',
+      pos_status_queued: 'Queued',
+      pos_status_failed: 'Not credited',
+      pos_status_missing: 'Missing from the queue',
+
+      // Split bill
+      split_bill_single: 'One payer',
+      split_bill_split: 'Split bill',
+      split_bill_hint: 'Enter the bill’s total. Everyone pays their share and the request closes when it is covered.',
+      split_bill_left: 'Left to pay',
+      split_bill_your_share: 'Your share',
+      split_bill_share_hint: 'This is the whole bill. Enter the part you are paying.',
+      split_bill_share_over: 'That is more than the whole bill.',
+      split_refund_owed: 'Refund owed to {{who}}',
+      split_refund_sending: 'Refunding {{who}}…',
+      split_refund_sent: 'Refunded to {{who}}',
+      split_refund_outbox: 'Refund to {{who}} is waiting in your outgoing payments',
+      split_refund_retry: 'Send refund',
+      split_refund_no_box: 'Refunds go through a message box. Set one up under Pay → someone with this app.',
+      split_refund_note: 'Split bill refund',
+
+      // Refunds
+      refund_action: 'Refund',
+      refund_action_label: 'Send this payment back to whoever paid it',
+      refund_confirm_title: 'Refund {{amount}}?',
+      refund_confirm_message:
+        'This sends the same amount back to whoever paid you. In person, ask them to open Get paid → someone nearby.',
+      refund_to_inbox: 'Send to their inbox',
+      refund_in_person: 'Refund in person',
+      refund_title: 'Refund',
+      refund_scan_hint: 'Ask the person who paid you to open Get paid → someone nearby, then scan their code.',
+      refund_wrong_payee: 'This code belongs to someone else. A refund can only go back to whoever paid.',
+      refund_amount_mismatch: 'This request is for a different amount than the payment being refunded.',
+      refund_not_owed: 'This payment has already been refunded, or a refund is on its way.',
+      refund_unavailable: 'This payment cannot be refunded from here.',
+      refund_no_box: 'Refunds to an inbox go through a message box. Set one up under Pay → someone with this app.',
+      refund_note: 'Refund',
+      refund_sent: 'Refund sent',
+      refund_outbox: 'Refund is waiting in your outgoing payments',
+      refund_failed: 'Could not send the refund',
+      refund_row_of: 'Refund of {{txid}}',
+      refund_row_sent: 'Refunded in {{txid}}',
+      refund_row_sending: 'Refund on its way',
+      refund_row_outbox: 'Refund waiting in your outgoing payments',
+      refund_row_owed: 'Refund not sent',
+      refund_row_failed: 'Refund not sent: {{error}}',
+
+      // Offline channels
+      local_pay_declined_limit:
+        'The recipient already holds as much unbroadcast money from you as they allow. Nothing was sent — it can go once either of you is back online.',
+      channel_limit_reached:
+        'This would pass your limit for unbroadcast payments with this device. Nothing was sent — it can go once either of you is back online.',
+      channel_limit_declined: 'A payment was turned away: that payer has reached your limit for unbroadcast payments.',
+      channel_meter_title: 'Not yet broadcast with this device',
+      channel_meter_figure: '{{exposure}} of {{limit}}',
+      channel_meter_a11y: 'Unbroadcast payments at {{percent}} percent of the limit',
+      channel_meter_full: 'At the limit. No more payments until the chain is broadcast.',
+      channel_meter_held: '{{count}} payment(s) waiting, to be broadcast oldest first.',
+      channel_meter_clear: 'Nothing waiting to be broadcast.',
+      channel_section: 'Offline channels',
+      channel_section_footer:
+        'With no signal, payments with each device chain onto each other until one of you reconnects. The limit caps how much can wait unbroadcast with any one device.',
+      channel_mode: 'Offline channel mode',
+      channel_mode_on: 'On',
+      channel_mode_off: 'Off',
+      channel_default_limit: 'Limit per device',
+      channel_limit_placeholder: 'Limit in satoshis',
+      channel_limit_save: 'Save limit',
+      channel_limit_edit_hint: 'Set the limit for this device',
+      channel_limit_invalid: 'Enter a limit in whole satoshis.',
+      channel_limit_save_failed: 'Could not save the channel settings.',
+
+      // Local notifications
+      notifications_channel_name: 'Notifications'
     }
   },
   zh: {
@@ -0,0 +1,37 @@
+/**
+ * Open delayed vault withdrawals, plus a clock that ticks while they are shown
+ * so each countdown stays current. Reloads on txStatusVersion bumps (a release
+ * or cancel landing) and on demand after the screen acts on one.
+ */
+import { useCallback, useEffect, useState } from 'react'
+import { useWallet } from '@/context/WalletContext'
+import { delayedWithdrawalStore, type DelayedWithdrawal } from '@/services/vault/delayedWithdrawals'
+
+const TICK_MS = 30_000
+
+export function useDelayedWithdrawals(): { holds: DelayedWithdrawal[]; now: number; refresh: () => void } {
+  const { txStatusVersion } = useWallet()
+  const [holds, setHolds] = useState<DelayedWithdrawal[]>([])
+  const [now, setNow] = useState(() => Date.now())
+
+  const refresh = useCallback(() => {
+    delayedWithdrawalStore
+      .list()
+      .then(setHolds)
+      .catch(() => {
+        /* keep the last list on a transient storage failure */
+      })
+  }, [])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh, txStatusVersion])
+
+  useEffect(() => {
+    if (holds.length === 0) return
+    const id = setInterval(() => setNow(Date.now()), TICK_MS)
+    return () => clearInterval(id)
+  }, [holds.length])
+
+  return { holds, now, refresh }
+}
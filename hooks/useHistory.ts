@@ -1,66 +1,99 @@
 import { useCallback, useEffect, useRef, useState } from 'react'
 import type { HistoryEntry } from '@/shared/types/browser'
-import { kNEW_TAB_URL } from '@/shared/constants'
 import { isValidUrl } from '@/utils/generalHelpers'
+import { getHistoryStore, historyRangeStart, type HistoryRange, type HistoryStore } from '@/utils/history/historyStore'
 
-const HISTORY_KEY = 'history'
+// Where history lived before the SQLite store; imported once, then deleted.
+const LEGACY_HISTORY_KEY = 'history'
+
+// How much of the list the history sheet and new-tab page get. Older entries
+// are still searchable.
+const HISTORY_LIST_LIMIT = 500
 
 export function useHistory(
   getItem: (key: string) => Promise<string | null>,
-  setItem: (key: string, value: string) => Promise<void>
+  deleteItem: (key: string) => Promise<void>
 ) {
-  const loadHistory = useCallback(async (): Promise<HistoryEntry[]> => {
-    const raw = await getItem(HISTORY_KEY)
-    const data = raw ? (JSON.parse(raw) as HistoryEntry[]) : []
-    return data.map(h => ({
-      ...h,
-      url: isValidUrl(h.url) ? h.url : kNEW_TAB_URL
-    }))
-  }, [getItem])
-
   const [history, setHistory] = useState<HistoryEntry[]>([])
+  const storeRef = useRef<HistoryStore | null>(null)
 
-  // Keep a ref in sync with state so that callbacks always read the
-  // latest history array instead of a stale closure snapshot.
-  const historyRef = useRef<HistoryEntry[]>(history)
-  useEffect(() => {
-    historyRef.current = history
-  }, [history])
+  const refresh = useCallback(async (): Promise<HistoryEntry[]> => {
+    if (!storeRef.current) return []
+    const list = await storeRef.current.recent(HISTORY_LIST_LIMIT)
+    setHistory(list)
+    return list
+  }, [])
 
   useEffect(() => {
-    loadHistory().then(setHistory)
-  }, [loadHistory])
-
-  const saveHistory = useCallback(
-    async (list: HistoryEntry[]) => {
-      historyRef.current = list
-      setHistory(list)
-      await setItem(HISTORY_KEY, JSON.stringify(list))
-    },
-    [setItem]
-  )
+    let cancelled = false
+    ;(async () => {
+      const store = await getHistoryStore()
+      const raw = await getItem(LEGACY_HISTORY_KEY)
+      if (raw) {
+        try {
+          const data = JSON.parse(raw) as HistoryEntry[]
+          if (Array.isArray(data)) await store.importLegacy(data.filter(h => isValidUrl(h.url)))
+          await deleteItem(LEGACY_HISTORY_KEY)
+        } catch (e) {
+          // Left in place; the next launch tries again.
+          console.warn('[history] legacy import failed:', e)
+        }
+      }
+      if (cancelled) return
+      storeRef.current = store
+      await refresh()
+    })().catch(e => console.warn('[history] could not open the history database:', e))
+    return () => {
+      cancelled = true
+    }
+  }, [getItem, deleteItem, refresh])
 
   const pushHistory = useCallback(
     async (entry: HistoryEntry) => {
-      const current = historyRef.current
-      if (current.length && current[0].url.replace(/\/$/, '') === entry.url.replace(/\/$/, '')) return
-      const next = [entry, ...current].slice(0, 500)
-      await saveHistory(next)
+      const store = storeRef.current
+      if (!store) return
+      await store.recordVisit(entry, entry.timestamp)
+      await refresh()
     },
-    [saveHistory]
+    [refresh]
   )
 
   const removeHistoryItem = useCallback(
     async (url: string) => {
-      const next = historyRef.current.filter(h => h.url !== url)
-      await saveHistory(next)
+      const store = storeRef.current
+      if (!store) return
+      await store.remove(url)
+      await refresh()
     },
-    [saveHistory]
+    [refresh]
   )
 
   const clearHistory = useCallback(async () => {
-    await saveHistory([])
-  }, [saveHistory])
+    const store = storeRef.current
+    if (!store) return
+    await store.clear()
+    await refresh()
+  }, [refresh])
+
+  /**
+   * Forget the visits made since the start of `range` ('all' is clearHistory).
+   * Resolves to the list as it now stands.
+   */
+  const clearHistoryRange = useCallback(
+    async (range: HistoryRange): Promise<HistoryEntry[]> => {
+      const store = storeRef.current
+      if (!store) return []
+      if (range === 'all') await store.clear()
+      else await store.deleteVisitsBetween(historyRangeStart(range), Number.MAX_SAFE_INTEGER)
+      return refresh()
+    },
+    [refresh]
+  )
+
+  /** Full-text search, best frecency first. */
+  const searchHistory = useCallback(async (text: string, limit?: number): Promise<HistoryEntry[]> => {
+    return storeRef.current ? storeRef.current.search(text, limit) : []
+  }, [])
 
-  return { history, pushHistory, removeHistoryItem, clearHistory }
+  return { history, pushHistory, removeHistoryItem, clearHistory, clearHistoryRange, searchHistory }
 }
@@ -0,0 +1,55 @@
+/**
+ * Local backup server for development.
+ *
+ * Serves utils/backup/serverStandIn.ts over HTTP so a dev build can push, restore, erase
+ * and live-sync without touching the shared server:
+ *
+ *     npx tsx scripts/backup-stand-in.ts            # listens on :8787
+ *     PORT=9000 npx tsx scripts/backup-stand-in.ts
+ *
+ *     EXPO_PUBLIC_BACKUP_URL=http://localhost:8787 npm run ios
+ *
+ * An Android emulator reaches the host as http://10.0.2.2:8787; a physical device needs
+ * the machine's LAN address. Everything is held in memory and gone when the process
+ * exits — which is usually what a restore test wants.
+ *
+ * It trusts whatever identity a request's proof claims (see the stand-in's module doc), so
+ * it binds to loopback unless HOST says otherwise. Do not expose it.
+ */
+import { createServer, type IncomingMessage } from 'node:http'
+import { BackupServerStandIn } from '../utils/backup/serverStandIn'
+
+const PORT = Number(process.env.PORT ?? 8787)
+const HOST = process.env.HOST ?? '127.0.0.1'
+
+const server = new BackupServerStandIn()
+
+async function readBody (req: IncomingMessage): Promise<Uint8Array | undefined> {
+  const chunks: Buffer[] = []
+  for await (const chunk of req) chunks.push(chunk as Buffer)
+  return chunks.length === 0 ? undefined : new Uint8Array(Buffer.concat(chunks))
+}
+
+createServer((req, res) => {
+  void (async () => {
+    const method = (req.method ?? 'GET').toUpperCase()
+    const url = new URL(req.url ?? '/', `http://${req.headers.host ?? `${HOST}:${PORT}`}`)
+    const headers = new Headers()
+    for (const [name, value] of Object.entries(req.headers)) {
+      if (value != null) headers.set(name, Array.isArray(value) ? value.join(', ') : value)
+    }
+
+    try {
+      const response = await server.handle(method, url, headers, await readBody(req))
+      res.writeHead(response.status, Object.fromEntries(response.headers.entries()))
+      res.end(Buffer.from(await response.arrayBuffer()))
+      console.log(`${method} ${url.pathname}${url.search} → ${response.status}`)
+    } catch (e) {
+      console.error(`${method} ${url.pathname} failed:`, e)
+      res.writeHead(500, { 'Content-Type': 'application/json' })
+      res.end(JSON.stringify({ status: 'error', code: 'ERR_INTERNAL', description: 'stand-in failed' }))
+    }
+  })()
+}).listen(PORT, HOST, () => {
+  console.log(`Backup stand-in listening on http://${HOST}:${PORT} (server key ${server.identityKey})`)
+})
@@ -61,3 +61,5 @@ export {
   sweepLegacyKeys,
   type MigrationResult
 } from './migration'
+
+export { rotateKek, rotateKekIfBiometricsChanged, type RotationResult } from './rotation'
@@ -14,10 +14,17 @@
  */
 import * as SecureStore from 'expo-secure-store'
 import { Utils } from '@bsv/sdk'
-import { generateKek, generateKekId } from './envelope'
-import { KEK_AUTH_KEY, KEK_PLAIN_KEY, needsUpgrade, policyFor, resolveProvisioningPolicy } from './policy'
-import { ENV_SERVICE, envOptions, kekOptions, SENTINEL_KEY } from './storage'
-import { KekPolicy, KekSentinel, SecretName, UnavailableReason, UnlockState } from './types'
+import { generateKek, generateKekId, openSecret } from './envelope'
+import {
+  biometricEnrollment,
+  KEK_AUTH_KEY,
+  KEK_PLAIN_KEY,
+  needsUpgrade,
+  policyFor,
+  resolveProvisioningPolicy
+} from './policy'
+import { ENV_SERVICE, envKey, envOptions, kekOptions, SENTINEL_KEY, stagedEnvKey } from './storage'
+import { EnvelopeBlob, KekPolicy, KekSentinel, SecretName, UnavailableReason, UnlockState } from './types'
 
 let cached: { kek: number[]; kekId: string; policy: KekPolicy } | null = null
 let inFlight: Promise<UnlockState> | null = null
@@ -56,6 +63,19 @@ export function peekKek(): { kek: number[]; kekId: string } | null {
 
 /* ------------------------------- sentinel -------------------------------- */
 
+// Every change to the blobs or the sentinel — putSecret, deleteSecret,
+// deleteAllSecrets and a rotation — runs through one chain. A write landing
+// mid-rotation would be sealed under the KEK the rotation is about to replace,
+// or dropped when its staged copies are committed over the live ones.
+let secretsLock: Promise<unknown> = Promise.resolve()
+
+/** Internal to services/secrets. Not re-entrant: never call a locked operation from inside one. */
+export function withSecretsLock<T>(fn: () => Promise<T>): Promise<T> {
+  const run = secretsLock.then(fn, fn)
+  secretsLock = run.catch(() => undefined)
+  return run
+}
+
 export async function readSentinel(): Promise<KekSentinel | null> {
   try {
     const raw = await SecureStore.getItemAsync(SENTINEL_KEY, envOptions)
@@ -67,7 +87,8 @@ export async function readSentinel(): Promise<KekSentinel | null> {
   }
 }
 
-async function writeSentinel(s: KekSentinel): Promise<void> {
+/** Internal to services/secrets. */
+export async function writeSentinel(s: KekSentinel): Promise<void> {
   await SecureStore.setItemAsync(SENTINEL_KEY, JSON.stringify(s), envOptions)
 }
 
@@ -141,14 +162,16 @@ export async function provisionKek(): Promise<UnlockState> {
     kekId,
     policy: resolved.policy,
     provisionedAt: Date.now(),
-    names: []
+    names: [],
+    biometrics: await biometricEnrollment()
   })
 
   cached = { kek, kekId, policy: resolved.policy }
   return setState({ status: 'unlocked', kekId, policy: resolved.policy })
 }
 
-async function deleteBothKekItems(): Promise<void> {
+/** Internal to services/secrets. */
+export async function deleteBothKekItems(): Promise<void> {
   // Deletion never prompts on either platform.
   await SecureStore.deleteItemAsync(KEK_AUTH_KEY, kekOptions(true)).catch(() => {})
   await SecureStore.deleteItemAsync(KEK_PLAIN_KEY, kekOptions(false)).catch(() => {})
@@ -196,6 +219,7 @@ async function doUnlock(promptMessage?: string): Promise<UnlockState> {
   if (sentinel.names.length === 0) return setState({ status: 'absent' })
 
   setState({ status: 'unlocking' })
+  if (sentinel.rotating) return settleRotation(sentinel, sentinel.rotating, promptMessage)
 
   const resolved = policyFor(sentinel.policy)
   let raw: string | null
@@ -244,6 +268,99 @@ export async function upgradeToBiometric(sentinel: KekSentinel): Promise<UnlockS
   }
 }
 
+/* -------------------------------- rotation -------------------------------- */
+
+/**
+ * The last step of a rotation (rotation.ts), and of one a crash interrupted.
+ *
+ * Staged blobs are copied over the live ones BEFORE the sentinel names the new
+ * KEK, and the staged copies are only deleted after. A crash anywhere in here
+ * leaves the journal in place and the staged blobs intact, so the next unlock
+ * simply runs this again.
+ *
+ * Internal to services/secrets.
+ */
+export async function commitRotation(
+  sentinel: KekSentinel,
+  next: { kek: number[]; kekId: string; policy: KekPolicy }
+): Promise<UnlockState> {
+  for (const name of sentinel.names) {
+    const staged = await SecureStore.getItemAsync(stagedEnvKey(name), envOptions)
+    if (staged) await SecureStore.setItemAsync(envKey(name), staged, envOptions)
+  }
+  await writeSentinel({
+    v: 1,
+    kekId: next.kekId,
+    policy: next.policy,
+    provisionedAt: Date.now(),
+    names: sentinel.names,
+    biometrics: await biometricEnrollment()
+  })
+  await dropStagedBlobs(sentinel.names)
+  cached = { kek: next.kek, kekId: next.kekId, policy: next.policy }
+  return setState({ status: 'unlocked', kekId: next.kekId, policy: next.policy })
+}
+
+/** Internal to services/secrets. */
+export async function dropStagedBlobs(names: SecretName[]): Promise<void> {
+  for (const name of names) {
+    await SecureStore.deleteItemAsync(stagedEnvKey(name), envOptions).catch(() => {})
+  }
+}
+
+/**
+ * Unlock into a rotation that never committed.
+ *
+ * The swap deletes the old KEK item before writing the new one, so at most
+ * one of the two is present — look for the new policy's item first. Whichever
+ * KEK turns up tells us how far the rotation got: if it opens the staged
+ * blobs, the new KEK was written and the rotation is finished; if not, it is
+ * the old KEK and the rotation is undone. Either way this costs the one
+ * prompt an ordinary unlock would.
+ */
+async function settleRotation(
+  sentinel: KekSentinel,
+  next: { kekId: string; policy: KekPolicy },
+  promptMessage?: string
+): Promise<UnlockState> {
+  const candidates = [policyFor(next.policy), policyFor(sentinel.policy)]
+  let raw: string | null = null
+  try {
+    for (const resolved of candidates) {
+      raw = await SecureStore.getItemAsync(
+        resolved.keyName,
+        kekOptions(resolved.requireAuthentication, promptMessage)
+      )
+      if (raw !== null) break
+    }
+  } catch (err) {
+    return setState(classifyAuthError(err))
+  }
+  if (raw === null) return setState({ status: 'lost' })
+  const kek = Utils.toArray(raw, 'hex') as number[]
+
+  if (await opensStagedBlobs(kek, sentinel.names)) {
+    return commitRotation(sentinel, { kek, kekId: next.kekId, policy: next.policy })
+  }
+  await dropStagedBlobs(sentinel.names)
+  await writeSentinel({ ...sentinel, rotating: undefined })
+  cached = { kek, kekId: sentinel.kekId, policy: sentinel.policy }
+  return setState({ status: 'unlocked', kekId: sentinel.kekId, policy: sentinel.policy })
+}
+
+async function opensStagedBlobs(kek: number[], names: SecretName[]): Promise<boolean> {
+  try {
+    for (const name of names) {
+      const raw = await SecureStore.getItemAsync(stagedEnvKey(name), envOptions)
+      if (!raw) return false
+      openSecret(kek, name, JSON.parse(raw) as EnvelopeBlob)
+    }
+    return names.length > 0
+  } catch {
+    return false
+  }
+}
+
 /* -------------------------------- teardown -------------------------------- */
 
 /** Prompt-free, and works while locked or lost — otherwise a user whose
@@ -75,6 +75,27 @@ export async function hasStrongBiometrics(): Promise<boolean> {
   }
 }
 
+/**
+ * A fingerprint of the biometric enrolment: the enrolled security level, the
+ * biometric kinds on offer, and the enrolment state — which changes when a
+ * finger or face is added or removed, exactly when the OS invalidates an
+ * auth-bound KEK. The state comes from our expo-local-authentication patch:
+ * LAContext's domain state on iOS, an enrolment-bound probe key on Android.
+ * All three are read without a prompt.
+ */
+export async function biometricEnrollment(): Promise<string> {
+  try {
+    const [level, types, state] = await Promise.all([
+      LocalAuthentication.getEnrolledLevelAsync(),
+      LocalAuthentication.supportedAuthenticationTypesAsync(),
+      LocalAuthentication.getBiometricEnrollmentStateAsync()
+    ])
+    return `${level}:${[...types].sort().join(',')}:${state ?? ''}`
+  } catch {
+    return 'unknown'
+  }
+}
+
 /** Copy helper: "Face ID" vs "Touch ID" vs "fingerprint". */
 export async function biometricKind(): Promise<'face' | 'fingerprint' | 'iris' | 'unknown'> {
   try {
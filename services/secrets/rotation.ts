@@ -0,0 +1,174 @@
+/**
+ * KEK rotation: mint a new key-encryption key and re-seal every wallet secret
+ * under it, on demand from settings or after the biometric enrolment changes.
+ *
+ * The second trigger is the one that saves wallets. An auth-bound KEK is bound
+ * to the enrolment it was minted under, and the OS destroys it when that
+ * changes — but only reading it fails, and this process already holds it in
+ * memory. Rotating now writes a KEK under the new enrolment while we still
+ * can; waiting for the next launch means `lost` and the recovery phrase.
+ *
+ * Ordering, like migration.ts, is the whole design:
+ *
+ *   1. open every secret under the current KEK (already in memory — no prompt)
+ *   2. seal each under the new KEK into a staged item, read back and verify
+ *   3. journal the rotation in the sentinel (`rotating`)
+ *   4. swap the KEK item — the one step that destroys anything
+ *   5. commit: staged blobs over live ones, then the sentinel (kek.ts)
+ *
+ * A failure before 4 drops the staged blobs and the journal and leaves the
+ * install as it was. A failure in 4 puts the old KEK back. A crash after 3 is
+ * settled by the next unlock, which works out from the KEK it finds whether
+ * to finish the rotation or undo it (kek.ts settleRotation).
+ *
+ * SECURITY: never log the KEK or the opened secrets.
+ */
+import * as SecureStore from 'expo-secure-store'
+import { Utils } from '@bsv/sdk'
+import { assertKekId, generateKek, generateKekId, openSecret, sealSecret } from './envelope'
+import {
+  commitRotation,
+  deleteBothKekItems,
+  dropStagedBlobs,
+  isUnlocked,
+  peekKek,
+  readSentinel,
+  withSecretsLock,
+  writeSentinel
+} from './kek'
+import { biometricEnrollment, policyFor, resolveProvisioningPolicy } from './policy'
+import { envKey, envOptions, kekOptions, stagedEnvKey } from './storage'
+import { EnvelopeBlob, KekSentinel, SECRET_NAMES, SecretName } from './types'
+
+export type RotationResult =
+  | { outcome: 'not-needed' }
+  | { outcome: 'rotated'; kekId: string; names: SecretName[] }
+  | { outcome: 'failed'; stage: 'locked' | 'read' | 'stage' | 'swap'; retryable: boolean }
+
+let inFlight: Promise<RotationResult> | null = null
+
+/** Rotate now. Needs the KEK already unlocked this process; it never prompts
+ * to get it, because an unlock that fails here would be indistinguishable to
+ * the user from the rotation failing. Single-flight, and serialised with
+ * putSecret/deleteSecret (kek.ts withSecretsLock). */
+export function rotateKek(): Promise<RotationResult> {
+  if (!inFlight) {
+    inFlight = withSecretsLock(doRotate).finally(() => {
+      inFlight = null
+    })
+  }
+  return inFlight
+}
+
+/**
+ * Rotate if the biometric enrolment no longer matches the one the KEK was
+ * minted under; otherwise do nothing. Cheap and prompt-free when nothing
+ * changed, so it is safe to call on every foreground.
+ *
+ * A sentinel from before enrolment was recorded gets today's enrolment as its
+ * baseline rather than a rotation.
+ */
+export async function rotateKekIfBiometricsChanged(): Promise<RotationResult | null> {
+  if (!isUnlocked()) return null
+  const sentinel = await readSentinel()
+  if (!sentinel || sentinel.names.length === 0 || sentinel.rotating) return null
+  const now = await biometricEnrollment()
+  if (now === 'unknown' || now === sentinel.biometrics) return null
+  if (sentinel.biometrics === undefined) {
+    await withSecretsLock(async () => {
+      const current = await readSentinel()
+      if (current && current.biometrics === undefined) await writeSentinel({ ...current, biometrics: now })
+    })
+    return null
+  }
+  return rotateKek()
+}
+
+async function doRotate(): Promise<RotationResult> {
+  const sentinel = await readSentinel()
+  const held = peekKek()
+  if (!sentinel || !held || held.kekId !== sentinel.kekId) {
+    return { outcome: 'failed', stage: 'locked', retryable: false }
+  }
+  if (sentinel.names.length === 0) return { outcome: 'not-needed' }
+
+  // A journal an earlier attempt in this process could not clear. We hold the
+  // KEK the sentinel names, so that attempt never swapped: abandon it.
+  if (sentinel.rotating) {
+    await dropStagedBlobs(SECRET_NAMES)
+    sentinel.rotating = undefined
+    await writeSentinel(sentinel)
+  }
+
+  // Step 1 — open everything under the KEK we hold.
+  const plain: Partial<Record<SecretName, string>> = {}
+  try {
+    for (const name of SECRET_NAMES) {
+      const raw = await SecureStore.getItemAsync(envKey(name), envOptions)
+      if (!raw) continue
+      const blob = JSON.parse(raw) as EnvelopeBlob
+      assertKekId(blob, held.kekId)
+      plain[name] = openSecret(held.kek, name, blob)
+    }
+  } catch (err) {
+    console.warn('[secrets] rotation could not open a secret', (err as Error)?.message)
+    return { outcome: 'failed', stage: 'read', retryable: false }
+  }
+  const names = Object.keys(plain) as SecretName[]
+
+  // Step 2 — stage under the new KEK and prove the staged copies open.
+  const resolved = await resolveProvisioningPolicy()
+  const kek = generateKek()
+  const kekId = generateKekId()
+  try {
+    for (const name of names) {
+      const blob = sealSecret(kek, kekId, name, plain[name] as string)
+      await SecureStore.setItemAsync(stagedEnvKey(name), JSON.stringify(blob), envOptions)
+    }
+    for (const name of names) {
+      const raw = await SecureStore.getItemAsync(stagedEnvKey(name), envOptions)
+      if (!raw) throw new Error(`staged blob missing for ${name}`)
+      if (openSecret(kek, name, JSON.parse(raw) as EnvelopeBlob) !== plain[name]) {
+        throw new Error(`round-trip mismatch for ${name}`)
+      }
+    }
+  } catch (err) {
+    console.warn('[secrets] rotation staging failed', (err as Error)?.message)
+    await dropStagedBlobs(names)
+    return { outcome: 'failed', stage: 'stage', retryable: true }
+  }
+
+  // Step 3 — journal. From here a crash is settled by the next unlock.
+  const journaled: KekSentinel = { ...sentinel, names, rotating: { kekId, policy: resolved.policy } }
+  await writeSentinel(journaled)
+
+  // Step 4 — swap. Delete-then-add, for the reason provisionKek gives.
+  try {
+    await deleteBothKekItems()
+    await SecureStore.setItemAsync(resolved.keyName, Utils.toHex(kek), kekOptions(resolved.requireAuthentication))
+  } catch (err) {
+    console.warn('[secrets] rotation could not write the new KEK', (err as Error)?.message)
+    await restoreKek(sentinel, held.kek)
+    await dropStagedBlobs(names)
+    await writeSentinel({ ...sentinel, rotating: undefined })
+    return { outcome: 'failed', stage: 'swap', retryable: true }
+  }
+
+  // Step 5 — commit.
+  await commitRotation(journaled, { kek, kekId, policy: resolved.policy })
+  return { outcome: 'rotated', kekId, names }
+}
+
+/**
+ * Put the old KEK back after a failed swap. If this fails too, the KEK still
+ * lives in this process's memory and a retry can write a new one; but a
+ * relaunch before that would find no KEK at all.
+ */
+async function restoreKek(sentinel: KekSentinel, kek: number[]): Promise<void> {
+  const old = policyFor(sentinel.policy)
+  try {
+    await SecureStore.setItemAsync(old.keyName, Utils.toHex(kek), kekOptions(old.requireAuthentication))
+  } catch (err) {
+    console.warn('[secrets] could not restore the KEK after a failed rotation', (err as Error)?.message)
+  }
+}
@@ -22,6 +22,10 @@ export const SENTINEL_KEY = 'secretsSentinelV1'
 
 export const envKey = (name: string) => `envV1.${name}`
 
+/** Where a rotation stages a blob re-sealed under the next KEK, beside the
+ * live one it will replace. */
+export const stagedEnvKey = (name: string) => `envV1.${name}.next`
+
 /**
  * Options for the KEK item.
  *
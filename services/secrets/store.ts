@@ -15,7 +15,8 @@ import {
   provisionKek,
   readSentinel,
   recordSecretName,
-  unlockKek
+  unlockKek,
+  withSecretsLock
 } from './kek'
 import { envKey, envOptions } from './storage'
 import { EnvelopeBlob, EnvelopeError, SECRET_NAMES, SecretName } from './types'
@@ -78,7 +79,11 @@ export async function getSecret(name: SecretName): Promise<string | null> {
  * write can prompt (and only on Android, where minting an auth-bound key
  * requires a ceremony).
  */
-export async function putSecret(name: SecretName, value: string): Promise<boolean> {
+export function putSecret(name: SecretName, value: string): Promise<boolean> {
+  return withSecretsLock(() => put(name, value))
+}
+
+async function put(name: SecretName, value: string): Promise<boolean> {
   let held = peekKek()
 
   if (!held) {
@@ -102,24 +107,28 @@ export async function putSecret(name: SecretName, value: string): Promise<boolea
 
 /** Prompt-free, and works while locked or lost: deleting ciphertext needs no
  * key. This is what makes logout possible for a user whose biometrics changed. */
-export async function deleteSecret(name: SecretName): Promise<void> {
-  try {
-    await SecureStore.deleteItemAsync(envKey(name), envOptions)
-    await forgetSecretName(name)
-  } catch (err) {
-    console.warn('[secrets] delete failed', name, (err as Error)?.message)
-  }
+export function deleteSecret(name: SecretName): Promise<void> {
+  return withSecretsLock(async () => {
+    try {
+      await SecureStore.deleteItemAsync(envKey(name), envOptions)
+      await forgetSecretName(name)
+    } catch (err) {
+      console.warn('[secrets] delete failed', name, (err as Error)?.message)
+    }
+  })
 }
 
 /** Removes every wrapped secret and the KEK itself, so the next launch reads
  * as a clean install rather than prompting for a wallet that no longer exists. */
-export async function deleteAllSecrets(): Promise<void> {
-  for (const name of SECRET_NAMES) {
-    try {
-      await SecureStore.deleteItemAsync(envKey(name), envOptions)
-    } catch {
-      /* best effort — destroyKek below is what matters */
+export function deleteAllSecrets(): Promise<void> {
+  return withSecretsLock(async () => {
+    for (const name of SECRET_NAMES) {
+      try {
+        await SecureStore.deleteItemAsync(envKey(name), envOptions)
+      } catch {
+        /* best effort — destroyKek below is what matters */
+      }
     }
-  }
-  await destroyKek()
+    await destroyKek()
+  })
 }
@@ -54,6 +54,13 @@ export interface KekSentinel {
   policy: KekPolicy
   provisionedAt: number
   names: SecretName[]
+  /** What the app could see of the biometric enrolment when this KEK was
+   * minted (policy.ts's biometricEnrollment). A change triggers rotation. */
+  biometrics?: string
+  /** Journal of a rotation in progress: the KEK it is moving to. Present only
+   * between the new KEK being written and the re-sealed blobs being committed,
+   * so an unlock that finds it knows to finish or undo the rotation. */
+  rotating?: { kekId: string; policy: KekPolicy }
 }
 
 export type UnavailableReason = 'no-hardware' | 'not-enrolled' | 'lockout' | 'not-foregrounded'
@@ -20,24 +20,42 @@
  * both go through the same unseal; neither is free of the YubiKey. (An
  * earlier design cached 64 key hashes ahead of time so deposits never
  * touched the card; that cache and its refill ceremony are gone along with
- * the xpub that made it possible.)
+ * the xpub that made it possible. Watch-only mode brings back a bounded,
+ * opt-in version of it — fillWatchPool below, and watchOnly.ts for what it
+ * exposes.)
  *
  * Recovery paths, and there are exactly two:
  *   1. YubiKey unseal (the ceremony's on-token ECDH) — recovers the seed
  *      directly, nothing to type
  *   2. main mnemonic + passphrase  — deriveVaultSeed/deriveVaultHD, offline
- * There is no third path.
+ * There is no third path. Path 1 may have several cards behind it: addVaultKey
+ * seals the same seed to a further YubiKey, each with its own SealedBlob, so
+ * losing one card leaves the others working rather than forcing a sweep. On a
+ * device without a YubiKey, "the card" is softwareKey.ts's passphrase-wrapped
+ * key file; everything here runs unchanged against it, with the key
+ * passphrase standing in for the PIN.
  *
  * SECURITY: never log V, the seed, the mnemonic, or the passphrase.
  */
-import { HD } from '@bsv/sdk'
+import { HD, Utils } from '@bsv/sdk'
 import { getVaultDriver } from './driver'
 import { withKeySession } from './session'
-import { vaultStore, VaultMetaV4 } from './vaultStore'
+import { vaultStore, VaultMetaV4, enrolledKeys } from './vaultStore'
 import { VaultError, SealedBlob } from './types'
-import { deriveVaultSeed, deriveVaultHD, randomDepositStartIndex } from './vaultDerivation'
-import { checkVaultPassphrase } from './vaultPassphrase'
+import {
+  deriveVaultSeed,
+  deriveVaultHD,
+  depositPubKeyHash,
+  randomDepositStartIndex,
+  watchPoolMacKey
+} from './vaultDerivation'
+import { checkVaultPassphrase, normalizeVaultPassphrase } from './vaultPassphrase'
 import { sealVaultKey } from './sealing'
+import { requestVaultKey } from './ceremonyHost'
+import { approveWithTwoKeys, requestCoSignedKey, VAULT_COSIGN_MIN_KEYS } from './coSign'
+import { VAULT_WATCH_POOL_MAX, VAULT_WATCH_POOL_SIZE, watchPoolStatus, watchPoolStore } from './watchOnly'
+import { softwareVaultKey } from './softwareKey'
+import { delayedWithdrawalStore } from './delayedWithdrawals'
 
 /** An enrollment that has touched the key but not yet disk. */
 export interface PendingEnrollment {
@@ -83,6 +101,13 @@ export async function enrollVault(args: {
    * normally — the flag permits adoption, it does not require it.
    */
   adoptExisting?: boolean
+  /** Cards that may not be enrolled — addVaultKey passes the vault's current
+   * keys. Checked on the card before anything is generated or adopted. */
+  refuseSerials?: string[]
+  /** Gate on the derived vault node before any card contact, exactly like
+   * resealToNewKey's — addVaultKey uses it to prove the passphrase opens the
+   * vault that already exists. */
+  verifyHD?: (hd: HD) => Promise<boolean>
   onPhase: (p: 'connecting' | 'pin-check' | 'generating' | 'adopting' | 'done') => void
   getPin: () => Promise<string>
   /** Called when the key still has the factory-default PIV PIN; must return a
@@ -98,6 +123,9 @@ export async function enrollVault(args: {
   // the main wallet's master key.
   const policy = checkVaultPassphrase(args.passphrase)
   if (!policy.ok) throw new VaultError('bad-passphrase', policy.reason)
+  if (args.verifyHD && !(await args.verifyHD(deriveVaultHD(args.mnemonic, args.passphrase)))) {
+    throw new VaultError('bad-passphrase', 'Passphrase does not match this vault')
+  }
 
   // ── ALL user input up front, BEFORE any key contact ──
   // On NFC the scan sheet is a modal that covers the app, so every prompt (the
@@ -105,9 +133,15 @@ export async function enrollVault(args: {
   // gathered before the tap; the whole enrollment then runs in one tap.
   args.onPhase('pin-check')
   const pin0 = await args.getPin()
+  // A software key's passphrase is its only guard, and the vault passphrase
+  // sits next to the mnemonic in every backup — reusing it would let a backup
+  // open the key file too. A software key has no factory default to change.
+  if (driver.software && normalizeVaultPassphrase(pin0) === normalizeVaultPassphrase(args.passphrase)) {
+    throw new VaultError('bad-passphrase', 'Key passphrase must differ from the vault passphrase')
+  }
   let pin = pin0
   let pinChange: { oldPin: string; newPin: string } | null = null
-  if (pin0 === DEFAULT_PIV_PIN && args.requestPinChange) {
+  if (!driver.software && pin0 === DEFAULT_PIV_PIN && args.requestPinChange) {
     // Factory-default detection is exactly "the PIN the user entered is the
     // default" — no side probe against '123456' (fix #5).
     pinChange = await args.requestPinChange(3)
@@ -121,6 +155,9 @@ export async function enrollVault(args: {
       const info = await driver.getKeyInfo()
       // A blocked PIN can't be enrolled — surface it before burning anything.
       if (info.pinRetries === 0) throw new VaultError('pin-locked', 'PIN is blocked')
+      if (args.refuseSerials?.includes(info.serial)) {
+        throw new VaultError('key-already-enrolled', `Key ${info.serial} already opens this vault`)
+      }
       // Never silently overwrite an occupied slot: generating into a used PIV
       // slot destroys the existing key, and retired slots 82-95 are what
       // age-plugin-yubikey uses. Refuse and let the user decide — the wizard
@@ -298,6 +335,13 @@ export async function resealToNewKey(
       slot: VAULT_SLOT,
       nextKeyIndex: prev?.nextKeyIndex ?? 0
     }
+    // Only the first key is replaced. Further keys keep their own seals of the
+    // same seed and stay enrolled, as do the co-sign policy and the withdrawal
+    // delay — unless the new card IS one of them, which would list it twice.
+    const extraKeys = prev?.extraKeys?.filter(k => k.yubiSerial !== info.serial)
+    if (extraKeys?.length) meta.extraKeys = extraKeys
+    if (prev?.coSign) meta.coSign = prev.coSign
+    if (prev?.withdrawalDelay) meta.withdrawalDelay = prev.withdrawalDelay
     await vaultStore.setSeal(seal)
     await vaultStore.setMeta(meta)
   } finally {
@@ -305,8 +349,184 @@ export async function resealToNewKey(
   }
 }
 
+/**
+ * Enroll a further YubiKey to an existing vault.
+ *
+ * The new card gets its own seal of the SAME seed, re-derived from the
+ * mnemonic + passphrase like every other enrollment — a ceremony hands out an
+ * HD node, never the seed, so there is nothing to copy from the enrolled key.
+ * What the enrolled key contributes is the check: before the new card is
+ * touched, one of the vault's current keys is tapped and the node it unwraps
+ * must equal the one the typed passphrase derives. A typo therefore fails
+ * here, instead of sealing an empty vault to a card the user then trusts.
+ * Under a co-sign policy that check takes two taps from two keys, since
+ * adding a key changes who can approve (see coSign.ts).
+ *
+ * Like enrollVault, this persists nothing: finalizeAddedKey commits it.
+ */
+export async function addVaultKey(
+  args: Omit<Parameters<typeof enrollVault>[0], 'refuseSerials' | 'verifyHD'> & {
+    /** Ceremony sheet copy for the tap on an already-enrolled key. */
+    approveReason: string
+    /** The same for a co-sign policy's second tap. */
+    secondApproveReason?: string
+  }
+): Promise<{ pending: PendingEnrollment }> {
+  const meta = await vaultStore.getMeta()
+  if (!meta) throw new VaultError('not-enrolled')
+  const { approveReason, secondApproveReason, ...enroll } = args
+  return enrollVault({
+    ...enroll,
+    refuseSerials: enrolledKeys(meta).map(k => k.yubiSerial),
+    verifyHD: async hd => {
+      const handle = meta.coSign
+        ? await requestCoSignedKey(approveReason, secondApproveReason)
+        : await requestVaultKey(approveReason)
+      try {
+        return handle.hd.toPublic().toString() === hd.toPublic().toString()
+      } finally {
+        handle.release()
+      }
+    }
+  })
+}
+
+/** Commit a key produced by addVaultKey. The vault's deposit counter and
+ * policy are untouched; only the key list grows. */
+export async function finalizeAddedKey(pending: PendingEnrollment): Promise<void> {
+  await vaultStore.addKey(
+    {
+      yubiSerial: pending.meta.yubiSerial,
+      nickname: pending.meta.nickname,
+      slot: pending.meta.slot,
+      enrolledAt: pending.meta.enrolledAt
+    },
+    pending.seal
+  )
+}
+
+/**
+ * Remove an enrolled key from this device — a lost one, typically. Needs no
+ * tap of its own (the removed card may be gone), except under a co-sign
+ * policy, where it takes the policy's two taps and may not leave fewer than
+ * VAULT_COSIGN_MIN_KEYS: turn the policy off first to go below that.
+ */
+export async function removeVaultKey(serial: string, reason: string, secondReason?: string): Promise<void> {
+  const meta = await vaultStore.getMeta()
+  if (!meta) throw new VaultError('not-enrolled')
+  const keys = enrolledKeys(meta)
+  if (keys.length === 1) throw new VaultError('last-key')
+  if (meta.coSign) {
+    if (keys.length - 1 < VAULT_COSIGN_MIN_KEYS) throw new VaultError('co-sign-needs-keys')
+    await approveWithTwoKeys(reason, secondReason)
+  }
+  await vaultStore.removeKey(serial)
+}
+
+/**
+ * Turn the co-sign policy on (a threshold in satoshis), change it, or turn it
+ * off (null). Anything that lets more through than before — off, or a higher
+ * threshold — takes the policy's own two taps; see coSign.ts.
+ */
+export async function setCoSignPolicy(above: number | null, reason: string, secondReason?: string): Promise<void> {
+  const meta = await vaultStore.getMeta()
+  if (!meta) throw new VaultError('not-enrolled')
+  if (above !== null) {
+    if (!Number.isSafeInteger(above) || above < 0) {
+      throw new RangeError('Co-sign threshold must be a whole number of satoshis')
+    }
+    if (enrolledKeys(meta).length < VAULT_COSIGN_MIN_KEYS) throw new VaultError('co-sign-needs-keys')
+  }
+  const current = meta.coSign
+  if (current && (above === null || above > current.above)) {
+    await approveWithTwoKeys(reason, secondReason)
+  }
+  // Re-read after the taps: a deposit may have advanced the counter meanwhile.
+  const next: VaultMetaV4 = { ...((await vaultStore.getMeta()) ?? meta) }
+  if (above === null) delete next.coSign
+  else next.coSign = { above }
+  await vaultStore.setMeta(next)
+}
+
+/**
+ * Turn the withdrawal delay on (a window in hours), change it, or turn it off
+ * (null). Lengthening needs nothing; shortening or turning it off is the first
+ * thing a thief would do, so it costs what a cancel costs — a second key when
+ * the vault has one, else a tap of the only key. Holds already started keep
+ * their own release time either way.
+ */
+export async function setWithdrawalDelay(hours: number | null, reason: string, secondReason?: string): Promise<void> {
+  const meta = await vaultStore.getMeta()
+  if (!meta) throw new VaultError('not-enrolled')
+  if (hours !== null && !(Number.isSafeInteger(hours) && hours > 0)) {
+    throw new RangeError('Withdrawal delay must be a whole number of hours')
+  }
+  const current = meta.withdrawalDelay
+  if (current && (hours === null || hours < current.hours)) {
+    if (enrolledKeys(meta).length > 1) {
+      await approveWithTwoKeys(reason, secondReason)
+    } else {
+      ;(await requestVaultKey(reason)).release()
+    }
+  }
+  const next: VaultMetaV4 = { ...((await vaultStore.getMeta()) ?? meta) }
+  if (hours === null) delete next.withdrawalDelay
+  else next.withdrawalDelay = { hours }
+  await vaultStore.setMeta(next)
+}
+
+/**
+ * Turn watch-only mode on, or top its pool up: one tap pre-derives enough
+ * further deposit addresses to leave `size` unused (see watchOnly.ts).
+ *
+ * Resolves to how many were added — 0, without a tap, when the pool already
+ * holds that many.
+ */
+export async function fillWatchPool(reason: string, size: number = VAULT_WATCH_POOL_SIZE): Promise<number> {
+  if (!Number.isSafeInteger(size) || size < 1 || size > VAULT_WATCH_POOL_MAX) {
+    throw new RangeError(`Watch-only pool size must be 1..${VAULT_WATCH_POOL_MAX}`)
+  }
+  if (!(await vaultStore.getMeta())) throw new VaultError('not-enrolled')
+  const pool = await watchPoolStore.get()
+  const count = size - (pool ? watchPoolStatus(pool).remaining : 0)
+  if (count <= 0) return 0
+
+  const handle = await requestVaultKey(reason)
+  try {
+    // Reserved before deriving, so an interrupted fill can only skip indices,
+    // never hand one to a tapped deposit as well.
+    const from = await vaultStore.reserveIndices(count)
+    if (from == null) throw new VaultError('not-enrolled')
+    const addresses = Array.from({ length: count }, (_, i) => ({
+      index: from + i,
+      pkh: Utils.toHex(depositPubKeyHash(handle.hd, from + i))
+    }))
+    await watchPoolStore.add(
+      { at: Date.now(), from, count, approvedBy: handle.serial },
+      addresses,
+      watchPoolMacKey(handle.hd)
+    )
+    return count
+  } finally {
+    handle.release()
+  }
+}
+
+/** Turn watch-only mode off. Needs no tap: it only removes what was exposed. */
+export async function disableWatchOnly(): Promise<void> {
+  await watchPoolStore.turnOff()
+}
+
 /** Remove all vault state. Callers must sweep funds to the default basket
- * BEFORE calling this — see transfers.sweepVaultWithHD. */
+ * BEFORE calling this — see transfers.sweepVaultWithHD. That includes a
+ * software key file: nothing is sealed to it any more, and a locked one
+ * would otherwise block enrolling again. Refused while a delayed withdrawal
+ * is open: its cancel needs the vault this would clear. */
 export async function disableVault(): Promise<void> {
+  if ((await delayedWithdrawalStore.list()).length > 0) {
+    throw new VaultError('withdrawal-held', 'Cancel or release the open delayed withdrawals first')
+  }
+  await watchPoolStore.clear()
   await vaultStore.clear()
+  await softwareVaultKey()?.erase()
 }
@@ -60,7 +60,7 @@
  * in CeremonyState, which is React-visible.
  */
 import { HD } from '@bsv/sdk'
-import { VaultDriver } from './driver'
+import { KeyEvent, VaultDriver } from './driver'
 import { unsealVaultKey } from './sealing'
 import { SealedBlob, VaultError, VaultErrorCode } from './types'
 
@@ -126,6 +126,15 @@ export interface CeremonyState {
  */
 export interface VaultKeyHandle {
   readonly hd: HD
+  /** Serial of the card whose tap armed this handle. Not key material — the
+   * co-sign flow (coSign.ts) uses it to insist its two taps are two cards. */
+  readonly serial: string
+  /** How that card was reached, when the ceremony saw it attach. Recorded in
+   * the vault ledger (ledger.ts) beside the serial. */
+  readonly transport?: KeyEvent['transport']
+  /** Set by requestCoSignedKey: the serial of the FIRST of the two approvals,
+   * whose own handle was released before this one was armed. */
+  readonly coSignedBy?: string
   /** Idempotent: safe to call more than once, and safe for concurrent callers
    * that were all handed the same handle to release independently. */
   release(): void
@@ -139,6 +148,23 @@ interface CeremonyMeta {
 interface CeremonyStoreView {
   getMeta(): Promise<CeremonyMeta | null>
   getSeal(): Promise<SealedBlob | null>
+  /** Every enrolled key's seal, when the vault has more than one. Without it
+   * the ceremony accepts only `meta.yubiSerial` and opens `getSeal()`. */
+  getSeals?(): Promise<SealedBlob[]>
+}
+
+/** A card the ceremony will accept: the serial it must report, the slot its
+ * ECDH runs in, and the seal that ECDH opens. */
+interface KeyCandidate {
+  serial: string
+  slot: number
+  seal: SealedBlob
+}
+
+export interface RequestKeyOptions {
+  /** Cards that may not answer this ceremony — a co-sign's second tap names
+   * the first tap's card here. Tapping one fails with 'same-key'. */
+  excludeSerials?: string[]
 }
 
 interface Deferred<T> {
@@ -169,6 +195,8 @@ function defer<T>(): Deferred<T> {
  */
 interface KeyEventSession {
   off?: () => void
+  /** The transport of the last attach this subscription saw. */
+  transport?: KeyEvent['transport']
 }
 
 export class CeremonyController {
@@ -182,6 +210,7 @@ export class CeremonyController {
   private rejecters: ((e: unknown) => void)[] = []
   private running = false
   private reason = ''
+  private excluded = new Set<string>()
 
   /** Monotonic id of the newest arm attempt. `running` alone cannot tell an
    * attempt that it has been replaced: cancel() sets running=false while the
@@ -242,13 +271,17 @@ export class CeremonyController {
   }
 
   /** Ask for the unwrapped vault key. Concurrent calls share one ceremony and
-   * all receive the SAME handle, so release() is idempotent by construction. */
-  requestKey(reason: string): Promise<VaultKeyHandle> {
+   * all receive the SAME handle, so release() is idempotent by construction.
+   * A call that joins an in-flight ceremony joins it on that ceremony's
+   * options, not its own — callers that care which card answered check
+   * `handle.serial`. */
+  requestKey(reason: string, opts?: RequestKeyOptions): Promise<VaultKeyHandle> {
     return new Promise<VaultKeyHandle>((resolve, reject) => {
       this.waiters.push(resolve)
       this.rejecters.push(reject)
       if (this.running) return // join the in-flight ceremony
       this.reason = reason
+      this.excluded = new Set(opts?.excludeSerials ?? [])
       this.cancelled = false
       this.running = true
       void this.run()
@@ -355,8 +388,12 @@ export class CeremonyController {
   private subscribeKeyEvents(driver: VaultDriver, session: KeyEventSession): void {
     session.off?.()
     session.off = driver.onKeyEvent(e => {
-      if (e.type === 'attached') this.notifyKeyAttached()
-      else this.notifyKeyDetached()
+      if (e.type === 'attached') {
+        session.transport = e.transport
+        this.notifyKeyAttached()
+      } else {
+        this.notifyKeyDetached()
+      }
     })
   }
 
@@ -394,14 +431,18 @@ export class CeremonyController {
       // Mirrors vaultStore.isEnrolled(), which also requires both.
       const [meta, seal] = await Promise.all([this.deps.store.getMeta(), this.deps.store.getSeal()])
       if (!meta || !seal) throw new VaultError('not-enrolled')
+      const candidates = this.deps.store.getSeals
+        ? (await this.deps.store.getSeals()).map(b => ({ serial: b.yubiSerial, slot: b.slot, seal: b }))
+        : [{ serial: meta.yubiSerial, slot: meta.slot, seal }]
+      if (candidates.length === 0) throw new VaultError('not-enrolled')
 
       // NFC (session-based) collects the PIN BEFORE the tap and verifies it in
       // that one tap (the scan sheet covers the app, so no PIN entry mid-tap).
       // A persistent USB reader can interleave PIN entry and the serial/PIN
       // checks.
       const handle = driver.sessionBased
-        ? await this.armViaTap(driver, meta, seal, session, gen)
-        : await this.armViaReader(driver, meta, seal, session, gen)
+        ? await this.armViaTap(driver, candidates, session, gen)
+        : await this.armViaReader(driver, candidates, session, gen)
       this.throwIfCancelled()
 
       // Have we been superseded while parked on the tap? `cancelled` cannot
@@ -499,8 +540,7 @@ export class CeremonyController {
    * interleave, so a wrong PIN is retried in place. */
   private async armViaReader(
     driver: VaultDriver,
-    meta: CeremonyMeta,
-    seal: SealedBlob,
+    candidates: KeyCandidate[],
     session: KeyEventSession,
     gen: number
   ): Promise<VaultKeyHandle> {
@@ -517,11 +557,25 @@ export class CeremonyController {
       info = await this.safeKeyInfo(driver)
     }
     if (!info) throw new VaultError('no-key')
-    if (info.serial !== meta.yubiSerial) {
-      throw new VaultError('serial-mismatch', `Expected key ${meta.yubiSerial}`)
-    }
+    const key = this.acceptCard(candidates, info.serial)
     const pin = await this.collectPin(driver, gen)
-    return this.makeHandle(driver, meta, seal, pin, session, gen)
+    return this.makeHandle(driver, key, pin, session, gen)
+  }
+
+  /**
+   * The enrolled key a tapped card answers for, or a refusal before the card
+   * is asked for anything: an excluded card (the co-sign's first tap
+   * presented again) is 'same-key', any other unlisted one 'serial-mismatch'.
+   */
+  private acceptCard(candidates: KeyCandidate[], serial: string): KeyCandidate {
+    if (this.excluded.has(serial)) {
+      throw new VaultError('same-key', 'This key already approved — tap a different one')
+    }
+    const key = candidates.find(k => k.serial === serial)
+    if (!key) {
+      throw new VaultError('serial-mismatch', `Expected key ${candidates.map(k => k.serial).join(' or ')}`)
+    }
+    return key
   }
 
   /** Errors from a single tap/touch attempt that are worth retrying without
@@ -538,14 +592,13 @@ export class CeremonyController {
    * NFC sheet. */
   private async armViaTap(
     driver: VaultDriver,
-    meta: CeremonyMeta,
-    seal: SealedBlob,
+    candidates: KeyCandidate[],
     session: KeyEventSession,
     gen: number
   ): Promise<VaultKeyHandle> {
     const pin = await this.collectPinValue(gen)
-    await this.openTapSession(driver, meta, pin, session, gen)
-    return this.makeHandle(driver, meta, seal, pin, session, gen)
+    const key = await this.openTapSession(driver, candidates, pin, session, gen)
+    return this.makeHandle(driver, key, pin, session, gen)
   }
 
   /** Open (or reopen) an NFC session and get as far as a verified PIN. Used
@@ -553,18 +606,20 @@ export class CeremonyController {
    * re-establish a fresh session after a dropped tap mid-unwrap. The serial
    * check lives here as well as in armViaReader deliberately: EVERY session,
    * including a reopened one, re-checks it, so a different card presented on
-   * the retry tap is never asked to unwrap this vault's seal.
+   * the retry tap is never asked to unwrap this vault's seal. A reopen passes
+   * only the card the first session accepted: the seal is already chosen, so
+   * even another enrolled key would be the wrong card for it.
    * (Re)subscribes `session` every time: the very first call replaces run()'s
    * top-level subscription on the SAME box (harmless — nothing was pending on
    * it yet), and every reopen needs a fresh one since the caller unsubscribed
    * this same box around its matching driver.stop(). */
   private async openTapSession(
     driver: VaultDriver,
-    meta: CeremonyMeta,
+    candidates: KeyCandidate[],
     pin: string,
     session: KeyEventSession,
     gen: number
-  ): Promise<void> {
+  ): Promise<KeyCandidate> {
     this.throwIfStale(gen)
     this.subscribeKeyEvents(driver, session)
     this.set({ phase: 'waiting-for-key' })
@@ -576,12 +631,11 @@ export class CeremonyController {
     const info = await driver.getKeyInfo()
     // getKeyInfo is a native call cancel() cannot interrupt.
     this.throwIfStale(gen)
-    if (info.serial !== meta.yubiSerial) {
-      throw new VaultError('serial-mismatch', `Expected key ${meta.yubiSerial}`)
-    }
+    const key = this.acceptCard(candidates, info.serial)
     const res = await driver.verifyPin(pin)
     this.throwIfStale(gen)
     if (!res.ok) throw new VaultError('pin-invalid', 'Wrong PIN', res.retriesLeft)
+    return key
   }
 
   /** Collect a PIN value from the UI only (no token verify) — used by the NFC
@@ -645,8 +699,7 @@ export class CeremonyController {
    */
   private async unwrapVaultKey(
     driver: VaultDriver,
-    meta: CeremonyMeta,
-    seal: SealedBlob,
+    key: KeyCandidate,
     pin: string,
     session: KeyEventSession,
     gen: number
@@ -662,7 +715,7 @@ export class CeremonyController {
       this.throwIfStale(gen)
       this.set({ phase: 'awaiting-touch' })
       try {
-        secret = (await driver.ecdh(meta.slot, pin, seal.ePub)).secret
+        secret = (await driver.ecdh(key.slot, pin, key.seal.ePub)).secret
         break
       } catch (e) {
         const err = e instanceof VaultError ? e : new VaultError('nfc-lost')
@@ -697,14 +750,14 @@ export class CeremonyController {
           } catch {
             /* best-effort */
           }
-          await this.openTapSession(driver, meta, pin, session, gen)
+          await this.openTapSession(driver, [key], pin, session, gen)
         }
         // loop: retry the same ECDH
       }
     }
     // Software from here on. The seed is the one secret that CAN be wiped, so
     // it is wiped the instant the HD node exists — on the throwing path too.
-    const seed = unsealVaultKey(seal, secret)
+    const seed = unsealVaultKey(key.seal, secret)
     try {
       return HD.fromSeed(seed)
     } finally {
@@ -752,15 +805,19 @@ export class CeremonyController {
    */
   private async makeHandle(
     driver: VaultDriver,
-    meta: CeremonyMeta,
-    seal: SealedBlob,
+    key: KeyCandidate,
     pin: string,
     session: KeyEventSession,
     gen: number
   ): Promise<VaultKeyHandle> {
-    let hd: HD | undefined = await this.unwrapVaultKey(driver, meta, seal, pin, session, gen)
+    let hd: HD | undefined = await this.unwrapVaultKey(driver, key, pin, session, gen)
     let released = false
     const handle: VaultKeyHandle = {
+      serial: key.serial,
+      // A persistent reader may have attached before this subscription began;
+      // only a session-based driver is sure to be NFC without seeing it, and a
+      // software key is never anything else.
+      transport: session.transport ?? (driver.software ? 'software' : driver.sessionBased ? 'nfc' : undefined),
       get hd(): HD {
         if (released || !hd) {
           throw new VaultError('key-removed-mid-op', 'Vault key handle already released')
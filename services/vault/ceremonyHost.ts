@@ -5,7 +5,7 @@
  * and the React vault context drive the SAME ceremony. Kept out of any React
  * module so importing it never pulls in the component graph.
  */
-import { CeremonyController, VaultKeyHandle, VaultProgress } from './ceremony'
+import { CeremonyController, RequestKeyOptions, VaultKeyHandle, VaultProgress } from './ceremony'
 import { getVaultDriver } from './driver'
 import { vaultStore } from './vaultStore'
 
@@ -24,7 +24,9 @@ export const ceremony = new CeremonyController({
       const m = await vaultStore.getMeta()
       return m ? { slot: m.slot, yubiSerial: m.yubiSerial } : null
     },
-    getSeal: () => vaultStore.getSeal()
+    getSeal: () => vaultStore.getSeal(),
+    // Any enrolled key may answer; its serial picks its own seal.
+    getSeals: () => vaultStore.getSeals()
   },
   retentionMs: VAULT_RETENTION_MS
 })
@@ -32,8 +34,8 @@ export const ceremony = new CeremonyController({
 /** Tap the YubiKey to unwrap the vault key for one operation. Callers MUST
  * release() in a finally — that is what drops the key and dismisses the NFC
  * sheet. */
-export function requestVaultKey(reason: string): Promise<VaultKeyHandle> {
-  return ceremony.requestKey(reason)
+export function requestVaultKey(reason: string, opts?: RequestKeyOptions): Promise<VaultKeyHandle> {
+  return ceremony.requestKey(reason, opts)
 }
 
 /** Report post-arm progress (preparing / broadcasting) so the ceremony sheet
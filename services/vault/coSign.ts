@@ -0,0 +1,63 @@
+/**
+ * Two-key approval for a vault enrolled to several YubiKeys.
+ *
+ * Every enrolled key holds its own seal of the SAME vault seed (see
+ * vaultStore's "Several keys"), so any one tap unwraps everything. The policy
+ * is therefore enforced here, in the app, by asking for two taps and refusing
+ * the second unless a DIFFERENT enrolled card unwrapped it. It stops someone
+ * holding one key and its PIN from emptying the vault through this app; it is
+ * not a cryptographic threshold, and the mnemonic + passphrase sweep ignores
+ * it by design — that route already needs more than any key does.
+ *
+ * The first tap only proves possession: its handle is released before the
+ * second is requested, so two unwrapped keys never coexist in memory and a
+ * session-based transport never has two NFC sessions open at once. The second
+ * handle is the one the caller spends with.
+ *
+ * What the policy guards, beyond large withdrawals: anything that changes who
+ * can approve. Adding a key, removing one, and turning the policy off or
+ * raising its threshold all need the same two taps while it is on — otherwise
+ * one stolen key could simply vote the policy away. Lowering the threshold or
+ * turning it on needs nothing.
+ */
+import { VaultKeyHandle } from './ceremony'
+import { requestVaultKey } from './ceremonyHost'
+import { VaultError } from './types'
+import { VaultCoSignPolicy } from './vaultStore'
+
+/** Enrolled keys required before the policy can be turned on: two to approve,
+ * plus one spare so losing a key does not also lock large withdrawals. */
+export const VAULT_COSIGN_MIN_KEYS = 3
+
+/** Whether moving `amount` satoshis out of the vault needs a second key. */
+export function coSignRequired(policy: VaultCoSignPolicy | undefined, amount: number): boolean {
+  return policy != null && amount > policy.above
+}
+
+/**
+ * Two taps from two distinct enrolled keys; resolves to the second one's
+ * handle, with the first one's serial as its `coSignedBy`. The caller owns it
+ * and MUST release() it in a finally, exactly like a requestVaultKey handle.
+ */
+export async function requestCoSignedKey(reason: string, secondReason: string = reason): Promise<VaultKeyHandle> {
+  const first = await requestVaultKey(reason)
+  const approvedBy = first.serial
+  first.release()
+
+  const second = await requestVaultKey(secondReason, { excludeSerials: [approvedBy] })
+  // The ceremony already refuses the excluded card, but a request that joined
+  // a ceremony someone else started runs on THAT ceremony's options — see
+  // CeremonyController.requestKey — so check the card that actually answered.
+  if (second.serial === approvedBy) {
+    second.release()
+    throw new VaultError('same-key', 'Both approvals came from the same key')
+  }
+  return Object.assign(second, { coSignedBy: approvedBy })
+}
+
+/** Two-key approval with nothing to spend: the policy changes listed in this
+ * file's header. */
+export async function approveWithTwoKeys(reason: string, secondReason?: string): Promise<void> {
+  const handle = await requestCoSignedKey(reason, secondReason)
+  handle.release()
+}
@@ -0,0 +1,188 @@
+/**
+ * Delayed vault withdrawals — the records behind the cancellation window.
+ *
+ * With a withdrawal delay set (VaultMetaV4.withdrawalDelay), a withdrawal does
+ * not pay the everyday balance. It moves the amount into ONE held output and,
+ * in the same tap, signs the only two transactions that will ever spend it:
+ *  - the RELEASE, which pays it out to this wallet. Its nLockTime is the end of
+ *    the window and its input sequence is non-final, so nodes refuse it until
+ *    the window has passed; it sits here as raw bytes until then, and no tap
+ *    is needed to finish the withdrawal, only time.
+ *  - the CANCEL, which pays it back into a fresh vault output. It is final at
+ *    once, but still needs a vault key signature added when it is used.
+ *
+ * What makes those the only two is the lock: a 2-of-2 of a fresh vault child
+ * key and a one-off hold key (k1.ts's buildHeldLockingScript). The hold key
+ * signs the release and the cancel and is then dropped, never stored. A thief
+ * holding one card and its PIN can start a withdrawal, but can no more move
+ * the held output early than the owner can — the vault key alone signs
+ * nothing it will accept — and the one early spend there is sends the money
+ * back into the vault. The cancel is final and the release is not, so a
+ * confirmed cancel leaves the presigned release a dead double-spend.
+ *
+ * The app still asks more of a cancel than the script does: a tap from an
+ * enrolled key OTHER than the one that approved the withdrawal, or the
+ * mnemonic + passphrase recovery route.
+ *
+ * Why not a script timelock: OP_CHECKLOCKTIMEVERIFY has been a no-op on BSV
+ * since Genesis. The window is therefore enforced by the release's nLockTime,
+ * which the network does honour.
+ *
+ * The price of the dropped key: a record is the only copy of the hold key's
+ * signatures. Lose it before the release or the cancel lands and the held
+ * output can no longer be spent at all. So each record is kept twice:
+ *  - on this device, in AsyncStorage, one key for the whole list, with every
+ *    read-modify-write serialised through one chain. This is what the screens
+ *    read, and where the device-local flags live.
+ *  - on the held output itself, as its customInstructions in the wallet's own
+ *    storage (encodeHoldInstructions), which the wallet backup carries. That
+ *    is the copy a restored wallet or a new device cancels from. It can only
+ *    be written once storage has sent the withdrawal, so it is written by the
+ *    watcher's next pass, not by the withdrawal (see transfers.ts's
+ *    syncDelayedWithdrawals).
+ *
+ * Nothing secret is stored either way: a record is public outpoint data plus
+ * signed or half-signed transactions.
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage'
+
+export const DELAYED_WITHDRAWALS_KEY = 'vault_delayed_withdrawals_v1'
+
+/** Window lengths the settings row offers, in hours. */
+export const VAULT_DELAY_HOURS_OPTIONS = [24, 48, 72] as const
+
+/** The presigned payout of a held output into the everyday balance. */
+export interface DelayedRelease {
+  /** Signed release transaction, hex. Non-final until the record's releaseAt. */
+  rawTx: string
+  /** BRC-29 remittance the release output was derived under (counterparty self),
+   * which is what internalizeAction needs to take it into the default basket. */
+  derivationPrefix: string
+  derivationSuffix: string
+  senderIdentityKey: string
+  /** What the release pays, after its own fee. */
+  satoshis: number
+}
+
+/** The presigned return of a held output into the vault. */
+export interface DelayedCancel {
+  /** Cancel transaction, hex. Its unlocking script holds only the hold key's
+   * signature; the vault key's is appended when the cancel is used. */
+  rawTx: string
+  /** Vault child the cancel pays into, e.g. 'bip32/13'. */
+  keyID: string
+  /** What the cancel pays, after its own fee. */
+  satoshis: number
+}
+
+export interface DelayedWithdrawal {
+  v: 1
+  /** The withdrawal transaction that created the held output. */
+  txid: string
+  vout: number
+  /** Value of the held output. */
+  satoshis: number
+  /** Vault child the held output is locked to, e.g. 'bip32/12'. */
+  keyID: string
+  /** The hold key's public half, hex: the other key of the 2-of-2. */
+  holdPublicKey: string
+  startedAt: number
+  /** When the release becomes final. Unix milliseconds. */
+  releaseAt: number
+  /** Serial of the card that approved the withdrawal — the one a cancel may not use. */
+  approvedBy: string
+  /** Absent only if signing the release failed after the withdrawal itself was
+   * signed; such a hold can only be cancelled. */
+  release?: DelayedRelease
+  cancel: DelayedCancel
+  /** Set once the start-of-window alert has been shown on this device. */
+  alerted?: boolean
+  /** Set once the record is on the held output in the wallet's storage. */
+  anchored?: boolean
+}
+
+/** `txid.vout`, the spelling listOutputs uses. */
+export const heldOutpoint = (d: DelayedWithdrawal): string => `${d.txid}.${d.vout}`
+
+/** Whether the window has passed and the release may be broadcast. */
+export function releaseDue(d: DelayedWithdrawal, now: number = Date.now()): boolean {
+  return now >= d.releaseAt
+}
+
+/**
+ * A record as the held output's customInstructions, without this device's own
+ * flags. Tagged so it can never be read as a vault output's instructions.
+ */
+export function encodeHoldInstructions(d: DelayedWithdrawal): string {
+  const { alerted, anchored, ...record } = d
+  return JSON.stringify({ type: 'hold', ...record })
+}
+
+/** The record a held output carries, or null if it carries none. */
+export function decodeHoldInstructions(ci?: string): DelayedWithdrawal | null {
+  if (!ci) return null
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(ci)
+  } catch {
+    return null
+  }
+  if (!parsed || typeof parsed !== 'object') return null
+  const { type, ...record } = parsed as Partial<DelayedWithdrawal> & { type?: unknown }
+  if (type !== 'hold' || record.v !== 1) return null
+  if (typeof record.txid !== 'string' || typeof record.vout !== 'number' || !record.cancel?.rawTx) return null
+  return record as DelayedWithdrawal
+}
+
+let queueLock: Promise<unknown> = Promise.resolve()
+
+function withQueueLock<T>(fn: () => Promise<T>): Promise<T> {
+  const run = queueLock.then(fn, fn)
+  queueLock = run.catch(() => undefined)
+  return run
+}
+
+async function readAll(): Promise<DelayedWithdrawal[]> {
+  const raw = await AsyncStorage.getItem(DELAYED_WITHDRAWALS_KEY)
+  if (!raw) return []
+  try {
+    const parsed = JSON.parse(raw)
+    return Array.isArray(parsed) ? parsed.filter((d: DelayedWithdrawal) => d?.v === 1) : []
+  } catch {
+    return []
+  }
+}
+
+async function update(fn: (all: DelayedWithdrawal[]) => DelayedWithdrawal[]): Promise<void> {
+  await withQueueLock(async () => {
+    await AsyncStorage.setItem(DELAYED_WITHDRAWALS_KEY, JSON.stringify(fn(await readAll())))
+  })
+}
+
+export const delayedWithdrawalStore = {
+  /** Every open hold, soonest release first. */
+  async list(): Promise<DelayedWithdrawal[]> {
+    return (await readAll()).sort((a, b) => a.releaseAt - b.releaseAt)
+  },
+
+  async get(txid: string): Promise<DelayedWithdrawal | null> {
+    return (await readAll()).find(d => d.txid === txid) ?? null
+  },
+
+  /** Insert or replace, by txid. */
+  async put(d: DelayedWithdrawal): Promise<void> {
+    await update(all => [...all.filter(x => x.txid !== d.txid), d])
+  },
+
+  async markAlerted(txid: string): Promise<void> {
+    await update(all => all.map(d => (d.txid === txid ? { ...d, alerted: true } : d)))
+  },
+
+  async markAnchored(txid: string): Promise<void> {
+    await update(all => all.map(d => (d.txid === txid ? { ...d, anchored: true } : d)))
+  },
+
+  async remove(txid: string): Promise<void> {
+    await update(all => all.filter(d => d.txid !== txid))
+  }
+}
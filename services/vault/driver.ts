@@ -5,19 +5,34 @@
  * the native package) so the entire TS layer — ceremony, service, tests —
  * compiles and runs without the `react-native-yubikey` native module resolving.
  * The real driver is a thin adapter over that module's JSON-string API; the
- * mock is a software implementation with test controls.
+ * mock is a software implementation with test controls; softwareKey.ts is the
+ * passphrase-protected key for devices without a YubiKey.
  *
- * Selection order: real native module > injected mock (DEV) > null. Null means
- * "no YubiKey capability on this device", and every caller treats it as such —
- * the vault UI hides, exactly like localpay's getLocalPayTransport() null path.
+ * Selection follows what the vault is sealed to, as vaultStore last read or
+ * wrote it (noteVaultSealing):
+ *
+ * - A software key already provisioned on this device, or a software-sealed
+ *   vault: the software key.
+ * - A hardware-sealed vault, or one not read yet: the native module whenever
+ *   it loads — even with NFC off or no reader attached, so the UI says the
+ *   key is unreachable instead of offering a key the vault was never sealed
+ *   to — else the injected mock (DEV), else null.
+ * - No vault yet: the software key if the user chose it, else the native
+ *   module when it can reach a key, else the injected mock, else a software
+ *   key still to be generated.
+ *
+ * Null means "no vault capability on this device", and every caller treats it
+ * as such — the vault UI hides, exactly like localpay's getLocalPayTransport()
+ * null path.
  */
 import { Platform } from 'react-native'
 import { vaultErrorFromNative } from './types'
+import { softwareVaultKey } from './softwareKey'
 
 export interface KeyEvent {
   type: 'attached' | 'detached'
   serial?: string
-  transport: 'usb' | 'nfc' | 'mock'
+  transport: 'usb' | 'nfc' | 'mock' | 'software'
 }
 
 export interface VaultDriver {
@@ -27,6 +42,9 @@ export interface VaultDriver {
    * (Android USB, mock). Session-based drivers are started only when a ceremony
    * begins — never at launch — and stopped when it arms or fails. */
   sessionBased: boolean
+  /** True for softwareKey.ts: the "PIN" is a passphrase that decrypts a key
+   * file, and there is no touch. The UI words its prompts accordingly. */
+  software?: boolean
   start(): void
   stop(): void
   onKeyEvent(cb: (e: KeyEvent) => void): () => void
@@ -62,14 +80,34 @@ interface NativeYubiKeyPiv {
   signEcdsa(slot: number, pin: string, digest: string): Promise<string>
 }
 
+/** What the enrolled vault's seals are made to. */
+export type VaultSealing = 'hardware' | 'software' | 'none'
+
 let injectedMock: VaultDriver | null = null
 let nativeCache: VaultDriver | null | undefined
+let softwareChosen = false
+/** Undefined until vaultStore first reads the meta; treated as hardware. */
+let sealing: VaultSealing | undefined
 
 /** DEV/test seam: force the mock (or clear it). */
 export function setMockDriver(driver: VaultDriver | null): void {
   injectedMock = driver
 }
 
+/** Called by vaultStore whenever it reads or writes the meta, so the
+ * synchronous selection below knows what the vault is sealed to. */
+export function noteVaultSealing(s: VaultSealing): void {
+  sealing = s
+}
+
+/** Enroll with a software key even though a YubiKey driver is present — the
+ * user said they have no YubiKey. Only heard while there is no vault; lasts
+ * until cleared or the app restarts, and once the key is generated it is
+ * picked on its own. */
+export function chooseSoftwareVaultKey(on: boolean): void {
+  softwareChosen = on
+}
+
 /** Normalize a native key event into the driver's vocabulary.
  *
  * The native modules emit `connected` / `removed` (iOS YubiKit + Android
@@ -155,9 +193,13 @@ function loadNative(): VaultDriver | null {
   return nativeCache
 }
 
-/** The active driver: native if present, else an injected mock, else null. */
+/** The active driver, in the order given at the top of this file. */
 export function getVaultDriver(): VaultDriver | null {
+  const software = softwareVaultKey()
+  if (software && (software.provisioned || sealing === 'software')) return software
   const native = loadNative()
-  if (native) return native
-  return injectedMock
+  if (sealing !== 'none') return native ?? injectedMock
+  if (software && softwareChosen) return software
+  if (native?.isSupported()) return native
+  return injectedMock ?? software
 }
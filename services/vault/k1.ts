@@ -5,12 +5,13 @@
  * Every K1 detail lives here so no other module needs to know the template's
  * shape. A K1 vault output is a plain P2PKH output — no R1/YubiKey leg, no
  * template contract — locked to a BIP32 child key derived per
- * services/vault/vaultDerivation.ts.
+ * services/vault/vaultDerivation.ts. The one other shape is a delayed
+ * withdrawal's held output, a 2-of-2 — see buildHeldLockingScript.
  *
  * SECURITY: nothing secret passes through this module — only public keys,
  * hashes, and script bytes.
  */
-import { LockingScript, P2PKH } from '@bsv/sdk'
+import { LockingScript, OP, P2PKH } from '@bsv/sdk'
 
 /** Exact: a P2PKH locking script is always
  * OP_DUP OP_HASH160 push(20) OP_EQUALVERIFY OP_CHECKSIG = 1+1+1+20+1+1 = 25 bytes. */
@@ -23,6 +24,13 @@ export const K1_LOCK_LEN = 25
  * exact length. */
 export const K1_UNLOCK_LEN = 108
 
+/** Exact: a held output's 2-of-2 lock is
+ * push(33) OP_CHECKSIGVERIFY push(33) OP_CHECKSIG = 34+1+34+1 = 70 bytes. */
+export const HELD_LOCK_LEN = 70
+
+/** Ceiling, as K1_UNLOCK_LEN: two pushes of a ≤73-byte DER+hashtype signature. */
+export const HELD_UNLOCK_LEN = 148
+
 /**
  * What a K1 vault output records about itself.
  *
@@ -72,3 +80,22 @@ export function decodeVaultInstructions(ci?: string): VaultInstructions | null {
 export function buildVaultLockingScript(a: { k1PublicKeyHash: number[] }): LockingScript {
   return new P2PKH().lock(a.k1PublicKeyHash)
 }
+
+/**
+ * Lock a delayed withdrawal's held output to BOTH a vault child key and a
+ * one-off hold key: `<vault> OP_CHECKSIGVERIFY <hold> OP_CHECKSIG`, unlocked by
+ * push(holdSig) push(vaultSig).
+ *
+ * The hold key signs the release and the cancel at the withdrawal's own tap
+ * and is then dropped, so those two transactions are the only spends the
+ * output will ever have — the vault key alone cannot move it. See
+ * delayedWithdrawals.ts.
+ */
+export function buildHeldLockingScript(a: { vaultPublicKey: number[]; holdPublicKey: number[] }): LockingScript {
+  return new LockingScript([
+    { op: a.vaultPublicKey.length, data: a.vaultPublicKey },
+    { op: OP.OP_CHECKSIGVERIFY },
+    { op: a.holdPublicKey.length, data: a.holdPublicKey },
+    { op: OP.OP_CHECKSIG }
+  ])
+}
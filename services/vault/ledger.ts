@@ -0,0 +1,344 @@
+/**
+ * Vault ledger — every vault movement, with the ceremony that authorized it.
+ *
+ * The wallet already holds each vault transaction as an ordinary action
+ * labelled 'vault' (see the labels in transfers.ts), but an action only says
+ * what moved. What authorized it — which card, over which transport, when; or
+ * the recovery phrase; or a release presigned at an earlier tap — is known
+ * only at the moment it happens, so transfers.ts records it here as each
+ * movement is signed. The ledger is the two joined on txid: an action this
+ * device holds no record for (made on another device, or before the ledger
+ * existed) still appears, just without its authorization.
+ *
+ * Records are device-local and carry nothing secret — serials, amounts and
+ * txids — in AsyncStorage under one key, every read-modify-write serialised
+ * through one chain as delayedWithdrawals.ts does. They outlive disableVault:
+ * an audit trail that vanished with the vault would not be one.
+ *
+ * The export is for auditors. CSV or JSON, signed by a key derived from this
+ * wallet's identity key for counterparty 'anyone', which is what lets anyone
+ * holding the identity key re-derive the signing key and check both the
+ * signature and whose it is (verifyVaultLedgerExport).
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage'
+import { PrivateKey, PublicKey, Signature, Utils } from '@bsv/sdk'
+import type { VaultKeyHandle } from './ceremony'
+import type { KeyEvent } from './driver'
+import type { VaultActionRow, VaultWallet } from './transfers'
+
+export const VAULT_LEDGER_KEY = 'vault_ledger_v1'
+
+/** BRC-43 protocol the export is signed under; its keyID is the export time. */
+export const VAULT_LEDGER_PROTOCOL: [2, string] = [2, 'vault ledger export']
+
+const PAGE = 200
+
+export type VaultLedgerKind = 'deposit' | 'withdraw' | 'hold' | 'release' | 'cancel' | 'sweep'
+
+export interface VaultAuthorization {
+  /**
+   * 'key' one tap; 'co-sign' two taps from two cards (coSign.ts); 'watch-only'
+   * a pre-derived address, no card (watchOnly.ts); 'recovery' the mnemonic +
+   * passphrase; 'presigned' a delayed withdrawal's release, signed at its
+   * hold's tap (the serial and time are that tap's).
+   */
+  method: 'key' | 'co-sign' | 'watch-only' | 'recovery' | 'presigned'
+  /** Cards involved, in tap order. Empty for watch-only and recovery. */
+  serials: string[]
+  transport?: KeyEvent['transport']
+  /** When the authorizing tap or recovery happened. Unix milliseconds. */
+  at: number
+}
+
+export interface VaultLedgerRecord {
+  v: 1
+  txid: string
+  kind: VaultLedgerKind
+  /** Into the vault for a deposit or cancel; out of it for a withdraw, hold or
+   * sweep; into the everyday balance for a release. */
+  satoshis: number
+  /** The fee this app set — vaultDepositTx2Fee for a deposit's vault
+   * transaction, delayedReleaseFee for a release or cancel. Absent where the
+   * toolbox chose the fee. */
+  fee?: number
+  auth: VaultAuthorization
+}
+
+/** One ledger line: a wallet action joined with this device's record of it. */
+export interface VaultLedgerRow {
+  txid: string
+  kind: VaultLedgerKind | 'unknown'
+  satoshis: number
+  fee?: number
+  /** The wallet's action status; absent for a record the wallet no longer lists. */
+  status?: string
+  description?: string
+  /** Absent for an action this device did not record. */
+  auth?: VaultAuthorization
+}
+
+export type VaultLedgerFormat = 'csv' | 'json'
+
+/** What authorized an operation run on `handle`, stamped now — call it as the
+ * handle arrives, not when the transaction lands. */
+export function keyAuthorization(handle: VaultKeyHandle, at: number = Date.now()): VaultAuthorization {
+  return {
+    method: handle.coSignedBy ? 'co-sign' : 'key',
+    serials: handle.coSignedBy ? [handle.coSignedBy, handle.serial] : [handle.serial],
+    transport: handle.transport,
+    at
+  }
+}
+
+let queueLock: Promise<unknown> = Promise.resolve()
+
+function withQueueLock<T>(fn: () => Promise<T>): Promise<T> {
+  const run = queueLock.then(fn, fn)
+  queueLock = run.catch(() => undefined)
+  return run
+}
+
+async function readAll(): Promise<VaultLedgerRecord[]> {
+  const raw = await AsyncStorage.getItem(VAULT_LEDGER_KEY)
+  if (!raw) return []
+  try {
+    const parsed = JSON.parse(raw)
+    return Array.isArray(parsed) ? parsed.filter((r: VaultLedgerRecord) => r?.v === 1) : []
+  } catch {
+    return []
+  }
+}
+
+export const vaultLedgerStore = {
+  /** Every record, newest authorization first. */
+  async list(): Promise<VaultLedgerRecord[]> {
+    return (await readAll()).sort((a, b) => b.auth.at - a.auth.at)
+  },
+
+  /** Insert or replace, by txid. */
+  async put(r: VaultLedgerRecord): Promise<void> {
+    await withQueueLock(async () => {
+      const all = (await readAll()).filter(x => x.txid !== r.txid)
+      await AsyncStorage.setItem(VAULT_LEDGER_KEY, JSON.stringify([...all, r]))
+    })
+  }
+}
+
+/**
+ * Record a movement that has just been signed. Never throws: it runs past the
+ * point of no abort, and a ledger write must not turn a transfer that
+ * happened into one that reads as failed.
+ */
+export async function recordVaultMovement(r: Omit<VaultLedgerRecord, 'v'>): Promise<void> {
+  await vaultLedgerStore.put({ v: 1, ...r }).catch(e => {
+    console.log('[vault] ledger record failed:', (e as Error)?.message)
+  })
+}
+
+/** Most specific first: a held withdrawal also carries 'vault-withdraw'. */
+const KIND_BY_LABEL: [string, VaultLedgerKind][] = [
+  ['vault-delayed', 'hold'],
+  ['vault-release', 'release'],
+  ['vault-cancel', 'cancel'],
+  ['vault-sweep', 'sweep'],
+  ['vault-withdraw', 'withdraw'],
+  ['vault-deposit', 'deposit']
+]
+
+function kindFromLabels(labels: string[] = []): VaultLedgerKind | 'unknown' {
+  return KIND_BY_LABEL.find(([label]) => labels.includes(label))?.[1] ?? 'unknown'
+}
+
+/**
+ * The ledger: recorded movements newest first, then any vault actions this
+ * device has no record of, newest first by the wallet's own order.
+ *
+ * A deposit's funding split ('vault-deposit-split') is left out — it moves
+ * money within the everyday balance, and the deposit it funds is the movement.
+ */
+export async function loadVaultLedger(w: VaultWallet, adminOriginator: string): Promise<VaultLedgerRow[]> {
+  const records = await vaultLedgerStore.list()
+  const actions: VaultActionRow[] = []
+  if (w.listActions) {
+    for (let offset = 0; ; ) {
+      const page = await w.listActions({ labels: ['vault'], includeLabels: true, limit: PAGE, offset }, adminOriginator)
+      actions.push(...page.actions)
+      offset += page.actions.length
+      if (page.actions.length < PAGE) break
+    }
+  }
+
+  const recorded = new Map(records.map(r => [r.txid, r]))
+  const rows: VaultLedgerRow[] = []
+  const unrecorded: VaultLedgerRow[] = []
+  const listed = new Map<string, VaultActionRow>()
+  for (const a of actions) {
+    if (!a.txid || a.labels?.includes('vault-deposit-split')) continue
+    listed.set(a.txid, a)
+    if (recorded.has(a.txid)) continue
+    unrecorded.push({
+      txid: a.txid,
+      kind: kindFromLabels(a.labels),
+      satoshis: Math.abs(a.satoshis ?? 0),
+      status: a.status,
+      description: a.description
+    })
+  }
+  for (const r of records) {
+    const a = listed.get(r.txid)
+    rows.push({
+      txid: r.txid,
+      kind: r.kind,
+      satoshis: r.satoshis,
+      fee: r.fee,
+      status: a?.status,
+      description: a?.description,
+      auth: r.auth
+    })
+  }
+  return [...rows, ...unrecorded.reverse()]
+}
+
+// ── export ──────────────────────────────────────────────────────────────
+
+function csvEscape(v: unknown): string {
+  if (v == null) return ''
+  const s = String(v)
+  if (/[",\n\r]/.test(s)) return `"${s.replace(/"/g, '""')}"`
+  return s
+}
+
+const CSV_COLUMNS = [
+  'txid',
+  'kind',
+  'satoshis',
+  'fee',
+  'status',
+  'authorization',
+  'keySerials',
+  'transport',
+  'authorizedAt',
+  'description'
+]
+
+const csvRow = (r: VaultLedgerRow): string =>
+  [
+    r.txid,
+    r.kind,
+    r.satoshis,
+    r.fee,
+    r.status,
+    r.auth?.method,
+    r.auth?.serials.join(';'),
+    r.auth?.transport,
+    r.auth ? new Date(r.auth.at).toISOString() : undefined,
+    r.description
+  ]
+    .map(csvEscape)
+    .join(',')
+
+const CSV_SIGNATURE_PREFIX = '# signature='
+
+/** The header fields both formats carry, and that verification re-derives from. */
+interface ExportHeader {
+  format: 'vault-ledger/1'
+  exportedAt: string
+  identityKey: string
+  protocolID: [2, string]
+  keyID: string
+  signingKey: string
+}
+
+/**
+ * Render and sign the ledger.
+ *
+ * CSV: `#` header lines naming the keys, the rows, and a final
+ * `# signature=<DER hex>` line over every byte before it. JSON: an envelope
+ * whose `payload` is the signed text verbatim — a JSON document with the same
+ * header fields and the rows — and whose `signature` covers exactly it, so no
+ * re-serialisation is ever needed to check it.
+ */
+export async function exportVaultLedger(
+  w: VaultWallet,
+  adminOriginator: string,
+  rows: VaultLedgerRow[],
+  format: VaultLedgerFormat,
+  now: number = Date.now()
+): Promise<string> {
+  const exportedAt = new Date(now).toISOString()
+  const keyArgs = { protocolID: VAULT_LEDGER_PROTOCOL, keyID: exportedAt, counterparty: 'anyone' }
+  const { publicKey: identityKey } = await w.getPublicKey({ identityKey: true }, adminOriginator)
+  const { publicKey: signingKey } = await w.getPublicKey({ ...keyArgs, forSelf: true }, adminOriginator)
+  const header: ExportHeader = {
+    format: 'vault-ledger/1',
+    exportedAt,
+    identityKey,
+    protocolID: VAULT_LEDGER_PROTOCOL,
+    keyID: exportedAt,
+    signingKey
+  }
+
+  const body =
+    format === 'csv'
+      ? [
+          ...Object.entries(header).map(([k, v]) => `# ${k}=${Array.isArray(v) ? v.join(' ') : v}`),
+          CSV_COLUMNS.join(','),
+          ...rows.map(csvRow)
+        ].join('\n') + '\n'
+      : JSON.stringify({ ...header, rows })
+  const { signature } = await w.createSignature({ ...keyArgs, data: Utils.toArray(body, 'utf8') }, adminOriginator)
+  const sigHex = Utils.toHex(signature)
+
+  return format === 'csv'
+    ? `${body}${CSV_SIGNATURE_PREFIX}${sigHex}\n`
+    : JSON.stringify({ payload: body, signature: sigHex }, null, 2)
+}
+
+/**
+ * Check an export: the signing key is the identity key's child for this
+ * protocol and keyID with counterparty 'anyone', and the signature over the
+ * signed text verifies under it. What an auditor runs, in code.
+ */
+export function verifyVaultLedgerExport(text: string, format: VaultLedgerFormat): boolean {
+  try {
+    let signed: string
+    let sigHex: string
+    let header: ExportHeader
+    if (format === 'csv') {
+      const at = text.lastIndexOf(`\n${CSV_SIGNATURE_PREFIX}`)
+      if (at < 0) return false
+      signed = text.slice(0, at + 1)
+      sigHex = text.slice(at + 1 + CSV_SIGNATURE_PREFIX.length).trim()
+      const fields = new Map(
+        signed
+          .split('\n')
+          .filter(l => l.startsWith('# '))
+          .map(l => [l.slice(2, l.indexOf('=')), l.slice(l.indexOf('=') + 1)] as const)
+      )
+      const [level, ...name] = (fields.get('protocolID') ?? '').split(' ')
+      header = {
+        format: 'vault-ledger/1',
+        exportedAt: fields.get('exportedAt') ?? '',
+        identityKey: fields.get('identityKey') ?? '',
+        protocolID: [Number(level) as 2, name.join(' ')],
+        keyID: fields.get('keyID') ?? '',
+        signingKey: fields.get('signingKey') ?? ''
+      }
+    } else {
+      const envelope = JSON.parse(text) as { payload: string; signature: string }
+      signed = envelope.payload
+      sigHex = envelope.signature
+      header = JSON.parse(signed) as ExportHeader
+    }
+
+    const invoice = `${header.protocolID[0]}-${header.protocolID[1]}-${header.keyID}`
+    const expected = PublicKey.fromString(header.identityKey).deriveChild(new PrivateKey(1), invoice)
+    if (expected.toString() !== header.signingKey) return false
+    return PublicKey.fromString(header.signingKey).verify(
+      Utils.toArray(signed, 'utf8'),
+      Signature.fromDER(Utils.toArray(sigHex, 'hex'))
+    )
+  } catch {
+    return false
+  }
+}
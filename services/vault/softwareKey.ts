@@ -0,0 +1,353 @@
+/**
+ * Software vault key — a VaultDriver for devices with no YubiKey.
+ *
+ * The P-256 slot key lives in a file in the app's document directory,
+ * encrypted under a KEY PASSPHRASE the user chooses at enrollment: PBKDF2-
+ * HMAC-SHA512 over the normalised passphrase gives an AES-256-GCM key, which
+ * wraps the 32-byte scalar (SymmetricKey wire format, as sealing.ts uses).
+ * Everything above the driver is unchanged — the vault seed is still sealed
+ * to this key's public key, and the ceremony still unwraps it with one ECDH —
+ * so the passphrase plays the part of the PIN and there is no touch.
+ *
+ * The key passphrase is SEPARATE from the vault passphrase: the vault
+ * passphrase plus the mnemonic recovers the vault anywhere, the key
+ * passphrase only opens this device's file. It must clear the same
+ * checkVaultPassphrase floor, because a stolen phone hands an attacker the
+ * file to grind offline — the retry counter below only slows the app.
+ *
+ * Retries mirror PIV: SOFTWARE_KEY_PIN_RETRIES wrong passphrases in a row
+ * lock the key ('pin-locked'), and the counter is written down BEFORE each
+ * attempt is checked, so killing the app mid-attempt never earns a free
+ * guess. A locked key is not unlockable here; the vault is recovered with
+ * the mnemonic and vault passphrase, exactly like a blocked YubiKey.
+ *
+ * SECURITY: never log the passphrase, the derived key, or the scalar.
+ */
+import { p256 } from '@noble/curves/nist.js'
+import { Hash, SymmetricKey, Utils } from '@bsv/sdk'
+import type { KeyEvent, VaultDriver } from './driver'
+import { softwareEcdh } from './sealing'
+import { randomBytes } from './random'
+import { VaultError } from './types'
+import { checkVaultPassphrase, normalizeVaultPassphrase } from './vaultPassphrase'
+
+/** One more than a PIV PIN's three: a passphrase is long enough that a typo
+ * is likelier than on six digits. */
+export const SOFTWARE_KEY_PIN_RETRIES = 5
+
+/** PBKDF2 rounds for new files. Stored per file, so raising it later leaves
+ * existing keys readable; a passphrase change re-wraps at the current value. */
+export const SOFTWARE_KEY_ITERATIONS = 210_000
+
+const SOFTWARE_KEY_FILE = 'vault-software-key.json'
+
+/** Software keys enroll under serials of their own, so the vault meta says
+ * which of its keys are software without reading any key. */
+const SOFTWARE_KEY_SERIAL_PREFIX = 'SW-'
+
+export function isSoftwareKeySerial(serial: string): boolean {
+  return serial.startsWith(SOFTWARE_KEY_SERIAL_PREFIX)
+}
+
+/** Where the wrapped key is kept. Async and tiny, like utils/headers/fs.ts's
+ * HeaderFs, so tests run against memory instead of expo-file-system. */
+export interface SoftwareKeyFile {
+  /** Synchronous on purpose: getVaultDriver() is synchronous and picks a
+   * provisioned software key ahead of hardware. */
+  exists(): boolean
+  read(): Promise<string | undefined>
+  write(text: string): Promise<void>
+  remove(): Promise<void>
+}
+
+/** The file as persisted. `retriesLeft` sits beside the ciphertext so the
+ * lockout survives a restart. */
+interface SoftwareKeyRecord {
+  v: 1
+  serial: string
+  kdf: { alg: 'pbkdf2-sha512'; iterations: number; salt: string }
+  /** AES-256-GCM ciphertext of the P-256 scalar, hex. */
+  c: string
+  /** Uncompressed SEC1 public key, hex — readable without the passphrase. */
+  publicKey: string
+  retriesLeft: number
+}
+
+/**
+ * expo-file-system is required lazily for the reason utils/headers/fs.ts
+ * gives: it ships untranspiled TS, and an eager import breaks every test that
+ * reaches this module.
+ */
+export function expoSoftwareKeyFile(): SoftwareKeyFile {
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  const { File, Paths } = require('expo-file-system') as typeof import('expo-file-system')
+  const file = new File(Paths.document, SOFTWARE_KEY_FILE)
+  return {
+    exists: () => file.exists,
+    read: async () => (file.exists ? await file.text() : undefined),
+    write: async text => {
+      if (!file.exists) file.create()
+      file.write(text)
+    },
+    remove: async () => {
+      if (file.exists) file.delete()
+    }
+  }
+}
+
+export function memorySoftwareKeyFile(): SoftwareKeyFile {
+  let text: string | undefined
+  return {
+    exists: () => text !== undefined,
+    read: async () => text,
+    write: async t => {
+      text = t
+    },
+    remove: async () => {
+      text = undefined
+    }
+  }
+}
+
+function deriveWrapKey(passphrase: string, salt: number[], iterations: number): number[] {
+  const password = Utils.toArray(normalizeVaultPassphrase(passphrase), 'utf8')
+  return Hash.pbkdf2(password, salt, iterations, 32, 'sha512')
+}
+
+function freshScalar(): Uint8Array {
+  // Same rejection sampling as sealing.ts's ephemeral keys.
+  for (;;) {
+    const candidate = Uint8Array.from(randomBytes(32))
+    try {
+      p256.getPublicKey(candidate, false)
+      return candidate
+    } catch {
+      // zero or >= order — draw again
+    }
+  }
+}
+
+export class SoftwareVaultKey implements VaultDriver {
+  /** Always at hand: nothing to insert, nothing to tap. */
+  sessionBased = false
+  software = true
+
+  private listeners = new Set<(e: KeyEvent) => void>()
+  /** Serial for a key not yet generated, so getKeyInfo is stable across one
+   * enrollment. */
+  private pendingSerial = `${SOFTWARE_KEY_SERIAL_PREFIX}${Utils.toHex(randomBytes(4)).toUpperCase()}`
+  /** A passphrase that passed the strength check for a key not yet generated.
+   * generateVaultKey wraps under it and forgets it. */
+  private pendingPassphrase: string | null = null
+  /** The scalar after a successful verify, until the next ECDH or signature
+   * spends it — the software form of PIV's pinPolicy=once. */
+  private unlocked: Uint8Array | null = null
+
+  constructor(
+    private readonly file: SoftwareKeyFile = expoSoftwareKeyFile(),
+    private readonly iterations = SOFTWARE_KEY_ITERATIONS
+  ) {}
+
+  /** True once a key has been generated on this device. */
+  get provisioned(): boolean {
+    return this.file.exists()
+  }
+
+  /** Delete the wrapped key. Only disableVault calls this, after the vault
+   * has been swept: a seal still made to this key would become unopenable. */
+  async erase(): Promise<void> {
+    this.wipe()
+    this.pendingPassphrase = null
+    await this.file.remove()
+  }
+
+  // ---- VaultDriver -----------------------------------------------------
+  isSupported(): boolean {
+    return true
+  }
+
+  start(): void {
+    // No reader to open. Announce the key so launch-time listeners see it
+    // present, as they would a YubiKey already in the port.
+    this.emit({ type: 'attached', transport: 'software' })
+  }
+
+  stop(): void {
+    this.wipe()
+  }
+
+  onKeyEvent(cb: (e: KeyEvent) => void): () => void {
+    this.listeners.add(cb)
+    return () => this.listeners.delete(cb)
+  }
+
+  async getKeyInfo(): Promise<{ serial: string; firmwareVersion: string; pinRetries: number }> {
+    const rec = await this.load()
+    if (!rec) return { serial: this.pendingSerial, firmwareVersion: 'software', pinRetries: SOFTWARE_KEY_PIN_RETRIES }
+    return { serial: rec.serial, firmwareVersion: 'software', pinRetries: rec.retriesLeft }
+  }
+
+  /** With no key yet, "verifying" checks the new passphrase's strength and
+   * holds it for generateVaultKey — enrollment verifies before it generates,
+   * and a weak passphrase must fail there, before anything is written. */
+  async verifyPin(pin: string): Promise<{ ok: boolean; retriesLeft: number }> {
+    const rec = await this.load()
+    if (!rec) {
+      const policy = checkVaultPassphrase(pin)
+      if (!policy.ok) throw new VaultError('bad-passphrase', policy.reason)
+      this.pendingPassphrase = pin
+      return { ok: true, retriesLeft: SOFTWARE_KEY_PIN_RETRIES }
+    }
+    const scalar = await this.unwrap(rec, pin)
+    if (!scalar) return { ok: false, retriesLeft: rec.retriesLeft }
+    this.wipe()
+    this.unlocked = scalar
+    return { ok: true, retriesLeft: SOFTWARE_KEY_PIN_RETRIES }
+  }
+
+  async changePin(oldPin: string, newPin: string): Promise<{ ok: boolean; retriesLeft: number }> {
+    const rec = await this.load()
+    if (!rec) throw new VaultError('no-key', 'No software key on this device')
+    const scalar = await this.unwrap(rec, oldPin)
+    if (!scalar) throw new VaultError('pin-invalid', 'Wrong passphrase', rec.retriesLeft)
+    try {
+      const policy = checkVaultPassphrase(newPin)
+      if (!policy.ok) throw new VaultError('bad-passphrase', policy.reason)
+      await this.save(this.wrap(scalar, newPin, rec.serial))
+      return { ok: true, retriesLeft: SOFTWARE_KEY_PIN_RETRIES }
+    } finally {
+      scalar.fill(0)
+    }
+  }
+
+  async generateVaultKey(_slot: number): Promise<{ publicKey: string }> {
+    if (await this.load()) throw new VaultError('slot-occupied', 'A software key already exists')
+    const passphrase = this.pendingPassphrase
+    if (!passphrase) throw new VaultError('pin-required', 'Passphrase required before generating')
+    const scalar = freshScalar()
+    try {
+      const rec = this.wrap(scalar, passphrase, this.pendingSerial)
+      await this.save(rec)
+      this.pendingPassphrase = null
+      return { publicKey: rec.publicKey }
+    } finally {
+      scalar.fill(0)
+    }
+  }
+
+  async readVaultPublicKey(_slot: number): Promise<{ publicKey: string } | null> {
+    const rec = await this.load()
+    return rec ? { publicKey: rec.publicKey } : null
+  }
+
+  async ecdh(_slot: number, pin: string, peerPublicKey: string): Promise<{ secret: string }> {
+    const scalar = await this.takeUnlocked(pin)
+    try {
+      return { secret: softwareEcdh(Utils.toHex(Array.from(scalar)), peerPublicKey) }
+    } finally {
+      scalar.fill(0)
+    }
+  }
+
+  /** DER, high-S left as drawn — the same output contract as a YubiKey, so
+   * nothing downstream can tell the two apart (see mockYubiKey.ts). */
+  async signEcdsa(_slot: number, pin: string, digest: string): Promise<{ signature: string }> {
+    const bytes = Utils.toArray(digest, 'hex')
+    if (bytes.length !== 32) {
+      throw new VaultError('template-invalid', `Digest must be 32 bytes, got ${bytes.length}`)
+    }
+    const scalar = await this.takeUnlocked(pin)
+    try {
+      const raw = p256.sign(Uint8Array.from(bytes), scalar, { prehash: false, lowS: false })
+      return { signature: Utils.toHex(Array.from(p256.Signature.fromBytes(raw).toBytes('der'))) }
+    } finally {
+      scalar.fill(0)
+    }
+  }
+
+  // ---- internals -------------------------------------------------------
+  /** The unlocked scalar, verifying inline when no verify preceded this call.
+   * Ownership passes to the caller, who zeroes it. */
+  private async takeUnlocked(pin: string): Promise<Uint8Array> {
+    if (!this.unlocked) {
+      if (!pin) throw new VaultError('pin-required', 'Passphrase required')
+      const res = await this.verifyPin(pin)
+      if (!res.ok) throw new VaultError('pin-invalid', 'Wrong passphrase', res.retriesLeft)
+      if (!this.unlocked) throw new VaultError('no-key', 'No software key on this device')
+    }
+    const scalar = this.unlocked
+    this.unlocked = null
+    return scalar
+  }
+
+  /** One counted attempt. The decremented counter is on disk before the KDF
+   * runs; only a correct passphrase restores it. */
+  private async unwrap(rec: SoftwareKeyRecord, passphrase: string): Promise<Uint8Array | null> {
+    if (rec.retriesLeft <= 0) throw new VaultError('pin-locked', 'Software key is locked')
+    rec.retriesLeft -= 1
+    await this.save(rec)
+    let scalar: Uint8Array
+    try {
+      const key = deriveWrapKey(passphrase, Utils.toArray(rec.kdf.salt, 'hex'), rec.kdf.iterations)
+      scalar = Uint8Array.from(new SymmetricKey(key).decrypt(Utils.toArray(rec.c, 'hex')) as number[])
+    } catch {
+      return null
+    }
+    rec.retriesLeft = SOFTWARE_KEY_PIN_RETRIES
+    await this.save(rec)
+    return scalar
+  }
+
+  private wrap(scalar: Uint8Array, passphrase: string, serial: string): SoftwareKeyRecord {
+    const salt = randomBytes(32)
+    const key = deriveWrapKey(passphrase, salt, this.iterations)
+    return {
+      v: 1,
+      serial,
+      kdf: { alg: 'pbkdf2-sha512', iterations: this.iterations, salt: Utils.toHex(salt) },
+      c: Utils.toHex(new SymmetricKey(key).encrypt(Array.from(scalar)) as number[]),
+      publicKey: Utils.toHex(Array.from(p256.getPublicKey(scalar, false))),
+      retriesLeft: SOFTWARE_KEY_PIN_RETRIES
+    }
+  }
+
+  private async load(): Promise<SoftwareKeyRecord | null> {
+    const text = await this.file.read()
+    if (!text) return null
+    const rec = JSON.parse(text) as SoftwareKeyRecord
+    if (rec.v !== 1 || rec.kdf?.alg !== 'pbkdf2-sha512') {
+      throw new VaultError('seal-corrupt', 'Unreadable software key')
+    }
+    return rec
+  }
+
+  private save(rec: SoftwareKeyRecord): Promise<void> {
+    return this.file.write(JSON.stringify(rec))
+  }
+
+  private wipe(): void {
+    this.unlocked?.fill(0)
+    this.unlocked = null
+  }
+
+  private emit(e: KeyEvent): void {
+    this.listeners.forEach(cb => cb(e))
+  }
+}
+
+let shared: SoftwareVaultKey | null | undefined
+
+/** This device's software key, or null where no document directory can be
+ * reached (then there is no software fallback either). */
+export function softwareVaultKey(): SoftwareVaultKey | null {
+  if (shared !== undefined) return shared
+  try {
+    const key = new SoftwareVaultKey()
+    // Touch the file once so a filesystem that cannot answer fails here.
+    void key.provisioned
+    shared = key
+  } catch {
+    shared = null
+  }
+  return shared
+}
@@ -7,6 +7,9 @@
  * Nothing here can produce a vault address without the tap — no xpub is
  * stored anywhere, so the unwrapped node is the only source of the material.
  * Funding and change stay with the toolbox, out of the default basket.
+ * The one exception is opt-in: watch-only mode pre-derives a bounded pool of
+ * those hashes at a single tap, and a deposit draws from it instead (see
+ * watchOnly.ts).
  *
  * Withdraw: ONE tap for the whole transaction. The same unwrapped node derives
  * the child private key each selected input names, and signs it in software.
@@ -16,10 +19,16 @@
  * cannot itself produce, so we build each unlocking script ourselves and
  * finalize with signAction.
  *
+ * Delayed withdraw: with a withdrawal delay set, the same one-tap withdrawal
+ * pays a 2-of-2 held output in its own basket instead, and presigns both ways
+ * out of it: the time-locked release that later pays it out, and the cancel
+ * (a different key, or the recovery route) that returns it to the vault — see
+ * delayedWithdrawals.ts.
+ *
  * Sweep: recovery for a lost YubiKey, signed from the SAME HD node reached
  * the other way — main mnemonic + vault passphrase (see vaultDerivation.ts).
  * No card, no ceremony. Always empties the vault (subject to the input cap)
- * and never re-vaults.
+ * and never re-vaults, and cancels any open delayed withdrawal into it first.
  *
  * Two rails built for the ~960 KB R1-K1 script survive it on their own merits
  * and are unchanged: the two-transaction deposit (tx1 stages exact funding,
@@ -37,17 +46,43 @@
  * outlives the call. Nothing key-shaped is logged: not the node, not a child
  * key, not a seed.
  */
-import { Beef, HD, Hash, LockingScript, P2PKH, PublicKey, Transaction, TransactionSignature, UnlockingScript, Utils } from '@bsv/sdk'
-import { vaultStore } from './vaultStore'
+import {
+  Beef,
+  HD,
+  Hash,
+  LockingScript,
+  P2PKH,
+  PrivateKey,
+  PublicKey,
+  Transaction,
+  TransactionSignature,
+  UnlockingScript,
+  Utils
+} from '@bsv/sdk'
+import { enrolledKeys, vaultStore } from './vaultStore'
 import { VaultError } from './types'
 import { backupAttestation } from './backupAttestation'
-import { VaultKeyHandle } from './ceremony'
 import { noteVaultProgress, requestVaultKey } from './ceremonyHost'
+import { coSignRequired, requestCoSignedKey } from './coSign'
+import {
+  DelayedRelease,
+  DelayedWithdrawal,
+  decodeHoldInstructions,
+  delayedWithdrawalStore,
+  encodeHoldInstructions,
+  heldOutpoint,
+  releaseDue
+} from './delayedWithdrawals'
 import { randomBytes } from './random'
-import { bip32KeyID, indexFromKeyID, depositPrivKey, depositPubKeyHash } from './vaultDerivation'
+import { watchPoolStatus, watchPoolStore, WatchPoolStatus } from './watchOnly'
+import { keyAuthorization, recordVaultMovement, VaultAuthorization } from './ledger'
+import { bip32KeyID, indexFromKeyID, depositPrivKey, depositPubKey, depositPubKeyHash } from './vaultDerivation'
 import {
+  HELD_LOCK_LEN,
+  HELD_UNLOCK_LEN,
   K1_LOCK_LEN,
   K1_UNLOCK_LEN,
+  buildHeldLockingScript,
   buildVaultLockingScript,
   decodeVaultInstructions,
   encodeVaultInstructions,
@@ -67,6 +102,17 @@ export const VAULT_STAGING_BASKET = 'vault staging'
 /** BRC-42 protocol the staging output's P2PKH key is derived under. */
 const STAGING_PROTOCOL: [number, string] = [2, 'vault deposit staging']
 
+/**
+ * The basket a delayed withdrawal's held output waits in. Admin-reserved like
+ * VAULT_BASKET, and deliberately NOT that basket: a held output is no longer
+ * in the vault balance and no later withdrawal may select it — it leaves only
+ * through its presigned release or a cancel. See delayedWithdrawals.ts.
+ */
+export const VAULT_DELAY_BASKET = 'admin vault delayed'
+
+/** BRC-29, under which the release output is derived to the wallet itself. */
+const BRC29_PROTOCOL: [number, string] = [2, '3241645161d8']
+
 /** P2PKH unlock, worst case: push(73-byte DER+hashtype sig) + push(33-byte key). */
 const STAGING_UNLOCK_LEN = 108
 
@@ -96,6 +142,12 @@ export function vaultDepositTx2Fee(satsPerKb: number = VAULT_SATS_PER_KB): numbe
   return Math.ceil((txSizeBytes([STAGING_UNLOCK_LEN], [K1_LOCK_LEN]) / 1000) * satsPerKb)
 }
 
+/** The fee for moving one held output on: its release, or a cancel back into
+ * the vault. Both are one held input and one P2PKH output. */
+export function delayedReleaseFee(satsPerKb: number = VAULT_SATS_PER_KB): number {
+  return Math.ceil((txSizeBytes([HELD_UNLOCK_LEN], [K1_LOCK_LEN]) / 1000) * satsPerKb)
+}
+
 interface StagingInstructions {
   v: 1
   type: 'staging'
@@ -163,6 +215,19 @@ export interface VaultTransferOptions {
    * in StorageExpoSQLite for the exact (deliberately narrow) predicate.
    */
   releaseStrandedStaging?: () => Promise<number>
+  /**
+   * What the ceremony sheet shows for a withdrawal's second tap when the
+   * co-sign policy applies (see coSign.ts) — it should ask for a DIFFERENT
+   * key. Defaults to the withdrawal's own reason.
+   */
+  secondKeyReason?: string
+}
+
+export interface VaultDepositResult {
+  txid: string
+  /** Present in watch-only mode: the pool as this deposit left it, so the
+   * caller can warn when it runs low. */
+  watchPool?: WatchPoolStatus
 }
 
 export interface VaultSpendResult {
@@ -175,6 +240,9 @@ export interface VaultSpendResult {
    * pass also consolidates, so the next one needs fewer inputs).
    */
   remainingInputs: number
+  /** Present when the vault has a withdrawal delay: the hold this withdrawal
+   * created instead of paying the default basket. */
+  delayed?: DelayedWithdrawal
 }
 
 /**
@@ -230,16 +298,24 @@ export interface VaultWallet {
   createSignature(args: unknown, originator: string): Promise<{ signature: number[] }>
   abortAction(args: unknown, originator: string): Promise<unknown>
   listActions?(args: unknown, originator: string): Promise<{ actions: VaultActionRow[] }>
+  /** Takes a delayed withdrawal's release into the default basket. */
+  internalizeAction?(args: unknown, originator: string): Promise<unknown>
+  /** Drops a released held output from VAULT_DELAY_BASKET. */
+  relinquishOutput?(args: unknown, originator: string): Promise<unknown>
 }
 
-/** The fields of a listActions row the reservation heal needs. `inputs` arrives
- * only when the call asked for `includeInputs`, and a transaction that never
- * reached signing has no `txid` — which is exactly the case the outpoint match
- * exists to cover. */
+/** The fields of a listActions row the reservation heal and the vault ledger
+ * need. `inputs` arrives only when the call asked for `includeInputs`, and
+ * `labels` only for `includeLabels`; a transaction that never reached signing
+ * has no `txid` — which is exactly the case the outpoint match exists to
+ * cover. */
 export interface VaultActionRow {
   txid?: string
   status: string
   reference?: string
+  satoshis?: number
+  description?: string
+  labels?: string[]
   inputs?: { sourceOutpoint?: string }[]
 }
 
@@ -262,6 +338,11 @@ interface ListOutputsResult {
 
 // ── helpers ───────────────────────────────────────────────────────────────
 
+interface DepositTarget {
+  instructions: VaultInstructions
+  lockingScript: string
+}
+
 /**
  * Reserve the next deposit slot: take the next BIP32 index and lock to that
  * child of the vault node. Used by both depositToVault and the withdraw path's
@@ -272,10 +353,7 @@ interface ListOutputsResult {
  * without a node in hand this function cannot produce an address at all, which
  * is exactly the property that makes every deposit a deliberate tap.
  */
-async function nextDepositTarget(hd: HD): Promise<{
-  instructions: VaultInstructions
-  lockingScript: string
-}> {
+async function nextDepositTarget(hd: HD): Promise<DepositTarget> {
   const index = await vaultStore.takeNextIndex()
   if (index == null) throw new VaultError('not-enrolled', 'Vault is not set up')
   const script = buildVaultLockingScript({ k1PublicKeyHash: depositPubKeyHash(hd, index) })
@@ -285,6 +363,24 @@ async function nextDepositTarget(hd: HD): Promise<{
   }
 }
 
+/**
+ * The same, from the watch-only pool: the next pre-derived address, burned as
+ * it is drawn. Its index was reserved from the counter when it was derived, so
+ * this never touches nextKeyIndex. No node in hand, so the hash is trusted as
+ * stored once its MAC checks out — it was derived from the private node at a
+ * tap (see watchOnly.ts).
+ */
+async function pooledDepositTarget(): Promise<DepositTarget & { index: number }> {
+  const drawn = await watchPoolStore.take()
+  if (!drawn) throw new VaultError('watch-pool-empty', 'No pre-derived deposit addresses left')
+  const script = buildVaultLockingScript({ k1PublicKeyHash: Utils.toArray(drawn.pkh, 'hex') })
+  return {
+    index: drawn.index,
+    instructions: { v: 3, type: 'K1', keyID: bip32KeyID(drawn.index) },
+    lockingScript: script.toHex()
+  }
+}
+
 /** True for the toolbox's WERR_REVIEW_ACTIONS — an undelayed action that needs
  * review, in our case a double-spend against a vault UTXO still reserved by a
  * stuck prior attempt whose reserving transaction DOES have a txid. */
@@ -492,6 +588,55 @@ export async function getVaultBalance(w: VaultWallet, adminOriginator: string):
   return res.outputs.reduce((sum, o) => sum + (o.satoshis ?? 0), 0)
 }
 
+/** The vault balance as the watch-only pool sees it. Satoshis throughout. */
+export interface WatchedVaultBalance {
+  /** Outputs locked to the pre-derived address their instructions name. */
+  verified: number
+  /** Outputs the pool has no address for: tapped deposits, re-vaulted
+   * remainders, cancelled withdrawals. Not suspect, just not checkable. */
+  unwatched: number
+  /** Pool indices whose stored hash failed its integrity check. Their outputs
+   * count as unwatched: the pool cannot vouch for them. */
+  forged: number[]
+  /** Outpoints naming a pooled index but locked to something else. */
+  mismatched: string[]
+}
+
+/**
+ * Check the vault's outputs against the watch-only pool, with no key: each
+ * output whose keyID is a pre-derived index must carry exactly that index's
+ * lock. Only pool entries whose MAC checks out are used. Null when watch-only
+ * mode is off.
+ */
+export async function verifyWatchedVault(w: VaultWallet, adminOriginator: string): Promise<WatchedVaultBalance | null> {
+  const pool = await watchPoolStore.get()
+  if (!pool) return null
+  const list = (await w.listOutputs(
+    { basket: VAULT_BASKET, include: 'entire transactions', includeCustomInstructions: true, limit: 1000 },
+    adminOriginator
+  )) as ListOutputsResult
+  const sources = list.BEEF?.length ? Beef.fromBinary(list.BEEF) : undefined
+  const checked = await watchPoolStore.check(pool)
+  const pooled = new Map(checked.addresses.map(a => [a.index, a.pkh]))
+
+  const res: WatchedVaultBalance = { verified: 0, unwatched: 0, mismatched: [], forged: checked.forgedAddresses }
+  for (const o of list.outputs) {
+    const ci = decodeVaultInstructions(o.customInstructions)
+    const index = ci ? indexFromKeyID(ci.keyID) : null
+    const pkh = index == null ? undefined : pooled.get(index)
+    if (!pkh) {
+      res.unwatched += o.satoshis
+      continue
+    }
+    const [txid, vout] = o.outpoint.split('.')
+    const actual = sources?.findTxid(txid.toLowerCase())?.tx?.outputs[Number(vout)]?.lockingScript
+    const expected = buildVaultLockingScript({ k1PublicKeyHash: Utils.toArray(pkh, 'hex') })
+    if (actual?.toHex() === expected.toHex()) res.verified += o.satoshis
+    else res.mismatched.push(o.outpoint)
+  }
+  return res
+}
+
 // ── deposit ─────────────────────────────────────────────────────────────
 
 /**
@@ -510,7 +655,7 @@ export async function depositToVault(
   satoshis: number,
   reason: string,
   opts?: VaultTransferOptions
-): Promise<{ txid: string }> {
+): Promise<VaultDepositResult> {
   await requireOnline(opts)
   if (satoshis < VAULT_DEPOSIT_MIN) {
     throw new VaultError('below-dust', `Vault deposits must be at least ${VAULT_DEPOSIT_MIN} satoshis`)
@@ -531,6 +676,33 @@ export async function depositToVault(
     throw new VaultError('backup-required', 'Back up this wallet before depositing')
   }
 
+  // ── watch-only: no tap ──────────────────────────────────────────────────
+  //
+  // With addresses pre-derived (watchOnly.ts) the deposit draws one instead of
+  // unsealing the key. A pool that has run dry falls through to the tap, so a
+  // deposit never fails for want of one; the result's status is what tells the
+  // caller to warn that the pool needs topping up.
+  const pool = await watchPoolStore.get()
+  if (pool && watchPoolStatus(pool).remaining > 0) {
+    const auth: VaultAuthorization = { method: 'watch-only', serials: [], at: Date.now() }
+    let index: number | undefined
+    const { txid } = await stageAndLockDeposit(
+      w,
+      adminOriginator,
+      satoshis,
+      async () => {
+        const target = await pooledDepositTarget()
+        index = target.index
+        return target
+      },
+      opts
+    )
+    if (index != null) await watchPoolStore.noteDeposit(index, txid)
+    await recordVaultMovement({ txid, kind: 'deposit', satoshis, fee: vaultDepositTx2Fee(), auth })
+    const after = await watchPoolStore.get()
+    return { txid, watchPool: after ? watchPoolStatus(after) : undefined }
+  }
+
   // ── the tap ─────────────────────────────────────────────────────────────
   //
   // A deposit address is a child of the vault node and there is no stored
@@ -539,24 +711,31 @@ export async function depositToVault(
   // whether the deposit succeeds, fails to stage, or fails to sign.
   const handle = await requestVaultKey(reason)
   try {
-    return await stageAndLockDeposit(w, adminOriginator, satoshis, handle, opts)
+    const auth = keyAuthorization(handle)
+    // `handle.hd` is read inside the thunk, at its only point of use, rather
+    // than hoisted here — a released or relocked handle must be able to refuse.
+    const { txid } = await stageAndLockDeposit(w, adminOriginator, satoshis, () => nextDepositTarget(handle.hd), opts)
+    await recordVaultMovement({ txid, kind: 'deposit', satoshis, fee: vaultDepositTx2Fee(), auth })
+    return { txid, watchPool: pool ? watchPoolStatus(pool) : undefined }
   } finally {
     handle.release()
   }
 }
 
 /**
- * The two-transaction deposit itself, run inside an armed ceremony.
+ * The two-transaction deposit itself, run inside an armed ceremony or against
+ * the watch-only pool.
  *
- * `handle` is operation-scoped: `hd` is read once, at the point of use, and
- * neither the handle nor the node is stored anywhere that outlives this call
- * (see VaultKeyHandle).
+ * `takeTarget` burns the deposit address and is called once, after staging,
+ * so a failed split never costs one. On the tap path it reads the handle's
+ * node, which is operation-scoped: neither the handle nor the node is stored
+ * anywhere that outlives this call (see VaultKeyHandle).
  */
 async function stageAndLockDeposit(
   w: VaultWallet,
   adminOriginator: string,
   satoshis: number,
-  handle: VaultKeyHandle,
+  takeTarget: () => Promise<DepositTarget>,
   opts?: VaultTransferOptions
 ): Promise<{ txid: string }> {
   // Announce work before starting it: the ceremony sheet is on screen for the
@@ -657,11 +836,7 @@ async function stageAndLockDeposit(
   // the staging input by outpoint and commits to the full input set), so a
   // toolbox that ignores the label degrades to an ugly-but-valid deposit, not
   // a broadcast rejection.
-  //
-  // `handle.hd` is read HERE, at its only point of use, rather than being
-  // hoisted into a local at the top of the deposit — a released or relocked
-  // handle must be able to refuse.
-  const target = await nextDepositTarget(handle.hd)
+  const target = await takeTarget()
   const created = await w.createAction(
     {
       description: 'Move to vault',
@@ -869,7 +1044,7 @@ async function spendVaultOutputs(
   amount: number | 'all',
   reason: string,
   getHd: VaultKeySource,
-  opts: { revaultRemainder: boolean } & VaultTransferOptions
+  opts: { revaultRemainder: boolean; delay?: DelayedSpend; auth: VaultAuthorization } & VaultTransferOptions
 ): Promise<VaultSpendResult> {
   // Announce work BEFORE starting it, then hand the JS thread back once so
   // React can actually paint the sheet. listOutputs and createAction both cross
@@ -952,6 +1127,33 @@ async function spendVaultOutputs(
 
   const outputs: unknown[] = []
   const remainder = acc - want
+  const revaults = opts.revaultRemainder && remainder >= VAULT_DEPOSIT_MIN
+
+  // A delayed withdrawal pays ONE held output instead of leaving the withdrawn
+  // value to the toolbox's default-basket change. It is locked to a fresh vault
+  // child AND a one-off hold key (see prepareHold), and sized net of this
+  // transaction's own fee so no default-basket coin is needed to fund it; the
+  // release's fee comes out of it later. First in the list, so it is always
+  // vout 0.
+  let held: HeldOutput | undefined
+  if (opts.delay) {
+    const lockLens = revaults ? [HELD_LOCK_LEN, K1_LOCK_LEN] : [HELD_LOCK_LEN]
+    const fee = Math.ceil((txSizeBytes(selected.map(() => K1_UNLOCK_LEN), lockLens) / 1000) * VAULT_SATS_PER_KB)
+    const satoshis = want - fee
+    if (satoshis - delayedReleaseFee() <= 0) {
+      throw new VaultError('below-dust', 'Too little to hold for a delayed withdrawal')
+    }
+    held = await prepareHold(getHd, satoshis)
+    outputs.push({
+      satoshis,
+      lockingScript: held.lockingScript.toHex(),
+      outputDescription: 'Delayed vault withdrawal',
+      basket: VAULT_DELAY_BASKET,
+      customInstructions: encodeVaultInstructions({ v: 3, type: 'K1', keyID: held.keyID }),
+      tags: ['vault', 'vault-delayed']
+    })
+  }
+
   // A sub-floor remainder is folded into the withdrawal rather than re-vaulted:
   // an output below VAULT_DEPOSIT_MIN is not worth what it costs to move. It
   // still reaches the user — as part of the toolbox's own default-basket
@@ -962,7 +1164,7 @@ async function spendVaultOutputs(
   // already aborted without burning an index here. Read through the thunk (and
   // BEFORE takeNextIndex, inside nextDepositTarget) so a relock at this instant
   // refuses without burning an index either.
-  if (opts.revaultRemainder && remainder >= VAULT_DEPOSIT_MIN) {
+  if (revaults) {
     const target = await nextDepositTarget(getHd())
     outputs.push({
       satoshis: remainder,
@@ -982,7 +1184,9 @@ async function spendVaultOutputs(
       inputDescription: 'Vault withdrawal'
     })),
     outputs,
-    labels: ['vault', 'vault-withdraw'],
+    labels: opts.delay
+      ? ['vault', 'vault-withdraw', 'vault-delayed']
+      : ['vault', opts.revaultRemainder ? 'vault-withdraw' : 'vault-sweep'],
     // inputBEEF, from the 'entire transactions' listOutputs call above — see
     // the comment there for why this is required, not optional. trustSelf:
     // 'known' is kept alongside it: it is what lets storage skip re-walking
@@ -993,6 +1197,21 @@ async function spendVaultOutputs(
     options: { randomizeOutputs: false, acceptDelayedBroadcast: false, trustSelf: 'known' }
   }
 
+  // What left the vault: the request when a remainder went back in, else every
+  // input. A hold's fee is what this transaction took off the held output.
+  const finish = async (txid: string): Promise<VaultSpendResult> => {
+    await recordVaultMovement({
+      txid,
+      kind: opts.delay ? 'hold' : opts.revaultRemainder ? 'withdraw' : 'sweep',
+      satoshis: revaults ? want : acc,
+      fee: held ? want - held.satoshis : undefined,
+      auth: opts.auth
+    })
+    return held && opts.delay
+      ? { txid, remainingInputs, delayed: await holdWithdrawal(w, adminOriginator, txid, held, getHd, opts.delay) }
+      : { txid, remainingInputs }
+  }
+
   let created: CreateActionResult
   try {
     created = await w.createAction(caArgs, adminOriginator)
@@ -1016,7 +1235,7 @@ async function spendVaultOutputs(
   if (!created.signableTransaction) {
     const txid = created.txid ?? (created.tx ? Transaction.fromAtomicBEEF(created.tx).id('hex') : undefined)
     if (!txid) throw new VaultError('no-transaction', 'Withdrawal produced no transaction')
-    return { txid, remainingInputs }
+    return await finish(txid)
   }
 
   const { tx: atomic, reference } = created.signableTransaction
@@ -1084,7 +1303,7 @@ async function spendVaultOutputs(
   )
   const txid = signed.txid ?? (signed.tx ? Transaction.fromAtomicBEEF(signed.tx).id('hex') : undefined)
   if (!txid) throw new VaultError('no-transaction', 'Withdrawal produced no transaction')
-  return { txid, remainingInputs }
+  return await finish(txid)
 }
 
 /**
@@ -1093,6 +1312,15 @@ async function spendVaultOutputs(
  * key is always released in a finally: on iOS that is what dismisses the
  * system NFC sheet, and it must fire whether the withdrawal succeeds, fails to
  * build, or fails to sign.
+ *
+ * Above the co-sign threshold, if the vault has one, that becomes TWO taps
+ * from two distinct enrolled keys; the spend itself still signs from the one
+ * handle the second tap leaves armed. A withdrawal of 'all' is measured
+ * against the vault balance.
+ *
+ * With a withdrawal delay set, the same tap pays a held output and presigns
+ * its release instead; the result's `delayed` is the hold (see
+ * delayedWithdrawals.ts).
  */
 export async function withdrawFromVault(
   w: VaultWallet,
@@ -1103,7 +1331,10 @@ export async function withdrawFromVault(
 ): Promise<VaultSpendResult> {
   // Before the ceremony: no key prompt for a transfer that cannot proceed.
   await requireOnline(opts)
-  const handle = await requestVaultKey(reason)
+  const delay = (await vaultStore.getMeta())?.withdrawalDelay
+  const handle = (await needsCoSign(w, adminOriginator, amount))
+    ? await requestCoSignedKey(reason, opts?.secondKeyReason)
+    : await requestVaultKey(reason)
   try {
     // A THUNK, not `handle.hd` — see VaultKeySource. The spend reads it afresh
     // at every derive and every signature, so each read goes back through the
@@ -1117,13 +1348,25 @@ export async function withdrawFromVault(
     // with this call.
     return await spendVaultOutputs(w, adminOriginator, amount, reason, () => handle.hd, {
       revaultRemainder: true,
-      ...opts
+      auth: keyAuthorization(handle),
+      ...opts,
+      // The window starts at the tap, not at broadcast: it is the promise made
+      // to the owner, and it must not stretch because the monitor was slow.
+      delay: delay ? { releaseAt: Date.now() + delay.hours * 3_600_000, approvedBy: handle.serial } : undefined
     })
   } finally {
     handle.release()
   }
 }
 
+/** Whether this withdrawal crosses the vault's co-sign threshold. Reads the
+ * balance only when a policy exists, so a single-key vault pays nothing. */
+async function needsCoSign(w: VaultWallet, adminOriginator: string, amount: number | 'all'): Promise<boolean> {
+  const policy = (await vaultStore.getMeta())?.coSign
+  if (!policy) return false
+  return coSignRequired(policy, amount === 'all' ? await getVaultBalance(w, adminOriginator) : amount)
+}
+
 /**
  * Recovery for a lost YubiKey: sweep the ENTIRE vault to the default basket,
  * signing with the HD node derived from the main mnemonic + vault passphrase.
@@ -1132,6 +1375,10 @@ export async function withdrawFromVault(
  * needs no card, no ceremony, and no device-local vault state at all. A
  * mistyped passphrase is caught by prepareSpends, loudly. Returns null when
  * the vault is already empty.
+ *
+ * Open delayed withdrawals are cancelled back into the vault first, with the
+ * same node, so the sweep takes them too: otherwise a hold would be left to a
+ * vault that is about to be cleared.
  */
 export async function sweepVaultWithHD(
   w: VaultWallet,
@@ -1141,12 +1388,15 @@ export async function sweepVaultWithHD(
   opts?: VaultTransferOptions
 ): Promise<VaultSpendResult | null> {
   await requireOnline(opts)
+  const auth: VaultAuthorization = { method: 'recovery', serials: [], at: Date.now() }
+  await cancelOpenHolds(w, adminOriginator, reason, hd, auth)
   try {
     // The node is the caller's own and no ceremony can revoke it, so the thunk
     // is transparent here — it exists for the withdrawal's handle (see
     // VaultKeySource).
     return await spendVaultOutputs(w, adminOriginator, 'all', reason, () => hd, {
       revaultRemainder: false,
+      auth,
       ...opts
     })
   } catch (e) {
@@ -1154,3 +1404,503 @@ export async function sweepVaultWithHD(
     throw e
   }
 }
+
+/**
+ * Cancel every hold whose output storage still lists, with a node the caller
+ * owns. A hold not listed has either landed already or not yet been sent, and
+ * in neither case is there anything to cancel.
+ */
+async function cancelOpenHolds(
+  w: VaultWallet,
+  adminOriginator: string,
+  reason: string,
+  hd: HD,
+  auth: VaultAuthorization
+): Promise<void> {
+  for (const d of await syncDelayedWithdrawals(w, adminOriginator)) {
+    await returnHeldToVault(w, adminOriginator, d, reason, () => hd, auth)
+  }
+}
+
+// ── delayed withdrawals ──────────────────────────────────────────────────
+
+/** How a withdrawal is held: when its release becomes final, and which card
+ * approved it. */
+interface DelayedSpend {
+  releaseAt: number
+  approvedBy: string
+}
+
+/** The held output a delayed withdrawal is about to create. */
+interface HeldOutput {
+  satoshis: number
+  keyID: string
+  lockingScript: LockingScript
+  /** The other half of the 2-of-2. Lives only as long as the withdrawal call. */
+  holdKey: PrivateKey
+  /** Where the cancel pays. */
+  cancelTarget: DepositTarget
+}
+
+/**
+ * Reserve a delayed withdrawal's held output: the next vault child and a fresh
+ * hold key lock it together (see buildHeldLockingScript), and the child after
+ * that is where its cancel will pay. Both indexes are taken before anything is
+ * signed, like any deposit's, so a cancel never has to reserve one later.
+ */
+async function prepareHold(getHd: VaultKeySource, satoshis: number): Promise<HeldOutput> {
+  const hd = getHd()
+  const index = await vaultStore.takeNextIndex()
+  if (index == null) throw new VaultError('not-enrolled', 'Vault is not set up')
+  const holdKey = new PrivateKey(randomBytes(32))
+  return {
+    satoshis,
+    keyID: bip32KeyID(index),
+    lockingScript: buildHeldLockingScript({
+      vaultPublicKey: depositPubKey(hd, index),
+      holdPublicKey: holdKey.toPublicKey().encode(true) as number[]
+    }),
+    holdKey,
+    cancelTarget: await nextDepositTarget(getHd())
+  }
+}
+
+/**
+ * Record a signed delayed withdrawal, presigning both ways out of its held
+ * output while the hold key still exists.
+ *
+ * Runs PAST THE POINT OF NO ABORT: the withdrawal is already with the monitor,
+ * so a failure to sign the release must not throw — the hold is recorded
+ * without one, and the cancel is its way out. The cancel is signed first and
+ * needs nothing but the key in hand, so it is always there.
+ */
+async function holdWithdrawal(
+  w: VaultWallet,
+  adminOriginator: string,
+  txid: string,
+  held: HeldOutput,
+  getHd: VaultKeySource,
+  delay: DelayedSpend
+): Promise<DelayedWithdrawal> {
+  const cancel = new Transaction(
+    1,
+    [{ sourceTXID: txid, sourceOutputIndex: 0, sequence: 0xffffffff }],
+    [
+      {
+        satoshis: held.satoshis - delayedReleaseFee(),
+        lockingScript: LockingScript.fromHex(held.cancelTarget.lockingScript)
+      }
+    ],
+    0
+  )
+  const holdSig = signHeldInput(cancel, held.holdKey, held.satoshis, held.lockingScript)
+  cancel.inputs[0].unlockingScript = new UnlockingScript([{ op: holdSig.length, data: holdSig }])
+  const record: DelayedWithdrawal = {
+    v: 1,
+    txid,
+    vout: 0,
+    satoshis: held.satoshis,
+    keyID: held.keyID,
+    holdPublicKey: held.holdKey.toPublicKey().toString(),
+    startedAt: Date.now(),
+    releaseAt: delay.releaseAt,
+    approvedBy: delay.approvedBy,
+    cancel: {
+      rawTx: cancel.toHex(),
+      keyID: held.cancelTarget.instructions.keyID,
+      satoshis: held.satoshis - delayedReleaseFee()
+    }
+  }
+  try {
+    const index = indexFromKeyID(held.keyID)
+    if (index == null) throw new VaultError('bad-derivation-index', `Not a BIP32 vault key: ${held.keyID}`)
+    record.release = await signDelayedRelease(w, adminOriginator, record, held, depositPrivKey(getHd(), index))
+  } catch (e) {
+    console.log('[vault] delayed release not signed; the hold can only be cancelled:', (e as Error)?.message)
+  }
+  await delayedWithdrawalStore.put(record)
+  return record
+}
+
+/**
+ * One signature over input 0 of a held output's release or cancel, in checksig
+ * form. Made by hand rather than through a template: the 2-of-2 takes two, and
+ * the cancel's two are made at different times.
+ */
+function signHeldInput(tx: Transaction, key: PrivateKey, satoshis: number, heldScript: LockingScript): number[] {
+  const input = tx.inputs[0]
+  const scope = TransactionSignature.SIGHASH_ALL | TransactionSignature.SIGHASH_FORKID
+  const preimage = TransactionSignature.format({
+    sourceTXID: input.sourceTXID as string,
+    sourceOutputIndex: input.sourceOutputIndex,
+    sourceSatoshis: satoshis,
+    transactionVersion: tx.version,
+    otherInputs: [],
+    outputs: tx.outputs,
+    inputIndex: 0,
+    inputSequence: input.sequence ?? 0xffffffff,
+    subscript: heldScript,
+    lockTime: tx.lockTime,
+    scope
+  })
+  const raw = key.sign(Hash.sha256(preimage))
+  return new TransactionSignature(raw.r, raw.s, scope).toChecksigFormat()
+}
+
+/** push(holdSig) push(vaultSig), the 2-of-2's unlock. */
+function heldUnlock(holdSig: number[], vaultSig: number[]): UnlockingScript {
+  return new UnlockingScript([
+    { op: holdSig.length, data: holdSig },
+    { op: vaultSig.length, data: vaultSig }
+  ])
+}
+
+/**
+ * The release: the held output, paid to a fresh BRC-29 key of this wallet's
+ * own, final only from `releaseAt`, and signed by both keys of the 2-of-2.
+ *
+ * nLockTime is a timestamp and the input sequence is below 0xffffffff, which
+ * is what makes the lock time apply at all. The signatures commit to both, so
+ * neither can be moved after the fact. Nodes judge the lock time against
+ * median time past, which trails the clock by about an hour — a release
+ * attempted right at `releaseAt` may be refused as non-final and simply needs
+ * retrying.
+ */
+async function signDelayedRelease(
+  w: VaultWallet,
+  adminOriginator: string,
+  d: DelayedWithdrawal,
+  held: HeldOutput,
+  vaultKey: PrivateKey
+): Promise<DelayedRelease> {
+  const derivationPrefix = Utils.toBase64(randomBytes(10))
+  const derivationSuffix = Utils.toBase64(randomBytes(10))
+  const { publicKey: senderIdentityKey } = await w.getPublicKey({ identityKey: true }, adminOriginator)
+  const { publicKey } = await w.getPublicKey(
+    { protocolID: BRC29_PROTOCOL, keyID: `${derivationPrefix} ${derivationSuffix}`, counterparty: 'self' },
+    adminOriginator
+  )
+  const satoshis = d.satoshis - delayedReleaseFee()
+  const tx = new Transaction(
+    1,
+    [{ sourceTXID: d.txid, sourceOutputIndex: d.vout, sequence: 0xfffffffe }],
+    [{ satoshis, lockingScript: new P2PKH().lock(PublicKey.fromString(publicKey).toAddress()) }],
+    Math.floor(d.releaseAt / 1000)
+  )
+  tx.inputs[0].unlockingScript = heldUnlock(
+    signHeldInput(tx, held.holdKey, d.satoshis, held.lockingScript),
+    signHeldInput(tx, vaultKey, d.satoshis, held.lockingScript)
+  )
+  return { rawTx: tx.toHex(), derivationPrefix, derivationSuffix, senderIdentityKey, satoshis }
+}
+
+/** The held output's listing, with the BEEF its spend or release needs. */
+async function listHeld(
+  w: VaultWallet,
+  adminOriginator: string,
+  d: DelayedWithdrawal
+): Promise<{ held: ListOutputsResult['outputs'][number]; BEEF?: number[] }> {
+  const list = await w.listOutputs(
+    { basket: VAULT_DELAY_BASKET, include: 'entire transactions', includeCustomInstructions: true, limit: 1000 },
+    adminOriginator
+  )
+  const held = list.outputs.find(o => sameOutpoint(o.outpoint) === sameOutpoint(heldOutpoint(d)))
+  if (!held) throw new VaultError('no-transaction', 'The held output is no longer in this wallet')
+  return { held, BEEF: list.BEEF }
+}
+
+/**
+ * Bring this device's hold records and the wallet's own copies of them (each
+ * held output's customInstructions — see delayedWithdrawals.ts) into step:
+ *  - a held output whose record this device lacks (a restored wallet, a new
+ *    device, cleared app data) has it put back here, so it is listed,
+ *    alerted, released and cancellable as if it had started here;
+ *  - a record not yet on its held output is written there, once storage lists
+ *    the output — which is also when internalizeAction may touch it;
+ *  - a record that was on its held output, whose output is gone (released or
+ *    cancelled from another device), is dropped.
+ * Needs no key. The watcher runs it at the start of every pass. Returns the
+ * holds whose output storage lists — the ones a cancel can still reach.
+ */
+export async function syncDelayedWithdrawals(w: VaultWallet, adminOriginator: string): Promise<DelayedWithdrawal[]> {
+  const list = await w.listOutputs(
+    { basket: VAULT_DELAY_BASKET, include: 'entire transactions', includeCustomInstructions: true, limit: 1000 },
+    adminOriginator
+  )
+  const listed = new Set(list.outputs.map(o => sameOutpoint(o.outpoint)))
+  for (const o of list.outputs) {
+    const d = decodeHoldInstructions(o.customInstructions)
+    if (!d || sameOutpoint(heldOutpoint(d)) !== sameOutpoint(o.outpoint)) continue
+    if (!(await delayedWithdrawalStore.get(d.txid))) await delayedWithdrawalStore.put({ ...d, anchored: true })
+  }
+  const open: DelayedWithdrawal[] = []
+  for (const d of await delayedWithdrawalStore.list()) {
+    if (!listed.has(sameOutpoint(heldOutpoint(d)))) {
+      if (d.anchored) await delayedWithdrawalStore.remove(d.txid)
+      continue
+    }
+    open.push(d)
+    if (d.anchored) continue
+    try {
+      await anchorHold(w, adminOriginator, d, list.BEEF)
+      await delayedWithdrawalStore.markAnchored(d.txid)
+    } catch (e) {
+      console.log('[vault] hold record not yet kept with its output:', (e as Error)?.message)
+    }
+  }
+  return open
+}
+
+/**
+ * Write a hold's record onto its held output. internalizeAction of a
+ * transaction storage already has merges a basket insertion into the existing
+ * output, replacing its customInstructions and nothing it spends or pays.
+ */
+async function anchorHold(
+  w: VaultWallet,
+  adminOriginator: string,
+  d: DelayedWithdrawal,
+  BEEF?: number[]
+): Promise<void> {
+  if (!w.internalizeAction) throw new VaultError('no-transaction', 'This wallet cannot keep a hold record')
+  const source = BEEF?.length ? Beef.fromBinary(BEEF).findAtomicTransaction(d.txid) : undefined
+  if (!source) throw new VaultError('no-transaction', `No source transaction for held output ${heldOutpoint(d)}`)
+  await w.internalizeAction(
+    {
+      tx: source.toAtomicBEEF(),
+      description: 'Delayed vault withdrawal',
+      outputs: [
+        {
+          outputIndex: d.vout,
+          protocol: 'basket insertion',
+          insertionRemittance: {
+            basket: VAULT_DELAY_BASKET,
+            customInstructions: encodeHoldInstructions(d),
+            tags: ['vault', 'vault-delayed']
+          }
+        }
+      ],
+      labels: ['vault', 'vault-delayed']
+    },
+    adminOriginator
+  )
+}
+
+/** A hold's record: this device's copy, else the one its held output carries. */
+async function requireDelayed(w: VaultWallet, adminOriginator: string, txid: string): Promise<DelayedWithdrawal> {
+  let d = await delayedWithdrawalStore.get(txid)
+  if (!d) {
+    await syncDelayedWithdrawals(w, adminOriginator)
+    d = await delayedWithdrawalStore.get(txid)
+  }
+  if (!d) throw new VaultError('no-transaction', 'No such delayed withdrawal')
+  return d
+}
+
+/**
+ * Finish a delayed withdrawal once its window has passed: broadcast the
+ * presigned release and take its output into the default basket. Needs no
+ * key — the release was signed at the withdrawal's own tap.
+ */
+export async function releaseDelayedWithdrawal(
+  w: VaultWallet,
+  adminOriginator: string,
+  txid: string,
+  opts?: VaultTransferOptions
+): Promise<{ txid: string }> {
+  await requireOnline(opts)
+  const d = await requireDelayed(w, adminOriginator, txid)
+  if (!releaseDue(d)) throw new VaultError('withdrawal-held', 'This withdrawal is still in its cancellation window')
+  if (!d.release || !w.internalizeAction) {
+    throw new VaultError('no-transaction', 'This withdrawal has no signed release; cancel it instead')
+  }
+
+  const { BEEF } = await listHeld(w, adminOriginator, d)
+  const source = BEEF?.length ? Beef.fromBinary(BEEF).findAtomicTransaction(d.txid) : undefined
+  if (!source) throw new VaultError('no-transaction', `No source transaction for held output ${heldOutpoint(d)}`)
+  const release = Transaction.fromHex(d.release.rawTx)
+  release.inputs[0].sourceTransaction = source
+
+  // internalizeAction broadcasts a transaction the wallet has not seen, and a
+  // refusal (non-final, or the held output already spent by a cancel) throws
+  // here with the record untouched, so the caller can retry or cancel.
+  await w.internalizeAction(
+    {
+      tx: release.toAtomicBEEF(),
+      description: 'Vault withdrawal',
+      outputs: [
+        {
+          outputIndex: 0,
+          protocol: 'wallet payment',
+          paymentRemittance: {
+            derivationPrefix: d.release.derivationPrefix,
+            derivationSuffix: d.release.derivationSuffix,
+            senderIdentityKey: d.release.senderIdentityKey
+          }
+        }
+      ],
+      labels: ['vault', 'vault-release']
+    },
+    adminOriginator
+  )
+  // The wallet does not track an output's spend from an internalized
+  // transaction's inputs, so drop the held output by hand.
+  await w
+    .relinquishOutput?.({ basket: VAULT_DELAY_BASKET, output: heldOutpoint(d) }, adminOriginator)
+    .catch(e => console.log('[vault] relinquish held output failed:', (e as Error)?.message))
+  await delayedWithdrawalStore.remove(d.txid)
+  const releaseTxid = release.id('hex')
+  await recordVaultMovement({
+    txid: releaseTxid,
+    kind: 'release',
+    satoshis: d.release.satoshis,
+    fee: delayedReleaseFee(),
+    auth: { method: 'presigned', serials: [d.approvedBy], at: d.startedAt }
+  })
+  return { txid: releaseTxid }
+}
+
+/**
+ * Send a delayed withdrawal back into the vault with a tap from any enrolled
+ * key EXCEPT the one that approved it. Refused before the tap when the vault
+ * has no other key — cancelDelayedWithdrawalWithHD is the way out then.
+ */
+export async function cancelDelayedWithdrawal(
+  w: VaultWallet,
+  adminOriginator: string,
+  txid: string,
+  reason: string,
+  opts?: VaultTransferOptions
+): Promise<{ txid: string }> {
+  await requireOnline(opts)
+  const d = await requireDelayed(w, adminOriginator, txid)
+  const meta = await vaultStore.getMeta()
+  if (!meta) throw new VaultError('not-enrolled', 'Vault is not set up')
+  if (!enrolledKeys(meta).some(k => k.yubiSerial !== d.approvedBy)) {
+    throw new VaultError('same-key', 'Only the key that approved this withdrawal is enrolled')
+  }
+
+  const handle = await requestVaultKey(reason, { excludeSerials: [d.approvedBy] })
+  try {
+    // As in requestCoSignedKey: a request that joined someone else's ceremony
+    // runs on that ceremony's options, so check the card that answered.
+    if (handle.serial === d.approvedBy) {
+      throw new VaultError('same-key', 'Cancel with a different key than the one that approved the withdrawal')
+    }
+    return await returnHeldToVault(w, adminOriginator, d, reason, () => handle.hd, keyAuthorization(handle))
+  } finally {
+    handle.release()
+  }
+}
+
+/** The recovery route for a cancel: the vault node from mnemonic + passphrase,
+ * no card at all. A mistyped passphrase fails returnHeldToVault's wrong-key check. */
+export async function cancelDelayedWithdrawalWithHD(
+  w: VaultWallet,
+  adminOriginator: string,
+  txid: string,
+  hd: HD,
+  reason: string,
+  opts?: VaultTransferOptions
+): Promise<{ txid: string }> {
+  await requireOnline(opts)
+  const d = await requireDelayed(w, adminOriginator, txid)
+  return await returnHeldToVault(w, adminOriginator, d, reason, () => hd, {
+    method: 'recovery',
+    serials: [],
+    at: Date.now()
+  })
+}
+
+/**
+ * Finish the presigned cancel with the vault key in hand and broadcast it at
+ * once, taking its output into the vault basket.
+ *
+ * Undelayed on purpose: the cancel is racing the presigned release, and only
+ * a cancel that reaches the network before the window ends is sure to win.
+ */
+async function returnHeldToVault(
+  w: VaultWallet,
+  adminOriginator: string,
+  d: DelayedWithdrawal,
+  reason: string,
+  getHd: VaultKeySource,
+  auth: VaultAuthorization
+): Promise<{ txid: string }> {
+  if (!w.internalizeAction) throw new VaultError('no-transaction', 'This wallet cannot broadcast a cancel')
+  noteVaultProgress({ phase: 'preparing' })
+  const { BEEF } = await listHeld(w, adminOriginator, d)
+  const source = BEEF?.length ? Beef.fromBinary(BEEF).findAtomicTransaction(d.txid) : undefined
+  const heldScript = source?.outputs[d.vout]?.lockingScript
+  if (!source || !heldScript) {
+    throw new VaultError('no-transaction', `No source transaction for held output ${heldOutpoint(d)}`)
+  }
+
+  // The same wrong-key check as prepareSpends, against the 2-of-2 the hold
+  // recorded: a signature from any other vault child would simply fail the
+  // script, but only after a broadcast the user waited on.
+  const index = indexFromKeyID(d.keyID)
+  if (index == null) throw new VaultError('bad-derivation-index', `Not a BIP32 vault key: ${d.keyID}`)
+  const mine = buildHeldLockingScript({
+    vaultPublicKey: depositPubKey(getHd(), index),
+    holdPublicKey: Utils.toArray(d.holdPublicKey, 'hex')
+  })
+  if (mine.toHex() !== heldScript.toHex()) {
+    throw new VaultError(
+      'wrong-key',
+      'This vault output was locked to a different key — wrong YubiKey, or wrong vault passphrase'
+    )
+  }
+
+  // Rebuilt rather than patched in place: a parsed transaction serialises
+  // from the bytes it was parsed from.
+  const presigned = Transaction.fromHex(d.cancel.rawTx)
+  const holdSig = presigned.inputs[0].unlockingScript?.chunks[0]?.data
+  if (!holdSig) throw new VaultError('no-transaction', 'The presigned cancel carries no hold signature')
+  const cancel = new Transaction(
+    presigned.version,
+    [{ sourceTXID: d.txid, sourceTransaction: source, sourceOutputIndex: d.vout, sequence: presigned.inputs[0].sequence }],
+    presigned.outputs,
+    presigned.lockTime
+  )
+  cancel.inputs[0].unlockingScript = heldUnlock(
+    holdSig,
+    signHeldInput(cancel, depositPrivKey(getHd(), index), d.satoshis, heldScript)
+  )
+
+  noteVaultProgress({ phase: 'broadcasting' })
+  await w.internalizeAction(
+    {
+      tx: cancel.toAtomicBEEF(),
+      description: reason,
+      outputs: [
+        {
+          outputIndex: 0,
+          protocol: 'basket insertion',
+          insertionRemittance: {
+            basket: VAULT_BASKET,
+            customInstructions: encodeVaultInstructions({ v: 3, type: 'K1', keyID: d.cancel.keyID }),
+            tags: ['vault']
+          }
+        }
+      ],
+      labels: ['vault', 'vault-cancel']
+    },
+    adminOriginator
+  )
+  // As for the release: the held output's spend is not tracked from an
+  // internalized transaction, so drop it by hand.
+  await w
+    .relinquishOutput?.({ basket: VAULT_DELAY_BASKET, output: heldOutpoint(d) }, adminOriginator)
+    .catch(e => console.log('[vault] relinquish held output failed:', (e as Error)?.message))
+  await delayedWithdrawalStore.remove(d.txid)
+  const txid = cancel.id('hex')
+  await recordVaultMovement({
+    txid,
+    kind: 'cancel',
+    satoshis: d.cancel.satoshis,
+    fee: d.satoshis - d.cancel.satoshis,
+    auth
+  })
+  return { txid }
+}
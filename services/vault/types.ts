@@ -4,7 +4,8 @@
  */
 
 /** Persisted seal: everything needed to recover the vault key EXCEPT the
- * on-token ECDH. The blob alone is useless without the physical YubiKey. */
+ * on-token ECDH. The blob alone is useless without the physical YubiKey it
+ * was sealed to. */
 export interface SealedBlob {
   v: 1
   /** PIV slot holding the P-256 key (0x82, first "retired" slot). */
@@ -15,7 +16,9 @@ export interface SealedBlob {
   salt: string
   /** AES-256-GCM ciphertext of the vault key (SymmetricKey wire format), hex. */
   c: string
-  /** Serial of the enrolled YubiKey — ceremony rejects other keys early. */
+  /** Serial of the YubiKey this blob is sealed to. A vault with several keys
+   * holds one blob per key; the ceremony picks the blob by the tapped card's
+   * serial and rejects cards with none early. */
   yubiSerial: string
   /** sha256 of the token public key, hex — sanity check against slot rewrites. */
   yubiPubSha256: string
@@ -68,6 +71,23 @@ export type VaultErrorCode =
   /** The device is offline. Vault transfers never enter the offline queue — see
    *  VaultTransferOptions.isOnline. */
   | 'requires-online'
+  /** The card being added is already one of this vault's enrolled keys. */
+  | 'key-already-enrolled'
+  /** Removing this key would leave the vault with no card that can open it. */
+  | 'last-key'
+  /** A co-signed operation's second tap came from the key that gave the first. */
+  | 'same-key'
+  /** The co-sign policy needs more enrolled keys than the vault would have —
+   *  see VAULT_COSIGN_MIN_KEYS. */
+  | 'co-sign-needs-keys'
+  /** A delayed withdrawal's release was attempted before its window ended, or
+   * the vault was to be disabled with one still open. */
+  | 'withdrawal-held'
+  /** Watch-only mode had no pre-derived deposit address left to draw. */
+  | 'watch-pool-empty'
+  /** A pre-derived deposit address failed its integrity check: the pool was
+   * altered on this device, or its key is gone. */
+  | 'watch-pool-tampered'
 
 export class VaultError extends Error {
   code: VaultErrorCode
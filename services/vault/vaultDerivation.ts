@@ -16,7 +16,8 @@
  * ever public at rest: the vault stores a YubiKey-sealed seed and a bare
  * `nextKeyIndex` counter, nothing else. Deposit address n derives from the
  * private HD node, which exists only transiently, after one of the two
- * recovery routes below reaches it.
+ * recovery routes below reaches it. The one opt-in exception is watch-only
+ * mode, which keeps a bounded run of future deposit hashes (watchOnly.ts).
  *
  * Recovery paths, and there are exactly two:
  *   1. YubiKey-unseal of the sealed seed  — the YubiKey unwraps the seed,
@@ -142,11 +143,29 @@ export function depositPrivKey(hd: HD, index: number): PrivateKey {
   return hd.deriveChild(index).privKey
 }
 
+/** Compressed public key for index n. Same requirement as depositPubKeyHash. */
+export function depositPubKey(hd: HD, index: number): number[] {
+  assertNonHardened(index)
+  return hd.deriveChild(index).pubKey.encode(true) as number[]
+}
+
 /**
  * Deposit address hash160 for index n. Requires the private node — there is
  * no xpub to derive this from without it.
  */
 export function depositPubKeyHash(hd: HD, index: number): number[] {
-  assertNonHardened(index)
-  return Hash.hash160(hd.deriveChild(index).pubKey.encode(true) as number[])
+  return Hash.hash160(depositPubKey(hd, index))
+}
+
+/** Child the watch-only pool's MAC key derives from. Hardened, so no deposit
+ * index — always non-hardened — can ever name it. */
+const WATCH_POOL_MAC_INDEX = HARDENED + 0x5741
+
+/**
+ * The key the watch-only pool's entries are MAC'd with (watchOnly.ts).
+ * Requires the private node, so it can only be produced at a tap; the device
+ * keeps its copy in SecureStore, never beside the pool.
+ */
+export function watchPoolMacKey(hd: HD): number[] {
+  return Hash.sha256(hd.deriveChild(WATCH_POOL_MAC_INDEX).privKey.toArray('be', 32))
 }
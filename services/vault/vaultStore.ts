@@ -15,10 +15,19 @@
  * v1-v3 records are not readable — `getMeta` returns null for anything whose
  * `v` isn't 4, so an un-migrated install reads as "not enrolled" rather than
  * deserialising into something this code would misuse.
+ *
+ * Several keys: the vault key can be sealed to more than one YubiKey. The
+ * first key keeps the v4 top-level fields and the original seal item; each
+ * further key is an `extraKeys` entry whose seal lives in its own SecureStore
+ * item ('vault_seal_v1_<serial>'), one small item per key rather than one
+ * growing array, since SecureStore warns on values past 2 KB. Both fields are
+ * optional, so a single-key v4 record written before them reads unchanged.
  */
 import AsyncStorage from '@react-native-async-storage/async-storage'
 import * as SecureStore from 'expo-secure-store'
-import { SealedBlob } from './types'
+import { SealedBlob, VaultError } from './types'
+import { noteVaultSealing, type VaultSealing } from './driver'
+import { isSoftwareKeySerial } from './softwareKey'
 
 const SEAL_KEY = 'vault_seal_v1'
 const META_KEY = 'vault_meta_v1'
@@ -40,10 +49,80 @@ export interface VaultMetaV4 {
   /** Next unused deposit index — monotonic, never reused. */
   nextKeyIndex: number
   lastUsedAt?: number
+  /** Keys enrolled after the first, each with its own seal of the SAME vault
+   * seed. Absent on a single-key vault. */
+  extraKeys?: VaultKeyRecord[]
+  /** Two-key policy for large withdrawals. Absent when off. */
+  coSign?: VaultCoSignPolicy
+  /** Hold withdrawals for a cancellation window. Absent when off. */
+  withdrawalDelay?: VaultWithdrawalDelay
 }
 
 export type VaultMeta = VaultMetaV4
 
+/** One enrolled YubiKey, as listed in the UI. Its seal is stored apart. */
+export interface VaultKeyRecord {
+  yubiSerial: string
+  nickname: string
+  slot: number
+  enrolledAt: number
+}
+
+/**
+ * Withdrawals of more than `above` satoshis need taps from two distinct
+ * enrolled keys (see coSign.ts).
+ *
+ * Every key's seal opens the same vault key, so this is enforced by the app,
+ * not by the cryptography: it stops a thief holding one key and its PIN from
+ * draining the vault through this app, not someone who can run modified code
+ * — and the mnemonic + passphrase route bypasses it by design.
+ */
+export interface VaultCoSignPolicy {
+  above: number
+}
+
+/**
+ * Withdrawals wait `hours` in a held output before reaching the everyday
+ * balance, and can be sent back into the vault meanwhile (see
+ * delayedWithdrawals.ts). Like the co-sign policy this is the app's rule, not
+ * the chain's: it slows down a thief working through this app.
+ */
+export interface VaultWithdrawalDelay {
+  hours: number
+}
+
+/** Every enrolled key, the first one first. */
+export function enrolledKeys(meta: VaultMeta): VaultKeyRecord[] {
+  const first: VaultKeyRecord = {
+    yubiSerial: meta.yubiSerial,
+    nickname: meta.nickname,
+    slot: meta.slot,
+    enrolledAt: meta.enrolledAt
+  }
+  return [first, ...(meta.extraKeys ?? [])]
+}
+
+/** What a vault is sealed to: software only when every key is a software
+ * key, since any YubiKey among them is what the vault must keep asking for. */
+export function sealingOf(meta: VaultMeta | null): VaultSealing {
+  if (!meta) return 'none'
+  return enrolledKeys(meta).every(k => isSoftwareKeySerial(k.yubiSerial)) ? 'software' : 'hardware'
+}
+
+/** SecureStore keys allow only alphanumerics, '.', '-' and '_'. */
+function extraSealKey(serial: string): string {
+  return `${SEAL_KEY}_${serial.replace(/[^A-Za-z0-9._-]/g, '_')}`
+}
+
+function parseSeal(raw: string | null): SealedBlob | null {
+  if (!raw) return null
+  try {
+    return JSON.parse(raw) as SealedBlob
+  } catch {
+    return null
+  }
+}
+
 const secureOpts = { keychainAccessible: SecureStore.AFTER_FIRST_UNLOCK_THIS_DEVICE_ONLY }
 
 export const vaultStore = {
@@ -52,14 +131,25 @@ export const vaultStore = {
     return meta != null && seal != null
   },
 
+  /** The first key's seal. */
   async getSeal(): Promise<SealedBlob | null> {
-    const raw = await SecureStore.getItemAsync(SEAL_KEY, secureOpts)
-    if (!raw) return null
-    try {
-      return JSON.parse(raw) as SealedBlob
-    } catch {
-      return null
-    }
+    return parseSeal(await SecureStore.getItemAsync(SEAL_KEY, secureOpts))
+  },
+
+  /**
+   * Every enrolled key's seal, the first key's first. A listed key whose seal
+   * is missing is skipped rather than failing the whole read — that is the
+   * state an interrupted removeKey leaves, and the key is on its way out.
+   */
+  async getSeals(): Promise<SealedBlob[]> {
+    const [meta, first] = await Promise.all([vaultStore.getMeta(), vaultStore.getSeal()])
+    if (!meta || !first) return []
+    const extras = await Promise.all(
+      (meta.extraKeys ?? []).map(async k =>
+        parseSeal(await SecureStore.getItemAsync(extraSealKey(k.yubiSerial), secureOpts))
+      )
+    )
+    return [first, ...extras.filter((b): b is SealedBlob => b != null)]
   },
 
   async setSeal(b: SealedBlob): Promise<void> {
@@ -68,17 +158,20 @@ export const vaultStore = {
 
   async getMeta(): Promise<VaultMeta | null> {
     const raw = await AsyncStorage.getItem(META_KEY)
-    if (!raw) return null
-    try {
-      const parsed = JSON.parse(raw) as { v?: unknown }
-      return parsed?.v === 4 ? (parsed as VaultMeta) : null
-    } catch {
-      return null
+    let meta: VaultMeta | null = null
+    if (raw) {
+      try {
+        const parsed = JSON.parse(raw) as { v?: unknown }
+        if (parsed?.v === 4) meta = parsed as VaultMeta
+      } catch {}
     }
+    noteVaultSealing(sealingOf(meta))
+    return meta
   },
 
   async setMeta(m: VaultMeta): Promise<void> {
     await AsyncStorage.setItem(META_KEY, JSON.stringify(m))
+    noteVaultSealing(sealingOf(m))
   },
 
   /**
@@ -88,17 +181,87 @@ export const vaultStore = {
    * index, since two deposits to the same K1 key are linkable and confusing.
    */
   async takeNextIndex(): Promise<number | null> {
+    return vaultStore.reserveIndices(1)
+  },
+
+  /**
+   * Reserve `count` consecutive deposit indices and return the first — the
+   * watch-only pool's pre-derivation (see watchOnly.ts). Persisted before
+   * returning, as takeNextIndex is.
+   */
+  async reserveIndices(count: number): Promise<number | null> {
+    if (!Number.isSafeInteger(count) || count < 1) throw new RangeError('count must be a positive integer')
     const meta = await vaultStore.getMeta()
     if (!meta) return null
     const index = meta.nextKeyIndex
-    await vaultStore.setMeta({ ...meta, nextKeyIndex: index + 1 })
+    await vaultStore.setMeta({ ...meta, nextKeyIndex: index + count })
     return index
   },
 
-  /** Remove everything, including the sealed blob — used by disable +
+  /**
+   * Enroll a further key. Seal first, for the same reason as
+   * finalizeEnrollment: a crash in between leaves an unlisted seal nothing
+   * reads, never a listed key without one.
+   */
+  async addKey(record: VaultKeyRecord, seal: SealedBlob): Promise<void> {
+    const meta = await vaultStore.getMeta()
+    if (!meta) throw new VaultError('not-enrolled')
+    if (enrolledKeys(meta).some(k => k.yubiSerial === record.yubiSerial)) {
+      throw new VaultError('key-already-enrolled')
+    }
+    await SecureStore.setItemAsync(extraSealKey(record.yubiSerial), JSON.stringify(seal), secureOpts)
+    await vaultStore.setMeta({ ...meta, extraKeys: [...(meta.extraKeys ?? []), record] })
+  },
+
+  /**
+   * Drop a key and its seal from this device.
+   *
+   * The seal goes first: a removed key must stop opening the vault even if
+   * the meta write never lands. Removing the first key promotes the next one
+   * into the v4 top-level fields, its seal copied into the first key's item
+   * before its own is deleted — interrupted anywhere, every remaining key
+   * still has a readable seal.
+   *
+   * This device only. A key also enrolled on another device keeps opening
+   * that device's own seal until it is removed there too.
+   */
+  async removeKey(serial: string): Promise<void> {
+    const meta = await vaultStore.getMeta()
+    if (!meta) throw new VaultError('not-enrolled')
+    const keys = enrolledKeys(meta)
+    if (!keys.some(k => k.yubiSerial === serial)) throw new VaultError('not-enrolled')
+    if (keys.length === 1) throw new VaultError('last-key')
+
+    if (meta.yubiSerial !== serial) {
+      await SecureStore.deleteItemAsync(extraSealKey(serial)).catch(() => {})
+      await vaultStore.setMeta({ ...meta, extraKeys: meta.extraKeys!.filter(k => k.yubiSerial !== serial) })
+      return
+    }
+
+    const [next, ...rest] = meta.extraKeys!
+    const nextSeal = parseSeal(await SecureStore.getItemAsync(extraSealKey(next.yubiSerial), secureOpts))
+    if (!nextSeal) throw new VaultError('not-enrolled', 'The next key has no seal on this device')
+    await vaultStore.setSeal(nextSeal)
+    await vaultStore.setMeta({
+      ...meta,
+      yubiSerial: next.yubiSerial,
+      nickname: next.nickname,
+      slot: next.slot,
+      enrolledAt: next.enrolledAt,
+      extraKeys: rest.length > 0 ? rest : undefined
+    })
+    await SecureStore.deleteItemAsync(extraSealKey(next.yubiSerial)).catch(() => {})
+  },
+
+  /** Remove everything, including every sealed blob — used by disable +
    * recovery flows. */
   async clear(): Promise<void> {
+    const meta = await vaultStore.getMeta()
+    for (const k of meta?.extraKeys ?? []) {
+      await SecureStore.deleteItemAsync(extraSealKey(k.yubiSerial)).catch(() => {})
+    }
     await SecureStore.deleteItemAsync(SEAL_KEY).catch(() => {})
     await AsyncStorage.removeItem(META_KEY)
+    noteVaultSealing('none')
   }
 }
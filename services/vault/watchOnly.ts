@@ -0,0 +1,236 @@
+/**
+ * Watch-only vault — an opt-in pool of pre-derived deposit addresses.
+ *
+ * By default nothing about the vault is public at rest (see vaultDerivation.ts):
+ * every deposit address is a child of the PRIVATE vault node, so each deposit
+ * costs a tap. Watch-only mode trades a little of that for convenience. One
+ * ceremony derives a bounded run of future deposit indices and stores each
+ * one's public-key hash here; deposits then draw from the pool with no card at
+ * all, and the vault's outputs can be checked against it without one.
+ *
+ * What the pool gives away: anyone who can read this device's storage learns
+ * the addresses of the next few deposits, and so can link them. It gives no
+ * spending power — a hash160 is not a key, and withdrawing still needs the card
+ * or the mnemonic + passphrase. The pool is bounded (VAULT_WATCH_POOL_MAX) so
+ * the exposure is too; turning the mode off deletes every address not yet
+ * drawn, which is all of it that still points at a future deposit.
+ *
+ * Indices are reserved from the vault's own counter as they are pre-derived
+ * (vaultStore.reserveIndices), so a tapped deposit or a re-vaulted remainder
+ * never reissues a pooled address. An address is burned as it is drawn, like
+ * nextDepositTarget's index, and stays listed with the deposit that used it so
+ * that deposit can still be verified later.
+ *
+ * Every fill is kept as a batch — when, which indices, which card — which is
+ * the audit of exactly what was ever pre-derived on this device. Batches and
+ * drawn addresses outlive turning the mode off; only disabling the vault
+ * removes them.
+ *
+ * The pool sits in AsyncStorage, which anything able to write this device's
+ * storage can change — and a swapped hash would send the next deposit to
+ * someone else's key with no tap to catch it. So each address and each batch
+ * carries an HMAC under a key derived from the vault node at the filling tap
+ * (watchPoolMacKey), and that key is kept in SecureStore, not beside the pool.
+ * A draw refuses an address whose MAC does not check out, and the watched
+ * balance trusts only addresses whose MAC does.
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage'
+import * as SecureStore from 'expo-secure-store'
+import { Hash, Utils } from '@bsv/sdk'
+import { VaultError } from './types'
+
+export const WATCH_POOL_KEY = 'vault_watch_pool_v1'
+/** SecureStore entry holding the pool's MAC key, hex. */
+export const WATCH_POOL_MAC_KEY = 'vault_watch_mac_v1'
+
+/** Unused addresses a fill tops the pool up to, unless asked for another size. */
+export const VAULT_WATCH_POOL_SIZE = 20
+/** Ceiling on unused addresses — the bound on what the pool exposes. */
+export const VAULT_WATCH_POOL_MAX = 100
+/** At or below this many unused addresses the vault screen warns. */
+export const VAULT_WATCH_POOL_LOW = 5
+
+export interface WatchAddress {
+  index: number
+  /** hash160 of the compressed child public key, hex. */
+  pkh: string
+  /** Set when a deposit drew it; unset, it is still available. */
+  takenAt?: number
+  /** The deposit that used it, once that deposit was signed. */
+  txid?: string
+  /** HMAC of index and pkh under the pool key, hex. */
+  mac: string
+}
+
+/** One pre-derivation: indices from..from+count-1, approved by one card. */
+export interface WatchBatch {
+  at: number
+  from: number
+  count: number
+  approvedBy: string
+  /** HMAC of the fields above under the pool key, hex. */
+  mac: string
+}
+
+export interface VaultWatchPool {
+  v: 1
+  addresses: WatchAddress[]
+  batches: WatchBatch[]
+  /** Set while the mode is off: only drawn addresses are left. Absent on
+   * records written before the mode could be turned off without deleting. */
+  off?: boolean
+}
+
+export interface WatchPoolStatus {
+  /** Unused addresses left. */
+  remaining: number
+  low: boolean
+}
+
+export function watchPoolStatus(pool: VaultWatchPool): WatchPoolStatus {
+  const remaining = pool.addresses.filter(a => a.takenAt == null).length
+  return { remaining, low: remaining <= VAULT_WATCH_POOL_LOW }
+}
+
+const secureOpts = { keychainAccessible: SecureStore.AFTER_FIRST_UNLOCK_THIS_DEVICE_ONLY }
+
+const hmac = (key: number[], message: string) => Utils.toHex(Hash.sha256hmac(key, Utils.toArray(message, 'utf8')))
+
+const addressMac = (key: number[], a: Pick<WatchAddress, 'index' | 'pkh'>) =>
+  hmac(key, `vault watch address:${a.index}:${a.pkh}`)
+
+const batchMac = (key: number[], b: Omit<WatchBatch, 'mac'>) =>
+  hmac(key, `vault watch batch:${b.at}:${b.from}:${b.count}:${b.approvedBy}`)
+
+function sameMac(a: unknown, b: string): boolean {
+  if (typeof a !== 'string' || a.length !== b.length) return false
+  let diff = 0
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i)
+  return diff === 0
+}
+
+async function readMacKey(): Promise<number[] | null> {
+  const hex = await SecureStore.getItemAsync(WATCH_POOL_MAC_KEY, secureOpts)
+  return hex && /^[0-9a-f]{64}$/.test(hex) ? Utils.toArray(hex, 'hex') : null
+}
+
+/** The pool's entries split by whether their MACs check out. With no key on
+ * the device nothing does. */
+export interface WatchPoolCheck {
+  addresses: WatchAddress[]
+  /** Indices of addresses whose MAC failed. */
+  forgedAddresses: number[]
+  /** Starting indices of batches whose MAC failed. */
+  forgedBatches: number[]
+}
+
+let queueLock: Promise<unknown> = Promise.resolve()
+
+function withQueueLock<T>(fn: () => Promise<T>): Promise<T> {
+  const run = queueLock.then(fn, fn)
+  queueLock = run.catch(() => undefined)
+  return run
+}
+
+async function read(): Promise<VaultWatchPool | null> {
+  const raw = await AsyncStorage.getItem(WATCH_POOL_KEY)
+  if (!raw) return null
+  try {
+    const parsed = JSON.parse(raw) as VaultWatchPool
+    return parsed?.v === 1 && Array.isArray(parsed.addresses) && Array.isArray(parsed.batches) ? parsed : null
+  } catch {
+    return null
+  }
+}
+
+const write = (pool: VaultWatchPool) => AsyncStorage.setItem(WATCH_POOL_KEY, JSON.stringify(pool))
+
+export const watchPoolStore = {
+  /** The pool, or null when watch-only mode is off. */
+  async get(): Promise<VaultWatchPool | null> {
+    const pool = await read()
+    return pool && !pool.off ? pool : null
+  },
+
+  /** Every batch and drawn address ever kept, whether or not the mode is on;
+   * null when there never was a pool. */
+  async history(): Promise<VaultWatchPool | null> {
+    return read()
+  },
+
+  /** Append one pre-derived run and its batch record, MAC'd under `macKey`
+   * (watchPoolMacKey of the node that derived them), turning the mode on if it
+   * was off. The key is kept in SecureStore for later draws to check against. */
+  async add(
+    batch: Omit<WatchBatch, 'mac'>,
+    addresses: Pick<WatchAddress, 'index' | 'pkh'>[],
+    macKey: number[]
+  ): Promise<void> {
+    await withQueueLock(async () => {
+      await SecureStore.setItemAsync(WATCH_POOL_MAC_KEY, Utils.toHex(macKey), secureOpts)
+      const pool = await read()
+      await write({
+        v: 1,
+        addresses: [...(pool?.addresses ?? []), ...addresses.map(a => ({ ...a, mac: addressMac(macKey, a) }))],
+        batches: [...(pool?.batches ?? []), { ...batch, mac: batchMac(macKey, batch) }]
+      })
+    })
+  },
+
+  /** Check every entry of `pool` against the key in SecureStore. */
+  async check(pool: VaultWatchPool): Promise<WatchPoolCheck> {
+    const key = await readMacKey()
+    const addresses = key ? pool.addresses.filter(a => sameMac(a.mac, addressMac(key, a))) : []
+    return {
+      addresses,
+      forgedAddresses: pool.addresses.filter(a => !addresses.includes(a)).map(a => a.index),
+      forgedBatches: pool.batches.filter(b => !key || !sameMac(b.mac, batchMac(key, b))).map(b => b.from)
+    }
+  },
+
+  /** Draw the lowest unused address, burning it. Null when the mode is off or
+   * the pool is spent.
+   * @throws VaultError('watch-pool-tampered') when that address's MAC does not
+   * check out — nothing is burned, and no deposit may go to it. */
+  async take(): Promise<WatchAddress | null> {
+    return withQueueLock(async () => {
+      const pool = await read()
+      if (pool?.off) return null
+      const next = pool?.addresses.filter(a => a.takenAt == null).sort((a, b) => a.index - b.index)[0]
+      if (!pool || !next) return null
+      const key = await readMacKey()
+      if (!key || !sameMac(next.mac, addressMac(key, next))) {
+        throw new VaultError('watch-pool-tampered', 'A prepared deposit address failed its integrity check')
+      }
+      const taken = { ...next, takenAt: Date.now() }
+      await write({ ...pool, addresses: pool.addresses.map(a => (a.index === next.index ? taken : a)) })
+      return taken
+    })
+  },
+
+  async noteDeposit(index: number, txid: string): Promise<void> {
+    await withQueueLock(async () => {
+      const pool = await read()
+      if (!pool) return
+      await write({ ...pool, addresses: pool.addresses.map(a => (a.index === index ? { ...a, txid } : a)) })
+    })
+  },
+
+  /** Turn watch-only mode off: forget every address not yet drawn, keeping
+   * the batches and the drawn addresses with their deposits. */
+  async turnOff(): Promise<void> {
+    await withQueueLock(async () => {
+      const pool = await read()
+      if (!pool) return
+      await write({ ...pool, addresses: pool.addresses.filter(a => a.takenAt != null), off: true })
+    })
+  },
+
+  /** Forget the pool, its history and its key — the vault itself is going. */
+  async clear(): Promise<void> {
+    await withQueueLock(async () => {
+      await AsyncStorage.removeItem(WATCH_POOL_KEY)
+      await SecureStore.deleteItemAsync(WATCH_POOL_MAC_KEY, secureOpts).catch(() => {})
+    })
+  }
+}
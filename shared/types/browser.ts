@@ -25,6 +25,41 @@ export type Tab = {
   // (which caches by URI) reloads the new bitmap — the file path is constant per
   // tab, so without this an overwritten thumbnail keeps showing the stale image.
   thumbnailVersion?: number
+  // Private tab: never persisted, recorded in history or snapshotted, and loaded
+  // in a non-persistent cookie/storage jar (see WebViewHost).
+  isPrivate?: boolean
+  // Private tabs only. The user let this tab see window.CWI; off by default so a
+  // site can't tie the private session to the wallet's identity key.
+  privateWalletEnabled?: boolean
+  // The TabGroup this tab belongs to, if any.
+  groupId?: string
 }
-export type HistoryEntry = { title: string; url: string; timestamp: number }
-export type Bookmark = { title: string; url: string; added: number }
+export type TabGroup = {
+  id: string
+  title: string
+  // One of TAB_GROUP_COLORS.
+  color: string
+  collapsed: boolean
+  // Set when the group is a container: a DNS-label-safe key (from the title at
+  // the time it was made one) that scopes its pages' wallet originator, and
+  // gives them a cookie jar apart from the default one.
+  container?: string
+}
+export type HistoryEntry = {
+  title: string
+  url: string
+  // Last visit.
+  timestamp: number
+  // Set on entries read from the history database (utils/history/historyStore.ts).
+  visitCount?: number
+}
+export type Bookmark = {
+  title: string
+  url: string
+  added: number
+  // Containing folder; null/absent is the top level. Order among siblings is
+  // the order in BookmarkStore.bookmarks.
+  folderId?: string | null
+  tags?: string[]
+}
+export type BookmarkFolder = { id: string; title: string; parentId: string | null; added: number }
@@ -1,14 +1,42 @@
 // stores/BookmarkStore.tsx
 import { makeAutoObservable } from 'mobx'
-import { Bookmark } from '@/shared/types/browser'
+import { Bookmark, BookmarkFolder } from '@/shared/types/browser'
 import { defaultBookmarks } from '@/shared/constants'
 import AsyncStorage from '@react-native-async-storage/async-storage'
 import tabStore from './TabStore'
 import { isValidUrl } from '@/utils/generalHelpers'
+import type { BookmarkTree } from '@/utils/bookmarks/netscape'
 import { Platform } from 'react-native'
 
+const BOOKMARKS_KEY = 'bookmarks'
+const FOLDERS_KEY = 'bookmark_folders'
+
+export function newFolderId(): string {
+  return `f-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+}
+
+/**
+ * `list` with `item` moved to position `index` among the entries `isSibling`
+ * picks out (the end of them when index is omitted or past it). Entries that
+ * are not siblings keep their positions relative to each other.
+ */
+function placeAmongSiblings<T>(list: T[], item: T, isSibling: (x: T) => boolean, index?: number): T[] {
+  const rest = list.filter(x => x !== item)
+  const siblingPositions = rest.flatMap((x, i) => (isSibling(x) ? [i] : []))
+  let at: number
+  if (index !== undefined && index < siblingPositions.length) at = siblingPositions[Math.max(0, index)]
+  else at = siblingPositions.length ? siblingPositions[siblingPositions.length - 1] + 1 : rest.length
+  rest.splice(at, 0, item)
+  return rest
+}
+
+function cleanTags(tags: string[]): string[] {
+  return [...new Set(tags.map(t => t.trim()).filter(Boolean))]
+}
+
 export class BookmarkStore {
   bookmarks: Bookmark[] = defaultBookmarks
+  folders: BookmarkFolder[] = []
 
   constructor() {
     makeAutoObservable(this)
@@ -18,9 +46,9 @@ export class BookmarkStore {
     this.loadBookmarks()
   }
 
-  addBookmark(title: string, url: string) {
+  addBookmark(title: string, url: string, folderId: string | null = null) {
     if (!this.bookmarks.find(b => b.url === url)) {
-      this.bookmarks.push({ title, url, added: Date.now() })
+      this.bookmarks.push({ title, url, added: Date.now(), folderId })
       this.saveBookmarks()
     }
   }
@@ -42,6 +70,7 @@ export class BookmarkStore {
 
   clearBookmarks() {
     this.bookmarks = []
+    this.folders = []
     this.saveBookmarks()
   }
 
@@ -49,14 +78,146 @@ export class BookmarkStore {
     tabStore.newTab(url)
   }
 
+  /* -------------------------------- hierarchy ------------------------------- */
+
+  bookmarksIn(folderId: string | null): Bookmark[] {
+    return this.bookmarks.filter(b => (b.folderId ?? null) === folderId)
+  }
+
+  foldersIn(parentId: string | null): BookmarkFolder[] {
+    return this.folders.filter(f => f.parentId === parentId)
+  }
+
+  folder(id: string | null): BookmarkFolder | undefined {
+    return id ? this.folders.find(f => f.id === id) : undefined
+  }
+
+  /** Top level first: the folders from the root down to `id`. */
+  folderPath(id: string | null): BookmarkFolder[] {
+    const path: BookmarkFolder[] = []
+    for (let f = this.folder(id); f && path.length <= this.folders.length; f = this.folder(f.parentId)) {
+      path.unshift(f)
+    }
+    return path
+  }
+
+  addFolder(title: string, parentId: string | null = null): string {
+    const id = newFolderId()
+    this.folders.push({ id, title: title.trim() || 'Untitled', parentId, added: Date.now() })
+    this.saveBookmarks()
+    return id
+  }
+
+  renameFolder(id: string, title: string) {
+    const folder = this.folder(id)
+    if (folder && title.trim()) {
+      folder.title = title.trim()
+      this.saveBookmarks()
+    }
+  }
+
+  /** Delete a folder with everything in it, subfolders included. */
+  removeFolder(id: string) {
+    const doomed = new Set([id])
+    for (let grew = true; grew; ) {
+      grew = false
+      for (const f of this.folders) {
+        if (f.parentId && doomed.has(f.parentId) && !doomed.has(f.id)) {
+          doomed.add(f.id)
+          grew = true
+        }
+      }
+    }
+    this.folders = this.folders.filter(f => !doomed.has(f.id))
+    this.bookmarks = this.bookmarks.filter(b => !b.folderId || !doomed.has(b.folderId))
+    this.saveBookmarks()
+  }
+
+  /** Move a bookmark into `folderId`, at `index` among its bookmarks (the end by default). */
+  moveBookmark(url: string, folderId: string | null, index?: number) {
+    const bookmark = this.bookmarks.find(b => b.url === url)
+    if (!bookmark || (folderId && !this.folder(folderId))) return
+    bookmark.folderId = folderId
+    this.bookmarks = placeAmongSiblings(this.bookmarks, bookmark, b => (b.folderId ?? null) === folderId, index)
+    this.saveBookmarks()
+  }
+
+  /** Move a folder under `parentId`, at `index` among its subfolders. Refuses to move a folder into itself. */
+  moveFolder(id: string, parentId: string | null, index?: number) {
+    const folder = this.folder(id)
+    if (!folder || (parentId && !this.folder(parentId))) return
+    if (parentId && this.folderPath(parentId).some(f => f.id === id)) return
+    folder.parentId = parentId
+    this.folders = placeAmongSiblings(this.folders, folder, f => f.parentId === parentId, index)
+    this.saveBookmarks()
+  }
+
+  /* ---------------------------------- tags ---------------------------------- */
+
+  setTags(url: string, tags: string[]) {
+    const bookmark = this.bookmarks.find(b => b.url === url)
+    if (bookmark) {
+      bookmark.tags = cleanTags(tags)
+      this.saveBookmarks()
+    }
+  }
+
+  get allTags(): string[] {
+    return [...new Set(this.bookmarks.flatMap(b => b.tags ?? []))].sort((a, b) => a.localeCompare(b))
+  }
+
+  bookmarksTagged(tag: string): Bookmark[] {
+    return this.bookmarks.filter(b => b.tags?.includes(tag))
+  }
+
+  /* ----------------------------- import / export ---------------------------- */
+
+  /**
+   * Merge a parsed bookmark file in under `parentId`. A URL that is already
+   * bookmarked is not added twice, but picks up the file's tags. Only URLs the
+   * browser can open are kept.
+   */
+  importTree(tree: BookmarkTree, parentId: string | null = null): { bookmarks: number; folders: number } {
+    const folderIds = new Set(tree.folders.map(f => f.id))
+    const rebase = (id: string | null | undefined) => (id && folderIds.has(id) ? id : parentId)
+    for (const f of tree.folders) this.folders.push({ ...f, parentId: rebase(f.parentId) })
+
+    let added = 0
+    for (const b of tree.bookmarks) {
+      if (!isValidUrl(b.url)) continue
+      const existing = this.bookmarks.find(x => x.url === b.url)
+      if (existing) {
+        if (b.tags?.length) existing.tags = cleanTags([...(existing.tags ?? []), ...b.tags])
+        continue
+      }
+      this.bookmarks.push({ ...b, folderId: rebase(b.folderId), ...(b.tags ? { tags: cleanTags(b.tags) } : {}) })
+      added++
+    }
+    this.saveBookmarks()
+    return { bookmarks: added, folders: tree.folders.length }
+  }
+
+  exportTree(): BookmarkTree {
+    return { folders: [...this.folders], bookmarks: [...this.bookmarks] }
+  }
+
   async saveBookmarks() {
-    await AsyncStorage.setItem('bookmarks', JSON.stringify(this.bookmarks))
+    await AsyncStorage.multiSet([
+      [BOOKMARKS_KEY, JSON.stringify(this.bookmarks)],
+      [FOLDERS_KEY, JSON.stringify(this.folders)]
+    ])
   }
 
   async loadBookmarks() {
-    const savedBookmarks = await AsyncStorage.getItem('bookmarks')
+    const [[, savedBookmarks], [, savedFolders]] = await AsyncStorage.multiGet([BOOKMARKS_KEY, FOLDERS_KEY])
     if (savedBookmarks) {
-      this.bookmarks = JSON.parse(savedBookmarks)
+      const folders: BookmarkFolder[] = savedFolders ? JSON.parse(savedFolders) : []
+      const known = new Set(folders.map(f => f.id))
+      // A bookmark or folder whose folder is gone falls back to the top level.
+      this.folders = folders.map(f => (f.parentId && !known.has(f.parentId) ? { ...f, parentId: null } : f))
+      this.bookmarks = (JSON.parse(savedBookmarks) as Bookmark[]).map(b =>
+        b.folderId && !known.has(b.folderId) ? { ...b, folderId: null } : b
+      )
     } else {
       this.bookmarks = defaultBookmarks
       this.saveBookmarks()
@@ -0,0 +1,223 @@
+// stores/ContentBlockerStore.ts
+import { makeAutoObservable, observable, runInAction } from 'mobx'
+import AsyncStorage from '@react-native-async-storage/async-storage'
+import { InteractionManager, Platform } from 'react-native'
+import { hostOf } from '@/utils/generalHelpers'
+import { ContentBlocker, hidingCss } from '@/utils/contentBlocker/engine'
+import type { ResourceType } from '@/utils/contentBlocker/filterParser'
+import {
+  DEFAULT_FILTER_LISTS,
+  deleteCachedList,
+  downloadList,
+  isListStale,
+  readCachedList,
+  type FilterListSubscription
+} from '@/utils/contentBlocker/filterLists'
+import type { ContentBlockerPageMessage, ContentBlockerStyleReply } from '@/utils/contentBlocker/cosmeticScript'
+
+export const CONTENT_BLOCKER_KEY = 'content_blocker_v1'
+
+interface PersistedSettings {
+  enabled: boolean
+  allowlist: string[]
+  lists: FilterListSubscription[]
+}
+
+/**
+ * Ad and tracker blocking for the WebView.
+ *
+ * Holds the settings (on/off, per-site allowlist, subscribed lists), the
+ * compiled engine, and how many requests have been blocked in each tab since
+ * its page loaded. The WebView host asks it two things: whether a frame load
+ * should be cancelled, and what to hide on a page.
+ *
+ * Mirrors the singleton pattern in stores/TabStore.tsx.
+ */
+export class ContentBlockerStore {
+  enabled = true
+  /** Hosts blocking is switched off for; each covers its subdomains too. */
+  allowlist: string[] = []
+  lists: FilterListSubscription[] = DEFAULT_FILTER_LISTS
+  engine: ContentBlocker | null = null
+  blockedCounts = new Map<number, number>()
+
+  private refreshing: Promise<void> | null = null
+
+  constructor() {
+    makeAutoObservable<ContentBlockerStore, 'refreshing'>(this, { engine: observable.ref, refreshing: false })
+    if (typeof window === 'undefined' || Platform.OS == null) {
+      return
+    }
+    // Compiling EasyList is a few hundred ms of JS; let the first screen draw first.
+    InteractionManager.runAfterInteractions(() => {
+      this.load()
+    })
+  }
+
+  /* ------------------------------ site settings ----------------------------- */
+
+  isSiteAllowed(url: string): boolean {
+    const host = hostOf(url)
+    return !!host && this.allowlist.some(h => host === h || host.endsWith(`.${h}`))
+  }
+
+  /** Whether blocking applies on `pageUrl` at all. */
+  isActiveOn(pageUrl: string): boolean {
+    return this.enabled && !!this.engine && !this.isSiteAllowed(pageUrl)
+  }
+
+  /** Allow or block ads on the page's site. Takes effect on the next load. */
+  toggleSite(url: string) {
+    const host = hostOf(url)
+    if (!host) return
+    if (this.isSiteAllowed(url)) {
+      this.allowlist = this.allowlist.filter(h => host !== h && !host.endsWith(`.${h}`))
+    } else {
+      this.allowlist = [...this.allowlist, host.replace(/^www\./, '')]
+    }
+    this.save()
+  }
+
+  setEnabled(enabled: boolean) {
+    this.enabled = enabled
+    this.save()
+  }
+
+  /* ------------------------------ blocked count ----------------------------- */
+
+  blockedCount(tabId: number): number {
+    return this.blockedCounts.get(tabId) ?? 0
+  }
+
+  resetBlocked(tabId: number) {
+    if (this.blockedCounts.has(tabId)) this.blockedCounts.delete(tabId)
+  }
+
+  /* -------------------------------- matching -------------------------------- */
+
+  /**
+   * Whether to cancel a load in `tabId`, counting it when so. `pageUrl` is the
+   * page the load happens in; '' for a top-level navigation.
+   */
+  shouldBlock(tabId: number, url: string, pageUrl: string, type: ResourceType): boolean {
+    if (!this.isActiveOn(pageUrl || url)) return false
+    if (!this.engine!.match({ url, pageUrl, type })) return false
+    this.blockedCounts.set(tabId, this.blockedCount(tabId) + 1)
+    return true
+  }
+
+  /** The answer to a message from the cosmetic-filter script, or null to send nothing. */
+  cosmeticReply(message: ContentBlockerPageMessage, pageUrl: string): ContentBlockerStyleReply | null {
+    if (!this.isActiveOn(pageUrl) || typeof message.doc !== 'string') return null
+    if (message.type === 'CONTENT_BLOCKER_READY') {
+      const { selectors, generic } = this.engine!.cosmeticsFor(pageUrl)
+      if (!selectors.length && !generic) return null
+      return { type: 'CONTENT_BLOCKER_STYLE', doc: message.doc, css: hidingCss(selectors), generic }
+    }
+    if (message.type === 'CONTENT_BLOCKER_SELECTORS') {
+      const strings = (v: unknown) => (Array.isArray(v) ? v.filter((x): x is string => typeof x === 'string') : [])
+      const selectors = this.engine!.genericSelectorsFor(pageUrl, strings(message.classes), strings(message.ids))
+      if (!selectors.length) return null
+      return { type: 'CONTENT_BLOCKER_STYLE', doc: message.doc, css: hidingCss(selectors), generic: false }
+    }
+    return null
+  }
+
+  /* ---------------------------------- lists --------------------------------- */
+
+  setListEnabled(id: string, enabled: boolean) {
+    this.lists = this.lists.map(l => (l.id === id ? { ...l, enabled } : l))
+    this.save()
+    this.refreshLists()
+  }
+
+  addList(title: string, url: string) {
+    if (this.lists.some(l => l.url === url)) return
+    const id = `custom-${Date.now().toString(36)}`
+    this.lists = [
+      ...this.lists,
+      { id, title, url, enabled: true, updatedAt: null, expiresMs: DEFAULT_FILTER_LISTS[0].expiresMs }
+    ]
+    this.save()
+    this.refreshLists()
+  }
+
+  removeList(id: string) {
+    this.lists = this.lists.filter(l => l.id !== id)
+    deleteCachedList(id)
+    this.save()
+    this.rebuild()
+  }
+
+  /**
+   * Download enabled lists that are due (all of them with `force`), then
+   * recompile. A list that fails to download keeps its cached copy.
+   */
+  refreshLists(force = false): Promise<void> {
+    if (this.refreshing) return this.refreshing
+    const run = async () => {
+      let changed = false
+      for (const list of this.lists) {
+        if (!list.enabled || (!force && !isListStale(list))) continue
+        try {
+          const { expiresMs } = await downloadList(list)
+          runInAction(() => {
+            this.lists = this.lists.map(l => (l.id === list.id ? { ...l, updatedAt: Date.now(), expiresMs } : l))
+          })
+          changed = true
+        } catch (e) {
+          console.warn('[ContentBlocker] list refresh failed:', (e as Error)?.message)
+        }
+      }
+      if (changed) {
+        this.save()
+        await this.rebuild()
+      }
+    }
+    this.refreshing = run().finally(() => {
+      this.refreshing = null
+    })
+    return this.refreshing
+  }
+
+  private async rebuild() {
+    const texts: string[] = []
+    for (const list of this.lists) {
+      if (!list.enabled) continue
+      const text = await readCachedList(list.id)
+      if (text) texts.push(text)
+    }
+    const engine = texts.length ? ContentBlocker.fromText(texts) : null
+    runInAction(() => {
+      this.engine = engine
+    })
+  }
+
+  /* ------------------------------- persistence ------------------------------ */
+
+  async save() {
+    const settings: PersistedSettings = { enabled: this.enabled, allowlist: this.allowlist, lists: this.lists }
+    await AsyncStorage.setItem(CONTENT_BLOCKER_KEY, JSON.stringify(settings))
+  }
+
+  async load() {
+    try {
+      const raw = await AsyncStorage.getItem(CONTENT_BLOCKER_KEY)
+      if (raw) {
+        const saved = JSON.parse(raw) as Partial<PersistedSettings>
+        runInAction(() => {
+          this.enabled = saved.enabled !== false
+          this.allowlist = Array.isArray(saved.allowlist) ? saved.allowlist.filter(h => typeof h === 'string') : []
+          if (Array.isArray(saved.lists)) this.lists = saved.lists
+        })
+      }
+    } catch (e) {
+      console.warn('[ContentBlocker] failed to load settings:', (e as Error)?.message)
+    }
+    await this.rebuild()
+    await this.refreshLists()
+  }
+}
+
+const contentBlockerStore = new ContentBlockerStore()
+export default contentBlockerStore
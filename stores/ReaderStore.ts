@@ -0,0 +1,204 @@
+// stores/ReaderStore.ts
+import { makeAutoObservable, observable, runInAction } from 'mobx'
+import AsyncStorage from '@react-native-async-storage/async-storage'
+import { Platform } from 'react-native'
+import type { Tab } from '@/shared/types/browser'
+import { normalizeArticle, type Article } from '@/utils/reader/article'
+import { buildReaderExtractScript } from '@/utils/reader/extractScript'
+import { deleteSavedArticle, readSavedArticle, writeSavedArticle } from '@/utils/reader/savedArticles'
+
+export const READING_LIST_KEY = 'reading_list_v1'
+export const READER_PREFS_KEY = 'reader_prefs_v1'
+
+export const READER_FONT_SCALE_MIN = 0.8
+export const READER_FONT_SCALE_MAX = 1.8
+export const READER_FONT_SCALE_STEP = 0.1
+
+// A page that hasn't answered by now is stuck or has blocked the script.
+const EXTRACT_TIMEOUT_MS = 5_000
+
+/** A reading-list entry. The article body is on disk, see utils/reader/savedArticles.ts. */
+export interface ReadingListItem {
+  id: string
+  url: string
+  title: string
+  byline?: string
+  siteName?: string
+  excerpt: string
+  wordCount: number
+  savedAt: number
+  readAt?: number
+}
+
+/**
+ * Reader mode and the reading list.
+ *
+ * `article` is what the reader view shows: either fresh from the active tab
+ * (`openFromTab`) or a saved copy (`openSaved`), which needs no network.
+ * The font size is a reader-wide preference, not per article.
+ *
+ * Mirrors the singleton pattern in stores/TabStore.tsx.
+ */
+export class ReaderStore {
+  article: Article | null = null
+  loading = false
+  fontScale = 1
+  readingList: ReadingListItem[] = []
+
+  private pending: { id: string; url: string; resolve: (article: Article | null) => void } | null = null
+
+  constructor() {
+    makeAutoObservable<ReaderStore, 'pending'>(this, { article: observable.ref, pending: false })
+    if (typeof window === 'undefined' || Platform.OS == null) {
+      return
+    }
+    this.load()
+  }
+
+  /* --------------------------------- reading -------------------------------- */
+
+  /**
+   * Extract the article from `tab` and open it. Resolves false when the page
+   * has nothing that reads like an article (or never answers).
+   */
+  async openFromTab(tab: Pick<Tab, 'url' | 'webviewRef'>): Promise<boolean> {
+    const webview = tab.webviewRef.current
+    if (!webview) return false
+    // A second request supersedes the first.
+    this.pending?.resolve(null)
+
+    const id = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+    this.loading = true
+    const article = await new Promise<Article | null>(resolve => {
+      const timer = setTimeout(() => this.settle(id, null), EXTRACT_TIMEOUT_MS)
+      this.pending = {
+        id,
+        url: tab.url,
+        resolve: a => {
+          clearTimeout(timer)
+          resolve(a)
+        }
+      }
+      webview.injectJavaScript(buildReaderExtractScript(id))
+    })
+    runInAction(() => {
+      // A newer request still in flight keeps the spinner.
+      if (!this.pending) this.loading = false
+      if (article) this.article = article
+    })
+    return !!article
+  }
+
+  /** A READER_ARTICLE message from the page. Replies to stale requests are dropped. */
+  receive(message: { id?: unknown; article?: unknown }) {
+    if (!this.pending || message.id !== this.pending.id) return
+    this.settle(this.pending.id, normalizeArticle(message.article, this.pending.url))
+  }
+
+  private settle(id: string, article: Article | null) {
+    if (this.pending?.id !== id) return
+    const { resolve } = this.pending
+    this.pending = null
+    resolve(article)
+  }
+
+  /** Open a reading-list article from disk. Resolves false if its file is gone. */
+  async openSaved(id: string): Promise<boolean> {
+    const article = await readSavedArticle(id)
+    if (!article) return false
+    runInAction(() => {
+      this.article = article
+    })
+    this.markRead(id)
+    return true
+  }
+
+  close() {
+    this.pending?.resolve(null)
+    this.pending = null
+    this.loading = false
+    this.article = null
+  }
+
+  adjustFontScale(delta: number) {
+    const next = Math.round((this.fontScale + delta) * 10) / 10
+    this.fontScale = Math.min(READER_FONT_SCALE_MAX, Math.max(READER_FONT_SCALE_MIN, next))
+    AsyncStorage.setItem(READER_PREFS_KEY, JSON.stringify({ fontScale: this.fontScale })).catch(() => {})
+  }
+
+  /* ------------------------------ reading list ------------------------------ */
+
+  savedItem(url: string): ReadingListItem | undefined {
+    return this.readingList.find(i => i.url === url)
+  }
+
+  /** Save the open article for offline reading. A page saved twice keeps one entry. */
+  saveCurrent(): ReadingListItem | null {
+    const article = this.article
+    if (!article) return null
+    const existing = this.savedItem(article.url)
+    if (existing) return existing
+    const item: ReadingListItem = {
+      id: `r-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      url: article.url,
+      title: article.title,
+      byline: article.byline,
+      siteName: article.siteName,
+      excerpt: article.excerpt,
+      wordCount: article.wordCount,
+      savedAt: Date.now()
+    }
+    try {
+      writeSavedArticle(item.id, article)
+    } catch (e) {
+      console.warn('[Reader] failed to save article:', (e as Error)?.message)
+      return null
+    }
+    this.readingList = [item, ...this.readingList]
+    this.save()
+    return this.savedItem(item.url) ?? null
+  }
+
+  removeSaved(id: string) {
+    this.readingList = this.readingList.filter(i => i.id !== id)
+    deleteSavedArticle(id)
+    this.save()
+  }
+
+  markRead(id: string, read = true) {
+    this.readingList = this.readingList.map(i =>
+      i.id === id ? { ...i, readAt: read ? (i.readAt ?? Date.now()) : undefined } : i
+    )
+    this.save()
+  }
+
+  /* ------------------------------- persistence ------------------------------ */
+
+  async save() {
+    await AsyncStorage.setItem(READING_LIST_KEY, JSON.stringify(this.readingList))
+  }
+
+  async load() {
+    try {
+      const [list, prefs] = await Promise.all([
+        AsyncStorage.getItem(READING_LIST_KEY),
+        AsyncStorage.getItem(READER_PREFS_KEY)
+      ])
+      runInAction(() => {
+        if (list) {
+          const parsed = JSON.parse(list)
+          if (Array.isArray(parsed)) {
+            this.readingList = parsed.filter(i => i && typeof i.id === 'string' && typeof i.url === 'string')
+          }
+        }
+        const scale = prefs ? Number(JSON.parse(prefs)?.fontScale) : NaN
+        if (scale >= READER_FONT_SCALE_MIN && scale <= READER_FONT_SCALE_MAX) this.fontScale = scale
+      })
+    } catch (e) {
+      console.warn('[Reader] failed to load reading list:', (e as Error)?.message)
+    }
+  }
+}
+
+const readerStore = new ReaderStore()
+export default readerStore
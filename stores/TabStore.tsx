@@ -3,7 +3,7 @@ import { createRef } from 'react'
 import { makeAutoObservable, runInAction } from 'mobx'
 import { WebView } from 'react-native-webview'
 import { LayoutAnimation, Platform } from 'react-native'
-import { Tab } from '@/shared/types/browser'
+import { Tab, TabGroup } from '@/shared/types/browser'
 import { kNEW_TAB_URL } from '@/shared/constants'
 import { buildLocationHrefScript, isValidUrl, normalizeUrlForHistory } from '@/utils/generalHelpers'
 import { deleteThumbnail } from '@/utils/thumbnailService'
@@ -12,6 +12,8 @@ import type { WebViewNavigation } from 'react-native-webview'
 import { maxTabsForTier, warmPoolSizeForTier } from '@/utils/deviceTier'
 import { devLog } from '@/utils/logging'
 import { perf } from '@/utils/perf'
+import { containersSupported } from '@/utils/webview/containerStore'
+import { privateTabsSupported } from '@/utils/webview/privateTabs'
 const STORAGE_KEYS = {
   TABS: 'tabs',
   ACTIVE: 'activeTabId',
@@ -20,9 +22,13 @@ const STORAGE_KEYS = {
   // users tapped Back on a restored tab and the WebView's native history was
   // empty, leaving them stranded with a disabled Back button.
   NAV_HISTORY: 'tabNavigationHistories',
-  NAV_HISTORY_INDEXES: 'tabHistoryIndexes'
+  NAV_HISTORY_INDEXES: 'tabHistoryIndexes',
+  GROUPS: 'tabGroups'
 }
 
+// Group colours, offered in this order to each new group.
+export const TAB_GROUP_COLORS = ['#0A84FF', '#FF453A', '#FF9F0A', '#30D158', '#BF5AF2', '#FF375F', '#64D2FF', '#8E8E93']
+
 // Hard cap on simultaneously-open tabs. On overflow, the oldest non-active tab
 // (by last-focused timestamp) is evicted. The cap is device-tier-aware via
 // expo-device: SE-class hardware (low RAM) caps at 4, mid-range at 8, high at 12.
@@ -36,6 +42,8 @@ export const WARM_POOL_SIZE = warmPoolSizeForTier()
 
 export class TabStore {
   tabs: Tab[] = [] // Always initialize as an array
+  // In display order. A group lives only while it has tabs.
+  groups: TabGroup[] = []
   activeTabId = 1
   showTabsView = false
   isInitialized = false // Add initialization flag
@@ -97,10 +105,10 @@ export class TabStore {
     })
   }
 
-  createTab(url?: string | null): Tab {
+  createTab(url?: string | null, isPrivate = false): Tab {
     // Ensure url is never null or undefined
     const safeUrl = url && isValidUrl(url) ? normalizeUrlForHistory(url) : kNEW_TAB_URL
-    return {
+    const tab: Tab = {
       id: this.nextId++,
       url: safeUrl,
       sourceUrl: safeUrl,
@@ -111,10 +119,14 @@ export class TabStore {
       isLoading: false,
       isDesktopMode: false
     }
+    if (isPrivate) tab.isPrivate = true
+    return tab
   }
 
-  newTab = (initialUrl?: string | null) => {
-    devLog(`newTab() called with initialUrl=${initialUrl}`)
+  newTab = (initialUrl?: string | null, options: { isPrivate?: boolean; groupId?: string } = {}) => {
+    devLog(`newTab() called with initialUrl=${initialUrl} private=${!!options.isPrivate}`)
+    // Not an ordinary tab instead: the user asked for one that forgets.
+    if (options.isPrivate && !privateTabsSupported()) return
     LayoutAnimation.configureNext(LayoutAnimation.Presets.easeInEaseOut)
 
     // Enforce MAX_TABS via LRU eviction of the oldest non-active tab.
@@ -124,7 +136,8 @@ export class TabStore {
 
     // Ensure initialUrl is never null or undefined
     const safeInitialUrl = initialUrl || kNEW_TAB_URL
-    const newTab = this.createTab(safeInitialUrl)
+    const newTab = this.createTab(safeInitialUrl, options.isPrivate)
+    if (!options.isPrivate && options.groupId && this.group(options.groupId)) newTab.groupId = options.groupId
     this.tabs.push(newTab)
     this.activeTabId = newTab.id
     this.lastFocusedAt.set(newTab.id, Date.now())
@@ -152,6 +165,148 @@ export class TabStore {
     this.saveTabs()
   }
 
+  newPrivateTab = (initialUrl?: string | null) => this.newTab(initialUrl, { isPrivate: true })
+
+  /**
+   * Let a private tab see the wallet provider (or hide it again). The document-
+   * start script only changes on the next load, so the caller reloads the page.
+   */
+  setPrivateWalletEnabled(id: number, enabled: boolean) {
+    const tab = this.tabs.find(t => t.id === id)
+    if (!tab?.isPrivate) return
+    tab.privateWalletEnabled = enabled
+  }
+
+  /* -------------------------------- tab groups -------------------------------- */
+
+  group(id: string | undefined): TabGroup | undefined {
+    return id ? this.groups.find(g => g.id === id) : undefined
+  }
+
+  tabsInGroup(groupId: string | null): Tab[] {
+    return this.tabs.filter(t => (t.groupId ?? null) === groupId)
+  }
+
+  /**
+   * The container a tab's pages load in, if its group is one. None where this
+   * device can't give a container its own store (containerStore.ts) — its tabs
+   * then load as ordinary ones rather than pretend to be kept apart.
+   */
+  containerOf(tab: Tab): string | undefined {
+    if (!containersSupported()) return undefined
+    return this.group(tab.groupId)?.container
+  }
+
+  /**
+   * Start a group holding `tabIds`. Private tabs stay out of groups: a group is
+   * persisted, and its title and membership would record them.
+   */
+  createGroup(title: string, tabIds: number[], options: { container?: boolean } = {}): TabGroup | null {
+    const members = this.tabs.filter(t => tabIds.includes(t.id) && !t.isPrivate)
+    if (!members.length) return null
+    const group: TabGroup = {
+      id: `g-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+      title: title.trim() || `Group ${this.groups.length + 1}`,
+      color: TAB_GROUP_COLORS[this.groups.length % TAB_GROUP_COLORS.length],
+      collapsed: false
+    }
+    this.groups.push(group)
+    if (options.container) this.setGroupContainer(group.id, true)
+    for (const tab of members) tab.groupId = group.id
+    this.pruneGroups()
+    this.saveTabs()
+    // The observable copy, not the plain object that was pushed.
+    return this.group(group.id) ?? null
+  }
+
+  renameGroup(id: string, title: string) {
+    const group = this.group(id)
+    if (!group || !title.trim()) return
+    group.title = title.trim()
+    this.saveTabs()
+  }
+
+  setGroupColor(id: string, color: string) {
+    const group = this.group(id)
+    if (!group) return
+    group.color = color
+    this.saveTabs()
+  }
+
+  toggleGroupCollapsed(id: string) {
+    const group = this.group(id)
+    if (!group) return
+    group.collapsed = !group.collapsed
+    this.saveTabs()
+  }
+
+  /** Move a group to `toIndex` in the display order. */
+  moveGroup(id: string, toIndex: number) {
+    const from = this.groups.findIndex(g => g.id === id)
+    if (from === -1) return
+    const [group] = this.groups.splice(from, 1)
+    this.groups.splice(Math.max(0, Math.min(toIndex, this.groups.length)), 0, group)
+    this.saveTabs()
+  }
+
+  /**
+   * Make a group a container or an ordinary group again. The key is taken from
+   * the title now and kept through renames, since the wallet's permissions for
+   * the container's sites are recorded under it. The group's open tabs are
+   * remounted into the new cookie jar (WebViewHost is keyed on the container).
+   * Turning one on does nothing where containers aren't supported.
+   */
+  setGroupContainer(id: string, enabled: boolean) {
+    const group = this.group(id)
+    if (!group) return
+    if (enabled && !containersSupported()) return
+    if (!enabled) {
+      delete group.container
+    } else if (!group.container) {
+      const base =
+        group.title
+          .toLowerCase()
+          .replace(/[^a-z0-9]+/g, '-')
+          .replace(/^-+|-+$/g, '')
+          .slice(0, 40) || 'group'
+      const taken = new Set(this.groups.map(g => g.container))
+      let key = base
+      for (let n = 2; taken.has(key); n++) key = `${base}-${n}`
+      group.container = key
+    }
+    this.saveTabs()
+  }
+
+  /** Move a tab into a group, or out of any group with null. */
+  setTabGroup(tabId: number, groupId: string | null) {
+    const tab = this.tabs.find(t => t.id === tabId)
+    if (!tab || tab.isPrivate) return
+    if (groupId === null) delete tab.groupId
+    else if (this.group(groupId)) tab.groupId = groupId
+    else return
+    this.pruneGroups()
+    this.saveTabs()
+  }
+
+  /** Dissolve a group, leaving its tabs open — or closing them with `closeTabs`. */
+  removeGroup(id: string, closeTabs = false) {
+    const members = this.tabsInGroup(id)
+    if (closeTabs) {
+      for (const tab of members) this.closeTab(tab.id)
+    } else {
+      for (const tab of members) delete tab.groupId
+    }
+    this.groups = this.groups.filter(g => g.id !== id)
+    this.saveTabs()
+  }
+
+  /** Drop groups that no tab belongs to any more. */
+  private pruneGroups() {
+    const used = new Set(this.tabs.map(t => t.groupId))
+    if (this.groups.every(g => used.has(g.id))) return
+    this.groups = this.groups.filter(g => used.has(g.id))
+  }
+
   /**
    * IDs of the tabs whose WebViews should stay mounted so switching between
    * recently-used tabs is instant. The active tab is always first; the rest are
@@ -343,7 +498,7 @@ export class TabStore {
    */
   setThumbnail(id: number, uri: string, host: string) {
     const tab = this.tabs.find(t => t.id === id)
-    if (!tab) return
+    if (!tab || tab.isPrivate) return
     tab.thumbnailUri = uri
     tab.thumbnailHost = host
     tab.thumbnailVersion = (tab.thumbnailVersion ?? 0) + 1
@@ -580,6 +735,7 @@ export class TabStore {
     this.lastFocusedAt.delete(id)
     this.lastNavSig.delete(id)
     this.tabs.splice(tabIndex, 1)
+    this.pruneGroups()
 
     if (this.tabs.length === 0) {
       this.newTab()
@@ -741,6 +897,7 @@ export class TabStore {
     }
 
     this.tabs = []
+    this.groups = []
     this.tabNavigationHistories = {}
     this.tabHistoryIndexes = {}
     this.lastFocusedAt.clear()
@@ -766,6 +923,7 @@ export class TabStore {
 
     // Clear existing tabs
     this.tabs = []
+    this.groups = []
     this.tabNavigationHistories = {}
     this.tabHistoryIndexes = {}
 
@@ -812,24 +970,37 @@ export class TabStore {
     await this.persistTabs()
   }
 
+  // Private tabs are left out entirely — their URLs, titles and back/forward
+  // stacks must not outlive the session. loadTabs() falls back to the first
+  // restored tab when the saved active id was a private one.
   private async persistTabs() {
-    const serializable = this.tabs.map(({ webviewRef, ...rest }) => rest)
+    const kept = this.tabs.filter(t => !t.isPrivate)
+    const serializable = kept.map(({ webviewRef, ...rest }) => rest)
+    const navHistories: typeof this.tabNavigationHistories = {}
+    const historyIndexes: typeof this.tabHistoryIndexes = {}
+    for (const { id } of kept) {
+      if (this.tabNavigationHistories[id]) navHistories[id] = this.tabNavigationHistories[id]
+      if (id in this.tabHistoryIndexes) historyIndexes[id] = this.tabHistoryIndexes[id]
+    }
     await AsyncStorage.multiSet([
       [STORAGE_KEYS.TABS, JSON.stringify(serializable)],
       [STORAGE_KEYS.ACTIVE, String(this.activeTabId)],
-      [STORAGE_KEYS.NAV_HISTORY, JSON.stringify(this.tabNavigationHistories)],
-      [STORAGE_KEYS.NAV_HISTORY_INDEXES, JSON.stringify(this.tabHistoryIndexes)]
+      [STORAGE_KEYS.NAV_HISTORY, JSON.stringify(navHistories)],
+      [STORAGE_KEYS.NAV_HISTORY_INDEXES, JSON.stringify(historyIndexes)],
+      [STORAGE_KEYS.GROUPS, JSON.stringify(this.groups)]
     ])
   }
 
   async loadTabs() {
     try {
-      const [[, tabsJson], [, activeIdStr], [, navHistJson], [, navIdxJson]] = await AsyncStorage.multiGet([
-        STORAGE_KEYS.TABS,
-        STORAGE_KEYS.ACTIVE,
-        STORAGE_KEYS.NAV_HISTORY,
-        STORAGE_KEYS.NAV_HISTORY_INDEXES
-      ])
+      const [[, tabsJson], [, activeIdStr], [, navHistJson], [, navIdxJson], [, groupsJson]] =
+        await AsyncStorage.multiGet([
+          STORAGE_KEYS.TABS,
+          STORAGE_KEYS.ACTIVE,
+          STORAGE_KEYS.NAV_HISTORY,
+          STORAGE_KEYS.NAV_HISTORY_INDEXES,
+          STORAGE_KEYS.GROUPS
+        ])
 
       const parsed = tabsJson ? JSON.parse(tabsJson) : []
       const withRefs = parsed.map((t: any) => ({
@@ -851,6 +1022,13 @@ export class TabStore {
       } catch (e) {
         console.warn('loadTabs: nav history parse failed, starting fresh', e)
       }
+      let restoredGroups: TabGroup[] = []
+      try {
+        const parsedGroups = groupsJson ? JSON.parse(groupsJson) : []
+        if (Array.isArray(parsedGroups)) restoredGroups = parsedGroups.filter(g => typeof g?.id === 'string')
+      } catch (e) {
+        console.warn('loadTabs: tab groups parse failed, ungrouping all tabs', e)
+      }
 
       runInAction(() => {
         this.tabNavigationHistories = restoredNavHist
@@ -863,6 +1041,11 @@ export class TabStore {
           const canGoForward = hist.length > 1 && idx < hist.length - 1
           return { ...t, canGoBack, canGoForward }
         })
+        this.groups = restoredGroups
+        for (const tab of this.tabs) {
+          if (tab.groupId && !this.group(tab.groupId)) delete tab.groupId
+        }
+        this.pruneGroups()
         const maxId = Math.max(0, ...withRefs.map((t: any) => t.id))
         this.nextId = maxId + 1
 
@@ -0,0 +1,21 @@
+// react-native-zeroconf ships no types: the part of its API the LAN directory uses.
+declare module 'react-native-zeroconf' {
+  export interface Service {
+    name: string
+    fullName: string
+    host: string
+    port: number
+    addresses: string[]
+    txt: Record<string, string>
+  }
+
+  export default class Zeroconf {
+    scan(type?: string, protocol?: string, domain?: string): void
+    stop(): void
+    publishService(type: string, protocol: string, domain: string, name: string, port: number): void
+    unpublishService(name: string): void
+    on(event: 'resolved', listener: (service: Service) => void): this
+    on(event: 'error', listener: (err: Error) => void): this
+    removeListener(event: 'resolved', listener: (service: Service) => void): this
+  }
+}
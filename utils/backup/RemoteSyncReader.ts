@@ -31,7 +31,9 @@ export class RemoteSyncReader {
     private readonly wallet: CompletedProtoWallet,
     private readonly deviceId: string,
     private readonly generation: number,
-    private readonly settings: TableSettings
+    private readonly settings: TableSettings,
+    /** Stop after this sequence — a point-in-time restore. Omitted replays the whole generation. */
+    private readonly throughSeq?: number
   ) {}
 
   /** Settings for the storage being restored into. */
@@ -49,8 +51,16 @@ export class RemoteSyncReader {
    */
   async getSyncChunk (_args: RequestSyncChunkArgs): Promise<SyncChunk> {
     if (this.entries == null) {
-      this.entries = await this.client.index(this.deviceId, this.generation)
-      this.verifyChain(this.entries)
+      const entries = await this.client.index(this.deviceId, this.generation)
+      // The whole chain is checked even when stopping early: a fork after the chosen point
+      // still means the server is not holding the log this device wrote.
+      verifyLogChain(entries)
+      if (this.throughSeq != null && this.throughSeq > entries.length) {
+        throw new BackupChainError(
+          `restore point ${this.throughSeq} is past the end of the log (sequence ${entries.length})`
+        )
+      }
+      this.entries = this.throughSeq != null ? entries.slice(0, this.throughSeq) : entries
     }
 
     if (this.next >= this.entries.length) {
@@ -67,26 +77,27 @@ export class RemoteSyncReader {
   get length (): number {
     return this.entries?.length ?? 0
   }
+}
 
-  /**
-   * Reject a log with a gap or a fork before any of it is replayed.
-   *
-   * A restore that silently stops halfway is worse than one that fails: the wallet would
-   * look healthy while missing the outputs it needs to spend.
-   */
-  private verifyChain (entries: LogEntry[]): void {
-    for (let i = 0; i < entries.length; i++) {
-      const expectedSeq = i + 1
-      if (entries[i].seq !== expectedSeq) {
-        throw new BackupChainError(
-          `backup chain has a gap: expected sequence ${expectedSeq}, found ${entries[i].seq}`
-        )
-      }
-      if (i > 0 && entries[i].prevSha256 !== entries[i - 1].sha256) {
-        throw new BackupChainError(
-          `backup chain is forked at sequence ${entries[i].seq}: previous hash does not match`
-        )
-      }
+/**
+ * Reject a log with a gap or a fork before any of it is replayed.
+ *
+ * A restore that silently stops halfway is worse than one that fails: the wallet would
+ * look healthy while missing the outputs it needs to spend. Live sync (./sync.ts) checks
+ * a peer's log the same way before merging from it.
+ */
+export function verifyLogChain (entries: LogEntry[]): void {
+  for (let i = 0; i < entries.length; i++) {
+    const expectedSeq = i + 1
+    if (entries[i].seq !== expectedSeq) {
+      throw new BackupChainError(
+        `backup chain has a gap: expected sequence ${expectedSeq}, found ${entries[i].seq}`
+      )
+    }
+    if (i > 0 && entries[i].prevSha256 !== entries[i - 1].sha256) {
+      throw new BackupChainError(
+        `backup chain is forked at sequence ${entries[i].seq}: previous hash does not match`
+      )
     }
   }
 }
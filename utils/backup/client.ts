@@ -20,6 +20,13 @@
  *    passes running past 100 seconds. Every request is bounded here; a backup
  *    is never urgent, and giving up until the next pass is strictly better
  *    than occupying the monitor.
+ *
+ *  - PINNING. A self-hosted server is configured with the identity key it
+ *    proved it holds (./endpoint.ts). Every client for that origin makes the
+ *    server prove it again — the identity challenge, against the pinned key —
+ *    before its first request goes out, and checks the key published on every
+ *    /v1/limits after. A server swapped in under the same URL is refused
+ *    before it receives a single signed request.
  */
 import {
   BackupCacheClient,
@@ -30,6 +37,8 @@ import {
   type Limits,
   type LogEntry
 } from '@bsv/backup-cache-client'
+import { PublicKey, Random, Signature, Utils } from '@bsv/sdk'
+import { IDENTITY_CHALLENGE_PREFIX } from './constants'
 import { deriveBackupWallet } from './derive'
 
 export { BackupHttpError, ERR_BLOB_TOO_LARGE, ERR_SEQ_CONFLICT }
@@ -44,6 +53,23 @@ export type { DeviceSummary, Limits, LogEntry }
  */
 export const BACKUP_REQUEST_TIMEOUT_MS = 30_000
 
+/** The server at an origin is not the one the user verified, or could not prove who it is. */
+export class BackupServerIdentityError extends Error {
+  constructor (message: string) {
+    super(message)
+    this.name = 'BackupServerIdentityError'
+  }
+}
+
+/** origin → identity key, as ./endpoint.ts loads and saves the configured server. */
+const pinnedIdentities = new Map<string, string>()
+
+/** Pin (or with no key, unpin) the identity a server at `origin` must publish. */
+export function pinServerIdentity (origin: string, serverIdentityKey: string | undefined): void {
+  if (serverIdentityKey == null) pinnedIdentities.delete(origin)
+  else pinnedIdentities.set(origin, serverIdentityKey)
+}
+
 export class BackupClient extends BackupCacheClient {
   /**
    * @param baseUrl origin of the backup service, no trailing slash or path
@@ -56,7 +82,7 @@ export class BackupClient extends BackupCacheClient {
     super({
       baseUrl,
       wallet: deriveBackupWallet(primaryKey),
-      fetch: withTimeout(fetchImpl ?? ((input, init) => fetch(input, init)))
+      fetch: withTimeout(withPinnedIdentity(baseUrl, fetchImpl ?? ((input, init) => fetch(input, init))))
     })
   }
 
@@ -76,6 +102,93 @@ export class BackupClient extends BackupCacheClient {
   }
 }
 
+/**
+ * Ask the server at `baseUrl` to prove it holds the identity key it publishes.
+ *
+ * The server signs a fresh random nonce under IDENTITY_CHALLENGE_PREFIX with that key, so a
+ * recorded answer is useless and the signature cannot stand for anything else. With
+ * `expectedKey` — one the user got from whoever runs the server — a server proving some
+ * other key is refused too. Resolves to the server's published limits.
+ */
+export async function verifyServerIdentity (
+  baseUrl: string,
+  expectedKey?: string,
+  fetchImpl?: typeof fetch
+): Promise<Limits> {
+  const transport = withTimeout(fetchImpl ?? ((input, init) => fetch(input, init)))
+  const limits = await getJson(transport, `${baseUrl}/v1/limits`) as Limits
+  const published = limits.serverIdentityKey
+  if (expectedKey != null && published !== expectedKey) {
+    throw new BackupServerIdentityError(`server identity is ${published}, expected ${expectedKey}`)
+  }
+
+  const nonce = Utils.toHex(Random(32))
+  const answer = await getJson(transport, `${baseUrl}/v1/identity?nonce=${nonce}`) as {
+    serverIdentityKey?: string
+    signature?: string
+  }
+  if (answer.serverIdentityKey !== published || typeof answer.signature !== 'string') {
+    throw new BackupServerIdentityError('server answered the identity challenge for a different key')
+  }
+
+  let valid = false
+  try {
+    valid = PublicKey.fromString(published).verify(
+      Utils.toArray(IDENTITY_CHALLENGE_PREFIX + nonce, 'utf8'),
+      Signature.fromDER(answer.signature, 'hex')
+    )
+  } catch {
+    // A malformed key or signature proves nothing, which is the same outcome as a bad one.
+  }
+  if (!valid) throw new BackupServerIdentityError('server could not prove it holds its identity key')
+  return limits
+}
+
+async function getJson (transport: typeof fetch, url: string): Promise<unknown> {
+  const res = await transport(url, { method: 'GET' })
+  if (!res.ok) throw new Error(`Backup server answered ${res.status} for ${new URL(url).pathname}`)
+  return await res.json()
+}
+
+/**
+ * Refuse a server that cannot prove it holds the pinned identity.
+ *
+ * Publishing the pinned key proves nothing — anyone can copy it onto /v1/limits — so the
+ * first request through a client waits on the identity challenge (verifyServerIdentity)
+ * against the pinned key. The answer is kept for the client's life, keyed by the pin so a
+ * re-pinned origin is challenged afresh; a failed challenge is not kept, and the next
+ * request asks again. The key on every limits response is still checked, since it is the
+ * one the package signs later proofs to.
+ */
+function withPinnedIdentity (baseUrl: string, transport: typeof fetch): typeof fetch {
+  let proven: { key: string, challenge: Promise<unknown> } | undefined
+  return async (input, init) => {
+    const pinned = pinnedIdentities.get(baseUrl)
+    if (pinned != null) {
+      if (proven?.key !== pinned) {
+        const challenge = verifyServerIdentity(baseUrl, pinned, transport)
+        proven = { key: pinned, challenge }
+        challenge.catch(() => {
+          if (proven?.challenge === challenge) proven = undefined
+        })
+      }
+      await proven.challenge
+    }
+
+    const res = await transport(input, init)
+    if (pinned == null || !res.ok || !String(input instanceof Request ? input.url : input).endsWith('/v1/limits')) {
+      return res
+    }
+    const { serverIdentityKey } = await res.clone().json() as { serverIdentityKey?: string }
+    if (serverIdentityKey !== pinned) {
+      throw new BackupServerIdentityError(
+        `backup server at ${baseUrl} presented identity ${String(serverIdentityKey)}, pinned ${pinned}`
+      )
+    }
+    return res
+  }
+}
+
 /**
  * Bound every request the client makes.
  *
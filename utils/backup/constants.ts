@@ -51,6 +51,14 @@ export const GENERATION_CHUNK_THRESHOLD = 200
  */
 export const MIN_PUSH_INTERVAL_MS = 60_000
 
+/**
+ * Floor between live-sync pull passes.
+ *
+ * Same reasoning as the push floor. A pass that finds a peer behind asks for another straight
+ * away, so catching up after a long absence is not held to one chunk a minute.
+ */
+export const MIN_PULL_INTERVAL_MS = 60_000
+
 /**
  * Historic server blob cap, kept as a conservative reference for tests.
  *
@@ -62,7 +70,18 @@ export const MIN_PUSH_INTERVAL_MS = 60_000
  */
 export const MAX_BLOB_BYTES = 1 << 20
 
+/**
+ * Domain separation for the server identity challenge (GET /v1/identity).
+ *
+ * The server signs this prefix followed by the client's nonce, so the signature proves
+ * possession of the identity key for this purpose only and can never be replayed as
+ * anything else that key signs.
+ */
+export const IDENTITY_CHALLENGE_PREFIX = 'bsv wallet backup server identity:'
+
 /** AsyncStorage keys. */
 export const DEVICE_ID_KEY = 'backupDeviceId'
 export const cursorKey = (pseudonym: string, deviceId: string): string =>
   `backupCursor-${pseudonym}-${deviceId}`
+export const syncStateKey = (pseudonym: string, deviceId: string): string =>
+  `backupSync-${pseudonym}-${deviceId}`
@@ -0,0 +1,94 @@
+/**
+ * Which backup log server this install talks to.
+ *
+ * By default, the one the build names (DEFAULT_BACKUP_URL). A user may instead run their own
+ * — the Go service, or anything speaking its /v1 routes — and point the wallet at it from
+ * settings. A self-hosted server is only ever saved together with the identity key it proved
+ * it holds (`verifyServerIdentity`), and that key is pinned for the origin: every client
+ * makes the server prove it again before its first request, so should a server that cannot
+ * prove it ever answer at that URL, every backup request is refused before anything is
+ * signed to it.
+ *
+ * The server holds nothing it can read, so the pin is not about confidentiality. It stops
+ * the wallet from quietly writing its only restorable history to a server the user did not
+ * choose, and from restoring one that server invented.
+ *
+ * Stored in AsyncStorage beside the push opt-out, for the same reason (see ./preference.ts):
+ * the wallet database is what gets backed up, so it cannot hold where it is backed up to.
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage'
+import { DEFAULT_BACKUP_URL } from '@/context/config'
+import { pinServerIdentity } from './client'
+
+export const BACKUP_ENDPOINT_KEY = 'backupEndpoint'
+
+export interface BackupEndpoint {
+  /** Server origin. Empty means backup is off: the build names no server and the user chose none. */
+  url: string
+  /** The identity the server proved. Present exactly when the user configured the server. */
+  serverIdentityKey?: string
+}
+
+let cached: BackupEndpoint | null = null
+
+/** The configured server, or the build's default. Never throws. */
+export async function getBackupEndpoint (): Promise<BackupEndpoint> {
+  if (cached != null) return cached
+
+  let endpoint: BackupEndpoint = { url: DEFAULT_BACKUP_URL }
+  try {
+    const raw = await AsyncStorage.getItem(BACKUP_ENDPOINT_KEY)
+    const parsed = raw == null ? null : (JSON.parse(raw) as Partial<BackupEndpoint>)
+    if (typeof parsed?.url === 'string' && typeof parsed.serverIdentityKey === 'string') {
+      endpoint = { url: parsed.url, serverIdentityKey: parsed.serverIdentityKey }
+    }
+  } catch {
+    // An unreadable choice falls back to the default rather than to no backup at all.
+  }
+  return remember(endpoint)
+}
+
+/** Use a verified self-hosted server from now on. */
+export async function setBackupEndpoint (endpoint: Required<BackupEndpoint>): Promise<void> {
+  await AsyncStorage.setItem(BACKUP_ENDPOINT_KEY, JSON.stringify(endpoint))
+  remember(endpoint)
+}
+
+/** Go back to the build's default server. */
+export async function resetBackupEndpoint (): Promise<void> {
+  await AsyncStorage.removeItem(BACKUP_ENDPOINT_KEY)
+  remember({ url: DEFAULT_BACKUP_URL })
+}
+
+/**
+ * A typed-in server address as the client needs it: scheme and host only.
+ *
+ * Every proof signs the request URI, so a path prefix the server does not see identically
+ * would fail every request (see DEFAULT_BACKUP_URL). Plain http is allowed only for a server
+ * on this machine or the emulator's host alias, i.e. the dev stand-in.
+ */
+export function normalizeBackupOrigin (input: string): string {
+  const trimmed = input.trim()
+  const url = new URL(/^[a-z]+:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`)
+  if (url.pathname.replace(/\/+$/, '') !== '' || url.search !== '' || url.hash !== '') {
+    throw new Error('A backup server address is an origin only, with no path')
+  }
+  const local = ['localhost', '127.0.0.1', '10.0.2.2'].includes(url.hostname)
+  if (url.protocol !== 'https:' && !(url.protocol === 'http:' && local)) {
+    throw new Error('A backup server address must use https')
+  }
+  return url.origin
+}
+
+function remember (endpoint: BackupEndpoint): BackupEndpoint {
+  if (cached != null && cached.url !== endpoint.url) pinServerIdentity(cached.url, undefined)
+  pinServerIdentity(endpoint.url, endpoint.serverIdentityKey)
+  cached = endpoint
+  return endpoint
+}
+
+/** Test seam. */
+export function resetBackupEndpointCache (): void {
+  if (cached != null) pinServerIdentity(cached.url, undefined)
+  cached = null
+}
@@ -0,0 +1,97 @@
+/**
+ * Copy a wallet's backup log from one server to another.
+ *
+ * Both servers address the account by the same pseudonym — it derives from the seed, not the
+ * server — and hold the same ciphertext, which neither can read. So a migration is a verbatim
+ * copy: every device's every generation, blob by blob, at the same sequence numbers. Each
+ * server computes the chain hash from the bytes it received, so the copy is checked entry by
+ * entry against the source's chain rather than trusted.
+ *
+ * Resumable. A generation the destination already holds part of continues from its head,
+ * provided that head is the source's entry at the same position; one that diverges stops the
+ * migration, since the destination then holds a log this wallet never wrote.
+ *
+ * Nothing here touches the push cursor. A cursor carried to a fully copied log simply keeps
+ * appending; if the source moved on mid-copy, the next push meets a sequence conflict and
+ * starts a new generation, as it does after any lost cursor.
+ */
+import { BackupClient, type DeviceSummary } from './client'
+import { BackupChainError, verifyLogChain } from './RemoteSyncReader'
+
+export interface MigrateDeps {
+  /** The wallet's m/0'/0' key. Both servers authenticate the same pseudonym from it. */
+  primaryKey: number[]
+  /** Supply a client or an origin for each side. */
+  from: BackupClient | string
+  to: BackupClient | string
+  /** Chunks copied or found already present, and how many the source holds in all. */
+  onProgress?: (chunks: number, total: number) => void
+}
+
+export interface MigrateResult {
+  generations: number
+  /** Chunks uploaded this run; ones the destination already held are not counted. */
+  copied: number
+}
+
+export async function migrateBackupLog (deps: MigrateDeps): Promise<MigrateResult> {
+  const from = resolve(deps.from, deps.primaryKey)
+  const to = resolve(deps.to, deps.primaryKey)
+
+  // Oldest first within each device, so an interrupted run leaves the destination with
+  // complete older snapshots rather than a newest one with holes.
+  const source = [...(await from.manifest())].sort(
+    (a, b) => a.deviceId.localeCompare(b.deviceId) || a.generation - b.generation
+  )
+  const present = new Map((await to.manifest()).map(d => [`${d.deviceId}/${d.generation}`, d]))
+  const total = source.reduce((sum, d) => sum + d.headSeq, 0)
+
+  let done = 0
+  let copied = 0
+  for (const summary of source) {
+    const entries = await from.index(summary.deviceId, summary.generation)
+    verifyLogChain(entries)
+
+    const start = resumeAt(present.get(`${summary.deviceId}/${summary.generation}`), summary, entries)
+    done += start
+    deps.onProgress?.(done, total)
+
+    for (const entry of entries.slice(start)) {
+      const blob = await from.blob(summary.deviceId, summary.generation, entry.seq)
+      const stored = await to.append(summary.deviceId, summary.generation, entry.seq, entry.prevSha256, blob)
+      if (stored.sha256 !== entry.sha256) {
+        throw new BackupChainError(
+          `migrated chunk ${summary.deviceId.slice(0, 8)}/${summary.generation}/${entry.seq} ` +
+            'does not hash to the source entry'
+        )
+      }
+      copied++
+      done++
+      deps.onProgress?.(done, total)
+    }
+  }
+
+  return { generations: source.length, copied }
+}
+
+/** How many of a generation's entries the destination already holds, checked by hash. */
+function resumeAt (
+  existing: DeviceSummary | undefined,
+  summary: DeviceSummary,
+  entries: Array<{ sha256: string }> // eslint-disable-line @typescript-eslint/array-type
+): number {
+  if (existing == null) return 0
+  if (existing.headSeq > entries.length || entries[existing.headSeq - 1]?.sha256 !== existing.headSha256) {
+    throw new BackupChainError(
+      `destination already holds a different log for ${summary.deviceId.slice(0, 8)} ` +
+        `generation ${summary.generation}`
+    )
+  }
+  return existing.headSeq
+}
+
+function resolve (side: BackupClient | string, primaryKey: number[]): BackupClient {
+  if (typeof side !== 'string') return side
+  if (side === '') throw new Error('migrateBackupLog requires a client or a baseUrl for each server')
+  return new BackupClient(side, primaryKey)
+}
@@ -0,0 +1,109 @@
+/**
+ * Roll the wallet back to a chosen point in one of its backup generations.
+ *
+ * `restoreFromBackup` replays into a fresh database, and this keeps it that way: the chosen
+ * chunks land in a NEW database file, named with a later timestamp than any registered for
+ * this wallet, and only a restore that completed is registered. The wallet build always
+ * opens the newest registered file, so the rollback takes effect on the next build and a
+ * failure leaves the current database exactly as it was. The old file stays registered
+ * and on disk — the rollback is itself reversible through a database export.
+ *
+ * The caller stops the monitor first and rebuilds the wallet after, successful or not:
+ *
+ *  · **This device's log starts a new generation.** The push cursor describes the old
+ *    database's records, and carrying it over would append the rolled-back state as a
+ *    delta on top of the state it replaced. A new generation is a full snapshot of the
+ *    database it was taken from, so the first push after the rebuild writes exactly the
+ *    rolled-back wallet. Were the push task still running, its next save would undo this.
+ *  · **Peers are not re-merged.** Live-sync cursors are left where they were, so what this
+ *    device had already merged from its other devices is not merged back over the rollback.
+ *    Anything those devices write from now on still arrives.
+ */
+import * as SQLite from 'expo-sqlite'
+import { PrivateKey } from '@bsv/sdk'
+import { StorageProvider } from '@bsv/wallet-toolbox-mobile'
+import { toWalletChain, type AppChain } from '@/context/config'
+import { StorageExpoSQLite } from '@/storage'
+import { getRegisteredDbs, registerDb, selectLatestDb, parseTimestampFromFilename } from '@/utils/walletDbRegistry'
+import type { BackupClient } from './client'
+import { freshCursor, loadCursor, saveCursor } from './cursor'
+import { backupPseudonym } from './derive'
+import { getDeviceId } from './deviceId'
+import { restoreFromBackup, type RestoreResult } from './restore'
+
+export interface PointInTimeDeps {
+  /** The wallet's m/0'/0' key. Its public key is the wallet's identity key. */
+  primaryKey: number[]
+  /** The network whose database is being replaced. */
+  chain: AppChain
+  /** Supply exactly one of these. */
+  baseUrl?: string
+  client?: BackupClient
+  deviceId: string
+  generation: number
+  /** Last chunk to replay. Defaults to the whole generation. */
+  throughSeq?: number
+  onProgress?: (chunks: number, total: number) => void
+  /** Injectable clock, for tests. */
+  now?: () => number
+}
+
+export interface PointInTimeResult extends RestoreResult {
+  /** The registered database file the next wallet build will open. */
+  databaseName: string
+}
+
+export async function restoreToNewDatabase (deps: PointInTimeDeps): Promise<PointInTimeResult> {
+  const identityKey = new PrivateKey(deps.primaryKey).toPublicKey().toString()
+  const keySuffix = identityKey.slice(-8)
+  const databaseName = await nextDatabaseName(keySuffix, deps.chain, (deps.now ?? Date.now)())
+
+  const storage = new StorageExpoSQLite({
+    ...StorageProvider.createStorageBaseOptions(toWalletChain(deps.chain)),
+    feeModel: { model: 'sat/kb', value: 100 },
+    identityKey,
+    databaseName
+  })
+
+  let result: RestoreResult
+  try {
+    await storage.migrate('bsv-wallet', identityKey)
+    result = await restoreFromBackup({
+      storage,
+      primaryKey: deps.primaryKey,
+      identityKey,
+      baseUrl: deps.baseUrl,
+      client: deps.client,
+      deviceId: deps.deviceId,
+      generation: deps.generation,
+      throughSeq: deps.throughSeq,
+      onProgress: deps.onProgress
+    })
+  } catch (e) {
+    await storage.destroy().catch(() => {})
+    // Never registered, so nothing would ever open it; removing it just returns the space.
+    await SQLite.deleteDatabaseAsync(databaseName).catch(() => {})
+    throw e
+  }
+  await storage.destroy()
+
+  await registerDb(keySuffix, deps.chain, databaseName)
+
+  const pseudonym = backupPseudonym(deps.primaryKey)
+  const ownDeviceId = await getDeviceId()
+  const cursor = await loadCursor(pseudonym, ownDeviceId)
+  await saveCursor(pseudonym, ownDeviceId, freshCursor(cursor.generation + 1))
+
+  return { ...result, databaseName }
+}
+
+/**
+ * A timestamped name that sorts after every registered database, even one imported with a
+ * timestamp from the future or created earlier in the same second.
+ */
+async function nextDatabaseName (keySuffix: string, chain: AppChain, nowMs: number): Promise<string> {
+  const known = await getRegisteredDbs(keySuffix, chain)
+  const latest = known.length === 0 ? 0 : parseTimestampFromFilename(selectLatestDb(known))
+  const ts = Math.max(Math.floor(nowMs / 1000), latest + 1)
+  return `wallet-${keySuffix}-${chain}net-${ts}.db`
+}
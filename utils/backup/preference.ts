@@ -31,3 +31,24 @@ export async function isBackupPushEnabled (): Promise<boolean> {
 export async function setBackupPushEnabled (enabled: boolean): Promise<void> {
   await AsyncStorage.setItem(BACKUP_PUSH_ENABLED_KEY, enabled ? 'true' : 'false')
 }
+
+export const LIVE_SYNC_ENABLED_KEY = 'backupLiveSyncEnabled'
+
+/**
+ * Whether this device pulls and merges the other devices' logs (./sync.ts).
+ *
+ * The opposite default to pushing, and deliberately so. Pushing only ever copies this
+ * device's own data out; pulling writes another device's records into this database, which
+ * the user should have asked for. Absence and unreadable values mean OFF.
+ */
+export async function isLiveSyncEnabled (): Promise<boolean> {
+  try {
+    return (await AsyncStorage.getItem(LIVE_SYNC_ENABLED_KEY)) === 'true'
+  } catch {
+    return false
+  }
+}
+
+export async function setLiveSyncEnabled (enabled: boolean): Promise<void> {
+  await AsyncStorage.setItem(LIVE_SYNC_ENABLED_KEY, enabled ? 'true' : 'false')
+}
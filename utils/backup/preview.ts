@@ -0,0 +1,133 @@
+/**
+ * What a backup generation holds, at every point a restore could stop.
+ *
+ * The server sees only ciphertext, so the preview is built here: each chunk is decrypted
+ * and folded into a running picture of the wallet — the same records a restore would
+ * merge, keyed by the ids the writing device gave them — and a summary is taken after
+ * every chunk. Those summaries are the restore points the generation browser offers.
+ *
+ * Decrypting a whole generation is the same work as restoring it, minus the database
+ * writes, so this runs on demand for one generation at a time, never for the manifest.
+ */
+import type { SyncChunk } from '@bsv/wallet-toolbox-mobile/out/src/sdk/WalletStorage.interfaces'
+import { BALANCE_BASKET, BALANCE_TX_STATUS } from '@/storage/methods/walletBalanceSql'
+import { BackupClient } from './client'
+import { decodeChunk } from './codec'
+import { deriveBackupWallet } from './derive'
+import { verifyLogChain } from './RemoteSyncReader'
+
+export interface PreviewDeps {
+  /** The wallet's m/0'/0' key. Decrypts the chunks. */
+  primaryKey: number[]
+  /** Supply exactly one of these. */
+  baseUrl?: string
+  client?: BackupClient
+  deviceId: string
+  generation: number
+  /** Chunks decrypted so far, and how many the generation holds. */
+  onProgress?: (chunks: number, total: number) => void
+}
+
+/** The wallet as a restore stopping after `seq` would leave it. */
+export interface RestorePoint {
+  seq: number
+  /** When the writing device appended this chunk. */
+  writtenAt: string
+  txCount: number
+  /** Spendable satoshis in the default basket, counted as the wallet screen counts them. */
+  balance: number
+  /** Creation time of the oldest and newest transaction held at this point. */
+  firstTxAt?: string
+  lastTxAt?: string
+}
+
+export interface GenerationPreview {
+  deviceId: string
+  generation: number
+  /** One per chunk, in sequence order. The last one is a full restore. */
+  points: RestorePoint[]
+}
+
+export async function previewGeneration (deps: PreviewDeps): Promise<GenerationPreview> {
+  const client = resolveClient(deps)
+  const wallet = deriveBackupWallet(deps.primaryKey)
+
+  const entries = await client.index(deps.deviceId, deps.generation)
+  verifyLogChain(entries)
+
+  const state = emptyState()
+  const points: RestorePoint[] = []
+  for (const entry of entries) {
+    const ciphertext = await client.blob(deps.deviceId, deps.generation, entry.seq)
+    foldChunk(state, await decodeChunk(wallet, Array.from(ciphertext)))
+    points.push({ seq: entry.seq, writtenAt: entry.createdAt, ...summarize(state) })
+    deps.onProgress?.(points.length, entries.length)
+  }
+
+  return { deviceId: deps.deviceId, generation: deps.generation, points }
+}
+
+interface FoldState {
+  baskets: Map<number, string>
+  transactions: Map<number, { status: string, createdAt?: string }>
+  outputs: Map<number, { basketId?: number, transactionId: number, spendable: boolean, satoshis: number }>
+}
+
+function emptyState (): FoldState {
+  return { baskets: new Map(), transactions: new Map(), outputs: new Map() }
+}
+
+/**
+ * Later chunks carry later versions of the same records, so each one replaces what was
+ * seen before under its id — the replay's own last-writer-wins, within one writer.
+ */
+function foldChunk (state: FoldState, chunk: SyncChunk): void {
+  const c = chunk as unknown as Record<string, Array<Record<string, unknown>> | undefined> // eslint-disable-line @typescript-eslint/array-type
+
+  for (const b of c.outputBaskets ?? []) {
+    state.baskets.set(Number(b.basketId), b.isDeleted === true ? '' : String(b.name))
+  }
+  for (const t of c.transactions ?? []) {
+    state.transactions.set(Number(t.transactionId), { status: String(t.status), createdAt: iso(t.created_at) })
+  }
+  for (const o of c.outputs ?? []) {
+    state.outputs.set(Number(o.outputId), {
+      basketId: o.basketId == null ? undefined : Number(o.basketId),
+      transactionId: Number(o.transactionId),
+      spendable: o.spendable === true || o.spendable === 1,
+      satoshis: Number(o.satoshis ?? 0)
+    })
+  }
+}
+
+function summarize (state: FoldState): Omit<RestorePoint, 'seq' | 'writtenAt'> {
+  let balance = 0
+  for (const o of state.outputs.values()) {
+    if (!o.spendable || o.basketId == null || state.baskets.get(o.basketId) !== BALANCE_BASKET) continue
+    const tx = state.transactions.get(o.transactionId)
+    if (tx != null && BALANCE_TX_STATUS.includes(tx.status)) balance += o.satoshis
+  }
+
+  let firstTxAt: string | undefined
+  let lastTxAt: string | undefined
+  for (const { createdAt } of state.transactions.values()) {
+    if (createdAt == null) continue
+    if (firstTxAt == null || createdAt < firstTxAt) firstTxAt = createdAt
+    if (lastTxAt == null || createdAt > lastTxAt) lastTxAt = createdAt
+  }
+
+  return { txCount: state.transactions.size, balance, firstTxAt, lastTxAt }
+}
+
+function iso (raw: unknown): string | undefined {
+  if (raw == null) return undefined
+  return raw instanceof Date ? raw.toISOString() : String(raw)
+}
+
+function resolveClient (deps: { primaryKey: number[], baseUrl?: string, client?: BackupClient }): BackupClient {
+  if (deps.client != null) return deps.client
+  if (deps.baseUrl == null || deps.baseUrl === '') {
+    throw new Error('previewGeneration requires either a client or a baseUrl')
+  }
+  return new BackupClient(deps.baseUrl, deps.primaryKey)
+}
@@ -23,6 +23,11 @@ export interface RestoreDeps {
   deviceId?: string
   /** Defaults to the newest generation for that device. */
   generation?: number
+  /**
+   * Replay only up to and including this chunk — a point-in-time restore, for rolling back
+   * past a bad recent state. Defaults to the whole generation.
+   */
+  throughSeq?: number
   /**
    * Called after each replayed chunk, with how many have landed and how many the
    * generation holds. `total` is 0 until the index has been read, i.e. before the
@@ -35,6 +40,8 @@ export interface RestoreResult {
   chunks: number
   deviceId: string
   generation: number
+  /** The last sequence replayed, when the restore stopped at a chosen point. */
+  throughSeq?: number
 }
 
 /** What the user can choose between when more than one device has a backup. */
@@ -79,7 +86,9 @@ export async function restoreFromBackup (deps: RestoreDeps): Promise<RestoreResu
     'backup-restore'
   )
 
-  const reader = new RemoteSyncReader(client, wallet, chosen.deviceId, chosen.generation, settings)
+  const reader = new RemoteSyncReader(
+    client, wallet, chosen.deviceId, chosen.generation, settings, deps.throughSeq
+  )
 
   let chunks = 0
   for (;;) {
@@ -109,7 +118,7 @@ export async function restoreFromBackup (deps: RestoreDeps): Promise<RestoreResu
     if (chunks > reader.length) break
   }
 
-  return { chunks, deviceId: chosen.deviceId, generation: chosen.generation }
+  return { chunks, deviceId: chosen.deviceId, generation: chosen.generation, throughSeq: deps.throughSeq }
 }
 
 function pickTarget (
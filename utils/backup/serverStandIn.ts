@@ -0,0 +1,339 @@
+/**
+ * In-process stand-in for the backup log server.
+ *
+ * Speaks the same `/v1` routes, status codes and error envelope as the Go service
+ * (go-private-backup-cache; see the Routes table in
+ * docs/superpowers/specs/2026-08-14-encrypted-wallet-backup-log-design.md), behind a
+ * `fetch`-shaped entry point. That is the seam BackupClient already takes for tests, so
+ * everything above the wire — the real client, push, restore, erase, live sync — runs
+ * unmodified against it:
+ *
+ *     const server = new BackupServerStandIn()
+ *     await pushOnce({ ..., client: server.client(primaryKey) })
+ *
+ * scripts/backup-stand-in.ts serves the same handler over HTTP as a dev-mode target.
+ *
+ * What it keeps faithfully, because callers depend on it:
+ *
+ *  · Accounts addressed by the proof's identity key alone — never a URL parameter.
+ *  · Contiguous 1-based sequences per (device, generation), `409 ERR_SEQ_CONFLICT` otherwise.
+ *  · `413 ERR_BLOB_TOO_LARGE` before authentication, against the cap it publishes on
+ *    `GET /v1/limits`.
+ *  · The two-generation retention floor on pruning, and erasure that ignores it.
+ *  · A server identity key, published on `/v1/limits` and proved on `/v1/identity`.
+ *
+ * What it does not do: verify proof signatures, rate-limit, or persist anything. It trusts
+ * the identity key a request claims, which is fine for a test double and a laptop, and is
+ * exactly why it must never be reachable from anywhere else.
+ */
+import { Hash, PrivateKey, Utils } from '@bsv/sdk'
+import { BackupClient, ERR_BLOB_TOO_LARGE, ERR_SEQ_CONFLICT, type DeviceSummary, type LogEntry } from './client'
+import { IDENTITY_CHALLENGE_PREFIX, MAX_BLOB_BYTES } from './constants'
+
+/** Origin the in-process client addresses. Never resolved: requests go straight to `fetch`. */
+export const STAND_IN_ORIGIN = 'http://backup-stand-in.invalid'
+
+export interface StandInOptions {
+  /** Published on /v1/limits and enforced on append. Defaults to the historic 1 MiB. */
+  maxBlobBytes?: number
+  /** Injectable clock for `createdAt` / `updatedAt`, for tests. */
+  now?: () => Date
+  /** The server's identity. Defaults to a random one per instance. */
+  identity?: PrivateKey
+}
+
+/** Envelope for a refused request, as the Go service's `responses.WriteError` writes it. */
+export interface StandInError {
+  status: 'error'
+  code: string
+  description: string
+}
+
+interface StoredEntry extends LogEntry {
+  ciphertext: Uint8Array
+}
+
+const DEVICE_ID_PATTERN = /^[a-f0-9]{32}$/
+const IDENTITY_KEY_PATTERN = /^0[23][a-f0-9]{64}$/
+/** The server keeps a device's current and previous generation; older ones may be pruned. */
+const RETAINED_GENERATIONS = 2
+const INDEX_PAGE_MAX = 1000
+
+export class BackupServerStandIn {
+  /** The server identity every proof is addressed to, published on /v1/limits. */
+  readonly identityKey: string
+  readonly maxBlobBytes: number
+
+  private readonly identity: PrivateKey
+  /** pseudonym → `${deviceId}/${generation}` → entries, in sequence order. */
+  private readonly accounts = new Map<string, Map<string, StoredEntry[]>>()
+  private readonly now: () => Date
+
+  constructor (options: StandInOptions = {}) {
+    this.identity = options.identity ?? PrivateKey.fromRandom()
+    this.identityKey = this.identity.toPublicKey().toString()
+    this.maxBlobBytes = options.maxBlobBytes ?? MAX_BLOB_BYTES
+    this.now = options.now ?? (() => new Date())
+  }
+
+  /** Transport for `new BackupClient(STAND_IN_ORIGIN, key, server.fetch)`. */
+  readonly fetch: typeof fetch = async (input, init) => {
+    const url = new URL(input instanceof Request ? input.url : String(input))
+    const method = (init?.method ?? (input instanceof Request ? input.method : 'GET')).toUpperCase()
+    const headers = new Headers(init?.headers ?? (input instanceof Request ? input.headers : undefined))
+    return await this.handle(method, url, headers, await bodyBytes(init?.body))
+  }
+
+  /** A real BackupClient for `primaryKey`, wired to this server. */
+  client (primaryKey: number[]): BackupClient {
+    return new BackupClient(STAND_IN_ORIGIN, primaryKey, this.fetch)
+  }
+
+  /** One request, routed as the Go service routes it. */
+  async handle (method: string, url: URL, headers: Headers, body: Uint8Array | undefined): Promise<Response> {
+    const path = url.pathname.replace(/\/+$/, '')
+    const parts = path.split('/').filter(p => p !== '')
+
+    // The unauthenticated routes.
+    if (method === 'GET' && path === '/health') return json(200, { status: 'ok' })
+    if (method === 'GET' && path === '/v1/limits') {
+      return json(200, {
+        maxBlobBytes: this.maxBlobBytes,
+        maxBodyBytes: this.maxBlobBytes * 2,
+        serverIdentityKey: this.identityKey
+      })
+    }
+    if (method === 'GET' && path === '/v1/identity') {
+      const nonce = url.searchParams.get('nonce') ?? ''
+      if (!/^[a-f0-9]{32,128}$/.test(nonce)) {
+        return error(400, 'ERR_INVALID_NONCE', 'Nonce must be 32 to 128 lowercase hex characters.')
+      }
+      const signature = this.identity.sign(Utils.toArray(IDENTITY_CHALLENGE_PREFIX + nonce, 'utf8'))
+      return json(200, { serverIdentityKey: this.identityKey, signature: signature.toDER('hex') })
+    }
+
+    // Oversize is refused before authentication, so a doomed upload costs no proof check.
+    if (method === 'POST' && (body?.length ?? 0) > this.maxBlobBytes) {
+      return error(413, ERR_BLOB_TOO_LARGE, 'Blob exceeds the maximum size.')
+    }
+
+    const pseudonym = identityOf(headers)
+    if (pseudonym == null) return error(401, 'ERR_AUTH_REQUIRED', 'Authentication required.')
+
+    if (parts[0] !== 'v1') return error(404, 'ERR_NOT_FOUND', `No route for ${method} ${path}.`)
+    const [, resource, deviceId, last] = parts
+
+    if (method === 'GET' && resource === 'manifest' && parts.length === 2) {
+      return json(200, { status: 'success', devices: this.manifest(pseudonym) })
+    }
+    if (method === 'DELETE' && resource === 'account' && parts.length === 2) {
+      return json(200, { status: 'success', deleted: this.eraseAccount(pseudonym) })
+    }
+
+    if (deviceId == null || parts.length > 4) {
+      return error(404, 'ERR_NOT_FOUND', `No route for ${method} ${path}.`)
+    }
+    if (!DEVICE_ID_PATTERN.test(deviceId)) {
+      return error(400, 'ERR_INVALID_DEVICE_ID', 'Device id must be 32 lowercase hex characters.')
+    }
+
+    if (resource === 'log' && method === 'POST' && last == null) {
+      return this.append(pseudonym, deviceId, url.searchParams, headers, body ?? new Uint8Array())
+    }
+    if (resource === 'log' && method === 'GET' && last == null) {
+      return this.index(pseudonym, deviceId, url.searchParams)
+    }
+    if (resource === 'log' && method === 'GET') {
+      return this.blob(pseudonym, deviceId, positive(url.searchParams.get('generation')), positive(last))
+    }
+    if (resource === 'generation' && method === 'DELETE' && last != null) {
+      return this.prune(pseudonym, deviceId, positive(last))
+    }
+    return error(404, 'ERR_NOT_FOUND', `No route for ${method} ${path}.`)
+  }
+
+  /** Every entry one log holds, for assertions. Empty when there is no such log. */
+  entries (pseudonym: string, deviceId: string, generation: number): LogEntry[] {
+    return (this.logs(pseudonym).get(logKey(deviceId, generation)) ?? []).map(entryOf)
+  }
+
+  /**
+   * Overwrite a stored blob in place, leaving its index entry alone — a server-side
+   * corruption, for exercising the client's checks. Returns false when there is no such blob.
+   */
+  tamper (pseudonym: string, deviceId: string, generation: number, seq: number, ciphertext: number[]): boolean {
+    const entry = this.logs(pseudonym).get(logKey(deviceId, generation))?.[seq - 1]
+    if (entry == null) return false
+    entry.ciphertext = Uint8Array.from(ciphertext)
+    return true
+  }
+
+  private append (
+    pseudonym: string,
+    deviceId: string,
+    params: URLSearchParams,
+    headers: Headers,
+    body: Uint8Array
+  ): Response {
+    if (headers.get('Content-Type') !== 'application/octet-stream') {
+      return error(415, 'ERR_UNSUPPORTED_MEDIA_TYPE', 'Body must be application/octet-stream.')
+    }
+    const seq = positive(params.get('seq'))
+    const generation = positive(params.get('generation'))
+    if (seq == null || generation == null) {
+      return error(400, 'ERR_INVALID_PARAMS', 'seq and generation must be positive integers.')
+    }
+
+    const logs = this.logs(pseudonym, true)
+    const key = logKey(deviceId, generation)
+    const log = logs.get(key) ?? []
+    const expected = log.length + 1
+    if (seq !== expected) {
+      return error(409, ERR_SEQ_CONFLICT, `sequence conflict: expected seq ${expected}, got ${seq}`)
+    }
+
+    // Stored as given, like the real store: the chain is the CLIENT's to verify on read.
+    const sha256 = Utils.toHex(Hash.sha256(Array.from(body)))
+    const prev = params.get('prevSha256')
+    log.push({
+      seq,
+      sha256,
+      prevSha256: prev == null || prev === '' ? undefined : prev,
+      size: body.length,
+      createdAt: this.now().toISOString(),
+      ciphertext: body.slice()
+    })
+    logs.set(key, log)
+    return json(201, { status: 'success', seq, sha256, size: body.length })
+  }
+
+  private manifest (pseudonym: string): DeviceSummary[] {
+    const out: DeviceSummary[] = []
+    for (const [key, log] of this.logs(pseudonym)) {
+      if (log.length === 0) continue
+      const [deviceId, generation] = key.split('/')
+      const head = log[log.length - 1]
+      out.push({
+        deviceId,
+        generation: Number(generation),
+        headSeq: head.seq,
+        headSha256: head.sha256,
+        totalBytes: log.reduce((n, e) => n + e.size, 0),
+        updatedAt: head.createdAt
+      })
+    }
+    return out.sort((a, b) => a.deviceId.localeCompare(b.deviceId) || a.generation - b.generation)
+  }
+
+  private index (pseudonym: string, deviceId: string, params: URLSearchParams): Response {
+    const generation = positive(params.get('generation'))
+    if (generation == null) {
+      return error(400, 'ERR_INVALID_PARAMS', 'generation must be a positive integer.')
+    }
+    if (!this.hasDevice(pseudonym, deviceId)) {
+      return error(404, 'ERR_DEVICE_NOT_FOUND', 'No log for this device.')
+    }
+    const from = positive(params.get('from')) ?? 1
+    const limit = Math.min(positive(params.get('limit')) ?? INDEX_PAGE_MAX, INDEX_PAGE_MAX)
+    const log = this.logs(pseudonym).get(logKey(deviceId, generation)) ?? []
+    return json(200, { status: 'success', entries: log.slice(from - 1, from - 1 + limit).map(entryOf) })
+  }
+
+  private blob (pseudonym: string, deviceId: string, generation?: number, seq?: number): Response {
+    if (generation == null || seq == null) {
+      return error(400, 'ERR_INVALID_PARAMS', 'seq and generation must be positive integers.')
+    }
+    const entry = this.logs(pseudonym).get(logKey(deviceId, generation))?.[seq - 1]
+    if (entry == null) return error(404, 'ERR_BLOB_NOT_FOUND', 'No such blob.')
+    return new Response(entry.ciphertext.slice(), {
+      status: 200,
+      headers: { 'Content-Type': 'application/octet-stream' }
+    })
+  }
+
+  private prune (pseudonym: string, deviceId: string, generation?: number): Response {
+    if (generation == null) {
+      return error(400, 'ERR_INVALID_PARAMS', 'generation must be a positive integer.')
+    }
+    const logs = this.logs(pseudonym)
+    const key = logKey(deviceId, generation)
+    if (!logs.has(key)) return error(404, 'ERR_BLOB_NOT_FOUND', 'No such generation.')
+
+    const newest = Math.max(...[...logs.keys()]
+      .filter(k => k.startsWith(`${deviceId}/`))
+      .map(k => Number(k.split('/')[1])))
+    if (generation > newest - RETAINED_GENERATIONS) {
+      return error(409, 'ERR_RETENTION_GUARD',
+        `refusing to delete generation ${generation}: within the two retained generations`)
+    }
+    logs.delete(key)
+    return new Response(null, { status: 204 })
+  }
+
+  /** Erasure: every generation of every device, retention floor ignored. Idempotent. */
+  private eraseAccount (pseudonym: string): number {
+    let deleted = 0
+    for (const log of this.logs(pseudonym).values()) deleted += log.length
+    this.accounts.delete(pseudonym)
+    return deleted
+  }
+
+  private hasDevice (pseudonym: string, deviceId: string): boolean {
+    return [...this.logs(pseudonym).keys()].some(k => k.startsWith(`${deviceId}/`))
+  }
+
+  private logs (pseudonym: string, create = false): Map<string, StoredEntry[]> {
+    let logs = this.accounts.get(pseudonym)
+    if (logs == null) {
+      logs = new Map()
+      if (create) this.accounts.set(pseudonym, logs)
+    }
+    return logs
+  }
+}
+
+const logKey = (deviceId: string, generation: number): string => `${deviceId}/${generation}`
+
+function entryOf (e: StoredEntry): LogEntry {
+  return { seq: e.seq, sha256: e.sha256, prevSha256: e.prevSha256, size: e.size, createdAt: e.createdAt }
+}
+
+function positive (raw: string | null | undefined): number | undefined {
+  if (raw == null || !/^\d+$/.test(raw)) return undefined
+  const n = Number(raw)
+  return n >= 1 ? n : undefined
+}
+
+/**
+ * The identity key the request's auth proof claims. Not verified — see the module doc.
+ * The proof is the client's base64 JSON `X-Bsv-Auth` header.
+ */
+function identityOf (headers: Headers): string | undefined {
+  const header = headers.get('X-Bsv-Auth')
+  if (header == null || header === '') return undefined
+  try {
+    const proof = JSON.parse(Utils.toUTF8(Utils.toArray(header, 'base64'))) as { identityKey?: unknown }
+    const key = typeof proof.identityKey === 'string' ? proof.identityKey : undefined
+    return key != null && IDENTITY_KEY_PATTERN.test(key) ? key : undefined
+  } catch {
+    return undefined
+  }
+}
+
+async function bodyBytes (body: BodyInit | null | undefined): Promise<Uint8Array | undefined> {
+  if (body == null) return undefined
+  if (body instanceof Uint8Array) return body
+  if (body instanceof ArrayBuffer) return new Uint8Array(body)
+  if (typeof body === 'string') return Uint8Array.from(Utils.toArray(body, 'utf8'))
+  if (typeof (body as Blob).arrayBuffer === 'function') return new Uint8Array(await (body as Blob).arrayBuffer())
+  throw new Error('backup stand-in: unsupported request body')
+}
+
+function json (status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } })
+}
+
+function error (status: number, code: string, description: string): Response {
+  const body: StandInError = { status: 'error', code, description }
+  return json(status, body)
+}
@@ -0,0 +1,266 @@
+/**
+ * Live sync between devices running the same wallet.
+ *
+ * Every device already appends its own deltas to the backup log under its own device id
+ * (./push.ts). Live sync is the other direction: each pass looks at the manifest, picks a
+ * peer whose log has moved past what this device has merged, and replays the next chunk of
+ * it into the local database through the same `processSyncChunk` path a restore uses.
+ *
+ * Why this converges:
+ *
+ *  · **Idempotent merge.** `processSyncChunk` matches records by their natural identity
+ *    (txid, reference, basket name…) and keeps one sync map per source device in that
+ *    device's `sync_states` row, so a chunk replayed twice — after a crash between the
+ *    merge and the cursor save, or after a peer starts a new generation — changes nothing
+ *    the second time. Records this device wrote, echoed back in a peer's log, merge as
+ *    no-ops the same way.
+ *  · **Deterministic conflicts.** When both sides changed the same record, the toolbox's
+ *    merge keeps the copy with the later `updated_at` — the rule every device applies to
+ *    the same pair of copies, so they settle on the same answer whatever order the chunks
+ *    arrive in. Peers are visited in device-id order so a pass is reproducible too.
+ *  · **Chained logs.** A peer's index is checked for gaps and forks before anything in it
+ *    is merged, and the cursor remembers the hash of the last entry taken. If the peer's
+ *    log no longer carries that hash at that position it was rewritten underneath us, and
+ *    the generation is merged again from the start rather than trusted from the middle.
+ *
+ * One chunk per pass, for the same reason as pushing: the monitor does not yield between
+ * tasks. `more` tells the task to come straight back.
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage'
+import type { StorageExpoSQLite } from '@/storage'
+import { BackupClient, type DeviceSummary, type LogEntry } from './client'
+import { decodeChunk } from './codec'
+import { syncStateKey } from './constants'
+import { backupPseudonym, deriveBackupWallet } from './derive'
+import { getDeviceId } from './deviceId'
+import { isLiveSyncEnabled } from './preference'
+import { verifyLogChain } from './RemoteSyncReader'
+
+export interface SyncDeps {
+  storage: StorageExpoSQLite
+  /** The wallet's m/0'/0' key. The backup identity and decryption key derive from it. */
+  primaryKey: number[]
+  /** The wallet's real identity key — used only for the LOCAL user lookup, never sent. */
+  identityKey: string
+  /** Supply exactly one of these. */
+  baseUrl?: string
+  client?: BackupClient
+  deviceId?: string
+  /** Injectable clock, for tests. */
+  now?: () => number
+}
+
+/** How far this device has merged one peer's log, and how that went. */
+export interface PeerSyncState {
+  deviceId: string
+  /** Generation the cursor is in. */
+  generation: number
+  /** Last sequence merged from that generation; 0 before the first. */
+  seq: number
+  /** sha256 of that entry, to notice the log being rewritten underneath us. */
+  sha256?: string
+  /** When this device last had everything the peer had published. */
+  lastSyncAt?: number
+  /** When the peer last wrote to its log, per the manifest. */
+  peerUpdatedAt?: string
+  /** Why the last attempt to merge from this peer failed. Cleared on the next success. */
+  lastError?: string
+}
+
+export interface SyncResult {
+  /** Chunks merged this pass (0 or 1). */
+  pulled: number
+  /** True when some peer still has chunks this device has not merged. */
+  more: boolean
+  /** Every known peer, in device-id order, as of the end of the pass. */
+  peers: PeerSyncState[]
+  /** True when live sync is switched off; nothing was read or merged. */
+  optedOut?: boolean
+}
+
+/** The name the merge's bookkeeping row carries for a peer, next to restore's 'backup-restore'. */
+const SYNC_STATE_NAME = 'backup-sync'
+
+/**
+ * Merge at most one chunk from one peer.
+ *
+ * A peer whose log cannot be merged — a broken chain, or a blob that will not decrypt — has
+ * the error recorded against it and the pass throws, so the task backs off. Peers that have
+ * not failed are tried first, so one broken log does not stop the others from syncing.
+ */
+export async function syncOnce (deps: SyncDeps): Promise<SyncResult> {
+  if (!(await isLiveSyncEnabled())) {
+    return { pulled: 0, more: false, peers: [], optedOut: true }
+  }
+
+  const now = deps.now ?? Date.now
+  const client = resolveClient(deps)
+  const pseudonym = backupPseudonym(deps.primaryKey)
+  const deviceId = deps.deviceId ?? (await getDeviceId())
+
+  const peers = newestPerPeer(await client.manifest(), deviceId)
+  // A peer missing from the manifest has been erased; its cursor means nothing now.
+  const known = await loadSyncState(pseudonym, deviceId)
+  const state = peers.map(p => cursorFor(known[p.deviceId], p))
+
+  const behind = state
+    .filter((s, i) => isBehind(s, peers[i]))
+    .sort((a, b) => Number(a.lastError != null) - Number(b.lastError != null))
+
+  for (const s of state) {
+    if (!behind.includes(s)) s.lastSyncAt = now()
+  }
+  if (behind.length === 0) {
+    await saveSyncState(pseudonym, deviceId, state)
+    return { pulled: 0, more: false, peers: state }
+  }
+
+  const target = behind[0]
+  const summary = peers.find(p => p.deviceId === target.deviceId)!
+  try {
+    const entry = await nextEntry(client, target, summary)
+    if (entry == null) {
+      // The index is read after the manifest, so it can only be longer. Shorter means the
+      // server disagrees with itself; skipping ahead would leave a hole, so wait it out.
+      throw new Error(`peer log ends before its published head (sequence ${summary.headSeq})`)
+    }
+    await mergeEntry(deps, client, target, entry)
+    target.seq = entry.seq
+    target.sha256 = entry.sha256
+    target.lastError = undefined
+    if (!isBehind(target, summary)) target.lastSyncAt = now()
+  } catch (e) {
+    target.lastError = e instanceof Error ? e.message : String(e)
+    await saveSyncState(pseudonym, deviceId, state)
+    throw e
+  }
+
+  await saveSyncState(pseudonym, deviceId, state)
+  return {
+    pulled: 1,
+    more: state.some((s, i) => isBehind(s, peers[i])),
+    peers: state
+  }
+}
+
+/** Peer state as last saved, for the settings screen before the first pass has run. */
+export async function loadPeerSyncState (primaryKey: number[], deviceId?: string): Promise<PeerSyncState[]> {
+  const known = await loadSyncState(backupPseudonym(primaryKey), deviceId ?? (await getDeviceId()))
+  return Object.values(known).sort((a, b) => a.deviceId.localeCompare(b.deviceId))
+}
+
+/** Each other device's newest generation, in device-id order. */
+function newestPerPeer (devices: DeviceSummary[], ownDeviceId: string): DeviceSummary[] {
+  const newest = new Map<string, DeviceSummary>()
+  for (const d of devices) {
+    if (d.deviceId === ownDeviceId) continue
+    const seen = newest.get(d.deviceId)
+    if (seen == null || d.generation > seen.generation) newest.set(d.deviceId, d)
+  }
+  return [...newest.values()].sort((a, b) => a.deviceId.localeCompare(b.deviceId))
+}
+
+/**
+ * The saved cursor for a peer, moved to its newest generation if it has rotated.
+ *
+ * A new generation is a full snapshot, so it is merged from the beginning; the records it
+ * shares with the old one merge as no-ops. A generation going BACKWARDS means the peer's log
+ * was erased and restarted, and is handled the same way.
+ */
+function cursorFor (saved: PeerSyncState | undefined, peer: DeviceSummary): PeerSyncState {
+  const base: PeerSyncState = saved ?? { deviceId: peer.deviceId, generation: peer.generation, seq: 0 }
+  const moved = base.generation !== peer.generation
+    ? { ...base, generation: peer.generation, seq: 0, sha256: undefined }
+    : { ...base }
+  return { ...moved, peerUpdatedAt: peer.updatedAt }
+}
+
+function isBehind (s: PeerSyncState, peer: DeviceSummary): boolean {
+  return s.generation !== peer.generation || s.seq < peer.headSeq
+}
+
+/**
+ * The next index entry to merge for `cursor`, rewinding it to the start of the generation
+ * if the entry it last took is no longer what the log holds at that position.
+ */
+async function nextEntry (
+  client: BackupClient,
+  cursor: PeerSyncState,
+  peer: DeviceSummary
+): Promise<LogEntry | undefined> {
+  const entries = await client.index(peer.deviceId, cursor.generation)
+  verifyLogChain(entries)
+
+  if (cursor.seq > 0 && entries[cursor.seq - 1]?.sha256 !== cursor.sha256) {
+    console.log(
+      `[backup] peer ${peer.deviceId.slice(0, 8)} rewrote generation ${cursor.generation}; ` +
+        'merging it again from the start'
+    )
+    cursor.seq = 0
+    cursor.sha256 = undefined
+  }
+  return entries[cursor.seq]
+}
+
+async function mergeEntry (
+  deps: SyncDeps,
+  client: BackupClient,
+  cursor: PeerSyncState,
+  entry: LogEntry
+): Promise<void> {
+  const ciphertext = await client.blob(cursor.deviceId, cursor.generation, entry.seq)
+  const chunk = await decodeChunk(deriveBackupWallet(deps.primaryKey), Array.from(ciphertext))
+
+  const settings = await deps.storage.makeAvailable()
+  // The same preconditions restore seeds (see ./restore.ts). Both are find-or-insert, so
+  // after the first pass they are lookups.
+  const { user } = await deps.storage.findOrInsertUser(deps.identityKey)
+  await deps.storage.findOrInsertSyncStateAuth(
+    { userId: user.userId, identityKey: deps.identityKey },
+    cursor.deviceId,
+    SYNC_STATE_NAME
+  )
+
+  await deps.storage.processSyncChunk({
+    identityKey: deps.identityKey,
+    fromStorageIdentityKey: cursor.deviceId,
+    toStorageIdentityKey: settings.storageIdentityKey,
+    maxRoughSize: 0,
+    maxItems: 0,
+    offsets: []
+  }, chunk)
+}
+
+async function loadSyncState (pseudonym: string, deviceId: string): Promise<Record<string, PeerSyncState>> {
+  const raw = await AsyncStorage.getItem(syncStateKey(pseudonym, deviceId))
+  if (raw == null) return {}
+  try {
+    const parsed = JSON.parse(raw) as Record<string, PeerSyncState>
+    return parsed != null && typeof parsed === 'object' ? parsed : {}
+  } catch {
+    // Losing the cursors costs one full merge of each peer's newest generation, which is
+    // idempotent. Wedging sync on a bad write would cost far more.
+    return {}
+  }
+}
+
+async function saveSyncState (pseudonym: string, deviceId: string, peers: PeerSyncState[]): Promise<void> {
+  const out: Record<string, PeerSyncState> = {}
+  for (const p of peers) out[p.deviceId] = p
+  await AsyncStorage.setItem(syncStateKey(pseudonym, deviceId), JSON.stringify(out))
+}
+
+/** One client per (server, pseudonym), reused across passes, as in ./push.ts. */
+let cachedClient: { key: string, client: BackupClient } | undefined
+
+function resolveClient (deps: SyncDeps): BackupClient {
+  if (deps.client != null) return deps.client
+  if (deps.baseUrl == null || deps.baseUrl === '') {
+    throw new Error('syncOnce requires either a client or a baseUrl')
+  }
+  const key = `${deps.baseUrl} ${backupPseudonym(deps.primaryKey)}`
+  if (cachedClient?.key !== key) {
+    cachedClient = { key, client: new BackupClient(deps.baseUrl, deps.primaryKey) }
+  }
+  return cachedClient.client
+}
@@ -0,0 +1,138 @@
+/**
+ * The Netscape bookmark file format: the HTML every desktop browser imports and
+ * exports (Chrome, Firefox, Safari, Edge).
+ *
+ * It is not well-formed HTML — <DT> and <p> are never closed — so it is read
+ * as a stream of the few tags that carry structure: <H3> opens a folder, the
+ * <DL> after it holds the folder's contents, </DL> closes it, and <A> is a
+ * bookmark. Everything else is ignored. Tags travel in Firefox's TAGS
+ * attribute, a comma-separated list the other browsers skip over.
+ */
+import type { Bookmark, BookmarkFolder } from '@/shared/types/browser'
+
+export interface BookmarkTree {
+  folders: BookmarkFolder[]
+  bookmarks: Bookmark[]
+}
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' }
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (whole, body: string) => {
+    if (body[0] === '#') {
+      const code = body[1] === 'x' || body[1] === 'X' ? parseInt(body.slice(2), 16) : parseInt(body.slice(1), 10)
+      return Number.isFinite(code) && code <= 0x10ffff ? String.fromCodePoint(code) : whole
+    }
+    return ENTITIES[body.toLowerCase()] ?? whole
+  })
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
+
+function parseAttributes(raw: string): Record<string, string> {
+  const attrs: Record<string, string> = {}
+  const re = /([\w-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/g
+  let m: RegExpExecArray | null
+  while ((m = re.exec(raw))) attrs[m[1].toLowerCase()] = decodeEntities(m[2] ?? m[3] ?? m[4] ?? '')
+  return attrs
+}
+
+function innerText(html: string): string {
+  return decodeEntities(html.replace(/<[^>]*>/g, '')).trim()
+}
+
+/** ADD_DATE is Unix seconds; some exporters write microseconds. */
+function parseAddDate(raw: string | undefined, fallback: number): number {
+  const n = raw ? Number(raw) : NaN
+  if (!Number.isFinite(n) || n <= 0) return fallback
+  return n > 1e14 ? Math.floor(n / 1000) : n * 1000
+}
+
+/**
+ * Read a bookmark file. Folder ids come from `newId`, so the result can be
+ * merged into an existing tree without collisions. URLs are returned as
+ * written; the caller decides which it can open.
+ */
+export function parseNetscapeBookmarks(html: string, newId: () => string, now: number = Date.now()): BookmarkTree {
+  const tree: BookmarkTree = { folders: [], bookmarks: [] }
+  // The folder each open <DL> belongs to; the outermost is the top level.
+  const open: (string | null)[] = []
+  // A folder heading waits for its <DL>.
+  let pending: string | null = null
+  const current = () => (open.length ? open[open.length - 1] : null)
+
+  const re = /<h3\b([^>]*)>([\s\S]*?)<\/h3\s*>|<a\b([^>]*)>([\s\S]*?)<\/a\s*>|<dl\b[^>]*>|<\/dl\s*>/gi
+  let m: RegExpExecArray | null
+  while ((m = re.exec(html))) {
+    const tag = m[0].slice(0, 4).toLowerCase()
+    if (tag.startsWith('<h3')) {
+      const attrs = parseAttributes(m[1])
+      const folder: BookmarkFolder = {
+        id: newId(),
+        title: innerText(m[2]),
+        parentId: current(),
+        added: parseAddDate(attrs.add_date, now)
+      }
+      tree.folders.push(folder)
+      pending = folder.id
+    } else if (tag.startsWith('<a')) {
+      const attrs = parseAttributes(m[3])
+      if (!attrs.href) continue
+      const tags = (attrs.tags ?? '')
+        .split(',')
+        .map(t => t.trim())
+        .filter(Boolean)
+      tree.bookmarks.push({
+        title: innerText(m[4]),
+        url: attrs.href.trim(),
+        added: parseAddDate(attrs.add_date, now),
+        folderId: current(),
+        ...(tags.length ? { tags } : {})
+      })
+    } else if (tag === '</dl') {
+      open.pop()
+      pending = null
+    } else {
+      open.push(pending ?? current())
+      pending = null
+    }
+  }
+  return tree
+}
+
+/**
+ * Write a bookmark file. Within a folder, subfolders come before bookmarks,
+ * each in their stored order.
+ */
+export function serializeNetscapeBookmarks(tree: BookmarkTree): string {
+  const lines = [
+    '<!DOCTYPE NETSCAPE-Bookmark-file-1>',
+    '<!-- This is an automatically generated file.',
+    '     It will be read and overwritten.',
+    '     DO NOT EDIT! -->',
+    '<META HTTP-EQUIV="Content-Type" CONTENT="text/html; charset=UTF-8">',
+    '<TITLE>Bookmarks</TITLE>',
+    '<H1>Bookmarks</H1>'
+  ]
+  const seconds = (ms: number) => String(Math.floor((ms || 0) / 1000))
+
+  const writeFolder = (folderId: string | null, depth: number) => {
+    const pad = '    '.repeat(depth)
+    lines.push(`${pad}<DL><p>`)
+    for (const f of tree.folders.filter(f => f.parentId === folderId)) {
+      lines.push(`${pad}    <DT><H3 ADD_DATE="${seconds(f.added)}">${escapeHtml(f.title)}</H3>`)
+      writeFolder(f.id, depth + 1)
+    }
+    for (const b of tree.bookmarks.filter(b => (b.folderId ?? null) === folderId)) {
+      const tags = b.tags?.length ? ` TAGS="${escapeHtml(b.tags.join(','))}"` : ''
+      lines.push(
+        `${pad}    <DT><A HREF="${escapeHtml(b.url)}" ADD_DATE="${seconds(b.added)}"${tags}>${escapeHtml(b.title || b.url)}</A>`
+      )
+    }
+    lines.push(`${pad}</DL><p>`)
+  }
+  writeFolder(null, 0)
+  return lines.join('\n') + '\n'
+}
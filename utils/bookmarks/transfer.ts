@@ -0,0 +1,56 @@
+import { Directory, File, Paths } from 'expo-file-system'
+import * as DocumentPicker from 'expo-document-picker'
+import { shareAsync } from 'expo-sharing'
+import bookmarkStore, { newFolderId } from '@/stores/BookmarkStore'
+import { parseNetscapeBookmarks, serializeNetscapeBookmarks } from './netscape'
+
+/**
+ * Let the user pick a bookmark file exported from a desktop browser and merge
+ * it in under `parentId`. Null when the picker was cancelled.
+ */
+export async function importBookmarksFile(
+  parentId: string | null = null
+): Promise<{ bookmarks: number; folders: number } | null> {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: ['text/html', '*/*'],
+    copyToCacheDirectory: true
+  })
+  if (result.canceled || !result.assets?.length) return null
+
+  const html = await new File(result.assets[0].uri).text()
+  const tree = parseNetscapeBookmarks(html, newFolderId)
+  if (tree.folders.length === 0 && tree.bookmarks.length === 0) {
+    throw new Error('No bookmarks found in that file')
+  }
+  return bookmarkStore.importTree(tree, parentId)
+}
+
+/**
+ * Export every bookmark as a Netscape bookmark file via the OS share dialog.
+ * Returns the number of bookmarks written.
+ */
+export async function exportBookmarksFile(): Promise<number> {
+  const tree = bookmarkStore.exportTree()
+  const html = serializeNetscapeBookmarks(tree)
+
+  const outName = `bookmarks-${new Date().toISOString().slice(0, 10)}.html`
+  const tempDir = new Directory(Paths.cache, 'bookmark-export')
+  if (tempDir.exists) tempDir.delete()
+  tempDir.create({ intermediates: true })
+
+  try {
+    const outFile = new File(tempDir, outName)
+    outFile.write(html)
+    await shareAsync(outFile.uri, {
+      mimeType: 'text/html',
+      dialogTitle: outName,
+      UTI: 'public.html'
+    })
+  } finally {
+    try {
+      tempDir.delete()
+    } catch {}
+  }
+
+  return tree.bookmarks.length
+}
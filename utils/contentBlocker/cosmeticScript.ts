@@ -0,0 +1,107 @@
+/**
+ * The page half of cosmetic filtering, installed at document start in the top
+ * frame.
+ *
+ * The page asks for its stylesheet as soon as it exists (CONTENT_BLOCKER_READY)
+ * so ads are hidden before first paint rather than flashed and removed. When
+ * generic rules apply, it then reports each class name and id it sees —
+ * at DOMContentLoaded and as the DOM changes — and gets back only the generic
+ * selectors keyed on them (see utils/contentBlocker/engine.ts).
+ *
+ * Every document tags its messages with a random id, and drops replies that
+ * don't carry it: a reply still in flight when the tab navigates must not
+ * style the next page with the previous one's rules.
+ */
+
+/** Every content-blocker message starts with this, so WebViewHost can route it without a JSON parse. */
+export const CONTENT_BLOCKER_MESSAGE_PREFIX = '{"type":"CONTENT_BLOCKER_'
+
+export type ContentBlockerPageMessage =
+  | { type: 'CONTENT_BLOCKER_READY'; doc: string }
+  | { type: 'CONTENT_BLOCKER_SELECTORS'; doc: string; classes: string[]; ids: string[] }
+
+export interface ContentBlockerStyleReply {
+  type: 'CONTENT_BLOCKER_STYLE'
+  doc: string
+  css: string
+  /** Start reporting class names and ids. */
+  generic: boolean
+}
+
+// Caps on one report, so a page generating random class names can't flood the bridge.
+const MAX_KEYS_PER_REPORT = 500
+
+export function buildCosmeticFilterScript(): string {
+  return `(function() {
+  if (window.__contentBlockerInstalled) return;
+  window.__contentBlockerInstalled = true;
+  var doc = Math.random().toString(36).slice(2);
+  var seen = Object.create(null);
+  var pending = { classes: [], ids: [] };
+  var timer = null;
+  var watching = false;
+  function post(message) {
+    try { window.ReactNativeWebView && window.ReactNativeWebView.postMessage(JSON.stringify(message)); } catch (e) {}
+  }
+  function addCss(css) {
+    if (!css) return;
+    var style = document.createElement('style');
+    style.textContent = css;
+    (document.head || document.documentElement).appendChild(style);
+  }
+  function note(el) {
+    if (pending.classes.length + pending.ids.length >= ${MAX_KEYS_PER_REPORT}) return;
+    var id = el.id;
+    if (typeof id === 'string' && id && !seen['#' + id]) { seen['#' + id] = 1; pending.ids.push(id); }
+    var list = el.classList;
+    if (!list) return;
+    for (var i = 0; i < list.length; i++) {
+      var c = list[i];
+      if (!seen['.' + c]) { seen['.' + c] = 1; pending.classes.push(c); }
+    }
+  }
+  function flush() {
+    timer = null;
+    if (!pending.classes.length && !pending.ids.length) return;
+    post({ type: 'CONTENT_BLOCKER_SELECTORS', doc: doc, classes: pending.classes, ids: pending.ids });
+    pending = { classes: [], ids: [] };
+  }
+  function scan(root) {
+    if (!root || root.nodeType !== 1) return;
+    note(root);
+    var all = root.querySelectorAll('[id],[class]');
+    for (var i = 0; i < all.length; i++) note(all[i]);
+  }
+  function watch() {
+    scan(document.documentElement);
+    flush();
+    var observer = new MutationObserver(function(mutations) {
+      for (var i = 0; i < mutations.length; i++) {
+        var m = mutations[i];
+        if (m.type === 'attributes') note(m.target);
+        else for (var j = 0; j < m.addedNodes.length; j++) scan(m.addedNodes[j]);
+      }
+      if (!timer) timer = setTimeout(flush, 250);
+    });
+    observer.observe(document.documentElement, { childList: true, subtree: true, attributes: true, attributeFilter: ['id', 'class'] });
+  }
+  window.addEventListener('message', function(event) {
+    if (typeof event.data !== 'string' || event.data.indexOf('${CONTENT_BLOCKER_MESSAGE_PREFIX}') !== 0) return;
+    var reply;
+    try { reply = JSON.parse(event.data); } catch (e) { return; }
+    if (reply.type !== 'CONTENT_BLOCKER_STYLE' || reply.doc !== doc) return;
+    addCss(reply.css);
+    if (reply.generic && !watching) {
+      watching = true;
+      if (document.readyState === 'loading') document.addEventListener('DOMContentLoaded', watch, { once: true });
+      else watch();
+    }
+  });
+  post({ type: 'CONTENT_BLOCKER_READY', doc: doc });
+})();`
+}
+
+/** Deliver a reply to the page, the way the other polyfill responses are delivered. */
+export function buildCosmeticReplyScript(reply: ContentBlockerStyleReply): string {
+  return `window.dispatchEvent(new MessageEvent('message', { data: ${JSON.stringify(JSON.stringify(reply))} }));true;`
+}
@@ -0,0 +1,282 @@
+/**
+ * Matching for parsed filter lists.
+ *
+ * Network rules are bucketed by their index token, so a request is only tried
+ * against the rules sharing a word with its URL plus the few that have no
+ * token — a few dozen regex tests instead of tens of thousands.
+ *
+ * Cosmetic rules are split three ways so a page is not handed EasyList's whole
+ * generic selector set (~15k rules, several hundred KB of CSS):
+ *   · specific — `example.com##.promo`, looked up by the page's host;
+ *   · keyed generic — `##.ad-box`, `###sponsor`, handed out only once the page
+ *     is seen to use that class or id;
+ *   · other generic — `##a[href*="/ad/"]`, always sent (there are few).
+ */
+import {
+  parseFilterList,
+  type CosmeticFilter,
+  type NetworkFilter,
+  type ParsedFilterList,
+  type ResourceType
+} from './filterParser'
+
+export interface RequestContext {
+  url: string
+  /** The top-level page making the request; '' when there is none. */
+  pageUrl: string
+  type: ResourceType
+}
+
+export interface PageCosmetics {
+  /** Selectors to hide right away. */
+  selectors: string[]
+  /** Whether the page should report its class names and ids for keyed generic selectors. */
+  generic: boolean
+}
+
+// Second-level labels that are registries themselves (co.uk, com.au). Without
+// the public suffix list this is approximate, which only matters for deciding
+// first- vs third-party; it never decides whether a rule applies to a host.
+const SECOND_LEVEL_REGISTRIES = new Set(['co', 'com', 'net', 'org', 'gov', 'ac', 'edu', 'ne', 'or', 'go'])
+
+export function baseDomain(host: string): string {
+  const labels = host.split('.')
+  if (labels.length <= 2 || /^[\d.]+$/.test(host)) return host
+  const n = labels[labels.length - 1].length === 2 && SECOND_LEVEL_REGISTRIES.has(labels[labels.length - 2]) ? 3 : 2
+  return labels.slice(-n).join('.')
+}
+
+function hostOfUrl(url: string): string {
+  const m = /^[a-z][a-z0-9+.-]*:\/\/(?:[^@\/?#]*@)?([^:\/?#]*)/i.exec(url)
+  return m ? m[1].toLowerCase() : ''
+}
+
+/** `host` is `domain` or one of its subdomains. */
+function isUnder(host: string, domain: string): boolean {
+  return host === domain || (host.endsWith(domain) && host[host.length - domain.length - 1] === '.')
+}
+
+function appliesOnPage(includes: string[], excludes: string[], pageHost: string): boolean {
+  if (excludes.some(d => isUnder(pageHost, d))) return false
+  return includes.length === 0 || includes.some(d => isUnder(pageHost, d))
+}
+
+/** `host` and each parent domain, most specific first. */
+function hostAndParents(host: string): string[] {
+  const out: string[] = []
+  for (let h = host; h; h = h.slice(h.indexOf('.') + 1)) {
+    out.push(h)
+    if (!h.includes('.')) break
+  }
+  return out
+}
+
+function urlTokens(url: string): string[] {
+  return url.toLowerCase().match(/[a-z0-9%]+/g) ?? []
+}
+
+/** `.ad-box` → `.ad-box`, `#sponsor > a` → `#sponsor`; null when the selector doesn't start with one. */
+function selectorKey(selector: string): string | null {
+  const m = /^([.#][\w-]+)(?=$|[\s>+~.#:[,])/.exec(selector)
+  return m ? m[1] : null
+}
+
+export class ContentBlocker {
+  private buckets = new Map<string, NetworkFilter[]>()
+  private untokened: NetworkFilter[] = []
+
+  private specific = new Map<string, CosmeticFilter[]>()
+  private specificExceptions = new Map<string, Set<string>>()
+  private keyedGeneric = new Map<string, string[]>()
+  private otherGeneric: string[] = []
+  private genericExceptions = new Set<string>()
+  // Generic apart from a few sites: `~example.com##.ad`.
+  private genericWithExclusions: CosmeticFilter[] = []
+
+  readonly networkRuleCount: number
+  readonly cosmeticRuleCount: number
+
+  constructor(lists: ParsedFilterList[]) {
+    let network = 0
+    let cosmetic = 0
+    for (const list of lists) {
+      for (const rule of list.network) this.addNetwork(rule)
+      for (const rule of list.cosmetic) this.addCosmetic(rule)
+      network += list.network.length
+      cosmetic += list.cosmetic.length
+    }
+    // A generic exception anywhere cancels the generic rule everywhere.
+    for (const selector of this.genericExceptions) {
+      const key = selectorKey(selector)
+      if (key) {
+        const kept = (this.keyedGeneric.get(key) ?? []).filter(s => s !== selector)
+        if (kept.length) this.keyedGeneric.set(key, kept)
+        else this.keyedGeneric.delete(key)
+      }
+    }
+    this.otherGeneric = this.otherGeneric.filter(s => !this.genericExceptions.has(s))
+    this.networkRuleCount = network
+    this.cosmeticRuleCount = cosmetic
+  }
+
+  static fromText(texts: string[]): ContentBlocker {
+    return new ContentBlocker(texts.map(parseFilterList))
+  }
+
+  private addNetwork(rule: NetworkFilter) {
+    if (!rule.token) {
+      this.untokened.push(rule)
+      return
+    }
+    const bucket = this.buckets.get(rule.token)
+    if (bucket) bucket.push(rule)
+    else this.buckets.set(rule.token, [rule])
+  }
+
+  private addCosmetic(rule: CosmeticFilter) {
+    const { selector } = rule
+    if (rule.includeDomains.length) {
+      for (const domain of rule.includeDomains) {
+        if (rule.exception) {
+          const set = this.specificExceptions.get(domain) ?? new Set<string>()
+          set.add(selector)
+          this.specificExceptions.set(domain, set)
+        } else {
+          const list = this.specific.get(domain) ?? []
+          list.push(rule)
+          this.specific.set(domain, list)
+        }
+      }
+      return
+    }
+    if (rule.exception) {
+      // `~example.com#@#.ad` would mean "except here, allow everywhere" — unusual
+      // enough to treat as a plain generic exception.
+      this.genericExceptions.add(selector)
+      return
+    }
+    if (rule.excludeDomains.length) {
+      this.genericWithExclusions.push(rule)
+      return
+    }
+    const key = selectorKey(selector)
+    if (!key) {
+      this.otherGeneric.push(selector)
+      return
+    }
+    const list = this.keyedGeneric.get(key)
+    if (list) list.push(selector)
+    else this.keyedGeneric.set(key, [selector])
+  }
+
+  private candidates(url: string): NetworkFilter[] {
+    const out = [...this.untokened]
+    for (const token of new Set(urlTokens(url))) {
+      const bucket = this.buckets.get(token)
+      if (bucket) out.push(...bucket)
+    }
+    return out
+  }
+
+  private ruleMatches(rule: NetworkFilter, req: RequestContext, pageHost: string, thirdParty: boolean): boolean {
+    if (rule.types ? !rule.types.has(req.type) : req.type === 'document') return false
+    if (rule.thirdParty !== null && rule.thirdParty !== thirdParty) return false
+    if (!appliesOnPage(rule.includeDomains, rule.excludeDomains, pageHost)) return false
+    return rule.regex.test(req.url)
+  }
+
+  /**
+   * The rule that blocks this request, or null to let it through. Exceptions
+   * win unless the blocking rule is `$important`.
+   */
+  match(req: RequestContext): NetworkFilter | null {
+    if (!/^(https?|wss?):/i.test(req.url)) return null
+    if (req.pageUrl && req.type !== 'document' && this.isPageAllowed(req.pageUrl)) return null
+    const requestHost = hostOfUrl(req.url)
+    const pageHost = hostOfUrl(req.pageUrl) || requestHost
+    const thirdParty = baseDomain(requestHost) !== baseDomain(pageHost)
+
+    let blocking: NetworkFilter | null = null
+    let excepted = false
+    for (const rule of this.candidates(req.url)) {
+      if (rule.exception) {
+        if (!excepted && this.ruleMatches(rule, req, pageHost, thirdParty)) excepted = true
+      } else if (
+        (!blocking || (rule.important && !blocking.important)) &&
+        this.ruleMatches(rule, req, pageHost, thirdParty)
+      ) {
+        blocking = rule
+      }
+      if (blocking?.important && excepted) break
+    }
+    if (!blocking) return null
+    if (blocking.important) return blocking
+    return excepted ? null : blocking
+  }
+
+  /** Page-wide exceptions: `@@…$document`, `$elemhide`, `$generichide` on the page's own URL. */
+  private pageExceptions(pageUrl: string): { document: boolean; elemHide: boolean; genericHide: boolean } {
+    const result = { document: false, elemHide: false, genericHide: false }
+    const pageHost = hostOfUrl(pageUrl)
+    for (const rule of this.candidates(pageUrl)) {
+      if (!rule.exception) continue
+      const document = !!rule.types?.has('document')
+      if (!document && !rule.elemHide && !rule.genericHide) continue
+      if (!appliesOnPage(rule.includeDomains, rule.excludeDomains, pageHost) || !rule.regex.test(pageUrl)) continue
+      if (document) result.document = true
+      if (rule.elemHide) result.elemHide = true
+      if (rule.genericHide) result.genericHide = true
+    }
+    return result
+  }
+
+  /** Whether a list allowlists this page outright (`@@||site^$document`). */
+  isPageAllowed(pageUrl: string): boolean {
+    return this.pageExceptions(pageUrl).document
+  }
+
+  /** What to hide on `pageUrl` before the page says anything about itself. */
+  cosmeticsFor(pageUrl: string): PageCosmetics {
+    const host = hostOfUrl(pageUrl)
+    const page = this.pageExceptions(pageUrl)
+    if (!host || page.document || page.elemHide) return { selectors: [], generic: false }
+
+    const parents = hostAndParents(host)
+    const allowed = new Set<string>()
+    for (const h of parents) for (const s of this.specificExceptions.get(h) ?? []) allowed.add(s)
+
+    const selectors = new Set<string>()
+    for (const h of parents) {
+      for (const rule of this.specific.get(h) ?? []) {
+        // `example.com,~shop.example.com##.promo`
+        if (!allowed.has(rule.selector) && appliesOnPage([], rule.excludeDomains, host)) selectors.add(rule.selector)
+      }
+    }
+    if (!page.genericHide) {
+      for (const s of this.otherGeneric) if (!allowed.has(s)) selectors.add(s)
+      for (const rule of this.genericWithExclusions) {
+        if (!allowed.has(rule.selector) && appliesOnPage([], rule.excludeDomains, host)) selectors.add(rule.selector)
+      }
+    }
+    return { selectors: [...selectors], generic: !page.genericHide }
+  }
+
+  /** Generic selectors keyed on the classes and ids a page has been seen to use. */
+  genericSelectorsFor(pageUrl: string, classes: string[], ids: string[]): string[] {
+    const host = hostOfUrl(pageUrl)
+    const allowed = new Set<string>()
+    for (const h of hostAndParents(host)) for (const s of this.specificExceptions.get(h) ?? []) allowed.add(s)
+
+    const out: string[] = []
+    const keys = [...classes.map(c => `.${c}`), ...ids.map(i => `#${i}`)]
+    for (const key of keys) {
+      for (const s of this.keyedGeneric.get(key) ?? []) if (!allowed.has(s)) out.push(s)
+    }
+    return out
+  }
+}
+
+/** One stylesheet rule per selector: a single selector the engine can't parse then only loses itself. */
+export function hidingCss(selectors: string[]): string {
+  return selectors.map(s => `${s}{display:none!important}`).join('\n')
+}
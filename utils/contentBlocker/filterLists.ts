@@ -0,0 +1,104 @@
+/**
+ * The filter lists the content blocker is subscribed to.
+ *
+ * List text lives in the document directory, one file per list, so blocking
+ * works from the first page after a cold start without the network. The
+ * subscription records (which lists, when each was fetched) live in
+ * AsyncStorage with the rest of the content-blocker settings, see
+ * stores/ContentBlockerStore.ts.
+ */
+import { listExpiry } from './filterParser'
+
+export interface FilterListSubscription {
+  id: string
+  title: string
+  url: string
+  enabled: boolean
+  /** Epoch ms of the last successful download; null = never fetched. */
+  updatedAt: number | null
+  /** From the list's `! Expires:` header; DEFAULT_LIST_EXPIRY_MS when it has none. */
+  expiresMs: number
+}
+
+export const DEFAULT_LIST_EXPIRY_MS = 4 * 86_400_000
+const LIST_DOWNLOAD_TIMEOUT_MS = 30_000
+const FILTER_LISTS_DIR = 'filter-lists'
+
+export const DEFAULT_FILTER_LISTS: FilterListSubscription[] = [
+  {
+    id: 'easylist',
+    title: 'EasyList',
+    url: 'https://easylist.to/easylist/easylist.txt',
+    enabled: true,
+    updatedAt: null,
+    expiresMs: DEFAULT_LIST_EXPIRY_MS
+  },
+  {
+    id: 'easyprivacy',
+    title: 'EasyPrivacy',
+    url: 'https://easylist.to/easylist/easyprivacy.txt',
+    enabled: true,
+    updatedAt: null,
+    expiresMs: DEFAULT_LIST_EXPIRY_MS
+  }
+]
+
+export function isListStale(list: FilterListSubscription, now: number = Date.now()): boolean {
+  return list.updatedAt === null || now - list.updatedAt >= list.expiresMs
+}
+
+/**
+ * Required lazily for the same reason as utils/headers/fs.ts: expo-file-system
+ * ships untranspiled TS, and an eager import breaks every test that reaches
+ * this module.
+ */
+function listFile(id: string) {
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  const { Directory, File, Paths } = require('expo-file-system') as typeof import('expo-file-system')
+  const dir = new Directory(Paths.document, FILTER_LISTS_DIR)
+  if (!dir.exists) dir.create({ intermediates: true })
+  return new File(dir, `${id.replace(/[^\w-]/g, '_')}.txt`)
+}
+
+export async function readCachedList(id: string): Promise<string | null> {
+  try {
+    const file = listFile(id)
+    return file.exists ? await file.text() : null
+  } catch {
+    return null
+  }
+}
+
+export function deleteCachedList(id: string) {
+  try {
+    const file = listFile(id)
+    if (file.exists) file.delete()
+  } catch {}
+}
+
+/**
+ * Fetch a list and replace the cached copy. Returns the text and its expiry.
+ * Throws when the download fails or the response isn't a filter list — a
+ * captive-portal page or an error body must never replace a good cached list.
+ */
+export async function downloadList(list: FilterListSubscription): Promise<{ text: string; expiresMs: number }> {
+  let timer: ReturnType<typeof setTimeout> | undefined
+  const response = await Promise.race([
+    fetch(list.url, { headers: { Accept: 'text/plain' } }),
+    new Promise<never>((_resolve, reject) => {
+      timer = setTimeout(
+        () => reject(new Error(`Filter list download timed out: ${list.url}`)),
+        LIST_DOWNLOAD_TIMEOUT_MS
+      )
+    })
+  ]).finally(() => clearTimeout(timer))
+  if (!response.ok) throw new Error(`Filter list download failed (${response.status}): ${list.url}`)
+
+  const text = await response.text()
+  if (!/^\s*(\[Adblock|!)/.test(text)) throw new Error(`Not a filter list: ${list.url}`)
+
+  const file = listFile(list.id)
+  if (!file.exists) file.create()
+  file.write(text)
+  return { text, expiresMs: listExpiry(text) ?? DEFAULT_LIST_EXPIRY_MS }
+}
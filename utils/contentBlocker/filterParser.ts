@@ -0,0 +1,312 @@
+/**
+ * EasyList-style filter lists (Adblock Plus syntax, the subset uBlock Origin
+ * and every list maintainer write against).
+ *
+ * Two kinds of rule come out of a list:
+ *   · network rules — `||ads.example^$third-party`, `/banner/*.gif`,
+ *     `@@||cdn.example^$script` — matched against request URLs;
+ *   · cosmetic rules — `##.ad-slot`, `example.com##.promo`,
+ *     `example.com#@#.promo` — CSS selectors hidden on matching pages.
+ *
+ * Anything this browser cannot honour faithfully is dropped, not approximated:
+ * scriptlets, procedural cosmetics (`:has-text`, `#?#`), `$redirect`, `$csp`,
+ * `$removeparam`, `$popup` and unknown options. A rule enforced half-way tends
+ * to break the page it was written for; a skipped rule only lets an ad through.
+ */
+
+export type ResourceType =
+  | 'document'
+  | 'subdocument'
+  | 'script'
+  | 'image'
+  | 'stylesheet'
+  | 'xmlhttprequest'
+  | 'media'
+  | 'font'
+  | 'websocket'
+  | 'ping'
+  | 'other'
+
+export interface NetworkFilter {
+  /** The line as written, for debugging and the blocked-request log. */
+  raw: string
+  /** `@@` rule: lets a request through that a blocking rule would stop. */
+  exception: boolean
+  /** `$important`: wins over exceptions. */
+  important: boolean
+  regex: RegExp
+  /**
+   * A word the URL must contain as a whole token for the rule to match, used to
+   * index rules. '' when the pattern has no safe token and must be tried
+   * against every request.
+   */
+  token: string
+  /** null = every type except `document`. */
+  types: Set<ResourceType> | null
+  /** true = third-party only, false = first-party only, null = either. */
+  thirdParty: boolean | null
+  /** `$domain=` page domains; empty includes mean every page. */
+  includeDomains: string[]
+  excludeDomains: string[]
+  /** Exception-only page switches: `$elemhide` and `$generichide`. */
+  elemHide: boolean
+  genericHide: boolean
+}
+
+export interface CosmeticFilter {
+  selector: string
+  exception: boolean
+  includeDomains: string[]
+  excludeDomains: string[]
+}
+
+export interface ParsedFilterList {
+  network: NetworkFilter[]
+  cosmetic: CosmeticFilter[]
+  /** Lines that were rules but were dropped as unsupported. */
+  skipped: number
+}
+
+const ALL_TYPES: ResourceType[] = [
+  'document',
+  'subdocument',
+  'script',
+  'image',
+  'stylesheet',
+  'xmlhttprequest',
+  'media',
+  'font',
+  'websocket',
+  'ping',
+  'other'
+]
+
+const TYPE_OPTIONS: Record<string, ResourceType> = {
+  document: 'document',
+  doc: 'document',
+  subdocument: 'subdocument',
+  frame: 'subdocument',
+  script: 'script',
+  image: 'image',
+  stylesheet: 'stylesheet',
+  css: 'stylesheet',
+  xmlhttprequest: 'xmlhttprequest',
+  xhr: 'xmlhttprequest',
+  media: 'media',
+  font: 'font',
+  websocket: 'websocket',
+  ping: 'ping',
+  beacon: 'ping',
+  other: 'other',
+  object: 'other'
+}
+
+// Extended selector syntax no browser's querySelector understands.
+const PROCEDURAL_SELECTOR =
+  /:(-abp-[\w-]+|has-text|contains|xpath|style|remove|remove-attr|remove-class|upward|matches-css[\w-]*|matches-attr|matches-path|min-text-length|watch-attr|others|if|if-not)\(|^\+js\(|^\^/
+
+function splitDomains(list: string, separator: string): { include: string[]; exclude: string[] } {
+  const include: string[] = []
+  const exclude: string[] = []
+  for (const part of list.split(separator)) {
+    const d = part.trim().toLowerCase()
+    if (!d) continue
+    if (d.startsWith('~')) exclude.push(d.slice(1))
+    else include.push(d)
+  }
+  return { include, exclude }
+}
+
+function parseCosmetic(line: string, at: number, separator: string): CosmeticFilter | null {
+  const selector = line.slice(at + separator.length).trim()
+  if (!selector || PROCEDURAL_SELECTOR.test(selector)) return null
+  // A selector that would close the rule and open another one in the injected
+  // stylesheet is either broken or hostile.
+  if (/[{}]/.test(selector) || selector.includes('</')) return null
+  const { include, exclude } = splitDomains(line.slice(0, at), ',')
+  // Entity (`google.*##`) and regex domains need the public suffix list.
+  if ([...include, ...exclude].some(d => d.endsWith('.*') || d.startsWith('/'))) return null
+  return { selector, exception: separator === '#@#', includeDomains: include, excludeDomains: exclude }
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.+?${}()|[\]\\/]/g, '\\$&')
+}
+
+/** Adblock pattern → RegExp source. `^` is a separator: anything but a letter, digit or `_-.%`, or the end. */
+function patternToRegex(pattern: string): string {
+  let source = ''
+  let body = pattern
+  if (body.startsWith('||')) {
+    source = '^[a-z][a-z0-9+.-]*:\\/+(?:[^\\/?#]*\\.)?'
+    body = body.slice(2)
+  } else if (body.startsWith('|')) {
+    source = '^'
+    body = body.slice(1)
+  }
+  let tail = ''
+  if (body.endsWith('|')) {
+    tail = '$'
+    body = body.slice(0, -1)
+  }
+  for (const ch of body) {
+    if (ch === '*') source += '.*'
+    else if (ch === '^') source += '(?:[^\\w.%-]|$)'
+    else source += escapeRegex(ch)
+  }
+  return source + tail
+}
+
+/**
+ * The longest word in the pattern that a matching URL must contain whole.
+ * A word touching `*`, or an unanchored end of the pattern, can be a fragment
+ * of a longer word in the URL, so it is not safe to index on.
+ */
+function indexToken(pattern: string): string {
+  let body = pattern
+  let anchoredStart = false
+  let anchoredEnd = false
+  if (body.startsWith('||')) {
+    body = body.slice(2)
+    anchoredStart = true
+  } else if (body.startsWith('|')) {
+    body = body.slice(1)
+    anchoredStart = true
+  }
+  if (body.endsWith('|')) {
+    body = body.slice(0, -1)
+    anchoredEnd = true
+  }
+  body = body.toLowerCase()
+  let best = ''
+  const re = /[a-z0-9%]+/g
+  let m: RegExpExecArray | null
+  while ((m = re.exec(body))) {
+    const start = m.index
+    const end = start + m[0].length
+    const safeStart = start === 0 ? anchoredStart : body[start - 1] !== '*'
+    const safeEnd = end === body.length ? anchoredEnd : body[end] !== '*'
+    if (safeStart && safeEnd && m[0].length > best.length) best = m[0]
+  }
+  return best.length >= 2 ? best : ''
+}
+
+function parseNetwork(line: string): NetworkFilter | null {
+  let text = line
+  const exception = text.startsWith('@@')
+  if (exception) text = text.slice(2)
+
+  let pattern = text
+  let options: string[] = []
+  const dollar = text.lastIndexOf('$')
+  // `$` also appears inside regex rules (`/ads$/`); options never contain `/`
+  // except in `domain=` values, which are plain host names.
+  if (dollar >= 0 && !/\/[^,]*$/.test(text.slice(dollar + 1).replace(/domain=[^,]*/g, ''))) {
+    pattern = text.slice(0, dollar)
+    options = text
+      .slice(dollar + 1)
+      .split(',')
+      .map(o => o.trim().toLowerCase())
+      .filter(Boolean)
+  }
+
+  let types: Set<ResourceType> | null = null
+  const negatedTypes = new Set<ResourceType>()
+  let thirdParty: boolean | null = null
+  let includeDomains: string[] = []
+  let excludeDomains: string[] = []
+  let matchCase = false
+  let important = false
+  let elemHide = false
+  let genericHide = false
+
+  for (const option of options) {
+    const negated = option.startsWith('~')
+    const name = negated ? option.slice(1) : option
+    if (name === 'third-party' || name === '3p') thirdParty = !negated
+    else if (name === 'first-party' || name === '1p') thirdParty = negated
+    else if (name.startsWith('domain=')) {
+      const d = splitDomains(name.slice('domain='.length), '|')
+      if ([...d.include, ...d.exclude].some(x => x.endsWith('.*') || x.startsWith('/'))) return null
+      includeDomains = d.include
+      excludeDomains = d.exclude
+    } else if (name === 'match-case') matchCase = !negated
+    else if (name === 'important') important = true
+    else if (name === 'all') types = new Set(ALL_TYPES)
+    else if (exception && !negated && (name === 'elemhide' || name === 'ehide')) elemHide = true
+    else if (exception && !negated && (name === 'generichide' || name === 'ghide')) genericHide = true
+    else if (TYPE_OPTIONS[name]) {
+      if (negated) negatedTypes.add(TYPE_OPTIONS[name])
+      else (types ??= new Set()).add(TYPE_OPTIONS[name])
+    } else {
+      return null
+    }
+  }
+  if (negatedTypes.size) {
+    types ??= new Set(ALL_TYPES.filter(t => t !== 'document'))
+    for (const t of negatedTypes) types.delete(t)
+  }
+  // `$elemhide` / `$generichide` alone switch cosmetics off; they block nothing.
+  if ((elemHide || genericHide) && !types) types = new Set()
+
+  let regex: RegExp
+  let token = ''
+  if (pattern.length > 2 && pattern.startsWith('/') && pattern.endsWith('/')) {
+    try {
+      regex = new RegExp(pattern.slice(1, -1), matchCase ? '' : 'i')
+    } catch {
+      return null
+    }
+  } else {
+    if (pattern === '' || pattern === '*') {
+      // A bare `$domain=…` rule: every request from those pages.
+      if (!includeDomains.length && !types) return null
+    }
+    regex = new RegExp(patternToRegex(pattern), matchCase ? '' : 'i')
+    token = indexToken(pattern)
+  }
+
+  return {
+    raw: line,
+    exception,
+    important,
+    regex,
+    token,
+    types,
+    thirdParty,
+    includeDomains,
+    excludeDomains,
+    elemHide,
+    genericHide
+  }
+}
+
+/** Parse a whole filter list. Comments, headers and blank lines are ignored. */
+export function parseFilterList(text: string): ParsedFilterList {
+  const out: ParsedFilterList = { network: [], cosmetic: [], skipped: 0 }
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim()
+    if (!line || line.startsWith('!') || (line.startsWith('[') && line.endsWith(']'))) continue
+
+    const cosmeticAt = line.search(/#@?#|#[?$%@]#|#@[?$%]#/)
+    if (cosmeticAt >= 0) {
+      const separator = line.startsWith('#@#', cosmeticAt) ? '#@#' : line.startsWith('##', cosmeticAt) ? '##' : null
+      const rule = separator ? parseCosmetic(line, cosmeticAt, separator) : null
+      if (rule) out.cosmetic.push(rule)
+      else out.skipped++
+      continue
+    }
+
+    const rule = parseNetwork(line)
+    if (rule) out.network.push(rule)
+    else out.skipped++
+  }
+  return out
+}
+
+/** The `! Expires: 4 days` header, in ms, or null when the list has none. */
+export function listExpiry(text: string): number | null {
+  const m = /^!\s*Expires:\s*(\d+)\s*(day|hour)s?/im.exec(text.slice(0, 2000))
+  if (!m) return null
+  return Number(m[1]) * (m[2].toLowerCase() === 'day' ? 86_400_000 : 3_600_000)
+}
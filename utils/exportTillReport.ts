@@ -0,0 +1,38 @@
+import { Directory, File, Paths } from 'expo-file-system'
+import { shareAsync } from 'expo-sharing'
+import * as Print from 'expo-print'
+import { reportCsv, reportHtml, type TillReport } from '@/utils/pay/rails/nearby'
+
+/**
+ * Exports a day's till report as CSV via the OS share dialog. See
+ * utils/localpay/till.ts for what the report reconciles.
+ *
+ * Returns the number of sales exported.
+ */
+export async function exportTillReportFile(report: TillReport): Promise<number> {
+  const outName = `bsv-till-${report.day}.csv`
+  const tempDir = new Directory(Paths.cache, 'bsv-till-export')
+  if (tempDir.exists) tempDir.delete()
+  tempDir.create({ intermediates: true })
+
+  try {
+    const outFile = new File(tempDir, outName)
+    outFile.write(reportCsv(report))
+    await shareAsync(outFile.uri, {
+      mimeType: 'text/csv',
+      UTI: 'public.comma-separated-values-text',
+      dialogTitle: outName
+    })
+  } finally {
+    try {
+      tempDir.delete()
+    } catch {}
+  }
+
+  return report.sales.length
+}
+
+/** Presents the print sheet for a day's till report. A dismissed sheet rejects, as with printRecoveryShares. */
+export async function printTillReport(report: TillReport): Promise<void> {
+  await Print.printAsync({ html: reportHtml(report) })
+}
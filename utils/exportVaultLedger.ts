@@ -0,0 +1,43 @@
+import { Directory, File, Paths } from 'expo-file-system'
+import { shareAsync } from 'expo-sharing'
+import { exportVaultLedger, loadVaultLedger, type VaultLedgerFormat } from '@/services/vault/ledger'
+import type { VaultWallet } from '@/services/vault/transfers'
+
+const SHARE: Record<VaultLedgerFormat, { mimeType: string; UTI: string }> = {
+  csv: { mimeType: 'text/csv', UTI: 'public.comma-separated-values-text' },
+  json: { mimeType: 'application/json', UTI: 'public.json' }
+}
+
+/**
+ * Exports the vault ledger, signed, via the OS share dialog. See
+ * services/vault/ledger.ts for the format and how an auditor checks it.
+ *
+ * Returns the number of rows exported.
+ */
+export async function exportVaultLedgerFile(
+  wallet: VaultWallet,
+  adminOriginator: string,
+  format: VaultLedgerFormat
+): Promise<number> {
+  const rows = await loadVaultLedger(wallet, adminOriginator)
+  if (rows.length === 0) return 0
+  const text = await exportVaultLedger(wallet, adminOriginator, rows, format)
+
+  const ts = Math.floor(Date.now() / 1000)
+  const outName = `bsv-vault-ledger-${ts}.${format}`
+  const tempDir = new Directory(Paths.cache, 'bsv-vault-ledger-export')
+  if (tempDir.exists) tempDir.delete()
+  tempDir.create({ intermediates: true })
+
+  try {
+    const outFile = new File(tempDir, outName)
+    outFile.write(text)
+    await shareAsync(outFile.uri, { ...SHARE[format], dialogTitle: outName })
+  } finally {
+    try {
+      tempDir.delete()
+    } catch {}
+  }
+
+  return rows.length
+}
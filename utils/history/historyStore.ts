@@ -0,0 +1,305 @@
+/**
+ * Browsing history, in SQLite.
+ *
+ * One row per URL (title, visit count, last visit, frecency) with one row per
+ * visit beneath it, and an FTS4 index over title and URL that triggers keep in
+ * step with the URL rows. Visits are kept individually so a date range can be
+ * deleted exactly ("the last hour") and the URL rows rebuilt from what is left.
+ *
+ * Frecency is frequency weighted by recency: every visit is worth 1 when it
+ * happens and halves every FRECENCY_HALF_LIFE_MS after. It is stored as a
+ * time-independent key, log2 Σ 2^(visitedAt / H): the score at any moment `now`
+ * is 2^(key - now / H), the same shift for every row, so ordering by the key is
+ * ordering by the current score and nothing needs recomputing as time passes —
+ * only when a visit is added or removed.
+ */
+import * as SQLite from 'expo-sqlite'
+import type { SQLiteDatabase } from 'expo-sqlite'
+import type { HistoryEntry } from '@/shared/types/browser'
+
+export const HISTORY_DB_NAME = 'browser-history.db'
+
+/** A visit counts for half as much after this long. */
+export const FRECENCY_HALF_LIFE_MS = 30 * 24 * 60 * 60 * 1000
+
+/** The subset of expo-sqlite's database the store uses; tests inject node:sqlite behind it. */
+export type HistoryDatabase = Pick<SQLiteDatabase, 'execAsync' | 'getAllAsync' | 'getFirstAsync' | 'runAsync'>
+
+interface HistoryRow {
+  id: number
+  url: string
+  title: string
+  visitCount: number
+  lastVisitAt: number
+  frecency: number
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS history (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    url TEXT NOT NULL UNIQUE,
+    title TEXT NOT NULL DEFAULT '',
+    visitCount INTEGER NOT NULL DEFAULT 0,
+    lastVisitAt INTEGER NOT NULL,
+    frecency REAL NOT NULL DEFAULT 0
+  );
+  CREATE INDEX IF NOT EXISTS idx_history_lastVisitAt ON history(lastVisitAt);
+  CREATE INDEX IF NOT EXISTS idx_history_frecency ON history(frecency);
+  CREATE TABLE IF NOT EXISTS history_visits (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    historyId INTEGER NOT NULL,
+    visitedAt INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_history_visits_historyId ON history_visits(historyId);
+  CREATE INDEX IF NOT EXISTS idx_history_visits_visitedAt ON history_visits(visitedAt);
+  CREATE VIRTUAL TABLE IF NOT EXISTS history_fts USING fts4(title, url, tokenize=unicode61);
+  CREATE TRIGGER IF NOT EXISTS history_fts_insert AFTER INSERT ON history BEGIN
+    INSERT INTO history_fts (docid, title, url) VALUES (new.id, new.title, new.url);
+  END;
+  CREATE TRIGGER IF NOT EXISTS history_fts_update AFTER UPDATE OF title, url ON history BEGIN
+    UPDATE history_fts SET title = new.title, url = new.url WHERE docid = new.id;
+  END;
+  CREATE TRIGGER IF NOT EXISTS history_fts_delete AFTER DELETE ON history BEGIN
+    DELETE FROM history_fts WHERE docid = old.id;
+    DELETE FROM history_visits WHERE historyId = old.id;
+  END;
+`
+
+/** log2 Σ 2^(t / H), computed without overflowing: 2^(t / H) is ~2^680 today. */
+export function frecencyKey(visitTimes: number[]): number {
+  if (visitTimes.length === 0) return 0
+  const exps = visitTimes.map(t => t / FRECENCY_HALF_LIFE_MS)
+  const max = Math.max(...exps)
+  return max + Math.log2(exps.reduce((sum, e) => sum + Math.pow(2, e - max), 0))
+}
+
+/** A stored key with one more visit at `at`. */
+function addVisit(key: number, at: number): number {
+  const e = at / FRECENCY_HALF_LIFE_MS
+  const max = Math.max(key, e)
+  return max + Math.log2(Math.pow(2, key - max) + Math.pow(2, e - max))
+}
+
+/** The score a stored key stands for at `now`: roughly, visits in the last half-life. */
+export function frecencyScore(key: number, now: number = Date.now()): number {
+  return Math.pow(2, key - now / FRECENCY_HALF_LIFE_MS)
+}
+
+/**
+ * A search box's text as an FTS4 query: every word must match, each as a
+ * prefix. Punctuation is dropped rather than escaped, so nothing typed can be
+ * read as query syntax — "github.com/b" becomes `github* com* b*`.
+ */
+export function toMatchQuery(text: string): string | null {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu)
+  return words ? words.map(w => `${w}*`).join(' ') : null
+}
+
+/** The spans the clear-history menu offers. */
+export type HistoryRange = 'hour' | 'today' | 'all'
+
+/** Where a range starts: an hour ago, local midnight, or the beginning. */
+export function historyRangeStart(range: HistoryRange, now: number = Date.now()): number {
+  if (range === 'hour') return now - 60 * 60 * 1000
+  if (range === 'today') {
+    const d = new Date(now)
+    return new Date(d.getFullYear(), d.getMonth(), d.getDate()).getTime()
+  }
+  return 0
+}
+
+function toEntry(row: HistoryRow): HistoryEntry {
+  return { title: row.title, url: row.url, timestamp: row.lastVisitAt, visitCount: row.visitCount }
+}
+
+const ENTRY_COLUMNS = 'h.id, h.url, h.title, h.visitCount, h.lastVisitAt, h.frecency'
+
+export class HistoryStore {
+  // Writes run one at a time: recordVisit's read-then-write and the
+  // multi-statement rebuilds must not interleave with each other.
+  private queue: Promise<unknown> = Promise.resolve()
+
+  constructor(private readonly db: HistoryDatabase) {}
+
+  static async open(name: string = HISTORY_DB_NAME): Promise<HistoryStore> {
+    const db = await SQLite.openDatabaseAsync(name)
+    const store = new HistoryStore(db)
+    await store.migrate()
+    return store
+  }
+
+  async migrate(): Promise<void> {
+    await this.db.execAsync(SCHEMA)
+  }
+
+  private serialized<T>(fn: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(fn, fn)
+    this.queue = run.catch(() => undefined)
+    return run
+  }
+
+  private async transaction<T>(fn: () => Promise<T>): Promise<T> {
+    await this.db.execAsync('BEGIN')
+    try {
+      const result = await fn()
+      await this.db.execAsync('COMMIT')
+      return result
+    } catch (e) {
+      await this.db.execAsync('ROLLBACK').catch(() => {})
+      throw e
+    }
+  }
+
+  private async insertVisit(url: string, title: string, at: number): Promise<void> {
+    const existing = (await this.db.getFirstAsync('SELECT * FROM history WHERE url = ?', [url])) as HistoryRow | null
+    let id: number
+    if (existing) {
+      id = existing.id
+      await this.db.runAsync(
+        `UPDATE history SET title = ?, visitCount = visitCount + 1, lastVisitAt = MAX(lastVisitAt, ?), frecency = ?
+         WHERE id = ?`,
+        [title || existing.title, at, addVisit(existing.frecency, at), id]
+      )
+    } else {
+      const result = await this.db.runAsync(
+        'INSERT INTO history (url, title, visitCount, lastVisitAt, frecency) VALUES (?, ?, 1, ?, ?)',
+        [url, title, at, frecencyKey([at])]
+      )
+      id = Number(result.lastInsertRowId)
+    }
+    await this.db.runAsync('INSERT INTO history_visits (historyId, visitedAt) VALUES (?, ?)', [id, at])
+  }
+
+  /**
+   * Count a visit. A repeat of the most recent visit (a reload, or the same URL
+   * reported twice with and without a trailing slash) only refreshes the title.
+   */
+  recordVisit(entry: { url: string; title: string }, at: number = Date.now()): Promise<void> {
+    return this.serialized(() =>
+      this.transaction(async () => {
+        const last = (await this.db.getFirstAsync(
+          `SELECT h.id, h.url FROM history_visits v JOIN history h ON h.id = v.historyId
+           ORDER BY v.id DESC LIMIT 1`
+        )) as { id: number; url: string } | null
+        if (last && last.url.replace(/\/$/, '') === entry.url.replace(/\/$/, '')) {
+          if (entry.title) await this.db.runAsync('UPDATE history SET title = ? WHERE id = ?', [entry.title, last.id])
+          return
+        }
+
+        await this.insertVisit(entry.url, entry.title, at)
+      })
+    )
+  }
+
+  /** Most recently visited first. */
+  async recent(limit: number = 500, offset: number = 0): Promise<HistoryEntry[]> {
+    const rows = (await this.db.getAllAsync(
+      `SELECT ${ENTRY_COLUMNS} FROM history h ORDER BY h.lastVisitAt DESC LIMIT ? OFFSET ?`,
+      [limit, offset]
+    )) as HistoryRow[]
+    return rows.map(toEntry)
+  }
+
+  /**
+   * Full-text search over titles and URLs, best frecency first. Empty text
+   * ranks everything.
+   */
+  async search(text: string, limit: number = 50): Promise<HistoryEntry[]> {
+    const match = toMatchQuery(text)
+    const rows = (
+      match
+        ? await this.db.getAllAsync(
+            `SELECT ${ENTRY_COLUMNS} FROM history_fts f JOIN history h ON h.id = f.docid
+             WHERE history_fts MATCH ? ORDER BY h.frecency DESC, h.lastVisitAt DESC LIMIT ?`,
+            [match, limit]
+          )
+        : await this.db.getAllAsync(
+            `SELECT ${ENTRY_COLUMNS} FROM history h ORDER BY h.frecency DESC, h.lastVisitAt DESC LIMIT ?`,
+            [limit]
+          )
+    ) as HistoryRow[]
+    return rows.map(toEntry)
+  }
+
+  remove(url: string): Promise<void> {
+    return this.serialized(async () => {
+      await this.db.runAsync('DELETE FROM history WHERE url = ?', [url])
+    })
+  }
+
+  /**
+   * Delete every visit in [from, to]. URLs left with no visits go; the rest are
+   * rebuilt from their remaining visits, so counts and frecency stay true.
+   */
+  deleteVisitsBetween(from: number, to: number): Promise<void> {
+    return this.serialized(() =>
+      this.transaction(async () => {
+        const touched = (await this.db.getAllAsync(
+          'SELECT DISTINCT historyId FROM history_visits WHERE visitedAt BETWEEN ? AND ?',
+          [from, to]
+        )) as { historyId: number }[]
+        await this.db.runAsync('DELETE FROM history_visits WHERE visitedAt BETWEEN ? AND ?', [from, to])
+        for (const { historyId } of touched) {
+          const visits = (await this.db.getAllAsync('SELECT visitedAt FROM history_visits WHERE historyId = ?', [
+            historyId
+          ])) as { visitedAt: number }[]
+          if (visits.length === 0) {
+            await this.db.runAsync('DELETE FROM history WHERE id = ?', [historyId])
+            continue
+          }
+          const times = visits.map(v => v.visitedAt)
+          await this.db.runAsync('UPDATE history SET visitCount = ?, lastVisitAt = ?, frecency = ? WHERE id = ?', [
+            times.length,
+            Math.max(...times),
+            frecencyKey(times),
+            historyId
+          ])
+        }
+      })
+    )
+  }
+
+  clear(): Promise<void> {
+    return this.serialized(() =>
+      this.transaction(async () => {
+        await this.db.runAsync('DELETE FROM history_visits')
+        await this.db.runAsync('DELETE FROM history')
+      })
+    )
+  }
+
+  /**
+   * One-time import of the old AsyncStorage list: each entry becomes a single
+   * visit at its timestamp. Skipped when the database already has history, so
+   * an import interrupted after the rows landed is not doubled on retry.
+   */
+  importLegacy(entries: HistoryEntry[]): Promise<number> {
+    return this.serialized(() =>
+      this.transaction(async () => {
+        const any = await this.db.getFirstAsync('SELECT id FROM history LIMIT 1')
+        if (any) return 0
+        let imported = 0
+        // Oldest first, so the newest visit of a repeated URL ends up last.
+        for (const e of [...entries].sort((a, b) => a.timestamp - b.timestamp)) {
+          if (!e?.url || !Number.isFinite(e.timestamp)) continue
+          await this.insertVisit(e.url, e.title ?? '', e.timestamp)
+          imported++
+        }
+        return imported
+      })
+    )
+  }
+}
+
+let shared: Promise<HistoryStore> | null = null
+
+/** The app's history database, opened once. */
+export function getHistoryStore(): Promise<HistoryStore> {
+  if (!shared) {
+    shared = HistoryStore.open().catch(e => {
+      shared = null
+      throw e
+    })
+  }
+  return shared
+}
@@ -0,0 +1,119 @@
+/**
+ * OS local notifications — raised on this device, shown by the system in its
+ * notification centre, and delivered at their time even when the app is in
+ * the background or closed. No push service is involved.
+ *
+ * The OS permission is asked the first time something is shown or scheduled,
+ * never at launch. Every call resolves false when the OS refused (or the
+ * native module is missing), so callers keep an in-app fallback for that.
+ *
+ * Foreground notifications are shown too: a page's notification arrives while
+ * the app is open, and the handler below is what lets the banner through.
+ */
+import { Platform } from 'react-native'
+import * as Notifications from 'expo-notifications'
+import i18n from '@/context/i18n/translations'
+
+const ANDROID_CHANNEL_ID = 'default'
+
+export interface LocalNotification {
+  title: string
+  body: string
+  data?: Record<string, unknown>
+}
+
+let ready: Promise<boolean> | null = null
+
+async function setUp(): Promise<boolean> {
+  Notifications.setNotificationHandler({
+    handleNotification: async () => ({
+      shouldShowBanner: true,
+      shouldShowList: true,
+      shouldPlaySound: false,
+      shouldSetBadge: false
+    })
+  })
+  if (Platform.OS === 'android') {
+    await Notifications.setNotificationChannelAsync(ANDROID_CHANNEL_ID, {
+      name: i18n.t('notifications_channel_name'),
+      importance: Notifications.AndroidImportance.DEFAULT
+    })
+  }
+  return true
+}
+
+/** Set up once, then ask for permission — again each time, since the user can
+ * grant it in Settings after refusing here. */
+async function allowed(): Promise<boolean> {
+  try {
+    ready ??= setUp()
+    await ready
+    const current = await Notifications.getPermissionsAsync()
+    if (current.granted) return true
+    if (!current.canAskAgain) return false
+    return (await Notifications.requestPermissionsAsync()).granted
+  } catch (e) {
+    ready = null
+    console.warn('[notifications] unavailable:', (e as Error)?.message)
+    return false
+  }
+}
+
+/**
+ * Show a notification now. `id` replaces an earlier notification with the same
+ * id instead of stacking beside it.
+ */
+export async function showLocalNotification(n: LocalNotification, id?: string): Promise<boolean> {
+  if (!(await allowed())) return false
+  try {
+    await Notifications.scheduleNotificationAsync({
+      identifier: id,
+      content: { title: n.title, body: n.body, data: n.data },
+      trigger: Platform.OS === 'android' ? { channelId: ANDROID_CHANNEL_ID } : null
+    })
+    return true
+  } catch (e) {
+    console.warn('[notifications] show failed:', (e as Error)?.message)
+    return false
+  }
+}
+
+/**
+ * Schedule a notification for `at` (epoch ms), replacing any already scheduled
+ * under `id`. A time already past shows it now.
+ */
+export async function scheduleLocalNotification(id: string, n: LocalNotification, at: number): Promise<boolean> {
+  if (at <= Date.now()) return showLocalNotification(n, id)
+  if (!(await allowed())) return false
+  try {
+    await Notifications.scheduleNotificationAsync({
+      identifier: id,
+      content: { title: n.title, body: n.body, data: n.data },
+      trigger: {
+        type: Notifications.SchedulableTriggerInputTypes.DATE,
+        date: at,
+        channelId: ANDROID_CHANNEL_ID
+      }
+    })
+    return true
+  } catch (e) {
+    console.warn('[notifications] schedule failed:', (e as Error)?.message)
+    return false
+  }
+}
+
+/** Drop a scheduled notification. Quiet when there is none. */
+export async function cancelLocalNotification(id: string): Promise<void> {
+  try {
+    await Notifications.cancelScheduledNotificationAsync(id)
+  } catch {}
+}
+
+/** Ids of every notification still waiting to be delivered. */
+export async function scheduledNotificationIds(): Promise<string[]> {
+  try {
+    return (await Notifications.getAllScheduledNotificationsAsync()).map(r => r.identifier)
+  } catch {
+    return []
+  }
+}
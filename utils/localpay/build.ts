@@ -12,6 +12,7 @@ interface CreateActionOutcome {
   tx?: number[]
   txid?: string
   signableTransaction?: { reference: string }
+  noSendChange?: string[]
   sendWithResults?: { txid: string; status: string }[]
 }
 
@@ -54,6 +55,12 @@ export interface BuiltPayment {
    * cannot be broadcast by the payer at all.
    */
   txid?: string
+  /**
+   * The change outpoints of this `noSend` action, as BRC-100 reports them for
+   * chaining: handed to the next build as `chainFrom`, they are what that
+   * payment spends first. Empty or undefined when the payment left no change.
+   */
+  change?: string[]
 }
 
 /**
@@ -88,7 +95,13 @@ export async function buildPaymentFrame(
   wallet: PayingWallet,
   session: Session,
   originator: string,
-  amount: number
+  amount: number,
+  /**
+   * An offline channel's head (see utils/offline/channel.ts): the previous
+   * link's change outpoints, passed as `options.noSendChange` so this payment
+   * spends them and the chain stays one chain.
+   */
+  chainFrom?: string[]
 ): Promise<BuiltPayment> {
   if (!isRequestableAmount(amount)) {
     throw new Error('amount must be a positive whole number of satoshis')
@@ -100,6 +113,11 @@ export async function buildPaymentFrame(
   if (session.amount !== undefined && session.amount !== amount) {
     throw new Error('amount does not match the payee’s request')
   }
+  // A share can be anything up to the bill. More than the whole bill is never
+  // a share, and the payee would only have to refund it.
+  if (session.splitTotal !== undefined && amount > session.splitTotal) {
+    throw new Error('share is more than the bill’s total')
+  }
 
   const { publicKey: senderIdentityKey } = await wallet.getPublicKey({ identityKey: true }, originator)
 
@@ -137,7 +155,12 @@ export async function buildPaymentFrame(
       // discarding the only reference the wallet ever emits. Asking for the
       // deferred result keeps that reference, so an abandoned build can release
       // its inputs instead of locking them forever.
-      options: { randomizeOutputs: false, noSend: true, signAndProcess: false },
+      options: {
+        randomizeOutputs: false,
+        noSend: true,
+        signAndProcess: false,
+        ...(chainFrom && chainFrom.length > 0 ? { noSendChange: chainFrom } : {}),
+      },
     },
     originator
   )
@@ -176,9 +199,24 @@ export async function buildPaymentFrame(
     },
     reference,
     txid: result.txid,
+    change: signedChange(result.noSendChange, result.txid),
   }
 }
 
+/**
+ * The change outpoints, named by the signed txid.
+ *
+ * With `signAndProcess: false`, createAction reports `noSendChange` off the
+ * unsigned transaction (the toolbox's makeSignableTransactionResult), and
+ * storage only stamps the outputs with the signed txid in processAction. A
+ * next link that names them the unsigned way fails validateNoSendChange, so
+ * only the vouts are carried over. Undefined when there is no txid to name them by.
+ */
+function signedChange(change: string[] | undefined, txid: string | undefined): string[] | undefined {
+  if (!change || !txid) return undefined
+  return change.map(outpoint => `${txid}.${outpoint.slice(outpoint.lastIndexOf('.') + 1)}`)
+}
+
 /**
  * Releases the `noSend` payment identified by `txid` so this device broadcasts it.
  *
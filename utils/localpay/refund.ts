@@ -0,0 +1,170 @@
+/**
+ * Refunds of received nearby payments: the reverse leg, and the link between
+ * the two in history.
+ *
+ * A refund is keyed by the txid of the payment it returns — the one identifier
+ * both the pending queue (through the frame's AtomicBEEF) and the activity
+ * list share. Once minted it also carries its own txid, which is how the
+ * refund's row finds its way back to the original.
+ *
+ * The state machine is the split-bill one (split.ts): a refund is sent only
+ * from `owed`, and is out of `owed` before anything is built, so a second tap
+ * or a crash mid-send never mints a second refund. Only the rail differs —
+ * these go back over whichever one reaches the sender, and the record says
+ * which.
+ */
+import { Beef, Transaction } from '@bsv/sdk'
+import { getPending, type KVStorage, type PendingPayment } from './pending'
+import type { RefundStatus } from './split'
+
+export const REFUNDS_KEY = 'localpay_refunds'
+
+/** How a refund reached the sender: a nearby session they hosted, or their message box. */
+export type RefundRail = 'nearby' | 'handle'
+
+/** A received payment that can be sent back: everything a refund needs, read off its frame. */
+export interface Refundable {
+  /** txid of the received payment. */
+  originalTxid: string
+  /** The pending-queue entry it landed in. */
+  pendingId: string
+  /** The frame's `senderIdentityKey` — a refund goes back to whoever paid. */
+  recipient: string
+  satoshis: number
+}
+
+export interface PaymentRefund extends Refundable {
+  status: RefundStatus
+  rail?: RefundRail
+  /** txid of the refund itself, once one was minted. */
+  refundTxid?: string
+  attemptedAt?: string
+  outboxId?: string
+  error?: string
+}
+
+export type RefundOutcome =
+  | { status: 'sent' | 'outbox'; refundTxid?: string; outboxId?: string }
+  | { status: 'owed'; error?: string }
+
+/** The txid a received frame's AtomicBEEF commits to, or null when it does not parse. */
+export function receivedTxid(p: PendingPayment): string | null {
+  try {
+    return Beef.fromBinary(p.frame.transaction).atomicTxid ?? null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Received payments that landed in the wallet, by txid. Only `completed`
+ * entries: a payment still queued is not in the wallet yet, and one that
+ * failed to internalize was never this wallet's to return.
+ */
+export async function refundableByTxid(storage: KVStorage): Promise<Map<string, Refundable>> {
+  const out = new Map<string, Refundable>()
+  for (const p of await getPending(storage)) {
+    if (p.status !== 'completed') continue
+    const originalTxid = receivedTxid(p)
+    if (!originalTxid) continue
+    let satoshis: number | undefined
+    try {
+      satoshis = Transaction.fromAtomicBEEF(p.frame.transaction).outputs[p.frame.outputIndex]?.satoshis
+    } catch {
+      continue
+    }
+    if (typeof satoshis !== 'number' || satoshis <= 0) continue
+    out.set(originalTxid, { originalTxid, pendingId: p.id, recipient: p.frame.senderIdentityKey, satoshis })
+  }
+  return out
+}
+
+// One storage key, so read-modify-write sequences must not interleave.
+let refundLock: Promise<unknown> = Promise.resolve()
+
+function withRefundLock<T>(fn: () => Promise<T>): Promise<T> {
+  const run = refundLock.then(fn, fn)
+  refundLock = run.catch(() => undefined)
+  return run
+}
+
+async function readAll(storage: KVStorage): Promise<Record<string, PaymentRefund>> {
+  // As in pending.ts: a storage failure propagates, only a parse failure reads as empty.
+  const raw = await storage.getKeyValue(REFUNDS_KEY)
+  if (!raw) return {}
+  try {
+    const parsed = JSON.parse(raw) as unknown
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed)
+      ? (parsed as Record<string, PaymentRefund>)
+      : {}
+  } catch {
+    return {}
+  }
+}
+
+export async function getRefunds(storage: KVStorage): Promise<PaymentRefund[]> {
+  return Object.values(await readAll(storage))
+}
+
+export async function getRefund(storage: KVStorage, originalTxid: string): Promise<PaymentRefund | null> {
+  return (await readAll(storage))[originalTxid] ?? null
+}
+
+/**
+ * Claim a payment's refund for sending over `rail`: records it as `sending`
+ * and returns it, or returns null when a refund for it is already in flight,
+ * sent, or in the outbox. A first refund starts here; one left `owed` by a
+ * failed attempt is claimed again. The caller sends only what this returns.
+ */
+export async function claimPaymentRefund(
+  storage: KVStorage,
+  payment: Refundable,
+  rail: RefundRail
+): Promise<PaymentRefund | null> {
+  return withRefundLock(async () => {
+    const all = await readAll(storage)
+    const existing = all[payment.originalTxid]
+    if (existing && existing.status !== 'owed') return null
+    const claimed: PaymentRefund = {
+      ...payment,
+      status: 'sending',
+      rail,
+      attemptedAt: new Date().toISOString(),
+    }
+    await storage.setKeyValue(REFUNDS_KEY, JSON.stringify({ ...all, [payment.originalTxid]: claimed }))
+    return claimed
+  })
+}
+
+/** Record how a claimed refund ended. Only a `sending` refund moves. */
+export async function settlePaymentRefund(
+  storage: KVStorage,
+  originalTxid: string,
+  outcome: RefundOutcome
+): Promise<PaymentRefund | null> {
+  return withRefundLock(async () => {
+    const all = await readAll(storage)
+    const refund = all[originalTxid]
+    if (!refund || refund.status !== 'sending') return refund ?? null
+    const next: PaymentRefund = { ...refund, ...outcome }
+    await storage.setKeyValue(REFUNDS_KEY, JSON.stringify({ ...all, [originalTxid]: next }))
+    return next
+  })
+}
+
+/**
+ * Both ends of every refund, for the activity list: by the payment it
+ * returned, and by the refund's own txid.
+ */
+export function refundLinks(refunds: PaymentRefund[]): {
+  byOriginal: Map<string, PaymentRefund>
+  byRefund: Map<string, PaymentRefund>
+} {
+  const byOriginal = new Map<string, PaymentRefund>()
+  const byRefund = new Map<string, PaymentRefund>()
+  for (const r of refunds) {
+    byOriginal.set(r.originalTxid, r)
+    if (r.refundTxid) byRefund.set(r.refundTxid, r)
+  }
+  return { byOriginal, byRefund }
+}
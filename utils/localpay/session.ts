@@ -5,6 +5,7 @@ export const SESSION_VERSION = 1
 export const CAP_AWDL = 0x01
 export const CAP_NEARBY = 0x02
 export const CAP_BLE = 0x04 // allocated for BLE transports (e.g. Blitz); this app never advertises it
+export const CAP_LAN = 0x08 // WebSocket found by instance name (transport/lan.ts); only where a LAN backend is installed
 
 export type SessionOs = 'ios' | 'android'
 
@@ -44,6 +45,14 @@ export interface Session {
    * frame belongs to this request, and they apply either way.
    */
   amount?: number
+  /**
+   * A split-bill request: the total several payers are contributing toward.
+   * Never set together with `amount` — each payer still chooses their share,
+   * so on the wire this is an open request with a ceiling, and a build that
+   * does not know `m` sees exactly that and still pays. What binds the payee
+   * is its own tally (split.ts), not this figure.
+   */
+  splitTotal?: number
   asset?: SessionAsset
   derivationPrefix: string
   derivationSuffix: string
@@ -59,11 +68,14 @@ export function mintSession(args: {
   identityKey: string
   /** Omit for an open request — the payer enters the amount. */
   amount?: number
+  /** A split bill's total; only on an open request. */
+  splitTotal?: number
   asset?: SessionAsset
   derivationPrefix: string
   derivationSuffix: string
   supportsAwdl: boolean
   supportsNearby?: boolean
+  supportsLan?: boolean
   os?: SessionOs
 }): Session {
   if (args.identityKey.length !== 66) throw new CodecError('identityKey must be 66 hex chars')
@@ -73,16 +85,25 @@ export function mintSession(args: {
   if (args.amount !== undefined && !isRequestableAmount(args.amount)) {
     throw new CodecError('bad amount')
   }
+  if (args.splitTotal !== undefined) {
+    if (!isRequestableAmount(args.splitTotal)) throw new CodecError('bad split total')
+    if (args.amount !== undefined) throw new CodecError('a split bill cannot bind an amount')
+    if (args.asset !== undefined) throw new CodecError('a split bill is satoshis only')
+  }
   if (args.asset !== undefined && args.asset.overlayIdentityKey.length !== 66) {
     throw new CodecError('bad asset overlayIdentityKey')
   }
   return {
     version: SESSION_VERSION,
-    caps: (args.supportsAwdl ? CAP_AWDL : 0) | (args.supportsNearby ? CAP_NEARBY : 0),
+    caps:
+      (args.supportsAwdl ? CAP_AWDL : 0) |
+      (args.supportsNearby ? CAP_NEARBY : 0) |
+      (args.supportsLan ? CAP_LAN : 0),
     sessionId: new Uint8Array(Random(16)),
     psk: new Uint8Array(Random(32)),
     identityKey: args.identityKey,
     ...(args.amount === undefined ? {} : { amount: args.amount }),
+    ...(args.splitTotal === undefined ? {} : { splitTotal: args.splitTotal }),
     ...(args.asset === undefined ? {} : { asset: args.asset }),
     derivationPrefix: args.derivationPrefix,
     derivationSuffix: args.derivationSuffix,
@@ -126,6 +147,7 @@ export function encodeSession(s: Session): string {
     i: s.identityKey,
     ...(s.os === undefined ? {} : { o: s.os === 'ios' ? 'i' : 'a' }),
     ...(s.amount === undefined ? {} : { a: s.amount }),
+    ...(s.splitTotal === undefined ? {} : { m: s.splitTotal }),
     ...(s.asset === undefined ? {} : {
       t: {
         i: s.asset.id,
@@ -151,7 +173,7 @@ export function decodeSession(text: string): Session {
     if (e instanceof CodecError) throw e
     throw new CodecError('malformed session payload')
   }
-  const { v, c, s, k, i, a, p, x, o, t } = parsed as Record<string, unknown>
+  const { v, c, s, k, i, a, m, p, x, o, t } = parsed as Record<string, unknown>
   if (v !== SESSION_VERSION) throw new CodecError(`unsupported session version ${String(v)}`)
   if (typeof i !== 'string' || i.length !== 66) throw new CodecError('bad identityKey')
   // An ABSENT `a` is an OPEN request: the payer chooses.
@@ -165,6 +187,13 @@ export function decodeSession(text: string): Session {
   // a corrupt 0 into an open request with a live Send button under it.
   const open = a === undefined
   if (!open && !isRequestableAmount(a)) throw new CodecError('bad amount')
+  // A split total rides only on an open request, and is refused rather than
+  // dropped when bad — the payer's share field is capped by it.
+  if (m !== undefined) {
+    if (!isRequestableAmount(m)) throw new CodecError('bad split total')
+    if (!open) throw new CodecError('a split bill cannot bind an amount')
+    if (t !== undefined) throw new CodecError('a split bill is satoshis only')
+  }
   if (typeof s !== 'string') throw new CodecError('bad sessionId encoding')
   if (typeof k !== 'string') throw new CodecError('bad psk encoding')
   if (typeof p !== 'string') throw new CodecError('bad derivationPrefix encoding')
@@ -200,6 +229,7 @@ export function decodeSession(text: string): Session {
     psk,
     identityKey: i,
     ...(open ? {} : { amount: a }),
+    ...(m === undefined ? {} : { splitTotal: m as number }),
     ...(asset === undefined ? {} : { asset }),
     derivationPrefix: p,
     derivationSuffix: x,
@@ -0,0 +1,226 @@
+/**
+ * Split-bill tallies: several payers, one total, one nearby session.
+ *
+ * A split session is an open request with a ceiling (session.ts `splitTotal`),
+ * so nothing on the wire binds a share; what holds the payee to the total is
+ * this tally. Each settled frame adds a contribution keyed by its pending-queue
+ * entry, and the frame that reaches the total closes the bill.
+ *
+ * Ordering in the settle path, and why:
+ *
+ *   1. savePending          the money is safe before anything is counted
+ *   2. recordContribution   the share is counted
+ *   3. markSessionSpent     only once the tally says closed
+ *
+ * A crash between 1 and 2 undercounts: the payment is queued but the bill
+ * still looks open, so the next payer may overpay — which the tally then
+ * refunds. Counting first would be the opposite failure, a bill marked paid
+ * by money that never landed.
+ *
+ * Overpayment is refunded to the sender that crossed the total, over the
+ * handle rail. A refund is marked `sending` BEFORE the send is attempted, so a
+ * crash mid-send never mints a second one on retry; whatever that send minted
+ * is already in the handle outbox, which persists before it delivers.
+ */
+import type { KVStorage } from './pending'
+
+export const SPLIT_KEY = 'localpay_splits'
+
+export interface SplitContribution {
+  /** The pending-queue entry the share landed in. Contributions are idempotent on it. */
+  pendingId: string
+  senderIdentityKey: string
+  satoshis: number
+  receivedAt: string
+}
+
+/**
+ * Where a refund stands.
+ *
+ *   owed     not attempted, or attempted and nothing was minted — safe to send
+ *   sending  an attempt is in flight, or was when the app died
+ *   sent     delivered and broadcast over the handle rail
+ *   outbox   minted but not delivered — retried from the handle outbox, never here
+ */
+export type RefundStatus = 'owed' | 'sending' | 'sent' | 'outbox'
+
+export interface SplitRefund {
+  /** The contribution whose excess this returns. */
+  pendingId: string
+  recipient: string
+  satoshis: number
+  status: RefundStatus
+  attemptedAt?: string
+  outboxId?: string
+  error?: string
+}
+
+export interface SplitTally {
+  /** Hex of the session. */
+  sessionId: string
+  total: number
+  contributions: SplitContribution[]
+  refunds: SplitRefund[]
+  /** Set by the contribution that reached the total. */
+  closedAt?: string
+}
+
+/** One payer's part of the bill. */
+export interface SenderTotal {
+  senderIdentityKey: string
+  satoshis: number
+  payments: number
+}
+
+function hexOf(sessionId: Uint8Array): string {
+  return Array.from(sessionId, b => b.toString(16).padStart(2, '0')).join('')
+}
+
+/** Everything received, refunds not deducted. */
+export function paidSoFar(tally: SplitTally): number {
+  return tally.contributions.reduce((sum, c) => sum + c.satoshis, 0)
+}
+
+export function remaining(tally: SplitTally): number {
+  return Math.max(0, tally.total - paidSoFar(tally))
+}
+
+/** Contributions per sender, in the order each sender first paid. */
+export function bySender(tally: SplitTally): SenderTotal[] {
+  const out = new Map<string, SenderTotal>()
+  for (const c of tally.contributions) {
+    const s = out.get(c.senderIdentityKey) ?? { senderIdentityKey: c.senderIdentityKey, satoshis: 0, payments: 0 }
+    s.satoshis += c.satoshis
+    s.payments++
+    out.set(c.senderIdentityKey, s)
+  }
+  return [...out.values()]
+}
+
+// Same discipline as the pending queue: one storage key, so read-modify-write
+// sequences must not interleave.
+let splitLock: Promise<unknown> = Promise.resolve()
+
+function withSplitLock<T>(fn: () => Promise<T>): Promise<T> {
+  const run = splitLock.then(fn, fn)
+  splitLock = run.catch(() => undefined)
+  return run
+}
+
+async function readAll(storage: KVStorage): Promise<Record<string, SplitTally>> {
+  // As in pending.ts: a storage failure propagates, only a parse failure reads as empty.
+  const raw = await storage.getKeyValue(SPLIT_KEY)
+  if (!raw) return {}
+  try {
+    const parsed = JSON.parse(raw) as unknown
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed)
+      ? (parsed as Record<string, SplitTally>)
+      : {}
+  } catch {
+    return {}
+  }
+}
+
+async function update(
+  storage: KVStorage,
+  sessionId: Uint8Array,
+  fn: (tally: SplitTally) => SplitTally
+): Promise<SplitTally> {
+  return withSplitLock(async () => {
+    const all = await readAll(storage)
+    const key = hexOf(sessionId)
+    const tally = all[key]
+    if (!tally) throw new Error('no split bill for this session')
+    const next = fn(tally)
+    await storage.setKeyValue(SPLIT_KEY, JSON.stringify({ ...all, [key]: next }))
+    return next
+  })
+}
+
+/** Start a tally when the split session is minted. Idempotent: an existing tally is kept. */
+export async function openSplit(storage: KVStorage, sessionId: Uint8Array, total: number): Promise<SplitTally> {
+  return withSplitLock(async () => {
+    const all = await readAll(storage)
+    const key = hexOf(sessionId)
+    if (all[key]) return all[key]
+    const tally: SplitTally = { sessionId: key, total, contributions: [], refunds: [] }
+    await storage.setKeyValue(SPLIT_KEY, JSON.stringify({ ...all, [key]: tally }))
+    return tally
+  })
+}
+
+export async function getSplit(storage: KVStorage, sessionId: Uint8Array): Promise<SplitTally | null> {
+  return (await readAll(storage))[hexOf(sessionId)] ?? null
+}
+
+/**
+ * Count one settled share. The share that reaches the total closes the bill,
+ * and anything it carried past the total is owed back to its sender. A share
+ * counted after the close — which the spent-session check should have
+ * declined — is owed back whole.
+ *
+ * Idempotent on `pendingId`: a repeated call returns the tally unchanged.
+ */
+export async function recordContribution(
+  storage: KVStorage,
+  sessionId: Uint8Array,
+  c: SplitContribution
+): Promise<SplitTally> {
+  return update(storage, sessionId, tally => {
+    if (tally.contributions.some(x => x.pendingId === c.pendingId)) return tally
+    const before = paidSoFar(tally)
+    const contributions = [...tally.contributions, c]
+    if (tally.closedAt !== undefined) {
+      return { ...tally, contributions, refunds: [...tally.refunds, owed(c, c.satoshis)] }
+    }
+    if (before + c.satoshis < tally.total) return { ...tally, contributions }
+    const excess = before + c.satoshis - tally.total
+    return {
+      ...tally,
+      contributions,
+      refunds: excess > 0 ? [...tally.refunds, owed(c, excess)] : tally.refunds,
+      closedAt: c.receivedAt,
+    }
+  })
+}
+
+function owed(c: SplitContribution, satoshis: number): SplitRefund {
+  return { pendingId: c.pendingId, recipient: c.senderIdentityKey, satoshis, status: 'owed' }
+}
+
+/**
+ * Claim an owed refund for sending: marks it `sending` and returns it, or
+ * returns null when it is not owed — already sent, handed to the outbox, or
+ * claimed by another attempt. The caller sends only what this returns.
+ */
+export async function claimRefund(
+  storage: KVStorage,
+  sessionId: Uint8Array,
+  pendingId: string
+): Promise<SplitRefund | null> {
+  let claimed: SplitRefund | null = null
+  await update(storage, sessionId, tally => ({
+    ...tally,
+    refunds: tally.refunds.map(r => {
+      if (r.pendingId !== pendingId || r.status !== 'owed') return r
+      claimed = { ...r, status: 'sending', attemptedAt: new Date().toISOString(), error: undefined }
+      return claimed
+    }),
+  }))
+  return claimed
+}
+
+/** Record how a claimed refund ended. Only a `sending` refund moves. */
+export async function settleRefund(
+  storage: KVStorage,
+  sessionId: Uint8Array,
+  pendingId: string,
+  outcome: { status: 'sent' | 'outbox'; outboxId: string } | { status: 'owed'; error: string }
+): Promise<SplitTally> {
+  return update(storage, sessionId, tally => ({
+    ...tally,
+    refunds: tally.refunds.map(r =>
+      r.pendingId === pendingId && r.status === 'sending' ? { ...r, ...outcome } : r
+    ),
+  }))
+}
@@ -0,0 +1,309 @@
+/**
+ * The point-of-sale till: what each checkout sold, and the day's reconciliation
+ * of those sales against the payments queue.
+ *
+ * A sale is recorded AFTER its payment is durably queued (see NearbyFlow's
+ * `onSettled`), never instead of it. The queue in pending.ts stays the only
+ * record money depends on; the till is bookkeeping layered on top, keyed by
+ * the queue entry's id, and a till write that fails costs a line on the
+ * report — never a payment. That is also why reconciliation reads the queue
+ * rather than trusting the till: a sale whose entry failed to internalize is
+ * money the shop has not got, whatever the till says.
+ */
+import {
+  getPending,
+  processPending,
+  type KVStorage,
+  type PendingPayment,
+  type PendingStatus,
+} from './pending'
+
+export const TILL_KEY = 'localpay_till'
+export const CATALOGUE_KEY = 'localpay_pos_items'
+
+/** Something the shop sells. `unitPrice` is satoshis. */
+export interface CatalogueItem {
+  name: string
+  unitPrice: number
+}
+
+/** One line of a cart. */
+export interface CartLine extends CatalogueItem {
+  quantity: number
+}
+
+/** One settled checkout. */
+export interface Sale {
+  /** The pending-queue entry the payment landed in — the reconciliation key. */
+  pendingId: string
+  /** Hex of the session minted for this checkout; one sale per session. */
+  sessionId: string
+  settledAt: string
+  /** Verified satoshis of the payment, which the bound session held to the cart total. */
+  satoshis: number
+  items: CartLine[]
+  senderIdentityKey: string
+}
+
+/**
+ * How a sale stands against the queue.
+ *
+ *   credited  internalized — the money is in the wallet
+ *   queued    safe, not yet internalized (offline, or not retried yet)
+ *   failed    internalization was refused; the reason is on the sale
+ *   missing   no queue entry at all — a sale that points at nothing
+ */
+export type SaleStatus = 'credited' | 'queued' | 'failed' | 'missing'
+
+export interface ReconciledSale extends Sale {
+  status: SaleStatus
+  failureReason?: string
+}
+
+export interface ItemTotal {
+  name: string
+  quantity: number
+  satoshis: number
+}
+
+export interface TillReport {
+  /** Local calendar day, YYYY-MM-DD. */
+  day: string
+  generatedAt: string
+  sales: ReconciledSale[]
+  /** Satoshis by status, plus the count and sum of every sale. */
+  totals: { count: number; satoshis: number } & Record<SaleStatus, number>
+  /** Per item, over credited and queued sales only: the takings, not the attempts. */
+  items: ItemTotal[]
+  /**
+   * Nearby payments received that day that no checkout recorded — taken
+   * outside POS mode, or a sale whose till write failed.
+   */
+  unmatched: { id: string; receivedAt: string; status: PendingStatus; senderIdentityKey: string }[]
+}
+
+export function cartTotal(lines: CartLine[]): number {
+  return lines.reduce((sum, l) => sum + l.unitPrice * l.quantity, 0)
+}
+
+/** Local calendar day of an ISO timestamp — a shop's day, not UTC's. */
+export function dayOf(iso: string | Date): string {
+  const d = typeof iso === 'string' ? new Date(iso) : iso
+  const pad = (n: number) => String(n).padStart(2, '0')
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`
+}
+
+// Same discipline as the pending queue: one storage key, so read-modify-write
+// sequences must not interleave.
+let tillLock: Promise<unknown> = Promise.resolve()
+
+function withTillLock<T>(fn: () => Promise<T>): Promise<T> {
+  const run = tillLock.then(fn, fn)
+  tillLock = run.catch(() => undefined)
+  return run
+}
+
+async function readSales(storage: KVStorage): Promise<Sale[]> {
+  // As in pending.ts: a storage failure propagates, only a parse failure reads as empty.
+  const raw = await storage.getKeyValue(TILL_KEY)
+  if (!raw) return []
+  try {
+    const parsed = JSON.parse(raw) as unknown
+    return Array.isArray(parsed) ? (parsed as Sale[]) : []
+  } catch {
+    return []
+  }
+}
+
+/** Idempotent on `pendingId`: a repeated callback records the sale once. */
+export async function recordSale(storage: KVStorage, sale: Sale): Promise<void> {
+  return withTillLock(async () => {
+    const all = await readSales(storage)
+    if (all.some(s => s.pendingId === sale.pendingId)) return
+    await storage.setKeyValue(TILL_KEY, JSON.stringify([...all, sale]))
+  })
+}
+
+/** Sales for one local day, oldest first; every sale when `day` is omitted. */
+export async function getSales(storage: KVStorage, day?: string): Promise<Sale[]> {
+  const all = await readSales(storage)
+  return day === undefined ? all : all.filter(s => dayOf(s.settledAt) === day)
+}
+
+/** The shop's saved items, in the order they were added. */
+export async function getCatalogue(storage: KVStorage): Promise<CatalogueItem[]> {
+  const raw = await storage.getKeyValue(CATALOGUE_KEY)
+  if (!raw) return []
+  try {
+    const parsed = JSON.parse(raw) as unknown
+    return Array.isArray(parsed) ? (parsed as CatalogueItem[]) : []
+  } catch {
+    return []
+  }
+}
+
+/** Replace the catalogue. Names are unique: a later item with the same name wins. */
+export async function saveCatalogue(storage: KVStorage, items: CatalogueItem[]): Promise<CatalogueItem[]> {
+  const byName = new Map(items.map(i => [i.name, i]))
+  const unique = [...byName.values()]
+  await storage.setKeyValue(CATALOGUE_KEY, JSON.stringify(unique))
+  return unique
+}
+
+const STATUS_OF: Record<PendingStatus, SaleStatus> = {
+  completed: 'credited',
+  pending: 'queued',
+  processing: 'queued',
+  failed: 'failed',
+}
+
+/** Pure: the day's sales against a snapshot of the queue. */
+export function reconcile(day: string, sales: Sale[], pending: PendingPayment[], now = new Date()): TillReport {
+  const byId = new Map(pending.map(p => [p.id, p]))
+  const reconciled: ReconciledSale[] = sales.map(s => {
+    const entry = byId.get(s.pendingId)
+    if (!entry) return { ...s, status: 'missing' }
+    const status = STATUS_OF[entry.status]
+    return status === 'failed' ? { ...s, status, failureReason: entry.failureReason } : { ...s, status }
+  })
+
+  const totals: TillReport['totals'] = { count: 0, satoshis: 0, credited: 0, queued: 0, failed: 0, missing: 0 }
+  const items = new Map<string, ItemTotal>()
+  for (const s of reconciled) {
+    totals.count++
+    totals.satoshis += s.satoshis
+    totals[s.status] += s.satoshis
+    if (s.status !== 'credited' && s.status !== 'queued') continue
+    for (const line of s.items) {
+      const item = items.get(line.name) ?? { name: line.name, quantity: 0, satoshis: 0 }
+      item.quantity += line.quantity
+      item.satoshis += line.unitPrice * line.quantity
+      items.set(line.name, item)
+    }
+  }
+
+  const recorded = new Set(sales.map(s => s.pendingId))
+  const unmatched = pending
+    .filter(p => !recorded.has(p.id) && dayOf(p.receivedAt) === day)
+    .map(p => ({ id: p.id, receivedAt: p.receivedAt, status: p.status, senderIdentityKey: p.frame.senderIdentityKey }))
+
+  return {
+    day,
+    generatedAt: now.toISOString(),
+    sales: reconciled,
+    totals,
+    items: [...items.values()].sort((a, b) => b.satoshis - a.satoshis),
+    unmatched,
+  }
+}
+
+/** What `reconcileDay` needs to retry the queue: processPending's own arguments. */
+export interface TillRetry {
+  wallet: Parameters<typeof processPending>[0]
+  originator: string
+  attribute?: Parameters<typeof processPending>[3]
+}
+
+/**
+ * End-of-day reconciliation. With a wallet, anything still queued is retried
+ * through `processPending` first, so the report shows what the retry could
+ * credit rather than what the last attempt left behind; without one it reports
+ * the queue as it stands.
+ */
+export async function reconcileDay(storage: KVStorage, day: string, retry?: TillRetry): Promise<TillReport> {
+  if (retry) {
+    try {
+      await processPending(retry.wallet, storage, retry.originator, retry.attribute)
+    } catch (e) {
+      // The report below still reads the queue; a failed retry only means it
+      // shows more sales as queued.
+      console.warn('[localpay] till retry failed:', e instanceof Error ? e.message : String(e))
+    }
+  }
+  return reconcile(day, await getSales(storage, day), await getPending(storage))
+}
+
+// ── Report rendering ──
+
+function csvEscape(v: unknown): string {
+  if (v == null) return ''
+  const s = String(v)
+  if (/[",\n\r]/.test(s)) return `"${s.replace(/"/g, '""')}"`
+  return s
+}
+
+const CSV_COLUMNS = ['settledAt', 'pendingId', 'status', 'satoshis', 'items', 'senderIdentityKey', 'failureReason']
+
+/** `#` header lines with the day's totals, then one row per sale. */
+export function reportCsv(r: TillReport): string {
+  const header = [
+    `# day=${r.day}`,
+    `# generatedAt=${r.generatedAt}`,
+    `# sales=${r.totals.count}`,
+    ...(['satoshis', 'credited', 'queued', 'failed', 'missing'] as const).map(k => `# ${k}=${r.totals[k]}`),
+    `# unmatched=${r.unmatched.length}`,
+  ]
+  const rows = r.sales.map(s =>
+    [
+      s.settledAt,
+      s.pendingId,
+      s.status,
+      s.satoshis,
+      s.items.map(l => `${l.quantity}x ${l.name} @ ${l.unitPrice}`).join('; '),
+      s.senderIdentityKey,
+      s.failureReason,
+    ]
+      .map(csvEscape)
+      .join(',')
+  )
+  return [...header, CSV_COLUMNS.join(','), ...rows].join('\n') + '\n'
+}
+
+function escapeHtml(s: string): string {
+  return s.replace(/[&<>"']/g, c => `&#${c.charCodeAt(0)};`)
+}
+
+const time = (iso: string) => new Date(iso).toTimeString().slice(0, 5)
+
+/** A one-page printable report. Item names are shop input, so all of it is escaped. */
+export function reportHtml(r: TillReport): string {
+  const itemRows = r.items
+    .map(i => `<tr><td>${escapeHtml(i.name)}</td><td class="n">${i.quantity}</td><td class="n">${i.satoshis}</td></tr>`)
+    .join('')
+  const saleRows = r.sales
+    .map(
+      s =>
+        `<tr><td>${time(s.settledAt)}</td><td>${s.status}</td><td class="n">${s.satoshis}</td>` +
+        `<td>${escapeHtml(s.items.map(l => `${l.quantity}× ${l.name}`).join(', '))}</td></tr>`
+    )
+    .join('')
+  const totalRows = (['credited', 'queued', 'failed', 'missing'] as const)
+    .map(k => `<tr><td>${k}</td><td class="n">${r.totals[k]}</td></tr>`)
+    .join('')
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8" />
+<style>
+  body { font-family: -apple-system, Helvetica, sans-serif; font-size: 12px; margin: 24px; }
+  h1 { font-size: 18px; margin: 0 0 4px; }
+  h2 { font-size: 14px; margin: 20px 0 6px; }
+  .meta { color: #666; }
+  table { width: 100%; border-collapse: collapse; }
+  td, th { text-align: left; padding: 3px 6px; border-bottom: 1px solid #ddd; }
+  .n { text-align: right; font-variant-numeric: tabular-nums; }
+</style>
+</head>
+<body>
+  <h1>Daily report — ${r.day}</h1>
+  <div class="meta">${r.totals.count} sales · ${r.totals.satoshis} sats · generated ${r.generatedAt}</div>
+  <h2>Totals (sats)</h2>
+  <table>${totalRows}</table>
+  <h2>Items</h2>
+  <table><tr><th>Item</th><th class="n">Qty</th><th class="n">Sats</th></tr>${itemRows}</table>
+  <h2>Sales</h2>
+  <table><tr><th>Time</th><th>Status</th><th class="n">Sats</th><th>Items</th></tr>${saleRows}</table>
+  ${r.unmatched.length > 0 ? `<h2>Not from a checkout</h2><div>${r.unmatched.length} nearby payments</div>` : ''}
+</body>
+</html>`
+}
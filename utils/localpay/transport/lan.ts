@@ -0,0 +1,292 @@
+import { Hash, Utils } from '@bsv/sdk'
+import type { LocalPayTransport } from 'react-native-localpay-transport'
+import { makeSocketTransport } from './socket'
+
+/**
+ * The LAN backend: the native transport's surface, implemented in JS over a
+ * WebSocket, with the listener found by its `_bsvpay._tcp` instance name
+ * exactly as AWDL's Bonjour finds it.
+ *
+ * It plugs in UNDER socket.ts, not beside it, so sealing, ack parsing, the
+ * one-ack latch and the decline-on-decode-failure rule are the same code on
+ * every socket rung — and a jest run with a real socket exercises all of it.
+ *
+ * What AWDL gets from TLS-PSK this gets from the seal and two MACs, both
+ * HMACs keyed by the session PSK. The request carries one over the frame, and
+ * a listener only takes a frame — and stops listening — once it checks out;
+ * otherwise anyone who saw the instance name could connect first and shut the
+ * real payer out. The ack carries one bound to the frame it answers: without
+ * it, anyone on the network could tell a payer "queued", and a positive ack is
+ * what releases the payer's transaction for broadcast.
+ *
+ * The socket server and the mDNS directory are injected. On a device they are
+ * a TCP server speaking WebSocket and react-native-zeroconf (lanDevice.ts,
+ * installed at app start by lanBackend.ts); under jest and on CI they are a
+ * localhost server and `memoryDirectory`, which is the socket.ts framing end
+ * to end with no device in the loop.
+ */
+
+/** One open connection, in the shape a WebSocket on either end already has. */
+export interface LanSocket {
+  send(data: string): void
+  close(): void
+  onMessage(fn: (data: string) => void): void
+  onClose(fn: () => void): void
+}
+
+export interface LanServer {
+  port: number
+  /** Stop accepting. Connections already accepted must stay open — one of them is waiting for its ack. */
+  close(): Promise<void>
+}
+
+/** Listen on an ephemeral port, handing every accepted connection to `onConnection`. */
+export type LanListen = (onConnection: (socket: LanSocket) => void) => Promise<LanServer>
+
+/** Open a WebSocket to `url`, rejecting if it cannot be opened. */
+export type LanConnect = (url: string) => Promise<LanSocket>
+
+/** The `_bsvpay._tcp` service directory — mDNS on a device, anything equivalent elsewhere. */
+export interface LanDirectory {
+  /** Advertise `name` at `port`; resolves to the call that withdraws it. */
+  advertise(name: string, port: number): Promise<() => Promise<void>>
+  /** Where `name` is listening, or a rejection within `timeoutMs`. */
+  resolve(name: string, timeoutMs: number): Promise<{ host: string; port: number }>
+}
+
+export interface LanDeps {
+  listen: LanListen
+  connect: LanConnect
+  directory: LanDirectory
+}
+
+const WIRE_VERSION = 1
+
+/**
+ * A LanConnect over a standard WebSocket constructor — the global one in
+ * React Native and Node 22, or `ws` where there is none.
+ */
+export function webSocketConnect(Impl: typeof WebSocket = globalThis.WebSocket): LanConnect {
+  return url =>
+    new Promise((resolve, reject) => {
+      const ws = new Impl(url)
+      ws.onopen = () => {
+        ws.onerror = null
+        resolve({
+          send: data => ws.send(data),
+          close: () => ws.close(),
+          onMessage: fn => {
+            ws.onmessage = e => fn(String(e.data))
+          },
+          onClose: fn => {
+            ws.onclose = () => fn()
+          },
+        })
+      }
+      ws.onerror = () => reject(new Error(`could not connect to ${url}`))
+    })
+}
+
+/**
+ * A directory that only knows what this process advertised, at 127.0.0.1.
+ * The localhost rung: two flows in one process — a jest run, a CI box — find
+ * each other through it exactly as two devices would through mDNS. A name
+ * not advertised at the moment of lookup is a miss, not a wait.
+ */
+export function memoryDirectory(host = '127.0.0.1'): LanDirectory {
+  const entries = new Map<string, number>()
+  return {
+    async advertise(name, port) {
+      entries.set(name, port)
+      return async () => {
+        if (entries.get(name) === port) entries.delete(name)
+      }
+    },
+    async resolve(name) {
+      const port = entries.get(name)
+      if (port === undefined) throw new Error(`no route to peer ${name}`)
+      return { host, port }
+    },
+  }
+}
+
+function ackMac(psk: number[], frameBase64: string, ackBase64: string): string {
+  return Utils.toHex(Hash.sha256hmac(psk, Utils.toArray(`${frameBase64}.${ackBase64}`, 'utf8')))
+}
+
+/** Never equal to an ackMac input: neither base64 nor the ack's '.' join contains ':'. */
+function requestMac(psk: number[], name: string, frameBase64: string): string {
+  return Utils.toHex(Hash.sha256hmac(psk, Utils.toArray(`request:${name}:${frameBase64}`, 'utf8')))
+}
+
+function sameMac(a: string, b: string): boolean {
+  if (a.length !== b.length) return false
+  let diff = 0
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i)
+  return diff === 0
+}
+
+function parseJson(data: string): Record<string, unknown> | null {
+  try {
+    const parsed = JSON.parse(data) as unknown
+    return typeof parsed === 'object' && parsed !== null ? (parsed as Record<string, unknown>) : null
+  } catch {
+    return null
+  }
+}
+
+function withTimeout<T>(p: Promise<T>, ms: number, message: string): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(message)), ms)
+    p.then(
+      v => {
+        clearTimeout(timer)
+        resolve(v)
+      },
+      e => {
+        clearTimeout(timer)
+        reject(e)
+      }
+    )
+  })
+}
+
+/**
+ * The native contract, over LanDeps. One listener at a time, first frame wins,
+ * and the winning connection is held open for `confirmFrame` — the same
+ * semantics socket.ts relies on from the Swift and Kotlin backends.
+ */
+export function createLanBackend(deps: LanDeps): LocalPayTransport {
+  let server: LanServer | null = null
+  let withdraw: (() => Promise<void>) | null = null
+  let held: { socket: LanSocket; psk: number[]; frameBase64: string } | null = null
+
+  /** Stop being findable and stop accepting; a held connection is left alone. */
+  const stopAccepting = async () => {
+    const w = withdraw
+    const s = server
+    withdraw = null
+    server = null
+    await w?.().catch(() => {})
+    await s?.close().catch(() => {})
+  }
+
+  return {
+    isSupported: () => true,
+
+    async startListening(name, pskBase64, onFrame, onError) {
+      await stopAccepting()
+      held?.socket.close()
+      held = null
+      const psk = Utils.toArray(pskBase64, 'base64')
+      let won = false
+      const s = await deps.listen(socket => {
+        socket.onMessage(data => {
+          const msg = parseJson(data)
+          // Another session's payer, someone without this session's PSK, or
+          // not a payer at all. Not a frame this listener can decline on
+          // anyone's behalf: drop the connection and keep listening for the
+          // real one.
+          if (
+            won ||
+            !msg ||
+            msg.v !== WIRE_VERSION ||
+            msg.n !== name ||
+            typeof msg.f !== 'string' ||
+            typeof msg.m !== 'string' ||
+            !sameMac(msg.m, requestMac(psk, name, msg.f))
+          ) {
+            socket.close()
+            return
+          }
+          won = true
+          held = { socket, psk, frameBase64: msg.f }
+          void stopAccepting()
+          onFrame(msg.f)
+        })
+      })
+      server = s
+      try {
+        withdraw = await deps.directory.advertise(name, s.port)
+      } catch (e) {
+        await stopAccepting()
+        onError(e instanceof Error ? e.message : String(e))
+        throw e
+      }
+    },
+
+    async stopListening() {
+      await stopAccepting()
+      held?.socket.close()
+      held = null
+    },
+
+    async confirmFrame(accepted, reason) {
+      const h = held
+      if (!h) return
+      held = null
+      const body = JSON.stringify(accepted ? { ok: true } : { ok: false, error: reason })
+      const ack = Utils.toBase64(Utils.toArray(body, 'utf8'))
+      try {
+        h.socket.send(JSON.stringify({ a: ack, m: ackMac(h.psk, h.frameBase64, ack) }))
+      } finally {
+        h.socket.close()
+      }
+    },
+
+    async sendFrame(name, pskBase64, frameBase64, timeoutMs, connectTimeoutMs) {
+      const psk = Utils.toArray(pskBase64, 'base64')
+      const started = Date.now()
+      const { host, port } = await deps.directory.resolve(name, connectTimeoutMs)
+      const where = host.includes(':') ? `[${host}]` : host
+      const socket = await withTimeout(deps.connect(`ws://${where}:${port}`), connectTimeoutMs, 'no route to peer')
+      const left = Math.max(0, timeoutMs - (Date.now() - started))
+
+      const exchange = new Promise<string>((resolve, reject) => {
+        socket.onMessage(data => {
+          const msg = parseJson(data)
+          socket.close()
+          if (!msg || typeof msg.a !== 'string' || typeof msg.m !== 'string') {
+            reject(new Error('malformed reply from peer'))
+          } else if (!sameMac(msg.m, ackMac(psk, frameBase64, msg.a))) {
+            // Not from the payee holding this session's PSK. Whatever it says,
+            // it is not an ack this payer may act on.
+            reject(new Error('reply failed authentication'))
+          } else {
+            resolve(msg.a)
+          }
+        })
+        socket.onClose(() => reject(new Error('connection closed before ack')))
+        socket.send(JSON.stringify({ v: WIRE_VERSION, n: name, f: frameBase64, m: requestMac(psk, name, frameBase64) }))
+      })
+      try {
+        return await withTimeout(exchange, left, 'timed out waiting for ack')
+      } catch (e) {
+        socket.close()
+        throw e
+      }
+    },
+  } as LocalPayTransport
+}
+
+let installed: LocalPayTransport | null = null
+
+/**
+ * Make the LAN rung available, with whatever server and directory this
+ * runtime has: lanBackend.ts on a device, a localhost pair under jest.
+ */
+export function installLanBackend(deps: LanDeps): void {
+  installed = createLanBackend(deps)
+}
+
+/** Remove the LAN rung, stopping any listener it has open. */
+export function uninstallLanBackend(): void {
+  void installed?.stopListening()
+  installed = null
+}
+
+export function getLanBackend(): LocalPayTransport | null {
+  return installed
+}
+
+export const lanTransport = makeSocketTransport('lan', getLanBackend)
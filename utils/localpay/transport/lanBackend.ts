@@ -0,0 +1,26 @@
+import TcpSocket from 'react-native-tcp-socket'
+import Zeroconf from 'react-native-zeroconf'
+import { installLanBackend, webSocketConnect } from './lan'
+import { tcpWebSocketListen, zeroconfDirectory, type TcpServer } from './lanDevice'
+
+/**
+ * Install the LAN rung on this device. Called once at app start.
+ *
+ * The payee listens on a TCP server (react-native-tcp-socket) speaking
+ * WebSocket (lanDevice.ts) and advertises its instance name over mDNS
+ * (react-native-zeroconf: Bonjour on iOS, NSD on Android, under the
+ * `_bsvpay._tcp` type app.json declares); the payer resolves the name and
+ * connects with the global WebSocket. A build without either native module
+ * installs nothing, and the ladder skips the rung.
+ */
+export function installDeviceLanBackend(): void {
+  try {
+    installLanBackend({
+      listen: tcpWebSocketListen(onConnection => TcpSocket.createServer(onConnection) as unknown as TcpServer),
+      connect: webSocketConnect(),
+      directory: zeroconfDirectory(new Zeroconf()),
+    })
+  } catch (e) {
+    console.warn('[localpay] no LAN backend:', e instanceof Error ? e.message : String(e))
+  }
+}
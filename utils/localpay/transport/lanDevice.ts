@@ -0,0 +1,329 @@
+import { Hash, Utils } from '@bsv/sdk'
+import type { LanDirectory, LanListen, LanSocket } from './lan'
+
+/**
+ * The pieces a device LAN backend is made of, kept free of native imports so
+ * jest runs them over Node's `net` exactly as the app runs them over
+ * react-native-tcp-socket (lanBackend.ts does the wiring).
+ *
+ * The payer side needs nothing here: React Native's global WebSocket connects
+ * (lan.ts `webSocketConnect`). The payee side needs a WebSocket SERVER, which
+ * React Native does not have, so this is the server end of RFC 6455 over a raw
+ * TCP server — only as much of it as lan.ts uses: one text message each way,
+ * then a close. Binary frames, extensions and subprotocols are refused.
+ */
+
+/** One accepted TCP connection: Node's net.Socket and react-native-tcp-socket's Socket both fit. */
+export interface TcpConnection {
+  on(event: 'data' | 'close' | 'error', fn: (arg?: any) => void): unknown
+  write(data: Uint8Array): unknown
+  /** Close after what was written has gone. */
+  end(): unknown
+  destroy(): unknown
+}
+
+export interface TcpServer {
+  listen(options: { port: number; host: string }, callback: () => void): unknown
+  address(): { port: number } | string | null
+  /** Stop accepting; connections already accepted stay open. */
+  close(callback?: () => void): unknown
+  on(event: 'error', fn: (err: Error) => void): unknown
+}
+
+export type CreateTcpServer = (onConnection: (socket: TcpConnection) => void) => TcpServer
+
+/** The mDNS surface of react-native-zeroconf that the directory uses. */
+export interface ZeroconfLike {
+  publishService(type: string, protocol: string, domain: string, name: string, port: number): void
+  unpublishService(name: string): void
+  scan(type: string, protocol: string, domain: string): void
+  stop(): void
+  on(event: 'resolved', fn: (service: ZeroconfService) => void): unknown
+  removeListener(event: 'resolved', fn: (service: ZeroconfService) => void): unknown
+}
+
+export interface ZeroconfService {
+  name: string
+  host: string
+  port: number
+  addresses?: string[]
+}
+
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11'
+/** A handshake is a few hundred bytes; anything this long is not one. */
+const MAX_HANDSHAKE_BYTES = 8 * 1024
+/** A sealed payment frame in base64, with room for a large transaction. */
+const MAX_MESSAGE_BYTES = 4 * 1024 * 1024
+
+const OP_CONTINUATION = 0x0
+const OP_TEXT = 0x1
+const OP_CLOSE = 0x8
+const OP_PING = 0x9
+const OP_PONG = 0xa
+
+function concat(a: Uint8Array, b: Uint8Array): Uint8Array {
+  if (a.length === 0) return b
+  const out = new Uint8Array(a.length + b.length)
+  out.set(a)
+  out.set(b, a.length)
+  return out
+}
+
+function toBytes(data: Uint8Array | string): Uint8Array {
+  return typeof data === 'string' ? Uint8Array.from(Utils.toArray(data, 'utf8')) : new Uint8Array(data)
+}
+
+/** An unmasked frame, as a server sends them. */
+function encodeFrame(opcode: number, payload: Uint8Array): Uint8Array {
+  const n = payload.length
+  const head = n < 126 ? 2 : n < 0x10000 ? 4 : 10
+  const out = new Uint8Array(head + n)
+  out[0] = 0x80 | opcode
+  if (n < 126) {
+    out[1] = n
+  } else if (n < 0x10000) {
+    out[1] = 126
+    out[2] = n >>> 8
+    out[3] = n & 0xff
+  } else {
+    out[1] = 127
+    // Capped at MAX_MESSAGE_BYTES, so the top four bytes stay zero.
+    out[6] = (n >>> 24) & 0xff
+    out[7] = (n >>> 16) & 0xff
+    out[8] = (n >>> 8) & 0xff
+    out[9] = n & 0xff
+  }
+  out.set(payload, head)
+  return out
+}
+
+/** The request's headers, lower-cased, or null when it is no WebSocket upgrade. */
+function parseUpgrade(head: string): Map<string, string> | null {
+  const [requestLine, ...lines] = head.split('\r\n')
+  if (!/^GET \S+ HTTP\/1\.1$/.test(requestLine)) return null
+  const headers = new Map<string, string>()
+  for (const line of lines) {
+    const colon = line.indexOf(':')
+    if (colon > 0) headers.set(line.slice(0, colon).trim().toLowerCase(), line.slice(colon + 1).trim())
+  }
+  if (headers.get('upgrade')?.toLowerCase() !== 'websocket') return null
+  if (headers.get('sec-websocket-version') !== '13' || !headers.get('sec-websocket-key')) return null
+  return headers
+}
+
+/**
+ * Serve one connection as a WebSocket: answer the upgrade, then hand the open
+ * socket to `onOpen`. A connection that does not upgrade cleanly is dropped,
+ * as is one that breaks the protocol or sends more than a message's worth.
+ */
+export function acceptWebSocket(conn: TcpConnection, onOpen: (socket: LanSocket) => void): void {
+  let buffer: Uint8Array = new Uint8Array(0)
+  let open = false
+  let closed = false
+  let fragments: Uint8Array[] = []
+  let fragmentBytes = 0
+  let onMessage: (data: string) => void = () => {}
+  let onClose: () => void = () => {}
+
+  const drop = () => {
+    if (closed) return
+    closed = true
+    conn.destroy()
+  }
+
+  const close = () => {
+    if (closed) return
+    closed = true
+    conn.write(encodeFrame(OP_CLOSE, new Uint8Array(0)))
+    conn.end()
+  }
+
+  const handshake = (): boolean => {
+    let end = -1
+    for (let i = 3; i < buffer.length; i++) {
+      if (buffer[i - 3] === 13 && buffer[i - 2] === 10 && buffer[i - 1] === 13 && buffer[i] === 10) {
+        end = i + 1
+        break
+      }
+    }
+    if (end < 0) {
+      if (buffer.length > MAX_HANDSHAKE_BYTES) drop()
+      return false
+    }
+    const headers = parseUpgrade(Utils.toUTF8(Array.from(buffer.subarray(0, end))))
+    buffer = buffer.subarray(end)
+    if (!headers) {
+      conn.write(toBytes('HTTP/1.1 400 Bad Request\r\nConnection: close\r\n\r\n'))
+      closed = true
+      conn.end()
+      return false
+    }
+    const accept = Utils.toBase64(Hash.sha1(Utils.toArray(`${headers.get('sec-websocket-key')}${WS_GUID}`, 'utf8')))
+    conn.write(
+      toBytes(
+        'HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\n' +
+          `Sec-WebSocket-Accept: ${accept}\r\n\r\n`,
+      ),
+    )
+    open = true
+    onOpen({
+      send: data => {
+        if (!closed) conn.write(encodeFrame(OP_TEXT, toBytes(data)))
+      },
+      close,
+      onMessage: fn => {
+        onMessage = fn
+      },
+      onClose: fn => {
+        onClose = fn
+      },
+    })
+    return true
+  }
+
+  /** One frame off the buffer; false when it is not all here yet. */
+  const frame = (): boolean => {
+    if (buffer.length < 2) return false
+    const fin = (buffer[0] & 0x80) !== 0
+    const opcode = buffer[0] & 0x0f
+    // Clients must mask (RFC 6455 §5.1) and nothing is negotiated for the RSV bits.
+    if ((buffer[0] & 0x70) !== 0 || (buffer[1] & 0x80) === 0) {
+      drop()
+      return false
+    }
+    let length = buffer[1] & 0x7f
+    let offset = 2
+    if (length === 126) {
+      if (buffer.length < 4) return false
+      length = (buffer[2] << 8) | buffer[3]
+      offset = 4
+    } else if (length === 127) {
+      if (buffer.length < 10) return false
+      if (buffer[2] | buffer[3] | buffer[4] | buffer[5]) {
+        drop()
+        return false
+      }
+      length = ((buffer[6] << 24) >>> 0) + (buffer[7] << 16) + (buffer[8] << 8) + buffer[9]
+      offset = 10
+    }
+    if (length > MAX_MESSAGE_BYTES) {
+      drop()
+      return false
+    }
+    if (buffer.length < offset + 4 + length) return false
+    const mask = buffer.subarray(offset, offset + 4)
+    const payload = new Uint8Array(length)
+    for (let i = 0; i < length; i++) payload[i] = buffer[offset + 4 + i] ^ mask[i & 3]
+    buffer = buffer.subarray(offset + 4 + length)
+
+    if (opcode === OP_CLOSE) {
+      close()
+      return false
+    }
+    if (opcode === OP_PING) {
+      conn.write(encodeFrame(OP_PONG, payload))
+      return true
+    }
+    if (opcode === OP_PONG) return true
+    if (opcode !== OP_TEXT && opcode !== OP_CONTINUATION) {
+      close()
+      return false
+    }
+    fragmentBytes += length
+    if (fragmentBytes > MAX_MESSAGE_BYTES) {
+      drop()
+      return false
+    }
+    fragments.push(payload)
+    if (fin) {
+      const message = fragments.reduce(concat, new Uint8Array(0))
+      fragments = []
+      fragmentBytes = 0
+      onMessage(Utils.toUTF8(Array.from(message)))
+    }
+    return true
+  }
+
+  conn.on('data', (data: Uint8Array | string) => {
+    if (closed) return
+    buffer = concat(buffer, toBytes(data))
+    if (!open && !handshake()) return
+    while (!closed && frame()) {
+      // Each pass takes one complete frame; a partial one waits for more data.
+    }
+  })
+  conn.on('error', () => drop())
+  conn.on('close', () => {
+    closed = true
+    if (open) onClose()
+  })
+}
+
+/** A LanListen over a TCP server: every accepted connection is served as a WebSocket. */
+export function tcpWebSocketListen(createServer: CreateTcpServer, host = '0.0.0.0'): LanListen {
+  return onConnection =>
+    new Promise((resolve, reject) => {
+      const server = createServer(conn => acceptWebSocket(conn, onConnection))
+      server.on('error', reject)
+      server.listen({ port: 0, host }, () => {
+        const address = server.address()
+        if (address === null || typeof address === 'string') {
+          server.close()
+          reject(new Error('listener has no port'))
+          return
+        }
+        resolve({
+          port: address.port,
+          // Not the close callback: that waits for every accepted connection
+          // to end, and the one holding the frame is still waiting for its ack.
+          close: async () => {
+            server.close()
+          },
+        })
+      })
+    })
+}
+
+/**
+ * The `_bsvpay._tcp` directory over mDNS. Advertising publishes the instance
+ * name; resolving browses the service type until that name resolves, and
+ * prefers an IPv4 address, since an IPv6 link-local one is useless without the
+ * interface it was seen on.
+ */
+export function zeroconfDirectory(zeroconf: ZeroconfLike): LanDirectory {
+  // Browsing is one scan per instance: a second resolve joins it, and the
+  // last one out stops it.
+  let browsing = 0
+
+  return {
+    async advertise(name, port) {
+      zeroconf.publishService('bsvpay', 'tcp', 'local.', name, port)
+      return async () => zeroconf.unpublishService(name)
+    },
+
+    resolve(name, timeoutMs) {
+      return new Promise((resolve, reject) => {
+        const finish = () => {
+          clearTimeout(timer)
+          zeroconf.removeListener('resolved', onResolved)
+          browsing -= 1
+          if (browsing === 0) zeroconf.stop()
+        }
+        const onResolved = (service: ZeroconfService) => {
+          if (service.name !== name) return
+          const addresses = service.addresses ?? []
+          const host = addresses.find(a => !a.includes(':')) ?? addresses[0] ?? service.host
+          finish()
+          resolve({ host, port: service.port })
+        }
+        const timer = setTimeout(() => {
+          finish()
+          reject(new Error(`no route to peer ${name}`))
+        }, timeoutMs)
+        zeroconf.on('resolved', onResolved)
+        browsing += 1
+        if (browsing === 1) zeroconf.scan('bsvpay', 'tcp', 'local.')
+      })
+    },
+  }
+}
@@ -1,8 +1,9 @@
 import { Platform } from 'react-native'
 import { getLocalPayTransport } from 'react-native-localpay-transport'
-import { CAP_AWDL, CAP_NEARBY, type Session } from '../session'
+import { CAP_AWDL, CAP_LAN, CAP_NEARBY, type Session } from '../session'
+import { getLanBackend } from './lan'
 
-export type TransportKind = 'awdl' | 'nearby' | 'qr'
+export type TransportKind = 'awdl' | 'nearby' | 'lan' | 'qr'
 
 /** True when this device can act as an AWDL peer. */
 export function localSupportsAwdl(): boolean {
@@ -29,6 +30,19 @@ export function localSupportsNearby(): boolean {
   }
 }
 
+/**
+ * True when a LAN backend is installed (lan.ts). Platform-independent: it
+ * depends only on whether this runtime was given a socket server and a
+ * directory, which is also why it is the rung that runs under jest.
+ */
+export function localSupportsLan(): boolean {
+  try {
+    return getLanBackend()?.isSupported() ?? false
+  } catch {
+    return false
+  }
+}
+
 /**
  * The rung both sides can climb to. Caps say what the PEER advertised at mint
  * time; the local check says what THIS device can do. QR is the floor every
@@ -38,5 +52,6 @@ export function localSupportsNearby(): boolean {
 export function selectTransport(session: Session): TransportKind {
   if ((session.caps & CAP_AWDL) !== 0 && localSupportsAwdl()) return 'awdl'
   if ((session.caps & CAP_NEARBY) !== 0 && localSupportsNearby()) return 'nearby'
+  if ((session.caps & CAP_LAN) !== 0 && localSupportsLan()) return 'lan'
   return 'qr'
 }
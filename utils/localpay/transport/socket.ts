@@ -90,27 +90,31 @@ function declineQuietly(native: LocalPayTransport, reason: DeclineReason): void
 }
 
 /**
- * The socketed transport wrapper, shared by both radio backends. The native
+ * The socketed transport wrapper, shared by every socket backend. The native
  * surface is identical on both platforms (one Nitro spec): iOS implements it
  * over AWDL/Network.framework, Android over Google Nearby Connections. Which
  * one getLocalPayTransport() returns is decided by the platform at build
- * time, so `kind` here is attribution, not dispatch.
+ * time, so `kind` here is attribution, not dispatch. The LAN rung passes its
+ * own JS backend of the same shape (lan.ts) as `getNative`.
  */
-export function makeSocketTransport(kind: 'awdl' | 'nearby'): LocalPaymentTransport {
+export function makeSocketTransport(
+  kind: 'awdl' | 'nearby' | 'lan',
+  getNative: () => LocalPayTransport | null = getLocalPayTransport
+): LocalPaymentTransport {
   /**
    * Connect-phase budget before the payer gives up and falls back to the QR.
    * Radio-specific: AWDL's Bonjour discovery over an already-established
-   * Wi-Fi link resolves (or doesn't) inside ~4s, but Nearby has to do BLE
-   * discovery and then a Wi-Fi/hotspot upgrade before a connection even
-   * exists — 4s there would false-positive "no route to peer" on a link
-   * that just needed more time to come up.
+   * Wi-Fi link resolves (or doesn't) inside ~4s, and so does mDNS on a LAN,
+   * but Nearby has to do BLE discovery and then a Wi-Fi/hotspot upgrade
+   * before a connection even exists — 4s there would false-positive "no
+   * route to peer" on a link that just needed more time to come up.
    */
-  const CONNECT_TIMEOUT_MS = kind === 'awdl' ? 4_000 : 10_000
+  const CONNECT_TIMEOUT_MS = kind === 'nearby' ? 10_000 : 4_000
   return {
     kind,
 
     receive(session: Session, signal: AbortSignal): Promise<ReceivedFrame> {
-      const native = getLocalPayTransport()
+      const native = getNative()
       if (!native) return Promise.reject(new Error(`${kind} transport unavailable`))
       if (signal.aborted) return Promise.reject(new Error('cancelled'))
       const name = instanceName(session.sessionId)
@@ -174,7 +178,7 @@ export function makeSocketTransport(kind: 'awdl' | 'nearby'): LocalPaymentTransp
     },
 
     send(session: Session, frame: PaymentFrame, signal: AbortSignal): Promise<Ack> {
-      const native = getLocalPayTransport()
+      const native = getNative()
       if (!native) return Promise.reject(new Error(`${kind} transport unavailable`))
       if (signal.aborted) return Promise.reject(new Error('cancelled'))
 
@@ -28,12 +28,15 @@ export type DeclineReason =
   | 'save_failed'
   /** The frame did not decode — version skew, truncation, trailing bytes. */
   | 'decode_failed'
+  /** Holding it offline would pass this payer's channel limit (utils/offline/channel.ts). */
+  | 'limit_reached'
 
 const DECLINE_REASONS: readonly string[] = [
   'session_mismatch',
   'already_paid',
   'save_failed',
-  'decode_failed'
+  'decode_failed',
+  'limit_reached'
 ]
 
 export function isDeclineReason(value: string): value is DeclineReason {
@@ -61,7 +64,7 @@ export interface ReceivedFrame {
 }
 
 export interface LocalPaymentTransport {
-  readonly kind: 'awdl' | 'nearby' | 'qr'
+  readonly kind: 'awdl' | 'nearby' | 'lan' | 'qr'
   receive(session: Session, signal: AbortSignal): Promise<ReceivedFrame>
   send(session: Session, frame: PaymentFrame, signal: AbortSignal): Promise<Ack>
 }
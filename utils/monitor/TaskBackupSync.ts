@@ -0,0 +1,122 @@
+/**
+ * Pulls the other devices' backup logs into this wallet's database (live sync).
+ *
+ * The counterpart of TaskBackupPush, and shaped like it: gated on the app's single online
+ * signal, a floor between passes, an immediate follow-up while a peer is still behind, and
+ * exponential backoff after failures. State is static and process-global for the same reason
+ * as there — the monitor is rebuilt on network switches, and the backoff after a failing
+ * server must survive that.
+ *
+ * Also the settings screen's view of sync: `peers` is the per-device state as of the last
+ * pass, and `subscribe` tells a mounted screen when it changes.
+ */
+import { WalletMonitorTask } from '@bsv/wallet-toolbox-mobile/out/src/monitor/tasks/WalletMonitorTask'
+import type { Monitor } from '@bsv/wallet-toolbox-mobile'
+import { MIN_PULL_INTERVAL_MS } from '../backup/constants'
+import type { PeerSyncState, SyncResult } from '../backup/sync'
+
+export class TaskBackupSync extends WalletMonitorTask {
+  static taskName = 'BackupSync'
+
+  static readonly BASE_BACKOFF_MS = 30_000
+  static readonly MAX_BACKOFF_MS = 900_000
+
+  /** Last observation from the app's online listener. Gates the trigger entirely. */
+  static onlineNow = false
+  /** An immediate pass has been requested. Consumed at the top of runTask. */
+  static checkNow = false
+  /** Earliest time the next pass may run. */
+  static nextDueAt = 0
+  static backoffMs = TaskBackupSync.BASE_BACKOFF_MS
+  /** Last error, kept so settings can show why sync is not progressing. */
+  static lastError: string | undefined
+  /** Every other device with a log, as of the last pass. */
+  static peers: PeerSyncState[] = []
+
+  private static listeners = new Set<() => void>()
+
+  /** Called whenever `peers` or `lastError` changes. Returns the unsubscribe. */
+  static subscribe (listener: () => void): () => void {
+    TaskBackupSync.listeners.add(listener)
+    return () => {
+      TaskBackupSync.listeners.delete(listener)
+    }
+  }
+
+  static notePeers (peers: PeerSyncState[]): void {
+    TaskBackupSync.peers = peers
+    TaskBackupSync.listeners.forEach(l => l())
+  }
+
+  static noteConnectivity (online: boolean): void {
+    TaskBackupSync.onlineNow = online
+    if (online) {
+      TaskBackupSync.checkNow = true
+      TaskBackupSync.backoffMs = TaskBackupSync.BASE_BACKOFF_MS
+      TaskBackupSync.nextDueAt = 0
+    }
+  }
+
+  /** User asked for an immediate sync, or just switched it on. */
+  static requestNow (): void {
+    TaskBackupSync.checkNow = true
+    TaskBackupSync.backoffMs = TaskBackupSync.BASE_BACKOFF_MS
+    TaskBackupSync.nextDueAt = 0
+  }
+
+  static noteRan (at: number): void {
+    TaskBackupSync.nextDueAt = at + MIN_PULL_INTERVAL_MS
+  }
+
+  static noteFailure (at: number): void {
+    TaskBackupSync.nextDueAt = at + TaskBackupSync.backoffMs
+    TaskBackupSync.backoffMs = Math.min(TaskBackupSync.backoffMs * 2, TaskBackupSync.MAX_BACKOFF_MS)
+  }
+
+  /** Test seam; also used when the user signs out. */
+  static reset (): void {
+    TaskBackupSync.onlineNow = false
+    TaskBackupSync.checkNow = false
+    TaskBackupSync.nextDueAt = 0
+    TaskBackupSync.backoffMs = TaskBackupSync.BASE_BACKOFF_MS
+    TaskBackupSync.lastError = undefined
+    TaskBackupSync.notePeers([])
+  }
+
+  constructor (
+    monitor: Monitor,
+    private readonly sync: () => Promise<SyncResult>
+  ) {
+    super(monitor, TaskBackupSync.taskName)
+  }
+
+  trigger (nowMsecsSinceEpoch: number): { run: boolean } {
+    if (!TaskBackupSync.onlineNow) return { run: false }
+    if (TaskBackupSync.checkNow) return { run: true }
+    return { run: nowMsecsSinceEpoch >= TaskBackupSync.nextDueAt }
+  }
+
+  async runTask (): Promise<string> {
+    TaskBackupSync.checkNow = false
+    const startedAt = Date.now()
+
+    try {
+      const r = await this.sync()
+      TaskBackupSync.noteRan(startedAt)
+      TaskBackupSync.backoffMs = TaskBackupSync.BASE_BACKOFF_MS
+      TaskBackupSync.lastError = undefined
+      if (r.optedOut === true) return ''
+
+      TaskBackupSync.notePeers(r.peers)
+      // A peer still ahead: drain it on the next tick rather than a minute from now.
+      if (r.more) TaskBackupSync.checkNow = true
+      return r.pulled > 0 ? 'backup sync: merged 1 chunk' : ''
+    } catch (e) {
+      const message = e instanceof Error ? e.message : String(e)
+      TaskBackupSync.lastError = message
+      TaskBackupSync.noteFailure(startedAt)
+      TaskBackupSync.listeners.forEach(l => l())
+      return `backup sync: failed, retrying after ${TaskBackupSync.backoffMs}ms: ${message}`
+    }
+  }
+}
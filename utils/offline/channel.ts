@@ -0,0 +1,282 @@
+/**
+ * Offline payment channels: a running chain of unbroadcast payments between
+ * two devices, bounded per counterparty.
+ *
+ * Offline, `holdSentPaymentOffline` already lets a payer fund a second payment
+ * out of the first one's change, and the payee's hold keeps what it received
+ * spendable. A channel is the bookkeeping on top of that, kept on both ends:
+ * every payment held with one counterparty is a link, a payer builds each link
+ * from the previous link's change (see `chainHead`), and the sum of the links
+ * not yet broadcast is the exposure — what this device stands to lose if the
+ * chain never lands. Either end refuses a link that would take the exposure
+ * past that counterparty's limit.
+ *
+ * Release needs nothing new. Each link's AtomicBEEF carries the links before
+ * it, so whichever device reconnects first drains the whole chain through
+ * `processOfflineActions`, parents first by `./order`, and the other finds it
+ * already on the network. `channelReleaseOrder` is that same rule over the
+ * links alone, which is why both devices agree on the order the chain lands in.
+ */
+import { Transaction } from '@bsv/sdk'
+import { getPending, type KVStorage, type PendingStatus } from '@/utils/localpay/pending'
+import { receivedTxid } from '@/utils/localpay/refund'
+import type { OfflineActionRow } from '@/storage/methods/offlineActions'
+import { releaseOrder } from './order'
+
+export const CHANNELS_KEY = 'offline_channels'
+
+/** The limit a channel opens with until one is set for its counterparty. */
+export const DEFAULT_CHANNEL_LIMIT = 100_000
+
+export type LinkDirection = 'sent' | 'received'
+
+/** `held` until its queue row is released; `rejected` once the network refused it. */
+export type LinkStatus = 'held' | 'released' | 'rejected'
+
+export interface ChannelLink {
+  txid: string
+  direction: LinkDirection
+  satoshis: number
+  /** The txids this link spends — the previous link's, on a chain that held. */
+  inputTxids: string[]
+  /** The payer's change outpoints, for the next link to spend. Sent links only. */
+  change?: string[]
+  status: LinkStatus
+  at: string
+}
+
+export interface OfflineChannel {
+  /** The other device's identity key. */
+  counterparty: string
+  limit: number
+  /** In the order they were made. */
+  links: ChannelLink[]
+}
+
+export interface ChannelSettings {
+  enabled: boolean
+  /** The limit each new channel opens with. */
+  defaultLimit: number
+}
+
+/** The unbroadcast-risk meter, as a screen draws it. */
+export interface ChannelRisk {
+  exposure: number
+  limit: number
+  /** exposure / limit, capped at 1. */
+  fraction: number
+  level: 'none' | 'low' | 'high' | 'full'
+}
+
+interface ChannelStore {
+  settings: ChannelSettings
+  channels: Record<string, OfflineChannel>
+}
+
+const DEFAULT_SETTINGS: ChannelSettings = { enabled: false, defaultLimit: DEFAULT_CHANNEL_LIMIT }
+
+/** Past this share of the limit the meter warns. */
+const HIGH_RISK = 0.75
+
+// One storage key, so read-modify-write sequences must not interleave.
+let channelLock: Promise<unknown> = Promise.resolve()
+
+function withChannelLock<T>(fn: () => Promise<T>): Promise<T> {
+  const run = channelLock.then(fn, fn)
+  channelLock = run.catch(() => undefined)
+  return run
+}
+
+async function readAll(storage: KVStorage): Promise<ChannelStore> {
+  // As in pending.ts: a storage failure propagates, only a parse failure reads as empty.
+  const raw = await storage.getKeyValue(CHANNELS_KEY)
+  if (!raw) return { settings: DEFAULT_SETTINGS, channels: {} }
+  try {
+    const parsed = JSON.parse(raw) as Partial<ChannelStore> | null
+    return {
+      settings: { ...DEFAULT_SETTINGS, ...parsed?.settings },
+      channels: parsed?.channels && typeof parsed.channels === 'object' ? parsed.channels : {},
+    }
+  } catch {
+    return { settings: DEFAULT_SETTINGS, channels: {} }
+  }
+}
+
+async function writeAll(storage: KVStorage, store: ChannelStore): Promise<void> {
+  await storage.setKeyValue(CHANNELS_KEY, JSON.stringify(store))
+}
+
+function assertLimit(limit: number): void {
+  if (!Number.isSafeInteger(limit) || limit <= 0) {
+    throw new Error('limit must be a positive whole number of satoshis')
+  }
+}
+
+function channelIn(store: ChannelStore, counterparty: string): OfflineChannel {
+  return store.channels[counterparty] ?? { counterparty, limit: store.settings.defaultLimit, links: [] }
+}
+
+export async function getChannelSettings(storage: KVStorage): Promise<ChannelSettings> {
+  return (await readAll(storage)).settings
+}
+
+export async function setChannelSettings(
+  storage: KVStorage,
+  patch: Partial<ChannelSettings>
+): Promise<ChannelSettings> {
+  if (patch.defaultLimit !== undefined) assertLimit(patch.defaultLimit)
+  return withChannelLock(async () => {
+    const store = await readAll(storage)
+    const settings = { ...store.settings, ...patch }
+    await writeAll(storage, { ...store, settings })
+    return settings
+  })
+}
+
+export async function getChannels(storage: KVStorage): Promise<OfflineChannel[]> {
+  return Object.values((await readAll(storage)).channels)
+}
+
+/** The channel with `counterparty` — an empty one at the default limit if none was ever opened. */
+export async function getChannel(storage: KVStorage, counterparty: string): Promise<OfflineChannel> {
+  return channelIn(await readAll(storage), counterparty)
+}
+
+export async function setChannelLimit(
+  storage: KVStorage,
+  counterparty: string,
+  limit: number
+): Promise<OfflineChannel> {
+  assertLimit(limit)
+  return withChannelLock(async () => {
+    const store = await readAll(storage)
+    const channel = { ...channelIn(store, counterparty), limit }
+    await writeAll(storage, { ...store, channels: { ...store.channels, [counterparty]: channel } })
+    return channel
+  })
+}
+
+/**
+ * Add a held payment to the channel with `counterparty`, opening it if need
+ * be. Idempotent on txid: a frame delivered twice is one link.
+ */
+export async function recordLink(
+  storage: KVStorage,
+  counterparty: string,
+  link: Omit<ChannelLink, 'status' | 'at'>
+): Promise<OfflineChannel> {
+  return withChannelLock(async () => {
+    const store = await readAll(storage)
+    const channel = channelIn(store, counterparty)
+    if (channel.links.some(l => l.txid === link.txid)) return channel
+    const next: OfflineChannel = {
+      ...channel,
+      links: [...channel.links, { ...link, status: 'held', at: new Date().toISOString() }],
+    }
+    await writeAll(storage, { ...store, channels: { ...store.channels, [counterparty]: next } })
+    return next
+  })
+}
+
+/**
+ * Move held links on. A sent link follows its queue row, which the payer's
+ * hold always writes: `sent` releases it, `rejected` marks it lost.
+ *
+ * A received link follows its pending-queue entry first, because that is
+ * where a received frame lives until it is internalized: `failed` is lost
+ * money, and anything short of `completed` is still held. A `completed` entry
+ * was internalized, but offline that only parked it in the queue, so it stays
+ * held while a queue row for it is still waiting, and is rejected if the
+ * network refused it there.
+ */
+export async function reconcileChannels(
+  storage: KVStorage,
+  rows: Pick<OfflineActionRow, 'txid' | 'status'>[]
+): Promise<OfflineChannel[]> {
+  const rowOf = new Map(rows.map(r => [r.txid, r.status]))
+  const pendingOf = new Map<string, PendingStatus>()
+  for (const p of await getPending(storage)) {
+    const txid = receivedTxid(p)
+    if (txid) pendingOf.set(txid, p.status)
+  }
+  const settle = (link: ChannelLink): LinkStatus => {
+    if (link.status !== 'held') return link.status
+    const row = rowOf.get(link.txid)
+    if (link.direction === 'sent') {
+      return row === 'sent' ? 'released' : row === 'rejected' ? 'rejected' : 'held'
+    }
+    const pending = pendingOf.get(link.txid)
+    if (pending === 'failed' || row === 'rejected') return 'rejected'
+    if (pending !== 'completed') return 'held'
+    return row === 'queued' || row === 'posting' ? 'held' : 'released'
+  }
+  return withChannelLock(async () => {
+    const store = await readAll(storage)
+    let changed = false
+    const channels: Record<string, OfflineChannel> = {}
+    for (const [key, channel] of Object.entries(store.channels)) {
+      const links = channel.links.map(l => {
+        const status = settle(l)
+        if (status === l.status) return l
+        changed = true
+        return { ...l, status }
+      })
+      channels[key] = { ...channel, links }
+    }
+    if (changed) await writeAll(storage, { ...store, channels })
+    return Object.values(channels)
+  })
+}
+
+/** What the links still held in this channel are worth. */
+export function exposure(channel: OfflineChannel): number {
+  return channel.links.reduce((sum, l) => (l.status === 'held' ? sum + l.satoshis : sum), 0)
+}
+
+/** Whether a further `satoshis` may be held with this counterparty. */
+export function fitsLimit(channel: OfflineChannel, satoshis: number): boolean {
+  return exposure(channel) + satoshis <= channel.limit
+}
+
+export function channelRisk(channel: OfflineChannel): ChannelRisk {
+  const held = exposure(channel)
+  const fraction = channel.limit > 0 ? Math.min(1, held / channel.limit) : 1
+  const level = held === 0 ? 'none' : fraction >= 1 ? 'full' : fraction >= HIGH_RISK ? 'high' : 'low'
+  return { exposure: held, limit: channel.limit, fraction, level }
+}
+
+/**
+ * The change the next sent link should spend: the latest held sent link's.
+ * Undefined once the chain has landed, or when that link had no change to spend.
+ */
+export function chainHead(channel: OfflineChannel): string[] | undefined {
+  const head = [...channel.links].reverse().find(l => l.direction === 'sent' && l.status === 'held')
+  return head?.change && head.change.length > 0 ? head.change : undefined
+}
+
+/** The held links in the order they must reach the network. */
+export function channelReleaseOrder(channel: OfflineChannel): string[] {
+  return releaseOrder(
+    channel.links
+      .filter(l => l.status === 'held')
+      .map(l => ({ txid: l.txid, hasProof: false, isTxidOnly: false, inputTxids: l.inputTxids }))
+  )
+}
+
+/**
+ * The txid of an AtomicBEEF's subject transaction and the txids it spends —
+ * the part of a link a frame carries — or null when it does not parse.
+ */
+export function linkOf(atomicBeef: Uint8Array): Pick<ChannelLink, 'txid' | 'inputTxids'> | null {
+  try {
+    const tx = Transaction.fromAtomicBEEF(atomicBeef)
+    return {
+      txid: tx.id('hex'),
+      inputTxids: tx.inputs
+        .map(i => i.sourceTXID ?? i.sourceTransaction?.id('hex'))
+        .filter((txid): txid is string => typeof txid === 'string'),
+    }
+  } catch {
+    return null
+  }
+}
@@ -249,7 +249,7 @@ export async function sendViaHandle(args: {
   note?: string
   /** Resolved display name, used only for the default description. */
   recipientName?: string
-}): Promise<{ outboxId: string; satoshis: number }> {
+}): Promise<{ outboxId: string; satoshis: number; txid: string }> {
   const { wallet, adminOriginator, client, storage, recipient, messageBoxUrl, recipientName } = args
   const sats = Math.round(Number(args.satoshis))
   if (!Number.isFinite(sats) || sats <= 0) throw new Error('Invalid amount')
@@ -319,7 +319,7 @@ export async function sendViaHandle(args: {
   await updateOutboxEntry(storage, outboxId, { delivered: true })
   await broadcastNoSend(wallet, adminOriginator, car.txid)
   await markOutboxSent(storage, outboxId)
-  return { outboxId, satoshis: paid }
+  return { outboxId, satoshis: paid, txid: car.txid }
 }
 
 /**
@@ -38,12 +38,49 @@ export {
   isAirGapPart
 } from '@bsv/air-gap'
 export {
+  getPending,
   isSessionSpent,
   markSessionSpent,
   processPending,
   savePending,
   type PendingPayment
 } from '@/utils/localpay/pending'
+export {
+  cartTotal,
+  dayOf,
+  getCatalogue,
+  getSales,
+  reconcileDay,
+  recordSale,
+  reportCsv,
+  reportHtml,
+  saveCatalogue,
+  type CartLine,
+  type CatalogueItem,
+  type Sale,
+  type TillReport
+} from '@/utils/localpay/till'
+export {
+  bySender,
+  claimRefund,
+  getSplit,
+  openSplit,
+  paidSoFar,
+  recordContribution,
+  remaining,
+  settleRefund,
+  type SplitRefund,
+  type SplitTally
+} from '@/utils/localpay/split'
+export {
+  claimPaymentRefund,
+  getRefunds,
+  refundLinks,
+  refundableByTxid,
+  settlePaymentRefund,
+  type PaymentRefund,
+  type Refundable
+} from '@/utils/localpay/refund'
 export { buildPaymentFrame, finalizeDelivery } from '@/utils/localpay/build'
 export {
   FrameVerifyError,
@@ -52,10 +89,28 @@ export {
   type FrameVerifyKind
 } from '@/utils/localpay/verify'
 export { holdSentPaymentOffline } from '@/utils/offline/payerHold'
+export {
+  chainHead,
+  channelReleaseOrder,
+  channelRisk,
+  fitsLimit,
+  getChannelSettings,
+  getChannels,
+  linkOf,
+  reconcileChannels,
+  recordLink,
+  setChannelLimit,
+  setChannelSettings,
+  type ChannelRisk,
+  type ChannelSettings,
+  type OfflineChannel
+} from '@/utils/offline/channel'
 export { awdlTransport } from '@/utils/localpay/transport/awdl'
 export { nearbyTransport } from '@/utils/localpay/transport/nearby'
+export { lanTransport } from '@/utils/localpay/transport/lan'
 export {
   localSupportsAwdl,
+  localSupportsLan,
   localSupportsNearby,
   selectTransport,
   type TransportKind
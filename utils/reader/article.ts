@@ -0,0 +1,131 @@
+/**
+ * The article shape reader mode works with.
+ *
+ * The page script (utils/reader/extractScript.ts) flattens the page into a
+ * list of plain-text blocks rather than handing back HTML. The reader view
+ * renders those as native Text, so nothing the page wrote is ever parsed or
+ * run again, and the same JSON is what a saved article is stored as.
+ */
+
+export type ArticleBlock =
+  | { type: 'heading'; level: 1 | 2 | 3; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'quote'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'list'; ordered: boolean; items: string[] }
+  | { type: 'image'; src: string; caption?: string }
+
+export interface Article {
+  url: string
+  title: string
+  byline?: string
+  siteName?: string
+  /** First paragraph, trimmed; shown in the reading list. */
+  excerpt: string
+  blocks: ArticleBlock[]
+  wordCount: number
+}
+
+// Bounds on what a page can hand us. A real article is far inside them.
+const MAX_BLOCKS = 2_000
+const MAX_TEXT = 20_000
+const MAX_LIST_ITEMS = 200
+const MAX_META = 300
+const EXCERPT_CHARS = 200
+const WORDS_PER_MINUTE = 230
+
+function text(value: unknown, max: number): string {
+  return typeof value === 'string' ? value.replace(/\s+/g, ' ').trim().slice(0, max) : ''
+}
+
+// Images are loaded by the app, not the page, so only plain http(s) URLs —
+// no data:, javascript: or file: sources.
+function imageUrl(value: unknown, base: string): string | null {
+  if (typeof value !== 'string' || !value) return null
+  try {
+    const url = new URL(value, base)
+    return url.protocol === 'https:' || url.protocol === 'http:' ? url.href : null
+  } catch {
+    return null
+  }
+}
+
+function block(raw: any, base: string): ArticleBlock | null {
+  if (!raw || typeof raw !== 'object') return null
+  switch (raw.type) {
+    case 'heading': {
+      const t = text(raw.text, MAX_TEXT)
+      const level = raw.level === 1 || raw.level === 2 ? raw.level : 3
+      return t ? { type: 'heading', level, text: t } : null
+    }
+    case 'paragraph':
+    case 'quote': {
+      const t = text(raw.text, MAX_TEXT)
+      return t ? { type: raw.type, text: t } : null
+    }
+    case 'code': {
+      // Whitespace is the content here; keep it.
+      const t = typeof raw.text === 'string' ? raw.text.slice(0, MAX_TEXT).replace(/^\n+|\s+$/g, '') : ''
+      return t ? { type: 'code', text: t } : null
+    }
+    case 'list': {
+      const items = Array.isArray(raw.items)
+        ? raw.items
+            .slice(0, MAX_LIST_ITEMS)
+            .map((i: unknown) => text(i, MAX_TEXT))
+            .filter(Boolean)
+        : []
+      return items.length ? { type: 'list', ordered: raw.ordered === true, items } : null
+    }
+    case 'image': {
+      const src = imageUrl(raw.src, base)
+      if (!src) return null
+      const caption = text(raw.caption, MAX_META)
+      return caption ? { type: 'image', src, caption } : { type: 'image', src }
+    }
+    default:
+      return null
+  }
+}
+
+/**
+ * Validate what the page script posted. Returns null when it isn't an article
+ * — the script found nothing readable, or the page sent something else.
+ */
+export function normalizeArticle(raw: unknown, pageUrl: string): Article | null {
+  if (!raw || typeof raw !== 'object') return null
+  const r = raw as Record<string, unknown>
+  if (!Array.isArray(r.blocks)) return null
+
+  const blocks: ArticleBlock[] = []
+  for (const b of r.blocks.slice(0, MAX_BLOCKS)) {
+    const normalized = block(b, pageUrl)
+    if (normalized) blocks.push(normalized)
+  }
+  const prose = blocks.filter(
+    (b): b is Extract<ArticleBlock, { text: string }> => b.type === 'paragraph' || b.type === 'quote'
+  )
+  if (!prose.length) return null
+
+  const words = (s: string) => s.split(' ').filter(Boolean).length
+  const wordCount = blocks.reduce((n, b) => {
+    if (b.type === 'list') return n + b.items.reduce((m, i) => m + words(i), 0)
+    if (b.type === 'image') return n
+    return n + words(b.text)
+  }, 0)
+
+  const excerpt = prose[0].text
+  return {
+    url: pageUrl,
+    title: text(r.title, MAX_META) || pageUrl,
+    byline: text(r.byline, MAX_META) || undefined,
+    siteName: text(r.siteName, MAX_META) || undefined,
+    excerpt: excerpt.length > EXCERPT_CHARS ? `${excerpt.slice(0, EXCERPT_CHARS - 1).trimEnd()}…` : excerpt,
+    blocks,
+    wordCount
+  }
+}
+
+export function readingMinutes(article: Pick<Article, 'wordCount'>): number {
+  return Math.max(1, Math.round(article.wordCount / WORDS_PER_MINUTE))
+}
@@ -0,0 +1,173 @@
+/**
+ * The page half of reader mode: find the main article in the live DOM and post
+ * it back as blocks (see utils/reader/article.ts).
+ *
+ * The content root is picked the way Readability does it, cut down: every
+ * paragraph scores its parent (and half that to its grandparent) by length and
+ * comma count, class names and ids that look like chrome count against a
+ * node, and the best-scoring node wins. The walk below it then keeps prose,
+ * headings, lists, quotes, code and figures, and drops anything that is mostly
+ * links or looks like a share bar, comment thread or promo.
+ *
+ * Runs on demand in the active tab, never at document start.
+ */
+
+/** Page reply; `article` is null when the page has nothing that reads like one. */
+export const READER_ARTICLE_MESSAGE = 'READER_ARTICLE'
+
+// Below this much paragraph text the page is a listing or an app, not an article.
+const MIN_ARTICLE_CHARS = 500
+
+export function buildReaderExtractScript(requestId: string): string {
+  return `(function() {
+  var requestId = ${JSON.stringify(requestId)};
+  function post(article) {
+    try {
+      window.ReactNativeWebView.postMessage(JSON.stringify({ type: '${READER_ARTICLE_MESSAGE}', id: requestId, article: article }));
+    } catch (e) {}
+  }
+  try {
+    var NEGATIVE = /(^|[\\s_-])(ad|ads|advert|banner|breadcrumbs?|combx|comments?|cookie|footer|footnote|masthead|menu|meta|modal|nav|newsletter|outbrain|popup|promo|related|share|sharing|shopping|sidebar|skyscraper|social|sponsor|subscribe|tags?|taboola|toolbar|widget)([\\s_-]|$)/i;
+    var POSITIVE = /article|body|content|entry|h-entry|main|page|post|story|text|blog/i;
+    var SKIP_TAGS = { SCRIPT: 1, STYLE: 1, NOSCRIPT: 1, NAV: 1, ASIDE: 1, FOOTER: 1, FORM: 1, BUTTON: 1, INPUT: 1, SELECT: 1, TEXTAREA: 1, IFRAME: 1, SVG: 1, CANVAS: 1, TEMPLATE: 1 };
+
+    function clean(s) { return (s || '').replace(/\\s+/g, ' ').trim(); }
+    function textOf(el) { return clean(el.textContent); }
+    function hints(el) {
+      var c = el.getAttribute && el.getAttribute('class');
+      return (c || '') + ' ' + (el.id || '');
+    }
+    function classWeight(el) {
+      var h = hints(el), w = 0;
+      if (NEGATIVE.test(h)) w -= 25;
+      if (POSITIVE.test(h)) w += 25;
+      return w;
+    }
+    function hidden(el) {
+      if (el.hidden || el.getAttribute('aria-hidden') === 'true') return true;
+      var style = el.style;
+      return !!style && (style.display === 'none' || style.visibility === 'hidden');
+    }
+    function linkDensity(el) {
+      var total = textOf(el).length;
+      if (!total) return 0;
+      var links = el.getElementsByTagName('a'), linked = 0;
+      for (var i = 0; i < links.length; i++) linked += textOf(links[i]).length;
+      return linked / total;
+    }
+    function meta(names) {
+      for (var i = 0; i < names.length; i++) {
+        var el = document.querySelector('meta[property="' + names[i] + '"], meta[name="' + names[i] + '"]');
+        var v = el && clean(el.getAttribute('content'));
+        if (v) return v;
+      }
+      return '';
+    }
+
+    // Score candidates.
+    var scores = [], nodes = [];
+    function addScore(el, n) {
+      if (!el || el.nodeType !== 1) return;
+      var i = nodes.indexOf(el);
+      if (i === -1) {
+        nodes.push(el);
+        var base = classWeight(el);
+        if (el.tagName === 'ARTICLE' || el.tagName === 'MAIN') base += 10;
+        else if (el.tagName === 'DIV' || el.tagName === 'SECTION') base += 5;
+        scores.push(base + n);
+      } else {
+        scores[i] += n;
+      }
+    }
+    var paragraphs = document.querySelectorAll('p, pre, td');
+    var totalText = 0;
+    for (var i = 0; i < paragraphs.length; i++) {
+      var p = paragraphs[i];
+      var t = textOf(p);
+      if (t.length < 25) continue;
+      totalText += t.length;
+      var score = 1 + t.split(',').length + Math.min(Math.floor(t.length / 100), 3);
+      addScore(p.parentElement, score);
+      if (p.parentElement) addScore(p.parentElement.parentElement, score / 2);
+    }
+    if (totalText < ${MIN_ARTICLE_CHARS}) { post(null); return; }
+
+    var best = null, bestScore = -Infinity;
+    for (var j = 0; j < nodes.length; j++) {
+      var adjusted = scores[j] * (1 - linkDensity(nodes[j]));
+      if (adjusted > bestScore) { bestScore = adjusted; best = nodes[j]; }
+    }
+    if (!best) { post(null); return; }
+    // Siblings of an article body are often the rest of it (split by ads).
+    var root = best.parentElement && best.parentElement !== document.body ? best.parentElement : best;
+    if (root !== best && textOf(best).length < textOf(root).length * 0.6) root = best;
+
+    // The article's own headline beats og:title and <title>, which usually
+    // carry the site name as well.
+    var headline = root.querySelector('h1') || document.querySelector('article h1');
+    var title = (headline && textOf(headline)) || meta(['og:title', 'twitter:title']) || clean(document.title);
+    var blocks = [];
+    function push(block) { if (blocks.length < 2000) blocks.push(block); }
+    function image(img, caption) {
+      var src = img.currentSrc || img.getAttribute('src') || img.getAttribute('data-src') || '';
+      if (!src || (img.width && img.width < 50) || (img.height && img.height < 50)) return;
+      push({ type: 'image', src: src, caption: caption || img.getAttribute('alt') || '' });
+    }
+    function walk(el) {
+      for (var child = el.firstChild; child; child = child.nextSibling) {
+        if (child.nodeType === 3) {
+          var loose = clean(child.nodeValue);
+          if (loose.length > 40) push({ type: 'paragraph', text: loose });
+          continue;
+        }
+        if (child.nodeType !== 1 || SKIP_TAGS[child.tagName] || hidden(child)) continue;
+        var tag = child.tagName;
+        if (/^H[1-6]$/.test(tag)) {
+          var h = textOf(child);
+          if (h && h !== title) push({ type: 'heading', level: Math.min(Math.max(Number(tag[1]) - 1, 1), 3), text: h });
+        } else if (tag === 'P') {
+          var imgs = child.getElementsByTagName('img');
+          for (var k = 0; k < imgs.length; k++) image(imgs[k]);
+          var para = textOf(child);
+          if (para && linkDensity(child) < 0.8) push({ type: 'paragraph', text: para });
+        } else if (tag === 'BLOCKQUOTE') {
+          var q = textOf(child);
+          if (q) push({ type: 'quote', text: q });
+        } else if (tag === 'PRE') {
+          push({ type: 'code', text: child.textContent || '' });
+        } else if (tag === 'UL' || tag === 'OL') {
+          if (linkDensity(child) > 0.5 || NEGATIVE.test(hints(child))) continue;
+          var items = [];
+          for (var li = child.firstElementChild; li; li = li.nextElementSibling) {
+            if (li.tagName === 'LI') items.push(textOf(li));
+          }
+          push({ type: 'list', ordered: tag === 'OL', items: items });
+        } else if (tag === 'IMG') {
+          image(child);
+        } else if (tag === 'FIGURE') {
+          var fimg = child.querySelector('img');
+          var cap = child.querySelector('figcaption');
+          if (fimg) image(fimg, cap ? textOf(cap) : '');
+        } else if (tag === 'TABLE') {
+          var cell = textOf(child);
+          if (cell && linkDensity(child) < 0.5) push({ type: 'paragraph', text: cell });
+        } else {
+          if (NEGATIVE.test(hints(child)) && !POSITIVE.test(hints(child))) continue;
+          if (linkDensity(child) > 0.5 && textOf(child).length < 300) continue;
+          walk(child);
+        }
+      }
+    }
+    walk(root);
+
+    post({
+      title: title,
+      byline: meta(['author', 'article:author', 'twitter:creator']) || textOf(document.querySelector('[rel="author"], .byline, .author') || document.createElement('i')),
+      siteName: meta(['og:site_name', 'application-name']),
+      blocks: blocks
+    });
+  } catch (e) {
+    post(null);
+  }
+})();true;`
+}
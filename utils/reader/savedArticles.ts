@@ -0,0 +1,46 @@
+/**
+ * Saved article bodies for the reading list, one JSON file per article in the
+ * document directory so they open without the network. The list itself (titles,
+ * excerpts, read state) lives in AsyncStorage, see stores/ReaderStore.ts.
+ *
+ * Images are kept as URLs, not downloaded: a saved article reads offline, and
+ * its pictures come back when the network does.
+ */
+import type { Article } from './article'
+
+const SAVED_ARTICLES_DIR = 'reading-list'
+
+/**
+ * Required lazily for the same reason as utils/headers/fs.ts: expo-file-system
+ * ships untranspiled TS, and an eager import breaks every test that reaches
+ * this module.
+ */
+function articleFile(id: string) {
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  const { Directory, File, Paths } = require('expo-file-system') as typeof import('expo-file-system')
+  const dir = new Directory(Paths.document, SAVED_ARTICLES_DIR)
+  if (!dir.exists) dir.create({ intermediates: true })
+  return new File(dir, `${id.replace(/[^\w-]/g, '_')}.json`)
+}
+
+export function writeSavedArticle(id: string, article: Article) {
+  const file = articleFile(id)
+  if (!file.exists) file.create()
+  file.write(JSON.stringify(article))
+}
+
+export async function readSavedArticle(id: string): Promise<Article | null> {
+  try {
+    const file = articleFile(id)
+    return file.exists ? (JSON.parse(await file.text()) as Article) : null
+  } catch {
+    return null
+  }
+}
+
+export function deleteSavedArticle(id: string) {
+  try {
+    const file = articleFile(id)
+    if (file.exists) file.delete()
+  } catch {}
+}
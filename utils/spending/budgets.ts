@@ -0,0 +1,192 @@
+/**
+ * Per-origin spending budgets.
+ *
+ * A budget caps what one site may spend per local calendar day and per local
+ * calendar month. It is a prompting rule, not a hard block: a spend that would
+ * take the origin over either cap skips auto-approve and goes to the spending
+ * sheet with the overrun spelled out, and the user can still authorize it.
+ * Refusing outright would strand a purchase the user is standing in front of.
+ * Budgets are keyed by wallet originator, so a site opened in a tab group
+ * container — 402 payments included — spends against the container's budget,
+ * not the site's.
+ *
+ * What has been spent comes from the wallet itself (see ledger.ts), never from a
+ * counter kept here — a counter drifts the moment a spend is aborted, fails to
+ * broadcast, or is restored onto another device. This module holds the caps.
+ *
+ * Kept in AsyncStorage beside the auto-approve threshold rather than in wallet
+ * settings: the spending callback reads it on every request, before and without
+ * the settings manager.
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage'
+
+export const SPENDING_BUDGETS_KEY = 'spending_budgets_v1'
+
+export type BudgetPeriod = 'daily' | 'monthly'
+
+export interface OriginBudget {
+  /** Satoshis per local calendar day. null = no daily cap. */
+  daily: number | null
+  /** Satoshis per local calendar month. null = no monthly cap. */
+  monthly: number | null
+  /** ISO 8601. */
+  updatedAt: string
+}
+
+export type BudgetRegistry = Record<string, OriginBudget>
+
+/** What an origin has spent inside each budget window. */
+export interface PeriodSpend {
+  today: number
+  thisMonth: number
+}
+
+export type BudgetVerdict =
+  | { ok: true }
+  | { ok: false; period: BudgetPeriod; limit: number; spent: number; remaining: number }
+
+/**
+ * The token revocation half of WalletPermissionsManager. Narrowed so the budget
+ * screen and the tests need nothing more than these two calls.
+ */
+export interface SpendingAuthorizationRevoker {
+  listSpendingAuthorizations(args: { originator?: string }): Promise<unknown[]>
+  revokePermission(token: any): Promise<void>
+}
+
+// Same discipline as utils/pay/watchlist.ts: every read-modify-write on the
+// single storage key runs through one chain, or a write built from a stale read
+// silently drops another origin's budget.
+let queueLock: Promise<unknown> = Promise.resolve()
+
+function withQueueLock<T>(fn: () => Promise<T>): Promise<T> {
+  const run = queueLock.then(fn, fn)
+  queueLock = run.catch(() => undefined)
+  return run
+}
+
+function validCap(v: unknown): number | null {
+  return typeof v === 'number' && Number.isSafeInteger(v) && v >= 0 ? v : null
+}
+
+async function readAll(): Promise<BudgetRegistry> {
+  try {
+    const raw = await AsyncStorage.getItem(SPENDING_BUDGETS_KEY)
+    if (!raw) return {}
+    const parsed = JSON.parse(raw)
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) return {}
+    const out: BudgetRegistry = {}
+    for (const [origin, b] of Object.entries(parsed as Record<string, any>)) {
+      if (!b || typeof b !== 'object') continue
+      out[origin] = { daily: validCap(b.daily), monthly: validCap(b.monthly), updatedAt: String(b.updatedAt ?? '') }
+    }
+    return out
+  } catch {
+    return {}
+  }
+}
+
+async function writeAll(registry: BudgetRegistry): Promise<void> {
+  await AsyncStorage.setItem(SPENDING_BUDGETS_KEY, JSON.stringify(registry))
+}
+
+/** Every budget, keyed by origin. Never throws; an unreadable store reads as empty. */
+export async function getBudgets(): Promise<BudgetRegistry> {
+  return readAll()
+}
+
+/** The origin's budget, or null when it has none. */
+export async function getBudget(origin: string): Promise<OriginBudget | null> {
+  return (await readAll())[origin] ?? null
+}
+
+/**
+ * Set an origin's caps. A budget with neither cap is removed rather than stored,
+ * so "no budget" has exactly one representation on disk.
+ */
+export async function setBudget(
+  origin: string,
+  caps: { daily: number | null; monthly: number | null }
+): Promise<void> {
+  const daily = validCap(caps.daily)
+  const monthly = validCap(caps.monthly)
+  return withQueueLock(async () => {
+    const registry = await readAll()
+    if (daily === null && monthly === null) {
+      delete registry[origin]
+    } else {
+      registry[origin] = { daily, monthly, updatedAt: new Date().toISOString() }
+    }
+    await writeAll(registry)
+  })
+}
+
+export async function clearBudget(origin: string): Promise<void> {
+  return setBudget(origin, { daily: null, monthly: null })
+}
+
+/** Local midnight today, and local midnight on the first of this month. */
+export function budgetWindowStarts(nowMs: number): { dayStart: number; monthStart: number } {
+  const now = new Date(nowMs)
+  return {
+    dayStart: new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime(),
+    monthStart: new Date(now.getFullYear(), now.getMonth(), 1).getTime()
+  }
+}
+
+/**
+ * Would spending `amount` more take the origin over a cap?
+ *
+ * The daily cap is checked first: when both are exceeded, the tighter window is
+ * the one the user can do something about today.
+ */
+export function evaluateBudget(budget: OriginBudget | null, spent: PeriodSpend, amount: number): BudgetVerdict {
+  if (!budget) return { ok: true }
+  if (budget.daily !== null && spent.today + amount > budget.daily) {
+    return {
+      ok: false,
+      period: 'daily',
+      limit: budget.daily,
+      spent: spent.today,
+      remaining: Math.max(0, budget.daily - spent.today)
+    }
+  }
+  if (budget.monthly !== null && spent.thisMonth + amount > budget.monthly) {
+    return {
+      ok: false,
+      period: 'monthly',
+      limit: budget.monthly,
+      spent: spent.thisMonth,
+      remaining: Math.max(0, budget.monthly - spent.thisMonth)
+    }
+  }
+  return { ok: true }
+}
+
+/** What is left in each window; null where the budget sets no cap. */
+export function remainingBudget(
+  budget: OriginBudget | null,
+  spent: PeriodSpend
+): { daily: number | null; monthly: number | null } {
+  return {
+    daily: budget?.daily == null ? null : Math.max(0, budget.daily - spent.today),
+    monthly: budget?.monthly == null ? null : Math.max(0, budget.monthly - spent.thisMonth)
+  }
+}
+
+/**
+ * Revoke every standing spending authorization the origin holds, and drop its
+ * budget. Returns how many authorizations were revoked.
+ *
+ * The spending sheet grants ephemerally, so most origins hold none — but one
+ * granted from another wallet app on the same keys would otherwise keep spending
+ * without ever reaching a prompt this device can see.
+ */
+export async function revokeOriginSpending(manager: SpendingAuthorizationRevoker, origin: string): Promise<number> {
+  const tokens = await manager.listSpendingAuthorizations({ originator: origin })
+  for (const token of tokens) {
+    await manager.revokePermission(token)
+  }
+  await clearBudget(origin)
+  return tokens.length
+}
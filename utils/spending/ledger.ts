@@ -0,0 +1,106 @@
+/**
+ * Per-origin spending, read back out of the wallet's own action history.
+ *
+ * WalletPermissionsManager labels every action it lets through on an origin's
+ * behalf `admin originator <origin>`; that label is the only link from a
+ * transaction to the site that asked for it, so it is what this groups by.
+ * Actions with no such label (the user's own sends, receives) belong to no
+ * origin and are skipped.
+ *
+ * Only outgoing, non-failed actions count: a spend that failed to broadcast
+ * never left the wallet and must not eat into a budget.
+ */
+import type { WalletInterface, WalletAction } from '@bsv/sdk'
+import { budgetWindowStarts, type PeriodSpend } from './budgets'
+
+const PAGE = 200
+export const ORIGINATOR_LABEL_PREFIX = 'admin originator '
+
+export interface OriginSpending extends PeriodSpend {
+  origin: string
+  /** Epoch ms of the newest spend this month, or null when there was none. */
+  lastSpendAt: number | null
+  /** Spends this month. */
+  count: number
+}
+
+type LedgerAction = WalletAction & { created_at?: string | number | Date }
+
+function actionTime(a: LedgerAction): number {
+  const raw = a.created_at
+  return raw === undefined || raw === null ? NaN : new Date(raw as string).getTime()
+}
+
+function originOf(a: LedgerAction): string | null {
+  const label = (a.labels || []).find(l => l.startsWith(ORIGINATOR_LABEL_PREFIX))
+  return label ? label.slice(ORIGINATOR_LABEL_PREFIX.length) : null
+}
+
+/**
+ * Fold actions into per-origin totals for the current day and month.
+ *
+ * Undated actions are left out rather than guessed into a window — counting one
+ * as today's could block a spend the budget actually allows.
+ */
+export function summarizeSpending(actions: LedgerAction[], nowMs: number): Map<string, OriginSpending> {
+  const { dayStart, monthStart } = budgetWindowStarts(nowMs)
+  const out = new Map<string, OriginSpending>()
+  for (const a of actions) {
+    if (!a.isOutgoing || a.status === 'failed') continue
+    const origin = originOf(a)
+    if (!origin) continue
+    const ts = actionTime(a)
+    if (Number.isNaN(ts) || ts < monthStart) continue
+
+    const sats = Math.abs(a.satoshis)
+    const entry = out.get(origin) ?? { origin, today: 0, thisMonth: 0, lastSpendAt: null, count: 0 }
+    entry.thisMonth += sats
+    if (ts >= dayStart) entry.today += sats
+    entry.lastSpendAt = entry.lastSpendAt === null ? ts : Math.max(entry.lastSpendAt, ts)
+    entry.count += 1
+    out.set(origin, entry)
+  }
+  return out
+}
+
+/**
+ * This month's actions, newest first. Storage returns actions newest-first, so
+ * paging stops at the first page that reaches back past the start of the month
+ * instead of walking the whole history on every spend.
+ */
+async function listThisMonth(wallet: WalletInterface, adminOriginator: string, nowMs: number): Promise<LedgerAction[]> {
+  const { monthStart } = budgetWindowStarts(nowMs)
+  const actions: LedgerAction[] = []
+  let offset = 0
+  let total = Infinity
+  while (offset < total) {
+    const r = await wallet.listActions({ labels: [], includeLabels: true, limit: PAGE, offset }, adminOriginator)
+    total = r.totalActions
+    if (r.actions.length === 0) break
+    actions.push(...(r.actions as LedgerAction[]))
+    offset += r.actions.length
+    const oldest = actionTime(r.actions[r.actions.length - 1] as LedgerAction)
+    if (!Number.isNaN(oldest) && oldest < monthStart) break
+  }
+  return actions
+}
+
+/** Spending for every origin that spent this month. */
+export async function loadSpendingLedger(
+  wallet: WalletInterface,
+  adminOriginator: string,
+  nowMs = Date.now()
+): Promise<Map<string, OriginSpending>> {
+  return summarizeSpending(await listThisMonth(wallet, adminOriginator, nowMs), nowMs)
+}
+
+/** One origin's spending in the current windows; zeros when it has spent nothing. */
+export async function loadOriginSpending(
+  wallet: WalletInterface,
+  adminOriginator: string,
+  origin: string,
+  nowMs = Date.now()
+): Promise<PeriodSpend> {
+  const entry = (await loadSpendingLedger(wallet, adminOriginator, nowMs)).get(origin)
+  return { today: entry?.today ?? 0, thisMonth: entry?.thisMonth ?? 0 }
+}
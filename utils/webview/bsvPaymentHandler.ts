@@ -3,6 +3,9 @@ import type { WalletInterface, WalletProtocol } from '@bsv/sdk'
 import { getErrorPage } from './errorPages'
 import { handleUrlDownload } from './downloadHandler'
 import { mark, measureAsync } from '@/utils/perfMarks'
+import { ceilingFor, decidePayment, getPaymentPolicy, parseRequestedSats, setDomainCeiling } from './paymentPolicy'
+import { readReceiptContent, recordReceipt, type PaymentReceipt, type ReceiptContentStore } from './paymentReceipts'
+import { containerOriginator } from './walletOrigin'
 
 const BRC29_PROTOCOL_ID: WalletProtocol = [2, '3241645161d8']
 const HEADER_PREFIX = 'x-bsv-'
@@ -15,6 +18,45 @@ interface PaymentCacheEntry {
 const paymentCache = new Map<string, PaymentCacheEntry>()
 const inFlightPayments = new Map<string, Promise<string | null>>()
 
+/**
+ * Pages armed to be served from a receipt instead of paid for again, keyed by
+ * container and URL (paymentKey), like the paid-page cache: armed for the tab
+ * the receipt is re-opened in, not for any tab that loads the URL meanwhile.
+ * One-shot and short-lived: re-opening a receipt navigates the tab to the URL,
+ * the server answers 402 as it would for anyone, and the next handle402 for
+ * that URL in that container takes the stored page. Anything not consumed
+ * within the window lapses, so a later visit pays normally.
+ */
+const pendingReplays = new Map<string, { html: string; expiresAt: number }>()
+const REPLAY_WINDOW_MS = 60 * 1000
+
+/** What the confirmation sheet is asked about. */
+export interface PaymentConfirmRequest {
+  url: string
+  domain: string
+  sats: number
+  serverIdentityKey: string
+  /** The domain's current auto-pay ceiling, which `sats` is over. */
+  ceiling: number
+}
+
+/**
+ * The user's answer: pay this once, pay and raise the domain's ceiling to this
+ * amount so it is not asked again, or don't pay.
+ */
+export type PaymentConfirmChoice = 'once' | 'always' | 'decline'
+
+export type PaymentConfirmHandler = (request: PaymentConfirmRequest) => Promise<PaymentConfirmChoice>
+
+/**
+ * Paid pages are cached and coalesced per container as well as per URL: a page
+ * paid for in one container is that container's, and must not be handed to a
+ * tab that never paid.
+ */
+function paymentKey(url: string, container?: string): string {
+  return container ? `${container}\n${url}` : url
+}
+
 function safeOrigin(u: string): string {
   try { return new URL(u).origin } catch { return '' }
 }
@@ -96,16 +138,65 @@ function buildDownloadStartedHtml(filename?: string | null): string {
 </body></html>`
 }
 
+/**
+ * Arm a receipt's stored page to be served the next time its URL answers 402.
+ * False when the receipt has no page to re-open (a download, or the page could
+ * not be stored), in which case the caller should not navigate. `container` is
+ * that of the tab the page will be re-opened in, as handle402 will be given it.
+ */
+export async function armReceiptReplay(
+  receipt: PaymentReceipt,
+  container?: string,
+  store?: ReceiptContentStore
+): Promise<boolean> {
+  const html = await readReceiptContent(receipt, store)
+  if (html === null) return false
+  pendingReplays.set(paymentKey(receipt.url, container), { html, expiresAt: Date.now() + REPLAY_WINDOW_MS })
+  return true
+}
+
 export class BsvPaymentHandler {
   readonly wallet: WalletInterface
   readonly cacheTimeoutMs = 30 * 60 * 1000 // 30 minutes
+  private confirm: PaymentConfirmHandler | null
+  private readonly contentStore?: ReceiptContentStore
 
-  constructor(wallet: WalletInterface) {
+  constructor(
+    wallet: WalletInterface,
+    options: { confirm?: PaymentConfirmHandler; contentStore?: ReceiptContentStore } = {}
+  ) {
     this.wallet = wallet
+    this.confirm = options.confirm ?? null
+    this.contentStore = options.contentStore
+  }
+
+  /**
+   * Install the confirmation sheet. Until one is installed, payments over the
+   * ceiling are declined rather than made unasked.
+   */
+  setConfirmHandler(confirm: PaymentConfirmHandler | null) {
+    this.confirm = confirm
   }
 
-  async handle402(url: string, status: number, headers: Record<string, string>): Promise<string | null> {
-    const cacheKey = url
+  /**
+   * Pay for a page that answered 402. `container` is the tab group container
+   * the page loads in, if any: the spend is then charged to the container's
+   * originator (walletOrigin.containerOriginator), as every other wallet call
+   * from that tab is.
+   */
+  async handle402(
+    url: string,
+    status: number,
+    headers: Record<string, string>,
+    container?: string
+  ): Promise<string | null> {
+    const cacheKey = paymentKey(url, container)
+    const replay = pendingReplays.get(cacheKey)
+    if (replay) {
+      pendingReplays.delete(cacheKey)
+      if (replay.expiresAt > Date.now()) return replay.html
+    }
+
     const cached = paymentCache.get(cacheKey)
 
     if (cached && (Date.now() - cached.timestamp) < this.cacheTimeoutMs) {
@@ -118,7 +209,7 @@ export class BsvPaymentHandler {
       return existing
     }
 
-    const paymentPromise = this._doPayment(url, headers)
+    const paymentPromise = this._doPayment(url, headers, container)
     inFlightPayments.set(cacheKey, paymentPromise)
 
     try {
@@ -128,7 +219,7 @@ export class BsvPaymentHandler {
     }
   }
 
-  private async _doPayment(url: string, headers: Record<string, string>): Promise<string | null> {
+  private async _doPayment(url: string, headers: Record<string, string>, container?: string): Promise<string | null> {
     let satsHeader: string | undefined = headers[`${HEADER_PREFIX}sats`] || headers['x-bsv-sats']
     let serverHeader: string | undefined = headers[`${HEADER_PREFIX}server`] || headers['x-bsv-server']
 
@@ -150,97 +241,12 @@ export class BsvPaymentHandler {
       return getErrorPage(402)
     }
 
-    const satoshisRequired = Number.parseInt(satsHeader)
     const endTotal = mark('402.total')
 
     try {
-      const serverIdentityKey = serverHeader
-      const derivationPrefix = Utils.toBase64(Random(8))
-      const timestamp = String(Date.now())
-      // Server derives suffix as Buffer.from(time).toString('base64') — match it exactly
-      const derivationSuffix = btoa(timestamp)
-      const originator = new URL(url).origin
-
-      // Derived (BRC-29) key and sender identity key are independent — derive
-      // them concurrently instead of serially. Each getPublicKey is an async
-      // KeyDeriver + (native) EC op; running them in parallel removes one full
-      // key-derivation round-trip from the pay hot path.
-      const [derivedRes, identityRes] = await Promise.all([
-        measureAsync('402.derive', () =>
-          this.wallet.getPublicKey({
-            protocolID: BRC29_PROTOCOL_ID,
-            keyID: `${derivationPrefix} ${derivationSuffix}`,
-            counterparty: serverIdentityKey
-          }, originator)),
-        measureAsync('402.identity', () =>
-          this.wallet.getPublicKey({ identityKey: true }, originator))
-      ])
-      const derivedPubKey = derivedRes.publicKey
-      const senderIdentityKey = identityRes.publicKey
-
-      const pkh = PublicKey.fromString(derivedPubKey).toHash('hex') as string
-
-      // acceptDelayedBroadcast defaults to true in @bsv/sdk. That parks the
-      // signed tx as ProvenTxReq status `unsent` until TaskSendWaiting ages it
-      // (~7s) and the monitor posts it — so the merchant often cannot
-      // internalize until SSE/network status arrives. 402 micropayments need
-      // the tx on the network before we retry the paid GET, so force undelayed
-      // broadcast: createAction/signAction posts immediately and only returns
-      // after a successful broadcaster response (Arcade RECEIVED is enough).
-      let actionResult = await measureAsync('402.createAction', () => this.wallet.createAction({
-        description: `Paid Content: ${new URL(url).pathname}`,
-        outputs: [{
-          satoshis: satoshisRequired,
-          lockingScript: `76a914${pkh}88ac`,
-          outputDescription: '402 web payment',
-          customInstructions: JSON.stringify({
-            derivationPrefix,
-            derivationSuffix,
-            serverIdentityKey
-          }),
-          tags: ['402-payment']
-        }],
-        labels: ['402-payment'],
-        options: {
-          randomizeOutputs: false,
-          acceptDelayedBroadcast: false
-        }
-      }, originator))
-
-      // createAction may return an unsigned `signableTransaction` instead of a
-      // final `tx` when signing is deferred. This is a documented, reachable
-      // branch (Wallet.interfaces: result is signableTransaction when
-      // options.signAndProcess is false OR an input lacks an unlockingScript).
-      // It notably surfaces through WalletPermissionsManager, which always runs
-      // the underlying createAction with signAndProcess=false (e.g. after a
-      // spending-authorization grant) and can hand the signable result back to
-      // us. We have no caller-supplied inputs — all inputs are wallet-funded —
-      // so finalize by signing with empty `spends`; the wallet signs its own
-      // inputs and broadcasts. Without this, the payment tx stays created-but-
-      // unsigned and the 402 page hangs forever on "Payment Required".
-      if (!actionResult.tx && actionResult.signableTransaction) {
-        const signed = await measureAsync('402.signAction', () => this.wallet.signAction({
-          reference: actionResult.signableTransaction!.reference,
-          spends: {},
-          options: { acceptDelayedBroadcast: false }
-        }, originator))
-        actionResult = { ...actionResult, ...signed }
-      }
-
-      if (!actionResult.tx) {
-        throw new Error('402 payment: createAction returned no signed transaction (tx undefined)')
-      }
-
-      const txBase64 = Utils.toBase64(actionResult.tx as number[])
-      const vout = '0'
-
-      const paymentHeaders: Record<string, string> = {
-        [`${HEADER_PREFIX}sender`]: senderIdentityKey,
-        [`${HEADER_PREFIX}beef`]: txBase64,
-        [`${HEADER_PREFIX}nonce`]: derivationPrefix,
-        [`${HEADER_PREFIX}time`]: timestamp,
-        [`${HEADER_PREFIX}vout`]: vout
-      }
+      const payment = await this._pay(url, satsHeader, serverHeader, url, container)
+      if (!payment) return getErrorPage(402)
+      const { paymentHeaders, receipt } = payment
 
       const response = await measureAsync('402.paidGet', () => fetch(url, {
         headers: {
@@ -276,6 +282,7 @@ export class BsvPaymentHandler {
           // Intentionally NOT awaited: handleUrlDownload presents a share
           // sheet which we don't want to block the WebView on.
           handleUrlDownload(response.url, mimeType, filename).catch(() => { /* surfaced via share sheet */ })
+          await this._recordReceipt(receipt, null)
           // Intentionally NOT cached — the presigned URL expires shortly
           // and the payment cache would hand out a stale signature.
           return buildDownloadStartedHtml(filename)
@@ -288,14 +295,19 @@ export class BsvPaymentHandler {
           try { await response.body?.cancel() } catch { /* ignore */ }
           const filename = parseFilenameFromContentDisposition(response.headers.get('content-disposition')) ?? undefined
           handleUrlDownload(response.url || url, contentType, filename).catch(() => {})
+          await this._recordReceipt(receipt, null)
           return buildDownloadStartedHtml(filename)
         }
 
         const html = await response.text()
-        paymentCache.set(url, { html, timestamp: Date.now() })
+        paymentCache.set(paymentKey(url, container), { html, timestamp: Date.now() })
+        await this._recordReceipt(receipt, html)
         return html
       }
 
+      // Paid but refused. The money has gone either way, so the receipt is
+      // what the user takes to the site.
+      await this._recordReceipt(receipt, null)
       return getErrorPage(402)
     } catch {
       return getErrorPage(402)
@@ -304,9 +316,198 @@ export class BsvPaymentHandler {
     }
   }
 
+  /**
+   * Everything short of retrying the request: hold the price up against the
+   * policy (asking, if it is over the ceiling), then build, sign and broadcast
+   * the payment. Null when the price is unreadable or the user declines;
+   * throws when the wallet fails.
+   *
+   * `payerUrl` is the page the spend is charged to — its domain's ceiling
+   * applies and it is the wallet originator. For a navigation that is the URL
+   * itself; for a subresource it is the page that asked for it. In a
+   * container the domain and originator are the container's, so its ceiling
+   * and spending budget are its own.
+   */
+  private async _pay(
+    url: string,
+    satsHeader: string,
+    serverIdentityKey: string,
+    payerUrl: string = url,
+    container?: string
+  ): Promise<{ paymentHeaders: Record<string, string>; receipt: Parameters<typeof recordReceipt>[0] } | null> {
+    const satoshisRequired = parseRequestedSats(satsHeader)
+    if (satoshisRequired === null) {
+      return null
+    }
+
+    let path: string
+    let domain: string
+    let originator: string
+    try {
+      path = new URL(url).pathname
+      const payer = new URL(payerUrl)
+      domain = containerOriginator(payer.hostname, container)
+      originator = `${payer.protocol}//${containerOriginator(payer.host, container)}`
+    } catch {
+      return null
+    }
+    const policy = await getPaymentPolicy()
+    if (decidePayment(policy, domain, satoshisRequired) === 'confirm') {
+      const choice: PaymentConfirmChoice = this.confirm
+        ? await this.confirm({
+            url,
+            domain,
+            sats: satoshisRequired,
+            serverIdentityKey,
+            ceiling: ceilingFor(policy, domain)
+          }).catch(() => 'decline' as const)
+        : 'decline'
+      if (choice === 'decline') return null
+      if (choice === 'always') await setDomainCeiling(domain, satoshisRequired).catch(() => {})
+    }
+
+    const derivationPrefix = Utils.toBase64(Random(8))
+    const timestamp = String(Date.now())
+    // Server derives suffix as Buffer.from(time).toString('base64') — match it exactly
+    const derivationSuffix = btoa(timestamp)
+
+    // Derived (BRC-29) key and sender identity key are independent — derive
+    // them concurrently instead of serially. Each getPublicKey is an async
+    // KeyDeriver + (native) EC op; running them in parallel removes one full
+    // key-derivation round-trip from the pay hot path.
+    const [derivedRes, identityRes] = await Promise.all([
+      measureAsync('402.derive', () =>
+        this.wallet.getPublicKey({
+          protocolID: BRC29_PROTOCOL_ID,
+          keyID: `${derivationPrefix} ${derivationSuffix}`,
+          counterparty: serverIdentityKey
+        }, originator)),
+      measureAsync('402.identity', () =>
+        this.wallet.getPublicKey({ identityKey: true }, originator))
+    ])
+    const derivedPubKey = derivedRes.publicKey
+    const senderIdentityKey = identityRes.publicKey
+
+    const pkh = PublicKey.fromString(derivedPubKey).toHash('hex') as string
+
+    // acceptDelayedBroadcast defaults to true in @bsv/sdk. That parks the
+    // signed tx as ProvenTxReq status `unsent` until TaskSendWaiting ages it
+    // (~7s) and the monitor posts it — so the merchant often cannot
+    // internalize until SSE/network status arrives. 402 micropayments need
+    // the tx on the network before we retry the paid GET, so force undelayed
+    // broadcast: createAction/signAction posts immediately and only returns
+    // after a successful broadcaster response (Arcade RECEIVED is enough).
+    let actionResult = await measureAsync('402.createAction', () => this.wallet.createAction({
+      description: `Paid Content: ${path}`,
+      outputs: [{
+        satoshis: satoshisRequired,
+        lockingScript: `76a914${pkh}88ac`,
+        outputDescription: '402 web payment',
+        customInstructions: JSON.stringify({
+          derivationPrefix,
+          derivationSuffix,
+          serverIdentityKey
+        }),
+        tags: ['402-payment']
+      }],
+      labels: ['402-payment'],
+      options: {
+        randomizeOutputs: false,
+        acceptDelayedBroadcast: false
+      }
+    }, originator))
+
+    // createAction may return an unsigned `signableTransaction` instead of a
+    // final `tx` when signing is deferred. This is a documented, reachable
+    // branch (Wallet.interfaces: result is signableTransaction when
+    // options.signAndProcess is false OR an input lacks an unlockingScript).
+    // It notably surfaces through WalletPermissionsManager, which always runs
+    // the underlying createAction with signAndProcess=false (e.g. after a
+    // spending-authorization grant) and can hand the signable result back to
+    // us. We have no caller-supplied inputs — all inputs are wallet-funded —
+    // so finalize by signing with empty `spends`; the wallet signs its own
+    // inputs and broadcasts. Without this, the payment tx stays created-but-
+    // unsigned and the 402 page hangs forever on "Payment Required".
+    if (!actionResult.tx && actionResult.signableTransaction) {
+      const signed = await measureAsync('402.signAction', () => this.wallet.signAction({
+        reference: actionResult.signableTransaction!.reference,
+        spends: {},
+        options: { acceptDelayedBroadcast: false }
+      }, originator))
+      actionResult = { ...actionResult, ...signed }
+    }
+
+    if (!actionResult.tx) {
+      throw new Error('402 payment: createAction returned no signed transaction (tx undefined)')
+    }
+
+    const txBase64 = Utils.toBase64(actionResult.tx as number[])
+    const receipt = { url, domain, sats: satoshisRequired, txid: actionResult.txid ?? '', serverIdentityKey }
+    const vout = '0'
+
+    const paymentHeaders: Record<string, string> = {
+      [`${HEADER_PREFIX}sender`]: senderIdentityKey,
+      [`${HEADER_PREFIX}beef`]: txBase64,
+      [`${HEADER_PREFIX}nonce`]: derivationPrefix,
+      [`${HEADER_PREFIX}time`]: timestamp,
+      [`${HEADER_PREFIX}vout`]: vout
+    }
+
+    return { paymentHeaders, receipt }
+  }
+
+  /**
+   * Pay for a fetch/XHR subresource rather than a page.
+   *
+   * The spend is charged to `pageUrl`, the page that made the request, not to
+   * the host that answered 402: the message comes from the page, so the page
+   * is the one whose ceiling and spending authorization must cover it —
+   * otherwise any site could bill against another's ceiling by naming its URL.
+   *
+   * Hands back the payment headers instead of fetching: the page repeats its
+   * own request with them, so the paid response — status, headers, body,
+   * cookies, CORS — reaches the original caller exactly as the server sent it.
+   * Not coalesced or cached like handle402: each retry spends its own payment,
+   * and two requests sharing one would see the second refused. `container` is
+   * the page's, as for handle402.
+   */
+  async payForSubresource(
+    url: string,
+    headers: Record<string, string>,
+    pageUrl: string,
+    container?: string
+  ): Promise<{ headers: Record<string, string> } | { error: string }> {
+    const satsHeader = headers[`${HEADER_PREFIX}sats`]
+    const serverHeader = headers[`${HEADER_PREFIX}server`]
+    if (!satsHeader || !serverHeader) return { error: 'Missing x-bsv-sats or x-bsv-server' }
+
+    const endTotal = mark('402.subresource')
+    try {
+      const payment = await this._pay(url, satsHeader, serverHeader, pageUrl, container)
+      if (!payment) return { error: 'Payment declined' }
+      // No page to keep: the body goes straight to the caller.
+      await this._recordReceipt(payment.receipt, null)
+      return { headers: payment.paymentHeaders }
+    } catch (e) {
+      return { error: e instanceof Error ? e.message : 'Payment failed' }
+    } finally {
+      endTotal()
+    }
+  }
+
+  /** A receipt that fails to record must not turn a delivered page into an error. */
+  private async _recordReceipt(receipt: Parameters<typeof recordReceipt>[0], html: string | null) {
+    try {
+      await recordReceipt(receipt, html, this.contentStore)
+    } catch (e) {
+      console.warn('[402] could not record receipt:', e)
+    }
+  }
+
   clearCache() {
     paymentCache.clear()
     inFlightPayments.clear()
+    pendingReplays.clear()
   }
 }
 
@@ -0,0 +1,28 @@
+/**
+ * Where a tab-group container keeps its cookies and site storage.
+ *
+ * On iOS 17+ each container gets a persistent WKWebsiteDataStore of its own
+ * (`dataStoreIdentifier`, added to react-native-webview by our patch), so its
+ * sites stay signed in across launches and never see the default store.
+ * Older iOS and Android can't name a store — Android has one process-wide
+ * CookieManager — so containers aren't offered there at all.
+ */
+import { Platform } from 'react-native'
+import { Hash, Utils } from '@bsv/sdk'
+
+export function containersSupported(): boolean {
+  if (Platform.OS !== 'ios') return false
+  return parseInt(String(Platform.Version), 10) >= 17
+}
+
+/**
+ * The data-store UUID for a container key. Derived, not stored: the key is
+ * already persisted with the group and fixed through renames, so the same
+ * container reopens the same store.
+ */
+export function containerDataStoreId(container: string): string {
+  const hex = Utils.toHex(Hash.sha256(`container:${container}`).slice(0, 16))
+  // Shaped as an RFC 4122 version-4 UUID.
+  const v = ((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16)
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-4${hex.slice(13, 16)}-${v}${hex.slice(17, 20)}-${hex.slice(20, 32)}`
+}
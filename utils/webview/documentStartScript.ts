@@ -9,6 +9,27 @@ import { buildCWIProviderScript } from './cwiProvider'
  * frames would change page behaviour beyond the wallet surface.
  */
 export function buildWalletDocumentStartScript(mainFrameScript: string): string {
+  return `${walletBridgeScript()}
+${topFrameOnly(mainFrameScript)}`
+}
+
+/**
+ * The same top-document script without the wallet: no window.CWI and no
+ * child-frame bridge. Private tabs load this unless the user opts the tab in,
+ * so a site can't ask for the identity key and link the session to it.
+ */
+export function buildWalletlessDocumentStartScript(mainFrameScript: string): string {
+  return topFrameOnly(mainFrameScript)
+}
+
+function topFrameOnly(script: string): string {
+  return `(function() {
+  if (window.top !== window) return;
+${script}
+})();true;`
+}
+
+function walletBridgeScript(): string {
   return `(function() {
   if (window.ReactNativeWebView && typeof window.ReactNativeWebView.postMessage === 'function') return;
   var handler = window.webkit && window.webkit.messageHandlers && window.webkit.messageHandlers.ReactNativeWebView;
@@ -22,9 +43,5 @@ export function buildWalletDocumentStartScript(mainFrameScript: string): string
     }
   };
 })();
-${buildCWIProviderScript()}
-(function() {
-  if (window.top !== window) return;
-${mainFrameScript}
-})();true;`
+${buildCWIProviderScript()}`
 }
@@ -443,6 +443,7 @@ function injectedPolyfills(
             if (data.type === 'NOTIFICATION_PERMISSION_RESPONSE') {
               window.removeEventListener('message', handler)
               const permission = data.permission
+              ;(window as any).Notification.permission = permission
               if (callback) callback(permission)
               resolve(permission)
             }
@@ -455,12 +456,15 @@ function injectedPolyfills(
 
     // ServiceWorker registration polyfill for push
     if (!('serviceWorker' in navigator)) {
+      // No push service sits behind this (see utils/webview/notifications.ts):
+      // subscribe rejects with NotSupportedError and getSubscription resolves
+      // null, so there is never a PushSubscription to wrap.
       ;(navigator as any).serviceWorker = {
         register: function () {
           return Promise.resolve({
             pushManager: {
               subscribe: function (options: any) {
-                return new Promise(resolve => {
+                return new Promise((resolve, reject) => {
                   ;(window as any).ReactNativeWebView?.postMessage(
                     JSON.stringify({
                       type: 'PUSH_SUBSCRIBE',
@@ -473,6 +477,10 @@ function injectedPolyfills(
                       const data = JSON.parse((event as any).data)
                       if (data.type === 'PUSH_SUBSCRIPTION_RESPONSE') {
                         window.removeEventListener('message', handler)
+                        if (data.error) {
+                          reject(new DOMException(data.error, data.errorName || 'NotAllowedError'))
+                          return
+                        }
                         resolve(data.subscription)
                       }
                     } catch {}
@@ -767,6 +775,45 @@ function injectedPolyfills(
     // Web2 pages should keep the browser's native fetch/XHR implementations.
     // Wallet mode needs interception only so HTTP 402 can be handed to RN.
     if (enableWalletFeatures) {
+      // HTTP 402 on a fetch/XHR subresource. RN makes the payment and answers
+      // with the x-bsv-* payment headers; the request is then repeated here, by
+      // the page's own fetch/XHR, so the original caller gets the paid response
+      // — status, headers, body — exactly as the server sent it. Top-level
+      // navigations never come through here: they reach RN via onHttpError.
+      // A 402 without x-bsv-sats is some other scheme, or a cross-origin
+      // response that did not expose the header, and is passed through as-is.
+      let paymentSeq = 0
+      // Long enough for the confirmation sheet; an answer that never comes
+      // (the tab lost focus mid-payment) must not hang the caller forever.
+      const PAYMENT_TIMEOUT_MS = 120000
+      const requestSubresourcePayment = function (url: string, headers: Record<string, string>) {
+        return new Promise<Record<string, string> | null>(resolve => {
+          const id = 'pay-' + Date.now() + '-' + ++paymentSeq
+          let absUrl = url
+          try {
+            absUrl = new URL(url, location.href).href
+          } catch {}
+          const handler = (event: MessageEvent) => {
+            try {
+              const data = JSON.parse((event as any).data)
+              if (data.type === 'SUBRESOURCE_PAYMENT_RESPONSE' && data.id === id) {
+                window.removeEventListener('message', handler)
+                clearTimeout(timer)
+                resolve(data.headers || null)
+              }
+            } catch {}
+          }
+          window.addEventListener('message', handler)
+          const timer = setTimeout(() => {
+            window.removeEventListener('message', handler)
+            resolve(null)
+          }, PAYMENT_TIMEOUT_MS)
+          ;(window as any).ReactNativeWebView?.postMessage(
+            JSON.stringify({ type: 'SUBRESOURCE_PAYMENT_REQUIRED', id, url: absUrl, headers })
+          )
+        })
+      }
+
       const originalFetch = (window as any).fetch
       const patchedFetch = async function (this: any, input: any, init: any = {}) {
         // Merge headers
@@ -781,25 +828,32 @@ function injectedPolyfills(
           headers: headers
         }
 
+        // A Request's body can be read once; keep a copy in case it is repeated paid.
+        const isRequest = typeof Request !== 'undefined' && input instanceof Request
+        let retryInput = input
+        if (isRequest) {
+          try {
+            retryInput = input.clone()
+          } catch {}
+        }
+
         const response = await originalFetch.call(this, input, newInit)
 
-        if (response.status === 402) {
+        if (response.status === 402 && response.headers.has('x-bsv-sats')) {
+          // A streamed body is spent once sent, so there is nothing to repeat.
+          if (typeof ReadableStream !== 'undefined' && init.body instanceof ReadableStream) return response
           const headersObj: Record<string, string> = {}
           response.headers.forEach((v: string, k: string) => {
             headersObj[k] = v
           })
-          const reqUrl = typeof input === 'string' ? input : input && input.url ? input.url : ''
-          ;(window as any).ReactNativeWebView?.postMessage(
-            JSON.stringify({
-              type: 'PAYMENT_REQUIRED',
-              url: reqUrl,
-              status: 402,
-              headers: headersObj
-            })
-          )
-          // Don't return 402 to page JS — RN handles payment and replaces page content.
-          // Never-resolving promise prevents page from retrying or reacting to 402.
-          return new Promise(() => {})
+          const reqUrl = typeof input === 'string' ? input : input && input.url ? input.url : String(input)
+          const paid = await requestSubresourcePayment(reqUrl, headersObj)
+          if (!paid) return response
+
+          const retryHeaders = new Headers(isRequest ? retryInput.headers : undefined)
+          headers.forEach((v: string, k: string) => retryHeaders.set(k, v))
+          Object.keys(paid).forEach(k => retryHeaders.set(k, paid[k]))
+          return originalFetch.call(this, retryInput, { ...newInit, headers: retryHeaders })
         }
 
         return response
@@ -818,9 +872,138 @@ function injectedPolyfills(
       } catch {}
       ;(window as any).fetch = patchedFetch
 
-      // Also intercept XMLHttpRequest for older APIs
+      // Also intercept XMLHttpRequest for older APIs.
+      //
+      // XHR has no promise to hold back, so a 402 is handled by gating the
+      // page's own listeners: while a request sits on an x-bsv 402 every event
+      // the page registered is swallowed, the payment is made, and the request
+      // is repeated on a second, private XHR. When that finishes, the original
+      // object's response accessors are pointed at it and the final
+      // readystatechange/load/loadend are replayed to the page — which sees one
+      // request that answered with the paid response. Sync XHR is left alone:
+      // it cannot wait for the payment.
       const originalXHROpen = XMLHttpRequest.prototype.open
       const originalXHRSend = XMLHttpRequest.prototype.send
+      const originalXHRSetRequestHeader = XMLHttpRequest.prototype.setRequestHeader
+      const originalXHRAbort = XMLHttpRequest.prototype.abort
+      // Loosely typed: called with a gated listener, which fits no overload.
+      const originalAddEventListener: (this: any, ...args: any[]) => void = XMLHttpRequest.prototype.addEventListener
+      const originalRemoveEventListener: (this: any, ...args: any[]) => void =
+        XMLHttpRequest.prototype.removeEventListener
+      const originalGetResponseHeader = XMLHttpRequest.prototype.getResponseHeader
+      const statusOf = Object.getOwnPropertyDescriptor(XMLHttpRequest.prototype, 'status')!.get!
+      const XHR_EVENTS = ['readystatechange', 'loadstart', 'progress', 'abort', 'error', 'load', 'timeout', 'loadend']
+
+      const isHeld = (xhr: any): boolean => {
+        if (xhr._bsvAsync === false || xhr._bsvReleased) return false
+        if (xhr._bsvPaying) return true
+        return (
+          xhr.readyState >= 2 && statusOf.call(xhr) === 402 && originalGetResponseHeader.call(xhr, 'x-bsv-sats') != null
+        )
+      }
+      const gate = (xhr: any, listener: any) => {
+        if (!xhr._bsvGated) xhr._bsvGated = new Map()
+        let gated = xhr._bsvGated.get(listener)
+        if (!gated) {
+          gated = function (this: any, ev: any) {
+            if (isHeld(xhr)) return
+            return typeof listener === 'function' ? listener.call(this, ev) : listener.handleEvent(ev)
+          }
+          xhr._bsvGated.set(listener, gated)
+        }
+        return gated
+      }
+
+      XMLHttpRequest.prototype.addEventListener = function (this: any, type: any, listener: any, options?: any) {
+        if (listener && XHR_EVENTS.indexOf(type) !== -1) listener = gate(this, listener)
+        return originalAddEventListener.call(this, type, listener, options)
+      }
+      XMLHttpRequest.prototype.removeEventListener = function (this: any, type: any, listener: any, options?: any) {
+        if (listener && this._bsvGated && this._bsvGated.has(listener)) listener = this._bsvGated.get(listener)
+        return originalRemoveEventListener.call(this, type, listener, options)
+      }
+      // on* handler properties live on two prototypes; gate each setter.
+      XHR_EVENTS.forEach(type => {
+        const prop = 'on' + type
+        let proto: any = XMLHttpRequest.prototype
+        while (proto && !Object.getOwnPropertyDescriptor(proto, prop)) proto = Object.getPrototypeOf(proto)
+        const desc = proto && Object.getOwnPropertyDescriptor(proto, prop)
+        if (!desc || !desc.set || !desc.get) return
+        try {
+          Object.defineProperty(proto, prop, {
+            configurable: true,
+            enumerable: desc.enumerable,
+            get: function (this: any) {
+              return this._bsvHandlers && prop in this._bsvHandlers ? this._bsvHandlers[prop] : desc.get!.call(this)
+            },
+            set: function (this: any, fn: any) {
+              if (!(this instanceof XMLHttpRequest)) return desc.set!.call(this, fn)
+              if (!(this as any)._bsvHandlers) (this as any)._bsvHandlers = {}
+              ;(this as any)._bsvHandlers[prop] = fn
+              desc.set!.call(this, typeof fn === 'function' ? gate(this, fn) : fn)
+            }
+          })
+        } catch {}
+      })
+
+      const replay = (xhr: any, types: string[]) => {
+        types.forEach(type => {
+          try {
+            xhr.dispatchEvent(type === 'readystatechange' ? new Event(type) : new ProgressEvent(type))
+          } catch {}
+        })
+      }
+
+      const payAndRepeat = async (xhr: any) => {
+        xhr._bsvPaying = true
+        const headersObj: Record<string, string> = {}
+        String(xhr.getAllResponseHeaders() || '')
+          .trim()
+          .split(/[\r\n]+/)
+          .forEach((line: string) => {
+            const i = line.indexOf(':')
+            if (i > 0) headersObj[line.slice(0, i).trim().toLowerCase()] = line.slice(i + 1).trim()
+          })
+        const paid = await requestSubresourcePayment(String(xhr._url), headersObj)
+        if (xhr._bsvAborted) return
+        if (!paid) {
+          // Not paid: let the page see the 402 it was sent.
+          xhr._bsvPaying = false
+          xhr._bsvReleased = true
+          replay(xhr, ['readystatechange', 'load', 'loadend'])
+          return
+        }
+
+        const retry = new XMLHttpRequest()
+        originalXHROpen.call(retry, xhr._method, xhr._url, true, xhr._bsvUser, xhr._bsvPassword)
+        ;(xhr._bsvHeaders || []).forEach((h: [string, string]) => originalXHRSetRequestHeader.call(retry, h[0], h[1]))
+        Object.keys(paid).forEach(k => originalXHRSetRequestHeader.call(retry, k, paid[k]))
+        try {
+          retry.responseType = xhr.responseType
+          retry.withCredentials = xhr.withCredentials
+          retry.timeout = xhr.timeout
+        } catch {}
+        xhr._bsvRetry = retry
+        originalAddEventListener.call(retry, 'loadend', () => {
+          if (xhr._bsvAborted) return
+          // Point the page's object at the paid response, then replay the end of
+          // the request to it. Own properties shadow the native accessors.
+          ;['readyState', 'status', 'statusText', 'response', 'responseText', 'responseURL', 'responseXML'].forEach(
+            prop => {
+              try {
+                Object.defineProperty(xhr, prop, { configurable: true, get: () => (retry as any)[prop] })
+              } catch {}
+            }
+          )
+          xhr.getResponseHeader = (name: string) => retry.getResponseHeader(name)
+          xhr.getAllResponseHeaders = () => retry.getAllResponseHeaders()
+          xhr._bsvPaying = false
+          xhr._bsvReleased = true
+          const outcome = retry.status === 0 ? 'error' : 'load'
+          replay(xhr, ['readystatechange', outcome, 'loadend'])
+        })
+        originalXHRSend.call(retry, xhr._bsvBody)
+      }
 
       XMLHttpRequest.prototype.open = function (
         this: any,
@@ -832,7 +1015,16 @@ function injectedPolyfills(
       ) {
         ;(this as any)._method = method
         ;(this as any)._url = url
-        return originalXHROpen.call(this, method, url, async, user, password)
+        ;(this as any)._bsvAsync = async !== false
+        ;(this as any)._bsvUser = user
+        ;(this as any)._bsvPassword = password
+        ;(this as any)._bsvHeaders = []
+        // open() on a reused object starts a fresh request.
+        ;(this as any)._bsvReleased = false
+        ;(this as any)._bsvAborted = false
+        return arguments.length > 2
+          ? originalXHROpen.call(this, method, url, async, user, password)
+          : (originalXHROpen as any).call(this, method, url)
       }
       // Restore native toString on patched XHR prototype methods
       try {
@@ -846,12 +1038,45 @@ function injectedPolyfills(
         ;(window as any).__spoofNative?.(XMLHttpRequest.prototype.open, 'open')
       } catch {}
 
+      XMLHttpRequest.prototype.setRequestHeader = function (this: any, name: any, value: any) {
+        if (this._bsvHeaders) this._bsvHeaders.push([name, value])
+        return originalXHRSetRequestHeader.call(this, name, value)
+      }
+      try {
+        ;(window as any).__spoofNative?.(XMLHttpRequest.prototype.setRequestHeader, 'setRequestHeader')
+      } catch {}
+
+      XMLHttpRequest.prototype.abort = function (this: any) {
+        if (this._bsvPaying) {
+          this._bsvAborted = true
+          this._bsvPaying = false
+          this._bsvReleased = true
+          if (this._bsvRetry) originalXHRAbort.call(this._bsvRetry)
+          replay(this, ['abort', 'loadend'])
+          return
+        }
+        return originalXHRAbort.call(this)
+      }
+      try {
+        ;(window as any).__spoofNative?.(XMLHttpRequest.prototype.abort, 'abort')
+      } catch {}
+
       XMLHttpRequest.prototype.send = function (this: any, data: any) {
         // Add Accept-Language header if not already set
         // Note: getRequestHeader does not exist on standard XHR; this matches the previous behavior
         if (!(this as any).getRequestHeader || !(this as any).getRequestHeader('Accept-Language')) {
           ;(this as any).setRequestHeader('Accept-Language', acceptLanguage)
         }
+        if (this._bsvAsync !== false) {
+          const xhr = this
+          xhr._bsvBody = data
+          // Registered natively so the gate never applies to it.
+          const onEnd = () => {
+            originalRemoveEventListener.call(xhr, 'loadend', onEnd)
+            if (isHeld(xhr)) void payAndRepeat(xhr)
+          }
+          originalAddEventListener.call(xhr, 'loadend', onEnd)
+        }
         return originalXHRSend.call(this, data)
       }
       try {
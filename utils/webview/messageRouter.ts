@@ -3,6 +3,7 @@ import type { PermissionType, PermissionState } from '@/utils/permissionsManager
 import { Platform } from 'react-native'
 import { setDomainPermission } from '@/utils/permissionsManager'
 import { handleUrlDownload, handleBase64Download } from './downloadHandler'
+import { type WebNotification, PUSH_NOT_SUPPORTED, notificationFromMessage } from './notifications'
 
 type ActiveTabLike = {
   id: string | number
@@ -26,6 +27,7 @@ export type MessageRouterCtx = {
   setPermissionModalVisible: (v: boolean) => void
   activeCameraStreams: MutableRefObject<Set<string>>
   setIsFullscreen: (v: boolean) => void
+  presentNotification: (n: WebNotification) => void
 }
 
 function injectIntoActiveTab(ctx: MessageRouterCtx, js: string) {
@@ -33,6 +35,15 @@ function injectIntoActiveTab(ctx: MessageRouterCtx, js: string) {
   tab?.webviewRef?.current?.injectJavaScript(js)
 }
 
+// Double-stringified so the payload lands in the page as the JSON string the
+// polyfill's message listeners JSON.parse.
+function postToActiveTab(ctx: MessageRouterCtx, data: Record<string, unknown>) {
+  injectIntoActiveTab(
+    ctx,
+    `window.dispatchEvent(new MessageEvent('message', { data: ${JSON.stringify(JSON.stringify(data))} }));`
+  )
+}
+
 export function createWebViewMessageRouter(ctx: MessageRouterCtx) {
   const handleFullscreenEnter = async () => {
     ctx.setIsFullscreen(true)
@@ -319,6 +330,68 @@ export function createWebViewMessageRouter(ctx: MessageRouterCtx) {
     return true
   }
 
+  /**
+   * Resolve the NOTIFICATIONS permission for the active tab's domain, prompting
+   * through PermissionModal when it is still 'ask'. Calls back with the domain
+   * and the outcome; a decision that lands after the user has navigated to
+   * another site is dropped, like the camera/location prompts above.
+   */
+  const withNotificationPermission = async (onDecided: (domain: string, granted: boolean) => void | Promise<void>) => {
+    const tab = ctx.getActiveTab()
+    if (!tab) return true
+    const domain = ctx.domainForUrl(tab.url)
+    const permission: PermissionType = 'NOTIFICATIONS'
+    const currentState = await ctx.getPermissionState(domain, permission)
+
+    if (currentState !== 'ask') {
+      await onDecided(domain, currentState === 'allow')
+      return true
+    }
+
+    ctx.setPendingDomain(domain)
+    ctx.setPendingPermission(permission)
+    ctx.setPendingCallback((granted: boolean) => {
+      const currentTab = ctx.getActiveTab()
+      if (!currentTab || ctx.domainForUrl(currentTab.url) !== domain) return
+      void Promise.resolve(onDecided(domain, granted)).catch(() => {})
+    })
+    ctx.setPermissionModalVisible(true)
+    return true
+  }
+
+  const handleShowNotification = async (msg: WebViewMessage) => {
+    const tab = ctx.getActiveTab()
+    if (!tab) return true
+    const domain = ctx.domainForUrl(tab.url)
+    // A page only gets here without permission if it skipped requestPermission();
+    // the Notifications spec drops the notification in that case, so do we.
+    if ((await ctx.getPermissionState(domain, 'NOTIFICATIONS')) !== 'allow') return true
+    ctx.presentNotification(notificationFromMessage(domain, msg))
+    return true
+  }
+
+  const handleNotificationPermissionRequest = () =>
+    withNotificationPermission((_domain, granted) => {
+      postToActiveTab(ctx, { type: 'NOTIFICATION_PERMISSION_RESPONSE', permission: granted ? 'granted' : 'denied' })
+    })
+
+  // Push has no service behind it (see notifications.ts): answered without a
+  // permission prompt, since granting one could not make it work.
+  const handlePushSubscribe = () => {
+    postToActiveTab(ctx, {
+      type: 'PUSH_SUBSCRIPTION_RESPONSE',
+      subscription: null,
+      error: PUSH_NOT_SUPPORTED.message,
+      errorName: PUSH_NOT_SUPPORTED.name
+    })
+    return true
+  }
+
+  const handleGetPushSubscription = () => {
+    postToActiveTab(ctx, { type: 'PUSH_SUBSCRIPTION_RESPONSE', subscription: null })
+    return true
+  }
+
   return async function route(msg: WebViewMessage): Promise<boolean> {
     switch (msg.type) {
       case 'REQUEST_FULLSCREEN':
@@ -333,6 +406,14 @@ export function createWebViewMessageRouter(ctx: MessageRouterCtx) {
         return handlePermissionRequest('MICROPHONE_REQUEST', 'RECORD_AUDIO', 'MICROPHONE_RESPONSE')
       case 'REQUEST_LOCATION':
         return handleLocationRequest()
+      case 'SHOW_NOTIFICATION':
+        return handleShowNotification(msg)
+      case 'REQUEST_NOTIFICATION_PERMISSION':
+        return handleNotificationPermissionRequest()
+      case 'PUSH_SUBSCRIBE':
+        return handlePushSubscribe()
+      case 'GET_PUSH_SUBSCRIPTION':
+        return handleGetPushSubscription()
       case 'FILE_DOWNLOAD_URL':
         handleUrlDownload(msg.url, msg.mimeType, msg.filename).catch(() => {})
         return true
@@ -0,0 +1,45 @@
+/**
+ * Web Notifications support behind the injected polyfill.
+ *
+ * The polyfill in injectedPolyfills.ts turns `new Notification()` into a
+ * SHOW_NOTIFICATION message; this module is what the message router answers
+ * it with. Permission is the per-origin `NOTIFICATIONS` entry in
+ * permissionsManager — there is no second store for it. A permitted page's
+ * notification is shown as an OS local notification (utils/localNotifications.ts).
+ *
+ * Push is not supported: there is no push service to deliver to, so the
+ * polyfill's `pushManager.subscribe()` rejects with NotSupportedError — the
+ * answer a browser without push gives — and nothing is generated or stored
+ * for it. `getSubscription()` resolves null, since no subscription can exist.
+ * The per-domain subscription registry waits on a push relay; see
+ * openspec/changes/web-push-subscriptions.
+ */
+
+/** The DOMException a push subscribe rejects with, name and message. */
+export const PUSH_NOT_SUPPORTED = {
+  name: 'NotSupportedError',
+  message: 'Push messaging is not supported in this browser'
+} as const
+
+/** What a page passed to `new Notification(title, options)`. */
+export interface WebNotification {
+  domain: string
+  title: string
+  body: string
+  icon: string
+  tag: string
+  data: unknown
+}
+
+/** Coerce a SHOW_NOTIFICATION message into a WebNotification. */
+export function notificationFromMessage(domain: string, msg: Record<string, unknown>): WebNotification {
+  const str = (v: unknown) => (typeof v === 'string' ? v : '')
+  return {
+    domain,
+    title: str(msg.title),
+    body: str(msg.body),
+    icon: str(msg.icon),
+    tag: str(msg.tag),
+    data: msg.data ?? null
+  }
+}
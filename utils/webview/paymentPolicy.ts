@@ -0,0 +1,106 @@
+/**
+ * When an HTTP 402 page may be paid without asking.
+ *
+ * A 402 response names its own price in `x-bsv-sats`, so without a policy any
+ * page could charge whatever it liked the moment it loaded. Each domain has an
+ * auto-pay ceiling: at or under it the handler pays straight away, over it the
+ * user sees a confirmation sheet first. Domains with no ceiling of their own use
+ * the default. A site in a tab group container is its own domain here
+ * (`<container>.container.<host>`, see walletOrigin.ts), with its own ceiling.
+ *
+ * This sits in front of, not instead of, the wallet's spending authorization:
+ * a payment the policy lets through still goes to WalletPermissionsManager and
+ * the site's spending budget. The policy only decides whether to ask about the
+ * page before the wallet is asked about the transaction.
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage'
+
+export const PAYMENT_POLICY_KEY = 'PAYMENT_402_POLICY_V1'
+
+/** Auto-pay ceiling for domains the user has not set one for, in satoshis. */
+export const DEFAULT_402_AUTOPAY_CEILING = 1_000
+
+export interface PaymentPolicy {
+  defaultCeiling: number
+  /** Per-domain ceilings, in satoshis. 0 = always ask. */
+  domains: Record<string, number>
+}
+
+export type PaymentDecision = 'auto' | 'confirm'
+
+// Same discipline as utils/pay/watchlist.ts: every read-modify-write on the
+// single storage key runs through one chain.
+let queueLock: Promise<unknown> = Promise.resolve()
+
+function withQueueLock<T>(fn: () => Promise<T>): Promise<T> {
+  const run = queueLock.then(fn, fn)
+  queueLock = run.catch(() => undefined)
+  return run
+}
+
+function validCeiling(v: unknown): v is number {
+  return typeof v === 'number' && Number.isSafeInteger(v) && v >= 0
+}
+
+async function read(): Promise<PaymentPolicy> {
+  const policy: PaymentPolicy = { defaultCeiling: DEFAULT_402_AUTOPAY_CEILING, domains: {} }
+  try {
+    const raw = await AsyncStorage.getItem(PAYMENT_POLICY_KEY)
+    if (!raw) return policy
+    const parsed = JSON.parse(raw)
+    if (validCeiling(parsed?.defaultCeiling)) policy.defaultCeiling = parsed.defaultCeiling
+    if (parsed?.domains && typeof parsed.domains === 'object') {
+      for (const [domain, ceiling] of Object.entries(parsed.domains)) {
+        if (validCeiling(ceiling)) policy.domains[domain] = ceiling
+      }
+    }
+  } catch {}
+  return policy
+}
+
+/** The stored policy, with defaults filled in. Never throws. */
+export async function getPaymentPolicy(): Promise<PaymentPolicy> {
+  return read()
+}
+
+/** Set a domain's ceiling, or pass null to put it back on the default. */
+export async function setDomainCeiling(domain: string, ceiling: number | null): Promise<void> {
+  if (ceiling !== null && !validCeiling(ceiling)) throw new Error(`Invalid auto-pay ceiling: ${ceiling}`)
+  return withQueueLock(async () => {
+    const policy = await read()
+    if (ceiling === null) delete policy.domains[domain]
+    else policy.domains[domain] = ceiling
+    await AsyncStorage.setItem(PAYMENT_POLICY_KEY, JSON.stringify(policy))
+  })
+}
+
+export async function setDefaultCeiling(ceiling: number): Promise<void> {
+  if (!validCeiling(ceiling)) throw new Error(`Invalid auto-pay ceiling: ${ceiling}`)
+  return withQueueLock(async () => {
+    const policy = await read()
+    policy.defaultCeiling = ceiling
+    await AsyncStorage.setItem(PAYMENT_POLICY_KEY, JSON.stringify(policy))
+  })
+}
+
+export function ceilingFor(policy: PaymentPolicy, domain: string): number {
+  return policy.domains[domain] ?? policy.defaultCeiling
+}
+
+export function decidePayment(policy: PaymentPolicy, domain: string, sats: number): PaymentDecision {
+  return sats <= ceilingFor(policy, domain) ? 'auto' : 'confirm'
+}
+
+/**
+ * The `x-bsv-sats` header as a payable amount, or null.
+ *
+ * Strict on purpose: parseInt would read "12abc" as 12 and "1e9" as 1, and a
+ * price the page garbled is not one to guess at.
+ */
+export function parseRequestedSats(header: string | undefined | null): number | null {
+  if (!header) return null
+  const trimmed = header.trim()
+  if (!/^\d+$/.test(trimmed)) return null
+  const sats = Number(trimmed)
+  return Number.isSafeInteger(sats) && sats > 0 ? sats : null
+}
@@ -0,0 +1,176 @@
+/**
+ * Receipts for HTTP 402 payments.
+ *
+ * One receipt per payment the 402 handler made: what was bought (URL), what it
+ * cost, the transaction that paid for it, and which server identity key was
+ * paid. The transaction itself is already in the wallet's action history; the
+ * receipt is what ties it back to a page, so the activity list can say what a
+ * "Paid Content" spend was for and re-open it.
+ *
+ * The paid HTML is kept beside the receipt so it can be re-opened without
+ * paying again. It lives on disk, not in AsyncStorage: pages run to hundreds of
+ * kilobytes and AsyncStorage is one SQLite row per key on Android. Downloads
+ * are not kept — the handler hands them to the OS, and the presigned URL they
+ * came from expires.
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage'
+import { Random, Utils } from '@bsv/sdk'
+
+export const PAYMENT_RECEIPTS_KEY = 'PAYMENT_402_RECEIPTS_V1'
+
+/** Oldest receipts (and their stored pages) are dropped past this many. */
+export const MAX_RECEIPTS = 500
+
+export interface PaymentReceipt {
+  id: string
+  url: string
+  /** Hostname the policy ceiling applies to. */
+  domain: string
+  sats: number
+  txid: string
+  serverIdentityKey: string
+  /** ISO 8601. */
+  paidAt: string
+  /** Whether the paid page is stored and can be re-opened. */
+  hasContent: boolean
+}
+
+/**
+ * Where paid pages are kept. expo-file-system's native API is unavailable in
+ * jest, so tests substitute the in-memory store.
+ */
+export interface ReceiptContentStore {
+  read(id: string): Promise<string | undefined>
+  write(id: string, html: string): Promise<void>
+  remove(id: string): Promise<void>
+}
+
+const RECEIPTS_DIR = 'payment-receipts'
+
+/**
+ * Required lazily for the same reason as utils/headers/fs.ts: expo-file-system
+ * ships untranspiled TS, and an eager import breaks every test that reaches
+ * this module.
+ */
+export function expoReceiptContentStore(): ReceiptContentStore {
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  const { Directory, File, Paths } = require('expo-file-system') as typeof import('expo-file-system')
+  const dir = new Directory(Paths.document, RECEIPTS_DIR)
+  const file = (id: string) => new File(dir, `${id}.html`)
+  return {
+    async read(id) {
+      const f = file(id)
+      return f.exists ? await f.text() : undefined
+    },
+    async write(id, html) {
+      if (!dir.exists) dir.create({ intermediates: true })
+      const f = file(id)
+      if (!f.exists) f.create()
+      f.write(html)
+    },
+    async remove(id) {
+      const f = file(id)
+      if (f.exists) f.delete()
+    }
+  }
+}
+
+/** In-memory ReceiptContentStore for tests. */
+export function memoryReceiptContentStore(): ReceiptContentStore {
+  const pages = new Map<string, string>()
+  return {
+    async read(id) {
+      return pages.get(id)
+    },
+    async write(id, html) {
+      pages.set(id, html)
+    },
+    async remove(id) {
+      pages.delete(id)
+    }
+  }
+}
+
+let defaultStore: ReceiptContentStore | null = null
+function contentStore(store?: ReceiptContentStore): ReceiptContentStore {
+  if (store) return store
+  if (!defaultStore) defaultStore = expoReceiptContentStore()
+  return defaultStore
+}
+
+// Same discipline as utils/pay/watchlist.ts: every read-modify-write on the
+// single storage key runs through one chain.
+let queueLock: Promise<unknown> = Promise.resolve()
+
+function withQueueLock<T>(fn: () => Promise<T>): Promise<T> {
+  const run = queueLock.then(fn, fn)
+  queueLock = run.catch(() => undefined)
+  return run
+}
+
+async function readAll(): Promise<PaymentReceipt[]> {
+  try {
+    const raw = await AsyncStorage.getItem(PAYMENT_RECEIPTS_KEY)
+    if (!raw) return []
+    const parsed = JSON.parse(raw)
+    return Array.isArray(parsed) ? parsed : []
+  } catch {
+    return []
+  }
+}
+
+/** Every receipt, newest first. */
+export async function getReceipts(): Promise<PaymentReceipt[]> {
+  return readAll()
+}
+
+/** Receipts keyed by txid, for joining against the wallet's action list. */
+export async function getReceiptsByTxid(): Promise<Map<string, PaymentReceipt>> {
+  return new Map((await readAll()).map(r => [r.txid, r]))
+}
+
+/**
+ * Record a payment. `html` is the paid page, or null for a download.
+ *
+ * A failure to store the page still records the receipt, with hasContent
+ * false: the payment happened, and the log must say so whether or not the
+ * page can be shown again.
+ */
+export async function recordReceipt(
+  entry: Omit<PaymentReceipt, 'id' | 'paidAt' | 'hasContent'>,
+  html: string | null,
+  store?: ReceiptContentStore
+): Promise<PaymentReceipt> {
+  const id = Utils.toHex(Random(12))
+  let hasContent = false
+  if (html !== null) {
+    try {
+      await contentStore(store).write(id, html)
+      hasContent = true
+    } catch (e) {
+      console.warn('[402] could not store paid page:', e)
+    }
+  }
+  const receipt: PaymentReceipt = { ...entry, id, paidAt: new Date().toISOString(), hasContent }
+
+  const evicted = await withQueueLock(async () => {
+    const all = [receipt, ...(await readAll())]
+    const dropped = all.splice(MAX_RECEIPTS)
+    await AsyncStorage.setItem(PAYMENT_RECEIPTS_KEY, JSON.stringify(all))
+    return dropped
+  })
+  for (const old of evicted) {
+    if (old.hasContent) await contentStore(store).remove(old.id).catch(() => {})
+  }
+  return receipt
+}
+
+/** The stored page for a receipt, or null when there is none to re-open. */
+export async function readReceiptContent(receipt: PaymentReceipt, store?: ReceiptContentStore): Promise<string | null> {
+  if (!receipt.hasContent) return null
+  try {
+    return (await contentStore(store).read(receipt.id)) ?? null
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,15 @@
+/**
+ * Whether this device can open a private tab.
+ *
+ * A private tab is only private if its cookies and site storage die with it.
+ * iOS gives an `incognito` WebView a non-persistent WKWebsiteDataStore of its
+ * own. Android has one process-wide CookieManager and WebStorage, shared by
+ * every WebView in the app: there `incognito` wipes them for all tabs and a
+ * "private" tab would still read and write the regular tabs' cookies. So
+ * Android offers no private tabs rather than one that only looks private.
+ */
+import { Platform } from 'react-native'
+
+export function privateTabsSupported(): boolean {
+  return Platform.OS === 'ios'
+}
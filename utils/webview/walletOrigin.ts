@@ -9,15 +9,26 @@ export type WalletFrameIdentity = {
   responseOrigin: string
 }
 
-export function walletFrameIdentityFromUrl(frameUrl: unknown): WalletFrameIdentity | undefined {
+export function walletFrameIdentityFromUrl(frameUrl: unknown, container?: string): WalletFrameIdentity | undefined {
   if (typeof frameUrl !== 'string' || frameUrl.length === 0) return undefined
 
   try {
     const parsed = new URL(frameUrl)
     if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') return undefined
     if (!parsed.hostname) return undefined
-    return { originator: parsed.hostname, responseOrigin: parsed.origin }
+    return { originator: containerOriginator(parsed.hostname, container), responseOrigin: parsed.origin }
   } catch {
     return undefined
   }
 }
+
+/**
+ * The originator a page in a tab-group container presents to the wallet:
+ * `<container>.container.<host>`. Permissions, budgets and connections are
+ * keyed by originator, so the same site in two containers is two separate
+ * apps to the wallet. The prefix keeps it a hostname, and only the site's
+ * own subdomains could ever collide with it.
+ */
+export function containerOriginator(host: string, container?: string): string {
+  return container ? `${container}.container.${host}` : host
+}